@@ -12,9 +12,15 @@ import { getBusinessDetails, fetchGoogleAssets, scorePlaceByAddress } from './se
 import { generateBusinessContext } from './server/services/enrichmentService.js';
 import { reconcileIdentity } from './server/services/identityService.js';
 import { analyzeLocality } from './server/services/intelligenceService.js';
-import { createMainOrchestrator } from './server/adk/agents/MainOrchestrator.js';
-import { createFinancialOrchestrator } from './server/adk/financial/index.js';
+import { createMainOrchestrator, listPipelineAgents, QUICK_SCAN_PIPELINE_CONFIG } from './server/adk/agents/MainOrchestrator.js';
+import { collectPipelineErrors } from './server/adk/agents/GuardedSequentialAgent.js';
+import { createFinancialOrchestrator, getCompletedFinancialStages } from './server/adk/financial/index.js';
+import { FileSessionService } from './server/adk/sessions/FileSessionService.js';
+import { createProgressTracker } from './server/adk/utils/progressTracker.js';
+import { JobQueue } from './server/adk/jobs/JobQueue.js';
 import { startExtractionSession, endExtractionSession, logUserComments } from './server/extractionLogger.js';
+import { addComparables, toBodaccCession } from './server/adk/financial/tools/valuation/comparablesStore.js';
+import { buildLeaseCalendar, leaseCalendarToICalendar } from './server/adk/financial/tools/property/leaseCalendar.js';
 
 dotenv.config();
 
@@ -26,6 +32,19 @@ const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 const DOCUMENTS_DIR = path.join(__dirname, 'data', 'documents');
 const TEMP_DIR = path.join(__dirname, 'data', 'documents', 'temp');
+const ADK_SESSIONS_DIR = path.join(__dirname, 'data', 'adk-sessions');
+const JOBS_DIR = path.join(__dirname, 'data', 'jobs');
+
+// Sessions du pipeline financier persistées sur disque (reprise d'un run après échec)
+const financialSessionService = new FileSessionService(ADK_SESSIONS_DIR);
+
+// Sessions inactives depuis plus de ADK_SESSION_TTL secondes supprimées (au démarrage puis toutes les heures)
+const ADK_SESSION_TTL_MS = (parseInt(process.env.ADK_SESSION_TTL, 10) || 3600) * 1000;
+const cleanupFinancialSessions = () => financialSessionService.deleteExpiredSessions(ADK_SESSION_TTL_MS)
+    .then(count => count > 0 && logger.info('Expired ADK sessions deleted', { count }))
+    .catch(error => logger.error('Failed to delete expired ADK sessions', { error: error.message }));
+cleanupFinancialSessions();
+setInterval(cleanupFinancialSessions, 60 * 60 * 1000).unref();
 
 // Middleware
 app.use(cors());
@@ -191,6 +210,36 @@ Format de réponse attendu :
     }
 });
 
+/**
+ * Endpoint pour alimenter la base des cessions comparables (méthode des comparables)
+ * POST /api/bodacc-comparables
+ * Body: { groups: Array<{ records: Array<{id, date, amount, description?}>, nafCode: string, codePostal?: string, commune?: string }> }
+ * Un seul appel par enrichissement : toutes les adresses sont écrites en une fois
+ */
+app.post('/api/bodacc-comparables', async (req, res) => {
+    try {
+        const { groups } = req.body;
+
+        if (!Array.isArray(groups) || groups.some(g => !Array.isArray(g?.records) || !g.nafCode)) {
+            return res.status(400).json({
+                error: 'Missing required parameters: groups (array of { records (array), nafCode })'
+            });
+        }
+
+        const cessions = groups.flatMap(({ records, nafCode, codePostal, commune }) => records
+            .map(r => toBodaccCession(r, { nafCode, codePostal: codePostal || '', commune: commune || '' }))
+            .filter(Boolean));
+
+        const result = await addComparables(cessions);
+        logger.info('BODACC comparables stored', { groups: groups.length, ...result });
+
+        res.json(result);
+    } catch (error) {
+        logger.error('Error storing BODACC comparables', { message: error.message });
+        res.status(500).json({ error: 'Failed to store BODACC comparables' });
+    }
+});
+
 // Storage Service Imports
 import { getNotes, saveNote, getCart, addToCart, removeFromCart, getDocuments, saveDocument, deleteDocument, getBusinessDocuments } from './server/services/storageService.js';
 
@@ -615,29 +664,151 @@ async function saveReportManually(html, siret, outputDir = 'data/professional-re
     }
 }
 
+/**
+ * Ouvre un flux Server-Sent Events de progression si le client le demande
+ * (header `Accept: text/event-stream` ou query `?stream=1`), sinon retourne null.
+ *
+ * Événements SSE envoyés:
+ * - `progress` : { agent, status, result?, timestamp } (voir ProgressCallback)
+ * - `result`   : payload JSON identique à la réponse non-streamée
+ * - `error`    : payload d'erreur (le statut HTTP est déjà 200 une fois le flux ouvert)
+ */
+function openProgressStream(req, res) {
+    const acceptsStream = (req.headers.accept || '').includes('text/event-stream');
+    const streamQuery = req.query.stream === '1' || req.query.stream === 'true';
+
+    if (!acceptsStream && !streamQuery) {
+        return null;
+    }
+
+    res.status(200);
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no');
+    res.flushHeaders();
+
+    // Le pipeline continue si le client se déconnecte (résultat persisté / loggé)
+    let clientGone = false;
+    res.on('close', () => { clientGone = true; });
+
+    const send = (eventName, data) => {
+        if (clientGone || res.writableEnded) return;
+        res.write(`event: ${eventName}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    return {
+        onProgress: (agentName, status, result) => {
+            send('progress', {
+                agent: agentName,
+                status,
+                ...(result !== undefined && { result }),
+                timestamp: Date.now()
+            });
+        },
+        end: (eventName, data) => {
+            send(eventName, data);
+            if (!res.writableEnded) res.end();
+        }
+    };
+}
+
+/**
+ * Envoie la réponse finale d'un pipeline : événement SSE si le flux est ouvert, JSON sinon
+ */
+function sendPipelineResponse(res, progressStream, payload, status = 200) {
+    if (progressStream) {
+        progressStream.end(status >= 400 ? 'error' : 'result', payload);
+    } else {
+        res.status(status).json(payload);
+    }
+}
+
+/**
+ * Interrompt la boucle d'événements du Runner si le job a été annulé
+ * (le for await ferme le générateur ADK à la levée de l'erreur)
+ */
+function throwIfCancelled(signal) {
+    if (signal?.aborted) {
+        throw new Error('Analysis cancelled');
+    }
+}
+
 /**
  * Endpoint pour analyse professionnelle ADK (pipeline TypeScript officiel)
  * POST /api/analyze-professional-adk
- * Body: { business: Object }
+ * Body: { business: Object, mode?: 'full' | 'quick', config?: PipelineConfig }
  * Returns: { success: boolean, state: AgentState, report: { filepath, filename } }
+ *
+ * mode 'quick' : "quick scan" pour le tri de prospects (sans validation/arbitrage,
+ * sans clarifications, durée bornée). `config` surcharge champ par champ.
+ *
+ * Streaming: avec `Accept: text/event-stream` (ou `?stream=1`), la progression est
+ * envoyée en SSE (un événement par agent, appel de tool et clé de state) puis le
+ * résultat final dans un événement `result`.
  */
+app.post('/api/analyze-professional-adk', async (req, res) => {
+    // Requête invalide : 400 JSON avant d'ouvrir le flux SSE
+    const invalid = validateProfessionalRequest(req.body);
+    if (invalid) {
+        return res.status(400).json(invalid);
+    }
+
+    const progressStream = openProgressStream(req, res);
+    const { status, payload } = await runProfessionalAnalysis(req.body, {
+        onProgress: progressStream?.onProgress
+    });
+    sendPipelineResponse(res, progressStream, payload, status);
+});
+
 /**
- * Endpoint ADK pour analyse professionnelle complète
- * Pattern ADK officiel: Runner créé au niveau endpoint
+ * Valide le body d'une analyse professionnelle
+ * @returns {Object|null} payload d'erreur 400, ou null si valide
  */
-app.post('/api/analyze-professional-adk', async (req, res) => {
+function validateProfessionalRequest(body) {
+    const { business, mode = 'full' } = body || {};
+
+    if (!business) {
+        return { error: 'Missing business parameter' };
+    }
+
+    if (mode !== 'full' && mode !== 'quick') {
+        return { error: `Unknown mode: ${mode} (expected 'full' or 'quick')` };
+    }
+
+    return null;
+}
+
+/**
+ * Exécute le pipeline ADK d'analyse professionnelle complète
+ * Pattern ADK officiel: Runner créé à chaque analyse
+ *
+ * Partagé par l'endpoint HTTP et la file de jobs (POST /api/jobs).
+ * @param {Object} body - { business: Object, mode?: 'full' | 'quick', config?: PipelineConfig }
+ * @param {Object} [runOptions] - { onProgress?: ProgressCallback, signal?: AbortSignal }
+ * @returns {Promise<{ status: number, payload: Object }>}
+ */
+async function runProfessionalAnalysis(body, { onProgress, signal } = {}) {
     const startTime = Date.now();
+    const progressTracker = onProgress ? createProgressTracker(onProgress) : null;
 
     try {
-        const { business } = req.body;
-
-        if (!business) {
-            return res.status(400).json({ error: 'Missing business parameter' });
+        const invalid = validateProfessionalRequest(body);
+        if (invalid) {
+            return { status: 400, payload: invalid };
         }
 
+        const { business, mode = 'full', config = {} } = body;
+
+        const pipelineConfig = mode === 'quick'
+            ? { ...QUICK_SCAN_PIPELINE_CONFIG, ...config }
+            : config;
+
         logger.info('Starting ADK professional analysis', {
             siret: business.siret,
-            nom: business.enseigne || business.nom_complet || business.nom_raison_sociale
+            nom: business.enseigne || business.nom_complet || business.nom_raison_sociale,
+            mode,
+            pipelineConfig
         });
 
         // Configuration session ADK
@@ -654,7 +825,8 @@ app.post('/api/analyze-professional-adk', async (req, res) => {
             metadata: {
                 startTime,
                 siret: business.siret,
-                pipelineVersion: '2.0.0-ADK'
+                pipelineVersion: '2.0.0-ADK',
+                mode
             }
         };
 
@@ -666,7 +838,7 @@ app.post('/api/analyze-professional-adk', async (req, res) => {
         });
 
         // 4. Créer orchestrateur SequentialAgent (état de l'art ADK - pas de wrapper LlmAgent)
-        const orchestrator = createMainOrchestrator();
+        const orchestrator = createMainOrchestrator(pipelineConfig);
 
         // 5. Créer Runner avec SequentialAgent comme root agent (pas de handoff)
         const runner = new Runner({
@@ -697,6 +869,9 @@ The business data is also available in state.business for all agents.`
             },
             stateDelta: initialState
         })) {
+            throwIfCancelled(signal);
+            progressTracker?.handleEvent(event);
+
             // Détecter mise à jour du state (pattern ADK correct)
             if (event.actions?.stateDelta && Object.keys(event.actions.stateDelta).length > 0) {
                 const deltaKeys = Object.keys(event.actions.stateDelta);
@@ -813,6 +988,8 @@ The business data is also available in state.business for all agents.`
             }
         }
 
+        progressTracker?.finish();
+
         // 7. Finaliser metadata
         const totalDuration = Date.now() - startTime;
         finalState.metadata = {
@@ -877,7 +1054,7 @@ The business data is also available in state.business for all agents.`
         }
 
         // 8. Réponse
-        res.json({
+        return { status: 200, payload: {
             success: true,
             state: finalState,
             report: finalState.report ? {
@@ -895,78 +1072,250 @@ The business data is also available in state.business for all agents.`
             metadata: {
                 siret: business.siret,
                 duration: totalDuration,
-                agents_executed: 10,
+                agents_executed: listPipelineAgents(orchestrator).length,
+                mode,
+                errors: collectPipelineErrors(finalState),
                 timestamp: new Date().toISOString(),
                 pipeline_version: '2.0.0-ADK'
             }
-        });
+        } };
 
     } catch (error) {
         const duration = Date.now() - startTime;
 
         logger.error('ADK pipeline failed', {
-            siret: req.body.business?.siret,
+            siret: body?.business?.siret,
             error: error.message,
             stack: error.stack,
             duration
         });
 
-        res.status(500).json({
+        progressTracker?.finish(error);
+
+        return { status: 500, payload: {
             success: false,
             error: 'Analysis failed',
             message: error.message,
             duration
+        } };
+    }
+}
+
+const FINANCIAL_APP_NAME = 'searchcommerce-financial';
+
+/**
+ * Identifiant de session ADK d'un run financier (clé SIRET + run id)
+ */
+function getFinancialSessionId(siret, runId) {
+    return `financial-${siret || 'N_A'}-${runId}`;
+}
+
+/**
+ * Liste les runs financiers persistés pour un SIRET (pour reprise)
+ * GET /api/analyze-financial/runs/:siret
+ * Returns: { runs: Array<{ runId, lastUpdateTime, completedStages }> }
+ */
+app.get('/api/analyze-financial/runs/:siret', async (req, res) => {
+    try {
+        const { siret } = req.params;
+        const prefix = getFinancialSessionId(siret, '');
+
+        const { sessions } = await financialSessionService.listSessions({
+            appName: FINANCIAL_APP_NAME,
+            userId: 'system'
+        });
+
+        const runs = [];
+        for (const { id } of sessions.filter(s => s.id.startsWith(prefix))) {
+            const session = await financialSessionService.getSession({
+                appName: FINANCIAL_APP_NAME,
+                userId: 'system',
+                sessionId: id
+            });
+            if (!session) continue;
+
+            runs.push({
+                runId: id.slice(prefix.length),
+                lastUpdateTime: session.lastUpdateTime,
+                completedStages: getCompletedFinancialStages(session.events)
+            });
+        }
+
+        runs.sort((a, b) => b.lastUpdateTime - a.lastUpdateTime);
+        res.json({ runs });
+
+    } catch (error) {
+        logger.error('Error listing financial runs', { error: error.message });
+        res.status(500).json({ error: error.message });
+    }
+});
+
+/**
+ * Export iCalendar des dates clés du bail analysé (échéances triennales, congés, renouvellement)
+ * GET /api/analyze-financial/lease-calendar/:siret?runId=...
+ * Sans runId, le run le plus récent du SIRET est utilisé.
+ * Returns: text/calendar (bail-<siret>.ics)
+ */
+app.get('/api/analyze-financial/lease-calendar/:siret', async (req, res) => {
+    try {
+        const { siret } = req.params;
+        const { runId } = req.query;
+        const prefix = getFinancialSessionId(siret, '');
+
+        let sessionId = runId ? getFinancialSessionId(siret, runId) : null;
+        if (!sessionId) {
+            const { sessions } = await financialSessionService.listSessions({
+                appName: FINANCIAL_APP_NAME,
+                userId: 'system'
+            });
+            const latest = sessions
+                .filter(s => s.id.startsWith(prefix))
+                .sort((a, b) => b.lastUpdateTime - a.lastUpdateTime)[0];
+            sessionId = latest?.id;
+        }
+
+        const session = sessionId && await financialSessionService.getSession({
+            appName: FINANCIAL_APP_NAME,
+            userId: 'system',
+            sessionId
+        });
+        if (!session) {
+            return res.status(404).json({ error: `Aucune analyse financière pour le SIRET ${siret}` });
+        }
+
+        const parse = (value) => typeof value === 'string' ? JSON.parse(value) : value;
+        const stored = parse(session.state.calendrierBail);
+        const bail = parse(session.state.immobilier)?.bail;
+        const dateEffet = stored?.date_effet || bail?.date_effet;
+        if (!dateEffet) {
+            return res.status(404).json({ error: 'Date d\'effet du bail non disponible pour ce run' });
+        }
+
+        // Recalcul à la date du jour : les événements passés depuis l'analyse sont exclus
+        const calendar = buildLeaseCalendar({
+            dateEffet,
+            dateFin: stored?.date_fin || bail?.date_fin || undefined,
+            typeBail: stored?.type_bail || bail?.type
+        });
+        const ics = leaseCalendarToICalendar(calendar, {
+            siret,
+            nomCommerce: parse(session.state.businessInfo)?.name
         });
+
+        res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+        res.setHeader('Content-Disposition', `attachment; filename="bail-${siret}.ics"`);
+        res.send(ics);
+
+    } catch (error) {
+        logger.error('Error exporting lease calendar', { error: error.message });
+        res.status(500).json({ error: error.message });
     }
 });
 
 /**
  * Endpoint pour analyse financière ADK (pipeline TypeScript indépendant)
  * POST /api/analyze-financial
- * Body: { documents: Array, businessInfo: Object, options?: Object }
- * Returns: { success: boolean, reportPath: string, summary: Object }
+ * Body: { documents: Array, businessInfo: Object, options?: Object, runId?: string }
+ * Returns: { success: boolean, runId: string, reportPath: string, summary: Object }
+ *
+ * Si runId est fourni, le run persisté correspondant (session financial-<siret>-<runId>)
+ * est repris à partir du premier agent non terminé : documentExtraction, comptable, etc.
+ * déjà présents dans le state ne sont pas recalculés. documents est alors optionnel.
+ *
+ * Streaming: même protocole SSE que /api/analyze-professional-adk.
  */
 app.post('/api/analyze-financial', async (req, res) => {
-    const startTime = Date.now();
+    // Requête invalide : 400 JSON avant d'ouvrir le flux SSE
+    const invalid = validateFinancialRequest(req.body);
+    if (invalid) {
+        return res.status(400).json(invalid);
+    }
 
-    try {
-        const { documents, businessInfo, userComments, options = {} } = req.body;
+    const progressStream = openProgressStream(req, res);
+    const { status, payload } = await runFinancialAnalysis(req.body, {
+        onProgress: progressStream?.onProgress
+    });
+    sendPipelineResponse(res, progressStream, payload, status);
+});
 
-        if (!documents || !Array.isArray(documents) || documents.length === 0) {
-            return res.status(400).json({ error: 'Missing documents parameter (must be non-empty array)' });
-        }
+/**
+ * Valide le body d'une analyse financière
+ * @returns {Object|null} payload d'erreur 400, ou null si valide
+ */
+function validateFinancialRequest(body) {
+    const { documents, businessInfo, runId } = body || {};
 
-        if (!businessInfo || !businessInfo.name) {
-            return res.status(400).json({ error: 'Missing businessInfo parameter (must include name)' });
-        }
+    if (!runId && (!documents || !Array.isArray(documents) || documents.length === 0)) {
+        return { error: 'Missing documents parameter (must be non-empty array)' };
+    }
+
+    if (!businessInfo || !businessInfo.name) {
+        return { error: 'Missing businessInfo parameter (must include name)' };
+    }
+
+    if (!businessInfo.secteurActivite) {
+        return { error: 'Le champ "Secteur d\'activité" est obligatoire' };
+    }
+
+    return null;
+}
+
+/**
+ * Exécute (ou reprend) le pipeline ADK d'analyse financière
+ *
+ * Partagé par l'endpoint HTTP et la file de jobs (POST /api/jobs).
+ * @param {Object} body - { documents, businessInfo, userComments?, options?, runId? }
+ * @param {Object} [runOptions] - { onProgress?: ProgressCallback, onRunId?: (runId) => void, signal?: AbortSignal }
+ * @returns {Promise<{ status: number, payload: Object }>}
+ */
+async function runFinancialAnalysis(body, { onProgress, onRunId, signal } = {}) {
+    const startTime = Date.now();
+    const progressTracker = onProgress ? createProgressTracker(onProgress) : null;
 
-        if (!businessInfo.secteurActivite) {
-            return res.status(400).json({ error: 'Le champ "Secteur d\'activité" est obligatoire' });
+    try {
+        const invalid = validateFinancialRequest(body);
+        if (invalid) {
+            return { status: 400, payload: invalid };
         }
 
+        const { documents, businessInfo, userComments, options = {}, runId: resumeRunId } = body;
+        const isResume = !!resumeRunId;
+
         logger.info('Starting Financial ADK analysis', {
             siret: businessInfo.siret || 'N/A',
             name: businessInfo.name,
-            documentsCount: documents.length
+            documentsCount: documents?.length || 0,
+            resumeRunId: resumeRunId || null
         });
 
         // Start extraction logging session (creates unique log file per analysis)
         const siretForLog = businessInfo.siret || 'N_A';
         startExtractionSession(siretForLog);
 
-        // Configuration session ADK
-        const appName = 'searchcommerce-financial';
+        // Configuration session ADK (clé = SIRET + run id)
+        const appName = FINANCIAL_APP_NAME;
         const userId = 'system';
-        const sessionId = `financial-${businessInfo.siret || Date.now()}`;
-
-        // 1. Créer session service
-        const sessionService = new InMemorySessionService();
+        const runId = resumeRunId || Date.now().toString(36);
+        const sessionId = getFinancialSessionId(businessInfo.siret, runId);
+        onRunId?.(runId);
+
+        // 1. Session service persistant (partagé entre requêtes)
+        const sessionService = financialSessionService;
+
+        let existingSession = null;
+        if (isResume) {
+            existingSession = await sessionService.getSession({ appName, userId, sessionId });
+            if (!existingSession) {
+                endExtractionSession(siretForLog);
+                return { status: 404, payload: { error: `Run ${resumeRunId} introuvable pour ce SIRET` } };
+            }
+        }
 
         // 2. Convertir les documents base64 en Buffer si nécessaire
-        const processedDocuments = documents.map(doc => {
+        const processedDocuments = (documents || []).map(doc => {
             if (doc.content && typeof doc.content === 'string') {
-                // Supprimer le préfixe data:application/pdf;base64, si présent
-                const base64Data = doc.content.replace(/^data:application\/pdf;base64,/, '');
+                // Supprimer le préfixe data:<mime>;base64, si présent (PDF ou FEC .txt)
+                const base64Data = doc.content.replace(/^data:[^;,]+;base64,/, '');
                 return {
                     ...doc,
                     content: Buffer.from(base64Data, 'base64')
@@ -1133,8 +1482,25 @@ app.post('/api/analyze-financial', async (req, res) => {
             console.log('[parseFinancing] ✅ Transaction financing data integrated into state');
         }
 
+        // Alimenter la base des comparables avec les cessions BODACC du commerce (non bloquant)
+        if (Array.isArray(businessInfo.bodaccData) && businessInfo.bodaccData.length > 0) {
+            try {
+                const cessions = businessInfo.bodaccData
+                    .map(r => toBodaccCession(r, {
+                        nafCode: businessInfo.secteurActivite,
+                        codePostal: businessInfo.codePostal || '',
+                        commune: businessInfo.commune || ''
+                    }))
+                    .filter(Boolean);
+                const { ajoutees, total } = await addComparables(cessions);
+                console.log(`[bodaccComparables] ✅ ${ajoutees} cession(s) ajoutée(s) (${total} en base)`);
+            } catch (error) {
+                console.warn('[bodaccComparables] ⚠️ Stockage des cessions BODACC impossible:', error.message);
+            }
+        }
+
         // 3. État initial
-        const initialState = {
+        let initialState = {
             documents: processedDocuments,
             businessInfo: {
                 name: businessInfo.name,
@@ -1142,7 +1508,9 @@ app.post('/api/analyze-financial', async (req, res) => {
                 nafCode: businessInfo.nafCode || '',              // NAF from API (audit trail only)
                 secteurActivite: businessInfo.secteurActivite,    // User-selected sector code (required)
                 secteurActiviteLabel: businessInfo.secteurActiviteLabel || '', // User-selected sector label (for display)
-                activity: businessInfo.activity || ''
+                activity: businessInfo.activity || '',
+                codePostal: businessInfo.codePostal || '',
+                commune: businessInfo.commune || ''
             },
             userComments: enrichedUserComments,
             options: {
@@ -1244,15 +1612,37 @@ app.post('/api/analyze-financial', async (req, res) => {
             console.log('═══════════════════════════════════════════════════════════════\n');
         }
 
-        // 4. Créer session
-        await sessionService.createSession({
-            appName,
-            userId,
-            sessionId
-        });
+        // 4. Créer session (ou reprendre la session persistée)
+        let completedStages = [];
+        let runStateDelta = initialState;
+        if (existingSession) {
+            completedStages = getCompletedFinancialStages(existingSession.events);
+
+            // Seuls les champs renvoyés par le client écrasent le state persisté
+            const resumeDelta = {
+                ...(documents?.length ? { documents: processedDocuments } : {}),
+                ...(userComments ? { userComments: enrichedUserComments } : {}),
+                ...(body.options ? { options: initialState.options } : {}),
+                metadata: { ...existingSession.state.metadata, resumedAt: startTime }
+            };
+            initialState = { ...existingSession.state, ...resumeDelta };
+            runStateDelta = resumeDelta;
+
+            logger.info('Resuming persisted financial run', {
+                siret: businessInfo.siret || 'N/A',
+                runId,
+                completedStages
+            });
+        } else {
+            await sessionService.createSession({
+                appName,
+                userId,
+                sessionId
+            });
+        }
 
-        // 5. Créer orchestrateur SequentialAgent
-        const orchestrator = createFinancialOrchestrator();
+        // 5. Créer orchestrateur SequentialAgent (sans les étapes déjà terminées)
+        const orchestrator = createFinancialOrchestrator({ completedStages });
 
         // 6. Créer Runner
         const runner = new Runner({
@@ -1267,16 +1657,25 @@ app.post('/api/analyze-financial', async (req, res) => {
 
         logger.info('Starting Financial ADK pipeline', {
             siret: businessInfo.siret || 'N/A',
-            name: businessInfo.name
+            name: businessInfo.name,
+            runId,
+            remainingAgents: orchestrator.subAgents.map(a => a.name)
         });
 
-        for await (const event of runner.runAsync({
+        const pipelineEvents = orchestrator.subAgents.length === 0 ? [] : runner.runAsync({
             userId,
             sessionId,
             newMessage: {
                 role: 'user',
                 parts: [{
-                    text: `Start financial analysis pipeline
+                    text: existingSession
+                        ? `Resume financial analysis pipeline
+
+Business: ${businessInfo.name}
+Already completed: ${completedStages.join(', ')}
+
+Previous agent outputs are available in state for all agents.`
+                        : `Start financial analysis pipeline
 
 Documents: ${documents.length} file(s)
 Business: ${businessInfo.name}
@@ -1284,8 +1683,13 @@ Business: ${businessInfo.name}
 The documents and business info are available in state for all agents.`
                 }]
             },
-            stateDelta: initialState
-        })) {
+            stateDelta: runStateDelta
+        });
+
+        for await (const event of pipelineEvents) {
+            throwIfCancelled(signal);
+            progressTracker?.handleEvent(event);
+
             // Détecter mise à jour du state
             if (event.actions?.stateDelta && Object.keys(event.actions.stateDelta).length > 0) {
                 const deltaKeys = Object.keys(event.actions.stateDelta);
@@ -1395,6 +1799,8 @@ The documents and business info are available in state for all agents.`
             }
         }
 
+        progressTracker?.finish();
+
         // 8. Finaliser metadata
         const totalDuration = Date.now() - startTime;
         finalState.metadata = {
@@ -1454,8 +1860,10 @@ The documents and business info are available in state for all agents.`
         endExtractionSession(siretForLog);
 
         // 10. Réponse
-        res.json({
+        return { status: 200, payload: {
             success: true,
+            runId,
+            resumedFrom: existingSession ? completedStages : null,
             reportPath: finalState.financialReport?.filepath || null,
             reportFilename: finalState.financialReport?.filename || null,
             summary,
@@ -1476,31 +1884,129 @@ The documents and business info are available in state for all agents.`
                     niveauConfiance: finalState.financialValidation.synthese?.niveauConfiance
                 } : null
             }
-        });
+        } };
 
     } catch (error) {
         const duration = Date.now() - startTime;
 
         // End extraction logging session even on error
-        const siretForLogCatch = req.body.businessInfo?.siret || 'N_A';
+        const siretForLogCatch = body?.businessInfo?.siret || 'N_A';
         endExtractionSession(siretForLogCatch);
 
         logger.error('Financial ADK pipeline failed', {
-            siret: req.body.businessInfo?.siret || 'N/A',
+            siret: body?.businessInfo?.siret || 'N/A',
             error: error.message,
             stack: error.stack,
             duration
         });
 
-        res.status(500).json({
+        progressTracker?.finish(error);
+
+        return { status: 500, payload: {
             success: false,
             error: 'Financial analysis failed',
             message: error.message,
             duration
-        });
+        } };
+    }
+}
+
+// ========================================
+// JOBS - Analyses ADK en arrière-plan
+// ========================================
+
+// Concurrence bornée : chaque analyse enchaîne de nombreux appels Gemini
+const jobQueue = new JobQueue({
+    jobsDir: JOBS_DIR,
+    concurrency: parseInt(process.env.JOBS_CONCURRENCY, 10) || 2,
+    // Jobs terminés (résultat compris) supprimés après JOBS_RETENTION_DAYS jours
+    retentionMs: (parseInt(process.env.JOBS_RETENTION_DAYS, 10) || 7) * 24 * 60 * 60 * 1000,
+    runners: {
+        professional: runProfessionalAnalysis,
+        financial: runFinancialAnalysis
+    }
+});
+
+// Chargé avant app.listen : un job soumis pendant la reprise ne doit pas être marqué interrompu
+try {
+    await jobQueue.init();
+} catch (error) {
+    logger.error('Failed to load persisted jobs', { error: error.message });
+}
+
+/**
+ * Soumet une analyse en arrière-plan
+ * POST /api/jobs
+ * Body: { type?: 'professional' | 'financial', ...payload }
+ *   (payload identique à /api/analyze-professional-adk ou /api/analyze-financial ;
+ *    type déduit de la présence de `business` s'il est omis)
+ * Returns: 202 { jobId, status }
+ */
+app.post('/api/jobs', (req, res) => {
+    try {
+        const { type: requestedType, ...payload } = req.body || {};
+        const type = requestedType || (payload.business ? 'professional' : 'financial');
+
+        if (type !== 'professional' && type !== 'financial') {
+            return res.status(400).json({ error: `Unknown job type: ${type}` });
+        }
+
+        const invalid = type === 'professional' ? validateProfessionalRequest(payload) : validateFinancialRequest(payload);
+        if (invalid) {
+            return res.status(400).json(invalid);
+        }
+
+        const job = jobQueue.submit(type, payload);
+
+        logger.info('Analysis job queued', { jobId: job.id, type, siret: job.siret });
+
+        res.status(202).json({ jobId: job.id, status: job.status });
+
+    } catch (error) {
+        logger.error('Error submitting job', { error: error.message });
+        res.status(500).json({ error: error.message });
     }
 });
 
+/**
+ * Liste les jobs (optionnellement filtrés par SIRET), sans leur résultat
+ * GET /api/jobs?siret=
+ */
+app.get('/api/jobs', (req, res) => {
+    res.json({ jobs: jobQueue.list({ siret: req.query.siret }) });
+});
+
+/**
+ * Statut, agent courant et résultat d'un job
+ * GET /api/jobs/:id
+ */
+app.get('/api/jobs/:id', (req, res) => {
+    const job = jobQueue.get(req.params.id);
+    if (!job) {
+        return res.status(404).json({ error: 'Job not found' });
+    }
+    res.json(job);
+});
+
+/**
+ * Annule un job en attente ou en cours
+ * DELETE /api/jobs/:id
+ */
+app.delete('/api/jobs/:id', (req, res) => {
+    const job = jobQueue.get(req.params.id);
+    if (!job) {
+        return res.status(404).json({ error: 'Job not found' });
+    }
+
+    if (!jobQueue.cancel(job.id)) {
+        return res.status(409).json({ error: `Job already ${job.status}` });
+    }
+
+    logger.info('Analysis job cancelled', { jobId: job.id, status: job.status });
+    // Un job en cours reste "running" jusqu'au prochain événement ADK
+    res.json({ jobId: job.id, status: job.status === 'running' ? 'cancelling' : job.status });
+});
+
 /**
  * Endpoint pour recherche nearby par coordonnées GPS
  * POST /api/places-nearby
@@ -36,9 +36,17 @@ import type { AgentState } from '../types/index.js';
  * - updated_fields: données corrigées
  * - actions_required: liste actions correctives
  */
+export interface ArbitratorAgentOptions {
+  /** Sévérité minimale des conflits arbitrés (PipelineConfig.conflictSeverityThreshold) */
+  conflictSeverityThreshold?: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
+}
+
+const SEVERITY_ORDER = ['LOW', 'MEDIUM', 'HIGH', 'CRITICAL'] as const;
+
 export class ArbitratorAgent extends LlmAgent {
-  constructor() {
+  constructor({ conflictSeverityThreshold = 'LOW' }: ArbitratorAgentOptions = {}) {
     const modelConfig = getModelConfig('arbitrator');
+    const arbitratedSeverities = SEVERITY_ORDER.slice(SEVERITY_ORDER.indexOf(conflictSeverityThreshold));
 
     super({
       name: 'arbitrator',
@@ -70,6 +78,8 @@ WORKFLOW (TRAITER CHAQUE CONFLIT INDIVIDUELLEMENT):
    - Si aucun conflit OU requires_arbitration=false:
      → Retourner { "arbitrated": false, "reason": "No conflicts requiring arbitration" }
    - Si conflits présents: procéder aux étapes 2-4 POUR CHAQUE CONFLIT
+   - Seuil de sévérité: n'arbitrer QUE les conflits de sévérité ${arbitratedSeverities.join(', ')}
+     (les autres sont ignorés; si aucun conflit au-dessus du seuil → "arbitrated": false)
 
 2. **BOUCLE SUR CHAQUE CONFLIT** (Gemini peut appeler PLUSIEURS tools par tour)
 
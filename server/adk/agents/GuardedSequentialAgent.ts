@@ -0,0 +1,171 @@
+import { ParallelAgent, SequentialAgent, createEvent, createEventActions } from '@google/adk';
+import type { BaseAgent, Event, InvocationContext } from '@google/adk';
+
+/**
+ * GuardedSequentialAgent - SequentialAgent avec timeouts et gestion d'erreurs (ADK)
+ *
+ * Même ordre d'exécution que SequentialAgent, avec en plus :
+ * - agentTimeout : durée max d'un sous-agent (ms) - non appliqué à un ParallelAgent,
+ *   dont les branches sont bornées individuellement (voir createMainOrchestrator)
+ * - timeout      : durée max du pipeline complet (ms) - les agents restants sont sautés
+ * - continueOnError : un sous-agent en erreur / timeout n'interrompt pas le pipeline
+ *
+ * Un sous-agent interrompu produit un événement ADK avec errorCode
+ * (AGENT_TIMEOUT, PIPELINE_TIMEOUT, AGENT_ERROR) et une entrée dans le state
+ * sous la clé "errors.<agentName>" (voir collectPipelineErrors).
+ *
+ * Une clé par agent et non un tableau state.errors réécrit à chaque erreur : deux
+ * branches d'un ParallelAgent qui échouent ensemble liraient le même tableau et
+ * la dernière écriture effacerait l'autre erreur.
+ *
+ * ⚠️ L'appel Gemini en vol n'est pas annulé : ses événements sont simplement ignorés.
+ */
+
+export interface GuardedSequentialAgentConfig {
+  name: string;
+  description?: string;
+  subAgents: BaseAgent[];
+  agentTimeout?: number;
+  timeout?: number;
+  continueOnError?: boolean;
+}
+
+export interface PipelineError {
+  agent: string;
+  error: string;
+  timestamp: string;
+}
+
+const ERROR_KEY_PREFIX = 'errors.';
+
+/**
+ * Erreurs du pipeline enregistrées dans le state, par ordre chronologique
+ */
+export function collectPipelineErrors(state: Record<string, unknown>): PipelineError[] {
+  return Object.keys(state)
+    .filter(key => key.startsWith(ERROR_KEY_PREFIX))
+    .map(key => state[key] as PipelineError)
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+}
+
+class AgentTimeoutError extends Error {
+  constructor(readonly code: 'AGENT_TIMEOUT' | 'PIPELINE_TIMEOUT', message: string) {
+    super(message);
+    this.name = 'AgentTimeoutError';
+  }
+}
+
+export class GuardedSequentialAgent extends SequentialAgent {
+  readonly agentTimeout?: number;
+  readonly timeout?: number;
+  readonly continueOnError: boolean;
+
+  constructor({ agentTimeout, timeout, continueOnError = true, ...config }: GuardedSequentialAgentConfig) {
+    super(config);
+    this.agentTimeout = agentTimeout;
+    this.timeout = timeout;
+    this.continueOnError = continueOnError;
+  }
+
+  protected async *runAsyncImpl(context: InvocationContext): AsyncGenerator<Event, void, void> {
+    const deadline = this.timeout ? Date.now() + this.timeout : Infinity;
+
+    for (const subAgent of this.subAgents) {
+      if (Date.now() >= deadline) {
+        // Timeout global : les agents restants ne sont pas lancés
+        yield this.createErrorEvent(context, subAgent.name, 'PIPELINE_TIMEOUT',
+          `Pipeline timeout (${this.timeout}ms) reached before ${subAgent.name}`);
+        continue;
+      }
+
+      const remaining = deadline - Date.now();
+      const agentTimeout = subAgent instanceof ParallelAgent ? undefined : this.agentTimeout;
+      const limit = agentTimeout ? Math.min(agentTimeout, remaining) : remaining;
+      const code = agentTimeout && agentTimeout <= remaining ? 'AGENT_TIMEOUT' : 'PIPELINE_TIMEOUT';
+
+      try {
+        for await (const event of withTimeout(subAgent.runAsync(context), limit, code, subAgent.name)) {
+          yield event;
+        }
+      } catch (error: any) {
+        const errorCode = error instanceof AgentTimeoutError ? error.code : 'AGENT_ERROR';
+        console.error(`❌ [${this.name}] ${subAgent.name} failed (${errorCode}): ${error.message}`);
+
+        if (!this.continueOnError) {
+          throw error;
+        }
+        yield this.createErrorEvent(context, subAgent.name, errorCode, error.message);
+      }
+    }
+  }
+
+  /**
+   * Événement d'erreur attribué au sous-agent, avec son entrée "errors.<agentName>" dans le state
+   */
+  private createErrorEvent(context: InvocationContext, agentName: string, errorCode: string, errorMessage: string): Event {
+    const entry: PipelineError = { agent: agentName, error: `${errorCode}: ${errorMessage}`, timestamp: new Date().toISOString() };
+
+    return createEvent({
+      invocationId: context.invocationId,
+      author: agentName,
+      branch: context.branch,
+      errorCode,
+      errorMessage,
+      actions: createEventActions({
+        stateDelta: {
+          [`${ERROR_KEY_PREFIX}${agentName}`]: entry
+        }
+      })
+    });
+  }
+}
+
+/**
+ * Itère un générateur d'événements en levant AgentTimeoutError si la durée dépasse `ms`
+ */
+async function* withTimeout(
+  events: AsyncGenerator<Event, void, void>,
+  ms: number,
+  code: 'AGENT_TIMEOUT' | 'PIPELINE_TIMEOUT',
+  agentName: string
+): AsyncGenerator<Event, void, void> {
+  if (!Number.isFinite(ms)) {
+    yield* events;
+    return;
+  }
+
+  const deadline = Date.now() + ms;
+  let timer: NodeJS.Timeout | undefined;
+  let finished = false;
+
+  try {
+    while (true) {
+      const timeoutPromise = new Promise<never>((_, reject) => {
+        timer = setTimeout(
+          () => reject(new AgentTimeoutError(code, `${agentName} exceeded ${ms}ms`)),
+          Math.max(0, deadline - Date.now())
+        );
+      });
+
+      const next = events.next();
+      next.catch(() => {}); // Rejet tardif après timeout : déjà traité
+
+      const result = await Promise.race([next, timeoutPromise]);
+      clearTimeout(timer);
+
+      if (result.done) {
+        finished = true;
+        return;
+      }
+      yield result.value;
+    }
+  } finally {
+    clearTimeout(timer);
+    if (!finished) {
+      // Timeout ou arrêt du consommateur : le générateur est fermé sans attendre l'appel LLM en cours
+      void events.return(undefined).catch(() => {});
+    }
+  }
+}
+
+export default GuardedSequentialAgent;
@@ -1,6 +1,8 @@
-import { SequentialAgent } from '@google/adk';
+import { ParallelAgent, SequentialAgent } from '@google/adk';
+import type { BaseAgent } from '@google/adk';
+import { GuardedSequentialAgent } from './GuardedSequentialAgent.js';
 import { PreparationAgent } from './PreparationAgent.js';
-import { DemographicAgent } from './demographicAgent.js';
+import { DemographicAgent } from './DemographicAgent.js';
 import { PlacesAgent } from './PlacesAgent.js';
 import { PhotoAnalysisAgent } from './PhotoAnalysisAgent.js';
 import { CompetitorAgent } from './CompetitorAgent.js';
@@ -9,21 +11,22 @@ import { GapAnalysisAgent } from './GapAnalysisAgent.js';
 import { ArbitratorAgent } from './ArbitratorAgent.js';
 import { StrategicAgent } from './StrategicAgent.js';
 import { ReportAgent } from './ReportAgent.js';
-import type { AgentState } from '../types/index.js';
+import type { PipelineConfig } from '../types/index.js';
 
 /**
  * MainOrchestrator - Orchestrateur principal du pipeline (ADK)
  *
- * SequentialAgent pur suivant les patterns ADK officiels (état de l'art).
- * Orchestre 10 agents spécialisés dans l'ordre séquentiel pour produire
- * une analyse professionnelle complète.
+ * SequentialAgent suivant les patterns ADK officiels (état de l'art).
+ * Orchestre 10 agents spécialisés pour produire une analyse professionnelle
+ * complète ; les agents qui ne dépendent que de state.preparation tournent
+ * en parallèle (ParallelAgent "market_analysis").
  *
  * Pipeline (ordre d'exécution):
  * 1. PreparationAgent - Normalisation adresse + extraction GPS
- * 2. DemographicAgent - Analyse démographique + potentiel zone
- * 3. PlacesAgent - Enrichissement Google Places (photos, avis)
- * 4. PhotoAnalysisAgent - Analyse Gemini Vision (état, travaux)
- * 5. CompetitorAgent - Analyse concurrentielle POI
+ * 2-5. market_analysis (ParallelAgent, 3 branches concurrentes):
+ *    - DemographicAgent - Analyse démographique + potentiel zone
+ *    - PlacesAgent → PhotoAnalysisAgent - Google Places (photos, avis) puis Gemini Vision (lit state.places)
+ *    - CompetitorAgent - Analyse concurrentielle POI
  * 6. ValidationAgent - Validation croisée + détection conflits
  * 7. GapAnalysisAgent - Scores multi-dimensionnels + risques
  * 8. ArbitratorAgent - Résolution conflits détectés
@@ -34,24 +37,52 @@ import type { AgentState } from '../types/index.js';
  * - SequentialAgent directement comme root agent (pas de wrapper LlmAgent)
  * - Pas de handoff inutile (évite UNKNOWN_ERROR)
  * - Runner créé au niveau application (endpoint Express)
- * - State flow automatique via outputKey de chaque agent
+ * - State flow automatique via outputKey de chaque agent (branches parallèles
+ *   sur des clés distinctes : demographic, places, photo, competitor)
  * - Callbacks standard ADK (beforeAgentRun, afterAgentRun)
  * - continueOnError: true pour résilience
  *
+ * PipelineConfig:
+ * - enableValidation: false → ValidationAgent ET ArbitratorAgent sautés (pas de conflits à arbitrer)
+ * - enableArbitration: false → ArbitratorAgent sauté
+ * - maxClarifications → StrategicAgent (0 = pas d'askClarification)
+ * - conflictSeverityThreshold → ArbitratorAgent (sévérité minimale arbitrée)
+ * - agentTimeout / timeout / continueOnError → GuardedSequentialAgent (pipeline et chaque branche
+ *   parallèle : un agent en échec n'interrompt pas les autres branches)
+ *
  * Usage (dans endpoint Express):
  * ```javascript
- * const orchestrator = createMainOrchestrator({
- *   beforeAgentRun: (agentName, state) => logger.info(`Starting ${agentName}`),
- *   afterAgentRun: (agentName, state, result, error) => {
- *     if (error) logger.error(`${agentName} failed`, error);
- *   }
- * });
+ * const orchestrator = createMainOrchestrator(QUICK_SCAN_PIPELINE_CONFIG);
  *
  * const runner = new Runner({ appName, agent: orchestrator, sessionService });
  * for await (const event of runner.runAsync(...)) { ... }
  * ```
  */
 
+/**
+ * Config par défaut : pipeline complet, sans timeout
+ */
+export const DEFAULT_PIPELINE_CONFIG: PipelineConfig = {
+  enableValidation: true,
+  enableArbitration: true,
+  maxClarifications: 3,
+  conflictSeverityThreshold: 'LOW',
+  continueOnError: true
+};
+
+/**
+ * Mode "quick scan" (tri de prospects) : ni validation croisée ni arbitrage,
+ * pas de clarifications, et durée bornée
+ */
+export const QUICK_SCAN_PIPELINE_CONFIG: PipelineConfig = {
+  enableValidation: false,
+  enableArbitration: false,
+  maxClarifications: 0,
+  continueOnError: true,
+  agentTimeout: 60000,
+  timeout: 180000
+};
+
 /**
  * Crée l'orchestrateur principal - SequentialAgent direct (État de l'art ADK)
  *
@@ -59,24 +90,58 @@ import type { AgentState } from '../types/index.js';
  *
  * Les callbacks beforeAgentRun/afterAgentRun sont gérés au niveau du Runner (dans server.js)
  */
-export function createMainOrchestrator(): SequentialAgent {
-  return new SequentialAgent({
-    name: 'professional_analysis_pipeline',
-    description: 'Sequential execution of 10 specialized agents for professional business analysis',
+export function createMainOrchestrator(pipelineConfig: PipelineConfig = {}): SequentialAgent {
+  const config = { ...DEFAULT_PIPELINE_CONFIG, ...pipelineConfig };
+  const enableValidation = config.enableValidation !== false;
+  const enableArbitration = enableValidation && config.enableArbitration !== false;
+
+  // Chaque branche est bornée et isolée individuellement (agentTimeout, continueOnError)
+  const branch = (name: string, agents: BaseAgent[]) => new GuardedSequentialAgent({
+    name,
+    subAgents: agents,
+    agentTimeout: config.agentTimeout,
+    continueOnError: config.continueOnError
+  });
 
+  const marketAnalysis = new ParallelAgent({
+    name: 'market_analysis',
+    description: 'Parallel execution of agents depending only on state.preparation',
     subAgents: [
-      new PreparationAgent(),
-      new DemographicAgent(),
-      new PlacesAgent(),
-      new PhotoAnalysisAgent(),
-      new CompetitorAgent(),
-      new ValidationAgent(),
-      new GapAnalysisAgent(),
-      new ArbitratorAgent(),
-      new StrategicAgent(),
-      new ReportAgent()
+      branch('demographic_branch', [new DemographicAgent()]),
+      branch('places_photo_branch', [new PlacesAgent(), new PhotoAnalysisAgent()]),
+      branch('competitor_branch', [new CompetitorAgent()])
     ]
   });
+
+  const subAgents: BaseAgent[] = [
+    new PreparationAgent(),
+    marketAnalysis,
+    ...(enableValidation ? [new ValidationAgent()] : []),
+    new GapAnalysisAgent(),
+    ...(enableArbitration ? [new ArbitratorAgent({ conflictSeverityThreshold: config.conflictSeverityThreshold })] : []),
+    new StrategicAgent({ maxClarifications: config.maxClarifications }),
+    new ReportAgent()
+  ];
+
+  return new GuardedSequentialAgent({
+    name: 'professional_analysis_pipeline',
+    description: 'Dependency-aware execution of specialized agents for professional business analysis',
+    subAgents,
+    agentTimeout: config.agentTimeout,
+    timeout: config.timeout,
+    continueOnError: config.continueOnError
+  });
+}
+
+/**
+ * Noms des agents spécialisés (feuilles) du pipeline, dans l'ordre de déclaration
+ * (les ParallelAgent / branches de l'orchestration ne sont pas comptés)
+ */
+export function listPipelineAgents(agent: BaseAgent): string[] {
+  if (agent.subAgents.length === 0) {
+    return [agent.name];
+  }
+  return agent.subAgents.flatMap(listPipelineAgents);
 }
 
 /**
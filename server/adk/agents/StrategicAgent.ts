@@ -35,8 +35,13 @@ import type { AgentState } from '../types/index.js';
  * - risk_factors: facteurs de risque
  * - clarifications_used: clarifications demandées
  */
+export interface StrategicAgentOptions {
+  /** Nombre max d'appels askClarification (PipelineConfig.maxClarifications, 0 = désactivé) */
+  maxClarifications?: number;
+}
+
 export class StrategicAgent extends LlmAgent {
-  constructor() {
+  constructor({ maxClarifications = 3 }: StrategicAgentOptions = {}) {
     const modelConfig = getModelConfig('strategic');
 
     super({
@@ -55,7 +60,7 @@ export class StrategicAgent extends LlmAgent {
       },
 
       // Tools disponibles
-      tools: [askClarificationTool],
+      tools: maxClarifications > 0 ? [askClarificationTool] : [],
 
       // Instruction système
       instruction: `${getSystemPrompt('strategic')}
@@ -74,7 +79,7 @@ WORKFLOW:
    - validation: Conflits détectés, score cohérence
    - arbitration: Résolutions, actions requises
 
-2. **CLARIFICATIONS DYNAMIQUES** (OPTIONNEL - max 3)
+2. **CLARIFICATIONS DYNAMIQUES** (${maxClarifications > 0 ? `OPTIONNEL - max ${maxClarifications}` : 'DÉSACTIVÉES - ne pas appeler askClarification, ignorer cette étape'})
 
    ⚠️ IMPORTANT: askClarification analyse les données EXISTANTES dans state
    (PAS de nouvelles données externes). Utilise-le pour extraire détails supplémentaires
@@ -96,7 +101,7 @@ WORKFLOW:
    ❌ NE PAS UTILISER askClarification SI:
    - Données déjà claires dans outputs agents
    - Pas d'impact sur décision GO/NO-GO
-   - Juste curiosité (limité à 3 max)
+   - Juste curiosité (limité à ${maxClarifications} max)
 
    SYNTAXE:
    askClarification({
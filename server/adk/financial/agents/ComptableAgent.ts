@@ -105,7 +105,9 @@ WORKFLOW OBLIGATOIRE (UTILISE LES TOOLS DANS L'ORDRE) :
        warnings: [] (optionnel - si incohérences détectées)
      }
 
-   Le tool VALIDE (ne calcule pas) que les SIG injectés par geminiVisionExtractTool sont complets.
+   Le tool VALIDE que les SIG injectés par geminiVisionExtractTool (ou fecExtractTool) sont complets,
+   et les RAPPROCHE des SIG recalculés depuis le compte de résultat extrait (reconciliation[year].discrepancies).
+   → Chaque écart signalé = alerte "warning" catégorie "activite" (fiabilité de l'extraction).
    Les SIG validés sont disponibles dans state.comptable.sig[year].
 
 ÉTAPE 2 : CALCULER L'EBE RETRAITÉ/NORMATIF ⚠️ NOUVEAU - OBLIGATOIRE
@@ -135,21 +137,27 @@ WORKFLOW OBLIGATOIRE (UTILISE LES TOOLS DANS L'ORDRE) :
 
 ÉTAPE 3 : CALCULER LES RATIOS FINANCIERS
    calculateRatios({})
-   → Retourne { year: 2024, ratios: { marge_brute_pct, marge_ebe_pct, taux_endettement_pct, ... } }
+   → Retourne { year: 2024, ratios: { marge_brute_pct, marge_ebe_pct, taux_endettement_pct, ... }, ratiosByYear: [{ year, ratios }] }
 
-   Le tool calcule les ratios clés pour la dernière année.
+   Le tool calcule les ratios clés pour la dernière année, et pour chaque exercice disponible (ratiosByYear).
 
 ÉTAPE 4 : ANALYSER LES TENDANCES
    analyzeTrends({})
-   → Retourne { evolution: { ca_evolution_pct, ebe_evolution_pct, tendance: "croissance" | "stable" | "declin", commentaire, ... } }
+   → Retourne { evolution: { ca_evolution_pct, ebe_evolution_pct, tendance: "croissance" | "stable" | "declin", commentaire, indicateurs, ebe_volatilite_pct, inflexions, ratios_historique } }
 
-   Le tool calcule l'évolution des indicateurs entre première et dernière année.
+   Le tool calcule l'évolution des indicateurs sur toutes les années : TCAM, régression linéaire (pente, R²),
+   volatilité de l'EBE, inflexions (ex: creux 2020 puis reprise) et ratios de chaque exercice.
+   La tendance repose sur la régression ; ca_evolution_pct reste la variation première/dernière année.
+   Copie l'objet evolution COMPLET (indicateurs, inflexions, ratios_historique inclus) dans evolution.
 
 ÉTAPE 5 : COMPARER AU SECTEUR
    compareToSector({ nafCode: "47.11F" })
-   → Retourne { benchmark: { nafCode, sector, comparisons: [{ ratio, value, sectorAverage, position, ... }] } }
+   → Retourne { benchmark: { nafCode, sector, isDefault, ratios, provenance, comparisons: [{ ratio, value, sectorAverage, position, ... }] } }
 
    Le tool compare les ratios aux moyennes sectorielles (via code NAF de businessInfo).
+   Un code non référencé est rapproché du niveau NAF supérieur (ex: 47.76Z → 47.76 → 47.7 → 47) :
+   conserve le champ provenance (source, année, niveau retenu) tel quel dans benchmark.
+   Le benchmark retenu est conservé dans state.sectorBenchmark pour les alertes à seuils sectoriels.
    Si nafCode non fourni, le tool lira depuis state.businessInfo.
 
 ÉTAPE 6 : CALCULER LE SCORE DE SANTÉ
@@ -208,7 +216,16 @@ FORMAT DE SORTIE JSON (STRICT) :
     "ebe_evolution_pct": 8.3,
     "rn_evolution_pct": 15.2,
     "tendance": "croissance",
-    "commentaire": "Croissance soutenue sur 2022-2024 : CA +12.5%, EBE +8.3%, RN +15.2%."
+    "commentaire": "Croissance soutenue sur 2022-2024 : CA +12.5%, EBE +8.3%, RN +15.2%. TCAM du CA +6.1% (R² 0.98).",
+    "indicateurs": {
+      "chiffre_affaires": { "cagr_pct": 6.1, "pente_annuelle": 27500, "r2": 0.98, "evolution_tendancielle_pct": 12.3, "volatilite_pct": 4.8, "inflexions": [] },
+      "ebe": { ... },
+      "resultat_net": { ... },
+      "marge_ebe_pct": { ... }
+    },
+    "ebe_volatilite_pct": 3.4,
+    "inflexions": [],
+    "ratios_historique": [{ "year": 2022, "ratios": { "marge_ebe_pct": 16.2, ... } }, ...]
   },
 
   "ratios": {
@@ -3,7 +3,8 @@ import {
   extractPdfTool,
   geminiVisionExtractTool,    // NEW - primary extraction method (Vision)
   parseTablesHeuristicTool,   // RENAMED - fallback only
-  listDocumentsTool           // NEW - mandatory document listing
+  listDocumentsTool,          // NEW - mandatory document listing
+  fecExtractTool              // FEC - extraction déterministe des écritures comptables
 } from '../tools/document';
 import type { FinancialState } from '../index';
 
@@ -54,7 +55,8 @@ export class DocumentExtractionAgent extends LlmAgent {
         listDocumentsTool,           // NEW - MANDATORY first call to get exact filenames
         extractPdfTool,              // Still needed for raw_text fallback
         geminiVisionExtractTool,     // NEW - primary method (Vision API)
-        parseTablesHeuristicTool     // RENAMED - fallback only if Vision fails
+        parseTablesHeuristicTool,    // RENAMED - fallback only if Vision fails
+        fecExtractTool               // FEC (isFec: true) - remplace Vision pour ces fichiers
       ],
 
       // Instruction système
@@ -73,7 +75,7 @@ WORKFLOW OBLIGATOIRE (APPELER LES TOOLS DANS CET ORDRE) :
 
    listDocuments()
 
-   Retourne: { documents: [{ filename, hasContent, hasFilePath }], count }
+   Retourne: { documents: [{ filename, hasContent, hasFilePath, isFec }], count }
 
    ⚠️ IMPORTANT: Cette étape est OBLIGATOIRE. Tu dois la faire EN PREMIER.
    Elle retourne la liste EXACTE des documents disponibles.
@@ -101,6 +103,14 @@ WORKFLOW OBLIGATOIRE (APPELER LES TOOLS DANS CET ORDRE) :
 
 Pour CHAQUE document retourné par listDocuments(), appeler:
 
+⚡ CAS FEC (isFec: true) - Fichier des Écritures Comptables :
+   fecExtract({ filename: "EXACT_FILENAME_FROM_STEP_1" })
+
+   → Extraction exacte depuis les écritures (pas d'OCR), même format de sortie que Vision
+   → NE PAS appeler geminiVisionExtract ni extractPdf sur un FEC (ce n'est pas un PDF)
+   → method: "fec" dans le JSON final
+   → Si un FEC et un PDF couvrent la même année, le FEC fait foi
+
 a) EXTRACTION VISION (MÉTHODE PRINCIPALE)
    geminiVisionExtract({ filename: "EXACT_FILENAME_FROM_STEP_1" })
 
@@ -115,6 +125,8 @@ a) EXTRACTION VISION (MÉTHODE PRINCIPALE)
 
    → Si confidence >= 0.6 ET tables.length > 0 : UTILISER CE RÉSULTAT ✓
    → Sinon : PASSER AU FALLBACK (étape b)
+   → Liasse simplifiée (regime: "simplifie", Cerfa 2033-A/B) : les postes sont déjà
+     normalisés au format du réel normal - recopier "regime" dans le JSON final
 
 b) EXTRACTION HEURISTIQUE (FALLBACK si Vision échoue)
    SI geminiVisionExtract a échoué OU confidence < 0.6 :
@@ -149,7 +161,7 @@ Après avoir traité TOUS les documents, construire le JSON final :
     "total_documents": 1,
     "years_covered": [2023],
     "missing_documents": [],
-    "extraction_methods": {"vision": 1, "heuristic": 0}
+    "extraction_methods": {"vision": 1, "heuristic": 0, "fec": 0}
   }
 }
 
@@ -4,7 +4,7 @@ import {
   generateFinancialHtmlTool,
   saveFinancialReportTool
 } from '../tools/report';
-import { businessPlanDynamiqueTool } from '../tools/planning';
+import { businessPlanDynamiqueTool, sensitivityAnalysisTool, treasuryPlanTool } from '../tools/planning';
 import type { FinancialState } from '../index';
 
 /**
@@ -61,6 +61,8 @@ export class FinancialReportAgent extends LlmAgent {
       // Tools disponibles pour l'agent
       tools: [
         businessPlanDynamiqueTool,
+        sensitivityAnalysisTool,
+        treasuryPlanTool,
         generateChartsTool,
         generateFinancialHtmlTool,
         saveFinancialReportTool
@@ -94,6 +96,7 @@ WORKFLOW OBLIGATOIRE (UTILISE LES TOOLS DANS L'ORDRE) :
      apportPersonnel: <depuis userComments ou 30% investissement>,
      tauxEmprunt: <depuis userComments ou 4.5% par défaut>,
      dureeEmpruntMois: <depuis userComments ou 84 mois par défaut>,
+     differeMois / typeDiffere / tauxAssurance: <optionnels, sinon repris de userComments.transactionFinancing>,
      extensionHoraires: {
        joursSupplementaires: <depuis userComments>,
        impactEstime: <depuis userComments ou 0.10 par défaut>
@@ -104,25 +107,55 @@ WORKFLOW OBLIGATOIRE (UTILISE LES TOOLS DANS L'ORDRE) :
      },
      salairesSupprimes: <depuis userComments ou 0>,
      salairesAjoutes: <depuis userComments ou 0>,
-     loyerNegocie: <depuis simulationLoyer scenario réaliste ou loyer actuel>
+     loyerNegocie: <depuis simulationLoyer scenario réaliste ou loyer actuel>,
+     comparerScenarios: true,
+     scenarios: <scénarios personnalisés optionnels, ex: [{ nom: "Sans extension horaires", hypotheses: { extensionHoraires: { impactEstime: 0 } } }]>
    })
-   → Retourne { projections: [], indicateursBancaires: {}, hypotheses: {}, synthese: "...", recommandations: [] }
+   → Retourne { projections: [], indicateursBancaires: {}, hypotheses: {}, synthese: "...", recommandations: [], scenarios?: { comparaison: [], synthese } }
 
    Le tool génère automatiquement :
    - Projections sur 5 ans (Année 0 à 5) avec CA, charges, EBE, annuité, reste après dette
+   - Échéanciers par prêt (principal, relais TVA, crédit vendeur) et service de la dette annuel (financement)
    - Indicateurs bancaires (ratio couverture, CAF, point mort, ROI, délai retour)
    - Recommandations pour optimiser le plan
+   - Si comparerScenarios=true : plan recalculé en pessimiste / central / optimiste (+ scénarios personnalisés),
+     avec tableau comparatif CA, EBE, reste après dette et indicateurs bancaires par scénario
 
    IMPORTANT: Lire state.userComments pour extraire les hypothèses du repreneur.
    Si userComments n'est pas fourni, utiliser des valeurs par défaut raisonnables basées sur les analyses précédentes.
 
+ÉTAPE 1bis : ANALYSE DE SENSIBILITÉ (si le business plan comporte un emprunt)
+   sensitivityAnalysis({})
+   → Retourne { base, tornado: [], seuils: [], synthese }
+
+   Le tool relit les hypothèses depuis state.businessPlan et :
+   - Fait varier chaque levier (croissance CA, marge, loyer, salaires, taux, durée) de ±10/20%
+   - Mesure l'effet sur le ratio de couverture, le point mort et le délai de retour
+   - Calcule la valeur de chaque levier qui fait passer le ratio sous 1.2
+   Si le tool retourne une erreur (pas d'emprunt), continuer sans.
+
+ÉTAPE 1ter : PLAN DE TRÉSORERIE MENSUEL
+   treasuryPlan({
+     nbMois: <12 par défaut, 24 si différé ou saisonnalité forte>,
+     caMensuel: <CA mensuel depuis userComments si fourni (12 valeurs janvier → décembre)>,
+     remunerationDirigeant: <rémunération annuelle prévue depuis userComments si fournie>
+   })
+   → Retourne { tresorerie_initiale, mois: [], tresorerie_min, mois_min, besoin_financement, apport_couvre, synthese }
+
+   Le tool relit state.businessPlan (année 1 / 2, échéances des prêts) et le plan de financement :
+   saisonnalité sectorielle, constitution du stock, TVA, cotisations TNS.
+
 ÉTAPE 2 : GÉNÉRER LES GRAPHIQUES
    generateCharts({})
-   → Retourne { evolutionChart, valorisationChart, healthGauge, confidenceRadar }
+   → Retourne { evolutionChart, ratiosChart, valorisationChart, simulationChart, sensitivityChart, treasuryChart, healthGauge, confidenceRadar }
 
    Le tool génère automatiquement les configurations Chart.js :
-   - evolutionChart : Évolution CA/EBE/RN sur 3 ans (line chart)
+   - evolutionChart : Évolution CA/EBE/RN sur 3 ans (line chart, droite de tendance du CA)
+   - ratiosChart : Marges de chaque exercice (null si un seul exercice)
    - valorisationChart : Fourchettes de valorisation (horizontal bar chart)
+   - simulationChart : Histogramme Monte Carlo de la valorisation (null si pas de simulation)
+   - sensitivityChart : Tornado de sensibilité du ratio de couverture (null si pas d'analyse)
+   - treasuryChart : Trésorerie mensuelle post-reprise (null si pas de plan de trésorerie)
    - healthGauge : Gauge score de santé (doughnut 0-100)
    - confidenceRadar : Radar confiance par section
 
@@ -145,7 +178,7 @@ WORKFLOW OBLIGATOIRE (UTILISE LES TOOLS DANS L'ORDRE) :
    8. Annexes (documents, hypothèses, glossaire)
 
 WORKFLOW SIMPLIFIÉ (3 ÉTAPES) :
-1. businessPlanDynamique → génère les projections
+1. businessPlanDynamique → génère les projections (+ sensitivityAnalysis si emprunt, treasuryPlan)
 2. generateCharts → génère les graphiques
 3. generateFinancialHtml → génère ET sauvegarde le rapport
 
@@ -156,7 +189,7 @@ Le rapport est automatiquement injecté dans state.financialReport par generateF
 Terminer simplement avec un message texte de confirmation comme "Rapport financier généré avec succès."
 
 RÈGLES :
-1. Appeler les 3 tools dans l'ordre (businessPlanDynamique → generateCharts → generateFinancialHtml)
+1. Appeler les tools dans l'ordre (businessPlanDynamique → sensitivityAnalysis → treasuryPlan → generateCharts → generateFinancialHtml)
 2. Ne PAS appeler saveFinancialReport (generateFinancialHtml le fait automatiquement)
 3. Passer les résultats d'un tool à l'autre (chaînage)
 4. Le rapport doit être 100% AUTONOME (aucune référence au Pipeline Stratégique)
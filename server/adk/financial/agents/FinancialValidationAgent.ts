@@ -243,6 +243,7 @@ RÈGLES :
 2. Ne PAS recalculer manuellement - utiliser les résultats des tools
 3. IMPORTANT: Les alertes de generateDeterministicAlerts sont REPRODUCTIBLES - NE PAS REFORMULER
 4. Reprendre pointsVigilance et deterministicAlerts EXACTEMENT comme retournés par le tool
+   (y compris le champ "benchmark" des alertes à seuil sectoriel, qui cite la référence du secteur)
 5. Niveau de confiance :
    - "très elevé" : 85-100, pas de point bloquant
    - "elevé" : 70-84, quelques warnings
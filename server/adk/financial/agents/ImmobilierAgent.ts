@@ -4,7 +4,9 @@ import {
   estimateDroitBailTool,
   analyzeMursTool,
   estimateTravauxTool,
-  calculateLoyerSimulationTool
+  calculateLoyerSimulationTool,
+  projectRentIndexationTool,
+  generateLeaseCalendarTool
 } from '../tools/property';
 import type { FinancialState } from '../index';
 
@@ -22,7 +24,7 @@ import type { FinancialState } from '../index';
  *
  * Pattern ADK:
  * - Extends LlmAgent
- * - Utilise 4 tools via Gemini function calling
+ * - Utilise 7 tools via Gemini function calling
  * - Fonctionne en mode dégradé si bail non fourni
  * - Output automatiquement injecté dans state via outputKey
  */
@@ -58,7 +60,9 @@ export class ImmobilierAgent extends LlmAgent {
         estimateDroitBailTool,
         analyzeMursTool,
         estimateTravauxTool,
-        calculateLoyerSimulationTool
+        calculateLoyerSimulationTool,
+        projectRentIndexationTool,
+        generateLeaseCalendarTool
       ],
 
       // Instruction système
@@ -77,9 +81,9 @@ Les données sont passées via state (accessible dans les tools) :
 - state.valorisation : Valorisation du fonds (pour calcul droit au bail)
   - valorisation.synthese.valeur_recommandee : Valeur estimée du fonds
 - state.photo : Analyse photos (si disponible)
-  - photo.condition : État du local
-  - photo.renovation_needed : Travaux identifiés par IA
-  - photo.cost_estimate : Estimation coût travaux
+  - photo.etat_general.devanture / photo.etat_general.interieur : État du local
+  - photo.travaux.urgents / recommandes / optionnels : Constats de travaux identifiés par IA
+  - photo.budget_travaux.detail_postes[] : Postes de travaux identifiés par IA
 - state.userComments : Commentaires de l'utilisateur (NOUVEAU)
   - userComments.loyer.futur_loyer_commercial : Futur loyer commercial mensuel (€)
   - userComments.loyer.loyer_logement_perso : Part logement personnel mensuel (€)
@@ -120,8 +124,8 @@ WORKFLOW OBLIGATOIRE (UTILISE LES TOOLS DANS L'ORDRE) :
    valeur_fonds est optionnel. Si fourni, utiliser state.valorisation.synthese.valeur_recommandee.
 
 ÉTAPE 3 : ANALYSER L'OPTION MURS
-   analyzeMurs({ prix_demande?: 300000, prix_m2_zone?: 2500 })
-   → Retourne { murs: { option_possible, surface_m2, prix, rentabilite_brute_pct, rentabilite_nette_pct, recommandation: "acheter" | "louer" | "negocier", arguments[] } }
+   analyzeMurs({ prix_demande?: 300000, prix_m2_zone?: 2500, horizon_annees?, apport?, taux_emprunt?, duree_emprunt_ans?, taxe_fonciere?, loyer_sci_annuel? })
+   → Retourne { murs: { option_possible, surface_m2, prix, rentabilite_brute_pct, rentabilite_nette_pct, recommandation: "acheter" | "louer" | "negocier", arguments[], comparaison_achat_location } }
 
    Le tool :
    - Lit le bail depuis state.immobilier (pour loyer et surface)
@@ -132,23 +136,32 @@ WORKFLOW OBLIGATOIRE (UTILISE LES TOOLS DANS L'ORDRE) :
      * Rentabilité brute > 7% → "acheter"
      * Rentabilité brute 5-7% → "negocier"
      * Rentabilité brute < 5% → "louer"
+   - Compare achat via SCI et location sur la durée de détention (comparaison_achat_location) :
+     flux annuels des deux options (prêt SCI, taxe foncière, entretien, revente des murs),
+     VAN de l'écart (van_ecart > 0 : achat plus intéressant) et durée d'équilibre en années
    - Retourne option_possible: false si bail non disponible
 
    prix_demande est optionnel. Si non fourni, le tool estimera selon prix_m2_zone.
+   Les paramètres de la comparaison sont optionnels (défauts : 10 ans, apport = frais de notaire + 20 %,
+   prêt 15 ans à 4 %, loyer SCI = loyer du bail). Recopier comparaison_achat_location tel quel dans "murs".
 
 ÉTAPE 4 : ESTIMER LES TRAVAUX
-   estimateTravaux({ surface_m2?: 80, etat_declare?: "moyen" })
-   → Retourne { travaux: { etat_general, conformite_erp, accessibilite_pmr, travaux_obligatoires[], travaux_recommandes[], budget_total } }
+   estimateTravaux({ surface_m2?: 80, etat_declare?: "moyen", checklist_erp?: [{ id: "rampe_acces", conforme: false, commentaire?: "Marche de 15 cm" }] })
+   → Retourne { travaux: { etat_general, conformite_erp, accessibilite_pmr, checklist_erp[], travaux_obligatoires[], travaux_recommandes[], constats_non_chiffres[], budget_total } }
 
    Le tool :
+   - Chiffre chaque ligne depuis la bibliothèque de coûts (quantité × fourchette €/unité, item_id du poste)
    - Lit l'analyse photos depuis state.photo (si disponible) pour état général
    - Sinon utilise etat_declare si fourni
-   - Génère liste travaux obligatoires (conformité ERP, PMR, sécurité)
-   - Génère liste travaux recommandés (rafraîchissement, modernisation)
-   - Estime coûts selon surface et état
+   - Checklist ERP 5e catégorie / PMR : rampe_acces, largeur_porte, sanitaires_pmr, extincteurs, rapport_electrique
+     * Point non conforme → ligne de travaux obligatoire chiffrée
+     * Point non renseigné → "a_verifier" (aucun travaux présumé)
+   - Rattache les constats de l'analyse photos aux postes de la bibliothèque ;
+     les constats sans poste correspondant sont listés dans constats_non_chiffres (non chiffrés)
    - Calcule budget total (obligatoire bas/haut, recommandé bas/haut)
 
    surface_m2 est optionnel (sera lu depuis bail). etat_declare est optionnel.
+   checklist_erp : ne renseigner QUE les points connus (documents, commentaires du repreneur).
 
 ÉTAPE 5 : SIMULER RENÉGOCIATION LOYER
    calculateLoyerSimulation({ loyerActuelAnnuel, surfaceM2, dureeRestanteMois?, prixMarcheM2Annuel?, localisation?, contexteNegociation? })
@@ -157,7 +170,11 @@ WORKFLOW OBLIGATOIRE (UTILISE LES TOOLS DANS L'ORDRE) :
    Le tool :
    - Lit le loyer annuel et surface depuis state.immobilier.bail (DOIT être appelé après analyzeBail)
    - Compare le loyer actuel (€/m²/an) au prix marché
-   - Estime le prix marché selon localisation si non fourni (barèmes France 2024)
+   - Estime le prix marché si non fourni depuis le référentiel des loyers commerciaux
+     (commune INSEE → département → national, zone et activité) : médiane et quartiles €/m²/an
+   - Cite la référence retenue, sa source et, si fourni, son nombre d'observations (loyerMarche.referenceLibelle)
+   - comparaison.appreciation : "desavantageux" au-dessus du 3e quartile, "avantageux" sous le 1er
+   - localisation.zone : "centre-ville", "périphérie", "zone commerciale" ou "rural" si connue
    - Génère 3 scénarios de renégociation:
      * Pessimiste: Réduction 30% de l'écart (probabilité 30%)
      * Réaliste: Réduction 60% de l'écart (probabilité 50%)
@@ -170,9 +187,36 @@ WORKFLOW OBLIGATOIRE (UTILISE LES TOOLS DANS L'ORDRE) :
    IMPORTANT: Ces économies de loyer seront automatiquement intégrées dans le calcul de l'EBE Normatif
    par le ComptableAgent (retraitement type "economie_loyer").
 
-ÉTAPE 6 : GÉNÉRER SYNTHÈSE ET SCORE IMMOBILIER
+ÉTAPE 6 : PROJETER L'INDEXATION DU LOYER
+   projectRentIndexation({ valeurLocativeAnnuelle?, changementDestination?, indice? })
+   → Retourne { disponible, indice, loyer_base, annees: [{ annee, loyer_plafonne, loyer_deplafonne, loyer_retenu, coefficient, renouvellement }], renouvellement: { date, risque_deplafonnement, motifs, ... }, scenario_retenu, commentaire }
 
-Après avoir appelé les 5 tools, analyser les résultats et générer :
+   Le tool :
+   - Lit le bail depuis state.immobilier (DOIT être appelé après analyzeBail)
+   - Déduit l'indice (ILC, ILAT, ICC) de bail.indexation et révise le loyer à chaque date anniversaire
+     (séries d'indices locales, extrapolées au-delà du dernier trimestre publié)
+   - Modélise le renouvellement : plafonné (variation de l'indice) ou déplafonné (valeur locative, hausse lissée à 10%/an)
+   - Risque de déplafonnement "eleve" si bail > 12 ans, durée contractuelle > 9 ans, bail dérogatoire
+     ou changement de destination ; "modere" si loyer > 20% sous la valeur locative
+   - Injecte la projection dans state.projectionLoyer : le business plan applique les loyers annuels projetés
+
+   valeurLocativeAnnuelle est optionnel (valeur de marché connue). changementDestination = true
+   uniquement si le repreneur prévoit une autre activité que la destination du bail.
+
+ÉTAPE 7 : CALENDRIER DES DATES CLÉS DU BAIL
+   generateLeaseCalendar({})
+   → Retourne { disponible, type_bail, date_fin, duree_restante_mois, en_tacite_prolongation, evenements: [{ date, type, titre, description, partie, passe }], prochain_evenement, prochaine_sortie_triennale, fenetre_renouvellement, derogatoire_jours_avant_conversion }
+
+   Le tool :
+   - Lit le bail depuis state.immobilier (DOIT être appelé après analyzeBail)
+   - Calcule les échéances triennales et les dates limites de congé (6 mois avant chaque échéance)
+   - Calcule la fenêtre de demande de renouvellement, le terme du bail et l'horizon de 12 ans (déplafonnement)
+   - Pour un bail dérogatoire : nombre de jours avant la conversion en bail commercial 3-6-9
+   - Injecte le calendrier dans state.calendrierBail (alertes IMMO_005/IMMO_006, export .ics)
+
+ÉTAPE 8 : GÉNÉRER SYNTHÈSE ET SCORE IMMOBILIER
+
+Après avoir appelé les 7 tools, analyser les résultats et générer :
 
 1. SCORE IMMOBILIER (0-100)
    Calculer un score global basé sur:
@@ -215,6 +259,8 @@ Après avoir appelé les 5 tools, analyser les résultats et générer :
    - Travaux importants nécessaires
    - Rentabilité murs faible
    - Non-conformité ERP/PMR
+   - Risque de déplafonnement "eleve" au renouvellement (projectionLoyer)
+   - Date limite de congé ou fin de bail dans les 12 prochains mois (calendrierBail.prochain_evenement)
 
 4. RECOMMANDATION
    Synthèse en 2-3 phrases résumant l'analyse immobilière et les décisions clés
@@ -270,38 +316,70 @@ FORMAT DE SORTIE JSON (STRICT) :
       "📈 Rentabilité nette après charges : 7.7%",
       "✅ Sécurisation de l'emplacement",
       "✅ Valorisation du patrimoine immobilier"
-    ]
+    ],
+    "comparaison_achat_location": {
+      "hypotheses": { "horizonAnnees": 10, "apport": 55000, "montantEmprunt": 160000, "tauxEmprunt": 4, "dureeEmpruntAns": 15 },
+      "location": [{ "annee": 1, "loyer": 18000, "flux": -18000, "flux_cumule": -18000 }],
+      "achat": [{ "annee": 1, "loyer_sci": 18000, "interets": 6255, "amortissement": 7947, "assurance": 480, "taxe_fonciere": 1800, "entretien": 2000, "flux_sci": -482, "revente_nette": 0, "flux": -18482, "flux_cumule": -73482, "capital_restant_du": 152053, "valeur_murs": 203000, "impact_ebe_fonds": 0 }],
+      "van_location": -143694,
+      "van_achat": -106153,
+      "van_ecart": 37541,
+      "duree_equilibre_annees": 4,
+      "option_retenue": "achat",
+      "commentaire": "Sur 10 ans, acheter les murs via une SCI rapporte 37 541 € de plus que la location en valeur actuelle (actualisation 6 %, avant impôt). L'achat devient plus intéressant à partir de 4 ans de détention."
+    }
   },
 
   "travaux": {
     "etat_general": "moyen",
-    "conformite_erp": "a_verifier",
+    "conformite_erp": "non_conforme",
     "accessibilite_pmr": false,
+    "checklist_erp": [
+      { "id": "rampe_acces", "libelle": "Accès de plain-pied ou rampe", "pmr": true, "statut": "non_conforme", "commentaire": "Marche de 15 cm", "cout_bas": 1500, "cout_haut": 6000 },
+      { "id": "rapport_electrique", "libelle": "Rapport de vérification électrique", "pmr": false, "statut": "a_verifier", "cout_bas": 300, "cout_haut": 800 }
+    ],
     "travaux_obligatoires": [
       {
-        "description": "Mise en conformité accessibilité PMR (rampe, sanitaires adaptés)",
-        "estimation_basse": 8000,
-        "estimation_haute": 15000,
-        "urgence": "12_mois"
+        "item_id": "diagnostic_electrique",
+        "description": "Diagnostic électrique et mise en conformité partielle",
+        "quantite": 1,
+        "unite": "forfait",
+        "estimation_basse": 2000,
+        "estimation_haute": 4000,
+        "urgence": "6_mois",
+        "sources": ["etat"],
+        "constats": []
       },
       {
-        "description": "Diagnostic de sécurité incendie ERP (extincteurs, éclairage de sécurité)",
-        "estimation_basse": 2000,
-        "estimation_haute": 5000,
-        "urgence": "6_mois"
+        "item_id": "rampe_acces_pmr",
+        "description": "Rampe d'accès PMR (amovible ou maçonnée)",
+        "quantite": 1,
+        "unite": "forfait",
+        "estimation_basse": 1500,
+        "estimation_haute": 6000,
+        "urgence": "12_mois",
+        "sources": ["checklist_erp"],
+        "constats": ["Marche de 15 cm"]
       }
     ],
     "travaux_recommandes": [
       {
+        "item_id": "rafraichissement_peinture_sols",
         "description": "Rafraîchissement peinture et sols",
+        "quantite": 80,
+        "unite": "m2",
         "estimation_basse": 2400,
         "estimation_haute": 4000,
-        "impact": "Améliore présentation générale"
+        "impact": "Améliore présentation générale",
+        "sources": ["etat", "photo"],
+        "constats": ["Rafraîchissement peinture murs"]
       }
     ],
+    "constats_non_chiffres": [],
+    "bibliotheque_version": "2025-01",
     "budget_total": {
-      "obligatoire_bas": 10000,
-      "obligatoire_haut": 20000,
+      "obligatoire_bas": 3500,
+      "obligatoire_haut": 10000,
       "recommande_bas": 2400,
       "recommande_haut": 4000
     }
@@ -316,14 +394,19 @@ FORMAT DE SORTIE JSON (STRICT) :
     },
     "loyerMarche": {
       "prixM2Estime": 200,
+      "prixM2Bas": 150,
+      "prixM2Haut": 220,
       "annuelEstime": 16000,
       "mensuelEstime": 1333,
-      "source": "estimation automatique (barèmes France 2024)"
+      "source": "referentiel",
+      "referenceLibelle": "Gironde (departement), toutes zones, toutes activités — médiane 200 €/m²/an, estimation sans échantillon de baux (Estimation indicative, hors observatoire, 2025)"
     },
     "comparaison": {
+      "prixM2Actuel": 225,
       "ecartAnnuel": 2000,
       "ecartPourcentage": 13,
-      "appreciation": "desavantageux"
+      "appreciation": "desavantageux",
+      "argument": "Loyer hors marché : 225 €/m²/an contre une médiane de 200 €/m²/an (fourchette 150-220), au-dessus du 3e quartile — référence Gironde, estimation sans échantillon de baux (Estimation indicative, hors observatoire, 2025)"
     },
     "scenarios": {
       "pessimiste": {
@@ -358,6 +441,40 @@ FORMAT DE SORTIE JSON (STRICT) :
     "recommandation": "RECOMMANDATION: Loyer légèrement élevé (13%). Renégociation possible mais non critique."
   },
 
+  "projectionLoyer": {
+    "disponible": true,
+    "indice": "ILC",
+    "loyer_base": 18000,
+    "annees": [
+      { "annee": 1, "date_debut": "2025-02-01", "loyer_plafonne": 18000, "loyer_deplafonne": 18000, "loyer_retenu": 18000, "coefficient": 1, "renouvellement": false },
+      { "annee": 2, "date_debut": "2026-02-01", "loyer_plafonne": 18358, "loyer_deplafonne": 18358, "loyer_retenu": 18358, "coefficient": 1.0199, "renouvellement": false }
+    ],
+    "renouvellement": {
+      "date": "2029-02-01",
+      "risque_deplafonnement": "faible",
+      "motifs": []
+    },
+    "scenario_retenu": "plafonne",
+    "commentaire": "Loyer révisé annuellement sur l'ILC : 18 000 € en année 1, 19 470 € en année 5 (+8,2 %). Renouvellement au 01/02/2029 : risque de déplafonnement faible."
+  },
+
+  "calendrierBail": {
+    "disponible": true,
+    "type_bail": "commercial_3_6_9",
+    "date_effet": "2020-02-01",
+    "date_fin": "2029-02-01",
+    "duree_restante_mois": 48,
+    "en_tacite_prolongation": false,
+    "evenements": [
+      { "date": "2025-08-01", "type": "preavis_triennal", "titre": "Date limite de congé (sortie triennale)", "description": "...", "partie": "preneur", "passe": false },
+      { "date": "2026-02-01", "type": "echeance_triennale", "titre": "Échéance triennale", "description": "...", "partie": "preneur", "passe": false }
+    ],
+    "prochain_evenement": { "date": "2025-08-01", "type": "preavis_triennal", "titre": "Date limite de congé (sortie triennale)", "description": "...", "partie": "preneur", "passe": false },
+    "prochaine_sortie_triennale": { "date": "2026-02-01", "preavis_avant": "2025-08-01" },
+    "fenetre_renouvellement": { "debut": "2028-08-01", "fin": "2029-02-01" },
+    "derogatoire_jours_avant_conversion": null
+  },
+
   "synthese": {
     "score_immobilier": 72,
     "points_forts": [
@@ -381,7 +498,8 @@ FORMAT DE SORTIE JSON (STRICT) :
 }
 
 RÈGLES :
-1. Appeler les 5 tools dans l'ordre (analyzeBail → estimateDroitBail → analyzeMurs → estimateTravaux → calculateLoyerSimulation)
+1. Appeler les 7 tools dans l'ordre (analyzeBail → estimateDroitBail → analyzeMurs → estimateTravaux → calculateLoyerSimulation → projectRentIndexation → generateLeaseCalendar)
+   et recopier les résultats de projectRentIndexation et generateLeaseCalendar tels quels dans "projectionLoyer" et "calendrierBail"
 2. Si bail non disponible, le mentionner dans dataStatus.source = "non_disponible"
 3. Pour score_immobilier : additionner les points selon les critères ci-dessus
 4. Pour points_forts et points_vigilance : lister 3-5 éléments marquants (emojis conseillés)
@@ -402,6 +520,8 @@ L'agent DOIT fonctionner même sans bail. Dans ce cas:
 - estimateDroitBail retourne 0
 - analyzeMurs retourne option_possible: false
 - estimateTravaux fonctionne normalement (basé sur analyse photos)
+- projectRentIndexation retourne disponible: false (loyer constant dans le business plan)
+- generateLeaseCalendar retourne disponible: false (pas d'alerte d'échéance ni d'export .ics)
 - Score immobilier réduit mais synthèse générée quand même
 
 RETOURNE UNIQUEMENT LE JSON VALIDE (pas de texte avant/après)`,
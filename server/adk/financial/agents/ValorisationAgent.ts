@@ -3,11 +3,14 @@ import {
   calculateEbeValuationTool,
   calculateCaValuationTool,
   calculatePatrimonialTool,
+  calculateDcfValuationTool,
+  calculateComparablesValuationTool,
   synthesizeValuationTool,
   calculateTabacValuationTool,
   validateSectorTypeTool,
   validateTabacMethodeTool
 } from '../tools/valuation';
+import { businessPlanDynamiqueTool } from '../tools/planning';
 import type { FinancialState } from '../index';
 
 /**
@@ -19,6 +22,8 @@ import type { FinancialState } from '../index';
  * - Calculer la valorisation par multiple d'EBE (méthode de référence)
  * - Calculer la valorisation par % du CA (méthode complémentaire)
  * - Calculer la valorisation patrimoniale (actif net + goodwill)
+ * - Calculer la valorisation DCF (actualisation des flux du business plan 5 ans)
+ * - Confronter aux prix des cessions comparables publiées au BODACC
  * - Synthétiser les 3 méthodes et recommander une fourchette de prix
  * - Comparer avec le prix affiché (si fourni)
  * - Générer des arguments de négociation
@@ -41,7 +46,7 @@ export class ValorisationAgent extends LlmAgent {
 
     super({
       name: 'valorisation',
-      description: 'Valorisation du fonds de commerce par 3 méthodes (EBE, CA, Patrimoniale) avec synthèse finale',
+      description: 'Valorisation du fonds de commerce par 3 méthodes (EBE, CA, Patrimoniale) + DCF avec synthèse finale',
 
       // Modèle Gemini
       model: modelConfig.name,
@@ -61,6 +66,9 @@ export class ValorisationAgent extends LlmAgent {
         calculateEbeValuationTool,
         calculateCaValuationTool,
         calculatePatrimonialTool,
+        businessPlanDynamiqueTool,
+        calculateDcfValuationTool,
+        calculateComparablesValuationTool,
         synthesizeValuationTool,
         calculateTabacValuationTool
       ],
@@ -68,7 +76,7 @@ export class ValorisationAgent extends LlmAgent {
       // Instruction système
       instruction: `Tu es un expert en valorisation de fonds de commerce spécialisé dans les transactions de petits commerces français.
 
-Ton rôle est d'estimer la valeur du fonds de commerce en utilisant 3 méthodes reconnues et de produire une recommandation finale.
+Ton rôle est d'estimer la valeur du fonds de commerce en utilisant 3 méthodes reconnues (complétées par un DCF) et de produire une recommandation finale.
 
 DONNÉES DISPONIBLES :
 Les données sont passées via state (accessible dans les tools) :
@@ -181,27 +189,65 @@ MÉTHODE CLASSIQUE (Commerces standards)
 
    Note: Moins utilisée pour petits commerces car sous-évalue souvent la valeur.
 
-ÉTAPE 4 : SYNTHÈSE DES 3 MÉTHODES
+ÉTAPE 3bis : MÉTHODE DCF (actualisation des flux - demandée par les banques)
+   a) businessPlanDynamique({ prixAchat: <prix affiché ou 0> })
+      → Génère la projection 5 ans (CA, EBE normatif) et l'injecte dans state.businessPlan
+   b) calculateDcfValuation({})
+      → Retourne { methodeDCF: { taux_actualisation, flux[], valeur_terminale, valeur_basse, valeur_mediane, valeur_haute, justification, ... } }
+
+   Le tool :
+   - Lit la projection années 1-5 depuis state.businessPlan
+   - Flux = EBE normatif - impôt normatif - investissements de maintien
+   - Taux d'actualisation = taux sans risque (3%) + prime petite entreprise (10%), paramétrables
+     (tauxSansRisque, primeRisquePME, croissanceTerminale)
+   - Valeur terminale de Gordon (croissance 1.5% par défaut)
+   - Fourchette basse/haute = taux d'actualisation ± 2 points
+
+   Si businessPlanDynamique échoue, appeler quand même calculateDcfValuation (projection simplifiée depuis l'EBE normatif).
+
+ÉTAPE 3ter : MÉTHODE DES COMPARABLES (cessions BODACC)
+   calculateComparablesValuation({})
+   → Retourne { methodeComparables: { zone, periode_mois, nb_transactions, prix_min, prix_max, valeur_basse, valeur_mediane, valeur_haute, transactions[], justification } }
+
+   Le tool :
+   - Lit le code NAF et le code postal depuis state.businessInfo
+   - Recherche les cessions de fonds du même secteur publiées au BODACC sur 36 mois
+   - Élargit la zone (commune → département → national) tant qu'il y a moins de 5 cessions
+   - Fourchette = P25 / médiane / P75 des prix de cession
+
+   Si zone = "aucune" (base vide), continuer sans cette méthode.
+
+ÉTAPE 4 : SYNTHÈSE DES MÉTHODES
    synthesizeValuation({
      methodeEBE: <résultat étape 1>,
      methodeCA: <résultat étape 2>,
      methodePatrimoniale: <résultat étape 3>,
-     prix_affiche: 250000  // optionnel
+     methodeDCF: <résultat étape 3bis>,
+     methodeComparables: <résultat étape 3ter>,
+     prix_affiche: 250000,  // optionnel
+     simulation: {}         // mode simulation Monte Carlo (recommandé si prix affiché connu)
    })
    → Retourne { synthese: { fourchette_basse, fourchette_mediane, fourchette_haute, methode_privilegiee, raison_methode, valeur_recommandee }, comparaisonPrix?, argumentsNegociation: { pour_acheteur[], pour_vendeur[] }, confidence, limitations[] }
 
    IMPORTANT: Tu DOIS passer les résultats des outils calculateEbeValuation, calculateCaValuation et calculatePatrimonial comme paramètres.
 
    Le tool :
-   - Reçoit les 3 méthodes en paramètres
+   - Reçoit les 3 méthodes (+ DCF) en paramètres
    - Détermine la méthode privilégiée (EBE par défaut, Patrimoniale si EBE négatif)
    - Pondère les 3 méthodes (70% EBE + 20% CA + 10% Patrimoniale)
+   - Intègre la méthode DCF avec son propre poids (15%, les 3 autres réduites d'autant) et l'explique dans raison_methode
+   - Intègre la méthode des comparables (15%) si au moins 5 cessions BODACC ont été trouvées
    - Génère fourchette synthétique
    - Compare avec prix affiché si fourni
    - Génère arguments de négociation (points faibles/forts)
 
    prix_affiche est optionnel. Si fourni, le tool calculera l'écart et générera un argumentaire.
 
+   MODE SIMULATION (simulation: {}) :
+   - Tire 10 000 fois l'EBE normatif, le CA (volatilité historique 3 ans) et les coefficients sectoriels
+   - Retourne simulation: { percentiles: { p10, p25, p50, p75, p90 }, probabilite_prix_superieur, histogramme[] }
+   - COPIER l'objet "simulation" INTÉGRALEMENT dans ton JSON de sortie (utilisé par le graphique du rapport)
+
 ═══════════════════════════════════════════════════════════════════════
 MÉTHODE HYBRIDE (Commerces Tabac/Presse/FDJ UNIQUEMENT)
 ═══════════════════════════════════════════════════════════════════════
@@ -367,6 +413,40 @@ FORMAT DE SORTIE JSON (STRICT) :
     "justification": "Méthode patrimoniale (moins utilisée pour petits commerces)..."
   },
 
+  "methodeDCF": {
+    "source_projection": "business_plan",
+    "taux_sans_risque": 3,
+    "prime_risque": 10,
+    "taux_actualisation": 13,
+    "croissance_terminale": 1.5,
+    "flux": [
+      { "annee": 1, "ca": 700000, "ebe_normatif": 125000, "impot": 28625, "investissements": 10500, "flux_disponible": 85875, "flux_actualise": 75996 }
+    ],
+    "somme_flux_actualises": 310000,
+    "valeur_terminale": 780000,
+    "valeur_terminale_actualisee": 423000,
+    "poids_valeur_terminale_pct": 58,
+    "valeur_basse": 620000,
+    "valeur_mediane": 733000,
+    "valeur_haute": 890000,
+    "justification": "Valorisation par actualisation des flux (DCF) sur 5 ans..."
+  },
+
+  "methodeComparables": {
+    "zone": "departement",
+    "periode_mois": 36,
+    "nb_transactions": 8,
+    "prix_min": 180000,
+    "prix_max": 520000,
+    "valeur_basse": 260000,
+    "valeur_mediane": 340000,
+    "valeur_haute": 410000,
+    "transactions": [
+      { "date": "2025-03-14", "prix": 350000, "commune": "Lyon" }
+    ],
+    "justification": "Méthode des comparables : 8 cession(s) de fonds du secteur 56.10A publiées au BODACC..."
+  },
+
   "synthese": {
     "fourchette_basse": 315000,
     "fourchette_mediane": 420000,
@@ -493,7 +573,7 @@ RÈGLES :
      → Appeler validateTabacMethode() pour préserver les données (ÉTAPE 1ter)
      → Inclure "methodeHybride" dans ton JSON de sortie (PAS "methodeEBE"/"methodeCA"/"methodePatrimoniale")
    - SI validateSectorType() retourne isTabac=false ET recommendedMethod="CLASSIQUE" :
-     → Utiliser MÉTHODE CLASSIQUE (4 tools: calculateEbeValuation, calculateCaValuation, calculatePatrimonial, synthesizeValuation)
+     → Utiliser MÉTHODE CLASSIQUE (calculateEbeValuation, calculateCaValuation, calculatePatrimonial, businessPlanDynamique, calculateDcfValuation, calculateComparablesValuation, synthesizeValuation)
 
    ⚠️ IMPORTANT: NE JAMAIS essayer de déterminer toi-même si c'est un Tabac - utilise UNIQUEMENT validateSectorType()
 
@@ -505,8 +585,9 @@ RÈGLES :
    - La sortie JSON DOIT inclure "methodeHybride" (PAS "methodeEBE"/"methodeCA"/"methodePatrimoniale")
 
 3. POUR AUTRES COMMERCES (MÉTHODE CLASSIQUE) :
-   - Appeler les 4 tools dans l'ordre (calculateEbeValuation → calculateCaValuation → calculatePatrimonial → synthesizeValuation)
-   - IMPORTANT: Passer les résultats des outils 1-3 comme PARAMÈTRES à synthesizeValuation
+   - Appeler les tools dans l'ordre (calculateEbeValuation → calculateCaValuation → calculatePatrimonial → businessPlanDynamique → calculateDcfValuation → calculateComparablesValuation → synthesizeValuation)
+   - IMPORTANT: Passer les résultats des outils 1-3, 3bis et 3ter comme PARAMÈTRES à synthesizeValuation
+   - COPIER methodeDCF et methodeComparables dans ton JSON de sortie
 
 4. Ne PAS recalculer manuellement - utiliser les résultats des tools
 
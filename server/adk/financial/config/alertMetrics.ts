@@ -0,0 +1,153 @@
+/**
+ * Alert Metrics
+ *
+ * Resolution des metriques referencees par les regles d'alertes.
+ * - Chemin dans le contexte : "comptable.ratios.marge_ebe_pct", "planTresorerie.tresorerie_min",
+ *   "calendrierBail.duree_restante_mois",
+ *   "comptable.yearsAnalyzed.length"
+ * - Metrique derivee (calculee a partir de plusieurs champs) : "derived.ebe_evolution_pct"
+ *
+ * Une metrique absente (donnee manquante) est resolue a undefined : la condition
+ * qui la reference est alors fausse.
+ */
+
+import type { AlertEvaluationContext } from '../schemas/alertRulesSchema';
+import { getSigValue } from '../schemas/financialStateSchema';
+
+/**
+ * Helper: Obtenir le SIG de la derniere annee
+ */
+export function getLatestSig(ctx: AlertEvaluationContext) {
+  if (!ctx.comptable?.sig) return null;
+  const years = Object.keys(ctx.comptable.sig).sort().reverse();
+  return years[0] ? ctx.comptable.sig[years[0]] : null;
+}
+
+/**
+ * Helper: Poste SIG de la derniere annee (undefined si absent)
+ */
+function getLatestSigValue(ctx: AlertEvaluationContext, field: string): number | undefined {
+  const sig = getLatestSig(ctx);
+  return sig?.[field] == null ? undefined : getSigValue(sig, field);
+}
+
+/**
+ * Helper: Calculer l'evolution EBE sur N annees
+ */
+export function calculateEbeEvolution(ctx: AlertEvaluationContext): { pct: number; years: number } | null {
+  if (!ctx.comptable?.sig) return null;
+  const years = Object.keys(ctx.comptable.sig).sort();
+  if (years.length < 2) return null;
+
+  const firstYear = years[0];
+  const lastYear = years[years.length - 1];
+  const ebeFirst = getSigValue(ctx.comptable.sig[firstYear], 'ebe');
+  const ebeLast = getSigValue(ctx.comptable.sig[lastYear], 'ebe');
+
+  if (ebeFirst === 0) return null;
+  const pct = ((ebeLast - ebeFirst) / Math.abs(ebeFirst)) * 100;
+  return { pct: Math.round(pct * 10) / 10, years: years.length };
+}
+
+/**
+ * Helper: Calculer l'evolution CA sur N annees
+ */
+export function calculateCaEvolution(ctx: AlertEvaluationContext): { pct: number; years: number } | null {
+  if (!ctx.comptable?.sig) return null;
+  const years = Object.keys(ctx.comptable.sig).sort();
+  if (years.length < 2) return null;
+
+  const firstYear = years[0];
+  const lastYear = years[years.length - 1];
+  const caFirst = getSigValue(ctx.comptable.sig[firstYear], 'chiffre_affaires');
+  const caLast = getSigValue(ctx.comptable.sig[lastYear], 'chiffre_affaires');
+
+  if (caFirst === 0) return null;
+  const pct = ((caLast - caFirst) / Math.abs(caFirst)) * 100;
+  return { pct: Math.round(pct * 10) / 10, years: years.length };
+}
+
+/**
+ * Helper: Obtenir l'annee la plus recente des donnees
+ */
+export function getMostRecentYear(ctx: AlertEvaluationContext): number | null {
+  if (!ctx.comptable?.sig) return null;
+  const years = Object.keys(ctx.comptable.sig).map(y => parseInt(y)).filter(y => !isNaN(y));
+  return years.length > 0 ? Math.max(...years) : null;
+}
+
+/**
+ * Helper: Obtenir la valorisation recommandee
+ */
+export function getValuationRecommended(ctx: AlertEvaluationContext): number {
+  return ctx.valorisation?.synthese?.valeur_recommandee ||
+         ctx.valorisation?.methodeHybride?.valorisationTotale?.valeurMediane ||
+         0;
+}
+
+/**
+ * Helper: Obtenir la fourchette haute de valorisation
+ */
+export function getValuationHigh(ctx: AlertEvaluationContext): number {
+  return ctx.valorisation?.synthese?.fourchette_haute ||
+         ctx.valorisation?.methodeHybride?.valorisationTotale?.valeurHaute ||
+         0;
+}
+
+/**
+ * Helper: Loyer annuel et poids dans le CA de la derniere annee
+ */
+function calculateLoyerRatio(ctx: AlertEvaluationContext): { annuel: number; pct: number } | null {
+  const loyer = ctx.immobilier?.synthese?.loyer_mensuel;
+  const ca = getLatestSigValue(ctx, 'chiffre_affaires');
+  if (!loyer || !ca) return null;
+  return { annuel: loyer * 12, pct: (loyer * 12 / ca) * 100 };
+}
+
+/**
+ * Metriques derivees disponibles pour les regles declaratives (prefixe "derived.")
+ */
+export const DERIVED_METRICS: Record<string, (ctx: AlertEvaluationContext) => any> = {
+  ebe_evolution_pct: (ctx) => calculateEbeEvolution(ctx)?.pct,
+  ebe_evolution_years: (ctx) => calculateEbeEvolution(ctx)?.years,
+  ca_evolution_pct: (ctx) => calculateCaEvolution(ctx)?.pct,
+  ca_evolution_years: (ctx) => calculateCaEvolution(ctx)?.years,
+  chiffre_affaires: (ctx) => getLatestSigValue(ctx, 'chiffre_affaires'),
+  resultat_net: (ctx) => getLatestSigValue(ctx, 'resultat_net'),
+  loyer_annuel: (ctx) => calculateLoyerRatio(ctx)?.annuel,
+  loyer_pct_ca: (ctx) => calculateLoyerRatio(ctx)?.pct,
+  valorisation_recommandee: (ctx) => getValuationRecommended(ctx) || undefined,
+  valorisation_haute: (ctx) => getValuationHigh(ctx) || undefined,
+  prix_ecart_valo_haute_pct: (ctx) => {
+    const prix = ctx.businessInfo?.prixDemande;
+    const valoHigh = getValuationHigh(ctx);
+    if (!prix || !valoHigh) return undefined;
+    return (prix - valoHigh) / valoHigh * 100;
+  }
+};
+
+/**
+ * Resout une metrique (chemin ou metrique derivee) dans le contexte d'evaluation
+ */
+export function resolveMetric(ctx: AlertEvaluationContext, path: string): any {
+  if (path.startsWith('derived.')) {
+    const derived = DERIVED_METRICS[path.slice('derived.'.length)];
+    return derived ? derived(ctx) ?? undefined : undefined;
+  }
+
+  let current: any = ctx;
+  for (const key of path.split('.')) {
+    if (current === null || current === undefined) return undefined;
+    current = current[key];
+  }
+  return current ?? undefined;
+}
+
+/**
+ * Verifie qu'une metrique est connue (metrique derivee existante ou chemin sous une racine du contexte)
+ */
+export function isKnownMetric(path: string): boolean {
+  if (path.startsWith('derived.')) return path.slice('derived.'.length) in DERIVED_METRICS;
+  const root = path.split('.')[0];
+  return ['comptable', 'valorisation', 'immobilier', 'documentExtraction', 'businessInfo', 'planTresorerie', 'calendrierBail', 'benchmark'].includes(root);
+}
@@ -0,0 +1,275 @@
+/**
+ * Alert Rule Loader
+ *
+ * Charge les regles d'alertes declaratives (fichiers JSON) et les compile en AlertRule.
+ *
+ * - Regles par defaut : config/alert-rules/*.json (une liste de regles par categorie)
+ * - Surcharges : repertoire ALERT_RULES_DIR (optionnel) ; une regle de meme id remplace
+ *   la regle par defaut, ce qui permet d'ajuster un seuil sans deploiement
+ * - Chaque regle est validee par DeclarativeAlertRuleSchema ; une regle invalide est
+ *   ignoree avec un avertissement, les autres regles du fichier restent chargees
+ * - sectorOverrides : conditions (ou desactivation) propres a un secteur, selectionnees
+ *   par le plus long prefixe de code NAF correspondant a businessInfo.secteurActivite
+ * - Seuils relatifs au secteur : { "benchmark": "marge_ebe_pct", "factor": 0.6 } compare au
+ *   ratio du benchmark sectoriel du contexte ; l'alerte cite alors ce benchmark (benchmarkQuote)
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { DeclarativeAlertRuleSchema } from '../schemas/alertRulesSchema';
+import type {
+  AlertRule,
+  AlertBenchmarkQuote,
+  AlertEvaluationContext,
+  AlertCategory,
+  DeclarativeAlertRule,
+  RuleCondition,
+  RuleValue
+} from '../schemas/alertRulesSchema';
+import { resolveMetric, isKnownMetric } from './alertMetrics';
+import { BENCHMARK_RATIO_LABELS } from './sectorBenchmarks';
+
+export const DEFAULT_ALERT_RULES_DIR = fileURLToPath(new URL('./alert-rules/', import.meta.url));
+
+/**
+ * Ordre d'affichage des categories (identique a l'ordre historique de ALERT_RULES)
+ */
+const CATEGORY_ORDER: AlertCategory[] = [
+  'rentabilite',
+  'endettement',
+  'croissance',
+  'tresorerie',
+  'valorisation',
+  'immobilier',
+  'donnees'
+];
+
+export interface AlertRuleLoadResult {
+  rules: DeclarativeAlertRule[];
+  errors: string[];
+}
+
+/**
+ * Valide une liste brute de regles (contenu d'un fichier JSON)
+ */
+export function parseAlertRules(raw: unknown, source: string): AlertRuleLoadResult {
+  const rules: DeclarativeAlertRule[] = [];
+  const errors: string[] = [];
+
+  if (!Array.isArray(raw)) {
+    return { rules, errors: [`${source}: un tableau de regles est attendu`] };
+  }
+
+  raw.forEach((entry, index) => {
+    const parsed = DeclarativeAlertRuleSchema.safeParse(entry);
+    if (!parsed.success) {
+      const id = (entry as any)?.id || `#${index}`;
+      const details = parsed.error.issues.map(i => `${i.path.join('.') || 'regle'}: ${i.message}`).join('; ');
+      errors.push(`${source} ${id}: ${details}`);
+      return;
+    }
+
+    const unknownMetrics = collectMetrics(parsed.data).filter(m => !isKnownMetric(m));
+    if (unknownMetrics.length > 0) {
+      errors.push(`${source} ${parsed.data.id}: metrique(s) inconnue(s) ${unknownMetrics.join(', ')}`);
+      return;
+    }
+
+    rules.push(parsed.data);
+  });
+
+  return { rules, errors };
+}
+
+/**
+ * Charge toutes les regles des fichiers *.json d'un repertoire (ordre alphabetique des fichiers)
+ */
+export function loadAlertRulesFromDir(dir: string): AlertRuleLoadResult {
+  const rules: DeclarativeAlertRule[] = [];
+  const errors: string[] = [];
+
+  if (!fs.existsSync(dir)) {
+    return { rules, errors: [`Repertoire de regles introuvable: ${dir}`] };
+  }
+
+  const files = fs.readdirSync(dir).filter(f => f.endsWith('.json')).sort();
+  for (const file of files) {
+    try {
+      const raw = JSON.parse(fs.readFileSync(path.join(dir, file), 'utf-8'));
+      const result = parseAlertRules(raw, file);
+      rules.push(...result.rules);
+      errors.push(...result.errors);
+    } catch (e: any) {
+      errors.push(`${file}: JSON invalide (${e.message})`);
+    }
+  }
+
+  return { rules, errors };
+}
+
+/**
+ * Charge les regles par defaut puis applique les surcharges de ALERT_RULES_DIR (par id)
+ */
+export function loadDeclarativeAlertRules(
+  dirs: string[] = [DEFAULT_ALERT_RULES_DIR, ...(process.env.ALERT_RULES_DIR ? [process.env.ALERT_RULES_DIR] : [])]
+): DeclarativeAlertRule[] {
+  const byId = new Map<string, DeclarativeAlertRule>();
+
+  for (const dir of dirs) {
+    const { rules, errors } = loadAlertRulesFromDir(dir);
+    errors.forEach(err => console.warn(`[alertRuleLoader] ⚠️ Regle ignoree - ${err}`));
+    rules.forEach(rule => byId.set(rule.id, rule));
+  }
+
+  return [...byId.values()];
+}
+
+/**
+ * Compile une regle declarative en AlertRule evaluable
+ */
+export function compileAlertRule(def: DeclarativeAlertRule): AlertRule {
+  return {
+    id: def.id,
+    category: def.category,
+    severity: def.severity,
+    condition: (ctx) => {
+      const conditions = activeConditions(def, ctx);
+      return conditions !== null && conditions.every(c => evaluateCondition(c, ctx));
+    },
+    extractValues: (ctx) => {
+      const values: Record<string, any> = {};
+      for (const [name, spec] of Object.entries(def.values || {})) {
+        values[name] = formatValue(resolveMetric(ctx, spec.metric), spec);
+      }
+      return values;
+    },
+    titleTemplate: def.title,
+    messageTemplate: (v) => def.message.replace(/\{(\w+)\}/g, (_, name) => String(v[name] ?? '')),
+    impactTemplate: def.impact,
+    recommendationTemplate: def.recommendation,
+    benchmarkQuote: (ctx) => quoteBenchmark(activeConditions(def, ctx) || [], ctx)
+  };
+}
+
+/**
+ * Fusionne les regles codees et les regles declaratives (une regle declarative remplace
+ * la regle codee de meme id), triees par categorie puis par id
+ */
+export function mergeAlertRules(codeRules: AlertRule[], declarativeRules: DeclarativeAlertRule[]): AlertRule[] {
+  const byId = new Map<string, AlertRule>();
+  codeRules.forEach(rule => byId.set(rule.id, rule));
+  declarativeRules.forEach(def => byId.set(def.id, compileAlertRule(def)));
+
+  return [...byId.values()].sort((a, b) =>
+    CATEGORY_ORDER.indexOf(a.category) - CATEGORY_ORDER.indexOf(b.category) || a.id.localeCompare(b.id)
+  );
+}
+
+function evaluateCondition(condition: RuleCondition, ctx: AlertEvaluationContext): boolean {
+  let actual = resolveMetric(ctx, condition.metric);
+  if (actual === undefined) return false;
+  if (condition.abs && typeof actual === 'number') actual = Math.abs(actual);
+
+  let expected: any = condition.value;
+  if (typeof expected === 'object') {
+    const reference = resolveReference(expected, ctx);
+    if (typeof reference !== 'number') return false;
+    expected = reference * (expected.factor ?? 1);
+  }
+
+  switch (condition.operator) {
+    case '==': return actual === expected;
+    case '!=': return actual !== expected;
+  }
+
+  if (typeof actual !== 'number' || typeof expected !== 'number') return false;
+  switch (condition.operator) {
+    case '<': return actual < expected;
+    case '<=': return actual <= expected;
+    case '>': return actual > expected;
+    case '>=': return actual >= expected;
+  }
+}
+
+function formatValue(value: any, spec: RuleValue): any {
+  if (value === undefined) return spec.default ?? '';
+  if (typeof value !== 'number') return value;
+
+  const n = spec.abs ? Math.abs(value) : value;
+  switch (spec.format) {
+    case 'fixed': return n.toFixed(spec.decimals ?? 0);
+    case 'locale': return n.toLocaleString('fr-FR');
+    default: return n;
+  }
+}
+
+function resolveReference(value: Extract<RuleCondition['value'], object>, ctx: AlertEvaluationContext): any {
+  return 'benchmark' in value
+    ? ctx.benchmark?.ratios?.[value.benchmark]
+    : resolveMetric(ctx, value.metric);
+}
+
+/**
+ * Ratios du benchmark sectoriel references par les conditions actives de la regle
+ */
+function quoteBenchmark(conditions: RuleCondition[], ctx: AlertEvaluationContext): AlertBenchmarkQuote | null {
+  if (!ctx.benchmark) return null;
+
+  const references: AlertBenchmarkQuote['references'] = [];
+  for (const c of conditions) {
+    if (typeof c.value !== 'object') continue;
+    const ratio = 'benchmark' in c.value
+      ? c.value.benchmark
+      : c.value.metric.match(/^benchmark\.ratios\.(\w+)$/)?.[1];
+    const sectorValue = ratio ? (ctx.benchmark.ratios as Record<string, number>)[ratio] : undefined;
+    if (!ratio || typeof sectorValue !== 'number') continue;
+
+    const factor = c.value.factor ?? 1;
+    references.push({
+      ratio,
+      label: BENCHMARK_RATIO_LABELS[ratio as keyof typeof BENCHMARK_RATIO_LABELS] || ratio,
+      sectorValue,
+      factor,
+      threshold: Math.round(sectorValue * factor * 10) / 10
+    });
+  }
+
+  if (references.length === 0) return null;
+  return {
+    nafCode: ctx.benchmark.nafCode,
+    sector: ctx.benchmark.sector,
+    isDefault: ctx.benchmark.isDefault ?? ctx.benchmark.nafCode === 'DEFAULT',
+    references
+  };
+}
+
+/**
+ * Conditions applicables au secteur du contexte (null si la regle est desactivee pour ce secteur)
+ */
+function activeConditions(def: DeclarativeAlertRule, ctx: AlertEvaluationContext): RuleCondition[] | null {
+  const override = findSectorOverride(def, ctx);
+  if (override?.enabled === false) return null;
+  return override?.conditions || def.conditions;
+}
+
+function findSectorOverride(def: DeclarativeAlertRule, ctx: AlertEvaluationContext) {
+  const sectorCode = ctx.businessInfo?.secteurActivite || ctx.businessInfo?.nafCode;
+  if (!def.sectorOverrides || !sectorCode) return null;
+
+  const prefix = Object.keys(def.sectorOverrides)
+    .filter(p => sectorCode.startsWith(p))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? def.sectorOverrides[prefix] : null;
+}
+
+function collectMetrics(def: DeclarativeAlertRule): string[] {
+  const conditions = [
+    ...def.conditions,
+    ...Object.values(def.sectorOverrides || {}).flatMap(o => o.conditions || [])
+  ];
+  return [
+    ...conditions.flatMap(c => typeof c.value === 'object' && 'metric' in c.value ? [c.metric, c.value.metric] : [c.metric]),
+    ...Object.values(def.values || {}).map(v => v.metric)
+  ];
+}
@@ -0,0 +1,103 @@
+/**
+ * Rent Indices Loader
+ *
+ * Charge les séries trimestrielles d'indices de révision des loyers commerciaux
+ * (data/rent-indices.json) : ILC, ILAT, ICC.
+ *
+ * - Le fichier est validé par RentIndexDatasetSchema au chargement ; un fichier
+ *   invalide lève une erreur listant les problèmes détectés
+ * - Au-delà du dernier trimestre publié, l'indice est extrapolé avec la croissance
+ *   long terme de la série (valeur marquée comme estimation)
+ */
+
+import fs from 'fs';
+import { fileURLToPath } from 'url';
+import { RentIndexDatasetSchema, indexToQuarter, quarterToIndex } from '../schemas/rentIndexSchema';
+import type { RentIndexCap, RentIndexDataset, RentIndexType } from '../schemas/rentIndexSchema';
+
+export const RENT_INDICES_FILE = fileURLToPath(new URL('../data/rent-indices.json', import.meta.url));
+
+/**
+ * Valide un fichier d'indices brut (contenu du fichier JSON)
+ */
+export function parseRentIndices(raw: unknown, source: string): RentIndexDataset {
+  const parsed = RentIndexDatasetSchema.safeParse(raw);
+  if (!parsed.success) {
+    const details = parsed.error.issues.map(i => `${i.path.join('.') || 'indices'}: ${i.message}`).join('; ');
+    throw new Error(`Indices de loyers invalides (${source}): ${details}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * Charge et valide les indices de loyers
+ */
+export function loadRentIndices(file: string = RENT_INDICES_FILE): RentIndexDataset {
+  return parseRentIndices(JSON.parse(fs.readFileSync(file, 'utf-8')), file);
+}
+
+export const RENT_INDICES: RentIndexDataset = loadRentIndices();
+
+/**
+ * Déduit l'indice de révision depuis la clause d'indexation du bail (ILC par défaut)
+ */
+export function detectRentIndexType(indexation?: string | null): RentIndexType {
+  const text = (indexation || '').toUpperCase();
+  if (/\bILAT\b|ACTIVIT[ÉE]S TERTIAIRES/.test(text)) return 'ILAT';
+  if (/\bICC\b|CO[ÛU]T DE LA CONSTRUCTION/.test(text)) return 'ICC';
+  return 'ILC';
+}
+
+/**
+ * Dernier trimestre publié pour un indice
+ */
+export function lastPublishedQuarter(indice: RentIndexType, dataset: RentIndexDataset = RENT_INDICES): string {
+  return Object.keys(dataset.indices[indice].valeurs).sort().pop()!;
+}
+
+/**
+ * Valeur d'un indice pour un trimestre donné
+ * (extrapolée depuis le premier ou le dernier trimestre publié si hors série)
+ */
+export function getRentIndexValue(
+  indice: RentIndexType,
+  quarter: string,
+  dataset: RentIndexDataset = RENT_INDICES
+): { valeur: number; estimation: boolean } {
+  const serie = dataset.indices[indice];
+  const publie = serie.valeurs[quarter];
+  if (publie !== undefined) return { valeur: publie, estimation: false };
+
+  const quarters = Object.keys(serie.valeurs).sort();
+  const cible = quarterToIndex(quarter);
+  const borne = cible > quarterToIndex(quarters[quarters.length - 1])
+    ? quarters[quarters.length - 1]
+    : quarters[0];
+  const ecartAnnees = (cible - quarterToIndex(borne)) / 4;
+  const valeur = serie.valeurs[borne] * Math.pow(1 + serie.croissance_long_terme_pct / 100, ecartAnnees);
+
+  return { valeur: Math.round(valeur * 100) / 100, estimation: true };
+}
+
+/**
+ * Plafonnement légal applicable à une révision dont le trimestre de référence est `quarter`
+ */
+export function findRentIndexCap(
+  indice: RentIndexType,
+  quarter: string,
+  dataset: RentIndexDataset = RENT_INDICES
+): RentIndexCap | null {
+  const rang = quarterToIndex(quarter);
+  return dataset.plafonds.find(p =>
+    p.indice === indice && rang >= quarterToIndex(p.debut) && rang <= quarterToIndex(p.fin)
+  ) || null;
+}
+
+/**
+ * Trimestre de référence d'une révision : dernier indice publié à la date de révision
+ * (publication INSEE avec environ un trimestre de décalage → trimestre civil - 2)
+ */
+export function referenceQuarter(date: Date): string {
+  const rang = date.getFullYear() * 4 + Math.floor(date.getMonth() / 3);
+  return indexToQuarter(rang - 2);
+}
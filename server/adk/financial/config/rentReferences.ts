@@ -0,0 +1,251 @@
+/**
+ * Rent References Loader
+ *
+ * Charge le référentiel des loyers de marché des locaux commerciaux
+ * (data/rent-references.json) : €/m²/an par territoire × type de zone × activité.
+ *
+ * - Le fichier est validé par RentReferenceDatasetSchema au chargement ; un
+ *   référentiel invalide lève une erreur listant les problèmes détectés
+ * - Un export CSV (observatoire local, base interne) peut remplacer le fichier
+ *   JSON : RENT_REFERENCES_FILE=/chemin/loyers.csv (voir parseRentReferencesCsv)
+ * - Recherche hiérarchique : commune INSEE → département → national, puis
+ *   zone + activité → zone → activité → toutes (niveau retenu dans la référence)
+ * - Le fournisseur est interchangeable (setRentReferenceProvider), par exemple
+ *   pour interroger une base externe à la place du référentiel local
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { RentReferenceDatasetSchema } from '../schemas/rentReferenceSchema';
+import type {
+  RentActivity,
+  RentReferenceDataset,
+  RentReferenceLevel,
+  RentReferenceMatch,
+  RentZoneType
+} from '../schemas/rentReferenceSchema';
+import { departementFromCodePostal } from '../tools/valuation/comparablesStore';
+
+export const RENT_REFERENCES_FILE = fileURLToPath(new URL('../data/rent-references.json', import.meta.url));
+
+/** Colonnes attendues dans un export CSV (séparateur ";" ou ",") */
+export const RENT_REFERENCES_CSV_COLUMNS = [
+  'territoire',
+  'libelle',
+  'zone',
+  'activite',
+  'loyer_m2_q1',
+  'loyer_m2_median',
+  'loyer_m2_q3',
+  'source',
+  'annee'
+] as const;
+
+/** Colonne facultative : nombre de baux de l'échantillon (vide si inconnu) */
+export const RENT_REFERENCES_CSV_OPTIONAL_COLUMNS = ['nb_references'] as const;
+
+type RentReferencesCsvColumn = typeof RENT_REFERENCES_CSV_COLUMNS[number] | typeof RENT_REFERENCES_CSV_OPTIONAL_COLUMNS[number];
+
+export interface RentReferenceQuery {
+  codeInsee?: string;          // Code commune INSEE (ex: "69123")
+  codePostal?: string;         // Repli pour le département si le code INSEE est inconnu
+  zone?: RentZoneType | null;
+  activite?: RentActivity | null;
+}
+
+export interface RentReferenceProvider {
+  name: string;
+  find(query: RentReferenceQuery): RentReferenceMatch | null;
+}
+
+/**
+ * Valide un référentiel brut (contenu du fichier JSON)
+ */
+export function parseRentReferences(raw: unknown, source: string): RentReferenceDataset {
+  const parsed = RentReferenceDatasetSchema.safeParse(raw);
+  if (!parsed.success) {
+    const details = parsed.error.issues.map(i => `${i.path.join('.') || 'referentiel'}: ${i.message}`).join('; ');
+    throw new Error(`Référentiel des loyers invalide (${source}): ${details}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * Convertit un export CSV en référentiel validé
+ * Une ligne par référence ; la source est déclarée par son libellé et son année.
+ * Zone ou activité vide = toutes ("*"). Décimales avec virgule acceptées (séparateur ";").
+ * nb_references (facultatif) : taille de l'échantillon, omise si la colonne est absente ou vide.
+ */
+export function parseRentReferencesCsv(content: string, source: string): RentReferenceDataset {
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/).filter(line => line.trim().length > 0);
+  const separator = (lines[0] || '').includes(';') ? ';' : ',';
+  const header = (lines[0] || '').split(separator).map(column => column.trim().toLowerCase());
+
+  const missing = RENT_REFERENCES_CSV_COLUMNS.filter(column => !header.includes(column));
+  if (missing.length > 0) {
+    throw new Error(`Référentiel des loyers invalide (${source}): colonnes manquantes: ${missing.join(', ')}`);
+  }
+
+  const sources: RentReferenceDataset['sources'] = {};
+  const references = lines.slice(1).map(line => {
+    const fields = line.split(separator).map(field => field.trim());
+    const cell = (column: RentReferencesCsvColumn) => (header.includes(column) ? fields[header.indexOf(column)] : '') ?? '';
+    const number = (column: RentReferencesCsvColumn) => Number(cell(column).replace(',', '.').replace(/\s/g, ''));
+
+    const label = cell('source');
+    const annee = number('annee');
+    const sourceId = `${normalizeText(label).replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '')}_${annee}`;
+    sources[sourceId] = { label, annee };
+
+    return {
+      territoire: cell('territoire').toUpperCase(),
+      libelle: cell('libelle'),
+      zone: cell('zone') || '*',
+      activite: cell('activite') || '*',
+      loyer_m2_q1: number('loyer_m2_q1'),
+      loyer_m2_median: number('loyer_m2_median'),
+      loyer_m2_q3: number('loyer_m2_q3'),
+      ...(cell('nb_references') && { nb_references: number('nb_references') }),
+      source: sourceId
+    };
+  });
+
+  return parseRentReferences({
+    version: `csv:${path.basename(source)}`,
+    sources,
+    references
+  }, source);
+}
+
+/**
+ * Charge et valide le référentiel des loyers (JSON, ou CSV selon l'extension)
+ */
+export function loadRentReferences(file: string = process.env.RENT_REFERENCES_FILE || RENT_REFERENCES_FILE): RentReferenceDataset {
+  const content = fs.readFileSync(file, 'utf-8');
+  return file.toLowerCase().endsWith('.csv')
+    ? parseRentReferencesCsv(content, file)
+    : parseRentReferences(JSON.parse(content), file);
+}
+
+export const RENT_REFERENCES: RentReferenceDataset = loadRentReferences();
+
+/**
+ * Type de zone depuis un libellé libre ("Centre-ville", "périphérie", "ZAC"...)
+ */
+export function normalizeRentZone(zone?: string | null): RentZoneType | null {
+  const text = normalizeText(zone);
+  if (!text) return null;
+  if (/zone commerciale|zone_commerciale|centre commercial|galerie|retail|\bzac\b/.test(text)) return 'zone_commerciale';
+  if (/centre|coeur de ville|hyper/.test(text)) return 'centre_ville';
+  if (/periph|faubourg/.test(text)) return 'peripherie';
+  if (/rural|village|campagne/.test(text)) return 'rural';
+  return null;
+}
+
+/**
+ * Activité depuis le type de commerce (libellé libre) ou, à défaut, le code NAF
+ */
+export function normalizeRentActivity(typeCommerce?: string | null, nafCode?: string | null): RentActivity | null {
+  const text = normalizeText(typeCommerce);
+  if (/tabac|presse|loto|fdj/.test(text)) return 'tabac_presse';
+  if (/restau|brasserie|\bbar\b|cafe|debit de boissons|snack|pizzeria/.test(text)) return 'restauration';
+  if (/boulang|patisser|boucher|charcut|alimentaire|epicerie|primeur|fromager|traiteur/.test(text)) return 'alimentaire';
+  if (/coiff|beaute|esthet|pressing|cordonn|service/.test(text)) return 'services';
+  if (/commerce|boutique|pret-a-porter|vetement|magasin|detail/.test(text)) return 'commerce_detail';
+
+  const naf = (nafCode || '').trim();
+  if (naf.startsWith('47.26')) return 'tabac_presse';
+  if (naf.startsWith('56')) return 'restauration';
+  if (/^(10\.7|47\.[12])/.test(naf)) return 'alimentaire';
+  if (naf.startsWith('96')) return 'services';
+  if (naf.startsWith('47')) return 'commerce_detail';
+  return null;
+}
+
+/**
+ * Fournisseur adossé à un référentiel (local par défaut)
+ */
+export function createDatasetRentReferenceProvider(
+  dataset: RentReferenceDataset,
+  name = 'referentiel-local'
+): RentReferenceProvider {
+  return {
+    name,
+    find(query) {
+      const codeInsee = (query.codeInsee || '').trim().toUpperCase();
+      const departement = codeInsee
+        ? codeInsee.slice(0, codeInsee.startsWith('97') ? 3 : 2)
+        : departementFromCodePostal(query.codePostal || '');
+
+      const territoires: { code: string; niveau: RentReferenceLevel }[] = [
+        ...(codeInsee ? [{ code: codeInsee, niveau: 'commune' as const }] : []),
+        ...(departement ? [{ code: departement, niveau: 'departement' as const }] : []),
+        { code: 'FR', niveau: 'national' }
+      ];
+      const zone = query.zone || '*';
+      const activite = query.activite || '*';
+      const combinaisons = [
+        [zone, activite],
+        [zone, '*'],
+        ['*', activite],
+        ['*', '*']
+      ];
+
+      for (const territoire of territoires) {
+        for (const [z, a] of combinaisons) {
+          const entry = dataset.references.find(e => e.territoire === territoire.code && e.zone === z && e.activite === a);
+          if (entry) {
+            const { source, ...valeurs } = entry;
+            return {
+              fournisseur: name,
+              ...valeurs,
+              niveau: territoire.niveau,
+              source: dataset.sources[source].label,
+              annee: dataset.sources[source].annee
+            };
+          }
+        }
+      }
+      return null;
+    }
+  };
+}
+
+let activeProvider: RentReferenceProvider = createDatasetRentReferenceProvider(RENT_REFERENCES);
+
+export function getRentReferenceProvider(): RentReferenceProvider {
+  return activeProvider;
+}
+
+/**
+ * Remplace le fournisseur de références (null = référentiel local)
+ */
+export function setRentReferenceProvider(provider: RentReferenceProvider | null): void {
+  activeProvider = provider || createDatasetRentReferenceProvider(RENT_REFERENCES);
+}
+
+/**
+ * Libellé de la référence pour la simulation et le rapport
+ * (ex: "Lyon (commune), centre-ville, toutes activités — médiane 290 €/m²/an, estimation sans échantillon de baux (Estimation indicative..., 2025)").
+ * Le nombre de références n'est cité que pour une source observée qui le fournit.
+ */
+export function formatRentReference(match: RentReferenceMatch): string {
+  const zone = match.zone === '*' ? 'toutes zones' : match.zone.replace('_', '-');
+  const activite = match.activite === '*' ? 'toutes activités' : match.activite.replace('_', ' / ');
+  return `${match.libelle} (${match.niveau}), ${zone}, ${activite} — médiane ${match.loyer_m2_median.toLocaleString('fr-FR')} €/m²/an, `
+    + `${formatRentReferenceBasis(match)} (${match.source}, ${match.annee})`;
+}
+
+/**
+ * Base de la référence : taille de l'échantillon si connue, sinon estimation
+ */
+export function formatRentReferenceBasis(match: Pick<RentReferenceMatch, 'nb_references'>): string {
+  return match.nb_references
+    ? `sur ${match.nb_references.toLocaleString('fr-FR')} références`
+    : 'estimation sans échantillon de baux';
+}
+
+function normalizeText(value?: string | null): string {
+  return (value || '').toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+}
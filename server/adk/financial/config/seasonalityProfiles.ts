@@ -0,0 +1,78 @@
+/**
+ * Seasonality Profiles Configuration
+ *
+ * Répartition mensuelle du CA par secteur (janvier → décembre), utilisée par le
+ * plan de trésorerie mensuel quand l'utilisateur n'a pas saisi son CA mois par mois.
+ * Coefficients relatifs (1 = mois moyen), normalisés à l'usage.
+ * Sources: profils d'activité sectoriels (fêtes de fin d'année, soldes, saison estivale)
+ */
+
+export interface SeasonalityProfile {
+  nafCode: string;
+  sector: string;
+  coefficients: number[]; // 12 valeurs, janvier → décembre
+}
+
+export const SEASONALITY_PROFILES: SeasonalityProfile[] = [
+  {
+    nafCode: '47.11',
+    sector: 'Commerce en magasin non spécialisé (supermarchés)',
+    coefficients: [0.95, 0.92, 0.98, 1.0, 1.02, 1.03, 1.05, 1.02, 0.98, 0.98, 0.97, 1.1]
+  },
+  {
+    nafCode: '47.26',
+    sector: 'Commerce de détail de produits à base de tabac, presse et loterie',
+    coefficients: [0.95, 0.9, 0.98, 0.98, 1.0, 1.0, 1.02, 0.98, 0.98, 1.0, 0.98, 1.23]
+  },
+  {
+    nafCode: '10.71',
+    sector: 'Boulangerie et boulangerie-pâtisserie',
+    coefficients: [0.95, 0.92, 0.98, 1.02, 1.02, 1.0, 0.95, 0.9, 0.98, 1.0, 1.0, 1.28]
+  },
+  {
+    nafCode: '56.10',
+    sector: 'Restauration traditionnelle',
+    coefficients: [0.8, 0.82, 0.95, 1.02, 1.08, 1.1, 1.12, 1.0, 1.02, 1.0, 0.92, 1.17]
+  },
+  {
+    nafCode: '56.30',
+    sector: 'Débits de boissons',
+    coefficients: [0.82, 0.82, 0.92, 1.0, 1.1, 1.18, 1.2, 1.1, 1.0, 0.95, 0.85, 1.06]
+  },
+  {
+    nafCode: '96.02',
+    sector: 'Coiffure',
+    coefficients: [0.92, 0.88, 0.98, 1.0, 1.02, 1.05, 1.02, 0.85, 0.98, 1.02, 1.0, 1.28]
+  },
+  {
+    nafCode: '47.7',
+    sector: 'Commerce spécialisé habillement',
+    coefficients: [1.0, 0.75, 0.9, 1.0, 1.0, 1.0, 1.1, 0.75, 0.95, 1.0, 1.1, 1.45]
+  },
+  {
+    nafCode: '47.73',
+    sector: 'Pharmacie',
+    coefficients: [1.1, 1.08, 1.02, 0.98, 0.95, 0.95, 0.92, 0.88, 0.98, 1.02, 1.02, 1.1]
+  },
+  {
+    nafCode: '55.10',
+    sector: 'Hôtellerie',
+    coefficients: [0.65, 0.7, 0.85, 1.0, 1.1, 1.2, 1.4, 1.45, 1.15, 0.95, 0.7, 0.85]
+  }
+];
+
+/**
+ * Profil par défaut (activité linéaire)
+ */
+export const DEFAULT_SEASONALITY: SeasonalityProfile = {
+  nafCode: 'DEFAULT',
+  sector: 'Activité sans saisonnalité marquée',
+  coefficients: [1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1]
+};
+
+/**
+ * Trouve le profil de saisonnalité d'un secteur (code sélectionné dans le dropdown)
+ */
+export function findSeasonalityProfile(sectorCode: string): SeasonalityProfile {
+  return SEASONALITY_PROFILES.find(p => p.nafCode === sectorCode) || DEFAULT_SEASONALITY;
+}
@@ -2,9 +2,13 @@
  * Sector Benchmarks Configuration
  *
  * Ratios moyens par code NAF pour comparaison sectorielle.
- * Sources: INSEE, Banque de France, données sectorielles 2023-2024
+ * Les valeurs proviennent du référentiel data/sector-references.json (source et
+ * année par secteur), voir config/sectorReferences.ts.
  */
 
+import { SECTOR_REFERENCES, resolveSectorReference, defaultProvenance } from './sectorReferences';
+import type { SectorProvenance } from '../schemas/sectorReferenceSchema';
+
 export interface SectorBenchmark {
   nafCode: string;
   sector: string;
@@ -19,174 +23,60 @@ export interface SectorBenchmark {
     bfr_jours_ca: number;          // BFR / (CA / 365)
     taux_endettement_pct: number;  // Dettes / Capitaux propres
   };
+  provenance?: SectorProvenance;   // Source, année et niveau NAF retenu
 }
 
-export const SECTOR_BENCHMARKS: SectorBenchmark[] = [
-  // Commerce de détail alimentaire
-  {
-    nafCode: '47.11',
-    sector: 'Commerce en magasin non spécialisé (supermarchés)',
-    ratios: {
-      marge_brute_pct: 22,
-      marge_ebe_pct: 4.5,
-      marge_nette_pct: 1.8,
-      taux_va_pct: 18,
-      rotation_stocks_jours: 20,
-      delai_clients_jours: 5,
-      delai_fournisseurs_jours: 45,
-      bfr_jours_ca: -15,
-      taux_endettement_pct: 120
-    }
-  },
-  // Tabac Presse Loto (NAF 47.26Z)
-  {
-    nafCode: '47.26',
-    sector: 'Commerce de détail de produits à base de tabac, presse et loterie',
-    ratios: {
-      marge_brute_pct: 66,          // Marge globale (commissions réglementées + boutique)
-      marge_ebe_pct: 18,             // EBE moyen pour tabac-presse
-      marge_nette_pct: 10,           // Marge nette typique
-      taux_va_pct: 50,               // Forte VA car peu d'achats externes
-      rotation_stocks_jours: 25,     // Stock boutique + marchandises
-      delai_clients_jours: 3,        // Beaucoup de ventes cash
-      delai_fournisseurs_jours: 30,  // Paiement fournisseurs standard
-      bfr_jours_ca: -10,             // BFR négatif grâce au cash
-      taux_endettement_pct: 90       // Endettement modéré
-    }
-  },
-  // Boulangerie-pâtisserie
-  {
-    nafCode: '10.71',
-    sector: 'Boulangerie et boulangerie-pâtisserie',
-    ratios: {
-      marge_brute_pct: 65,
-      marge_ebe_pct: 18,
-      marge_nette_pct: 8,
-      taux_va_pct: 55,
-      rotation_stocks_jours: 3,
-      delai_clients_jours: 2,
-      delai_fournisseurs_jours: 30,
-      bfr_jours_ca: -20,
-      taux_endettement_pct: 80
-    }
-  },
-  // Restaurant traditionnel
-  {
-    nafCode: '56.10',
-    sector: 'Restauration traditionnelle',
-    ratios: {
-      marge_brute_pct: 70,
-      marge_ebe_pct: 12,
-      marge_nette_pct: 4,
-      taux_va_pct: 60,
-      rotation_stocks_jours: 7,
-      delai_clients_jours: 3,
-      delai_fournisseurs_jours: 30,
-      bfr_jours_ca: -15,
-      taux_endettement_pct: 100
-    }
-  },
-  // Bar, café
-  {
-    nafCode: '56.30',
-    sector: 'Débits de boissons',
-    ratios: {
-      marge_brute_pct: 75,
-      marge_ebe_pct: 15,
-      marge_nette_pct: 5,
-      taux_va_pct: 65,
-      rotation_stocks_jours: 10,
-      delai_clients_jours: 2,
-      delai_fournisseurs_jours: 30,
-      bfr_jours_ca: -12,
-      taux_endettement_pct: 90
-    }
-  },
-  // Coiffure
-  {
-    nafCode: '96.02',
-    sector: 'Coiffure',
-    ratios: {
-      marge_brute_pct: 80,
-      marge_ebe_pct: 20,
-      marge_nette_pct: 10,
-      taux_va_pct: 70,
-      rotation_stocks_jours: 30,
-      delai_clients_jours: 1,
-      delai_fournisseurs_jours: 30,
-      bfr_jours_ca: -10,
-      taux_endettement_pct: 60
-    }
-  },
-  // Commerce de détail non alimentaire
-  {
-    nafCode: '47.7',
-    sector: 'Commerce de détail spécialisé (habillement, chaussures)',
-    ratios: {
-      marge_brute_pct: 50,
-      marge_ebe_pct: 8,
-      marge_nette_pct: 3,
-      taux_va_pct: 40,
-      rotation_stocks_jours: 90,
-      delai_clients_jours: 10,
-      delai_fournisseurs_jours: 60,
-      bfr_jours_ca: 35,
-      taux_endettement_pct: 110
-    }
-  },
-  // Pharmacie
-  {
-    nafCode: '47.73',
-    sector: 'Commerce de détail de produits pharmaceutiques',
-    ratios: {
-      marge_brute_pct: 28,
-      marge_ebe_pct: 10,
-      marge_nette_pct: 5,
-      taux_va_pct: 25,
-      rotation_stocks_jours: 60,
-      delai_clients_jours: 15,
-      delai_fournisseurs_jours: 45,
-      bfr_jours_ca: 25,
-      taux_endettement_pct: 70
-    }
-  },
-  // Hôtellerie
-  {
-    nafCode: '55.10',
-    sector: 'Hôtels et hébergement similaire',
-    ratios: {
-      marge_brute_pct: 85,
-      marge_ebe_pct: 25,
-      marge_nette_pct: 8,
-      taux_va_pct: 75,
-      rotation_stocks_jours: 5,
-      delai_clients_jours: 10,
-      delai_fournisseurs_jours: 30,
-      bfr_jours_ca: -5,
-      taux_endettement_pct: 150
-    }
-  }
-];
+/**
+ * Libellés des ratios sectoriels (comparaison sectorielle, alertes citant le benchmark)
+ */
+export const BENCHMARK_RATIO_LABELS: Record<keyof SectorBenchmark['ratios'], string> = {
+  marge_brute_pct: 'Marge brute',
+  marge_ebe_pct: 'Marge EBE',
+  marge_nette_pct: 'Marge nette',
+  taux_va_pct: 'Taux de VA',
+  rotation_stocks_jours: 'Rotation stocks (jours)',
+  delai_clients_jours: 'Délai clients (jours)',
+  delai_fournisseurs_jours: 'Délai fournisseurs (jours)',
+  bfr_jours_ca: 'BFR (jours de CA)',
+  taux_endettement_pct: 'Taux d\'endettement'
+};
 
 /**
- * Find sector benchmark by exact sector code
+ * Benchmarks du référentiel sectoriel (data/sector-references.json)
+ */
+export const SECTOR_BENCHMARKS: SectorBenchmark[] = SECTOR_REFERENCES.sectors
+  .filter(entry => entry.benchmark)
+  .map(entry => ({
+    nafCode: entry.nafCode,
+    sector: entry.sector,
+    ratios: entry.benchmark!.ratios
+  }));
+
+/**
+ * Find sector benchmark by NAF code, with hierarchical fallback
+ * (sous-classe → classe → groupe → division, ex: 47.76Z → 47.76 → 47.7 → 47)
  * @param sectorCode - NAF code (e.g., '47.26') from user selection
- * @returns SectorBenchmark or null if not found
+ * @returns SectorBenchmark (with provenance) or null if no level is referenced
  */
 export function findSectorBenchmark(sectorCode: string): SectorBenchmark | null {
   if (!sectorCode) return null;
 
-  // Direct lookup - user has selected exact sector from dropdown
-  const benchmark = SECTOR_BENCHMARKS.find(b => b.nafCode === sectorCode);
+  const resolved = resolveSectorReference(sectorCode, 'benchmark');
 
-  if (!benchmark) {
+  if (!resolved) {
     console.warn(`⚠️ [findSectorBenchmark] No benchmark found for sector: ${sectorCode}`);
     console.warn(`Available sectors: ${SECTOR_BENCHMARKS.map(b => b.nafCode).join(', ')}`);
     return null;
   }
 
-  console.log(`✅ [findSectorBenchmark] Found: ${benchmark.sector} (${sectorCode})`);
-  return benchmark;
+  const { entry, provenance } = resolved;
+  console.log(`✅ [findSectorBenchmark] Found: ${entry.sector} (${sectorCode} → ${entry.nafCode}, ${provenance.niveau})`);
+  return {
+    nafCode: entry.nafCode,
+    sector: entry.sector,
+    ratios: entry.benchmark!.ratios,
+    provenance
+  };
 }
 
 /**
@@ -194,16 +84,7 @@ export function findSectorBenchmark(sectorCode: string): SectorBenchmark | null
  */
 export const DEFAULT_BENCHMARK: SectorBenchmark = {
   nafCode: 'DEFAULT',
-  sector: 'Commerce et services (moyenne générale)',
-  ratios: {
-    marge_brute_pct: 45,
-    marge_ebe_pct: 10,
-    marge_nette_pct: 3,
-    taux_va_pct: 40,
-    rotation_stocks_jours: 45,
-    delai_clients_jours: 30,
-    delai_fournisseurs_jours: 45,
-    bfr_jours_ca: 15,
-    taux_endettement_pct: 100
-  }
+  sector: SECTOR_REFERENCES.default.sector,
+  ratios: SECTOR_REFERENCES.default.benchmark.ratios,
+  provenance: defaultProvenance('DEFAULT', 'benchmark')
 };
@@ -15,6 +15,21 @@ export const SECTOR_MAPPING = {
   'Commerce spécialisé habillement': '47.7',
   'Pharmacie': '47.73',
   'Hôtellerie': '55.10',
+  'Primeur (Fruits et légumes)': '47.21',
+  'Boucherie-Charcuterie': '47.22',
+  'Poissonnerie': '47.23',
+  'Caviste': '47.25',
+  'Épicerie fine': '47.29',
+  'Librairie': '47.61',
+  'Presse / Papeterie': '47.62',
+  'Parfumerie / Cosmétiques': '47.75',
+  'Fleuriste': '47.76',
+  'Bijouterie / Horlogerie': '47.77',
+  'Optique': '47.78A',
+  'Restauration rapide': '56.10C',
+  'Institut de beauté': '96.02B',
+  'Hébergement touristique (Gîtes, Chambres d\'hôtes)': '55.20',
+  'Camping': '55.30',
 } as const;
 
 export type SectorDisplayName = keyof typeof SECTOR_MAPPING;
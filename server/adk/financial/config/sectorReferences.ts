@@ -0,0 +1,113 @@
+/**
+ * Sector References Loader
+ *
+ * Charge le référentiel sectoriel (data/sector-references.json) : ratios moyens
+ * et coefficients de valorisation par code NAF, avec leur source et année.
+ *
+ * - Le fichier est validé par SectorReferenceDatasetSchema au chargement ; un
+ *   référentiel invalide lève une erreur listant les problèmes détectés
+ * - Recherche hiérarchique : sous-classe → classe → groupe → division
+ *   (ex: 47.26Z → 47.26 → 47.2 → 47), le niveau retenu est indiqué dans la provenance
+ */
+
+import fs from 'fs';
+import { fileURLToPath } from 'url';
+import { SectorReferenceDatasetSchema } from '../schemas/sectorReferenceSchema';
+import type {
+  NafLevel,
+  SectorProvenance,
+  SectorReferenceDataset,
+  SectorReferenceEntry
+} from '../schemas/sectorReferenceSchema';
+
+export const SECTOR_REFERENCES_FILE = fileURLToPath(new URL('../data/sector-references.json', import.meta.url));
+
+/**
+ * Valide un référentiel brut (contenu du fichier JSON)
+ */
+export function parseSectorReferences(raw: unknown, source: string): SectorReferenceDataset {
+  const parsed = SectorReferenceDatasetSchema.safeParse(raw);
+  if (!parsed.success) {
+    const details = parsed.error.issues.map(i => `${i.path.join('.') || 'referentiel'}: ${i.message}`).join('; ');
+    throw new Error(`Référentiel sectoriel invalide (${source}): ${details}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * Charge et valide le référentiel sectoriel
+ */
+export function loadSectorReferences(file: string = SECTOR_REFERENCES_FILE): SectorReferenceDataset {
+  return parseSectorReferences(JSON.parse(fs.readFileSync(file, 'utf-8')), file);
+}
+
+export const SECTOR_REFERENCES: SectorReferenceDataset = loadSectorReferences();
+
+/**
+ * Codes candidats du plus précis au plus large (ex: "47.26Z" → 47.26Z, 47.26, 47.2, 47)
+ */
+export function nafFallbackChain(nafCode: string): { code: string; niveau: NafLevel }[] {
+  const normalized = (nafCode || '').replace(/\s/g, '').toUpperCase();
+  const match = normalized.match(/^(\d{2})(?:\.(\d)(\d)?([A-Z])?)?$/);
+  if (!match) return [];
+
+  const [, division, groupDigit, classDigit, subclass] = match;
+  const chain: { code: string; niveau: NafLevel }[] = [];
+  if (groupDigit && classDigit && subclass) chain.push({ code: `${division}.${groupDigit}${classDigit}${subclass}`, niveau: 'sous-classe' });
+  if (groupDigit && classDigit) chain.push({ code: `${division}.${groupDigit}${classDigit}`, niveau: 'classe' });
+  if (groupDigit) chain.push({ code: `${division}.${groupDigit}`, niveau: 'groupe' });
+  chain.push({ code: division, niveau: 'division' });
+  return chain;
+}
+
+/**
+ * Trouve l'entrée la plus précise disposant du bloc demandé (benchmark ou valuation)
+ */
+export function resolveSectorReference(
+  nafCode: string,
+  block: 'benchmark' | 'valuation',
+  dataset: SectorReferenceDataset = SECTOR_REFERENCES
+): { entry: SectorReferenceEntry; provenance: SectorProvenance } | null {
+  for (const candidate of nafFallbackChain(nafCode)) {
+    const entry = dataset.sectors.find(s => s.nafCode === candidate.code && s[block]);
+    if (entry) {
+      return {
+        entry,
+        provenance: buildProvenance(nafCode, candidate.code, candidate.niveau, entry[block]!.source, dataset)
+      };
+    }
+  }
+  return null;
+}
+
+/**
+ * Provenance des valeurs par défaut (secteur non référencé)
+ */
+export function defaultProvenance(
+  nafCode: string,
+  block: 'benchmark' | 'valuation',
+  dataset: SectorReferenceDataset = SECTOR_REFERENCES
+): SectorProvenance {
+  return buildProvenance(nafCode, 'DEFAULT', 'defaut', dataset.default[block].source, dataset);
+}
+
+/**
+ * Libellé de provenance pour le rapport (ex: "INSEE, Banque de France (2024) — NAF 47.2 (groupe)")
+ */
+export function formatProvenance(provenance: SectorProvenance): string {
+  const reference = provenance.niveau === 'defaut'
+    ? 'moyenne tous secteurs'
+    : `NAF ${provenance.codeRetenu} (${provenance.niveau})`;
+  return `${provenance.source} (${provenance.annee}) — ${reference}`;
+}
+
+function buildProvenance(
+  codeDemande: string,
+  codeRetenu: string,
+  niveau: NafLevel,
+  sourceId: string,
+  dataset: SectorReferenceDataset
+): SectorProvenance {
+  const source = dataset.sources[sourceId];
+  return { codeDemande, codeRetenu, niveau, source: source.label, annee: source.annee };
+}
@@ -0,0 +1,88 @@
+/**
+ * Travaux Costs Loader
+ *
+ * Charge la bibliothèque de coûts travaux (data/travaux-costs.json) : postes chiffrés
+ * par unité, checklist ERP 5e catégorie / PMR et postes retenus selon l'état du local.
+ *
+ * - Le fichier est validé par TravauxCostLibrarySchema au chargement ; une
+ *   bibliothèque invalide lève une erreur listant les problèmes détectés
+ * - Une bibliothèque propre (devis négociés, prix régionaux) peut remplacer le
+ *   fichier fourni : TRAVAUX_COSTS_FILE=/chemin/travaux.json
+ * - Les constats libres (analyse photos) sont rattachés à un poste par mots-clés
+ */
+
+import fs from 'fs';
+import { fileURLToPath } from 'url';
+import { TravauxCostLibrarySchema } from '../schemas/travauxCostSchema';
+import type { TravauxCostLibrary, TravauxItem } from '../schemas/travauxCostSchema';
+
+export const TRAVAUX_COSTS_FILE = fileURLToPath(new URL('../data/travaux-costs.json', import.meta.url));
+
+/**
+ * Valide une bibliothèque brute (contenu du fichier JSON)
+ */
+export function parseTravauxCosts(raw: unknown, source: string): TravauxCostLibrary {
+  const parsed = TravauxCostLibrarySchema.safeParse(raw);
+  if (!parsed.success) {
+    const details = parsed.error.issues.map(i => `${i.path.join('.') || 'bibliotheque'}: ${i.message}`).join('; ');
+    throw new Error(`Bibliothèque de coûts travaux invalide (${source}): ${details}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * Charge et valide la bibliothèque de coûts travaux
+ */
+export function loadTravauxCosts(file: string = process.env.TRAVAUX_COSTS_FILE || TRAVAUX_COSTS_FILE): TravauxCostLibrary {
+  return parseTravauxCosts(JSON.parse(fs.readFileSync(file, 'utf-8')), file);
+}
+
+export const TRAVAUX_COSTS: TravauxCostLibrary = loadTravauxCosts();
+
+/**
+ * Poste de la bibliothèque par identifiant
+ */
+export function getTravauxItem(id: string, library: TravauxCostLibrary = TRAVAUX_COSTS): TravauxItem | undefined {
+  return library.items.find(item => item.id === id);
+}
+
+/**
+ * Rattache un constat libre ("Vitrine fissurée à remplacer") au poste dont le
+ * mot-clé reconnu est le plus long (le plus spécifique) ; null si aucun ne correspond
+ */
+export function matchTravauxItem(constat: string, library: TravauxCostLibrary = TRAVAUX_COSTS): TravauxItem | null {
+  const text = normalizeText(constat);
+  let best: { item: TravauxItem; longueur: number } | null = null;
+
+  for (const item of library.items) {
+    for (const motCle of item.mots_cles) {
+      const kw = normalizeText(motCle);
+      const escaped = kw.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      if (new RegExp(`\\b${escaped}(s|x)?\\b`).test(text) && (!best || kw.length > best.longueur)) {
+        best = { item, longueur: kw.length };
+      }
+    }
+  }
+  return best?.item ?? null;
+}
+
+/**
+ * Quantité d'un poste selon la surface du local
+ * - m2 : surface (quantité par défaut si inconnue)
+ * - unite : proportionnelle à la surface si m2_par_unite, avec un minimum
+ * - forfait : 1
+ */
+export function travauxQuantity(item: TravauxItem, surfaceM2: number): number {
+  if (item.unite === 'm2') {
+    return surfaceM2 > 0 ? surfaceM2 : item.quantite_defaut;
+  }
+  if (item.unite === 'unite' && item.m2_par_unite) {
+    const quantite = surfaceM2 > 0 ? Math.ceil(surfaceM2 / item.m2_par_unite) : item.quantite_defaut;
+    return Math.max(item.quantite_min ?? 1, quantite);
+  }
+  return item.unite === 'unite' ? item.quantite_defaut : 1;
+}
+
+function normalizeText(value?: string | null): string {
+  return (value || '').toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[\u2019']/g, ' ');
+}
@@ -32,7 +32,13 @@ import { FinancialReportAgent } from './agents/FinancialReportAgent';
  * 5. FinancialValidationAgent - Validation cohérence ✅ IMPLEMENTED
  * 6. FinancialReportAgent - Génération rapport HTML ✅ IMPLEMENTED
  */
-export { createFinancialOrchestrator, FinancialOrchestrator } from './orchestrator/FinancialOrchestrator';
+export {
+  createFinancialOrchestrator,
+  FinancialOrchestrator,
+  FINANCIAL_PIPELINE_STAGES,
+  getCompletedFinancialStages
+} from './orchestrator/FinancialOrchestrator';
+export type { FinancialStage } from './orchestrator/FinancialOrchestrator';
 
 // Export agents
 export { ComptaPreprocessingAgent } from './agents/ComptaPreprocessingAgent';
@@ -43,6 +49,43 @@ export { ImmobilierAgent } from './agents/ImmobilierAgent';
 export { FinancialValidationAgent } from './agents/FinancialValidationAgent';
 export { FinancialReportAgent } from './agents/FinancialReportAgent';
 
+// Export state typé (schémas Zod + accès validé)
+export {
+  FINANCIAL_STATE_SCHEMAS,
+  SigValueSchema,
+  SigYearSchema,
+  DocumentExtractionOutputSchema,
+  ComptableOutputSchema,
+  ValorisationOutputSchema,
+  ImmobilierOutputSchema,
+  FinancialValidationOutputSchema,
+  FinancialReportOutputSchema,
+  getSigValue
+} from './schemas/financialStateSchema';
+export type {
+  SigValue,
+  SigYear,
+  DocumentExtractionOutput,
+  ComptableOutput,
+  ValorisationOutput,
+  ImmobilierOutput,
+  FinancialValidationOutput,
+  FinancialReportOutput,
+  FinancialStateKey,
+  FinancialStateOutputs
+} from './schemas/financialStateSchema';
+export { readState, readUntypedState, parseStateValue, FinancialStateError } from './state/readState';
+export type { FinancialStateIssue } from './state/readState';
+
+import type {
+  DocumentExtractionOutput,
+  ComptableOutput,
+  ValorisationOutput,
+  ImmobilierOutput,
+  FinancialValidationOutput,
+  FinancialReportOutput
+} from './schemas/financialStateSchema';
+
 // Export types
 export type FinancialInput = {
   businessId: string;
@@ -58,6 +101,9 @@ export type FinancialInput = {
     secteurActivite: string;       // User-selected sector code (NAF format, e.g., '47.26')
     secteurActiviteLabel?: string; // User-selected sector label (for display, e.g., 'Tabac / Presse / Loto')
     activity: string;
+    codePostal?: string;           // Code postal du commerce (méthode des comparables BODACC)
+    commune?: string;
+    codeInsee?: string;            // Code commune INSEE (référentiel des loyers commerciaux)
   };
   userComments?: {
     frais_personnel_N1?: number;       // ✅ NOUVEAU (2025-12-30): Estimation frais personnel année N+1 (€/an)
@@ -105,6 +151,15 @@ export type FinancialInput = {
         taux_interet?: number;
         taux_assurance?: number;
         estimation_annuelle?: number;
+        differe_mois?: number;
+        type_differe?: 'partiel' | 'total';
+        base_assurance?: 'capital_initial' | 'capital_restant_du';
+        relais_tva_duree_mois?: number;
+
+        // Crédit vendeur (conditions propres)
+        credit_vendeur_taux?: number;
+        credit_vendeur_duree_mois?: number;
+        credit_vendeur_differe_mois?: number;
       };
 
       negocie?: {
@@ -129,6 +184,15 @@ export type FinancialInput = {
         taux_interet?: number;
         taux_assurance?: number;
         estimation_annuelle?: number;
+        differe_mois?: number;
+        type_differe?: 'partiel' | 'total';
+        base_assurance?: 'capital_initial' | 'capital_restant_du';
+        relais_tva_duree_mois?: number;
+
+        // Crédit vendeur (conditions propres)
+        credit_vendeur_taux?: number;
+        credit_vendeur_duree_mois?: number;
+        credit_vendeur_differe_mois?: number;
       };
     };
   };
@@ -151,12 +215,13 @@ export type FinancialState = {
     savedTo?: string;
     documentsUpdated: boolean;
   };
-  documentExtraction?: any;
-  comptable?: any;
-  valorisation?: any;
-  immobilier?: any;
-  financialValidation?: any;
-  financialReport?: any;
+  // Outputs agents : schémas Zod (schemas/financialStateSchema.ts), lire via readState()
+  documentExtraction?: DocumentExtractionOutput;
+  comptable?: ComptableOutput;
+  valorisation?: ValorisationOutput;
+  immobilier?: ImmobilierOutput;
+  financialValidation?: FinancialValidationOutput;
+  financialReport?: FinancialReportOutput;
   userComments?: {
     frais_personnel_N1?: number;       // ✅ NOUVEAU (2025-12-30): Estimation frais personnel année N+1 (€/an)
     reprise_salaries?: boolean;        // ✅ NOUVEAU (2025-12-30): Reprise des salariés du cédant (true=oui, false=non)
@@ -203,6 +268,15 @@ export type FinancialState = {
         taux_interet?: number;
         taux_assurance?: number;
         estimation_annuelle?: number;
+        differe_mois?: number;
+        type_differe?: 'partiel' | 'total';
+        base_assurance?: 'capital_initial' | 'capital_restant_du';
+        relais_tva_duree_mois?: number;
+
+        // Crédit vendeur (conditions propres)
+        credit_vendeur_taux?: number;
+        credit_vendeur_duree_mois?: number;
+        credit_vendeur_differe_mois?: number;
       };
 
       negocie?: {
@@ -227,6 +301,15 @@ export type FinancialState = {
         taux_interet?: number;
         taux_assurance?: number;
         estimation_annuelle?: number;
+        differe_mois?: number;
+        type_differe?: 'partiel' | 'total';
+        base_assurance?: 'capital_initial' | 'capital_restant_du';
+        relais_tva_duree_mois?: number;
+
+        // Crédit vendeur (conditions propres)
+        credit_vendeur_taux?: number;
+        credit_vendeur_duree_mois?: number;
+        credit_vendeur_differe_mois?: number;
       };
     };
   };
@@ -1,4 +1,5 @@
 import { SequentialAgent } from '@google/adk';
+import type { BaseAgent, Event } from '@google/adk';
 import { ComptaPreprocessingAgent } from '../agents/ComptaPreprocessingAgent';
 import { DocumentExtractionAgent } from '../agents/DocumentExtractionAgent';
 import { ComptableAgent } from '../agents/ComptableAgent';
@@ -79,7 +80,62 @@ import { FinancialReportAgent } from '../agents/FinancialReportAgent';
  *   }
  * }
  * ```
+ *
+ * Reprise d'un run (FileSessionService, session `financial-<siret>-<runId>`):
+ * ```javascript
+ * const session = await fileSessionService.getSession({ appName, userId, sessionId });
+ * const orchestrator = createFinancialOrchestrator({
+ *   completedStages: getCompletedFinancialStages(session.events)
+ * });
+ * // → réutilise documentExtraction / comptable déjà présents dans le state
+ * ```
+ */
+
+/**
+ * Étapes du pipeline financier dans l'ordre d'exécution.
+ *
+ * stateKey = clé de state écrite par l'agent (outputKey, ou state.set() du tool
+ * saveFinancialReport pour financialReport qui n'a pas d'outputKey).
  */
+export const FINANCIAL_PIPELINE_STAGES = [
+  { agent: 'comptaPreprocessing', stateKey: 'comptaPreprocessing' },
+  { agent: 'documentExtraction', stateKey: 'documentExtraction' },
+  { agent: 'comptable', stateKey: 'comptable' },
+  { agent: 'valorisation', stateKey: 'valorisation' },
+  { agent: 'immobilier', stateKey: 'immobilier' },
+  { agent: 'financialValidation', stateKey: 'financialValidation' },
+  { agent: 'financialReport', stateKey: 'financialReport' }
+] as const;
+
+export type FinancialStage = typeof FINANCIAL_PIPELINE_STAGES[number]['agent'];
+
+/**
+ * Détermine les étapes déjà terminées d'un run à partir des événements de session persistés.
+ *
+ * Une étape est terminée si un événement AUTEUR = l'agent contient sa stateKey dans
+ * son stateDelta. On ne se fie pas à la seule présence de la clé dans le state :
+ * state.comptable est par exemple pré-rempli (comptable.sig) par geminiVisionExtractTool
+ * pendant DocumentExtractionAgent, avant que ComptableAgent n'ait tourné.
+ *
+ * Seul le préfixe contigu est retenu (pipeline séquentiel) : on reprend au premier
+ * agent non terminé, même si des agents suivants avaient produit un output.
+ */
+export function getCompletedFinancialStages(events: Event[]): FinancialStage[] {
+  const completed: FinancialStage[] = [];
+
+  for (const stage of FINANCIAL_PIPELINE_STAGES) {
+    const done = events.some(event =>
+      event.author === stage.agent &&
+      event.actions?.stateDelta !== undefined &&
+      stage.stateKey in event.actions.stateDelta
+    );
+
+    if (!done) break;
+    completed.push(stage.agent);
+  }
+
+  return completed;
+}
 
 /**
  * Crée l'orchestrateur du pipeline financier - SequentialAgent direct (État de l'art ADK)
@@ -90,8 +146,12 @@ import { FinancialReportAgent } from '../agents/FinancialReportAgent';
  *
  * @param options - Options de configuration du pipeline
  * @param options.extractionOnly - Si true, exécute uniquement DocumentExtractionAgent (debug)
+ * @param options.completedStages - Étapes déjà terminées (reprise d'un run persisté) - non réexécutées
  */
-export function createFinancialOrchestrator(options?: { extractionOnly?: boolean }): SequentialAgent {
+export function createFinancialOrchestrator(options?: {
+  extractionOnly?: boolean;
+  completedStages?: FinancialStage[];
+}): SequentialAgent {
   // Mode debug : seulement extraction pour tester Gemini Vision
   if (options?.extractionOnly) {
     console.log('🔧 [FinancialOrchestrator] Mode EXTRACTION ONLY activé (debug)');
@@ -105,20 +165,30 @@ export function createFinancialOrchestrator(options?: { extractionOnly?: boolean
     });
   }
 
-  // Mode complet : tous les 7 agents
+  const agentFactories: Record<FinancialStage, () => BaseAgent> = {
+    comptaPreprocessing: () => new ComptaPreprocessingAgent(),   // 0. Preprocess COMPTA documents (extract relevant pages)
+    documentExtraction: () => new DocumentExtractionAgent(),     // 1. Extract PDF data
+    comptable: () => new ComptableAgent(),                       // 2. Accounting analysis
+    valorisation: () => new ValorisationAgent(),                 // 3. Business valuation (3 methods)
+    immobilier: () => new ImmobilierAgent(),                     // 4. Real estate analysis
+    financialValidation: () => new FinancialValidationAgent(),   // 5. Cross-validation & quality control
+    financialReport: () => new FinancialReportAgent()            // 6. HTML report generation
+  };
+
+  // Mode reprise : seuls les agents non terminés sont instanciés
+  const completed = new Set(options?.completedStages || []);
+  const remainingStages = FINANCIAL_PIPELINE_STAGES.filter(stage => !completed.has(stage.agent));
+
+  if (completed.size > 0) {
+    console.log(`🔁 [FinancialOrchestrator] Reprise du run - étapes ignorées: ${[...completed].join(', ')}`);
+  }
+
+  // Mode complet : tous les 7 agents (ou ceux restant à exécuter)
   return new SequentialAgent({
     name: 'financial_analysis_pipeline',
     description: 'Sequential execution of 7 specialized agents for complete financial analysis with professional HTML report',
 
-    subAgents: [
-      new ComptaPreprocessingAgent(),  // 0. Preprocess COMPTA documents (extract relevant pages)
-      new DocumentExtractionAgent(),   // 1. Extract PDF data
-      new ComptableAgent(),             // 2. Accounting analysis
-      new ValorisationAgent(),          // 3. Business valuation (3 methods)
-      new ImmobilierAgent(),            // 4. Real estate analysis
-      new FinancialValidationAgent(),   // 5. Cross-validation & quality control
-      new FinancialReportAgent()        // 6. HTML report generation
-    ]
+    subAgents: remainingStages.map(stage => agentFactories[stage.agent]())
   });
 }
 
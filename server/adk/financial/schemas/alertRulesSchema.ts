@@ -4,8 +4,14 @@
  * Interfaces TypeScript pour le systeme d'alertes deterministes.
  * Les alertes sont generees par des regles avec seuils fixes,
  * garantissant la reproductibilite des resultats.
+ *
+ * Les regles declaratives (fichiers JSON de config/alert-rules/) sont validees
+ * par les schemas Zod en fin de fichier avant d'etre compilees en AlertRule.
  */
 
+import { z } from 'zod';
+import type { SigYear } from './financialStateSchema';
+
 /**
  * Categories d'alertes pour le regroupement
  */
@@ -35,6 +41,23 @@ export interface DeterministicAlert {
   impact: string;                // Impact business
   recommendation: string;        // Action recommandee
   values: Record<string, any>;   // Valeurs qui ont declenche l'alerte
+  benchmark?: AlertBenchmarkQuote; // Reference sectorielle utilisee par la regle
+}
+
+/**
+ * Reference sectorielle citee par une alerte (seuil relatif au benchmark du secteur)
+ */
+export interface AlertBenchmarkQuote {
+  nafCode: string;
+  sector: string;
+  isDefault: boolean;            // Benchmark par defaut (secteur non reference)
+  references: Array<{
+    ratio: string;               // Cle du ratio (ex: "marge_ebe_pct")
+    label: string;               // Libelle (ex: "Marge EBE")
+    sectorValue: number;         // Valeur du secteur
+    factor: number;              // Facteur applique par la regle (ex: 0.6)
+    threshold: number;           // Seuil effectif = sectorValue x factor
+  }>;
 }
 
 /**
@@ -43,14 +66,7 @@ export interface DeterministicAlert {
  */
 export interface AlertEvaluationContext {
   comptable: {
-    sig?: Record<string, {
-      chiffre_affaires: number;
-      marge_commerciale: number;
-      valeur_ajoutee: number;
-      ebe: number;
-      resultat_exploitation: number;
-      resultat_net: number;
-    }>;
+    sig?: Record<string, SigYear>;  // Lire les postes via getSigValue()
     ratios?: {
       marge_brute_pct: number;
       marge_ebe_pct: number;
@@ -124,11 +140,27 @@ export interface AlertEvaluationContext {
     activity: string;
     name: string;
     siret: string;
+    secteurActivite?: string;
     prixDemande?: number;
   } | null;
+  planTresorerie?: {
+    tresorerie_min: number;
+    mois_min: string;
+    besoin_financement: number;
+    apport_couvre: boolean;
+  } | null;
+  calendrierBail?: {
+    type_bail: string;
+    date_fin: string;
+    duree_restante_mois: number;
+    en_tacite_prolongation: boolean;
+    fenetre_renouvellement: { debut: string; fin: string | null } | null;
+    derogatoire_jours_avant_conversion: number | null;
+  } | null;
   benchmark: {
     nafCode: string;
     sector: string;
+    isDefault?: boolean;
     ratios: {
       marge_brute_pct: number;
       marge_ebe_pct: number;
@@ -156,6 +188,7 @@ export interface AlertRule {
   messageTemplate: (values: Record<string, any>) => string;      // Template du message
   impactTemplate: string;                                        // Impact business
   recommendationTemplate: string;                                // Recommandation
+  benchmarkQuote?: (ctx: AlertEvaluationContext) => AlertBenchmarkQuote | null; // Reference sectorielle citee
 }
 
 /**
@@ -172,3 +205,109 @@ export interface DeterministicAlertsResult {
   };
   pointsVigilance: string[];  // Pour compatibilite avec le format actuel
 }
+
+// ============================================================
+// REGLES DECLARATIVES (JSON)
+// ============================================================
+
+/**
+ * Operateurs de comparaison d'une condition
+ */
+export const RuleOperatorSchema = z.enum(['<', '<=', '>', '>=', '==', '!=']);
+
+/**
+ * Ratios du benchmark sectoriel (SECTOR_BENCHMARKS) utilisables comme reference
+ */
+export const BenchmarkRatioSchema = z.enum([
+  'marge_brute_pct',
+  'marge_ebe_pct',
+  'marge_nette_pct',
+  'taux_va_pct',
+  'rotation_stocks_jours',
+  'delai_clients_jours',
+  'delai_fournisseurs_jours',
+  'bfr_jours_ca',
+  'taux_endettement_pct'
+]);
+
+/**
+ * Condition : metrique (chemin dans le contexte, ex: "comptable.ratios.marge_ebe_pct"
+ * ou metrique derivee "derived.ebe_evolution_pct") comparee a un seuil fixe,
+ * a une autre metrique multipliee par un facteur, ou a un ratio du benchmark
+ * du secteur (ex: { "benchmark": "marge_ebe_pct", "factor": 0.6 } = 60% de la moyenne sectorielle)
+ */
+export const RuleConditionSchema = z.object({
+  metric: z.string().min(1),
+  operator: RuleOperatorSchema,
+  value: z.union([
+    z.number(),
+    z.boolean(),
+    z.string(),
+    z.object({
+      metric: z.string().min(1),
+      factor: z.number().optional()
+    }),
+    z.object({
+      benchmark: BenchmarkRatioSchema,
+      factor: z.number().optional()
+    })
+  ]),
+  abs: z.boolean().optional()
+});
+
+/**
+ * Valeur injectee dans le message via son placeholder {nom}
+ * - format "fixed" : toFixed(decimals), "locale" : toLocaleString('fr-FR'), "raw" : valeur brute
+ */
+export const RuleValueSchema = z.object({
+  metric: z.string().min(1),
+  format: z.enum(['raw', 'fixed', 'locale']).optional(),
+  decimals: z.number().int().min(0).max(4).optional(),
+  abs: z.boolean().optional(),
+  default: z.union([z.number(), z.string()]).optional()
+});
+
+/**
+ * Surcharge sectorielle d'une regle (cle = prefixe de code NAF, ex: "47" ou "56.10")
+ */
+export const RuleSectorOverrideSchema = z.object({
+  enabled: z.boolean().optional(),
+  conditions: z.array(RuleConditionSchema).min(1).optional()
+});
+
+/**
+ * Regle d'alerte exprimee en donnees
+ */
+export const DeclarativeAlertRuleSchema = z.object({
+  id: z.string().regex(/^[A-Z]+_\d{3}$/, 'Identifiant attendu au format CAT_000'),
+  category: z.enum(['rentabilite', 'endettement', 'croissance', 'tresorerie', 'valorisation', 'immobilier', 'donnees']),
+  severity: z.enum(['critical', 'warning', 'info']),
+  conditions: z.array(RuleConditionSchema).min(1),
+  values: z.record(z.string(), RuleValueSchema).optional(),
+  title: z.string().min(1),
+  message: z.string().min(1),
+  impact: z.string().min(1),
+  recommendation: z.string().min(1),
+  sectorOverrides: z.record(z.string(), RuleSectorOverrideSchema).optional()
+}).superRefine((rule, ctx) => {
+  // Chaque placeholder du message doit correspondre a une valeur declaree
+  for (const [, name] of rule.message.matchAll(/\{(\w+)\}/g)) {
+    if (!rule.values?.[name]) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['message'],
+        message: `Placeholder {${name}} sans valeur declaree dans "values"`
+      });
+    }
+  }
+});
+
+/**
+ * Fichier de regles : tableau de regles declaratives
+ */
+export const AlertRuleFileSchema = z.array(DeclarativeAlertRuleSchema);
+
+export type RuleCondition = z.infer<typeof RuleConditionSchema>;
+export type RuleValue = z.infer<typeof RuleValueSchema>;
+export type BenchmarkRatio = z.infer<typeof BenchmarkRatioSchema>;
+export type DeclarativeAlertRule = z.infer<typeof DeclarativeAlertRuleSchema>;
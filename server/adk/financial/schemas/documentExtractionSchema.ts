@@ -10,6 +10,7 @@ export const DocumentTypeEnum = z.enum([
   'bilan',
   'compte_resultat',
   'liasse_fiscale',
+  'fec',
   'bail',
   'projet_vente',
   'autre'
@@ -8,6 +8,7 @@
  */
 
 import { z } from 'zod';
+import type { RegimeFiscal } from './postesComptables';
 
 // ============================================================================
 // INTERFACES TYPESCRIPT
@@ -305,6 +306,7 @@ export interface ExtractionComptaComplete {
   adresse?: string;
   date_cloture: string; // Format: "30/11/2023"
   duree_exercice_mois: number; // Généralement 12
+  regime?: RegimeFiscal; // Liasse 2050 (réel normal) ou 2033 (simplifié)
 
   // Les 4 sections
   bilan_actif: BilanActifExtraction;
@@ -0,0 +1,274 @@
+import { z } from 'zod';
+
+/**
+ * Financial State Schemas
+ *
+ * Schémas Zod des outputs de chaque agent du pipeline financier
+ * (state.documentExtraction, state.comptable, state.valorisation, ...).
+ *
+ * Utilisés par readState() (../state/readState) pour parser ET valider le state
+ * avant qu'un tool ne le lise. Les objets sont .passthrough() : seuls les champs
+ * consommés par les tools sont contraints, le reste de l'output LLM est conservé.
+ */
+
+// ============================================================================
+// SIG
+// ============================================================================
+
+/**
+ * Valeur SIG : format {valeur, pct_ca} (geminiVisionExtract, ComptableAgent)
+ * ou nombre brut (anciens outputs). Toujours lire via getSigValue().
+ */
+export const SigValueSchema = z.union([
+  z.number(),
+  z.object({
+    valeur: z.number(),
+    pct_ca: z.number().optional()
+  }).passthrough()
+]).nullable();
+
+export const SigYearSchema = z.object({
+  year: z.number().optional(),
+  source: z.string().optional(),
+  confidence: z.number().optional(),
+  chiffre_affaires: SigValueSchema.optional(),
+  ventes_marchandises: SigValueSchema.optional(),
+  production_vendue_services: SigValueSchema.optional(),
+  achats_marchandises: SigValueSchema.optional(),
+  marge_commerciale: SigValueSchema.optional(),
+  marge_brute_globale: SigValueSchema.optional(),
+  autres_achats_charges_externes: SigValueSchema.optional(),
+  valeur_ajoutee: SigValueSchema.optional(),
+  salaires_personnel: SigValueSchema.optional(),
+  charges_sociales_personnel: SigValueSchema.optional(),
+  charges_exploitant: SigValueSchema.optional(),
+  ebe: SigValueSchema.optional(),
+  dotations_amortissements: SigValueSchema.optional(),
+  resultat_exploitation: SigValueSchema.optional(),
+  resultat_financier: SigValueSchema.optional(),
+  resultat_courant: SigValueSchema.optional(),
+  resultat_exceptionnel: SigValueSchema.optional(),
+  resultat_net: SigValueSchema.optional()
+}).passthrough();
+
+// ============================================================================
+// OUTPUTS AGENTS
+// ============================================================================
+
+export const DocumentExtractionOutputSchema = z.object({
+  documents: z.array(z.object({
+    filename: z.string().optional(),
+    documentType: z.string().optional(),
+    year: z.number().nullable().optional(),
+    confidence: z.number().optional(),
+    method: z.string().optional(),
+    extractedData: z.object({
+      tables: z.array(z.any()).optional(),
+      key_values: z.record(z.string(), z.any()).optional()
+    }).passthrough().optional()
+  }).passthrough()).optional(),
+  summary: z.object({
+    total_documents: z.number().optional(),
+    years_covered: z.array(z.number()).optional()
+  }).passthrough().optional()
+}).passthrough();
+
+export const ComptableOutputSchema = z.object({
+  analysisDate: z.string().optional(),
+  yearsAnalyzed: z.array(z.number()).optional(),
+  sig: z.record(z.string(), SigYearSchema).optional(),
+  evolution: z.object({
+    ca_evolution_pct: z.number().optional(),
+    ebe_evolution_pct: z.number().optional(),
+    rn_evolution_pct: z.number().optional(),
+    tendance: z.string().optional()
+  }).passthrough().optional(),
+  ratios: z.record(z.string(), z.number().nullable()).optional(),
+  benchmark: z.object({
+    nafCode: z.string().optional(),
+    sector: z.string().optional(),
+    comparisons: z.array(z.object({
+      ratio: z.string(),
+      value: z.number().nullable().optional(),
+      sectorAverage: z.number().nullable().optional()
+    }).passthrough()).optional()
+  }).passthrough().optional(),
+  alertes: z.array(z.object({
+    level: z.string(),
+    category: z.string().optional(),
+    message: z.string()
+  }).passthrough()).optional(),
+  healthScore: z.object({
+    overall: z.number(),
+    breakdown: z.record(z.string(), z.number()).optional()
+  }).passthrough().optional(),
+  ebeRetraitement: z.object({
+    ebe_comptable: z.number().optional(),
+    annee_reference: z.number().optional(),
+    retraitements: z.array(z.object({
+      type: z.string().optional(),
+      description: z.string().optional(),
+      montant: z.number()
+    }).passthrough()).optional(),
+    total_retraitements: z.number().optional(),
+    ebe_normatif: z.number().optional()
+  }).passthrough().optional()
+}).passthrough();
+
+const ValuationMethodSchema = z.object({
+  valeur_basse: z.number().optional(),
+  valeur_mediane: z.number().optional(),
+  valeur_haute: z.number().optional(),
+  justification: z.string().optional()
+}).passthrough();
+
+export const ValorisationOutputSchema = z.object({
+  methodeEBE: ValuationMethodSchema.extend({
+    ebe_reference: z.number().optional(),
+    ebe_retraite: z.number().optional()
+  }).optional(),
+  methodeCA: ValuationMethodSchema.extend({
+    ca_reference: z.number().optional()
+  }).optional(),
+  methodePatrimoniale: z.object({
+    actif_net_comptable: z.number().optional(),
+    valeur_estimee: z.number().optional()
+  }).passthrough().optional(),
+  methodeHybride: z.any().optional(),
+  methodeDCF: ValuationMethodSchema.extend({
+    taux_actualisation: z.number().optional(),
+    valeur_terminale: z.number().optional()
+  }).optional(),
+  methodeComparables: ValuationMethodSchema.extend({
+    zone: z.string().optional(),
+    nb_transactions: z.number().optional()
+  }).optional(),
+  synthese: z.object({
+    fourchette_basse: z.number().optional(),
+    fourchette_mediane: z.number().optional(),
+    fourchette_haute: z.number().optional(),
+    valeur_recommandee: z.number().optional(),
+    methode_privilegiee: z.string().optional()
+  }).passthrough().optional(),
+  comparaisonPrix: z.any().optional(),
+  simulation: z.object({
+    percentiles: z.record(z.string(), z.number()).optional(),
+    probabilite_prix_superieur: z.number().nullable().optional(),
+    histogramme: z.array(z.object({
+      borne_basse: z.number(),
+      borne_haute: z.number(),
+      effectif: z.number()
+    })).optional()
+  }).passthrough().optional()
+}).passthrough();
+
+export const ImmobilierOutputSchema = z.object({
+  dataStatus: z.object({
+    bail_disponible: z.boolean().optional(),
+    source: z.string().optional()
+  }).passthrough().optional(),
+  bail: z.object({
+    type: z.string().optional(),
+    date_effet: z.string().nullable().optional(),
+    date_fin: z.string().optional(),
+    duree_restante_mois: z.number().nullable().optional(),
+    loyer_annuel_hc: z.number().nullable().optional(),
+    loyer_source: z.string().optional(),
+    loyer_annee_source: z.string().optional(),
+    loyer_mensuel: z.number().optional(),
+    loyer_commercial_ajuste: z.number().nullable().optional(),
+    indexation: z.string().optional(),
+    surface_m2: z.number().optional(),
+    clause_cession: z.string().optional()
+  }).passthrough().nullable().optional(),
+  murs: z.object({
+    option_possible: z.boolean().optional(),
+    prix_demande: z.number().nullable().optional(),
+    valeur_estimee: z.number().nullable().optional()
+  }).passthrough().nullable().optional(),
+  travaux: z.object({
+    etat_general: z.string().optional(),
+    travaux_obligatoires: z.array(z.any()).optional(),
+    travaux_recommandes: z.array(z.any()).optional()
+  }).passthrough().nullable().optional()
+}).passthrough();
+
+export const FinancialValidationOutputSchema = z.object({
+  validationDate: z.string().optional(),
+  coherenceChecks: z.array(z.object({
+    check: z.string(),
+    status: z.string()
+  }).passthrough()).optional(),
+  anomalies: z.array(z.object({
+    type: z.string().optional(),
+    severity: z.string().optional(),
+    description: z.string().optional()
+  }).passthrough()).optional(),
+  confidenceScore: z.object({
+    overall: z.number(),
+    breakdown: z.record(z.string(), z.number()).optional()
+  }).passthrough().optional(),
+  synthese: z.object({
+    niveauConfiance: z.string().optional()
+  }).passthrough().optional()
+}).passthrough();
+
+export const FinancialReportOutputSchema = z.object({
+  generated: z.boolean(),
+  filepath: z.string().optional(),
+  filename: z.string().optional(),
+  size_bytes: z.number().optional(),
+  sections_included: z.array(z.string()).optional(),
+  generatedAt: z.string().optional(),
+  error: z.string().optional()
+}).passthrough();
+
+/**
+ * Schéma par clé de state (outputKey des agents)
+ */
+export const FINANCIAL_STATE_SCHEMAS = {
+  documentExtraction: DocumentExtractionOutputSchema,
+  comptable: ComptableOutputSchema,
+  valorisation: ValorisationOutputSchema,
+  immobilier: ImmobilierOutputSchema,
+  financialValidation: FinancialValidationOutputSchema,
+  financialReport: FinancialReportOutputSchema
+} as const;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type SigValue = z.infer<typeof SigValueSchema>;
+export type SigYear = z.infer<typeof SigYearSchema>;
+export type DocumentExtractionOutput = z.infer<typeof DocumentExtractionOutputSchema>;
+export type ComptableOutput = z.infer<typeof ComptableOutputSchema>;
+export type ValorisationOutput = z.infer<typeof ValorisationOutputSchema>;
+export type ImmobilierOutput = z.infer<typeof ImmobilierOutputSchema>;
+export type FinancialValidationOutput = z.infer<typeof FinancialValidationOutputSchema>;
+export type FinancialReportOutput = z.infer<typeof FinancialReportOutputSchema>;
+
+export type FinancialStateKey = keyof typeof FINANCIAL_STATE_SCHEMAS;
+export type FinancialStateOutputs = {
+  [K in FinancialStateKey]: z.infer<(typeof FINANCIAL_STATE_SCHEMAS)[K]>;
+};
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Valeur numérique d'un poste SIG, quel que soit son format
+ *
+ * @example getSigValue(sig['2024'], 'ebe') // 85000 pour { valeur: 85000, pct_ca: 17 } ou 85000
+ */
+export function getSigValue(sigYear: SigYear | undefined, field: string): number {
+  const raw = (sigYear as Record<string, unknown> | undefined)?.[field];
+  if (typeof raw === 'number') {
+    return raw;
+  }
+  if (raw && typeof raw === 'object' && typeof (raw as { valeur?: unknown }).valeur === 'number') {
+    return (raw as { valeur: number }).valeur;
+  }
+  return 0;
+}
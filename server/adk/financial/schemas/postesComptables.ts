@@ -2,7 +2,8 @@
 
 /**
  * Référentiel exhaustif des postes comptables français
- * Conforme au Plan Comptable Général (PCG) et formulaires Cerfa 2050-2059
+ * Conforme au Plan Comptable Général (PCG) et formulaires Cerfa 2050-2059 (réel normal)
+ * et 2033-A/2033-B (régime simplifié)
  */
 
 // ============================================================================
@@ -556,3 +557,314 @@ export const LABEL_TO_KEY_MAPPING: Record<string, string> = {
   "ebe": "ebe",
   "capacité d'autofinancement": "caf"
 };
+
+// ============================================================================
+// MAPPING COMPTES PCG → POSTES (pour l'import FEC)
+// ============================================================================
+
+/**
+ * Affectation d'un compte du Plan Comptable Général à un poste de la liasse
+ *
+ * Le préfixe le plus long l'emporte (ex: "6037" avant "603" avant "60").
+ * Clés de poste = celles de extractionComptaSchema.ts (bilan_actif, bilan_passif, compte_resultat).
+ *
+ * - compte_resultat : classe 6 = solde débiteur, classe 7 = solde créditeur
+ * - bilan_actif     : solde débiteur (correction=true : amortissement / dépréciation, solde créditeur)
+ * - bilan_passif    : solde créditeur
+ * - tiers           : classes 4 et 5, poste d'actif si débiteur, postePassif si créditeur
+ */
+export interface PcgAccountMapping {
+  section: 'compte_resultat' | 'bilan_actif' | 'bilan_passif' | 'tiers';
+  poste: string;
+  postePassif?: string;
+  correction?: boolean;
+}
+
+export const PCG_ACCOUNT_MAPPING: Record<string, PcgAccountMapping> = {
+  // CLASSE 1 - CAPITAUX
+  "101": { section: "bilan_passif", poste: "capital" },
+  "108": { section: "bilan_passif", poste: "capital" },
+  "104": { section: "bilan_passif", poste: "primes_emission" },
+  "105": { section: "bilan_passif", poste: "ecarts_reevaluation" },
+  "1061": { section: "bilan_passif", poste: "reserve_legale" },
+  "1062": { section: "bilan_passif", poste: "reserves_statutaires" },
+  "1063": { section: "bilan_passif", poste: "reserves_statutaires" },
+  "1064": { section: "bilan_passif", poste: "reserves_reglementees" },
+  "1068": { section: "bilan_passif", poste: "autres_reserves" },
+  "11": { section: "bilan_passif", poste: "report_a_nouveau" },
+  "12": { section: "bilan_passif", poste: "resultat_exercice" },
+  "13": { section: "bilan_passif", poste: "subventions_investissement" },
+  "14": { section: "bilan_passif", poste: "provisions_reglementees" },
+  "151": { section: "bilan_passif", poste: "provisions_risques" },
+  "15": { section: "bilan_passif", poste: "provisions_charges" },
+  "161": { section: "bilan_passif", poste: "emprunts_obligataires_convertibles" },
+  "163": { section: "bilan_passif", poste: "autres_emprunts_obligataires" },
+  "164": { section: "bilan_passif", poste: "emprunts_etablissements_credit" },
+  "16": { section: "bilan_passif", poste: "emprunts_dettes_financieres_diverses" },
+  "17": { section: "bilan_passif", poste: "emprunts_dettes_financieres_diverses" },
+  "1": { section: "bilan_passif", poste: "autres_dettes" },
+
+  // CLASSE 2 - IMMOBILISATIONS
+  "201": { section: "bilan_actif", poste: "frais_etablissement" },
+  "203": { section: "bilan_actif", poste: "frais_developpement" },
+  "205": { section: "bilan_actif", poste: "concessions_brevets" },
+  "206": { section: "bilan_actif", poste: "fonds_commercial" },
+  "207": { section: "bilan_actif", poste: "fonds_commercial" },
+  "20": { section: "bilan_actif", poste: "autres_immob_incorp" },
+  "211": { section: "bilan_actif", poste: "terrains" },
+  "212": { section: "bilan_actif", poste: "terrains" },
+  "213": { section: "bilan_actif", poste: "constructions" },
+  "214": { section: "bilan_actif", poste: "constructions" },
+  "215": { section: "bilan_actif", poste: "installations_techniques" },
+  "21": { section: "bilan_actif", poste: "autres_immob_corp" },
+  "22": { section: "bilan_actif", poste: "autres_immob_corp" },
+  "23": { section: "bilan_actif", poste: "immob_en_cours" },
+  "26": { section: "bilan_actif", poste: "participations" },
+  "27": { section: "bilan_actif", poste: "autres_immob_fin" },
+  "2801": { section: "bilan_actif", poste: "frais_etablissement", correction: true },
+  "2803": { section: "bilan_actif", poste: "frais_developpement", correction: true },
+  "2805": { section: "bilan_actif", poste: "concessions_brevets", correction: true },
+  "2807": { section: "bilan_actif", poste: "fonds_commercial", correction: true },
+  "280": { section: "bilan_actif", poste: "autres_immob_incorp", correction: true },
+  "2811": { section: "bilan_actif", poste: "terrains", correction: true },
+  "2812": { section: "bilan_actif", poste: "terrains", correction: true },
+  "2813": { section: "bilan_actif", poste: "constructions", correction: true },
+  "2814": { section: "bilan_actif", poste: "constructions", correction: true },
+  "2815": { section: "bilan_actif", poste: "installations_techniques", correction: true },
+  "281": { section: "bilan_actif", poste: "autres_immob_corp", correction: true },
+  "2905": { section: "bilan_actif", poste: "concessions_brevets", correction: true },
+  "2906": { section: "bilan_actif", poste: "fonds_commercial", correction: true },
+  "2907": { section: "bilan_actif", poste: "fonds_commercial", correction: true },
+  "290": { section: "bilan_actif", poste: "autres_immob_incorp", correction: true },
+  "291": { section: "bilan_actif", poste: "autres_immob_corp", correction: true },
+  "296": { section: "bilan_actif", poste: "participations", correction: true },
+  "29": { section: "bilan_actif", poste: "autres_immob_fin", correction: true },
+
+  // CLASSE 3 - STOCKS
+  "31": { section: "bilan_actif", poste: "stocks_matieres_premieres" },
+  "32": { section: "bilan_actif", poste: "stocks_matieres_premieres" },
+  "33": { section: "bilan_actif", poste: "stocks_encours_biens" },
+  "34": { section: "bilan_actif", poste: "stocks_encours_services" },
+  "35": { section: "bilan_actif", poste: "stocks_produits_finis" },
+  "37": { section: "bilan_actif", poste: "stocks_marchandises" },
+  "397": { section: "bilan_actif", poste: "stocks_marchandises", correction: true },
+  "39": { section: "bilan_actif", poste: "stocks_matieres_premieres", correction: true },
+
+  // CLASSE 4 - TIERS
+  "404": { section: "tiers", poste: "autres_creances", postePassif: "dettes_immobilisations" },
+  "405": { section: "tiers", poste: "autres_creances", postePassif: "dettes_immobilisations" },
+  "409": { section: "tiers", poste: "avances_acomptes_verses", postePassif: "dettes_fournisseurs" },
+  "40": { section: "tiers", poste: "autres_creances", postePassif: "dettes_fournisseurs" },
+  "419": { section: "tiers", poste: "creances_clients", postePassif: "avances_acomptes_recus" },
+  "41": { section: "tiers", poste: "creances_clients", postePassif: "autres_dettes" },
+  "42": { section: "tiers", poste: "autres_creances", postePassif: "dettes_fiscales_sociales" },
+  "43": { section: "tiers", poste: "autres_creances", postePassif: "dettes_fiscales_sociales" },
+  "44": { section: "tiers", poste: "autres_creances", postePassif: "dettes_fiscales_sociales" },
+  "455": { section: "tiers", poste: "autres_creances", postePassif: "emprunts_dettes_financieres_diverses" },
+  "486": { section: "bilan_actif", poste: "charges_constatees_avance" },
+  "487": { section: "bilan_passif", poste: "produits_constates_avance" },
+  "491": { section: "bilan_actif", poste: "creances_clients", correction: true },
+  "49": { section: "bilan_actif", poste: "autres_creances", correction: true },
+  "4": { section: "tiers", poste: "autres_creances", postePassif: "autres_dettes" },
+
+  // CLASSE 5 - FINANCIERS
+  "50": { section: "bilan_actif", poste: "valeurs_mobilieres_placement" },
+  "519": { section: "bilan_passif", poste: "concours_bancaires_courants" },
+  "59": { section: "bilan_actif", poste: "valeurs_mobilieres_placement", correction: true },
+  "5": { section: "tiers", poste: "disponibilites", postePassif: "concours_bancaires_courants" },
+
+  // CLASSE 6 - CHARGES
+  "601": { section: "compte_resultat", poste: "achats_matieres_premieres" },
+  "602": { section: "compte_resultat", poste: "achats_matieres_premieres" },
+  "6081": { section: "compte_resultat", poste: "achats_matieres_premieres" },
+  "6082": { section: "compte_resultat", poste: "achats_matieres_premieres" },
+  "6091": { section: "compte_resultat", poste: "achats_matieres_premieres" },
+  "6092": { section: "compte_resultat", poste: "achats_matieres_premieres" },
+  "6031": { section: "compte_resultat", poste: "variation_stock_matieres" },
+  "6032": { section: "compte_resultat", poste: "variation_stock_matieres" },
+  "6037": { section: "compte_resultat", poste: "variation_stock_marchandises" },
+  "607": { section: "compte_resultat", poste: "achats_marchandises" },
+  "6087": { section: "compte_resultat", poste: "achats_marchandises" },
+  "6097": { section: "compte_resultat", poste: "achats_marchandises" },
+  "60": { section: "compte_resultat", poste: "autres_achats_charges_externes" },
+  "61": { section: "compte_resultat", poste: "autres_achats_charges_externes" },
+  "62": { section: "compte_resultat", poste: "autres_achats_charges_externes" },
+  "63": { section: "compte_resultat", poste: "impots_taxes" },
+  "645": { section: "compte_resultat", poste: "charges_sociales" },
+  "646": { section: "compte_resultat", poste: "charges_sociales" },
+  "647": { section: "compte_resultat", poste: "charges_sociales" },
+  "64": { section: "compte_resultat", poste: "salaires_traitements" },
+  "65": { section: "compte_resultat", poste: "autres_charges" },
+  "666": { section: "compte_resultat", poste: "differences_change_negatives" },
+  "667": { section: "compte_resultat", poste: "charges_nettes_cession_vmp" },
+  "66": { section: "compte_resultat", poste: "interets_charges_assimilees" },
+  "675": { section: "compte_resultat", poste: "charges_except_operations_capital" },
+  "678": { section: "compte_resultat", poste: "charges_except_operations_capital" },
+  "67": { section: "compte_resultat", poste: "charges_except_operations_gestion" },
+  "6811": { section: "compte_resultat", poste: "dotations_amortissements_immob" },
+  "6812": { section: "compte_resultat", poste: "dotations_amortissements_charges" },
+  "6815": { section: "compte_resultat", poste: "dotations_provisions_risques" },
+  "681": { section: "compte_resultat", poste: "dotations_provisions_actif" },
+  "686": { section: "compte_resultat", poste: "dotations_provisions_financieres" },
+  "687": { section: "compte_resultat", poste: "dotations_provisions_except" },
+  "691": { section: "compte_resultat", poste: "participation_salaries" },
+  "69": { section: "compte_resultat", poste: "impots_sur_benefices" },
+  "6": { section: "compte_resultat", poste: "autres_charges" },
+
+  // CLASSE 7 - PRODUITS
+  "701": { section: "compte_resultat", poste: "production_vendue_biens" },
+  "702": { section: "compte_resultat", poste: "production_vendue_biens" },
+  "703": { section: "compte_resultat", poste: "production_vendue_biens" },
+  "707": { section: "compte_resultat", poste: "ventes_marchandises" },
+  "7097": { section: "compte_resultat", poste: "ventes_marchandises" },
+  "70": { section: "compte_resultat", poste: "production_vendue_services" },
+  "71": { section: "compte_resultat", poste: "production_stockee" },
+  "72": { section: "compte_resultat", poste: "production_immobilisee" },
+  "74": { section: "compte_resultat", poste: "subventions_exploitation" },
+  "75": { section: "compte_resultat", poste: "autres_produits" },
+  "761": { section: "compte_resultat", poste: "produits_participations" },
+  "766": { section: "compte_resultat", poste: "differences_change_positives" },
+  "767": { section: "compte_resultat", poste: "produits_nets_cession_vmp" },
+  "76": { section: "compte_resultat", poste: "autres_interets_produits" },
+  "775": { section: "compte_resultat", poste: "produits_except_operations_capital" },
+  "777": { section: "compte_resultat", poste: "produits_except_operations_capital" },
+  "778": { section: "compte_resultat", poste: "produits_except_operations_capital" },
+  "77": { section: "compte_resultat", poste: "produits_except_operations_gestion" },
+  "781": { section: "compte_resultat", poste: "reprises_depreciations_provisions" },
+  "786": { section: "compte_resultat", poste: "reprises_provisions_financieres" },
+  "787": { section: "compte_resultat", poste: "reprises_provisions_except" },
+  "791": { section: "compte_resultat", poste: "transferts_charges" },
+  "796": { section: "compte_resultat", poste: "autres_interets_produits" },
+  "797": { section: "compte_resultat", poste: "produits_except_operations_gestion" },
+  "7": { section: "compte_resultat", poste: "autres_produits" }
+};
+
+/**
+ * Comptes de rémunération et cotisations personnelles de l'exploitant (SIG: charges_exploitant)
+ */
+export const PCG_COMPTES_EXPLOITANT = {
+  remuneration: "644",
+  cotisations: "646"
+} as const;
+
+/**
+ * Poste PCG d'un compte (préfixe le plus long), undefined si non mappé (classes 8-9)
+ */
+export function findPcgAccountMapping(compteNum: string): PcgAccountMapping | undefined {
+  for (let length = compteNum.length; length > 0; length--) {
+    const mapping = PCG_ACCOUNT_MAPPING[compteNum.substring(0, length)];
+    if (mapping) return mapping;
+  }
+  return undefined;
+}
+
+// ============================================================================
+// LIASSE SIMPLIFIÉE (Cerfa 2033-A / 2033-B)
+// ============================================================================
+
+/**
+ * Régime d'imposition de la liasse fiscale
+ * - reel_normal : formulaires 2050 à 2059, lignes codées en lettres (AA, FA, DL...)
+ * - simplifie   : formulaires 2033-A à 2033-G, lignes codées en chiffres (010, 210, 310...)
+ */
+export type RegimeFiscal = 'reel_normal' | 'simplifie';
+
+/**
+ * Affectation d'une ligne du formulaire 2033 à un poste de la liasse
+ *
+ * Clés de poste = celles de extractionComptaSchema.ts, comme pour le réel normal.
+ * Le 2033-A agrège plusieurs postes du 2050/2051 (ex: une seule ligne d'immobilisations
+ * corporelles, dettes fiscales et sociales incluses dans les autres dettes).
+ *
+ * - colonne : actif immobilisé et circulant du 2033-A (brut / amortissements-dépréciations),
+ *             le net n'a pas de code et se recalcule
+ * - total   : ligne de total (contrôle, recalculée si absente)
+ */
+export interface Cerfa2033LineMapping {
+  formulaire: '2033-A' | '2033-B';
+  section: 'bilan_actif' | 'bilan_passif' | 'compte_resultat';
+  poste: string;
+  label: string;
+  colonne?: 'brut' | 'amort';
+  total?: boolean;
+}
+
+export const CERFA_2033: Record<string, Cerfa2033LineMapping> = {
+  // 2033-A - ACTIF (brut / amortissements)
+  "010": { formulaire: "2033-A", section: "bilan_actif", poste: "fonds_commercial", label: "Fonds commercial", colonne: "brut" },
+  "012": { formulaire: "2033-A", section: "bilan_actif", poste: "fonds_commercial", label: "Fonds commercial", colonne: "amort" },
+  "014": { formulaire: "2033-A", section: "bilan_actif", poste: "autres_immob_incorp", label: "Autres immobilisations incorporelles", colonne: "brut" },
+  "016": { formulaire: "2033-A", section: "bilan_actif", poste: "autres_immob_incorp", label: "Autres immobilisations incorporelles", colonne: "amort" },
+  "028": { formulaire: "2033-A", section: "bilan_actif", poste: "autres_immob_corp", label: "Immobilisations corporelles", colonne: "brut" },
+  "030": { formulaire: "2033-A", section: "bilan_actif", poste: "autres_immob_corp", label: "Immobilisations corporelles", colonne: "amort" },
+  "040": { formulaire: "2033-A", section: "bilan_actif", poste: "autres_immob_fin", label: "Immobilisations financières", colonne: "brut" },
+  "042": { formulaire: "2033-A", section: "bilan_actif", poste: "autres_immob_fin", label: "Immobilisations financières", colonne: "amort" },
+  "044": { formulaire: "2033-A", section: "bilan_actif", poste: "total_actif_immobilise", label: "Total I (actif immobilisé)", colonne: "brut", total: true },
+  "048": { formulaire: "2033-A", section: "bilan_actif", poste: "total_actif_immobilise", label: "Total I (actif immobilisé)", colonne: "amort", total: true },
+  "050": { formulaire: "2033-A", section: "bilan_actif", poste: "stocks_matieres_premieres", label: "Stocks de matières premières, en-cours et produits", colonne: "brut" },
+  "052": { formulaire: "2033-A", section: "bilan_actif", poste: "stocks_matieres_premieres", label: "Stocks de matières premières, en-cours et produits", colonne: "amort" },
+  "060": { formulaire: "2033-A", section: "bilan_actif", poste: "stocks_marchandises", label: "Stocks de marchandises", colonne: "brut" },
+  "062": { formulaire: "2033-A", section: "bilan_actif", poste: "stocks_marchandises", label: "Stocks de marchandises", colonne: "amort" },
+  "064": { formulaire: "2033-A", section: "bilan_actif", poste: "avances_acomptes_verses", label: "Avances et acomptes versés sur commandes", colonne: "brut" },
+  "066": { formulaire: "2033-A", section: "bilan_actif", poste: "avances_acomptes_verses", label: "Avances et acomptes versés sur commandes", colonne: "amort" },
+  "068": { formulaire: "2033-A", section: "bilan_actif", poste: "creances_clients", label: "Clients et comptes rattachés", colonne: "brut" },
+  "070": { formulaire: "2033-A", section: "bilan_actif", poste: "creances_clients", label: "Clients et comptes rattachés", colonne: "amort" },
+  "072": { formulaire: "2033-A", section: "bilan_actif", poste: "autres_creances", label: "Autres créances", colonne: "brut" },
+  "074": { formulaire: "2033-A", section: "bilan_actif", poste: "autres_creances", label: "Autres créances", colonne: "amort" },
+  "080": { formulaire: "2033-A", section: "bilan_actif", poste: "valeurs_mobilieres_placement", label: "Valeurs mobilières de placement", colonne: "brut" },
+  "082": { formulaire: "2033-A", section: "bilan_actif", poste: "valeurs_mobilieres_placement", label: "Valeurs mobilières de placement", colonne: "amort" },
+  "084": { formulaire: "2033-A", section: "bilan_actif", poste: "disponibilites", label: "Disponibilités", colonne: "brut" },
+  "092": { formulaire: "2033-A", section: "bilan_actif", poste: "charges_constatees_avance", label: "Charges constatées d'avance", colonne: "brut" },
+  "096": { formulaire: "2033-A", section: "bilan_actif", poste: "total_actif_circulant", label: "Total II (actif circulant)", colonne: "brut", total: true },
+  "098": { formulaire: "2033-A", section: "bilan_actif", poste: "total_actif_circulant", label: "Total II (actif circulant)", colonne: "amort", total: true },
+  "110": { formulaire: "2033-A", section: "bilan_actif", poste: "total_general_actif", label: "Total général (I + II)", colonne: "brut", total: true },
+  "112": { formulaire: "2033-A", section: "bilan_actif", poste: "total_general_actif", label: "Total général (I + II)", colonne: "amort", total: true },
+
+  // 2033-A - PASSIF
+  "120": { formulaire: "2033-A", section: "bilan_passif", poste: "capital", label: "Capital social ou individuel" },
+  "124": { formulaire: "2033-A", section: "bilan_passif", poste: "ecarts_reevaluation", label: "Écarts de réévaluation" },
+  "126": { formulaire: "2033-A", section: "bilan_passif", poste: "reserve_legale", label: "Réserve légale" },
+  "130": { formulaire: "2033-A", section: "bilan_passif", poste: "reserves_reglementees", label: "Réserves réglementées" },
+  "132": { formulaire: "2033-A", section: "bilan_passif", poste: "autres_reserves", label: "Autres réserves" },
+  "134": { formulaire: "2033-A", section: "bilan_passif", poste: "report_a_nouveau", label: "Report à nouveau" },
+  "136": { formulaire: "2033-A", section: "bilan_passif", poste: "resultat_exercice", label: "Résultat de l'exercice" },
+  "140": { formulaire: "2033-A", section: "bilan_passif", poste: "provisions_reglementees", label: "Provisions réglementées" },
+  "142": { formulaire: "2033-A", section: "bilan_passif", poste: "total_capitaux_propres", label: "Total I (capitaux propres)", total: true },
+  "154": { formulaire: "2033-A", section: "bilan_passif", poste: "total_provisions", label: "Provisions pour risques et charges (II)" },
+  "156": { formulaire: "2033-A", section: "bilan_passif", poste: "emprunts_etablissements_credit", label: "Emprunts et dettes assimilées" },
+  "164": { formulaire: "2033-A", section: "bilan_passif", poste: "avances_acomptes_recus", label: "Avances et acomptes reçus sur commandes en cours" },
+  "166": { formulaire: "2033-A", section: "bilan_passif", poste: "dettes_fournisseurs", label: "Fournisseurs et comptes rattachés" },
+  "172": { formulaire: "2033-A", section: "bilan_passif", poste: "autres_dettes", label: "Autres dettes (dont dettes fiscales et sociales)" },
+  "174": { formulaire: "2033-A", section: "bilan_passif", poste: "produits_constates_avance", label: "Produits constatés d'avance" },
+  "176": { formulaire: "2033-A", section: "bilan_passif", poste: "total_dettes", label: "Total III (dettes)", total: true },
+  "180": { formulaire: "2033-A", section: "bilan_passif", poste: "total_general_passif", label: "Total général (I + II + III)", total: true },
+
+  // 2033-B - COMPTE DE RÉSULTAT SIMPLIFIÉ
+  "210": { formulaire: "2033-B", section: "compte_resultat", poste: "ventes_marchandises", label: "Ventes de marchandises" },
+  "214": { formulaire: "2033-B", section: "compte_resultat", poste: "production_vendue_biens", label: "Production vendue - Biens" },
+  "218": { formulaire: "2033-B", section: "compte_resultat", poste: "production_vendue_services", label: "Production vendue - Services" },
+  "222": { formulaire: "2033-B", section: "compte_resultat", poste: "production_stockee", label: "Production stockée" },
+  "224": { formulaire: "2033-B", section: "compte_resultat", poste: "production_immobilisee", label: "Production immobilisée" },
+  "226": { formulaire: "2033-B", section: "compte_resultat", poste: "subventions_exploitation", label: "Subventions d'exploitation reçues" },
+  "230": { formulaire: "2033-B", section: "compte_resultat", poste: "autres_produits", label: "Autres produits" },
+  "232": { formulaire: "2033-B", section: "compte_resultat", poste: "total_produits_exploitation", label: "Total des produits d'exploitation", total: true },
+  "234": { formulaire: "2033-B", section: "compte_resultat", poste: "achats_marchandises", label: "Achats de marchandises" },
+  "236": { formulaire: "2033-B", section: "compte_resultat", poste: "variation_stock_marchandises", label: "Variation de stock (marchandises)" },
+  "238": { formulaire: "2033-B", section: "compte_resultat", poste: "achats_matieres_premieres", label: "Achats de matières premières et autres approvisionnements" },
+  "240": { formulaire: "2033-B", section: "compte_resultat", poste: "variation_stock_matieres", label: "Variation de stock (matières premières)" },
+  "242": { formulaire: "2033-B", section: "compte_resultat", poste: "autres_achats_charges_externes", label: "Autres charges externes" },
+  "244": { formulaire: "2033-B", section: "compte_resultat", poste: "impots_taxes", label: "Impôts, taxes et versements assimilés" },
+  "250": { formulaire: "2033-B", section: "compte_resultat", poste: "salaires_traitements", label: "Rémunérations du personnel" },
+  "252": { formulaire: "2033-B", section: "compte_resultat", poste: "charges_sociales", label: "Charges sociales" },
+  "254": { formulaire: "2033-B", section: "compte_resultat", poste: "dotations_amortissements_immob", label: "Dotations aux amortissements" },
+  "256": { formulaire: "2033-B", section: "compte_resultat", poste: "dotations_provisions_actif", label: "Dotations aux provisions" },
+  "262": { formulaire: "2033-B", section: "compte_resultat", poste: "autres_charges", label: "Autres charges" },
+  "264": { formulaire: "2033-B", section: "compte_resultat", poste: "total_charges_exploitation", label: "Total des charges d'exploitation", total: true },
+  "270": { formulaire: "2033-B", section: "compte_resultat", poste: "resultat_exploitation", label: "Résultat d'exploitation", total: true },
+  "280": { formulaire: "2033-B", section: "compte_resultat", poste: "total_produits_financiers", label: "Produits financiers" },
+  "290": { formulaire: "2033-B", section: "compte_resultat", poste: "total_produits_exceptionnels", label: "Produits exceptionnels" },
+  "294": { formulaire: "2033-B", section: "compte_resultat", poste: "total_charges_financieres", label: "Charges financières" },
+  "300": { formulaire: "2033-B", section: "compte_resultat", poste: "total_charges_exceptionnelles", label: "Charges exceptionnelles" },
+  "306": { formulaire: "2033-B", section: "compte_resultat", poste: "impots_sur_benefices", label: "Impôts sur les bénéfices" },
+  "310": { formulaire: "2033-B", section: "compte_resultat", poste: "resultat_net", label: "Bénéfice ou perte", total: true }
+};
@@ -0,0 +1,84 @@
+import { z } from 'zod';
+
+/**
+ * Rent Index Schema
+ *
+ * Schéma du fichier data/rent-indices.json : séries trimestrielles des indices
+ * de révision des loyers commerciaux (ILC, ILAT, ICC), hypothèse de croissance
+ * au-delà du dernier trimestre publié et plafonnements légaux temporaires.
+ */
+
+const QUARTER_REGEX = /^\d{4}-T[1-4]$/;
+
+export const RENT_INDEX_TYPES = ['ILC', 'ILAT', 'ICC'] as const;
+
+export const RentIndexTypeSchema = z.enum(RENT_INDEX_TYPES);
+
+const QuarterSchema = z.string().regex(QUARTER_REGEX, 'Trimestre attendu au format AAAA-Tn (ex: 2024-T3)');
+
+export const RentIndexSeriesSchema = z.object({
+  label: z.string().min(1),
+  croissance_long_terme_pct: z.number().min(-5).max(10),
+  valeurs: z.record(QuarterSchema, z.number().positive())
+});
+
+export const RentIndexCapSchema = z.object({
+  indice: RentIndexTypeSchema,
+  debut: QuarterSchema,
+  fin: QuarterSchema,
+  variation_annuelle_max_pct: z.number().nonnegative(),
+  motif: z.string().min(1)
+});
+
+export const RentIndexDatasetSchema = z.object({
+  version: z.string(),
+  description: z.string().optional(),
+  source: z.object({
+    label: z.string().min(1),
+    annee: z.number().int().min(2000)
+  }),
+  indices: z.object({
+    ILC: RentIndexSeriesSchema,
+    ILAT: RentIndexSeriesSchema,
+    ICC: RentIndexSeriesSchema
+  }),
+  plafonds: z.array(RentIndexCapSchema).default([])
+}).superRefine((dataset, ctx) => {
+  for (const indice of RENT_INDEX_TYPES) {
+    const quarters = Object.keys(dataset.indices[indice].valeurs).sort();
+    if (quarters.length < 4) {
+      ctx.addIssue({ code: 'custom', path: ['indices', indice, 'valeurs'], message: `${indice}: au moins 4 trimestres requis` });
+      continue;
+    }
+    for (let i = 1; i < quarters.length; i++) {
+      if (quarterToIndex(quarters[i]) !== quarterToIndex(quarters[i - 1]) + 1) {
+        ctx.addIssue({ code: 'custom', path: ['indices', indice, 'valeurs'], message: `${indice}: série discontinue entre ${quarters[i - 1]} et ${quarters[i]}` });
+      }
+    }
+  }
+
+  dataset.plafonds.forEach((plafond, i) => {
+    if (quarterToIndex(plafond.debut) > quarterToIndex(plafond.fin)) {
+      ctx.addIssue({ code: 'custom', path: ['plafonds', i], message: `Plafond ${plafond.indice}: début ${plafond.debut} postérieur à la fin ${plafond.fin}` });
+    }
+  });
+});
+
+export type RentIndexType = z.infer<typeof RentIndexTypeSchema>;
+export type RentIndexCap = z.infer<typeof RentIndexCapSchema>;
+export type RentIndexDataset = z.infer<typeof RentIndexDatasetSchema>;
+
+/**
+ * Rang absolu d'un trimestre "AAAA-Tn" (année × 4 + trimestre - 1)
+ */
+export function quarterToIndex(quarter: string): number {
+  const [year, q] = quarter.split('-T').map(Number);
+  return year * 4 + q - 1;
+}
+
+/**
+ * Trimestre "AAAA-Tn" correspondant à un rang absolu
+ */
+export function indexToQuarter(index: number): string {
+  return `${Math.floor(index / 4)}-T${(index % 4) + 1}`;
+}
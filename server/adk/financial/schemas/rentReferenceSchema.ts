@@ -0,0 +1,88 @@
+import { z } from 'zod';
+
+/**
+ * Rent Reference Schema
+ *
+ * Schéma du référentiel des loyers commerciaux data/rent-references.json :
+ * loyer de marché en €/m²/an (quartiles) par territoire × type de zone × activité,
+ * chaque entrée portant sa source (libellé + année) et, pour une source observée
+ * (export d'observatoire), le nombre de baux de l'échantillon.
+ */
+
+export const RENT_ZONE_TYPES = ['centre_ville', 'peripherie', 'zone_commerciale', 'rural'] as const;
+export const RENT_ACTIVITIES = ['tabac_presse', 'restauration', 'alimentaire', 'commerce_detail', 'services'] as const;
+
+/** Territoire : code commune INSEE (5 caractères), département (2-3 caractères) ou "FR" */
+const TERRITOIRE_REGEX = /^(\d{5}|2[AB]\d{3}|\d{2}|2[AB]|97\d|FR)$/;
+
+export const RentZoneSchema = z.enum([...RENT_ZONE_TYPES, '*']);
+export const RentActivitySchema = z.enum([...RENT_ACTIVITIES, '*']);
+
+export const RentReferenceEntrySchema = z.object({
+  territoire: z.string().regex(TERRITOIRE_REGEX, 'Territoire attendu: code commune INSEE (75056), département (75, 2A, 974) ou FR'),
+  libelle: z.string().min(1),
+  zone: RentZoneSchema,
+  activite: RentActivitySchema,
+  loyer_m2_q1: z.number().positive(),
+  loyer_m2_median: z.number().positive(),
+  loyer_m2_q3: z.number().positive(),
+  nb_references: z.number().int().positive().optional(),   // Absent pour une estimation
+  source: z.string()
+}).refine(e => e.loyer_m2_q1 <= e.loyer_m2_median && e.loyer_m2_median <= e.loyer_m2_q3, {
+  message: 'Quartiles attendus q1 <= median <= q3'
+});
+
+export const RentReferenceDatasetSchema = z.object({
+  version: z.string(),
+  description: z.string().optional(),
+  sources: z.record(z.string(), z.object({
+    label: z.string().min(1),
+    annee: z.number().int().min(2000)
+  })),
+  references: z.array(RentReferenceEntrySchema).min(1)
+}).superRefine((dataset, ctx) => {
+  const seen = new Set<string>();
+
+  dataset.references.forEach((entry, i) => {
+    if (!dataset.sources[entry.source]) {
+      ctx.addIssue({ code: 'custom', path: ['references', i, 'source'], message: `Source inconnue: ${entry.source}` });
+    }
+    const key = `${entry.territoire}/${entry.zone}/${entry.activite}`;
+    if (seen.has(key)) {
+      ctx.addIssue({ code: 'custom', path: ['references', i], message: `Référence en double: ${key}` });
+    }
+    seen.add(key);
+  });
+
+  if (!dataset.references.some(e => e.territoire === 'FR' && e.zone === '*' && e.activite === '*')) {
+    ctx.addIssue({ code: 'custom', path: ['references'], message: 'Référence nationale FR/*/* requise (repli par défaut)' });
+  }
+});
+
+export type RentZoneType = typeof RENT_ZONE_TYPES[number];
+export type RentActivity = typeof RENT_ACTIVITIES[number];
+export type RentReferenceEntry = z.infer<typeof RentReferenceEntrySchema>;
+export type RentReferenceDataset = z.infer<typeof RentReferenceDatasetSchema>;
+
+/**
+ * Niveau territorial auquel la référence a été trouvée
+ */
+export type RentReferenceLevel = 'commune' | 'departement' | 'national';
+
+/**
+ * Référence de loyer retenue pour un local (citée dans la simulation et le rapport)
+ */
+export interface RentReferenceMatch {
+  fournisseur: string;       // Nom du fournisseur de références (ex: "referentiel-local")
+  territoire: string;        // Territoire retenu (ex: "75056", "75", "FR")
+  libelle: string;
+  niveau: RentReferenceLevel;
+  zone: RentZoneType | '*';
+  activite: RentActivity | '*';
+  loyer_m2_q1: number;
+  loyer_m2_median: number;
+  loyer_m2_q3: number;
+  nb_references?: number;    // Taille de l'échantillon (source observée uniquement)
+  source: string;            // Libellé de la source
+  annee: number;             // Année de référence des données
+}
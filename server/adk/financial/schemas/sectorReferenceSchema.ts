@@ -0,0 +1,110 @@
+import { z } from 'zod';
+
+/**
+ * Sector Reference Schema
+ *
+ * Schéma du référentiel sectoriel data/sector-references.json :
+ * ratios moyens (benchmark) et coefficients de valorisation par code NAF,
+ * chaque bloc portant sa source (libellé + année de référence).
+ */
+
+const NAF_CODE_REGEX = /^\d{2}(\.\d{1,2}[A-Z]?)?$/;
+
+const FourchetteSchema = z.object({
+  bas: z.number().nonnegative(),
+  median: z.number().nonnegative(),
+  haut: z.number().nonnegative()
+}).refine(f => f.bas <= f.median && f.median <= f.haut, {
+  message: 'Fourchette attendue bas <= median <= haut'
+});
+
+export const SectorRatiosSchema = z.object({
+  marge_brute_pct: z.number(),
+  marge_ebe_pct: z.number(),
+  marge_nette_pct: z.number(),
+  taux_va_pct: z.number(),
+  rotation_stocks_jours: z.number().nonnegative(),
+  delai_clients_jours: z.number().nonnegative(),
+  delai_fournisseurs_jours: z.number().nonnegative(),
+  bfr_jours_ca: z.number(),
+  taux_endettement_pct: z.number().nonnegative()
+});
+
+export const BenchmarkBlockSchema = z.object({
+  source: z.string(),
+  ratios: SectorRatiosSchema
+});
+
+export const ValuationBlockSchema = z.object({
+  source: z.string(),
+  ebeMultiple: FourchetteSchema,
+  caPercentage: FourchetteSchema,
+  specificFactors: z.array(z.string()).optional()
+});
+
+export const SectorReferenceEntrySchema = z.object({
+  nafCode: z.string().regex(NAF_CODE_REGEX, 'Code NAF attendu: division (47), groupe (47.2), classe (47.26) ou sous-classe (47.26Z)'),
+  sector: z.string().min(1),
+  benchmark: BenchmarkBlockSchema.optional(),
+  valuation: ValuationBlockSchema.optional()
+});
+
+export const SectorReferenceDatasetSchema = z.object({
+  version: z.string(),
+  description: z.string().optional(),
+  sources: z.record(z.string(), z.object({
+    label: z.string().min(1),
+    annee: z.number().int().min(2000)
+  })),
+  default: z.object({
+    sector: z.string(),
+    benchmark: BenchmarkBlockSchema,
+    valuation: ValuationBlockSchema
+  }),
+  sectors: z.array(SectorReferenceEntrySchema)
+}).superRefine((dataset, ctx) => {
+  const seen = new Set<string>();
+  const blocks = [
+    { path: ['default'], entry: dataset.default },
+    ...dataset.sectors.map((entry, i) => ({ path: ['sectors', i], entry }))
+  ];
+
+  for (const { path, entry } of blocks) {
+    for (const block of ['benchmark', 'valuation'] as const) {
+      const source = entry[block]?.source;
+      if (source && !dataset.sources[source]) {
+        ctx.addIssue({ code: 'custom', path: [...path, block, 'source'], message: `Source inconnue: ${source}` });
+      }
+    }
+  }
+
+  dataset.sectors.forEach((entry, i) => {
+    if (seen.has(entry.nafCode)) {
+      ctx.addIssue({ code: 'custom', path: ['sectors', i, 'nafCode'], message: `Code NAF en double: ${entry.nafCode}` });
+    }
+    seen.add(entry.nafCode);
+    if (!entry.benchmark && !entry.valuation) {
+      ctx.addIssue({ code: 'custom', path: ['sectors', i], message: `${entry.nafCode}: benchmark ou valuation requis` });
+    }
+  });
+});
+
+export type SectorRatios = z.infer<typeof SectorRatiosSchema>;
+export type SectorReferenceEntry = z.infer<typeof SectorReferenceEntrySchema>;
+export type SectorReferenceDataset = z.infer<typeof SectorReferenceDatasetSchema>;
+
+/**
+ * Niveau de la nomenclature NAF auquel la référence a été trouvée
+ */
+export type NafLevel = 'sous-classe' | 'classe' | 'groupe' | 'division' | 'defaut';
+
+/**
+ * Provenance d'une référence sectorielle (affichée dans le rapport)
+ */
+export interface SectorProvenance {
+  codeDemande: string;       // Code saisi (ex: "47.26Z")
+  codeRetenu: string;        // Code du référentiel utilisé (ex: "47.26")
+  niveau: NafLevel;
+  source: string;            // Libellé de la source
+  annee: number;             // Année de référence des données
+}
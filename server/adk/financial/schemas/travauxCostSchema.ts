@@ -0,0 +1,92 @@
+import { z } from 'zod';
+
+/**
+ * Travaux Cost Schema
+ *
+ * Schéma de la bibliothèque de coûts travaux data/travaux-costs.json :
+ * - items : postes chiffrés (unité, fourchette €/unité, catégorie obligatoire/recommandé)
+ *   et mots-clés permettant de rattacher les constats de l'analyse photos
+ * - checklist_erp : points de contrôle ERP 5e catégorie / accessibilité PMR,
+ *   chacun rattaché au poste à chiffrer s'il n'est pas satisfait
+ * - travaux_par_etat : postes retenus selon l'état général du local
+ */
+
+export const TRAVAUX_UNITS = ['forfait', 'm2', 'unite'] as const;
+export const TRAVAUX_CATEGORIES = ['obligatoire', 'recommande'] as const;
+export const TRAVAUX_URGENCES = ['immediat', '6_mois', '12_mois'] as const;
+export const TRAVAUX_ETATS = ['bon', 'moyen', 'mauvais'] as const;
+
+export const TravauxItemSchema = z.object({
+  id: z.string().regex(/^[a-z0-9_]+$/, 'Identifiant attendu en snake_case'),
+  libelle: z.string().min(1),
+  categorie: z.enum(TRAVAUX_CATEGORIES),
+  unite: z.enum(TRAVAUX_UNITS),
+  prix_bas: z.number().nonnegative(),
+  prix_haut: z.number().nonnegative(),
+  quantite_defaut: z.number().positive().default(1),   // Quantité si la surface est inconnue
+  m2_par_unite: z.number().positive().optional(),      // Unités proportionnelles à la surface (ex: 1 extincteur / 200 m²)
+  quantite_min: z.number().int().positive().optional(),
+  urgence: z.enum(TRAVAUX_URGENCES).optional(),        // Postes obligatoires
+  impact: z.string().optional(),                       // Postes recommandés
+  mots_cles: z.array(z.string().min(2)).default([])
+}).refine(item => item.prix_bas <= item.prix_haut, {
+  message: 'Fourchette attendue prix_bas <= prix_haut'
+}).refine(item => item.categorie !== 'obligatoire' || item.urgence !== undefined, {
+  message: 'Urgence requise pour un poste obligatoire'
+});
+
+export const ErpChecklistItemSchema = z.object({
+  id: z.string().regex(/^[a-z0-9_]+$/, 'Identifiant attendu en snake_case'),
+  libelle: z.string().min(1),
+  exigence: z.string().min(1),
+  reference: z.string().min(1),   // Texte réglementaire
+  pmr: z.boolean(),               // Point d'accessibilité (sinon sécurité)
+  travaux_id: z.string()
+});
+
+export const TravauxCostLibrarySchema = z.object({
+  version: z.string(),
+  description: z.string().optional(),
+  items: z.array(TravauxItemSchema).min(1),
+  checklist_erp: z.array(ErpChecklistItemSchema),
+  travaux_par_etat: z.object({
+    bon: z.array(z.string()),
+    moyen: z.array(z.string()),
+    mauvais: z.array(z.string())
+  })
+}).superRefine((library, ctx) => {
+  const ids = new Set<string>();
+  library.items.forEach((item, i) => {
+    if (ids.has(item.id)) {
+      ctx.addIssue({ code: 'custom', path: ['items', i, 'id'], message: `Poste en double: ${item.id}` });
+    }
+    ids.add(item.id);
+  });
+
+  const checklistIds = new Set<string>();
+  library.checklist_erp.forEach((point, i) => {
+    if (checklistIds.has(point.id)) {
+      ctx.addIssue({ code: 'custom', path: ['checklist_erp', i, 'id'], message: `Point de contrôle en double: ${point.id}` });
+    }
+    checklistIds.add(point.id);
+    if (!ids.has(point.travaux_id)) {
+      ctx.addIssue({ code: 'custom', path: ['checklist_erp', i, 'travaux_id'], message: `Poste inconnu: ${point.travaux_id}` });
+    }
+  });
+
+  TRAVAUX_ETATS.forEach(etat => {
+    library.travaux_par_etat[etat].forEach((id, i) => {
+      if (!ids.has(id)) {
+        ctx.addIssue({ code: 'custom', path: ['travaux_par_etat', etat, i], message: `Poste inconnu: ${id}` });
+      }
+    });
+  });
+});
+
+export type TravauxUnit = typeof TRAVAUX_UNITS[number];
+export type TravauxCategorie = typeof TRAVAUX_CATEGORIES[number];
+export type TravauxUrgence = typeof TRAVAUX_URGENCES[number];
+export type TravauxEtat = typeof TRAVAUX_ETATS[number];
+export type TravauxItem = z.infer<typeof TravauxItemSchema>;
+export type ErpChecklistItem = z.infer<typeof ErpChecklistItemSchema>;
+export type TravauxCostLibrary = z.infer<typeof TravauxCostLibrarySchema>;
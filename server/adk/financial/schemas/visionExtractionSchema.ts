@@ -28,6 +28,7 @@ export const VisionExtractionOutputSchema = z.object({
     })),
     key_values: z.record(z.string(), z.any()).optional()
   }),
+  regime: z.enum(['reel_normal', 'simplifie']).nullable().optional().describe('Régime de la liasse (2050 réel normal / 2033 simplifié)'),
   reasoning: z.string().optional(),
   method: z.enum(['vision', 'heuristic', 'vision_failed']),
   error: z.string().optional()
@@ -0,0 +1,109 @@
+import type { ToolContext } from '@google/adk';
+import {
+  FINANCIAL_STATE_SCHEMAS,
+  type FinancialStateKey,
+  type FinancialStateOutputs
+} from '../schemas/financialStateSchema';
+
+/**
+ * readState - Accès typé et validé au state du pipeline financier
+ *
+ * Remplace les blocs ad-hoc `typeof x === 'string' ? JSON.parse(x) : x` des tools :
+ * - parse les outputs LLM stockés en JSON string (outputKey), bloc markdown ```json toléré
+ * - valide contre le schéma Zod de la clé (schemas/financialStateSchema.ts)
+ * - lève FinancialStateError (structurée) en cas de JSON invalide ou de violation de schéma
+ *
+ * Retourne undefined si la clé est absente du state (agent pas encore exécuté).
+ *
+ * @example
+ * const comptable = readState(toolContext, 'comptable');
+ * const ebe = getSigValue(comptable?.sig?.['2024'], 'ebe');
+ */
+
+export interface FinancialStateIssue {
+  path: string;
+  message: string;
+}
+
+export class FinancialStateError extends Error {
+  readonly key: FinancialStateKey;
+  readonly issues: FinancialStateIssue[];
+
+  constructor(key: FinancialStateKey, message: string, issues: FinancialStateIssue[] = []) {
+    super(`state.${key}: ${message}`);
+    this.name = 'FinancialStateError';
+    this.key = key;
+    this.issues = issues;
+  }
+
+  /**
+   * Forme retournée par les tools ({ error } + détail exploitable par l'agent / les logs)
+   */
+  toToolError(): { error: string; stateError: { key: FinancialStateKey; issues: FinancialStateIssue[] } } {
+    return {
+      error: this.message,
+      stateError: { key: this.key, issues: this.issues }
+    };
+  }
+}
+
+export function readState<K extends FinancialStateKey>(
+  toolContext: ToolContext | undefined,
+  key: K
+): FinancialStateOutputs[K] | undefined {
+  return parseStateValue(key, toolContext?.state.get(key));
+}
+
+/**
+ * Clés hors pipeline financier (businessInfo, userComments, outputs de tools comme
+ * businessPlan ou planTresorerie) : JSON string parsé si nécessaire, sans schéma.
+ * Retourne undefined si la clé est absente ou le JSON invalide.
+ */
+export function readUntypedState(toolContext: ToolContext | undefined, key: string): any {
+  const raw = toolContext?.state.get(key);
+  if (typeof raw !== 'string') {
+    return raw ?? undefined;
+  }
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Variante sans ToolContext (valeur brute du state déjà lue : sections du rapport, tests)
+ */
+export function parseStateValue<K extends FinancialStateKey>(
+  key: K,
+  raw: unknown
+): FinancialStateOutputs[K] | undefined {
+  if (raw === undefined || raw === null || raw === '') {
+    return undefined;
+  }
+
+  let value = raw;
+  if (typeof raw === 'string') {
+    try {
+      // Le LLM entoure parfois son output d'un bloc ```json ... ```
+      value = JSON.parse(raw.trim().replace(/^```(?:json)?\s*\n/, '').replace(/\n```\s*$/, ''));
+    } catch {
+      throw new FinancialStateError(key, 'invalid JSON string');
+    }
+  }
+
+  const result = FINANCIAL_STATE_SCHEMAS[key].safeParse(value);
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => ({
+      path: issue.path.join('.'),
+      message: issue.message
+    }));
+    throw new FinancialStateError(
+      key,
+      `schema violation (${issues.map(i => `${i.path || '<root>'}: ${i.message}`).join('; ')})`,
+      issues
+    );
+  }
+
+  return result.data as FinancialStateOutputs[K];
+}
@@ -2,6 +2,10 @@ import { z } from 'zod';
 import { FunctionTool } from '@google/adk';
 import type { ToolContext } from '@google/adk';
 import { zToGen } from '../../../utils/schemaHelper';
+import { getSigValue, type DocumentExtractionOutput, type SigYear } from '../../schemas/financialStateSchema';
+import { readState, FinancialStateError } from '../../state/readState';
+import { computeRatiosHistory } from './calculateRatiosTool';
+import { analyzeSeries, type SeriesTrend, type TrendInflection } from './trendStatistics';
 
 /**
  * Analyze Trends Tool
@@ -13,19 +17,49 @@ import { zToGen } from '../../../utils/schemaHelper';
  * - Chiffre d'affaires
  * - Excédent Brut d'Exploitation (EBE)
  * - Résultat net
+ * - Marge EBE (ratio de chaque exercice)
+ *
+ * Pour chaque indicateur : TCAM, pente de régression linéaire et R², volatilité,
+ * inflexions (ex: croissance puis déclin). La tendance globale repose sur la droite
+ * de régression (toutes les années) et non plus sur la seule variation première/dernière
+ * année, qu'un creux isolé (ex: 2020) rend trompeuse. Les variations première/dernière
+ * année (ca_evolution_pct...) restent fournies.
  */
 
 const AnalyzeTrendsInputSchema = z.object({
   debug: z.boolean().optional().describe('Mode debug pour logs détaillés')
 });
 
+const InflectionSchema = z.object({
+  annee: z.number(),
+  type: z.enum(['hausse_puis_baisse', 'baisse_puis_hausse']),
+  variation_avant_pct: z.number(),
+  variation_apres_pct: z.number()
+});
+
+const SeriesTrendSchema = z.object({
+  cagr_pct: z.number().nullable().describe('Taux de croissance annuel moyen'),
+  pente_annuelle: z.number().describe('Pente de la droite de régression (par an)'),
+  r2: z.number().describe('Qualité d\'ajustement de la régression (0 à 1)'),
+  evolution_tendancielle_pct: z.number().describe('Variation sur la période selon la droite de régression'),
+  volatilite_pct: z.number().describe('Écart-type / moyenne'),
+  inflexions: z.array(InflectionSchema)
+});
+
 const AnalyzeTrendsOutputSchema = z.object({
   evolution: z.object({
     ca_evolution_pct: z.number().describe('Variation CA entre première et dernière année'),
     ebe_evolution_pct: z.number().describe('Variation EBE entre première et dernière année'),
     rn_evolution_pct: z.number().describe('Variation RN entre première et dernière année'),
-    tendance: z.enum(['croissance', 'stable', 'declin']).describe('Tendance globale'),
-    commentaire: z.string().describe('Commentaire sur l\'évolution')
+    tendance: z.enum(['croissance', 'stable', 'declin']).describe('Tendance globale (régression sur toutes les années)'),
+    commentaire: z.string().describe('Commentaire sur l\'évolution'),
+    indicateurs: z.record(z.string(), SeriesTrendSchema).optional().describe('Statistiques par indicateur (chiffre_affaires, ebe, resultat_net, marge_ebe_pct)'),
+    ebe_volatilite_pct: z.number().optional().describe('Volatilité de l\'EBE (écart-type / moyenne)'),
+    inflexions: z.array(InflectionSchema.extend({ indicateur: z.string() })).optional(),
+    ratios_historique: z.array(z.object({
+      year: z.number(),
+      ratios: z.record(z.string(), z.number())
+    })).optional().describe('Ratios de chaque exercice (ordre chronologique)')
   }),
   yearlyGrowth: z.array(z.object({
     yearFrom: z.number(),
@@ -39,31 +73,13 @@ const AnalyzeTrendsOutputSchema = z.object({
 
 export const analyzeTrendsTool = new FunctionTool({
   name: 'analyzeTrends',
-  description: 'Analyse l\'évolution des indicateurs financiers (CA, EBE, RN) sur la période. Retourne { evolution: { ca_evolution_pct, tendance, ... } }',
+  description: 'Analyse l\'évolution des indicateurs financiers (CA, EBE, RN, marge EBE) sur la période : TCAM, régression, volatilité, inflexions, ratios de chaque exercice. Retourne { evolution: { ca_evolution_pct, tendance, indicateurs, inflexions, ratios_historique, ... } }',
   parameters: zToGen(AnalyzeTrendsInputSchema),
 
   execute: async (params, toolContext?: ToolContext) => {
     try {
-      // Lire comptable depuis state
-      let comptable = toolContext?.state.get('comptable') as any;
-
-      // Parser JSON string si nécessaire
-      if (typeof comptable === 'string') {
-        try {
-          comptable = JSON.parse(comptable);
-        } catch (e) {
-          return {
-            evolution: {
-              ca_evolution_pct: 0,
-              ebe_evolution_pct: 0,
-              rn_evolution_pct: 0,
-              tendance: 'stable' as const,
-              commentaire: 'Erreur de parsing des données'
-            },
-            error: 'Failed to parse comptable state (invalid JSON)'
-          };
-        }
-      }
+      // Lire comptable depuis state - parsé et validé
+      const comptable = readState(toolContext, 'comptable');
 
       if (!comptable?.sig || Object.keys(comptable.sig).length === 0) {
         return {
@@ -78,89 +94,29 @@ export const analyzeTrendsTool = new FunctionTool({
         };
       }
 
-      const years = Object.keys(comptable.sig).map(y => parseInt(y)).sort((a, b) => a - b); // Tri ascendant
+      // Bilan (non critique) pour l'historique des ratios d'activité et de structure
+      let documentExtraction: DocumentExtractionOutput | undefined;
+      try {
+        documentExtraction = readState(toolContext, 'documentExtraction');
+      } catch (e: any) {
+        console.warn('[analyzeTrends] ⚠️ documentExtraction ignoré:', e.message);
+      }
 
-      if (years.length < 2) {
-        // Pas assez d'années pour calculer une évolution
-        const year = years[0];
-        const sig = comptable.sig[year.toString()];
+      return computeTrends(comptable.sig, documentExtraction);
 
+    } catch (error: any) {
+      if (error instanceof FinancialStateError) {
         return {
           evolution: {
             ca_evolution_pct: 0,
             ebe_evolution_pct: 0,
             rn_evolution_pct: 0,
             tendance: 'stable' as const,
-            commentaire: `Une seule année disponible (${year}). Impossible de calculer l'évolution.`
-          }
+            commentaire: 'Données comptables invalides'
+          },
+          ...error.toToolError()
         };
       }
-
-      // Calculer l'évolution entre première et dernière année
-      const firstYear = years[0];
-      const lastYear = years[years.length - 1];
-
-      const firstSig = comptable.sig[firstYear.toString()];
-      const lastSig = comptable.sig[lastYear.toString()];
-
-      const ca_evolution_pct = calculateGrowthRate(firstSig.chiffre_affaires, lastSig.chiffre_affaires);
-      const ebe_evolution_pct = calculateGrowthRate(firstSig.ebe, lastSig.ebe);
-      const rn_evolution_pct = calculateGrowthRate(firstSig.resultat_net, lastSig.resultat_net);
-
-      // Déterminer la tendance globale (pondération: CA 40%, EBE 30%, RN 30%)
-      const tendanceScore = (ca_evolution_pct * 0.4) + (ebe_evolution_pct * 0.3) + (rn_evolution_pct * 0.3);
-
-      let tendance: 'croissance' | 'stable' | 'declin';
-      if (tendanceScore > 5) {
-        tendance = 'croissance';
-      } else if (tendanceScore < -5) {
-        tendance = 'declin';
-      } else {
-        tendance = 'stable';
-      }
-
-      // Générer commentaire
-      const periode = `${firstYear}-${lastYear}`;
-      let commentaire = '';
-
-      if (tendance === 'croissance') {
-        commentaire = `Croissance soutenue sur ${periode} : CA ${formatPct(ca_evolution_pct)}, EBE ${formatPct(ebe_evolution_pct)}, RN ${formatPct(rn_evolution_pct)}.`;
-      } else if (tendance === 'declin') {
-        commentaire = `Déclin sur ${periode} : CA ${formatPct(ca_evolution_pct)}, EBE ${formatPct(ebe_evolution_pct)}, RN ${formatPct(rn_evolution_pct)}.`;
-      } else {
-        commentaire = `Activité stable sur ${periode} : CA ${formatPct(ca_evolution_pct)}, EBE ${formatPct(ebe_evolution_pct)}, RN ${formatPct(rn_evolution_pct)}.`;
-      }
-
-      // Calculer croissance année par année (optionnel)
-      const yearlyGrowth = [];
-      for (let i = 0; i < years.length - 1; i++) {
-        const yearFrom = years[i];
-        const yearTo = years[i + 1];
-
-        const sigFrom = comptable.sig[yearFrom.toString()];
-        const sigTo = comptable.sig[yearTo.toString()];
-
-        yearlyGrowth.push({
-          yearFrom,
-          yearTo,
-          ca_growth_pct: calculateGrowthRate(sigFrom.chiffre_affaires, sigTo.chiffre_affaires),
-          ebe_growth_pct: calculateGrowthRate(sigFrom.ebe, sigTo.ebe),
-          rn_growth_pct: calculateGrowthRate(sigFrom.resultat_net, sigTo.resultat_net)
-        });
-      }
-
-      return {
-        evolution: {
-          ca_evolution_pct: Math.round(ca_evolution_pct * 10) / 10,
-          ebe_evolution_pct: Math.round(ebe_evolution_pct * 10) / 10,
-          rn_evolution_pct: Math.round(rn_evolution_pct * 10) / 10,
-          tendance,
-          commentaire
-        },
-        yearlyGrowth
-      };
-
-    } catch (error: any) {
       return {
         evolution: {
           ca_evolution_pct: 0,
@@ -175,6 +131,124 @@ export const analyzeTrendsTool = new FunctionTool({
   }
 });
 
+export type TrendsResult = Omit<z.infer<typeof AnalyzeTrendsOutputSchema>, 'error'>;
+
+/**
+ * Calcule l'évolution pluriannuelle à partir des SIG (et du bilan pour les ratios)
+ */
+export function computeTrends(sigByYear: Record<string, SigYear>, documentExtraction?: DocumentExtractionOutput): TrendsResult {
+  const years = Object.keys(sigByYear).map(y => parseInt(y)).filter(y => !isNaN(y)).sort((a, b) => a - b); // Tri ascendant
+
+  if (years.length < 2) {
+    // Pas assez d'années pour calculer une évolution
+    return {
+      evolution: {
+        ca_evolution_pct: 0,
+        ebe_evolution_pct: 0,
+        rn_evolution_pct: 0,
+        tendance: 'stable',
+        commentaire: `Une seule année disponible (${years[0]}). Impossible de calculer l'évolution.`
+      }
+    };
+  }
+
+  const value = (year: number, field: string) => getSigValue(sigByYear[year.toString()], field);
+
+  // Variation entre première et dernière année
+  const firstYear = years[0];
+  const lastYear = years[years.length - 1];
+
+  const ca_evolution_pct = calculateGrowthRate(value(firstYear, 'chiffre_affaires'), value(lastYear, 'chiffre_affaires'));
+  const ebe_evolution_pct = calculateGrowthRate(value(firstYear, 'ebe'), value(lastYear, 'ebe'));
+  const rn_evolution_pct = calculateGrowthRate(value(firstYear, 'resultat_net'), value(lastYear, 'resultat_net'));
+
+  // Statistiques sur toutes les années
+  const ratios_historique = computeRatiosHistory(sigByYear, documentExtraction);
+  const indicateurs: Record<string, SeriesTrend> = {
+    chiffre_affaires: analyzeSeries(years.map(year => ({ year, value: value(year, 'chiffre_affaires') }))),
+    ebe: analyzeSeries(years.map(year => ({ year, value: value(year, 'ebe') }))),
+    resultat_net: analyzeSeries(years.map(year => ({ year, value: value(year, 'resultat_net') }))),
+    marge_ebe_pct: analyzeSeries(ratios_historique.map(r => ({ year: r.year, value: r.ratios.marge_ebe_pct })))
+  };
+
+  const inflexions: (TrendInflection & { indicateur: string })[] = Object.entries(indicateurs)
+    .flatMap(([indicateur, trend]) => trend.inflexions.map(i => ({ indicateur, ...i })));
+
+  // Déterminer la tendance globale (pondération: CA 40%, EBE 30%, RN 30%) sur la droite de régression
+  const tendanceScore = (indicateurs.chiffre_affaires.evolution_tendancielle_pct * 0.4)
+    + (indicateurs.ebe.evolution_tendancielle_pct * 0.3)
+    + (indicateurs.resultat_net.evolution_tendancielle_pct * 0.3);
+
+  let tendance: 'croissance' | 'stable' | 'declin';
+  if (tendanceScore > 5) {
+    tendance = 'croissance';
+  } else if (tendanceScore < -5) {
+    tendance = 'declin';
+  } else {
+    tendance = 'stable';
+  }
+
+  // Générer commentaire
+  const periode = `${firstYear}-${lastYear}`;
+  let commentaire = '';
+
+  if (tendance === 'croissance') {
+    commentaire = `Croissance soutenue sur ${periode} : CA ${formatPct(ca_evolution_pct)}, EBE ${formatPct(ebe_evolution_pct)}, RN ${formatPct(rn_evolution_pct)}.`;
+  } else if (tendance === 'declin') {
+    commentaire = `Déclin sur ${periode} : CA ${formatPct(ca_evolution_pct)}, EBE ${formatPct(ebe_evolution_pct)}, RN ${formatPct(rn_evolution_pct)}.`;
+  } else {
+    commentaire = `Activité stable sur ${periode} : CA ${formatPct(ca_evolution_pct)}, EBE ${formatPct(ebe_evolution_pct)}, RN ${formatPct(rn_evolution_pct)}.`;
+  }
+
+  if (years.length >= 3) {
+    const ca = indicateurs.chiffre_affaires;
+    if (ca.cagr_pct !== null) {
+      commentaire += ` TCAM du CA ${formatPct(ca.cagr_pct)} (R² ${ca.r2.toFixed(2)}).`;
+    }
+    if (ca.r2 < 0.5 || indicateurs.ebe.r2 < 0.5) {
+      commentaire += ' Trajectoire irrégulière : la variation entre première et dernière année est peu représentative.';
+    }
+    inflexions
+      .filter(i => i.indicateur === 'chiffre_affaires' || i.indicateur === 'ebe')
+      .forEach(i => {
+        const label = i.indicateur === 'ebe' ? 'EBE' : 'CA';
+        commentaire += i.type === 'hausse_puis_baisse'
+          ? ` ${label} en hausse jusqu'en ${i.annee} puis en baisse (${formatPct(i.variation_apres_pct)}).`
+          : ` ${label} en creux en ${i.annee} (${formatPct(i.variation_avant_pct)}) puis en reprise (${formatPct(i.variation_apres_pct)}).`;
+      });
+  }
+
+  // Croissance année par année
+  const yearlyGrowth = [];
+  for (let i = 0; i < years.length - 1; i++) {
+    const yearFrom = years[i];
+    const yearTo = years[i + 1];
+
+    yearlyGrowth.push({
+      yearFrom,
+      yearTo,
+      ca_growth_pct: calculateGrowthRate(value(yearFrom, 'chiffre_affaires'), value(yearTo, 'chiffre_affaires')),
+      ebe_growth_pct: calculateGrowthRate(value(yearFrom, 'ebe'), value(yearTo, 'ebe')),
+      rn_growth_pct: calculateGrowthRate(value(yearFrom, 'resultat_net'), value(yearTo, 'resultat_net'))
+    });
+  }
+
+  return {
+    evolution: {
+      ca_evolution_pct: Math.round(ca_evolution_pct * 10) / 10,
+      ebe_evolution_pct: Math.round(ebe_evolution_pct * 10) / 10,
+      rn_evolution_pct: Math.round(rn_evolution_pct * 10) / 10,
+      tendance,
+      commentaire,
+      indicateurs,
+      ebe_volatilite_pct: indicateurs.ebe.volatilite_pct,
+      inflexions,
+      ratios_historique
+    },
+    yearlyGrowth
+  };
+}
+
 /**
  * Calcule le taux de croissance entre deux valeurs (en pourcentage)
  */
@@ -3,6 +3,8 @@ import { FunctionTool } from '@google/adk';
 import type { ToolContext } from '@google/adk';
 import { zToGen } from '../../../utils/schemaHelper';
 import { logEbeRetraitement } from '../../../utils/extractionLogger';
+import { getSigValue, type ImmobilierOutput } from '../../schemas/financialStateSchema';
+import { readState, FinancialStateError } from '../../state/readState';
 
 /**
  * Calculate EBE Retraitement Tool
@@ -53,24 +55,8 @@ export const calculateEbeRetraitementTool = new FunctionTool({
 
   execute: async (params, toolContext?: ToolContext) => {
     try {
-      // Lire comptable depuis state
-      let comptable = toolContext?.state.get('comptable') as any;
-      if (typeof comptable === 'string') {
-        try {
-          comptable = JSON.parse(comptable);
-        } catch (e) {
-          return {
-            ebe_comptable: 0,
-            annee_reference: 0,
-            retraitements: [],
-            total_retraitements: 0,
-            ebe_normatif: 0,
-            ecart_pct: 0,
-            synthese: 'Erreur: Impossible de parser les données comptables',
-            error: 'Failed to parse comptable state'
-          };
-        }
-      }
+      // Lire comptable depuis state - parsé et validé
+      const comptable = readState(toolContext, 'comptable');
 
       // Lire userComments depuis state
       let userComments = toolContext?.state.get('userComments') as any;
@@ -82,24 +68,12 @@ export const calculateEbeRetraitementTool = new FunctionTool({
         }
       }
 
-      // Lire documentExtraction depuis state
-      let documentExtraction = toolContext?.state.get('documentExtraction') as any;
-      if (typeof documentExtraction === 'string') {
-        try {
-          documentExtraction = JSON.parse(documentExtraction);
-        } catch (e) {
-          documentExtraction = null;
-        }
-      }
-
-      // Lire immobilier depuis state (pour simulation loyer)
-      let immobilier = toolContext?.state.get('immobilier') as any;
-      if (typeof immobilier === 'string') {
-        try {
-          immobilier = JSON.parse(immobilier);
-        } catch (e) {
-          immobilier = null;
-        }
+      // Lire immobilier depuis state (pour simulation loyer, non critique)
+      let immobilier: ImmobilierOutput | undefined;
+      try {
+        immobilier = readState(toolContext, 'immobilier');
+      } catch (e: any) {
+        console.warn('[EBE Retraitement] ⚠️ immobilier ignoré:', e.message);
       }
 
       if (!comptable?.sig || !comptable?.yearsAnalyzed || comptable.yearsAnalyzed.length === 0) {
@@ -117,28 +91,11 @@ export const calculateEbeRetraitementTool = new FunctionTool({
 
       const { sig, yearsAnalyzed } = comptable;
 
-      // Helper pour extraire la valeur d'un champ SIG (format nouveau ou ancien)
-      const extractSigValue = (sigYear: any, field: string): number => {
-        if (!sigYear || !sigYear[field]) return 0;
-
-        // Nouveau format: { valeur: number, pct_ca: number }
-        if (typeof sigYear[field] === 'object' && 'valeur' in sigYear[field]) {
-          return sigYear[field].valeur || 0;
-        }
-
-        // Ancien format: number
-        if (typeof sigYear[field] === 'number') {
-          return sigYear[field];
-        }
-
-        return 0;
-      };
-
       // Calculer EBE de référence (TOUJOURS dernière année pour le Pont EBE)
       // Note: La moyenne 3 ans est utilisée pour la VALORISATION, pas pour le retraitement
       const anneeReference = yearsAnalyzed[0]; // Année la plus récente
       const lastYear = anneeReference.toString();
-      const ebeComptable = extractSigValue(sig[lastYear], 'ebe');
+      const ebeComptable = getSigValue(sig[lastYear], 'ebe');
 
       // Array des retraitements
       const retraitements: Array<{
@@ -168,10 +125,10 @@ export const calculateEbeRetraitementTool = new FunctionTool({
       const lastYearSig = sig[lastYearStr];
 
       // Essayer d'extraire charges_exploitant depuis le SIG (PRIORITÉ 0)
-      const chargesExploitantFromSig = extractSigValue(lastYearSig, 'charges_exploitant');
-      const chargesPersonnel = extractSigValue(lastYearSig, 'charges_personnel') ||
-                               extractSigValue(lastYearSig, 'salaires_personnel') ||
-                               lastYearSig?._legacy?.charges_personnel || 0;
+      const chargesExploitantFromSig = getSigValue(lastYearSig, 'charges_exploitant');
+      const chargesPersonnel = getSigValue(lastYearSig, 'charges_personnel') ||
+                               getSigValue(lastYearSig, 'salaires_personnel') ||
+                               (lastYearSig?._legacy as any)?.charges_personnel || 0;
 
       console.log('[EBE Retraitement] Recherche salaire dirigeant:');
       console.log(`[EBE Retraitement]   └─ charges_exploitant (SIG): ${chargesExploitantFromSig > 0 ? chargesExploitantFromSig.toLocaleString('fr-FR') + '€' : 'NON DISPONIBLE'}`);
@@ -239,8 +196,8 @@ export const calculateEbeRetraitementTool = new FunctionTool({
 
       if (repriseSalaries === false) {
         // Calculate total personnel cost from SIG
-        const salairesPersonnel = extractSigValue(lastYearSig, 'salaires_personnel') || 0;
-        const chargesSociales = extractSigValue(lastYearSig, 'charges_sociales_personnel') || 0;
+        const salairesPersonnel = getSigValue(lastYearSig, 'salaires_personnel') || 0;
+        const chargesSociales = getSigValue(lastYearSig, 'charges_sociales_personnel') || 0;
         const masseSalarialeTotale = salairesPersonnel + chargesSociales;
 
         console.log(`[EBE Retraitement]   └─ Salaires personnel: ${salairesPersonnel.toLocaleString('fr-FR')}€`);
@@ -404,7 +361,7 @@ export const calculateEbeRetraitementTool = new FunctionTool({
       // PRIORITÉ 2: Si pas de retraitement loyer via userComments, utiliser la simulation loyer
       // (scénario réaliste = 60% réduction, probabilité 50%)
       if (!loyerRetraitementAjoute && immobilier?.simulationLoyer) {
-        const simulationLoyer = immobilier.simulationLoyer;
+        const simulationLoyer = immobilier.simulationLoyer as any;
         const scenarioRealiste = simulationLoyer.scenarios?.realiste;
 
         // Si économie > 0 dans le scénario réaliste
@@ -426,7 +383,7 @@ export const calculateEbeRetraitementTool = new FunctionTool({
       // Charges non récurrentes (travaux, contentieux, amendes, pénalités)
       // → On les réintègre car elles ne se reproduiront pas
 
-      const resultatExceptionnel = extractSigValue(lastYearSig, 'resultat_exceptionnel');
+      const resultatExceptionnel = getSigValue(lastYearSig, 'resultat_exceptionnel');
 
       if (resultatExceptionnel < 0) {
         // Résultat exceptionnel négatif = charges exceptionnelles nettes
@@ -513,6 +470,18 @@ export const calculateEbeRetraitementTool = new FunctionTool({
       };
 
     } catch (error: any) {
+      if (error instanceof FinancialStateError) {
+        return {
+          ebe_comptable: 0,
+          annee_reference: 0,
+          retraitements: [],
+          total_retraitements: 0,
+          ebe_normatif: 0,
+          ecart_pct: 0,
+          synthese: 'Erreur: Données comptables invalides',
+          ...error.toToolError()
+        };
+      }
       return {
         ebe_comptable: 0,
         annee_reference: 0,
@@ -2,6 +2,7 @@ import { z } from 'zod';
 import { FunctionTool } from '@google/adk';
 import type { ToolContext } from '@google/adk';
 import { zToGen } from '../../../utils/schemaHelper';
+import { readState, FinancialStateError } from '../../state/readState';
 
 /**
  * Calculate Health Score Tool
@@ -45,29 +46,8 @@ export const calculateHealthScoreTool = new FunctionTool({
 
   execute: async (params, toolContext?: ToolContext) => {
     try {
-      // Lire comptable depuis state
-      let comptable = toolContext?.state.get('comptable') as any;
-
-      // Parser JSON string si nécessaire
-      if (typeof comptable === 'string') {
-        try {
-          comptable = JSON.parse(comptable);
-        } catch (e) {
-          return {
-            healthScore: {
-              overall: 0,
-              breakdown: {
-                rentabilite: 0,
-                liquidite: 0,
-                solvabilite: 0,
-                activite: 0
-              },
-              interpretation: 'Erreur de parsing des données'
-            },
-            error: 'Failed to parse comptable state (invalid JSON)'
-          };
-        }
-      }
+      // Lire comptable depuis state - parsé et validé
+      const comptable = readState(toolContext, 'comptable');
 
       if (!comptable?.ratios || !comptable?.evolution) {
         return {
@@ -136,6 +116,21 @@ export const calculateHealthScoreTool = new FunctionTool({
       };
 
     } catch (error: any) {
+      if (error instanceof FinancialStateError) {
+        return {
+          healthScore: {
+            overall: 0,
+            breakdown: {
+              rentabilite: 0,
+              liquidite: 0,
+              solvabilite: 0,
+              activite: 0
+            },
+            interpretation: 'Données comptables invalides'
+          },
+          ...error.toToolError()
+        };
+      }
       return {
         healthScore: {
           overall: 0,
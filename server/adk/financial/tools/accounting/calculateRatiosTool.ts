@@ -2,11 +2,14 @@ import { z } from 'zod';
 import { FunctionTool } from '@google/adk';
 import type { ToolContext } from '@google/adk';
 import { zToGen } from '../../../utils/schemaHelper';
+import { readState, FinancialStateError } from '../../state/readState';
+import { getSigValue, type DocumentExtractionOutput, type SigYear } from '../../schemas/financialStateSchema';
 
 /**
  * Calculate Ratios Tool
  *
- * Calcule les ratios financiers clés pour la dernière année disponible.
+ * Calcule les ratios financiers clés pour la dernière année disponible, ainsi que
+ * l'historique des ratios pour chaque exercice de comptable.sig (ratiosByYear).
  * Utilise les SIG calculés précédemment et les données du bilan.
  *
  * Ratios calculés:
@@ -34,31 +37,22 @@ const CalculateRatiosOutputSchema = z.object({
     taux_endettement_pct: z.number().describe('Dettes / Capitaux propres'),
     capacite_autofinancement: z.number().describe('CAF = Résultat net + Dotations')
   }),
+  ratiosByYear: z.array(z.object({
+    year: z.number(),
+    ratios: z.record(z.string(), z.number())
+  })).optional().describe('Ratios de chaque exercice disponible (ordre chronologique)'),
   error: z.string().optional()
 });
 
 export const calculateRatiosTool = new FunctionTool({
   name: 'calculateRatios',
-  description: 'Calcule les ratios financiers clés (rentabilité, activité, structure) pour une année donnée. Lit depuis state.comptable.sig et state.documentExtraction.',
+  description: 'Calcule les ratios financiers clés (rentabilité, activité, structure) pour une année donnée, et leur historique sur tous les exercices (ratiosByYear). Lit depuis state.comptable.sig et state.documentExtraction.',
   parameters: zToGen(CalculateRatiosInputSchema),
 
   execute: async (params, toolContext?: ToolContext) => {
     try {
-      // Lire comptable depuis state (contient les SIG)
-      let comptable = toolContext?.state.get('comptable') as any;
-
-      // Parser JSON string si nécessaire
-      if (typeof comptable === 'string') {
-        try {
-          comptable = JSON.parse(comptable);
-        } catch (e) {
-          return {
-            year: 0,
-            ratios: {} as any,
-            error: 'Failed to parse comptable state (invalid JSON)'
-          };
-        }
-      }
+      // Lire comptable depuis state (contient les SIG) - parsé et validé
+      const comptable = readState(toolContext, 'comptable');
 
       if (!comptable?.sig || Object.keys(comptable.sig).length === 0) {
         return {
@@ -82,67 +76,32 @@ export const calculateRatiosTool = new FunctionTool({
         };
       }
 
-      // Lire documentExtraction pour accéder aux données du bilan
-      let documentExtraction = toolContext?.state.get('documentExtraction') as any;
-
-      if (typeof documentExtraction === 'string') {
-        try {
-          documentExtraction = JSON.parse(documentExtraction);
-        } catch (e) {
-          documentExtraction = null;
-        }
+      // Lire documentExtraction pour accéder aux données du bilan (non critique)
+      let documentExtraction: DocumentExtractionOutput | undefined;
+      try {
+        documentExtraction = readState(toolContext, 'documentExtraction');
+      } catch (e: any) {
+        console.warn('[calculateRatios] ⚠️ documentExtraction ignoré:', e.message);
       }
 
       // Extraire données du bilan (stocks, créances, dettes, capitaux propres)
       const bilanData = extractBilanData(documentExtraction, targetYear);
 
-      // Calculer les ratios
-      const ca = sig.chiffre_affaires || 1; // Éviter division par 0
-      const achats = sig.achats_marchandises || 1;
-
-      const ratios = {
-        // Rentabilité
-        marge_brute_pct: Math.round((sig.marge_commerciale / ca) * 1000) / 10, // 1 décimale
-        marge_ebe_pct: Math.round((sig.ebe / ca) * 1000) / 10,
-        marge_nette_pct: Math.round((sig.resultat_net / ca) * 1000) / 10,
-        taux_va_pct: Math.round((sig.valeur_ajoutee / ca) * 1000) / 10,
-
-        // Productivité (si effectif connu)
-        productivite: bilanData.effectif > 0
-          ? Math.round(sig.valeur_ajoutee / bilanData.effectif)
-          : 0,
-
-        // Activité - Rotation et délais
-        rotation_stocks_jours: bilanData.stocks > 0
-          ? Math.round((bilanData.stocks / ca) * 365)
-          : 0,
-
-        delai_clients_jours: bilanData.creances_clients > 0
-          ? Math.round((bilanData.creances_clients / ca) * 365)
-          : 0,
-
-        delai_fournisseurs_jours: bilanData.dettes_fournisseurs > 0 && achats > 0
-          ? Math.round((bilanData.dettes_fournisseurs / achats) * 365)
-          : 0,
-
-        // BFR (Besoin en Fonds de Roulement)
-        bfr_jours_ca: Math.round((bilanData.bfr / ca) * 365),
-
-        // Structure financière
-        taux_endettement_pct: bilanData.capitaux_propres > 0
-          ? Math.round((bilanData.dettes_totales / bilanData.capitaux_propres) * 1000) / 10
-          : 0,
-
-        // Capacité d'autofinancement
-        capacite_autofinancement: Math.round(sig.resultat_net + sig.dotations_amortissements)
-      };
+      const ratios = computeRatios(sig, bilanData);
+
+      // Ratios de chaque exercice (historique pluriannuel, repris par analyzeTrends)
+      const ratiosByYear = computeRatiosHistory(comptable.sig, documentExtraction);
 
       return {
         year: targetYear,
-        ratios
+        ratios,
+        ratiosByYear
       };
 
     } catch (error: any) {
+      if (error instanceof FinancialStateError) {
+        return { year: 0, ratios: {} as any, ...error.toToolError() };
+      }
       return {
         year: 0,
         ratios: {} as any,
@@ -152,10 +111,73 @@ export const calculateRatiosTool = new FunctionTool({
   }
 });
 
+export type FinancialRatios = z.infer<typeof CalculateRatiosOutputSchema>['ratios'];
+
 /**
- * Extrait les données du bilan pour une année donnée.
+ * Calcule les ratios d'un exercice (postes SIG au format {valeur, pct_ca} ou nombre)
+ */
+export function computeRatios(sig: SigYear, bilanData: BilanData): FinancialRatios {
+  const ca = getSigValue(sig, 'chiffre_affaires') || 1; // Éviter division par 0
+  const achats = getSigValue(sig, 'achats_marchandises') || 1;
+  const valeurAjoutee = getSigValue(sig, 'valeur_ajoutee');
+  const resultatNet = getSigValue(sig, 'resultat_net');
+
+  return {
+    // Rentabilité
+    marge_brute_pct: Math.round((getSigValue(sig, 'marge_commerciale') / ca) * 1000) / 10, // 1 décimale
+    marge_ebe_pct: Math.round((getSigValue(sig, 'ebe') / ca) * 1000) / 10,
+    marge_nette_pct: Math.round((resultatNet / ca) * 1000) / 10,
+    taux_va_pct: Math.round((valeurAjoutee / ca) * 1000) / 10,
+
+    // Productivité (si effectif connu)
+    productivite: bilanData.effectif > 0
+      ? Math.round(valeurAjoutee / bilanData.effectif)
+      : 0,
+
+    // Activité - Rotation et délais
+    rotation_stocks_jours: bilanData.stocks > 0
+      ? Math.round((bilanData.stocks / ca) * 365)
+      : 0,
+
+    delai_clients_jours: bilanData.creances_clients > 0
+      ? Math.round((bilanData.creances_clients / ca) * 365)
+      : 0,
+
+    delai_fournisseurs_jours: bilanData.dettes_fournisseurs > 0 && achats > 0
+      ? Math.round((bilanData.dettes_fournisseurs / achats) * 365)
+      : 0,
+
+    // BFR (Besoin en Fonds de Roulement)
+    bfr_jours_ca: Math.round((bilanData.bfr / ca) * 365),
+
+    // Structure financière
+    taux_endettement_pct: bilanData.capitaux_propres > 0
+      ? Math.round((bilanData.dettes_totales / bilanData.capitaux_propres) * 1000) / 10
+      : 0,
+
+    // Capacité d'autofinancement
+    capacite_autofinancement: Math.round(resultatNet + getSigValue(sig, 'dotations_amortissements'))
+  };
+}
+
+/**
+ * Calcule les ratios de chaque exercice de comptable.sig (tri chronologique)
  */
-function extractBilanData(documentExtraction: any, year: number): {
+export function computeRatiosHistory(
+  sigByYear: Record<string, SigYear>,
+  documentExtraction?: DocumentExtractionOutput
+): { year: number; ratios: FinancialRatios }[] {
+  return Object.keys(sigByYear)
+    .map(y => parseInt(y))
+    .filter(year => !isNaN(year))
+    .sort((a, b) => a - b)
+    .map(year => ({
+      year,
+      ratios: computeRatios(sigByYear[year.toString()], extractBilanData(documentExtraction, year))
+    }));
+}
+
+interface BilanData {
   stocks: number;
   creances_clients: number;
   dettes_fournisseurs: number;
@@ -163,7 +185,12 @@ function extractBilanData(documentExtraction: any, year: number): {
   capitaux_propres: number;
   bfr: number;
   effectif: number;
-} {
+}
+
+/**
+ * Extrait les données du bilan pour une année donnée.
+ */
+function extractBilanData(documentExtraction: DocumentExtractionOutput | undefined, year: number): BilanData {
   const data = {
     stocks: 0,
     creances_clients: 0,
@@ -176,6 +203,25 @@ function extractBilanData(documentExtraction: any, year: number): {
 
   if (!documentExtraction?.documents) return data;
 
+  // Sections structurées (COMPTA préprocessé / FEC) : postes exacts du bilan
+  const structuredDoc = documentExtraction.documents.find(
+    (d: any) => d.year === year && d.extractedData?.bilan_actif && d.extractedData?.bilan_passif
+  );
+
+  if (structuredDoc) {
+    const actif = structuredDoc.extractedData!.bilan_actif as Record<string, any>;
+    const passif = structuredDoc.extractedData!.bilan_passif as Record<string, any>;
+
+    data.stocks = (actif.stocks_marchandises || 0) + (actif.stocks_matieres_premieres || 0)
+      + (actif.stocks_encours_biens || 0) + (actif.stocks_encours_services || 0) + (actif.stocks_produits_finis || 0);
+    data.creances_clients = actif.creances_clients || 0;
+    data.dettes_fournisseurs = passif.dettes_fournisseurs || 0;
+    data.dettes_totales = passif.total_dettes || 0;
+    data.capitaux_propres = passif.total_capitaux_propres || 0;
+    data.bfr = data.stocks + data.creances_clients - data.dettes_fournisseurs;
+    return data;
+  }
+
   // Trouver le bilan de l'année
   const bilanDoc = documentExtraction.documents.find(
     (d: any) => d.year === year && d.documentType === 'bilan'
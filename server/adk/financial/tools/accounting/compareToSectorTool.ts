@@ -3,6 +3,7 @@ import { FunctionTool } from '@google/adk';
 import type { ToolContext } from '@google/adk';
 import { zToGen } from '../../../utils/schemaHelper';
 import { findSectorBenchmark, DEFAULT_BENCHMARK } from '../../config/sectorBenchmarks';
+import { readState, FinancialStateError } from '../../state/readState';
 
 /**
  * Compare to Sector Tool
@@ -14,6 +15,11 @@ import { findSectorBenchmark, DEFAULT_BENCHMARK } from '../../config/sectorBench
  * - "superieur" : Au-dessus de la moyenne sectorielle (+10% ou plus)
  * - "conforme" : Dans la moyenne (+/- 10%)
  * - "inferieur" : En-dessous de la moyenne (-10% ou plus)
+ *
+ * Le benchmark résolu (ratios du secteur) est stocké dans state.sectorBenchmark
+ * pour les alertes déterministes à seuils sectoriels. Un code non référencé est
+ * rapproché du niveau NAF supérieur (47.76Z → 47.76 → 47.7 → 47) ; la provenance
+ * (source, année, niveau retenu) est reprise dans le rapport.
  */
 
 const CompareToSectorInputSchema = z.object({
@@ -24,6 +30,15 @@ const CompareToSectorOutputSchema = z.object({
   benchmark: z.object({
     nafCode: z.string(),
     sector: z.string(),
+    isDefault: z.boolean().optional().describe('true si le secteur n\'est pas référencé (moyenne générale)'),
+    ratios: z.record(z.string(), z.number()).optional().describe('Ratios moyens du secteur retenu'),
+    provenance: z.object({
+      codeDemande: z.string(),
+      codeRetenu: z.string(),
+      niveau: z.enum(['sous-classe', 'classe', 'groupe', 'division', 'defaut']),
+      source: z.string(),
+      annee: z.number()
+    }).optional().describe('Source, année et niveau NAF du benchmark retenu'),
     comparisons: z.array(z.object({
       ratio: z.string(),
       value: z.number(),
@@ -37,29 +52,13 @@ const CompareToSectorOutputSchema = z.object({
 
 export const compareToSectorTool = new FunctionTool({
   name: 'compareToSector',
-  description: 'Compare les ratios de l\'entreprise avec les moyennes sectorielles. Retourne { benchmark: { nafCode, sector, comparisons: [...] } }',
+  description: 'Compare les ratios de l\'entreprise avec les moyennes sectorielles. Retourne { benchmark: { nafCode, sector, isDefault, ratios, provenance, comparisons: [...] } }',
   parameters: zToGen(CompareToSectorInputSchema),
 
   execute: async (params, toolContext?: ToolContext) => {
     try {
-      // Lire comptable depuis state
-      let comptable = toolContext?.state.get('comptable') as any;
-
-      // Parser JSON string si nécessaire
-      if (typeof comptable === 'string') {
-        try {
-          comptable = JSON.parse(comptable);
-        } catch (e) {
-          return {
-            benchmark: {
-              nafCode: '',
-              sector: '',
-              comparisons: []
-            },
-            error: 'Failed to parse comptable state (invalid JSON)'
-          };
-        }
-      }
+      // Lire comptable depuis state - parsé et validé
+      const comptable = readState(toolContext, 'comptable');
 
       if (!comptable?.ratios) {
         return {
@@ -104,9 +103,14 @@ export const compareToSectorTool = new FunctionTool({
       console.log(`🔍 [compareToSector] Using sector code: ${sectorCode}`);
 
       // Trouver le benchmark sectoriel
-      const sectorBenchmark = findSectorBenchmark(sectorCode) || DEFAULT_BENCHMARK;
+      const foundBenchmark = findSectorBenchmark(sectorCode);
+      const sectorBenchmark = foundBenchmark || DEFAULT_BENCHMARK;
+      const provenance = sectorBenchmark.provenance && { ...sectorBenchmark.provenance, codeDemande: sectorCode };
 
-      const { ratios } = comptable;
+      // Ratios non calculables (null) comparés comme 0
+      const ratios: Record<string, number> = Object.fromEntries(
+        Object.entries(comptable.ratios).map(([name, value]) => [name, value ?? 0])
+      );
 
       // Comparer chaque ratio
       const comparisons = [];
@@ -203,15 +207,39 @@ export const compareToSectorTool = new FunctionTool({
         )
       );
 
+      // Benchmark résolu, repris par generateDeterministicAlerts
+      if (toolContext?.state) {
+        toolContext.state.set('sectorBenchmark', {
+          nafCode: sectorBenchmark.nafCode,
+          sector: sectorBenchmark.sector,
+          isDefault: !foundBenchmark,
+          ratios: sectorBenchmark.ratios,
+          provenance
+        });
+      }
+
       return {
         benchmark: {
           nafCode: sectorBenchmark.nafCode,
           sector: sectorBenchmark.sector,
+          isDefault: !foundBenchmark,
+          ratios: sectorBenchmark.ratios,
+          provenance,
           comparisons
         }
       };
 
     } catch (error: any) {
+      if (error instanceof FinancialStateError) {
+        return {
+          benchmark: {
+            nafCode: '',
+            sector: '',
+            comparisons: []
+          },
+          ...error.toToolError()
+        };
+      }
       return {
         benchmark: {
           nafCode: '',
@@ -0,0 +1,216 @@
+import type {
+  CompteResultatExtraction,
+  SigExtraction,
+  ValeurSig
+} from '../../schemas/extractionComptaSchema';
+import { getSigValue, type SigYear } from '../../schemas/financialStateSchema';
+
+/**
+ * SIG Engine - Calcul déterministe des Soldes Intermédiaires de Gestion
+ *
+ * Recalcule les SIG à partir des postes du compte de résultat (postesComptables.ts,
+ * clés de extractionComptaSchema.ts) et les rapproche, champ par champ, des SIG
+ * injectés par geminiVisionExtractTool : un contrôle arithmétique de l'extraction LLM.
+ *
+ * Utilisé par :
+ * - fecParser (SIG d'un FEC, postes exacts)
+ * - validateSigTool (rapprochement SIG Vision ↔ compte de résultat Vision)
+ */
+
+/** Rémunération (644) et cotisations personnelles (646) de l'exploitant, si connues */
+export interface ExploitantCharges {
+  remuneration: number;
+  cotisations: number;
+}
+
+export type SigReconciliationStatus = 'ok' | 'ecart' | 'absent';
+
+export interface SigReconciliationField {
+  field: string;
+  computed: number;
+  injected: number | null;
+  ecart: number | null;
+  status: SigReconciliationStatus;
+}
+
+export interface SigReconciliation {
+  tolerance: number;
+  fields: SigReconciliationField[];
+  discrepancies: SigReconciliationField[];
+}
+
+export interface SigReconciliationOptions {
+  /** Tolérance absolue (€) */
+  toleranceAbs?: number;
+  /** Tolérance relative au CA (%) - la plus grande des deux s'applique */
+  tolerancePct?: number;
+}
+
+/**
+ * SIG rapprochés (formules du PCG, cf. SIG dans postesComptables.ts)
+ */
+export const RECONCILED_SIG_FIELDS = [
+  'chiffre_affaires',
+  'marge_commerciale',
+  'production_exercice',
+  'valeur_ajoutee',
+  'ebe',
+  'resultat_exploitation',
+  'resultat_courant',
+  'resultat_net'
+] as const;
+
+const DEFAULT_TOLERANCE_ABS = 50;
+const DEFAULT_TOLERANCE_PCT = 0.5;
+
+/**
+ * SIG au format {valeur, pct_ca} à partir des postes du compte de résultat
+ *
+ * Postes absents = 0. Pour le financier et l'exceptionnel, le détail des postes
+ * est utilisé s'il existe, sinon les totaux (extraction Vision : totaux seulement).
+ */
+export function computeSig(
+  compteResultat: Partial<CompteResultatExtraction>,
+  exploitant: ExploitantCharges = { remuneration: 0, cotisations: 0 }
+): SigExtraction {
+  const cr = compteResultat as Record<string, number | undefined>;
+  const v = (poste: string) => (typeof cr[poste] === 'number' ? cr[poste] as number : 0);
+  const sumOr = (postes: string[], total: string) =>
+    postes.some(poste => typeof cr[poste] === 'number')
+      ? postes.reduce((sum, poste) => sum + v(poste), 0)
+      : v(total);
+
+  const ventesMarchandises = v('ventes_marchandises');
+  const productionVendue = v('production_vendue_biens') + v('production_vendue_services');
+  const ca = ventesMarchandises + productionVendue;
+
+  const sigValue = (valeur: number): ValeurSig => ({
+    valeur: round2(valeur),
+    pct_ca: ca !== 0 ? Math.round((valeur / ca) * 10000) / 100 : 0
+  });
+
+  // Marge commerciale & production
+  const coutAchatMarchandises = v('achats_marchandises') + v('variation_stock_marchandises');
+  const margeCommerciale = ventesMarchandises - coutAchatMarchandises;
+  const productionExercice = productionVendue + v('production_stockee') + v('production_immobilisee');
+  const margeBruteProduction = productionExercice - v('achats_matieres_premieres') - v('variation_stock_matieres');
+  const margeBruteGlobale = margeCommerciale + margeBruteProduction;
+
+  // Valeur ajoutée & EBE
+  const valeurAjoutee = margeBruteGlobale - v('autres_achats_charges_externes');
+  const ebe = valeurAjoutee + v('subventions_exploitation') - v('impots_taxes')
+    - v('salaires_traitements') - v('charges_sociales');
+
+  // Résultat d'exploitation
+  const reprises = v('reprises_depreciations_provisions') + v('transferts_charges');
+  const dotationsAmortissements = v('dotations_amortissements_immob') + v('dotations_amortissements_charges');
+  const dotationsProvisions = v('dotations_provisions_actif') + v('dotations_provisions_risques') + v('dotations_provisions');
+  const resultatExploitation = ebe + v('autres_produits') + reprises
+    - v('autres_charges') - dotationsAmortissements - dotationsProvisions;
+
+  // Résultat courant & net
+  const produitsFinanciers = sumOr(
+    ['produits_participations', 'produits_autres_vm', 'autres_interets_produits', 'reprises_provisions_financieres',
+      'differences_change_positives', 'produits_nets_cession_vmp'],
+    'total_produits_financiers'
+  );
+  const chargesFinancieres = sumOr(
+    ['dotations_provisions_financieres', 'interets_charges_assimilees', 'differences_change_negatives',
+      'charges_nettes_cession_vmp'],
+    'total_charges_financieres'
+  );
+  const resultatCourant = resultatExploitation + produitsFinanciers - chargesFinancieres;
+
+  const produitsExceptionnels = sumOr(
+    ['produits_except_operations_gestion', 'produits_except_operations_capital', 'reprises_provisions_except'],
+    'total_produits_exceptionnels'
+  );
+  const chargesExceptionnelles = sumOr(
+    ['charges_except_operations_gestion', 'charges_except_operations_capital', 'dotations_provisions_except'],
+    'total_charges_exceptionnelles'
+  );
+  const resultatExceptionnel = produitsExceptionnels - chargesExceptionnelles;
+  const resultatNet = resultatCourant + resultatExceptionnel - v('participation_salaries') - v('impots_sur_benefices');
+
+  return {
+    chiffre_affaires: sigValue(ca),
+    ventes_marchandises: sigValue(ventesMarchandises),
+    cout_achat_marchandises_vendues: sigValue(coutAchatMarchandises),
+    marge_commerciale: sigValue(margeCommerciale),
+    production_vendue: sigValue(productionVendue),
+    production_vendue_services: sigValue(v('production_vendue_services')),
+    production_stockee: sigValue(v('production_stockee')),
+    production_immobilisee: sigValue(v('production_immobilisee')),
+    production_exercice: sigValue(productionExercice),
+    marge_brute_production: sigValue(margeBruteProduction),
+    marge_brute_globale: sigValue(margeBruteGlobale),
+    autres_achats_charges_externes: sigValue(v('autres_achats_charges_externes')),
+    valeur_ajoutee: sigValue(valeurAjoutee),
+    subventions_exploitation: sigValue(v('subventions_exploitation')),
+    impots_taxes: sigValue(v('impots_taxes')),
+    // Rémunération et cotisations de l'exploitant (TNS) isolées des charges de personnel
+    salaires_personnel: sigValue(v('salaires_traitements') - exploitant.remuneration),
+    charges_sociales_personnel: sigValue(v('charges_sociales') - exploitant.cotisations),
+    charges_exploitant: sigValue(exploitant.remuneration + exploitant.cotisations),
+    ebe: sigValue(ebe),
+    autres_produits_gestion: sigValue(v('autres_produits')),
+    autres_charges_gestion: sigValue(v('autres_charges')),
+    reprises_amortissements_provisions: sigValue(reprises),
+    dotations_amortissements: sigValue(dotationsAmortissements),
+    dotations_provisions: sigValue(dotationsProvisions),
+    resultat_exploitation: sigValue(resultatExploitation),
+    produits_financiers: sigValue(produitsFinanciers),
+    charges_financieres: sigValue(chargesFinancieres),
+    resultat_courant: sigValue(resultatCourant),
+    produits_exceptionnels: sigValue(produitsExceptionnels),
+    charges_exceptionnelles: sigValue(chargesExceptionnelles),
+    resultat_exceptionnel: sigValue(resultatExceptionnel),
+    impots_sur_benefices: sigValue(v('impots_sur_benefices')),
+    participation_salaries: sigValue(v('participation_salaries')),
+    resultat_net: sigValue(resultatNet)
+  };
+}
+
+/**
+ * Rapproche les SIG recalculés des SIG injectés (state.comptable.sig[year])
+ *
+ * Un écart est signalé au-delà de max(toleranceAbs, tolerancePct % du CA).
+ * Un SIG absent de l'injection n'est pas un écart (status 'absent').
+ */
+export function reconcileSig(
+  computed: SigExtraction,
+  injected: SigYear | undefined,
+  { toleranceAbs = DEFAULT_TOLERANCE_ABS, tolerancePct = DEFAULT_TOLERANCE_PCT }: SigReconciliationOptions = {}
+): SigReconciliation {
+  const tolerance = Math.max(toleranceAbs, Math.abs(computed.chiffre_affaires.valeur) * tolerancePct / 100);
+  const injectedFields = (injected || {}) as Record<string, unknown>;
+
+  const fields = RECONCILED_SIG_FIELDS.map((field): SigReconciliationField => {
+    const computedValue = (computed as unknown as Record<string, ValeurSig>)[field].valeur;
+    const raw = injectedFields[field];
+
+    if (raw === undefined || raw === null) {
+      return { field, computed: computedValue, injected: null, ecart: null, status: 'absent' };
+    }
+
+    const injectedValue = getSigValue(injected, field);
+    const ecart = round2(injectedValue - computedValue);
+    return {
+      field,
+      computed: computedValue,
+      injected: injectedValue,
+      ecart,
+      status: Math.abs(ecart) > tolerance ? 'ecart' : 'ok'
+    };
+  });
+
+  return {
+    tolerance: round2(tolerance),
+    fields,
+    discrepancies: fields.filter(field => field.status === 'ecart')
+  };
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
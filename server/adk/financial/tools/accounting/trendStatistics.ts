@@ -0,0 +1,147 @@
+/**
+ * Trend Statistics - Statistiques de séries pluriannuelles
+ *
+ * Fonctions pures utilisées par analyzeTrendsTool et generateChartsTool :
+ * - Régression linéaire (moindres carrés) : pente annuelle et R²
+ * - TCAM (taux de croissance annuel moyen, CAGR)
+ * - Volatilité (coefficient de variation)
+ * - Points d'inflexion (ex: croissance puis déclin)
+ *
+ * Contrairement à la variation première/dernière année, la régression tient compte
+ * de toutes les années : un creux isolé (ex: 2020) ne fausse pas la tendance et se
+ * traduit par un R² faible et une inflexion détectée.
+ */
+
+export interface SeriesPoint {
+  year: number;
+  value: number;
+}
+
+export interface LinearTrend {
+  pente: number;      // Variation annuelle moyenne (unité de la série / an)
+  ordonnee: number;   // Valeur ajustée à l'année 0 (x = year)
+  r2: number;         // Qualité d'ajustement (0 à 1)
+}
+
+export type InflectionType = 'hausse_puis_baisse' | 'baisse_puis_hausse';
+
+export interface TrendInflection {
+  annee: number;                // Année du pic ou du creux
+  type: InflectionType;
+  variation_avant_pct: number;  // Variation de l'année précédente vers le pic/creux
+  variation_apres_pct: number;  // Variation du pic/creux vers l'année suivante
+}
+
+export interface SeriesTrend {
+  cagr_pct: number | null;              // null si non calculable (valeur initiale <= 0 ou finale < 0)
+  pente_annuelle: number;
+  r2: number;
+  evolution_tendancielle_pct: number;   // Variation entre les valeurs ajustées de la première et dernière année
+  volatilite_pct: number;               // Écart-type / |moyenne|
+  inflexions: TrendInflection[];
+}
+
+/** Variation minimale (en %) pour qu'un changement de sens soit retenu comme inflexion */
+export const INFLECTION_THRESHOLD_PCT = 3;
+
+/**
+ * Régression linéaire par moindres carrés (x = année)
+ */
+export function linearRegression(points: SeriesPoint[]): LinearTrend {
+  const n = points.length;
+  if (n === 0) return { pente: 0, ordonnee: 0, r2: 0 };
+  if (n === 1) return { pente: 0, ordonnee: points[0].value, r2: 1 };
+
+  const meanX = points.reduce((sum, p) => sum + p.year, 0) / n;
+  const meanY = points.reduce((sum, p) => sum + p.value, 0) / n;
+
+  let sxy = 0;
+  let sxx = 0;
+  let syy = 0;
+  for (const p of points) {
+    sxy += (p.year - meanX) * (p.value - meanY);
+    sxx += (p.year - meanX) ** 2;
+    syy += (p.value - meanY) ** 2;
+  }
+
+  const pente = sxx === 0 ? 0 : sxy / sxx;
+  const ordonnee = meanY - pente * meanX;
+  // Série constante : ajustement parfait
+  const r2 = syy === 0 ? 1 : (sxy * sxy) / (sxx * syy);
+
+  return { pente, ordonnee, r2 };
+}
+
+/**
+ * Taux de croissance annuel moyen (en %) entre deux valeurs séparées de `years` années
+ */
+export function calculateCagr(first: number, last: number, years: number): number | null {
+  if (years <= 0 || first <= 0 || last < 0) return null;
+  return (Math.pow(last / first, 1 / years) - 1) * 100;
+}
+
+/**
+ * Coefficient de variation (en %) : écart-type / |moyenne|
+ */
+export function coefficientOfVariation(values: number[]): number {
+  if (values.length < 2) return 0;
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  if (mean === 0) return 0;
+  const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length;
+  return (Math.sqrt(variance) / Math.abs(mean)) * 100;
+}
+
+/**
+ * Détecte les changements de sens significatifs (variations > INFLECTION_THRESHOLD_PCT)
+ */
+export function detectInflections(points: SeriesPoint[]): TrendInflection[] {
+  const inflections: TrendInflection[] = [];
+
+  for (let i = 1; i < points.length - 1; i++) {
+    const avant = variationPct(points[i - 1].value, points[i].value);
+    const apres = variationPct(points[i].value, points[i + 1].value);
+    if (Math.abs(avant) < INFLECTION_THRESHOLD_PCT || Math.abs(apres) < INFLECTION_THRESHOLD_PCT) continue;
+    if (Math.sign(avant) === Math.sign(apres)) continue;
+
+    inflections.push({
+      annee: points[i].year,
+      type: avant > 0 ? 'hausse_puis_baisse' : 'baisse_puis_hausse',
+      variation_avant_pct: round1(avant),
+      variation_apres_pct: round1(apres)
+    });
+  }
+
+  return inflections;
+}
+
+/**
+ * Analyse complète d'une série (points triés par année croissante)
+ */
+export function analyzeSeries(points: SeriesPoint[]): SeriesTrend {
+  const sorted = [...points].sort((a, b) => a.year - b.year);
+  const { pente, ordonnee, r2 } = linearRegression(sorted);
+
+  const first = sorted[0];
+  const last = sorted[sorted.length - 1];
+  const fittedFirst = first ? pente * first.year + ordonnee : 0;
+  const fittedLast = last ? pente * last.year + ordonnee : 0;
+  const cagr = first && last ? calculateCagr(first.value, last.value, last.year - first.year) : null;
+
+  return {
+    cagr_pct: cagr === null ? null : round1(cagr),
+    pente_annuelle: Math.round(pente * 100) / 100,
+    r2: Math.round(r2 * 100) / 100,
+    evolution_tendancielle_pct: round1(variationPct(fittedFirst, fittedLast)),
+    volatilite_pct: round1(coefficientOfVariation(sorted.map(p => p.value))),
+    inflexions: detectInflections(sorted)
+  };
+}
+
+function variationPct(from: number, to: number): number {
+  if (from === 0) return to > 0 ? 100 : 0;
+  return ((to - from) / Math.abs(from)) * 100;
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
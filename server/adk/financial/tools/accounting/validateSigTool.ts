@@ -2,23 +2,28 @@ import { z } from 'zod';
 import { FunctionTool } from '@google/adk';
 import type { ToolContext } from '@google/adk';
 import { zToGen } from '../../../utils/schemaHelper';
+import { readState } from '../../state/readState';
+import type { DocumentExtractionOutput } from '../../schemas/financialStateSchema';
+import type { CompteResultatExtraction } from '../../schemas/extractionComptaSchema';
+import { computeSig, reconcileSig, type SigReconciliation } from './sigEngine';
 
 /**
  * validateSigTool - Validation des SIG injectés par geminiVisionExtractTool
  *
- * IMPORTANT : Ce tool NE CALCULE PAS les SIG - il VALIDE seulement que l'injection
- * directe effectuée par geminiVisionExtractTool est complète et cohérente.
+ * IMPORTANT : Les SIG du state ne sont PAS remplacés - ce tool VALIDE l'injection
+ * directe effectuée par geminiVisionExtractTool (ou fecExtractTool).
  *
  * Contexte :
  * - Les SIG sont injectés directement dans state.comptable.sig[year] par geminiVisionExtractTool
  * - Ce tool vérifie que tous les champs requis sont présents
  * - Identifie les années incomplètes ou les incohérences
- *
- * Remplace : calculateSigTool (supprimé - ne recalcule plus les SIG)
+ * - Rapprochement arithmétique : les SIG sont recalculés (sigEngine) depuis les postes du
+ *   compte de résultat extrait et comparés champ par champ aux SIG injectés
  */
 
 const ValidateSigInputSchema = z.object({
-  strictMode: z.boolean().optional().describe('Si true, retourne isValid=false dès qu\'un champ manque. Sinon, génère seulement des warnings.')
+  strictMode: z.boolean().optional().describe('Si true, retourne isValid=false dès qu\'un champ manque ou qu\'un SIG diverge du recalcul. Sinon, génère seulement des warnings.'),
+  tolerancePct: z.number().optional().describe('Tolérance du rapprochement SIG injecté / recalculé, en % du CA (défaut: 0.5)')
 });
 
 const ValidateSigOutputSchema = z.object({
@@ -30,6 +35,15 @@ const ValidateSigOutputSchema = z.object({
     missingFields: z.array(z.string())
   })).optional().describe('Années avec SIG incomplets (champs manquants)'),
   warnings: z.array(z.string()).optional().describe('Warnings sur incohérences détectées'),
+  reconciliation: z.record(z.string(), z.object({
+    tolerance: z.number(),
+    discrepancies: z.array(z.object({
+      field: z.string(),
+      computed: z.number(),
+      injected: z.number().nullable(),
+      ecart: z.number().nullable()
+    }))
+  })).optional().describe('Rapprochement par année : SIG recalculés depuis le compte de résultat vs SIG injectés'),
   summary: z.string().describe('Résumé de la validation en français')
 });
 
@@ -40,7 +54,13 @@ export const validateSigTool = new FunctionTool({
 
   execute: async (params, toolContext?: ToolContext) => {
     const comptable = toolContext?.state.get('comptable') as any;
-    const documentExtraction = toolContext?.state.get('documentExtraction') as any;
+
+    let documentExtraction: DocumentExtractionOutput | undefined;
+    try {
+      documentExtraction = readState(toolContext, 'documentExtraction');
+    } catch (e: any) {
+      console.warn('[validateSig] ⚠️ documentExtraction ignoré (rapprochement impossible):', e.message);
+    }
 
     // Validation : state.comptable.sig existe
     if (!comptable?.sig || Object.keys(comptable.sig).length === 0) {
@@ -69,14 +89,15 @@ export const validateSigTool = new FunctionTool({
 
     const incompleteYears: Array<{ year: number; missingFields: string[] }> = [];
     const warnings: string[] = [];
+    const reconciliation: Record<string, SigReconciliation> = {};
 
     // Validation par année
     for (const year of yearsAnalyzed) {
       const sigData = comptable.sig[year.toString()];
 
-      // Vérifier la source (doit être 'gemini_vision_direct')
-      if (sigData.source !== 'gemini_vision_direct') {
-        warnings.push(`⚠️ Année ${year}: source='${sigData.source}' (attendu: 'gemini_vision_direct')`);
+      // Vérifier la source (injection directe Vision ou FEC)
+      if (sigData.source !== 'gemini_vision_direct' && sigData.source !== 'fec') {
+        warnings.push(`⚠️ Année ${year}: source='${sigData.source}' (attendu: 'gemini_vision_direct' ou 'fec')`);
       }
 
       // Vérifier la confidence
@@ -115,10 +136,23 @@ export const validateSigTool = new FunctionTool({
       if (ca === 0 && (ebe !== 0 || rn !== 0)) {
         warnings.push(`⚠️ Année ${year}: CA=0 mais EBE=${ebe} et RN=${rn} (incohérent)`);
       }
+
+      // Rapprochement : SIG recalculés depuis le compte de résultat extrait
+      const compteResultat = findCompteResultat(documentExtraction, year);
+      if (compteResultat) {
+        const result = reconcileSig(computeSig(compteResultat), sigData, { tolerancePct: params.tolerancePct });
+        reconciliation[year.toString()] = result;
+
+        for (const { field, computed, injected, ecart } of result.discrepancies) {
+          warnings.push(
+            `⚠️ Année ${year}: ${field} injecté ${injected?.toLocaleString('fr-FR')} € ≠ recalculé ${computed.toLocaleString('fr-FR')} € (écart ${ecart?.toLocaleString('fr-FR')} €)`
+          );
+        }
+      }
     }
 
     // Vérifier si des années de documents sont manquantes
-    const documentYears = documentExtraction?.summary?.yearsAvailable || [];
+    const documentYears = documentExtraction?.summary?.years_covered || [];
     const missingYears = documentYears.filter((year: number) => !yearsAnalyzed.includes(year));
 
     if (missingYears.length > 0) {
@@ -129,10 +163,11 @@ export const validateSigTool = new FunctionTool({
     const strictMode = params.strictMode || false;
     const hasIncompleteYears = incompleteYears.length > 0;
     const hasCriticalWarnings = warnings.some(w => w.includes('❌'));
+    const hasDiscrepancies = Object.values(reconciliation).some(r => r.discrepancies.length > 0);
 
     const isValid = strictMode
-      ? !hasIncompleteYears && !hasCriticalWarnings
-      : !hasCriticalWarnings; // En mode non-strict, accepter champs manquants avec warnings
+      ? !hasIncompleteYears && !hasCriticalWarnings && !hasDiscrepancies
+      : !hasCriticalWarnings; // En mode non-strict, accepter champs manquants et écarts avec warnings
 
     // Générer résumé
     let summary = '';
@@ -143,6 +178,9 @@ export const validateSigTool = new FunctionTool({
       if (hasIncompleteYears) {
         issues.push(`${incompleteYears.length} année(s) incomplète(s)`);
       }
+      if (hasDiscrepancies) {
+        issues.push('écarts SIG injectés / recalculés');
+      }
       if (warnings.length > 0) {
         issues.push(`${warnings.length} warning(s)`);
       }
@@ -188,7 +226,28 @@ export const validateSigTool = new FunctionTool({
       ...(missingYears.length > 0 && { missingYears }),
       ...(incompleteYears.length > 0 && { incompleteYears }),
       ...(warnings.length > 0 && { warnings }),
+      ...(Object.keys(reconciliation).length > 0 && {
+        reconciliation: Object.fromEntries(
+          Object.entries(reconciliation).map(([year, { tolerance, discrepancies }]) => [
+            year,
+            { tolerance, discrepancies: discrepancies.map(({ status: _status, ...field }) => field) }
+          ])
+        )
+      }),
       summary
     };
   }
 });
+
+/**
+ * Compte de résultat structuré extrait pour l'année (COMPTA préprocessé ou FEC)
+ */
+function findCompteResultat(
+  documentExtraction: DocumentExtractionOutput | undefined,
+  year: number
+): Partial<CompteResultatExtraction> | undefined {
+  const doc = documentExtraction?.documents?.find(
+    d => d.year === year && d.extractedData?.compte_resultat
+  );
+  return doc?.extractedData?.compte_resultat as Partial<CompteResultatExtraction> | undefined;
+}
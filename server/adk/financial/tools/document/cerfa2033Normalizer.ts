@@ -0,0 +1,269 @@
+import {
+  CERFA_2033,
+  type RegimeFiscal
+} from '../../schemas/postesComptables';
+import type {
+  BilanActifExtraction,
+  BilanPassifExtraction,
+  CompteResultatExtraction,
+  ValeurImmobilisation
+} from '../../schemas/extractionComptaSchema';
+
+/**
+ * Cerfa 2033 Normalizer - Liasse fiscale du régime simplifié (2033-A / 2033-B)
+ *
+ * La plupart des petits commerces déposent la liasse simplifiée : lignes codées en
+ * chiffres (010, 210...), postes agrégés, pas de SIG. Ce module ramène ces lignes
+ * dans la structure interne de extractionComptaSchema.ts (identique au réel normal),
+ * avec totaux recalculés et contrôlés contre les totaux déclarés.
+ *
+ * Utilisé par geminiVisionExtractTool lorsque Gemini retourne regime: 'simplifie'
+ * et les lignes_cerfa lues sur le document.
+ */
+
+/** Ligne lue sur le formulaire : code Cerfa + montant de l'exercice N */
+export interface Cerfa2033Ligne {
+  code: string;
+  montant: number;
+}
+
+export interface Cerfa2033EcartTotal {
+  code: string;
+  poste: string;
+  declare: number;
+  recalcule: number;
+}
+
+export interface Cerfa2033NormalizationResult {
+  bilan_actif: Partial<BilanActifExtraction>;
+  bilan_passif: Partial<BilanPassifExtraction>;
+  compte_resultat: Partial<CompteResultatExtraction>;
+  controles: {
+    lignes_mappees: number;
+    lignes_non_mappees: string[];
+    ecarts_totaux: Cerfa2033EcartTotal[];
+  };
+}
+
+const IMMOBILISATIONS_AMORTISSABLES = ['fonds_commercial', 'autres_immob_incorp', 'autres_immob_corp'];
+
+const ACTIF_CIRCULANT = [
+  'stocks_matieres_premieres', 'stocks_marchandises', 'avances_acomptes_verses', 'creances_clients',
+  'autres_creances', 'valeurs_mobilieres_placement', 'disponibilites', 'charges_constatees_avance'
+];
+
+const CAPITAUX_PROPRES = [
+  'capital', 'ecarts_reevaluation', 'reserve_legale', 'reserves_reglementees', 'autres_reserves',
+  'report_a_nouveau', 'resultat_exercice', 'provisions_reglementees'
+];
+
+const DETTES = [
+  'emprunts_etablissements_credit', 'avances_acomptes_recus', 'dettes_fournisseurs', 'autres_dettes',
+  'produits_constates_avance'
+];
+
+const PRODUITS_EXPLOITATION = [
+  'ventes_marchandises', 'production_vendue_biens', 'production_vendue_services', 'production_stockee',
+  'production_immobilisee', 'subventions_exploitation', 'autres_produits'
+];
+
+const CHARGES_EXPLOITATION = [
+  'achats_marchandises', 'variation_stock_marchandises', 'achats_matieres_premieres', 'variation_stock_matieres',
+  'autres_achats_charges_externes', 'impots_taxes', 'salaires_traitements', 'charges_sociales',
+  'dotations_amortissements_immob', 'dotations_provisions_actif', 'autres_charges'
+];
+
+/** Écart toléré entre total déclaré et total recalculé (arrondis à l'euro du formulaire) */
+const TOLERANCE_TOTAL = 1;
+
+/**
+ * Détecte le régime de la liasse depuis le texte du document (null si indéterminé)
+ */
+export function detectRegimeFiscal(text: string): RegimeFiscal | null {
+  if (!text) return null;
+
+  if (/\b2033[\s-]?[A-G](-SD)?\b/i.test(text) || /r[ée]gime\s+simplifi[ée]/i.test(text)) {
+    return 'simplifie';
+  }
+  if (/(N[°o]\s*|formulaire\s+)205[0-9]\b|\b205[0-9]-SD\b/i.test(text) || /r[ée]el\s+normal/i.test(text)) {
+    return 'reel_normal';
+  }
+  return null;
+}
+
+/**
+ * Normalise les lignes 2033-A / 2033-B dans la structure interne (bilan actif, passif, compte de résultat)
+ *
+ * Les postes absents du formulaire simplifié ne sont pas inventés ; les totaux sont
+ * recalculés et chaque total déclaré divergent est signalé dans controles.ecarts_totaux.
+ */
+export function normalizeCerfa2033(lignes: Cerfa2033Ligne[]): Cerfa2033NormalizationResult {
+  const actifBrut: Record<string, number> = {};
+  const actifAmort: Record<string, number> = {};
+  const passif: Record<string, number> = {};
+  const cr: Record<string, number> = {};
+  // Totaux déclarés, en net pour l'actif (brut - amortissements)
+  const totauxDeclares: Record<string, { code: string; section: string; poste: string; montant: number }> = {};
+  const nonMappees: string[] = [];
+  let mappees = 0;
+
+  for (const ligne of lignes) {
+    const code = String(ligne.code).trim().padStart(3, '0');
+    const montant = typeof ligne.montant === 'number' ? ligne.montant : parseFloat(String(ligne.montant));
+    const mapping = CERFA_2033[code];
+
+    if (!mapping) {
+      nonMappees.push(code);
+      continue;
+    }
+    if (isNaN(montant)) continue;
+    mappees++;
+
+    if (mapping.total) {
+      const key = `${mapping.section}.${mapping.poste}`;
+      const declare = totauxDeclares[key] || { code, section: mapping.section, poste: mapping.poste, montant: 0 };
+      declare.montant += mapping.colonne === 'amort' ? -montant : montant;
+      if (mapping.colonne !== 'amort') declare.code = code;
+      totauxDeclares[key] = declare;
+      continue;
+    }
+
+    switch (mapping.section) {
+      case 'bilan_actif':
+        if (mapping.colonne === 'amort') {
+          actifAmort[mapping.poste] = montant;
+        } else {
+          actifBrut[mapping.poste] = montant;
+        }
+        break;
+      case 'bilan_passif':
+        passif[mapping.poste] = montant;
+        break;
+      case 'compte_resultat':
+        cr[mapping.poste] = montant;
+        break;
+    }
+  }
+
+  const bilan_actif = buildBilanActif(actifBrut, actifAmort);
+  const bilan_passif = buildBilanPassif(passif);
+  const compte_resultat = buildCompteResultat(cr);
+
+  // Contrôle des totaux déclarés contre les totaux recalculés
+  const ecarts: Cerfa2033EcartTotal[] = [];
+  const sections: Record<string, Record<string, any>> = { bilan_actif, bilan_passif, compte_resultat };
+  for (const total of Object.values(totauxDeclares)) {
+    const recalcule = sections[total.section][total.poste];
+    const valeur = typeof recalcule === 'object' ? recalcule.net : recalcule;
+    if (typeof valeur !== 'number') continue;
+    if (Math.abs(valeur - total.montant) > TOLERANCE_TOTAL) {
+      ecarts.push({ code: total.code, poste: total.poste, declare: round2(total.montant), recalcule: valeur });
+    }
+  }
+
+  return {
+    bilan_actif,
+    bilan_passif,
+    compte_resultat,
+    controles: {
+      lignes_mappees: mappees,
+      lignes_non_mappees: nonMappees,
+      ecarts_totaux: ecarts
+    }
+  };
+}
+
+function buildBilanActif(brut: Record<string, number>, amort: Record<string, number>): Partial<BilanActifExtraction> {
+  const result: Record<string, any> = {};
+  const totalImmo: ValeurImmobilisation = { brut: 0, amort: 0, net: 0 };
+  let totalCirculant = 0;
+
+  for (const poste of IMMOBILISATIONS_AMORTISSABLES) {
+    if (brut[poste] === undefined && amort[poste] === undefined) continue;
+    const valeur = { brut: round2(brut[poste] || 0), amort: round2(amort[poste] || 0), net: 0 };
+    valeur.net = round2(valeur.brut - valeur.amort);
+    result[poste] = valeur;
+    totalImmo.brut += valeur.brut;
+    totalImmo.amort += valeur.amort;
+  }
+
+  // Immobilisations financières : valeur nette uniquement (comme au réel normal)
+  if (brut.autres_immob_fin !== undefined || amort.autres_immob_fin !== undefined) {
+    result.autres_immob_fin = round2((brut.autres_immob_fin || 0) - (amort.autres_immob_fin || 0));
+    totalImmo.brut += brut.autres_immob_fin || 0;
+    totalImmo.amort += amort.autres_immob_fin || 0;
+  }
+
+  result.total_actif_immobilise = {
+    brut: round2(totalImmo.brut),
+    amort: round2(totalImmo.amort),
+    net: round2(totalImmo.brut - totalImmo.amort)
+  };
+
+  for (const poste of ACTIF_CIRCULANT) {
+    if (brut[poste] === undefined && amort[poste] === undefined) continue;
+    result[poste] = round2((brut[poste] || 0) - (amort[poste] || 0));
+    totalCirculant += result[poste];
+  }
+
+  result.total_actif_circulant = round2(totalCirculant);
+  result.total_general_actif = round2(result.total_actif_immobilise.net + totalCirculant);
+
+  return result as Partial<BilanActifExtraction>;
+}
+
+function buildBilanPassif(passif: Record<string, number>): Partial<BilanPassifExtraction> {
+  const result: Record<string, number> = {};
+  const sum = (postes: string[]) => round2(postes.reduce((total, poste) => total + (result[poste] || 0), 0));
+
+  for (const poste of [...CAPITAUX_PROPRES, 'total_provisions', ...DETTES]) {
+    if (passif[poste] !== undefined) result[poste] = round2(passif[poste]);
+  }
+
+  result.total_capitaux_propres = sum(CAPITAUX_PROPRES);
+  result.total_provisions = round2(result.total_provisions || 0);
+  result.total_dettes = sum(DETTES);
+  result.total_general_passif = round2(result.total_capitaux_propres + result.total_provisions + result.total_dettes);
+
+  return result as Partial<BilanPassifExtraction>;
+}
+
+function buildCompteResultat(cr: Record<string, number>): Partial<CompteResultatExtraction> {
+  const result: Record<string, number> = {};
+  const v = (poste: string) => result[poste] || 0;
+  const sum = (postes: string[]) => round2(postes.reduce((total, poste) => total + v(poste), 0));
+
+  for (const [poste, montant] of Object.entries(cr)) {
+    result[poste] = round2(montant);
+  }
+
+  // Le 2033-B ne détaille ni le financier ni l'exceptionnel : seuls les totaux existent
+  for (const total of [
+    'total_produits_financiers', 'total_charges_financieres',
+    'total_produits_exceptionnels', 'total_charges_exceptionnelles', 'impots_sur_benefices'
+  ]) {
+    result[total] = round2(v(total));
+  }
+
+  result.chiffre_affaires_net = sum(['ventes_marchandises', 'production_vendue_biens', 'production_vendue_services']);
+  result.total_produits_exploitation = sum(PRODUITS_EXPLOITATION);
+  result.total_charges_exploitation = sum(CHARGES_EXPLOITATION);
+  result.resultat_exploitation = round2(result.total_produits_exploitation - result.total_charges_exploitation);
+  result.resultat_financier = round2(v('total_produits_financiers') - v('total_charges_financieres'));
+  result.resultat_courant_avant_impots = round2(result.resultat_exploitation + result.resultat_financier);
+  result.resultat_exceptionnel = round2(v('total_produits_exceptionnels') - v('total_charges_exceptionnelles'));
+  result.total_produits = round2(
+    result.total_produits_exploitation + v('total_produits_financiers') + v('total_produits_exceptionnels')
+  );
+  result.total_charges = round2(
+    result.total_charges_exploitation + v('total_charges_financieres') + v('total_charges_exceptionnelles')
+    + v('impots_sur_benefices')
+  );
+  result.resultat_net = round2(result.total_produits - result.total_charges);
+
+  return result as Partial<CompteResultatExtraction>;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
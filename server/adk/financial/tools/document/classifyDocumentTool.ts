@@ -3,12 +3,16 @@ import { FunctionTool } from '@google/adk';
 import type { ToolContext } from '@google/adk';
 import { zToGen } from '../../../utils/schemaHelper';
 import { GoogleGenerativeAI } from '@google/generative-ai';
+import { detectFecDocument, extractFecClosingDate } from './fecParser';
 
 /**
  * Classify Document Tool
  *
  * Utilise Gemini pour classifier un document comptable à partir du texte extrait.
- * Détecte: bilan, compte de résultat, liasse fiscale, bail, projet de vente, autre
+ * Détecte: bilan, compte de résultat, liasse fiscale, FEC, bail, projet de vente, autre
+ *
+ * Les FEC (Fichier des Écritures Comptables) sont détectés sans appel Gemini
+ * (nom de fichier légal ou en-tête de colonnes) → extraction via fecExtract.
  */
 
 const ClassifyDocumentInputSchema = z.object({
@@ -18,7 +22,7 @@ const ClassifyDocumentInputSchema = z.object({
 
 const ClassifyDocumentOutputSchema = z.object({
   filename: z.string(),
-  documentType: z.enum(['bilan', 'compte_resultat', 'liasse_fiscale', 'bail', 'projet_vente', 'autre']),
+  documentType: z.enum(['bilan', 'compte_resultat', 'liasse_fiscale', 'fec', 'bail', 'projet_vente', 'autre']),
   year: z.number().nullable(),
   confidence: z.number().min(0).max(1),
   reasoning: z.string().optional()
@@ -32,6 +36,21 @@ export const classifyDocumentTool = new FunctionTool({
   execute: async (params, toolContext?: ToolContext) => {
     const { filename, text } = params;
 
+    // FEC : détection déterministe (format légal), pas besoin de Gemini
+    if (detectFecDocument(filename, text)) {
+      const closingDate = extractFecClosingDate(filename)
+        ?? (text.match(/\b(20\d{2})(0[1-9]|1[0-2])(\d{2})\b/g) || []).sort().pop()
+        ?? null;
+
+      return {
+        filename,
+        documentType: 'fec' as const,
+        year: closingDate ? parseInt(closingDate.substring(0, 4), 10) : null,
+        confidence: 1,
+        reasoning: 'Fichier des Écritures Comptables (en-tête FEC / nom de fichier légal) → utiliser fecExtract'
+      };
+    }
+
     try {
       // Limiter le texte pour économiser tokens (prendre début + fin)
       const textSample = text.length > 5000
@@ -0,0 +1,205 @@
+import { FunctionTool } from '@google/adk';
+import type { ToolContext } from '@google/adk';
+import { z } from 'zod';
+import fs from 'fs/promises';
+import path from 'path';
+import { zToGen } from '../../../utils/schemaHelper';
+import { logDocumentExtraction } from '../../../utils/extractionLogger';
+import {
+  parseFec,
+  aggregateFecBalances,
+  buildComptaFromFec,
+  decodeFecBuffer
+} from './fecParser';
+
+/**
+ * FEC Extract Tool
+ *
+ * Extrait les données comptables d'un Fichier des Écritures Comptables (FEC)
+ * exporté par l'expert-comptable du cédant - sans appel Gemini.
+ *
+ * Produit le même format que geminiVisionExtract pour un document COMPTA
+ * (bilan_actif, bilan_passif, compte_resultat, sig + key_values) et injecte
+ * directement state.comptable.sig[year] (source: 'fec').
+ *
+ * Un FEC ne couvre qu'un exercice : fournir un fichier par année analysée.
+ */
+
+const FecExtractInputSchema = z.object({
+  filename: z.string().describe('Nom EXACT du fichier FEC (retourné par listDocuments)')
+});
+
+export const fecExtractTool = new FunctionTool({
+  name: 'fecExtract',
+  description: 'Extrait les données comptables d\'un FEC (Fichier des Écritures Comptables, .txt tabulé ou pipe). Déterministe, sans Gemini. Retourne le même format que geminiVisionExtract (documentType, year, confidence, extractedData).',
+  parameters: zToGen(FecExtractInputSchema),
+
+  execute: async (params, toolContext?: ToolContext) => {
+    const { filename } = params;
+
+    try {
+      // 1. Charger le fichier depuis state.documents
+      const documents = toolContext?.state.get('documents') as Array<{
+        filename: string;
+        filePath?: string;
+        content?: Buffer | string;
+      }> | undefined;
+
+      const doc = documents?.find(d => d.filename === filename);
+      if (!doc) {
+        throw new Error(`Document ${filename} not found in state.documents`);
+      }
+
+      let buffer: Buffer;
+      if (doc.filePath) {
+        buffer = await fs.readFile(path.resolve(doc.filePath));
+      } else if (Buffer.isBuffer(doc.content)) {
+        buffer = doc.content;
+      } else if (typeof doc.content === 'string') {
+        buffer = Buffer.from(doc.content, 'base64');
+      } else {
+        throw new Error('Document has no filePath or content');
+      }
+
+      // 2. Parser, agréger par compte, construire la liasse
+      const fec = parseFec(decodeFecBuffer(buffer), filename);
+      const balances = aggregateFecBalances(fec.entries);
+      const compta = buildComptaFromFec(balances);
+
+      const year = fec.dateCloture ? parseInt(fec.dateCloture.substring(0, 4), 10) : null;
+      const { bilan_actif, bilan_passif, compte_resultat, sig, controles } = compta;
+
+      console.log(`[fecExtract] 📒 ${filename}: ${fec.entries.length} écritures, ${balances.length} comptes, clôture ${fec.dateCloture}`);
+
+      // 3. Contrôles : équilibre débit/crédit et actif/passif
+      const ecartDebitCredit = Math.abs(controles.total_debit - controles.total_credit);
+      if (ecartDebitCredit > 1) {
+        console.warn(`[fecExtract] ⚠️ FEC déséquilibré: débit ${controles.total_debit} / crédit ${controles.total_credit}`);
+      }
+      if (Math.abs(controles.ecart_actif_passif) > 1) {
+        console.warn(`[fecExtract] ⚠️ Écart Actif/Passif: ${controles.ecart_actif_passif}€`);
+      }
+      if (controles.comptes_non_mappes.length > 0) {
+        console.warn(`[fecExtract] ⚠️ Comptes non mappés: ${controles.comptes_non_mappes.join(', ')}`);
+      }
+
+      const confidence = ecartDebitCredit <= 1 && Math.abs(controles.ecart_actif_passif) <= 1 ? 1 : 0.8;
+
+      const output = {
+        filename,
+        documentType: 'liasse_fiscale' as const,
+        year,
+        confidence,
+        extractedData: {
+          raw_text: '',
+          tables: [],
+          key_values: {
+            chiffre_affaires: compte_resultat.chiffre_affaires_net,
+            ebe: sig.ebe.valeur,
+            resultat_net: compte_resultat.resultat_net,
+            resultat_exploitation: compte_resultat.resultat_exploitation,
+            charges_personnel: sig.salaires_personnel.valeur + sig.charges_sociales_personnel.valeur,
+            dotations_amortissements: compte_resultat.dotations_amortissements_immob,
+            ventes_marchandises: compte_resultat.ventes_marchandises,
+            achats_marchandises: compte_resultat.achats_marchandises,
+            production_vendue_services: compte_resultat.production_vendue_services,
+            consommations_externes: compte_resultat.autres_achats_charges_externes,
+            capitaux_propres: bilan_passif.total_capitaux_propres,
+            dettes_totales: bilan_passif.total_dettes,
+            total_actif: bilan_actif.total_general_actif,
+            total_passif: bilan_passif.total_general_passif,
+            marge_commerciale: sig.marge_commerciale.valeur,
+            valeur_ajoutee: sig.valeur_ajoutee.valeur,
+            charges_exploitant: sig.charges_exploitant.valeur,
+            marge_brute_globale: sig.marge_brute_globale.valeur,
+            charges_externes: sig.autres_achats_charges_externes.valeur,
+            salaires_personnel: sig.salaires_personnel.valeur,
+            charges_sociales_personnel: sig.charges_sociales_personnel.valeur
+          },
+          bilan_actif,
+          bilan_passif,
+          compte_resultat,
+          sig
+        },
+        date_cloture: fec.dateCloture
+          ? `${fec.dateCloture.substring(6, 8)}/${fec.dateCloture.substring(4, 6)}/${fec.dateCloture.substring(0, 4)}`
+          : null,
+        controles,
+        warnings: fec.warnings.slice(0, 20),
+        method: 'fec' as const
+      };
+
+      const siret = (toolContext?.state.get('businessInfo') as any)?.siret || 'unknown';
+      logDocumentExtraction(filename, siret, year, output.documentType, {
+        bilan_actif,
+        bilan_passif,
+        compte_resultat,
+        sig,
+        key_values: output.extractedData.key_values
+      }, confidence);
+
+      // 4. INJECTION DIRECTE dans state.comptable.sig[year] (même format que geminiVisionExtract)
+      if (toolContext?.state && year) {
+        const sigYear = {
+          year,
+          source: 'fec',
+          confidence,
+          chiffre_affaires: sig.chiffre_affaires,
+          ventes_marchandises: sig.ventes_marchandises,
+          production_vendue_services: sig.production_vendue_services,
+          achats_marchandises: {
+            valeur: compte_resultat.achats_marchandises,
+            pct_ca: sig.cout_achat_marchandises_vendues.pct_ca
+          },
+          marge_commerciale: sig.marge_commerciale,
+          marge_brute_globale: sig.marge_brute_globale,
+          autres_achats_charges_externes: sig.autres_achats_charges_externes,
+          charges_exploitant: sig.charges_exploitant,
+          salaires_personnel: sig.salaires_personnel,
+          charges_sociales_personnel: sig.charges_sociales_personnel,
+          valeur_ajoutee: sig.valeur_ajoutee,
+          impots_taxes: sig.impots_taxes,
+          ebe: sig.ebe,
+          dotations_amortissements: sig.dotations_amortissements,
+          resultat_exploitation: sig.resultat_exploitation,
+          resultat_courant: sig.resultat_courant,
+          resultat_exceptionnel: sig.resultat_exceptionnel,
+          resultat_net: sig.resultat_net
+        };
+
+        const currentComptable = (toolContext.state.get('comptable') as any) || {};
+        const currentYears: number[] = currentComptable.yearsAnalyzed || [];
+
+        toolContext.state.set('comptable', {
+          ...currentComptable,
+          sig: {
+            ...(currentComptable.sig || {}),
+            [year.toString()]: sigYear
+          },
+          yearsAnalyzed: [...new Set([...currentYears, year])].sort((a: number, b: number) => b - a)
+        });
+
+        console.log(`✅ [fecExtract] Injection directe SIG pour ${year}: CA ${sig.chiffre_affaires.valeur.toLocaleString('fr-FR')} €, EBE ${sig.ebe.valeur.toLocaleString('fr-FR')} €, RN ${sig.resultat_net.valeur.toLocaleString('fr-FR')} €`);
+      }
+
+      return output;
+
+    } catch (error: any) {
+      console.error(`❌ [fecExtract] Failed for ${filename}:`, error.message);
+
+      return {
+        filename,
+        documentType: 'autre' as const,
+        year: null,
+        confidence: 0,
+        extractedData: {
+          raw_text: '',
+          tables: [],
+          key_values: {}
+        },
+        error: error.message,
+        method: 'fec_failed' as const
+      };
+    }
+  }
+});
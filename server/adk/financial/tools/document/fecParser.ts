@@ -0,0 +1,466 @@
+import {
+  findPcgAccountMapping,
+  PCG_COMPTES_EXPLOITANT
+} from '../../schemas/postesComptables';
+import type {
+  BilanActifExtraction,
+  BilanPassifExtraction,
+  CompteResultatExtraction,
+  SigExtraction,
+  ValeurImmobilisation
+} from '../../schemas/extractionComptaSchema';
+import { computeSig } from '../accounting/sigEngine';
+
+/**
+ * FEC Parser - Fichier des Écritures Comptables (art. A47 A-1 du LPF)
+ *
+ * Fonctions pures utilisées par fecExtractTool :
+ * 1. parseFec()           : lignes d'écritures (séparateur tabulation ou pipe, 18 colonnes légales)
+ * 2. aggregateFecBalances : solde (débit - crédit) par compte PCG
+ * 3. buildComptaFromFec() : bilan actif / passif, compte de résultat et SIG (sigEngine)
+ *    au format de extractionComptaSchema.ts (identique à l'extraction Vision COMPTA)
+ *
+ * Les montants sont exacts (pas d'OCR) : le FEC est la source la plus fiable
+ * lorsque l'expert-comptable du cédant peut le fournir.
+ */
+
+export interface FecEntry {
+  journalCode: string;
+  ecritureNum: string;
+  ecritureDate: string; // AAAAMMJJ
+  compteNum: string;
+  compteLib: string;
+  debit: number;
+  credit: number;
+}
+
+export interface FecParseResult {
+  entries: FecEntry[];
+  separator: '\t' | '|';
+  /** Date de clôture AAAAMMJJ (nom de fichier légal, sinon dernière date d'écriture) */
+  dateCloture: string | null;
+  /** Première date d'écriture AAAAMMJJ */
+  dateDebut: string | null;
+  warnings: string[];
+}
+
+export interface FecBalance {
+  compteNum: string;
+  compteLib: string;
+  debit: number;
+  credit: number;
+  solde: number; // débit - crédit
+}
+
+export interface FecComptaResult {
+  bilan_actif: BilanActifExtraction;
+  bilan_passif: BilanPassifExtraction;
+  compte_resultat: CompteResultatExtraction;
+  sig: SigExtraction;
+  controles: {
+    total_debit: number;
+    total_credit: number;
+    ecart_actif_passif: number;
+    comptes_non_mappes: string[];
+  };
+}
+
+const FEC_REQUIRED_COLUMNS = ['journalcode', 'ecrituredate', 'comptenum'];
+
+/** Nom de fichier légal : <SIREN>FEC<AAAAMMJJ>.txt */
+const FEC_FILENAME_PATTERN = /^(\d{9})FEC(\d{8})\.(txt|csv)$/i;
+
+const IMMOBILISATIONS_AMORTISSABLES = [
+  'frais_etablissement', 'frais_developpement', 'concessions_brevets', 'fonds_commercial',
+  'autres_immob_incorp', 'terrains', 'constructions', 'installations_techniques',
+  'autres_immob_corp', 'immob_en_cours'
+];
+
+const IMMOBILISATIONS_FINANCIERES = ['participations', 'autres_immob_fin'];
+
+const STOCKS = [
+  'stocks_matieres_premieres', 'stocks_encours_biens', 'stocks_encours_services',
+  'stocks_produits_finis', 'stocks_marchandises'
+];
+
+// ============================================================================
+// DÉTECTION
+// ============================================================================
+
+/**
+ * Détecte un FEC par son nom de fichier légal ou par l'en-tête de colonnes
+ */
+export function detectFecDocument(filename: string, text?: string): boolean {
+  if (FEC_FILENAME_PATTERN.test(filename)) {
+    return true;
+  }
+  if (!text) {
+    return false;
+  }
+
+  const header = stripBom(text).split(/\r?\n/, 1)[0].toLowerCase();
+  return FEC_REQUIRED_COLUMNS.every(column => header.includes(column))
+    && (header.includes('\t') || header.includes('|'));
+}
+
+/**
+ * Date de clôture AAAAMMJJ depuis le nom de fichier légal (null sinon)
+ */
+export function extractFecClosingDate(filename: string): string | null {
+  return filename.match(FEC_FILENAME_PATTERN)?.[2] ?? null;
+}
+
+/**
+ * Décode un FEC : UTF-8 si valide, sinon ISO-8859-15 (encodage toléré par l'administration)
+ */
+export function decodeFecBuffer(buffer: Buffer): string {
+  const utf8 = buffer.toString('utf8');
+  return utf8.includes('�') ? buffer.toString('latin1') : utf8;
+}
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+export function parseFec(content: string, filename = ''): FecParseResult {
+  const lines = stripBom(content).split(/\r?\n/).filter(line => line.trim().length > 0);
+  if (lines.length === 0) {
+    throw new Error('FEC vide');
+  }
+
+  const separator: '\t' | '|' = lines[0].includes('\t') ? '\t' : '|';
+  const header = lines[0].split(separator).map(column => column.trim().toLowerCase());
+  const col = (name: string) => header.indexOf(name);
+
+  const missing = FEC_REQUIRED_COLUMNS.filter(name => col(name) === -1);
+  const hasDebitCredit = col('debit') !== -1 && col('credit') !== -1;
+  const hasMontantSens = col('montant') !== -1 && col('sens') !== -1;
+  if (missing.length > 0 || (!hasDebitCredit && !hasMontantSens)) {
+    throw new Error(`En-tête FEC invalide (colonnes manquantes: ${[...missing, ...(hasDebitCredit || hasMontantSens ? [] : ['Debit/Credit'])].join(', ')})`);
+  }
+
+  const entries: FecEntry[] = [];
+  const warnings: string[] = [];
+
+  for (let i = 1; i < lines.length; i++) {
+    const fields = lines[i].split(separator);
+    const compteNum = (fields[col('comptenum')] || '').trim();
+    const ecritureDate = (fields[col('ecrituredate')] || '').trim();
+
+    if (!/^\d/.test(compteNum) || !/^\d{8}$/.test(ecritureDate)) {
+      warnings.push(`Ligne ${i + 1} ignorée (CompteNum ou EcritureDate invalide)`);
+      continue;
+    }
+
+    let debit: number;
+    let credit: number;
+    if (hasDebitCredit) {
+      debit = parseFecAmount(fields[col('debit')]);
+      credit = parseFecAmount(fields[col('credit')]);
+    } else {
+      const montant = parseFecAmount(fields[col('montant')]);
+      const sens = (fields[col('sens')] || '').trim().toUpperCase();
+      const isDebit = sens === 'D' || sens === '+1' || sens === '1';
+      debit = isDebit ? montant : 0;
+      credit = isDebit ? 0 : montant;
+    }
+
+    entries.push({
+      journalCode: (fields[col('journalcode')] || '').trim(),
+      ecritureNum: (fields[col('ecriturenum')] || '').trim(),
+      ecritureDate,
+      compteNum,
+      compteLib: (fields[col('comptelib')] || '').trim(),
+      debit,
+      credit
+    });
+  }
+
+  if (entries.length === 0) {
+    throw new Error('Aucune écriture exploitable dans le FEC');
+  }
+
+  const dates = entries.map(entry => entry.ecritureDate).sort();
+
+  return {
+    entries,
+    separator,
+    dateCloture: extractFecClosingDate(filename) ?? dates[dates.length - 1],
+    dateDebut: dates[0],
+    warnings
+  };
+}
+
+/**
+ * Montant FEC : virgule décimale, espaces de milliers tolérés, vide = 0
+ */
+export function parseFecAmount(raw: string | undefined): number {
+  if (!raw) return 0;
+  const cleaned = raw.trim().replace(/[\s ]/g, '').replace(',', '.');
+  const value = parseFloat(cleaned);
+  return isNaN(value) ? 0 : value;
+}
+
+// ============================================================================
+// AGRÉGATION
+// ============================================================================
+
+export function aggregateFecBalances(entries: FecEntry[]): FecBalance[] {
+  const balances = new Map<string, FecBalance>();
+
+  for (const entry of entries) {
+    const balance = balances.get(entry.compteNum) || {
+      compteNum: entry.compteNum,
+      compteLib: entry.compteLib,
+      debit: 0,
+      credit: 0,
+      solde: 0
+    };
+    balance.debit += entry.debit;
+    balance.credit += entry.credit;
+    balances.set(entry.compteNum, balance);
+  }
+
+  return [...balances.values()]
+    .map(balance => ({
+      ...balance,
+      debit: round2(balance.debit),
+      credit: round2(balance.credit),
+      solde: round2(balance.debit - balance.credit)
+    }))
+    .sort((a, b) => a.compteNum.localeCompare(b.compteNum));
+}
+
+// ============================================================================
+// CONSTRUCTION LIASSE + SIG
+// ============================================================================
+
+export function buildComptaFromFec(balances: FecBalance[]): FecComptaResult {
+  const actif: Record<string, number> = {};
+  const actifCorrections: Record<string, number> = {};
+  const passif: Record<string, number> = {};
+  const cr: Record<string, number> = {};
+  const nonMappes: string[] = [];
+  // Comptes 644 (rémunération) / 646 (cotisations personnelles) de l'exploitant
+  const exploitant = { remuneration: 0, cotisations: 0 };
+  let soldeResultatComptabilise = 0;
+
+  const add = (target: Record<string, number>, poste: string, value: number) => {
+    target[poste] = (target[poste] || 0) + value;
+  };
+
+  for (const { compteNum, solde } of balances) {
+    const mapping = findPcgAccountMapping(compteNum);
+    if (!mapping) {
+      if (solde !== 0) nonMappes.push(compteNum);
+      continue;
+    }
+
+    switch (mapping.section) {
+      case 'compte_resultat':
+        // Classe 6 : solde débiteur, classe 7 : solde créditeur
+        add(cr, mapping.poste, compteNum.startsWith('7') ? -solde : solde);
+        if (compteNum.startsWith(PCG_COMPTES_EXPLOITANT.remuneration)) {
+          exploitant.remuneration += solde;
+        } else if (compteNum.startsWith(PCG_COMPTES_EXPLOITANT.cotisations)) {
+          exploitant.cotisations += solde;
+        }
+        break;
+      case 'bilan_actif':
+        if (mapping.correction) {
+          add(actifCorrections, mapping.poste, -solde);
+        } else {
+          add(actif, mapping.poste, solde);
+        }
+        break;
+      case 'bilan_passif':
+        if (mapping.poste === 'resultat_exercice') {
+          soldeResultatComptabilise += -solde;
+        } else {
+          add(passif, mapping.poste, -solde);
+        }
+        break;
+      case 'tiers':
+        // Chaque compte de tiers est classé selon le sens de son solde
+        if (solde >= 0) {
+          add(actif, mapping.poste, solde);
+        } else {
+          add(passif, mapping.postePassif || 'autres_dettes', -solde);
+        }
+        break;
+    }
+  }
+
+  const compte_resultat = buildCompteResultat(cr);
+
+  // Résultat de l'exercice : si les comptes de gestion ne sont pas soldés (cas usuel du FEC),
+  // le solde du compte 12 est le résultat N-1 non encore affecté → report à nouveau
+  if (compte_resultat.total_produits !== 0 || compte_resultat.total_charges !== 0) {
+    passif.resultat_exercice = compte_resultat.resultat_net;
+    add(passif, 'report_a_nouveau', soldeResultatComptabilise);
+  } else {
+    passif.resultat_exercice = soldeResultatComptabilise;
+  }
+
+  const bilan_actif = buildBilanActif(actif, actifCorrections);
+  const bilan_passif = buildBilanPassif(passif);
+  const sig = computeSig(compte_resultat, exploitant);
+
+  return {
+    bilan_actif,
+    bilan_passif,
+    compte_resultat,
+    sig,
+    controles: {
+      total_debit: round2(balances.reduce((sum, b) => sum + b.debit, 0)),
+      total_credit: round2(balances.reduce((sum, b) => sum + b.credit, 0)),
+      ecart_actif_passif: round2(bilan_actif.total_general_actif - bilan_passif.total_general_passif),
+      comptes_non_mappes: nonMappes
+    }
+  };
+}
+
+function buildBilanActif(actif: Record<string, number>, corrections: Record<string, number>): BilanActifExtraction {
+  const result: Record<string, any> = {};
+  const totalImmo: ValeurImmobilisation = { brut: 0, amort: 0, net: 0 };
+  const net = (poste: string) => round2((actif[poste] || 0) - (corrections[poste] || 0));
+
+  for (const poste of IMMOBILISATIONS_AMORTISSABLES) {
+    const brut = round2(actif[poste] || 0);
+    const amort = round2(corrections[poste] || 0);
+    if (brut === 0 && amort === 0) continue;
+    result[poste] = { brut, amort, net: round2(brut - amort) };
+    totalImmo.brut += brut;
+    totalImmo.amort += amort;
+  }
+
+  for (const poste of IMMOBILISATIONS_FINANCIERES) {
+    const value = net(poste);
+    if (value === 0) continue;
+    result[poste] = value;
+    totalImmo.brut += actif[poste] || 0;
+    totalImmo.amort += corrections[poste] || 0;
+  }
+
+  result.total_actif_immobilise = {
+    brut: round2(totalImmo.brut),
+    amort: round2(totalImmo.amort),
+    net: round2(totalImmo.brut - totalImmo.amort)
+  };
+
+  const circulant = [
+    ...STOCKS,
+    'avances_acomptes_verses', 'creances_clients', 'autres_creances',
+    'valeurs_mobilieres_placement', 'disponibilites', 'charges_constatees_avance'
+  ];
+  let totalCirculant = 0;
+  for (const poste of circulant) {
+    result[poste] = net(poste);
+    totalCirculant += result[poste];
+  }
+
+  result.total_actif_circulant = round2(totalCirculant);
+  result.total_general_actif = round2(result.total_actif_immobilise.net + totalCirculant);
+
+  return result as BilanActifExtraction;
+}
+
+function buildBilanPassif(passif: Record<string, number>): BilanPassifExtraction {
+  const value = (poste: string) => round2(passif[poste] || 0);
+  const sum = (postes: string[]) => round2(postes.reduce((total, poste) => total + value(poste), 0));
+
+  const capitaux = [
+    'capital', 'primes_emission', 'ecarts_reevaluation', 'reserve_legale', 'reserves_statutaires',
+    'reserves_reglementees', 'autres_reserves', 'report_a_nouveau', 'resultat_exercice',
+    'subventions_investissement', 'provisions_reglementees'
+  ];
+  const provisions = ['provisions_risques', 'provisions_charges'];
+  const dettes = [
+    'emprunts_obligataires_convertibles', 'autres_emprunts_obligataires', 'emprunts_etablissements_credit',
+    'concours_bancaires_courants', 'emprunts_dettes_financieres_diverses', 'avances_acomptes_recus',
+    'dettes_fournisseurs', 'dettes_fiscales_sociales', 'dettes_immobilisations', 'autres_dettes',
+    'produits_constates_avance'
+  ];
+
+  const result: Record<string, number> = {};
+  for (const poste of [...capitaux, ...provisions, ...dettes]) {
+    result[poste] = value(poste);
+  }
+
+  result.total_capitaux_propres = sum(capitaux);
+  result.total_provisions = sum(provisions);
+  result.total_dettes = sum(dettes);
+  result.total_general_passif = round2(result.total_capitaux_propres + result.total_provisions + result.total_dettes);
+
+  return result as unknown as BilanPassifExtraction;
+}
+
+function buildCompteResultat(cr: Record<string, number>): CompteResultatExtraction {
+  const v = (poste: string) => round2(cr[poste] || 0);
+  const sum = (postes: string[]) => round2(postes.reduce((total, poste) => total + v(poste), 0));
+
+  const produitsExploitation = [
+    'ventes_marchandises', 'production_vendue_biens', 'production_vendue_services', 'production_stockee',
+    'production_immobilisee', 'subventions_exploitation', 'reprises_depreciations_provisions',
+    'transferts_charges', 'autres_produits'
+  ];
+  const chargesExploitation = [
+    'achats_marchandises', 'variation_stock_marchandises', 'achats_matieres_premieres', 'variation_stock_matieres',
+    'autres_achats_charges_externes', 'impots_taxes', 'salaires_traitements', 'charges_sociales',
+    'dotations_amortissements_immob', 'dotations_amortissements_charges', 'dotations_provisions_actif',
+    'dotations_provisions_risques', 'autres_charges'
+  ];
+  const produitsFinanciers = [
+    'produits_participations', 'autres_interets_produits', 'reprises_provisions_financieres',
+    'differences_change_positives', 'produits_nets_cession_vmp'
+  ];
+  const chargesFinancieres = [
+    'dotations_provisions_financieres', 'interets_charges_assimilees',
+    'differences_change_negatives', 'charges_nettes_cession_vmp'
+  ];
+  const produitsExceptionnels = [
+    'produits_except_operations_gestion', 'produits_except_operations_capital', 'reprises_provisions_except'
+  ];
+  const chargesExceptionnelles = [
+    'charges_except_operations_gestion', 'charges_except_operations_capital', 'dotations_provisions_except'
+  ];
+
+  const result: Record<string, number> = {};
+  for (const poste of [
+    ...produitsExploitation, ...chargesExploitation, ...produitsFinanciers,
+    ...chargesFinancieres, ...produitsExceptionnels, ...chargesExceptionnelles,
+    'participation_salaries', 'impots_sur_benefices'
+  ]) {
+    result[poste] = v(poste);
+  }
+
+  result.chiffre_affaires_net = sum(['ventes_marchandises', 'production_vendue_biens', 'production_vendue_services']);
+  result.total_produits_exploitation = sum(produitsExploitation);
+  result.total_charges_exploitation = sum(chargesExploitation);
+  result.resultat_exploitation = round2(result.total_produits_exploitation - result.total_charges_exploitation);
+  result.total_produits_financiers = sum(produitsFinanciers);
+  result.total_charges_financieres = sum(chargesFinancieres);
+  result.resultat_financier = round2(result.total_produits_financiers - result.total_charges_financieres);
+  result.resultat_courant_avant_impots = round2(result.resultat_exploitation + result.resultat_financier);
+  result.total_produits_exceptionnels = sum(produitsExceptionnels);
+  result.total_charges_exceptionnelles = sum(chargesExceptionnelles);
+  result.resultat_exceptionnel = round2(result.total_produits_exceptionnels - result.total_charges_exceptionnelles);
+  result.total_produits = round2(
+    result.total_produits_exploitation + result.total_produits_financiers + result.total_produits_exceptionnels
+  );
+  result.total_charges = round2(
+    result.total_charges_exploitation + result.total_charges_financieres + result.total_charges_exceptionnelles
+    + result.participation_salaries + result.impots_sur_benefices
+  );
+  result.resultat_net = round2(result.total_produits - result.total_charges);
+
+  return result as unknown as CompteResultatExtraction;
+}
+
+function stripBom(text: string): string {
+  return text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -16,6 +16,8 @@ import {
   type ExtractionComptaComplete
 } from '../../schemas/extractionComptaSchema';
 import { logDocumentExtraction } from '../../../utils/extractionLogger';
+import { detectRegimeFiscal, normalizeCerfa2033 } from './cerfa2033Normalizer';
+import { computeSig } from '../accounting/sigEngine';
 
 /**
  * Helper: Extrait la valeur numérique d'un champ SIG
@@ -435,6 +437,27 @@ EXEMPLE D'EXTRACTION SIG ATTENDUE:
   "resultat_net": { "valeur": 45403, "pct_ca": 18.87 }
 }
 
+═══════════════════════════════════════════════════════════════════════════════
+RÉGIME DE LA LIASSE (réel normal / simplifié)
+═══════════════════════════════════════════════════════════════════════════════
+
+Indiquer "regime" à la racine du JSON:
+- "reel_normal": formulaires 2050 à 2059, lignes codées en LETTRES (AA, FA, DL...)
+- "simplifie": formulaires 2033-A (bilan simplifié) et 2033-B (compte de résultat simplifié),
+  lignes codées en CHIFFRES (010, 060, 120, 210, 310...)
+
+⚠️ SI regime = "simplifie":
+- Remplir "lignes_cerfa": TOUTES les lignes codées du 2033-A et du 2033-B, exercice N uniquement
+  Format: [{ "code": "210", "montant": 120455 }, { "code": "218", "montant": 120142 }, ...]
+  * 2033-A ACTIF: le code de la colonne Brut (010, 028, 060, 068, 084...) ET le code de la
+    colonne Amortissements/Provisions (012, 030, 062...) - la colonne Net n'a pas de code
+  * 2033-A PASSIF et 2033-B: un montant par code (120, 136, 156, 166, 210, 234, 242, 250, 310...)
+  * Charges et variations négatives: conserver le signe du formulaire
+- Remplir quand même les sections 1 à 3 avec les postes disponibles (les postes absents du
+  formulaire simplifié restent à 0)
+- Le 2033 ne contient PAS de SIG: si aucune page SIG n'est présente, retourner "sig": {}
+  (les SIG seront recalculés depuis le compte de résultat - NE PAS les inventer)
+
 ═══════════════════════════════════════════════════════════════════════════════
 VALIDATION
 ═══════════════════════════════════════════════════════════════════════════════
@@ -724,7 +747,37 @@ export const geminiVisionExtractTool = new FunctionTool({
       }
 
       // 8. Retourner format selon le type de document
+      const regime = parsed.regime === 'simplifie' || parsed.regime === 'reel_normal'
+        ? parsed.regime
+        : detectRegimeFiscal(rawText);
+
       if (isComptaDoc) {
+        // Liasse simplifiée (2033-A/B) : lignes codées ramenées dans la structure du réel normal
+        let controlesCerfa: ReturnType<typeof normalizeCerfa2033>['controles'] | undefined;
+        if (regime === 'simplifie' && Array.isArray(parsed.lignes_cerfa) && parsed.lignes_cerfa.length > 0) {
+          const normalized = normalizeCerfa2033(parsed.lignes_cerfa);
+          parsed.bilan_actif = { ...(parsed.bilan_actif || {}), ...normalized.bilan_actif };
+          parsed.bilan_passif = { ...(parsed.bilan_passif || {}), ...normalized.bilan_passif };
+          parsed.compte_resultat = { ...(parsed.compte_resultat || {}), ...normalized.compte_resultat };
+          controlesCerfa = normalized.controles;
+
+          console.log(`[geminiVisionExtract] 📋 Liasse simplifiée 2033: ${normalized.controles.lignes_mappees} lignes normalisées`);
+          if (normalized.controles.lignes_non_mappees.length > 0) {
+            console.warn(`[geminiVisionExtract] ⚠️ Lignes 2033 non mappées: ${normalized.controles.lignes_non_mappees.join(', ')}`);
+          }
+          for (const ecart of normalized.controles.ecarts_totaux) {
+            console.warn(`[geminiVisionExtract] ⚠️ Total 2033 ligne ${ecart.code} (${ecart.poste}): déclaré ${ecart.declare}€, recalculé ${ecart.recalcule}€`);
+          }
+        }
+
+        // Liasse sans page SIG (cas général du 2033) : SIG recalculés depuis le compte de résultat
+        const sigAbsent = !parsed.sig
+          || (extractSigNumericValue(parsed.sig.chiffre_affaires) === 0 && extractSigNumericValue(parsed.sig.ebe) === 0);
+        if (sigAbsent && parsed.compte_resultat && parsed.compte_resultat.chiffre_affaires_net) {
+          parsed.sig = computeSig(parsed.compte_resultat);
+          console.log(`[geminiVisionExtract] 🧮 SIG absents du document - recalculés depuis le compte de résultat`);
+        }
+
         // Extraction déterministe de l'année depuis le nom de fichier (COMPTA2023.pdf → 2023)
         let yearFromFilename: number | null = null;
         const filenameMatch = filename.match(/COMPTA(\d{4})\.pdf/i);
@@ -796,6 +849,8 @@ export const geminiVisionExtractTool = new FunctionTool({
           adresse: parsed.adresse,
           date_cloture: parsed.date_cloture,
           duree_exercice_mois: parsed.duree_exercice_mois || 12,
+          regime,
+          ...(controlesCerfa && { controles_cerfa: controlesCerfa }),
           reasoning: parsed.reasoning,
           method: 'vision_compta' as const
         };
@@ -905,6 +960,12 @@ export const geminiVisionExtractTool = new FunctionTool({
           // Lire état actuel et ajouter cette année
           const currentComptable = (toolContext.state.get('comptable') as any) || {};
           const currentSig = currentComptable.sig || {};
+
+          // Un SIG issu du FEC (écritures exactes) fait foi sur l'extraction Vision
+          if (currentSig[year]?.source === 'fec') {
+            console.log(`[geminiVisionExtract] ⏭️ SIG ${year} déjà extrait du FEC - injection Vision ignorée`);
+            return comptaOutput;
+          }
           const currentYears: number[] = currentComptable.yearsAnalyzed || [];
 
           // Mettre à jour le state
@@ -944,6 +1005,7 @@ export const geminiVisionExtractTool = new FunctionTool({
           tables: parsed.tables || [],
           key_values: parsed.accounting_values || {}
         },
+        regime,
         reasoning: parsed.reasoning,
         method: 'vision' as const
       };
@@ -7,3 +7,4 @@ export { classifyDocumentTool } from './classifyDocumentTool';
 export { parseTablesHeuristicTool } from './parseTablesHeuristicTool'; // Renamed - fallback only
 export { geminiVisionExtractTool } from './geminiVisionExtractTool';   // NEW - primary extraction method
 export { listDocumentsTool } from './listDocumentsTool';  // NEW - mandatory document listing
+export { fecExtractTool } from './fecExtractTool';        // FEC (écritures comptables) - déterministe
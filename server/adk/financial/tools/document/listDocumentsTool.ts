@@ -2,6 +2,7 @@ import { FunctionTool } from '@google/adk';
 import type { ToolContext } from '@google/adk';
 import { z } from 'zod';
 import { zToGen } from '../../../utils/schemaHelper';
+import { detectFecDocument } from './fecParser';
 
 /**
  * List Documents Tool
@@ -11,7 +12,8 @@ import { zToGen } from '../../../utils/schemaHelper';
  * Ce tool est CRITIQUE pour éviter que l'agent invente des noms de fichiers.
  * L'agent DOIT appeler ce tool EN PREMIER pour obtenir la liste exacte des documents disponibles.
  *
- * Retourne uniquement les métadonnées (filename, hasContent, hasFilePath), pas le contenu complet.
+ * Retourne uniquement les métadonnées (filename, hasContent, hasFilePath, isFec), pas le contenu complet.
+ * isFec = fichier des écritures comptables → à extraire avec fecExtract (pas Gemini Vision).
  */
 
 const ListDocumentsInputSchema = z.object({});
@@ -20,7 +22,8 @@ const ListDocumentsOutputSchema = z.object({
   documents: z.array(z.object({
     filename: z.string(),
     hasContent: z.boolean(),
-    hasFilePath: z.boolean()
+    hasFilePath: z.boolean(),
+    isFec: z.boolean()
   })),
   count: z.number(),
   error: z.string().optional()
@@ -28,7 +31,7 @@ const ListDocumentsOutputSchema = z.object({
 
 export const listDocumentsTool = new FunctionTool({
   name: 'listDocuments',
-  description: 'Liste TOUS les documents disponibles dans state.documents avec leurs filenames EXACTS. DOIT être appelé en premier pour connaître les documents disponibles. Retourne: { documents: [{ filename, hasContent, hasFilePath }], count }',
+  description: 'Liste TOUS les documents disponibles dans state.documents avec leurs filenames EXACTS. DOIT être appelé en premier pour connaître les documents disponibles. Retourne: { documents: [{ filename, hasContent, hasFilePath, isFec }], count }',
   parameters: zToGen(ListDocumentsInputSchema),
 
   execute: async (params, toolContext?: ToolContext) => {
@@ -52,7 +55,8 @@ export const listDocumentsTool = new FunctionTool({
       const documentList = documents.map(doc => ({
         filename: doc.filename,  // EXACT filename - ne PAS modifier
         hasContent: !!doc.content,
-        hasFilePath: !!doc.filePath
+        hasFilePath: !!doc.filePath,
+        isFec: detectFecDocument(doc.filename, fecHeaderSample(doc.content))
       }));
 
       console.log(`\n📋 [listDocuments] Found ${documentList.length} document(s):`);
@@ -60,6 +64,7 @@ export const listDocumentsTool = new FunctionTool({
         console.log(`  ${index + 1}. "${d.filename}"`);
         console.log(`     - hasContent: ${d.hasContent}`);
         console.log(`     - hasFilePath: ${d.hasFilePath}`);
+        if (d.isFec) console.log('     - isFec: true');
       });
       console.log('');
 
@@ -78,3 +83,12 @@ export const listDocumentsTool = new FunctionTool({
     }
   }
 });
+
+/**
+ * Premiers octets du contenu (en-tête de colonnes FEC), sans décoder un PDF complet
+ */
+function fecHeaderSample(content?: Buffer | string): string | undefined {
+  if (!content) return undefined;
+  const buffer = Buffer.isBuffer(content) ? content : Buffer.from(content.substring(0, 1024), 'base64');
+  return buffer.subarray(0, 512).toString('latin1');
+}
@@ -4,6 +4,16 @@ import type { ToolContext } from '@google/adk';
 import { zToGen } from '../../../utils/schemaHelper';
 import { isTabacCommerce } from '../../config/tabacValuationCoefficients';
 import { logBusinessPlan } from '../../../utils/extractionLogger';
+import { readState, readUntypedState, FinancialStateError } from '../../state/readState';
+import {
+  buildLoans,
+  computeAmortizationSchedule,
+  aggregateDebtService,
+  selectMontage,
+  financementParamsFromMontage,
+  FINANCING_DEFAULTS,
+  type FinancementParams
+} from './loanSchedule';
 
 /**
  * Business Plan Dynamique Tool
@@ -15,9 +25,18 @@ import { logBusinessPlan } from '../../../utils/extractionLogger';
  * - Impact sur CA et EBE
  *
  * Permet de projeter l'évolution du business avec les changements du repreneur.
+ *
+ * Mode scénarios (comparerScenarios / scenarios) : recalcule le plan pour chaque jeu
+ * d'hypothèses (pessimiste / central / optimiste + personnalisés) et produit un tableau
+ * comparatif CA, EBE, reste après dette et indicateurs bancaires.
+ *
+ * Financement : échéanciers par prêt (loanSchedule.ts) construits depuis
+ * userComments.transactionFinancing (prêt principal, relais TVA, crédit vendeur) ou,
+ * à défaut, un prêt unique du montant emprunté. Le service de la dette est annuel
+ * (différé, fin de prêt) au lieu d'une annuité constante.
  */
 
-const HypothesesRepreneurSchema = z.object({
+export const HypothesesRepreneurSchema = z.object({
   // Investissement
   prixAchat: z.number().describe('Prix d\'achat du fonds de commerce'),
   montantTravaux: z.number().optional().describe('Montant des travaux prévus'),
@@ -27,6 +46,9 @@ const HypothesesRepreneurSchema = z.object({
   // Financement
   tauxEmprunt: z.number().optional().describe('Taux d\'emprunt annuel (ex: 4.5 pour 4.5%)'),
   dureeEmpruntMois: z.number().optional().describe('Durée emprunt en mois (ex: 84 pour 7 ans)'),
+  differeMois: z.number().optional().describe('Durée du différé du prêt principal en mois (inclus dans la durée)'),
+  typeDiffere: z.enum(['partiel', 'total']).optional().describe('partiel = intérêts seuls, total = intérêts capitalisés'),
+  tauxAssurance: z.number().optional().describe('Taux d\'assurance emprunteur annuel (ex: 0.36 pour 0.36%)'),
 
   // Leviers croissance CA
   extensionHoraires: z.object({
@@ -42,7 +64,8 @@ const HypothesesRepreneurSchema = z.object({
   // Réduction charges
   salairesSupprimes: z.number().optional().describe('Montant annuel des salaires supprimés'),
   salairesAjoutes: z.number().optional().describe('Montant annuel des salaires ajoutés'),
-  loyerNegocie: z.number().optional().describe('Nouveau loyer annuel après négociation')
+  loyerNegocie: z.number().optional().describe('Nouveau loyer annuel après négociation'),
+  tauxMargeMarchandises: z.number().optional().describe('Taux de marge sur marchandises en décimal (défaut: constaté au SIG)')
 });
 
 const ProjectionAnnuelleSchema = z.object({
@@ -105,598 +128,909 @@ const BusinessPlanDynamiqueOutputSchema = z.object({
   hypotheses: HypothesesRepreneurSchema.describe('Hypothèses utilisées pour le calcul'),
   synthese: z.string().describe('Synthèse du business plan'),
   recommandations: z.array(z.string()).describe('Recommandations pour optimiser le plan'),
+  scenarios: z.object({
+    comparaison: z.array(z.object({
+      nom: z.string(),
+      description: z.string(),
+      hypotheses: HypothesesRepreneurSchema,
+      ca_annee1: z.number(),
+      ca_annee5: z.number(),
+      ebe_annee1: z.number(),
+      ebe_annee5: z.number(),
+      reste_apres_dette_annee1: z.number(),
+      reste_apres_dette_cumule: z.number().describe('Reste après dette cumulé années 1 à 5'),
+      indicateursBancaires: IndicateursBancairesSchema,
+      projections: z.array(ProjectionAnnuelleSchema)
+    })),
+    synthese: z.string()
+  }).optional().describe('Comparaison de scénarios (si demandée)'),
+  financement: z.object({
+    annuite: z.number().describe('Service de la dette annuel le plus élevé (années 1 à 5)'),
+    prets: z.array(z.object({
+      nom: z.string(),
+      type: z.string(),
+      montant: z.number(),
+      mensualite: z.number(),
+      total_interets: z.number(),
+      total_assurance: z.number(),
+      cout_total: z.number()
+    }).passthrough()),
+    service_annuel: z.array(z.object({
+      annee: z.number(),
+      interets: z.number(),
+      amortissement: z.number(),
+      assurance: z.number(),
+      total: z.number(),
+      remboursement_relais_tva: z.number(),
+      service_dette: z.number(),
+      capital_restant_fin: z.number()
+    }))
+  }).optional().describe('Échéanciers des prêts et service de la dette annuel'),
+  loyerIndexation: z.object({
+    indice: z.string(),
+    scenario_retenu: z.string(),
+    risque_deplafonnement: z.string().optional(),
+    coefficients: z.array(z.number()).describe('Coefficient appliqué au loyer négocié pour les années 1 à 5')
+  }).optional().describe('Indexation du loyer appliquée (projectRentIndexation)'),
   error: z.string().optional()
 });
 
+const ScenarioSchema = z.object({
+  nom: z.string().describe('Nom du scénario (ex: "Sans extension horaires")'),
+  description: z.string().optional(),
+  hypotheses: HypothesesRepreneurSchema.partial().describe('Hypothèses modifiées par rapport au plan de base')
+});
+
+const BusinessPlanDynamiqueInputSchema = HypothesesRepreneurSchema.extend({
+  comparerScenarios: z.boolean().optional().describe('Calculer aussi les scénarios pessimiste / central / optimiste'),
+  scenarios: z.array(ScenarioSchema).optional().describe('Scénarios personnalisés à comparer (en plus des 3 standards si comparerScenarios)')
+});
+
+export type HypothesesRepreneur = z.infer<typeof HypothesesRepreneurSchema>;
+export type BusinessPlanScenario = z.infer<typeof ScenarioSchema>;
+export type ScenarioComparaison = NonNullable<z.infer<typeof BusinessPlanDynamiqueOutputSchema>['scenarios']>['comparaison'][number];
+
+/** Données du state utilisées par le calcul */
+export interface BusinessPlanData {
+  comptable: any;
+  valorisation: any;
+  immobilier: any;
+  userComments: any;
+  businessInfo: any;
+  /** Projection du loyer (projectRentIndexationTool) : loyers annuels indexés au lieu d'un loyer constant */
+  projectionLoyer?: any;
+}
+
+export interface BusinessPlanComputation {
+  result: any;
+  resolved: {
+    prixAchat: number;
+    montantTravaux: number;
+    apportPersonnel: number;
+    loyerNegocie: number;
+    isTabac: boolean;
+    salaires: number;
+    tauxMargeMarchandises: number;
+    /** En % (ex: 4.5) */
+    tauxEmprunt: number;
+    dureeEmpruntMois: number;
+    impactHoraires: number;
+    impactTravaux: number;
+    croissanceRecurrente: number;
+  };
+}
+
+/**
+ * Scénarios standards demandés par les banques, exprimés en facteurs sur les leviers
+ * résolus du plan de base (comme sensitivityAnalysisTool) : le pessimiste reste
+ * toujours en dessous du central, quelles que soient les hypothèses du repreneur.
+ * Central = hypothèses de base ; pessimiste = l'extension horaires ne prend pas.
+ */
+export const SCENARIOS_PAR_DEFAUT: Array<{
+  nom: string;
+  description: string;
+  facteurs: { impactHoraires: number; impactTravaux: number; croissanceRecurrente: number };
+}> = [
+  {
+    nom: 'Pessimiste',
+    description: 'Extension horaires sans effet, impact des travaux et croissance réduits de moitié',
+    facteurs: { impactHoraires: 0, impactTravaux: 0.5, croissanceRecurrente: 0.5 }
+  },
+  {
+    nom: 'Central',
+    description: 'Hypothèses du repreneur',
+    facteurs: { impactHoraires: 1, impactTravaux: 1, croissanceRecurrente: 1 }
+  },
+  {
+    nom: 'Optimiste',
+    description: 'Leviers de croissance 50 % au-dessus des hypothèses du repreneur',
+    facteurs: { impactHoraires: 1.5, impactTravaux: 1.5, croissanceRecurrente: 1.5 }
+  }
+];
+
+/**
+ * Applique un facteur à un levier : appliqué à sa valeur absolue, un facteur < 1
+ * dégrade aussi un levier négatif (croissance -2 % → -3 % en pessimiste)
+ */
+function appliquerFacteur(valeur: number, facteur: number): number {
+  return Math.round((valeur + (facteur - 1) * Math.abs(valeur)) * 10000) / 10000;
+}
+
+/**
+ * Scénarios standards pour un plan de base donné (leviers résolus par computeBusinessPlan)
+ */
+export function scenariosParDefaut(resolved: BusinessPlanComputation['resolved']): BusinessPlanScenario[] {
+  return SCENARIOS_PAR_DEFAUT.map(({ nom, description, facteurs }) => ({
+    nom,
+    description,
+    hypotheses: {
+      extensionHoraires: { impactEstime: appliquerFacteur(resolved.impactHoraires, facteurs.impactHoraires) },
+      travaux: {
+        impactAnnee2: appliquerFacteur(resolved.impactTravaux, facteurs.impactTravaux),
+        impactRecurrent: appliquerFacteur(resolved.croissanceRecurrente, facteurs.croissanceRecurrente)
+      }
+    }
+  }));
+}
+
+// Ratio de couverture minimal pour qu'un scénario reste finançable
+const RATIO_COUVERTURE_MIN = 1.2;
+
 export const businessPlanDynamiqueTool = new FunctionTool({
   name: 'businessPlanDynamique',
   description: 'Génère un business plan sur 5 ans post-reprise avec leviers de croissance (horaires, travaux, charges). Calcule projections CA/EBE et indicateurs bancaires.',
-  parameters: zToGen(HypothesesRepreneurSchema),
+  parameters: zToGen(BusinessPlanDynamiqueInputSchema),
 
   execute: async (params, toolContext?: ToolContext) => {
     try {
       // ========================================
       // ÉTAPE 1: Lire les données du state
       // ========================================
-      let comptable = parseState(toolContext?.state.get('comptable'));
-      let valorisation = parseState(toolContext?.state.get('valorisation'));
-      let immobilier = parseState(toolContext?.state.get('immobilier'));
-      let userComments = parseState(toolContext?.state.get('userComments'));
-      let businessInfo = parseState(toolContext?.state.get('businessInfo'));
+      const { comparerScenarios, scenarios, ...hypotheses } = params;
+      const data: BusinessPlanData = {
+        comptable: readState(toolContext, 'comptable'),
+        valorisation: readState(toolContext, 'valorisation'),
+        immobilier: readState(toolContext, 'immobilier'),
+        userComments: readUntypedState(toolContext, 'userComments'),
+        businessInfo: readUntypedState(toolContext, 'businessInfo'),
+        projectionLoyer: readUntypedState(toolContext, 'projectionLoyer')
+      };
+      const { comptable, businessInfo } = data;
 
       if (!comptable?.sig || !comptable?.yearsAnalyzed || comptable.yearsAnalyzed.length === 0) {
         return {
           projections: [],
           indicateursBancaires: createEmptyIndicateurs(),
-          hypotheses: params,
+          hypotheses,
           synthese: 'Erreur: Données comptables manquantes',
           recommandations: [],
           error: 'Missing SIG data'
         };
       }
 
-      const { sig, yearsAnalyzed } = comptable;
-      const lastYear = yearsAnalyzed[0];
-      const lastYearStr = lastYear.toString();
-
       // ========================================
-      // ÉTAPE 2: Récupérer les données actuelles (EXTRACTION STRICTE)
-      // ⚠️ (2025-12-29): Les données historiques proviennent de comptable.sig
-      // qui contient UNIQUEMENT les valeurs extraites des documents comptables.
-      // Aucun recalcul n'est effectué sur ces données historiques.
+      // ÉTAPES 2-8: Projections et indicateurs (hypothèses de base)
       // ========================================
-
-      // CA actuel (moyenne 3 ans ou dernière année)
-      // ✅ FIX (2025-12-29): Extraire .valeur car SIG retourne {valeur, pct_ca}
-      let caActuel = 0;
-      if (yearsAnalyzed.length >= 3) {
-        const caValues = yearsAnalyzed.slice(0, 3).map((year: number) => {
-          const caData = sig[year.toString()]?.chiffre_affaires;
-          return typeof caData === 'object' ? caData?.valeur || 0 : caData || 0;
-        });
-        caActuel = Math.round(caValues.reduce((a: number, b: number) => a + b, 0) / caValues.length);
-      } else {
-        const caData = sig[lastYearStr]?.chiffre_affaires;
-        caActuel = typeof caData === 'object' ? caData?.valeur || 0 : caData || 0;
-      }
-
-      // Charges actuelles
-      // ✅ FIX (2025-12-29): charges_personnel = salaires + charges_sociales + charges_exploitant
-      const chargesPersonnelActuel =
-        (typeof sig[lastYearStr]?.salaires_personnel === 'object'
-          ? sig[lastYearStr]?.salaires_personnel?.valeur || 0
-          : sig[lastYearStr]?.salaires_personnel || 0) +
-        (typeof sig[lastYearStr]?.charges_sociales_personnel === 'object'
-          ? sig[lastYearStr]?.charges_sociales_personnel?.valeur || 0
-          : sig[lastYearStr]?.charges_sociales_personnel || 0) +
-        (typeof sig[lastYearStr]?.charges_exploitant === 'object'
-          ? sig[lastYearStr]?.charges_exploitant?.valeur || 0
-          : sig[lastYearStr]?.charges_exploitant || 0);
-      // ✅ FIX (2025-12-29): charges_externes = autres_achats_charges_externes
-      const chargesExternesData = sig[lastYearStr]?.autres_achats_charges_externes;
-      const chargesExternesActuel = typeof chargesExternesData === 'object'
-        ? chargesExternesData?.valeur || 0
-        : chargesExternesData || 0;
-
-      // Loyer actuel - PRIORITÉ: simulationLoyer > bail > userComments
-      // ✅ FIX (2025-12-29): Utiliser simulationLoyer qui intègre userComments en priorité
-      let loyer_actuel = immobilier?.simulationLoyer?.loyerActuel?.annuel || immobilier?.bail?.loyer_annuel_hc || 0;
-      if (loyer_actuel === 0 && userComments?.loyer) {
-        // Fallback: userComments avec conversion mensuel → annuel
-        const loyerMensuel = userComments.loyer.loyer_actuel_mensuel ||
-                             userComments.loyer.futur_loyer_commercial || 0;
-        loyer_actuel = loyerMensuel * 12;
-        console.log(`[businessPlanDynamique] 📋 Loyer récupéré depuis userComments: ${loyerMensuel}€/mois → ${loyer_actuel}€/an`);
-      }
-
-      // EBE actuel (normatif si disponible, sinon comptable)
-      // ✅ FIX (2025-12-29): Extraire .valeur car SIG retourne {valeur, pct_ca}
-      let ebeActuel = 0;
-      if (comptable.ebeRetraitement?.ebe_normatif) {
-        ebeActuel = comptable.ebeRetraitement.ebe_normatif;
-      } else {
-        const ebeData = sig[lastYearStr]?.ebe;
-        ebeActuel = typeof ebeData === 'object' ? ebeData?.valeur || 0 : ebeData || 0;
-      }
+      const { result: plan, resolved } = computeBusinessPlan(hypotheses, data);
 
       // ========================================
-      // ÉTAPE 2b: Extraction split CA (SANS condition Tabac)
+      // ÉTAPE 9: Comparaison de scénarios (optionnelle)
       // ========================================
+      const scenariosDemandes = [
+        ...(comparerScenarios ? scenariosParDefaut(resolved) : []),
+        ...(scenarios || [])
+      ];
+      const result = scenariosDemandes.length > 0
+        ? { ...plan, scenarios: compareScenarios(hypotheses, data, scenariosDemandes) }
+        : plan;
 
-      // Détecter si commerce de type Tabac (secteur 47.26) - pour affichage spécifique seulement
-      const isTabac = businessInfo?.secteurActivite ? isTabacCommerce(businessInfo.secteurActivite) : false;
-
-      // ✅ Extraire TOUS les champs sans condition (disponibles pour tous les commerces)
-      // Ventes Marchandises (format: { valeur, pct_ca })
-      const ventesMarchandisesData = sig[lastYearStr]?.ventes_marchandises;
-      const ventesMarchandises = typeof ventesMarchandisesData === 'object'
-        ? ventesMarchandisesData?.valeur || 0
-        : ventesMarchandisesData || 0;
-
-      // Production vendue services = Commissions (tabac/loto/presse) ou services
-      const productionServicesData = sig[lastYearStr]?.production_vendue_services;
-      const commissionsServices = typeof productionServicesData === 'object'
-        ? productionServicesData?.valeur || 0
-        : productionServicesData || 0;
-
-      // Marge commerciale pour calcul taux marge
-      const margeCommercialeData = sig[lastYearStr]?.marge_commerciale;
-      const margeCommerciale = typeof margeCommercialeData === 'object'
-        ? margeCommercialeData?.valeur || 0
-        : margeCommercialeData || 0;
-
-      // Taux de marge boutique
-      let tauxMargeBoutique = 0.68; // Fallback 68%
-      if (ventesMarchandises > 0 && margeCommerciale > 0) {
-        tauxMargeBoutique = margeCommerciale / ventesMarchandises;
-      }
-
-      // Log toujours (pas de condition)
-      const caSource = yearsAnalyzed.length >= 3 ? 'moyenne 3 ans' : lastYearStr;
-      console.log(`[businessPlanDynamique] 📊 Données extraites du SIG:`);
-      console.log(`  - CA Total (${caSource}): ${caActuel.toLocaleString('fr-FR')} €`);
-      console.log(`  - Ventes Marchandises: ${ventesMarchandises.toLocaleString('fr-FR')} €`);
-      console.log(`  - Commissions/Services: ${commissionsServices.toLocaleString('fr-FR')} €`);
-      console.log(`  - Charges Personnel: ${chargesPersonnelActuel.toLocaleString('fr-FR')} €`);
-      console.log(`  - Taux marge boutique: ${(tauxMargeBoutique*100).toFixed(1)}%`);
-      if (isTabac) {
-        console.log(`  - 🚬 Commerce TABAC détecté (NAF: ${businessInfo?.nafCode})`);
+      // Injecter dans le state pour que generateFinancialHtmlTool puisse le lire
+      if (toolContext?.state) {
+        toolContext.state.set('businessPlan', result);
+        console.log('[businessPlanDynamique] ✅ Business plan injected into state');
       }
 
-      // ========================================
-      // ÉTAPE 3: Calculer l'investissement total
-      // ========================================
-
-      const prixAchat = params.prixAchat || valorisation?.synthese?.valeur_recommandee || 0;
-      const montantTravaux = params.montantTravaux || immobilier?.travaux?.budget_total?.obligatoire_haut || 0;
-      const subventions = params.subventionsEstimees || 0;
-      const apportPersonnel = params.apportPersonnel || Math.round((prixAchat + montantTravaux) * 0.3); // 30% par défaut
-
-      const investissementTotal = prixAchat + montantTravaux - subventions;
-      const montantEmprunte = investissementTotal - apportPersonnel;
-
-      // ========================================
-      // ÉTAPE 4: Calculer l'annuité d'emprunt
-      // ========================================
+      // Log to extraction log
+      const siret = businessInfo?.siret || 'unknown';
+      logBusinessPlan(siret, {
+        projections: plan.projections.map((p: any) => ({
+          annee: p.annee,
+          label: p.label,
+          ca: p.ca,
+          ebe_normatif: p.ebe_normatif,
+          charges_fixes: p.charges_fixes,
+          annuite_emprunt: p.annuite_emprunt,
+          reste_apres_dette: p.reste_apres_dette
+        })),
+        indicateursBancaires: plan.indicateursBancaires,
+        hypotheses: {
+          prixAchat: resolved.prixAchat,
+          montantTravaux: resolved.montantTravaux,
+          apportPersonnel: resolved.apportPersonnel,
+          loyerNegocie: resolved.loyerNegocie
+        },
+        isTabac: resolved.isTabac
+      });
 
-      const tauxEmprunt = (params.tauxEmprunt || 4.5) / 100; // Convertir en décimal
-      const dureeEmpruntMois = params.dureeEmpruntMois || 84; // 7 ans par défaut
+      return result;
 
-      let annuiteEmprunt = 0;
-      if (montantEmprunte > 0 && tauxEmprunt > 0 && dureeEmpruntMois > 0) {
-        const tauxMensuel = tauxEmprunt / 12;
-        const mensualite = (montantEmprunte * tauxMensuel) / (1 - Math.pow(1 + tauxMensuel, -dureeEmpruntMois));
-        annuiteEmprunt = Math.round(mensualite * 12);
+    } catch (error: any) {
+      if (error instanceof FinancialStateError) {
+        return {
+          projections: [],
+          indicateursBancaires: createEmptyIndicateurs(),
+          hypotheses: params,
+          synthese: 'Erreur: Données du state invalides',
+          recommandations: [],
+          ...error.toToolError()
+        };
       }
+      return {
+        projections: [],
+        indicateursBancaires: createEmptyIndicateurs(),
+        hypotheses: params,
+        synthese: 'Erreur lors du calcul du business plan',
+        recommandations: [],
+        error: error.message || 'Business plan calculation failed'
+      };
+    }
+  }
+});
 
-      // ========================================
-      // ÉTAPE 5: Calculer les nouvelles charges
-      // ========================================
-
-      // ✅ FIX (2025-12-30): Priorité à userComments.frais_personnel_N1
-      const salairesSupprimes = params.salairesSupprimes || 0;
-      const salairesAjoutes = params.salairesAjoutes || 0;
-      const nouveauSalaires = userComments?.frais_personnel_N1
-        || (chargesPersonnelActuel - salairesSupprimes + salairesAjoutes);
-
-      console.log(`[businessPlanDynamique] 💼 Frais personnel N+1: ${nouveauSalaires.toLocaleString('fr-FR')} €`);
-      if (userComments?.frais_personnel_N1) {
-        console.log(`   ✅ Source: userComments.frais_personnel_N1`);
-      } else {
-        console.log(`   ℹ️ Source: calcul actuel (${chargesPersonnelActuel.toLocaleString('fr-FR')} € - ${salairesSupprimes.toLocaleString('fr-FR')} € + ${salairesAjoutes.toLocaleString('fr-FR')} €)`);
-      }
+/**
+ * Calcule le business plan 5 ans pour un jeu d'hypothèses (sans effet sur le state)
+ */
+export function computeBusinessPlan(
+  params: HypothesesRepreneur,
+  data: BusinessPlanData,
+  options: { silencieux?: boolean } = {}
+): BusinessPlanComputation {
+  const log = options.silencieux ? () => {} : console.log;
+  const { comptable, valorisation, immobilier, userComments, businessInfo } = data;
+  const { sig, yearsAnalyzed } = comptable;
+  const lastYear = yearsAnalyzed[0];
+  const lastYearStr = lastYear.toString();
+
+  // ========================================
+  // ÉTAPE 2: Récupérer les données actuelles (EXTRACTION STRICTE)
+  // ⚠️ (2025-12-29): Les données historiques proviennent de comptable.sig
+  // qui contient UNIQUEMENT les valeurs extraites des documents comptables.
+  // Aucun recalcul n'est effectué sur ces données historiques.
+  // ========================================
+
+  // CA actuel (moyenne 3 ans ou dernière année)
+  // ✅ FIX (2025-12-29): Extraire .valeur car SIG retourne {valeur, pct_ca}
+  let caActuel = 0;
+  if (yearsAnalyzed.length >= 3) {
+    const caValues = yearsAnalyzed.slice(0, 3).map((year: number) => {
+      const caData = sig[year.toString()]?.chiffre_affaires;
+      return typeof caData === 'object' ? caData?.valeur || 0 : caData || 0;
+    });
+    caActuel = Math.round(caValues.reduce((a: number, b: number) => a + b, 0) / caValues.length);
+  } else {
+    const caData = sig[lastYearStr]?.chiffre_affaires;
+    caActuel = typeof caData === 'object' ? caData?.valeur || 0 : caData || 0;
+  }
 
-      // Loyer négocié avec priorités claires
-      let loyerNegocie = loyer_actuel; // Par défaut = actuel
+  // Charges actuelles
+  // ✅ FIX (2025-12-29): charges_personnel = salaires + charges_sociales + charges_exploitant
+  const chargesPersonnelActuel =
+    (typeof sig[lastYearStr]?.salaires_personnel === 'object'
+      ? sig[lastYearStr]?.salaires_personnel?.valeur || 0
+      : sig[lastYearStr]?.salaires_personnel || 0) +
+    (typeof sig[lastYearStr]?.charges_sociales_personnel === 'object'
+      ? sig[lastYearStr]?.charges_sociales_personnel?.valeur || 0
+      : sig[lastYearStr]?.charges_sociales_personnel || 0) +
+    (typeof sig[lastYearStr]?.charges_exploitant === 'object'
+      ? sig[lastYearStr]?.charges_exploitant?.valeur || 0
+      : sig[lastYearStr]?.charges_exploitant || 0);
+  // ✅ FIX (2025-12-29): charges_externes = autres_achats_charges_externes
+  const chargesExternesData = sig[lastYearStr]?.autres_achats_charges_externes;
+  const chargesExternesActuel = typeof chargesExternesData === 'object'
+    ? chargesExternesData?.valeur || 0
+    : chargesExternesData || 0;
+
+  // Loyer actuel - PRIORITÉ: simulationLoyer > bail > userComments
+  // ✅ FIX (2025-12-29): Utiliser simulationLoyer qui intègre userComments en priorité
+  let loyer_actuel = immobilier?.simulationLoyer?.loyerActuel?.annuel || immobilier?.bail?.loyer_annuel_hc || 0;
+  if (loyer_actuel === 0 && userComments?.loyer) {
+    // Fallback: userComments avec conversion mensuel → annuel
+    const loyerMensuel = userComments.loyer.loyer_actuel_mensuel ||
+                         userComments.loyer.futur_loyer_commercial || 0;
+    loyer_actuel = loyerMensuel * 12;
+    log(`[businessPlanDynamique] 📋 Loyer récupéré depuis userComments: ${loyerMensuel}€/mois → ${loyer_actuel}€/an`);
+  }
 
-      // Priorité 1: Paramètre explicite (valeur annuelle)
-      if (params.loyerNegocie && params.loyerNegocie > 0) {
-        loyerNegocie = params.loyerNegocie;
-        console.log(`[businessPlanDynamique] 💰 Loyer négocié (paramètre): ${loyerNegocie}€/an`);
-      }
-      // Priorité 2: userComments (valeur mensuelle × 12)
-      else if (userComments?.loyer?.futur_loyer_commercial) {
-        loyerNegocie = userComments.loyer.futur_loyer_commercial * 12;
-        console.log(`[businessPlanDynamique] 💰 Loyer négocié (userComments): ${userComments.loyer.futur_loyer_commercial}€/mois → ${loyerNegocie}€/an`);
-      }
-      // Priorité 3: Simulation immobilier
-      else if (immobilier?.simulationLoyer?.scenarios?.realiste?.nouveauLoyerAnnuel) {
-        loyerNegocie = immobilier.simulationLoyer.scenarios.realiste.nouveauLoyerAnnuel;
-        console.log(`[businessPlanDynamique] 💰 Loyer négocié (simulation): ${loyerNegocie}€/an`);
-      }
+  // EBE actuel (normatif si disponible, sinon comptable)
+  // ✅ FIX (2025-12-29): Extraire .valeur car SIG retourne {valeur, pct_ca}
+  let ebeActuel = 0;
+  if (comptable.ebeRetraitement?.ebe_normatif) {
+    ebeActuel = comptable.ebeRetraitement.ebe_normatif;
+  } else {
+    const ebeData = sig[lastYearStr]?.ebe;
+    ebeActuel = typeof ebeData === 'object' ? ebeData?.valeur || 0 : ebeData || 0;
+  }
 
-      // Autres charges (estimées à partir des charges externes moins le loyer)
-      const autresCharges = Math.max(0, chargesExternesActuel - loyer_actuel);
+  // ========================================
+  // ÉTAPE 2b: Extraction split CA (SANS condition Tabac)
+  // ========================================
+
+  // Détecter si commerce de type Tabac (secteur 47.26) - pour affichage spécifique seulement
+  const isTabac = businessInfo?.secteurActivite ? isTabacCommerce(businessInfo.secteurActivite) : false;
+
+  // ✅ Extraire TOUS les champs sans condition (disponibles pour tous les commerces)
+  // Ventes Marchandises (format: { valeur, pct_ca })
+  const ventesMarchandisesData = sig[lastYearStr]?.ventes_marchandises;
+  const ventesMarchandises = typeof ventesMarchandisesData === 'object'
+    ? ventesMarchandisesData?.valeur || 0
+    : ventesMarchandisesData || 0;
+
+  // Production vendue services = Commissions (tabac/loto/presse) ou services
+  const productionServicesData = sig[lastYearStr]?.production_vendue_services;
+  const commissionsServices = typeof productionServicesData === 'object'
+    ? productionServicesData?.valeur || 0
+    : productionServicesData || 0;
+
+  // Marge commerciale pour calcul taux marge
+  const margeCommercialeData = sig[lastYearStr]?.marge_commerciale;
+  const margeCommerciale = typeof margeCommercialeData === 'object'
+    ? margeCommercialeData?.valeur || 0
+    : margeCommercialeData || 0;
+
+  // Taux de marge boutique
+  let tauxMargeBoutique = 0.68; // Fallback 68%
+  if (ventesMarchandises > 0 && margeCommerciale > 0) {
+    tauxMargeBoutique = margeCommerciale / ventesMarchandises;
+  }
+  if (params.tauxMargeMarchandises && params.tauxMargeMarchandises > 0) {
+    tauxMargeBoutique = params.tauxMargeMarchandises;
+  }
 
-      // ========================================
-      // ÉTAPE 6: Générer les projections sur 5 ans
-      // ========================================
+  // Log toujours (pas de condition)
+  const caSource = yearsAnalyzed.length >= 3 ? 'moyenne 3 ans' : lastYearStr;
+  log(`[businessPlanDynamique] 📊 Données extraites du SIG:`);
+  log(`  - CA Total (${caSource}): ${caActuel.toLocaleString('fr-FR')} €`);
+  log(`  - Ventes Marchandises: ${ventesMarchandises.toLocaleString('fr-FR')} €`);
+  log(`  - Commissions/Services: ${commissionsServices.toLocaleString('fr-FR')} €`);
+  log(`  - Charges Personnel: ${chargesPersonnelActuel.toLocaleString('fr-FR')} €`);
+  log(`  - Taux marge boutique: ${(tauxMargeBoutique*100).toFixed(1)}%`);
+  if (isTabac) {
+    log(`  - 🚬 Commerce TABAC détecté (NAF: ${businessInfo?.nafCode})`);
+  }
 
-      const projections: any[] = [];
-
-      // Année 0: Actuel
-      const chargesFixesAnnee0 = chargesPersonnelActuel + loyer_actuel + autresCharges;
-
-      // ✅ Calcul Marge Brute SANS CONDITION (disponible pour tous les commerces)
-      const margeMarchandisesAnnee0 = Math.round(ventesMarchandises * tauxMargeBoutique);
-      const margeCommissionsAnnee0 = commissionsServices; // 100% sur commissions
-      const margeBruteGlobaleAnnee0 = margeMarchandisesAnnee0 + margeCommissionsAnnee0;
-
-      projections.push({
-        annee: 0,
-        label: 'Actuel (Cédant)',
-        // ✅ CA décomposé TOUJOURS inclus (pas de condition isTabac)
-        ventes_marchandises: ventesMarchandises,
-        commissions_services: commissionsServices,
-        ca: caActuel,
-        ca_detail: {
-          ca_base: caActuel,
-          impact_horaires: 0,
-          impact_travaux: 0,
-          croissance_naturelle: 0
-        },
-        // ✅ Marge Brute décomposée TOUJOURS incluse (pas de condition isTabac)
-        marge_marchandises: margeMarchandisesAnnee0,
-        marge_commissions: margeCommissionsAnnee0,
-        marge_brute_globale: margeBruteGlobaleAnnee0,
-        charges_fixes: chargesFixesAnnee0,
-        charges_detail: {
-          salaires: chargesPersonnelActuel,
-          loyer: loyer_actuel,
-          autres_charges: autresCharges
-        },
-        ebe_normatif: ebeActuel,
-        annuite_emprunt: 0,
-        reste_apres_dette: ebeActuel
-      });
+  // ========================================
+  // ÉTAPE 3: Calculer l'investissement total
+  // ========================================
+
+  // Montage saisi par l'utilisateur : scénario négocié en priorité, sinon initial
+  const montage = selectMontage(userComments?.transactionFinancing);
+
+  const prixAchat = params.prixAchat || valorisation?.synthese?.valeur_recommandee || 0;
+  const montantTravaux = params.montantTravaux || immobilier?.travaux?.budget_total?.obligatoire_haut || 0;
+  const subventions = params.subventionsEstimees || 0;
+  const apportPersonnel = params.apportPersonnel
+    || montage?.apport_personnel
+    || Math.round((prixAchat + montantTravaux) * 0.3); // 30% par défaut
+
+  const investissementTotal = prixAchat + montantTravaux - subventions;
+
+  // ========================================
+  // ÉTAPE 4: Échéanciers des prêts et service de la dette
+  // ========================================
+
+  const tauxEmprunt = (params.tauxEmprunt || montage?.taux_interet || FINANCING_DEFAULTS.TAUX_PRINCIPAL) / 100; // Convertir en décimal
+  const dureeEmpruntMois = params.dureeEmpruntMois || (montage?.duree_annees ? montage.duree_annees * 12 : FINANCING_DEFAULTS.DUREE_PRINCIPAL_MOIS); // 7 ans par défaut
+
+  const financementParams: FinancementParams = {
+    ...(montage
+      // Prix, travaux, subventions ou apport passés en hypothèses (scénarios) ajustent le prêt principal du montage
+      ? financementParamsFromMontage(montage, {
+          prixAchat: params.prixAchat,
+          montantTravaux: params.montantTravaux,
+          subventions: params.subventionsEstimees,
+          apportPersonnel: params.apportPersonnel
+        })
+      : { montantPrincipal: investissementTotal - apportPersonnel }),
+    tauxAnnuel: tauxEmprunt * 100,
+    dureeMois: dureeEmpruntMois,
+    differeMois: params.differeMois ?? montage?.differe_mois,
+    typeDiffere: params.typeDiffere ?? montage?.type_differe,
+    tauxAssurance: params.tauxAssurance ?? montage?.taux_assurance
+  };
 
-      // Paramètres de croissance
-      const impactHoraires = params.extensionHoraires?.impactEstime || 0.10; // 10% par défaut
-      const impactTravauxBase = params.travaux?.impactAnnee2 || 0.10; // 10% par défaut - appliqué dès année 1
-      const croissanceRecurrente = params.travaux?.impactRecurrent || 0.03; // 3% par défaut
+  const tableaux = buildLoans(financementParams).map(computeAmortizationSchedule);
+  const serviceAnnuel = aggregateDebtService(tableaux, 5);
+  const montantEmprunte = tableaux.reduce((sum, t) => sum + t.pret.montant, 0);
 
-      // ========================================
-      // Impact travaux différencié pour TABAC
-      // ========================================
-      // Pour un Tabac: +0% sur commissions (habitude), +15% sur boutique (impulsion)
-      // Pour les autres commerces: impact uniforme sur tout le CA
+  // Annuité de référence (ratio de couverture, point mort) : la plus lourde des 5 ans,
+  // pour ne pas flatter l'année 1 en cas de différé
+  const annuiteEmprunt = serviceAnnuel.reduce((max, s) => Math.max(max, s.service_dette), 0);
 
-      let impactTravauxEffectif = impactTravauxBase;
-      let tabacImpactDetail: { commissions: number; boutique: number; effectif: number } | null = null;
+  if (montage) {
+    log(`[businessPlanDynamique] 🏦 Montage financier (userComments): ${tableaux.map(t => `${t.pret.nom} ${t.pret.montant.toLocaleString('fr-FR')} €`).join(', ')}`);
+  }
 
-      if (isTabac && ventesMarchandises > 0 && caActuel > 0) {
-        // Tabac: impacts différenciés
-        const impactTravauxCommissions = 0.00; // Pas d'impact sur les commissions (habitude)
-        const impactTravauxBoutique = 0.15;    // +15% sur ventes boutique (impulsion)
+  // ========================================
+  // ÉTAPE 5: Calculer les nouvelles charges
+  // ========================================
+
+  // ✅ FIX (2025-12-30): Priorité à userComments.frais_personnel_N1
+  const salairesSupprimes = params.salairesSupprimes || 0;
+  const salairesAjoutes = params.salairesAjoutes || 0;
+  const nouveauSalaires = userComments?.frais_personnel_N1
+    || (chargesPersonnelActuel - salairesSupprimes + salairesAjoutes);
+
+  log(`[businessPlanDynamique] 💼 Frais personnel N+1: ${nouveauSalaires.toLocaleString('fr-FR')} €`);
+  if (userComments?.frais_personnel_N1) {
+    log(`   ✅ Source: userComments.frais_personnel_N1`);
+  } else {
+    log(`   ℹ️ Source: calcul actuel (${chargesPersonnelActuel.toLocaleString('fr-FR')} € - ${salairesSupprimes.toLocaleString('fr-FR')} € + ${salairesAjoutes.toLocaleString('fr-FR')} €)`);
+  }
 
-        // Calculer les poids de chaque activité
-        const poidsCommissions = commissionsServices / caActuel;
-        const poidsBoutique = ventesMarchandises / caActuel;
+  // Loyer négocié avec priorités claires
+  let loyerNegocie = loyer_actuel; // Par défaut = actuel
 
-        // Impact pondéré sur le CA total
-        impactTravauxEffectif = (impactTravauxCommissions * poidsCommissions) + (impactTravauxBoutique * poidsBoutique);
+  // Priorité 1: Paramètre explicite (valeur annuelle)
+  if (params.loyerNegocie && params.loyerNegocie > 0) {
+    loyerNegocie = params.loyerNegocie;
+    log(`[businessPlanDynamique] 💰 Loyer négocié (paramètre): ${loyerNegocie}€/an`);
+  }
+  // Priorité 2: userComments (valeur mensuelle × 12)
+  else if (userComments?.loyer?.futur_loyer_commercial) {
+    loyerNegocie = userComments.loyer.futur_loyer_commercial * 12;
+    log(`[businessPlanDynamique] 💰 Loyer négocié (userComments): ${userComments.loyer.futur_loyer_commercial}€/mois → ${loyerNegocie}€/an`);
+  }
+  // Priorité 3: Simulation immobilier
+  else if (immobilier?.simulationLoyer?.scenarios?.realiste?.nouveauLoyerAnnuel) {
+    loyerNegocie = immobilier.simulationLoyer.scenarios.realiste.nouveauLoyerAnnuel;
+    log(`[businessPlanDynamique] 💰 Loyer négocié (simulation): ${loyerNegocie}€/an`);
+  }
 
-        tabacImpactDetail = {
-          commissions: impactTravauxCommissions,
-          boutique: impactTravauxBoutique,
-          effectif: impactTravauxEffectif
-        };
+  // Loyer projeté (révision indicielle, renouvellement) : coefficient par année appliqué au loyer négocié
+  const projectionLoyer = data.projectionLoyer || immobilier?.projectionLoyer;
+  const coefficientsLoyer: number[] = projectionLoyer?.disponible && Array.isArray(projectionLoyer.annees)
+    ? projectionLoyer.annees.map((a: any) => a.coefficient || 1)
+    : [];
+  if (coefficientsLoyer.length > 0) {
+    log(`[businessPlanDynamique] 📈 Loyer indexé (${projectionLoyer.indice}, scénario ${projectionLoyer.scenario_retenu}): coefficients ${coefficientsLoyer.join(' / ')}`);
+  }
 
-        console.log(`[businessPlanDynamique] 🔧 Impact travaux TABAC (différencié):`);
-        console.log(`  - Commissions (${(poidsCommissions*100).toFixed(1)}% du CA): +${(impactTravauxCommissions*100).toFixed(0)}%`);
-        console.log(`  - Boutique (${(poidsBoutique*100).toFixed(1)}% du CA): +${(impactTravauxBoutique*100).toFixed(0)}%`);
-        console.log(`  - Impact effectif pondéré: +${(impactTravauxEffectif*100).toFixed(1)}%`);
-      }
+  // Autres charges (estimées à partir des charges externes moins le loyer)
+  const autresCharges = Math.max(0, chargesExternesActuel - loyer_actuel);
+
+  // ========================================
+  // ÉTAPE 6: Générer les projections sur 5 ans
+  // ========================================
+
+  const projections: any[] = [];
+
+  // Année 0: Actuel
+  const chargesFixesAnnee0 = chargesPersonnelActuel + loyer_actuel + autresCharges;
+
+  // ✅ Calcul Marge Brute SANS CONDITION (disponible pour tous les commerces)
+  const margeMarchandisesAnnee0 = Math.round(ventesMarchandises * tauxMargeBoutique);
+  const margeCommissionsAnnee0 = commissionsServices; // 100% sur commissions
+  const margeBruteGlobaleAnnee0 = margeMarchandisesAnnee0 + margeCommissionsAnnee0;
+
+  projections.push({
+    annee: 0,
+    label: 'Actuel (Cédant)',
+    // ✅ CA décomposé TOUJOURS inclus (pas de condition isTabac)
+    ventes_marchandises: ventesMarchandises,
+    commissions_services: commissionsServices,
+    ca: caActuel,
+    ca_detail: {
+      ca_base: caActuel,
+      impact_horaires: 0,
+      impact_travaux: 0,
+      croissance_naturelle: 0
+    },
+    // ✅ Marge Brute décomposée TOUJOURS incluse (pas de condition isTabac)
+    marge_marchandises: margeMarchandisesAnnee0,
+    marge_commissions: margeCommissionsAnnee0,
+    marge_brute_globale: margeBruteGlobaleAnnee0,
+    charges_fixes: chargesFixesAnnee0,
+    charges_detail: {
+      salaires: chargesPersonnelActuel,
+      loyer: loyer_actuel,
+      autres_charges: autresCharges
+    },
+    ebe_normatif: ebeActuel,
+    annuite_emprunt: 0,
+    reste_apres_dette: ebeActuel
+  });
+
+  // Paramètres de croissance
+  const impactHoraires = params.extensionHoraires?.impactEstime ?? 0.10; // 10% par défaut
+  const impactTravauxBase = params.travaux?.impactAnnee2 ?? 0.10; // 10% par défaut - appliqué dès année 1
+  const croissanceRecurrente = params.travaux?.impactRecurrent ?? 0.03; // 3% par défaut
+
+  // ========================================
+  // Impact travaux différencié pour TABAC
+  // ========================================
+  // Pour un Tabac: +0% sur commissions (habitude), +15% sur boutique (impulsion)
+  // Pour les autres commerces: impact uniforme sur tout le CA
+
+  let impactTravauxEffectif = impactTravauxBase;
+  let tabacImpactDetail: { commissions: number; boutique: number; effectif: number } | null = null;
+
+  if (isTabac && ventesMarchandises > 0 && caActuel > 0) {
+    // Tabac: impacts différenciés
+    const impactTravauxCommissions = 0.00; // Pas d'impact sur les commissions (habitude)
+    const impactTravauxBoutique = 0.15;    // +15% sur ventes boutique (impulsion)
+
+    // Calculer les poids de chaque activité
+    const poidsCommissions = commissionsServices / caActuel;
+    const poidsBoutique = ventesMarchandises / caActuel;
+
+    // Impact pondéré sur le CA total
+    impactTravauxEffectif = (impactTravauxCommissions * poidsCommissions) + (impactTravauxBoutique * poidsBoutique);
+
+    tabacImpactDetail = {
+      commissions: impactTravauxCommissions,
+      boutique: impactTravauxBoutique,
+      effectif: impactTravauxEffectif
+    };
+
+    log(`[businessPlanDynamique] 🔧 Impact travaux TABAC (différencié):`);
+    log(`  - Commissions (${(poidsCommissions*100).toFixed(1)}% du CA): +${(impactTravauxCommissions*100).toFixed(0)}%`);
+    log(`  - Boutique (${(poidsBoutique*100).toFixed(1)}% du CA): +${(impactTravauxBoutique*100).toFixed(0)}%`);
+    log(`  - Impact effectif pondéré: +${(impactTravauxEffectif*100).toFixed(1)}%`);
+  }
 
-      // Années 1 à 5 - Croissance différenciée pour TABAC
-      // Variables pour suivi progression Tabac
-      let prevVentesMarchandises = ventesMarchandises;
-      let prevCommissionsServices = commissionsServices;
-
-      for (let i = 1; i <= 5; i++) {
-        let label = '';
-        if (i === 1) label = 'Reprise + Travaux';
-        else if (i === 2) label = 'Consolidation';
-        else label = 'Croisière';
-
-        // ========================================
-        // Calcul CA - Logique différenciée TABAC
-        // ========================================
-        let ca_base = caActuel;
-        let impact_horaires_value = 0;
-        let impact_travaux_value = 0;
-        let croissance_naturelle_value = 0;
-
-        // ✅ Variables CA décomposé TOUJOURS calculées (pas de condition isTabac)
-        let ventesMarchandisesAnnee = 0;
-        let commissionsServicesAnnee = 0;
-
-        // ✅ Calcul différencié pour TOUS les commerces (avec ou sans données boutique/commissions)
-        if (ventesMarchandises > 0 || commissionsServices > 0) {
-          // ========================================
-          // Croissance différenciée sur composantes CA
-          // ========================================
-
-          // Année 1: Impact horaires sur les deux + Impact travaux sur boutique uniquement
-          if (i === 1) {
-            // Horaires: impact sur les deux (+10% par défaut)
-            ventesMarchandisesAnnee = ventesMarchandises * (1 + impactHoraires);
-            commissionsServicesAnnee = commissionsServices * (1 + impactHoraires);
-
-            // Travaux: +15% sur boutique uniquement (si tabacImpactDetail disponible)
-            if (tabacImpactDetail) {
-              ventesMarchandisesAnnee = ventesMarchandisesAnnee * (1 + tabacImpactDetail.boutique);
-              impact_travaux_value = ventesMarchandises * tabacImpactDetail.boutique;
-            } else {
-              // Commerce standard: impact travaux uniforme
-              ventesMarchandisesAnnee = ventesMarchandisesAnnee * (1 + impactTravauxEffectif);
-              commissionsServicesAnnee = commissionsServicesAnnee * (1 + impactTravauxEffectif);
-              impact_travaux_value = caActuel * impactTravauxEffectif;
-            }
-
-            impact_horaires_value = (ventesMarchandises + commissionsServices) * impactHoraires;
-          }
-          // Années 2-5: Croissance naturelle différenciée
-          else {
-            // Boutique: +3%/an
-            ventesMarchandisesAnnee = prevVentesMarchandises * (1 + croissanceRecurrente);
-            // Commissions: plafonné à +2%/an (marché mature) pour Tabac, sinon croissance normale
-            const croissanceCommissions = isTabac ? Math.min(0.02, croissanceRecurrente) : croissanceRecurrente;
-            commissionsServicesAnnee = prevCommissionsServices * (1 + croissanceCommissions);
-
-            croissance_naturelle_value = (ventesMarchandisesAnnee - prevVentesMarchandises) + (commissionsServicesAnnee - prevCommissionsServices);
-          }
+  // Années 1 à 5 - Croissance différenciée pour TABAC
+  // Variables pour suivi progression Tabac
+  let prevVentesMarchandises = ventesMarchandises;
+  let prevCommissionsServices = commissionsServices;
+
+  for (let i = 1; i <= 5; i++) {
+    let label = '';
+    if (i === 1) label = 'Reprise + Travaux';
+    else if (i === 2) label = 'Consolidation';
+    else label = 'Croisière';
+
+    // ========================================
+    // Calcul CA - Logique différenciée TABAC
+    // ========================================
+    let ca_base = caActuel;
+    let impact_horaires_value = 0;
+    let impact_travaux_value = 0;
+    let croissance_naturelle_value = 0;
+
+    // ✅ Variables CA décomposé TOUJOURS calculées (pas de condition isTabac)
+    let ventesMarchandisesAnnee = 0;
+    let commissionsServicesAnnee = 0;
+
+    // ✅ Calcul différencié pour TOUS les commerces (avec ou sans données boutique/commissions)
+    if (ventesMarchandises > 0 || commissionsServices > 0) {
+      // ========================================
+      // Croissance différenciée sur composantes CA
+      // ========================================
 
-          ca_base = Math.round(ventesMarchandisesAnnee + commissionsServicesAnnee);
-          prevVentesMarchandises = ventesMarchandisesAnnee;
-          prevCommissionsServices = commissionsServicesAnnee;
+      // Année 1: Impact horaires sur les deux + Impact travaux sur boutique uniquement
+      if (i === 1) {
+        // Horaires: impact sur les deux (+10% par défaut)
+        ventesMarchandisesAnnee = ventesMarchandises * (1 + impactHoraires);
+        commissionsServicesAnnee = commissionsServices * (1 + impactHoraires);
 
+        // Travaux: +15% sur boutique uniquement (si tabacImpactDetail disponible)
+        if (tabacImpactDetail) {
+          ventesMarchandisesAnnee = ventesMarchandisesAnnee * (1 + tabacImpactDetail.boutique);
+          impact_travaux_value = ventesMarchandises * tabacImpactDetail.boutique;
         } else {
-          // ========================================
-          // Fallback: Commerce sans détail boutique/commissions
-          // ========================================
-
-          // Impact horaires (dès année 1)
-          if (i >= 1) {
-            impact_horaires_value = caActuel * impactHoraires;
-            ca_base += impact_horaires_value;
-          }
-
-          // Impact travaux (dès année 1)
-          if (i >= 1) {
-            impact_travaux_value = caActuel * impactTravauxEffectif;
-            ca_base += impact_travaux_value;
-          }
-
-          // Croissance récurrente (années 2-5)
-          if (i >= 2) {
-            croissance_naturelle_value = projections[i - 1].ca * croissanceRecurrente;
-            ca_base = projections[i - 1].ca + croissance_naturelle_value;
-          }
+          // Commerce standard: impact travaux uniforme
+          ventesMarchandisesAnnee = ventesMarchandisesAnnee * (1 + impactTravauxEffectif);
+          commissionsServicesAnnee = commissionsServicesAnnee * (1 + impactTravauxEffectif);
+          impact_travaux_value = caActuel * impactTravauxEffectif;
         }
 
-        const ca = Math.round(ca_base);
-
-        // ========================================
-        // ✅ Calcul Marge Brute SANS CONDITION (disponible pour tous les commerces)
-        // ========================================
-        const margeMarchandisesAnnee = Math.round(ventesMarchandisesAnnee * tauxMargeBoutique);
-        const margeCommissionsAnnee = Math.round(commissionsServicesAnnee); // 100%
-        const margeBruteGlobaleAnnee = margeMarchandisesAnnee + margeCommissionsAnnee;
-
-        // ========================================
-        // Calcul charges et EBE
-        // ========================================
-        const charges_fixes = nouveauSalaires + loyerNegocie + autresCharges;
-
-        // EBE = Marge Brute Globale - Charges Fixes (si marge disponible)
-        // Sinon EBE = CA - Charges Fixes (approximation)
-        const ebe_normatif = margeBruteGlobaleAnnee > 0
-          ? margeBruteGlobaleAnnee - charges_fixes
-          : ca - charges_fixes;
-
-        // Reste après dette
-        const reste_apres_dette = ebe_normatif - annuiteEmprunt;
-
-        projections.push({
-          annee: i,
-          label: `Année ${i} (${label})`,
-          // ✅ CA décomposé TOUJOURS inclus (pas de condition isTabac)
-          ventes_marchandises: Math.round(ventesMarchandisesAnnee),
-          commissions_services: Math.round(commissionsServicesAnnee),
-          ca,
-          ca_detail: {
-            ca_base: i === 1 ? caActuel : projections[i - 1].ca,
-            impact_horaires: i === 1 ? impact_horaires_value : 0,
-            impact_travaux: i === 1 ? impact_travaux_value : 0,
-            croissance_naturelle: i >= 2 ? croissance_naturelle_value : 0,
-            // Détail spécifique Tabac (si disponible)
-            ...(tabacImpactDetail && i >= 1 && {
-              tabac_detail: {
-                impact_travaux_commissions: 0,
-                impact_travaux_boutique: i === 1 ? Math.round(ventesMarchandises * tabacImpactDetail.boutique) : 0,
-                poids_commissions: caActuel > 0 ? Math.round((commissionsServices / caActuel) * 100) : 0,
-                poids_boutique: caActuel > 0 ? Math.round((ventesMarchandises / caActuel) * 100) : 0
-              }
-            })
-          },
-          // ✅ Marge Brute décomposée TOUJOURS incluse (pas de condition isTabac)
-          marge_marchandises: margeMarchandisesAnnee,
-          marge_commissions: margeCommissionsAnnee,
-          marge_brute_globale: margeBruteGlobaleAnnee,
-          charges_fixes,
-          charges_detail: {
-            salaires: nouveauSalaires,
-            loyer: loyerNegocie,
-            autres_charges: autresCharges
-          },
-          ebe_normatif,
-          annuite_emprunt: annuiteEmprunt,
-          reste_apres_dette
-        });
+        impact_horaires_value = (ventesMarchandises + commissionsServices) * impactHoraires;
       }
-
-      // ========================================
-      // ÉTAPE 7: Calculer les indicateurs bancaires
-      // ========================================
-
-      // Utiliser EBE de l'année 1 (première année complète)
-      const ebeAnnee1 = projections[1].ebe_normatif;
-
-      // 1. Ratio de couverture de la dette
-      const ratioCouvertureDette = annuiteEmprunt > 0 ? parseFloat((ebeAnnee1 / annuiteEmprunt).toFixed(2)) : 0;
-
-      // 2. Capacité d'autofinancement (EBE - Impôts 25% - Prélèvements sociaux 15%)
-      const tauxImposition = 0.25;
-      const tauxPrelevements = 0.15;
-      const capaciteAutofinancement = Math.round(ebeAnnee1 * (1 - tauxImposition - tauxPrelevements));
-
-      // 3. Point mort (CA minimum pour équilibre) - Formule bancaire
-      // Formule: (Charges fixes + Remboursement annuel) / Taux de marge brute
-      const margeBrute = projections[1].marge_brute_globale || 0;
-      const ca = projections[1].ca || 1; // Éviter division par zéro
-      const tauxMargeBrute = margeBrute / ca;  // Ex: 187,181 / 277,943 = 0.675 (67.5%)
-
-      const chargesFixesTotales = (projections[1].charges_fixes || 0) + annuiteEmprunt;
-      const pointMort = tauxMargeBrute > 0
-        ? Math.round(chargesFixesTotales / tauxMargeBrute)
-        : 0;
-
-      console.log(`[businessPlanDynamique] 📊 Point Mort calculé:`);
-      console.log(`   - Charges fixes: ${projections[1].charges_fixes?.toLocaleString('fr-FR')} €`);
-      console.log(`   - Annuité emprunt: ${annuiteEmprunt.toLocaleString('fr-FR')} €`);
-      console.log(`   - Total: ${chargesFixesTotales.toLocaleString('fr-FR')} €`);
-      console.log(`   - Taux marge brute: ${(tauxMargeBrute * 100).toFixed(1)}%`);
-      console.log(`   - Point Mort: ${pointMort.toLocaleString('fr-FR')} € CA annuel`);
-
-      // 4. Délai de retour sur investissement
-      const moyenneResteApresDetteAnnees2a5 = (projections[2].reste_apres_dette + projections[3].reste_apres_dette + projections[4].reste_apres_dette + projections[5].reste_apres_dette) / 4;
-      const delaiRetourInvestissement = apportPersonnel > 0 && moyenneResteApresDetteAnnees2a5 > 0
-        ? parseFloat((apportPersonnel / moyenneResteApresDetteAnnees2a5).toFixed(1))
-        : 0;
-
-      // 5. Rentabilité des capitaux investis (ROI)
-      const rentabiliteCapitauxInvestis = apportPersonnel > 0
-        ? parseFloat(((moyenneResteApresDetteAnnees2a5 / apportPersonnel) * 100).toFixed(1))
-        : 0;
-
-      // Appréciation globale
-      let appreciation = 'difficile';
-      if (ratioCouvertureDette >= 2.0 && rentabiliteCapitauxInvestis >= 25) {
-        appreciation = 'excellent';
-      } else if (ratioCouvertureDette >= 1.5 && rentabiliteCapitauxInvestis >= 15) {
-        appreciation = 'bon';
-      } else if (ratioCouvertureDette >= 1.2 && rentabiliteCapitauxInvestis >= 10) {
-        appreciation = 'acceptable';
+      // Années 2-5: Croissance naturelle différenciée
+      else {
+        // Boutique: +3%/an
+        ventesMarchandisesAnnee = prevVentesMarchandises * (1 + croissanceRecurrente);
+        // Commissions: plafonné à +2%/an (marché mature) pour Tabac, sinon croissance normale
+        const croissanceCommissions = isTabac ? Math.min(0.02, croissanceRecurrente) : croissanceRecurrente;
+        commissionsServicesAnnee = prevCommissionsServices * (1 + croissanceCommissions);
+
+        croissance_naturelle_value = (ventesMarchandisesAnnee - prevVentesMarchandises) + (commissionsServicesAnnee - prevCommissionsServices);
       }
 
-      const indicateursBancaires = {
-        ratioCouvertureDette,
-        capaciteAutofinancement,
-        pointMort,
-        tauxMargeBrute,              // Ajouté pour affichage dans rapport
-        delaiRetourInvestissement,
-        rentabiliteCapitauxInvestis,
-        investissementTotal,
-        montantEmprunte,
-        annuiteEmprunt,
-        appreciation
-      };
+      ca_base = Math.round(ventesMarchandisesAnnee + commissionsServicesAnnee);
+      prevVentesMarchandises = ventesMarchandisesAnnee;
+      prevCommissionsServices = commissionsServicesAnnee;
 
+    } else {
       // ========================================
-      // ÉTAPE 8: Générer synthèse et recommandations
+      // Fallback: Commerce sans détail boutique/commissions
       // ========================================
 
-      const synthese = genererSynthese(projections, indicateursBancaires, params);
-      const recommandations = genererRecommandations(projections, indicateursBancaires, params);
+      // Impact horaires (dès année 1)
+      if (i >= 1) {
+        impact_horaires_value = caActuel * impactHoraires;
+        ca_base += impact_horaires_value;
+      }
 
-      // ✅ Calculate projected health score for year N+1
-      const projectedHealthScore = projections[1]
-        ? calculateProjectedHealthScore(projections[1], comptable)
-        : null;
+      // Impact travaux (dès année 1)
+      if (i >= 1) {
+        impact_travaux_value = caActuel * impactTravauxEffectif;
+        ca_base += impact_travaux_value;
+      }
 
-      const result = {
-        projections,
-        indicateursBancaires,
-        hypotheses: params,
-        synthese,
-        recommandations,
-        projectedHealthScore, // ✅ ADD
-        // Métadonnées Tabac (si applicable)
-        ...(isTabac && tabacImpactDetail && {
-          tabacInfo: {
-            isTabac: true,
-            nafCode: businessInfo?.nafCode,
-            splitCA: {
-              commissions: commissionsServices,
-              boutique: ventesMarchandises,
-              poidsCommissions: Math.round((commissionsServices / caActuel) * 100),
-              poidsBoutique: Math.round((ventesMarchandises / caActuel) * 100)
-            },
-            impactTravaux: {
-              commissions: tabacImpactDetail.commissions,
-              boutique: tabacImpactDetail.boutique,
-              effectif: tabacImpactDetail.effectif
-            }
+      // Croissance récurrente (années 2-5)
+      if (i >= 2) {
+        croissance_naturelle_value = projections[i - 1].ca * croissanceRecurrente;
+        ca_base = projections[i - 1].ca + croissance_naturelle_value;
+      }
+    }
+
+    const ca = Math.round(ca_base);
+
+    // ========================================
+    // ✅ Calcul Marge Brute SANS CONDITION (disponible pour tous les commerces)
+    // ========================================
+    const margeMarchandisesAnnee = Math.round(ventesMarchandisesAnnee * tauxMargeBoutique);
+    const margeCommissionsAnnee = Math.round(commissionsServicesAnnee); // 100%
+    const margeBruteGlobaleAnnee = margeMarchandisesAnnee + margeCommissionsAnnee;
+
+    // ========================================
+    // Calcul charges et EBE
+    // ========================================
+    const loyerAnnee = Math.round(loyerNegocie * (coefficientsLoyer[i - 1] ?? 1));
+    const charges_fixes = nouveauSalaires + loyerAnnee + autresCharges;
+
+    // EBE = Marge Brute Globale - Charges Fixes (si marge disponible)
+    // Sinon EBE = CA - Charges Fixes (approximation)
+    const ebe_normatif = margeBruteGlobaleAnnee > 0
+      ? margeBruteGlobaleAnnee - charges_fixes
+      : ca - charges_fixes;
+
+    // Reste après dette
+    const annuiteAnnee = serviceAnnuel[i - 1].service_dette;
+    const reste_apres_dette = ebe_normatif - annuiteAnnee;
+
+    projections.push({
+      annee: i,
+      label: `Année ${i} (${label})`,
+      // ✅ CA décomposé TOUJOURS inclus (pas de condition isTabac)
+      ventes_marchandises: Math.round(ventesMarchandisesAnnee),
+      commissions_services: Math.round(commissionsServicesAnnee),
+      ca,
+      ca_detail: {
+        ca_base: i === 1 ? caActuel : projections[i - 1].ca,
+        impact_horaires: i === 1 ? impact_horaires_value : 0,
+        impact_travaux: i === 1 ? impact_travaux_value : 0,
+        croissance_naturelle: i >= 2 ? croissance_naturelle_value : 0,
+        // Détail spécifique Tabac (si disponible)
+        ...(tabacImpactDetail && i >= 1 && {
+          tabac_detail: {
+            impact_travaux_commissions: 0,
+            impact_travaux_boutique: i === 1 ? Math.round(ventesMarchandises * tabacImpactDetail.boutique) : 0,
+            poids_commissions: caActuel > 0 ? Math.round((commissionsServices / caActuel) * 100) : 0,
+            poids_boutique: caActuel > 0 ? Math.round((ventesMarchandises / caActuel) * 100) : 0
           }
         })
-      };
+      },
+      // ✅ Marge Brute décomposée TOUJOURS incluse (pas de condition isTabac)
+      marge_marchandises: margeMarchandisesAnnee,
+      marge_commissions: margeCommissionsAnnee,
+      marge_brute_globale: margeBruteGlobaleAnnee,
+      charges_fixes,
+      charges_detail: {
+        salaires: nouveauSalaires,
+        loyer: loyerAnnee,
+        autres_charges: autresCharges
+      },
+      ebe_normatif,
+      annuite_emprunt: annuiteAnnee,
+      reste_apres_dette
+    });
+  }
 
-      // Injecter dans le state pour que generateFinancialHtmlTool puisse le lire
-      if (toolContext?.state) {
-        toolContext.state.set('businessPlan', result);
-        console.log('[businessPlanDynamique] ✅ Business plan injected into state');
-      }
+  // ========================================
+  // ÉTAPE 7: Calculer les indicateurs bancaires
+  // ========================================
+
+  // Utiliser EBE de l'année 1 (première année complète)
+  const ebeAnnee1 = projections[1].ebe_normatif;
+
+  // 1. Ratio de couverture de la dette
+  const ratioCouvertureDette = annuiteEmprunt > 0 ? parseFloat((ebeAnnee1 / annuiteEmprunt).toFixed(2)) : 0;
+
+  // 2. Capacité d'autofinancement (EBE - Impôts 25% - Prélèvements sociaux 15%)
+  const tauxImposition = 0.25;
+  const tauxPrelevements = 0.15;
+  const capaciteAutofinancement = Math.round(ebeAnnee1 * (1 - tauxImposition - tauxPrelevements));
+
+  // 3. Point mort (CA minimum pour équilibre) - Formule bancaire
+  // Formule: (Charges fixes + Remboursement annuel) / Taux de marge brute
+  const margeBrute = projections[1].marge_brute_globale || 0;
+  const ca = projections[1].ca || 1; // Éviter division par zéro
+  const tauxMargeBrute = margeBrute / ca;  // Ex: 187,181 / 277,943 = 0.675 (67.5%)
+
+  const chargesFixesTotales = (projections[1].charges_fixes || 0) + annuiteEmprunt;
+  const pointMort = tauxMargeBrute > 0
+    ? Math.round(chargesFixesTotales / tauxMargeBrute)
+    : 0;
+
+  log(`[businessPlanDynamique] 📊 Point Mort calculé:`);
+  log(`   - Charges fixes: ${projections[1].charges_fixes?.toLocaleString('fr-FR')} €`);
+  log(`   - Annuité emprunt: ${annuiteEmprunt.toLocaleString('fr-FR')} €`);
+  log(`   - Total: ${chargesFixesTotales.toLocaleString('fr-FR')} €`);
+  log(`   - Taux marge brute: ${(tauxMargeBrute * 100).toFixed(1)}%`);
+  log(`   - Point Mort: ${pointMort.toLocaleString('fr-FR')} € CA annuel`);
+
+  // 4. Délai de retour sur investissement
+  const moyenneResteApresDetteAnnees2a5 = (projections[2].reste_apres_dette + projections[3].reste_apres_dette + projections[4].reste_apres_dette + projections[5].reste_apres_dette) / 4;
+  const delaiRetourInvestissement = apportPersonnel > 0 && moyenneResteApresDetteAnnees2a5 > 0
+    ? parseFloat((apportPersonnel / moyenneResteApresDetteAnnees2a5).toFixed(1))
+    : 0;
+
+  // 5. Rentabilité des capitaux investis (ROI)
+  const rentabiliteCapitauxInvestis = apportPersonnel > 0
+    ? parseFloat(((moyenneResteApresDetteAnnees2a5 / apportPersonnel) * 100).toFixed(1))
+    : 0;
+
+  // Appréciation globale
+  let appreciation = 'difficile';
+  if (ratioCouvertureDette >= 2.0 && rentabiliteCapitauxInvestis >= 25) {
+    appreciation = 'excellent';
+  } else if (ratioCouvertureDette >= 1.5 && rentabiliteCapitauxInvestis >= 15) {
+    appreciation = 'bon';
+  } else if (ratioCouvertureDette >= 1.2 && rentabiliteCapitauxInvestis >= 10) {
+    appreciation = 'acceptable';
+  }
 
-      // Log to extraction log
-      const siret = businessInfo?.siret || 'unknown';
-      logBusinessPlan(siret, {
-        projections: projections.map((p: any) => ({
-          annee: p.annee,
-          label: p.label,
-          ca: p.ca,
-          ebe_normatif: p.ebe_normatif,
-          charges_fixes: p.charges_fixes,
-          annuite_emprunt: p.annuite_emprunt,
-          reste_apres_dette: p.reste_apres_dette
-        })),
-        indicateursBancaires,
-        hypotheses: {
-          prixAchat,
-          montantTravaux,
-          apportPersonnel,
-          loyerNegocie
-        },
-        isTabac
-      });
+  const indicateursBancaires = {
+    ratioCouvertureDette,
+    capaciteAutofinancement,
+    pointMort,
+    tauxMargeBrute,              // Ajouté pour affichage dans rapport
+    delaiRetourInvestissement,
+    rentabiliteCapitauxInvestis,
+    investissementTotal,
+    montantEmprunte,
+    annuiteEmprunt,
+    appreciation
+  };
 
-      return result;
+  // ========================================
+  // ÉTAPE 8: Générer synthèse et recommandations
+  // ========================================
+
+  const synthese = genererSynthese(projections, indicateursBancaires, params);
+  const recommandations = genererRecommandations(projections, indicateursBancaires, params);
+
+  // ✅ Calculate projected health score for year N+1
+  const projectedHealthScore = projections[1]
+    ? calculateProjectedHealthScore(projections[1], comptable)
+    : null;
+
+  const result = {
+    projections,
+    indicateursBancaires,
+    hypotheses: params,
+    synthese,
+    recommandations,
+    projectedHealthScore, // ✅ ADD
+    financement: {
+      annuite: annuiteEmprunt,
+      prets: tableaux.map(({ pret, ...tableau }) => ({ ...pret, ...tableau })),
+      service_annuel: serviceAnnuel
+    },
+    // Indexation du loyer appliquée (si projectRentIndexation appelé)
+    ...(coefficientsLoyer.length > 0 && {
+      loyerIndexation: {
+        indice: projectionLoyer.indice,
+        scenario_retenu: projectionLoyer.scenario_retenu,
+        risque_deplafonnement: projectionLoyer.renouvellement?.risque_deplafonnement,
+        coefficients: coefficientsLoyer
+      }
+    }),
+    // Métadonnées Tabac (si applicable)
+    ...(isTabac && tabacImpactDetail && {
+      tabacInfo: {
+        isTabac: true,
+        nafCode: businessInfo?.nafCode,
+        splitCA: {
+          commissions: commissionsServices,
+          boutique: ventesMarchandises,
+          poidsCommissions: Math.round((commissionsServices / caActuel) * 100),
+          poidsBoutique: Math.round((ventesMarchandises / caActuel) * 100)
+        },
+        impactTravaux: {
+          commissions: tabacImpactDetail.commissions,
+          boutique: tabacImpactDetail.boutique,
+          effectif: tabacImpactDetail.effectif
+        }
+      }
+    })
+  };
 
-    } catch (error: any) {
-      return {
-        projections: [],
-        indicateursBancaires: createEmptyIndicateurs(),
-        hypotheses: params,
-        synthese: 'Erreur lors du calcul du business plan',
-        recommandations: [],
-        error: error.message || 'Business plan calculation failed'
-      };
+  return {
+    result,
+    resolved: {
+      prixAchat,
+      montantTravaux,
+      apportPersonnel,
+      loyerNegocie,
+      isTabac,
+      salaires: nouveauSalaires,
+      tauxMargeMarchandises: tauxMargeBoutique,
+      tauxEmprunt: tauxEmprunt * 100,
+      dureeEmpruntMois,
+      impactHoraires,
+      impactTravaux: impactTravauxBase,
+      croissanceRecurrente
     }
-  }
-});
+  };
+}
 
 /**
- * Parse state helper
+ * Calcule chaque scénario (hypothèses de base + surcharges) et construit le tableau comparatif
  */
-function parseState(state: any): any {
-  if (typeof state === 'string') {
-    try {
-      return JSON.parse(state);
-    } catch (e) {
-      return null;
-    }
+export function compareScenarios(
+  base: HypothesesRepreneur,
+  data: BusinessPlanData,
+  scenarios: BusinessPlanScenario[]
+): { comparaison: ScenarioComparaison[]; synthese: string } {
+  const comparaison = scenarios.map(scenario => {
+    const hypotheses = mergeHypotheses(base, scenario.hypotheses);
+    const { projections, indicateursBancaires } = computeBusinessPlan(hypotheses, data, { silencieux: true }).result;
+
+    return {
+      nom: scenario.nom,
+      description: scenario.description || '',
+      hypotheses,
+      ca_annee1: projections[1].ca,
+      ca_annee5: projections[5].ca,
+      ebe_annee1: projections[1].ebe_normatif,
+      ebe_annee5: projections[5].ebe_normatif,
+      reste_apres_dette_annee1: projections[1].reste_apres_dette,
+      reste_apres_dette_cumule: projections.slice(1).reduce((sum: number, p: any) => sum + p.reste_apres_dette, 0),
+      indicateursBancaires,
+      projections
+    };
+  });
+
+  console.log(`[businessPlanDynamique] 🔀 ${comparaison.length} scénario(s) comparé(s): ${comparaison.map(c => c.nom).join(', ')}`);
+
+  return { comparaison, synthese: genererSyntheseScenarios(comparaison) };
+}
+
+/**
+ * Applique les surcharges d'un scénario (fusion des leviers horaires/travaux)
+ */
+function mergeHypotheses(base: HypothesesRepreneur, overrides: Partial<HypothesesRepreneur>): HypothesesRepreneur {
+  return {
+    ...base,
+    ...overrides,
+    extensionHoraires: { ...base.extensionHoraires, ...overrides.extensionHoraires },
+    travaux: { ...base.travaux, ...overrides.travaux }
+  };
+}
+
+/**
+ * Générer synthèse de la comparaison de scénarios
+ */
+function genererSyntheseScenarios(comparaison: ScenarioComparaison[]): string {
+  if (comparaison.length === 0) return '';
+
+  const estFinancable = (c: ScenarioComparaison) =>
+    c.indicateursBancaires.annuiteEmprunt === 0 || c.indicateursBancaires.ratioCouvertureDette >= RATIO_COUVERTURE_MIN;
+  const nbFinancables = comparaison.filter(estFinancable).length;
+  const pire = comparaison.reduce((a, b) => (b.reste_apres_dette_annee1 < a.reste_apres_dette_annee1 ? b : a));
+
+  let synthese = `${nbFinancables}/${comparaison.length} scénario(s) couvrent l'annuité d'emprunt avec un ratio ≥ ${RATIO_COUVERTURE_MIN}x. `;
+  synthese += `Scénario le plus défavorable : "${pire.nom}" (ratio de couverture ${pire.indicateursBancaires.ratioCouvertureDette}x, `;
+  synthese += `reste après dette année 1 de ${pire.reste_apres_dette_annee1.toLocaleString('fr-FR')} €).`;
+
+  if (!estFinancable(pire)) {
+    synthese += ' ⚠️ Dans ce scénario, l\'EBE ne couvre pas suffisamment l\'annuité : prévoir un apport plus élevé ou un prix plus bas.';
   }
-  return state;
+
+  return synthese;
 }
 
 /**
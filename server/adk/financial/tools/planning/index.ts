@@ -5,3 +5,5 @@
  */
 
 export { businessPlanDynamiqueTool } from './businessPlanDynamiqueTool';
+export { sensitivityAnalysisTool } from './sensitivityAnalysisTool';
+export { treasuryPlanTool } from './treasuryPlanTool';
@@ -0,0 +1,319 @@
+/**
+ * Loan Schedule - Tableaux d'amortissement mensuels du montage financier
+ *
+ * Remplace l'annuité unique (tauxEmprunt / dureeEmpruntMois) par un échéancier par prêt :
+ * - prêt principal (annuités constantes), avec différé partiel (intérêts seuls)
+ *   ou total (intérêts capitalisés)
+ * - assurance emprunteur sur le capital initial ou sur le capital restant dû
+ * - crédit vendeur avec ses propres conditions (taux, durée, différé)
+ * - prêt relais TVA remboursé in fine par le remboursement de TVA
+ *
+ * Les échéanciers sont agrégés en service de la dette annuel pour businessPlanDynamiqueTool
+ * (le capital du relais TVA, remboursé par l'État, n'est pas compté dans le service de la dette)
+ * et affichés par financingPlanSection.ts.
+ */
+
+export type TypePret = 'principal' | 'relais_tva' | 'credit_vendeur';
+export type TypeDiffere = 'partiel' | 'total';
+export type BaseAssurance = 'capital_initial' | 'capital_restant_du';
+
+export interface Pret {
+  nom: string;
+  type: TypePret;
+  montant: number;
+  /** Taux nominal annuel en % (ex: 4.5) */
+  tauxAnnuel: number;
+  /** Durée totale en mois, différé inclus */
+  dureeMois: number;
+  differeMois?: number;
+  typeDiffere?: TypeDiffere;
+  /** Taux d'assurance annuel en % (ex: 0.36) */
+  tauxAssurance?: number;
+  baseAssurance?: BaseAssurance;
+  /** Capital remboursé en une fois à la dernière échéance */
+  inFine?: boolean;
+}
+
+export interface Echeance {
+  mois: number;
+  capital_debut: number;
+  interets: number;
+  amortissement: number;
+  assurance: number;
+  echeance: number;
+  capital_fin: number;
+  differe: boolean;
+}
+
+export interface TableauAmortissement {
+  pret: Pret;
+  /** Mensualité hors assurance de la phase d'amortissement */
+  mensualite: number;
+  echeances: Echeance[];
+  total_interets: number;
+  total_assurance: number;
+  cout_total: number;
+}
+
+export interface ServiceDetteAnnuel {
+  annee: number;
+  interets: number;
+  amortissement: number;
+  assurance: number;
+  total: number;
+  /** Capital du relais TVA remboursé par le remboursement de TVA */
+  remboursement_relais_tva: number;
+  /** Service de la dette supporté par l'exploitation (total - relais TVA) */
+  service_dette: number;
+  capital_restant_fin: number;
+}
+
+export interface FinancementParams {
+  montantPrincipal: number;
+  tauxAnnuel: number;
+  dureeMois: number;
+  differeMois?: number;
+  typeDiffere?: TypeDiffere;
+  tauxAssurance?: number;
+  baseAssurance?: BaseAssurance;
+  relaisTva?: { montant: number; dureeMois?: number; tauxAnnuel?: number };
+  creditVendeur?: { montant: number; tauxAnnuel?: number; dureeMois?: number; differeMois?: number };
+}
+
+export const FINANCING_DEFAULTS = {
+  TAUX_PRINCIPAL: 4.5,
+  DUREE_PRINCIPAL_MOIS: 84,
+  // Remboursement de TVA obtenu en général sous 3 à 6 mois
+  RELAIS_TVA_DUREE_MOIS: 6,
+  CREDIT_VENDEUR_TAUX: 2.0,
+  CREDIT_VENDEUR_DUREE_MOIS: 24
+};
+
+/**
+ * Scénario de userComments.transactionFinancing à retenir : négocié en priorité, sinon initial
+ */
+export function selectMontage(transactionFinancing: any): any | null {
+  if (transactionFinancing?.negocie?.pret_principal > 0) return transactionFinancing.negocie;
+  if (transactionFinancing?.initial?.pret_principal > 0) return transactionFinancing.initial;
+  return null;
+}
+
+/**
+ * Hypothèses du business plan qui s'écartent du montage saisi (scénario, paramètres du tool)
+ */
+export interface AjustementsMontage {
+  prixAchat?: number;
+  montantTravaux?: number;
+  subventions?: number;
+  apportPersonnel?: number;
+}
+
+/**
+ * Prêt principal du montage, ajusté des hypothèses qui s'en écartent.
+ * Le formulaire calcule pret_principal = total_investissement - apport - relais TVA - crédit vendeur :
+ * un écart de prix (par rapport à prix_fonds) ou d'apport (par rapport à apport_personnel),
+ * des travaux ou des subventions se reportent euro pour euro sur le prêt principal.
+ */
+export function principalFromMontage(montage: any, ajustements: AjustementsMontage = {}): number {
+  const ecartPrix = ajustements.prixAchat !== undefined && montage.prix_fonds > 0
+    ? ajustements.prixAchat - montage.prix_fonds
+    : 0;
+  const ecartApport = ajustements.apportPersonnel !== undefined
+    ? ajustements.apportPersonnel - (montage.apport_personnel || 0)
+    : 0;
+
+  return Math.max(0, Math.round(
+    (montage.pret_principal || 0) + ecartPrix + (ajustements.montantTravaux || 0) - (ajustements.subventions || 0) - ecartApport
+  ));
+}
+
+/**
+ * Paramètres de financement d'un scénario du formulaire (transactionFinancing)
+ */
+export function financementParamsFromMontage(montage: any, ajustements: AjustementsMontage = {}): FinancementParams {
+  return {
+    montantPrincipal: principalFromMontage(montage, ajustements),
+    tauxAnnuel: montage.taux_interet || FINANCING_DEFAULTS.TAUX_PRINCIPAL,
+    dureeMois: montage.duree_annees ? montage.duree_annees * 12 : FINANCING_DEFAULTS.DUREE_PRINCIPAL_MOIS,
+    differeMois: montage.differe_mois,
+    typeDiffere: montage.type_differe,
+    tauxAssurance: montage.taux_assurance,
+    baseAssurance: montage.base_assurance,
+    relaisTva: montage.pret_relais_tva > 0
+      ? { montant: montage.pret_relais_tva, dureeMois: montage.relais_tva_duree_mois }
+      : undefined,
+    creditVendeur: montage.credit_vendeur > 0
+      ? {
+          montant: montage.credit_vendeur,
+          tauxAnnuel: montage.credit_vendeur_taux,
+          dureeMois: montage.credit_vendeur_duree_mois,
+          differeMois: montage.credit_vendeur_differe_mois
+        }
+      : undefined
+  };
+}
+
+/**
+ * Construit la liste des prêts du montage (principal + relais TVA + crédit vendeur)
+ */
+export function buildLoans(params: FinancementParams): Pret[] {
+  const prets: Pret[] = [];
+
+  if (params.montantPrincipal > 0) {
+    prets.push({
+      nom: 'Prêt principal',
+      type: 'principal',
+      montant: params.montantPrincipal,
+      tauxAnnuel: params.tauxAnnuel,
+      dureeMois: params.dureeMois,
+      differeMois: params.differeMois,
+      typeDiffere: params.typeDiffere,
+      tauxAssurance: params.tauxAssurance,
+      baseAssurance: params.baseAssurance
+    });
+  }
+
+  if (params.relaisTva && params.relaisTva.montant > 0) {
+    prets.push({
+      nom: 'Prêt relais TVA',
+      type: 'relais_tva',
+      montant: params.relaisTva.montant,
+      tauxAnnuel: params.relaisTva.tauxAnnuel ?? params.tauxAnnuel,
+      dureeMois: params.relaisTva.dureeMois || FINANCING_DEFAULTS.RELAIS_TVA_DUREE_MOIS,
+      inFine: true
+    });
+  }
+
+  if (params.creditVendeur && params.creditVendeur.montant > 0) {
+    prets.push({
+      nom: 'Crédit vendeur',
+      type: 'credit_vendeur',
+      montant: params.creditVendeur.montant,
+      tauxAnnuel: params.creditVendeur.tauxAnnuel ?? FINANCING_DEFAULTS.CREDIT_VENDEUR_TAUX,
+      dureeMois: params.creditVendeur.dureeMois || FINANCING_DEFAULTS.CREDIT_VENDEUR_DUREE_MOIS,
+      differeMois: params.creditVendeur.differeMois,
+      typeDiffere: 'partiel'
+    });
+  }
+
+  return prets;
+}
+
+/**
+ * Tableau d'amortissement mensuel d'un prêt
+ */
+export function computeAmortizationSchedule(pret: Pret): TableauAmortissement {
+  const duree = Math.max(1, Math.round(pret.dureeMois));
+  const differe = Math.min(Math.max(0, Math.round(pret.differeMois || 0)), duree - 1);
+  const tauxMensuel = pret.tauxAnnuel / 100 / 12;
+  const tauxAssuranceMensuel = (pret.tauxAssurance || 0) / 100 / 12;
+
+  let capital = pret.montant;
+  let mensualite = 0;
+  // Intérêts courus, y compris ceux capitalisés pendant un différé total
+  let totalInterets = 0;
+  const echeances: Echeance[] = [];
+
+  for (let mois = 1; mois <= duree; mois++) {
+    const capitalDebut = capital;
+    const interets = capitalDebut * tauxMensuel;
+    totalInterets += interets;
+    const assurance = tauxAssuranceMensuel *
+      (pret.baseAssurance === 'capital_restant_du' ? capitalDebut : pret.montant);
+    const enDiffere = mois <= differe;
+
+    let interetsPayes = interets;
+    let amortissement = 0;
+
+    if (enDiffere) {
+      // Différé total : intérêts capitalisés, aucune échéance hors assurance
+      if (pret.typeDiffere === 'total') {
+        interetsPayes = 0;
+        capital += interets;
+      }
+    } else if (pret.inFine) {
+      amortissement = mois === duree ? capitalDebut : 0;
+    } else {
+      if (mois === differe + 1) {
+        mensualite = annuiteConstante(capitalDebut, tauxMensuel, duree - differe);
+      }
+      amortissement = mois === duree ? capitalDebut : Math.min(capitalDebut, mensualite - interets);
+    }
+
+    capital -= amortissement;
+
+    echeances.push({
+      mois,
+      capital_debut: arrondi(capitalDebut),
+      interets: arrondi(interetsPayes),
+      amortissement: arrondi(amortissement),
+      assurance: arrondi(assurance),
+      echeance: arrondi(interetsPayes + amortissement + assurance),
+      capital_fin: arrondi(Math.max(0, capital)),
+      differe: enDiffere
+    });
+  }
+
+  const totalAssurance = echeances.reduce((sum, e) => sum + e.assurance, 0);
+
+  return {
+    pret,
+    mensualite: arrondi(pret.inFine ? pret.montant * tauxMensuel : mensualite),
+    echeances,
+    total_interets: Math.round(totalInterets),
+    total_assurance: Math.round(totalAssurance),
+    cout_total: Math.round(totalInterets + totalAssurance)
+  };
+}
+
+/**
+ * Service de la dette annuel (années 1 à nbAnnees) de l'ensemble des prêts
+ */
+export function aggregateDebtService(tableaux: TableauAmortissement[], nbAnnees: number): ServiceDetteAnnuel[] {
+  const service: ServiceDetteAnnuel[] = [];
+
+  for (let annee = 1; annee <= nbAnnees; annee++) {
+    const debut = (annee - 1) * 12 + 1;
+    const fin = annee * 12;
+    let interets = 0;
+    let amortissement = 0;
+    let assurance = 0;
+    let relaisTva = 0;
+    let capitalRestant = 0;
+
+    for (const tableau of tableaux) {
+      const echeancesAnnee = tableau.echeances.filter(e => e.mois >= debut && e.mois <= fin);
+      for (const e of echeancesAnnee) {
+        interets += e.interets;
+        amortissement += e.amortissement;
+        assurance += e.assurance;
+        if (tableau.pret.type === 'relais_tva') relaisTva += e.amortissement;
+      }
+      const derniere = tableau.echeances.filter(e => e.mois <= fin).pop();
+      capitalRestant += derniere ? derniere.capital_fin : tableau.pret.montant;
+    }
+
+    const total = interets + amortissement + assurance;
+    service.push({
+      annee,
+      interets: Math.round(interets),
+      amortissement: Math.round(amortissement),
+      assurance: Math.round(assurance),
+      total: Math.round(total),
+      remboursement_relais_tva: Math.round(relaisTva),
+      service_dette: Math.round(total - relaisTva),
+      capital_restant_fin: Math.round(capitalRestant)
+    });
+  }
+
+  return service;
+}
+
+function annuiteConstante(capital: number, tauxMensuel: number, nbMois: number): number {
+  if (tauxMensuel === 0) return capital / nbMois;
+  return (capital * tauxMensuel) / (1 - Math.pow(1 + tauxMensuel, -nbMois));
+}
+
+function arrondi(valeur: number): number {
+  return Math.round(valeur * 100) / 100;
+}
@@ -0,0 +1,357 @@
+import { z } from 'zod';
+import { FunctionTool } from '@google/adk';
+import type { ToolContext } from '@google/adk';
+import { zToGen } from '../../../utils/schemaHelper';
+import { readState, readUntypedState, FinancialStateError } from '../../state/readState';
+import {
+  computeBusinessPlan,
+  HypothesesRepreneurSchema,
+  type BusinessPlanComputation,
+  type BusinessPlanData,
+  type HypothesesRepreneur
+} from './businessPlanDynamiqueTool';
+
+/**
+ * Sensitivity Analysis Tool
+ *
+ * Analyse de sensibilité (tornado) du business plan : fait varier chaque levier
+ * (croissance CA, marge marchandises, loyer, salaires, taux et durée d'emprunt)
+ * de ±10/20% et mesure l'effet sur le ratio de couverture de la dette (DSCR),
+ * le point mort et le délai de retour sur investissement.
+ *
+ * Produit aussi la table des seuils : valeur de chaque levier à partir de laquelle
+ * le DSCR passe sous 1.2 (recherche par dichotomie, les autres leviers restant fixes).
+ *
+ * Les projections sont recalculées par computeBusinessPlan (même moteur que
+ * businessPlanDynamiqueTool). Résultat injecté dans state.businessPlanSensitivity
+ * pour generateChartsTool et generateFinancialHtmlTool.
+ */
+
+export const SENSITIVITY_DEFAULTS = {
+  VARIATIONS_PCT: [-20, -10, 10, 20],
+  SEUIL_RATIO_COUVERTURE: 1.2,
+  // Plage de recherche du seuil (multiplicateur de la valeur actuelle)
+  FACTEUR_MIN: 0.05,
+  FACTEUR_MAX: 3,
+  ITERATIONS_DICHOTOMIE: 30
+};
+
+export type LevierCle = 'croissance_ca' | 'marge_marchandises' | 'loyer' | 'salaires' | 'taux_emprunt' | 'duree_emprunt';
+
+interface Levier {
+  cle: LevierCle;
+  label: string;
+  unite: '%' | '€' | 'mois';
+  /** Valeur actuelle du levier (affichage) */
+  valeurBase: (resolved: BusinessPlanComputation['resolved']) => number;
+  /** Applique un multiplicateur au levier */
+  appliquer: (
+    hypotheses: HypothesesRepreneur,
+    data: BusinessPlanData,
+    resolved: BusinessPlanComputation['resolved'],
+    facteur: number
+  ) => { hypotheses: HypothesesRepreneur; data: BusinessPlanData };
+}
+
+const LEVIERS: Levier[] = [
+  {
+    cle: 'croissance_ca',
+    label: 'Croissance du CA (horaires, travaux, croissance annuelle)',
+    unite: '%',
+    valeurBase: r => Math.round((r.impactHoraires + r.impactTravaux) * 1000) / 10,
+    appliquer: (hypotheses, data, r, facteur) => ({
+      hypotheses: {
+        ...hypotheses,
+        extensionHoraires: { ...hypotheses.extensionHoraires, impactEstime: r.impactHoraires * facteur },
+        travaux: {
+          ...hypotheses.travaux,
+          impactAnnee2: r.impactTravaux * facteur,
+          impactRecurrent: r.croissanceRecurrente * facteur
+        }
+      },
+      data
+    })
+  },
+  {
+    cle: 'marge_marchandises',
+    label: 'Taux de marge sur marchandises',
+    unite: '%',
+    valeurBase: r => Math.round(r.tauxMargeMarchandises * 1000) / 10,
+    appliquer: (hypotheses, data, r, facteur) => ({
+      hypotheses: { ...hypotheses, tauxMargeMarchandises: r.tauxMargeMarchandises * facteur },
+      data
+    })
+  },
+  {
+    cle: 'loyer',
+    label: 'Loyer annuel',
+    unite: '€',
+    valeurBase: r => r.loyerNegocie,
+    appliquer: (hypotheses, data, r, facteur) => ({
+      hypotheses: { ...hypotheses, loyerNegocie: r.loyerNegocie * facteur },
+      data
+    })
+  },
+  {
+    cle: 'salaires',
+    label: 'Frais de personnel',
+    unite: '€',
+    valeurBase: r => r.salaires,
+    appliquer: (hypotheses, data, r, facteur) => ({
+      hypotheses,
+      data: { ...data, userComments: { ...data.userComments, frais_personnel_N1: r.salaires * facteur } }
+    })
+  },
+  {
+    cle: 'taux_emprunt',
+    label: 'Taux d\'emprunt',
+    unite: '%',
+    valeurBase: r => r.tauxEmprunt,
+    appliquer: (hypotheses, data, r, facteur) => ({
+      hypotheses: { ...hypotheses, tauxEmprunt: r.tauxEmprunt * facteur },
+      data
+    })
+  },
+  {
+    cle: 'duree_emprunt',
+    label: 'Durée de l\'emprunt',
+    unite: 'mois',
+    valeurBase: r => r.dureeEmpruntMois,
+    appliquer: (hypotheses, data, r, facteur) => ({
+      hypotheses: { ...hypotheses, dureeEmpruntMois: Math.max(1, Math.round(r.dureeEmpruntMois * facteur)) },
+      data
+    })
+  }
+];
+
+export interface SensitivityIndicateurs {
+  ratioCouvertureDette: number;
+  pointMort: number;
+  delaiRetourInvestissement: number;
+}
+
+export interface TornadoEntry {
+  cle: LevierCle;
+  label: string;
+  unite: string;
+  valeur_base: number;
+  variations: Array<{ variation_pct: number; valeur: number } & SensitivityIndicateurs>;
+  ratio_min: number;
+  ratio_max: number;
+  amplitude: number;
+}
+
+export interface SeuilEntry {
+  cle: LevierCle;
+  label: string;
+  unite: string;
+  valeur_base: number;
+  valeur_seuil: number | null;
+  variation_pct: number | null;
+  statut: 'seuil_trouve' | 'deja_sous_seuil' | 'hors_plage';
+}
+
+export interface SensitivityResult {
+  base: SensitivityIndicateurs;
+  seuil_ratio: number;
+  tornado: TornadoEntry[];
+  seuils: SeuilEntry[];
+  synthese: string;
+}
+
+/**
+ * Calcule le tornado et la table des seuils pour un jeu d'hypothèses
+ */
+export function computeSensitivity(
+  hypotheses: HypothesesRepreneur,
+  data: BusinessPlanData,
+  options: { variations?: number[]; seuilRatio?: number } = {}
+): SensitivityResult {
+  const variations = options.variations?.length ? options.variations : SENSITIVITY_DEFAULTS.VARIATIONS_PCT;
+  const seuilRatio = options.seuilRatio ?? SENSITIVITY_DEFAULTS.SEUIL_RATIO_COUVERTURE;
+
+  const reference = computeBusinessPlan(hypotheses, data, { silencieux: true });
+  const { resolved } = reference;
+  if (reference.result.indicateursBancaires.annuiteEmprunt <= 0) {
+    throw new Error('Pas d\'emprunt : ratio de couverture de la dette non applicable');
+  }
+  const base = indicateurs(reference);
+
+  // Le levier marge n'a d'effet que si le CA comporte des ventes de marchandises
+  const leviers = LEVIERS.filter(levier =>
+    levier.valeurBase(resolved) > 0 &&
+    (levier.cle !== 'marge_marchandises' || reference.result.projections[0]?.ventes_marchandises > 0)
+  );
+
+  const evaluer = (levier: Levier, facteur: number): SensitivityIndicateurs => {
+    const perturbe = levier.appliquer(hypotheses, data, resolved, facteur);
+    return indicateurs(computeBusinessPlan(perturbe.hypotheses, perturbe.data, { silencieux: true }));
+  };
+
+  const tornado: TornadoEntry[] = leviers.map(levier => {
+    const valeurBase = levier.valeurBase(resolved);
+    const points = variations.map(pct => ({
+      variation_pct: pct,
+      valeur: arrondir(valeurBase * (1 + pct / 100), levier.unite),
+      ...evaluer(levier, 1 + pct / 100)
+    }));
+    const ratios = [base.ratioCouvertureDette, ...points.map(p => p.ratioCouvertureDette)];
+    const ratioMin = Math.min(...ratios);
+    const ratioMax = Math.max(...ratios);
+
+    return {
+      cle: levier.cle,
+      label: levier.label,
+      unite: levier.unite,
+      valeur_base: valeurBase,
+      variations: points,
+      ratio_min: ratioMin,
+      ratio_max: ratioMax,
+      amplitude: Math.round((ratioMax - ratioMin) * 100) / 100
+    };
+  }).sort((a, b) => b.amplitude - a.amplitude);
+
+  const seuils: SeuilEntry[] = leviers.map(levier => {
+    const valeurBase = levier.valeurBase(resolved);
+    const entry = { cle: levier.cle, label: levier.label, unite: levier.unite, valeur_base: valeurBase };
+
+    if (base.ratioCouvertureDette < seuilRatio) {
+      return { ...entry, valeur_seuil: null, variation_pct: null, statut: 'deja_sous_seuil' as const };
+    }
+
+    const facteur = chercherSeuil(f => evaluer(levier, f).ratioCouvertureDette, seuilRatio);
+    if (facteur === null) {
+      return { ...entry, valeur_seuil: null, variation_pct: null, statut: 'hors_plage' as const };
+    }
+
+    return {
+      ...entry,
+      valeur_seuil: arrondir(valeurBase * facteur, levier.unite),
+      variation_pct: Math.round((facteur - 1) * 1000) / 10,
+      statut: 'seuil_trouve' as const
+    };
+  });
+
+  return {
+    base,
+    seuil_ratio: seuilRatio,
+    tornado,
+    seuils,
+    synthese: genererSynthese(base, tornado, seuils, seuilRatio)
+  };
+}
+
+/**
+ * Multiplicateur du levier pour lequel le ratio atteint le seuil (dichotomie), null si hors plage.
+ * Le sens de recherche est déduit de l'effet d'une hausse du levier sur le ratio.
+ */
+function chercherSeuil(ratio: (facteur: number) => number, seuil: number): number | null {
+  const { FACTEUR_MIN, FACTEUR_MAX, ITERATIONS_DICHOTOMIE } = SENSITIVITY_DEFAULTS;
+  const hausseDegrade = ratio(1.1) < ratio(0.9);
+  let bon = 1;
+  let mauvais = hausseDegrade ? FACTEUR_MAX : FACTEUR_MIN;
+
+  if (ratio(mauvais) >= seuil) return null;
+
+  for (let i = 0; i < ITERATIONS_DICHOTOMIE; i++) {
+    const milieu = (bon + mauvais) / 2;
+    if (ratio(milieu) >= seuil) bon = milieu;
+    else mauvais = milieu;
+  }
+  return mauvais;
+}
+
+function indicateurs({ result }: BusinessPlanComputation): SensitivityIndicateurs {
+  const { ratioCouvertureDette, pointMort, delaiRetourInvestissement } = result.indicateursBancaires;
+  return { ratioCouvertureDette, pointMort, delaiRetourInvestissement };
+}
+
+function arrondir(valeur: number, unite: string): number {
+  return unite === '%' ? Math.round(valeur * 100) / 100 : Math.round(valeur);
+}
+
+/**
+ * Générer synthèse de l'analyse de sensibilité
+ */
+function genererSynthese(
+  base: SensitivityIndicateurs,
+  tornado: TornadoEntry[],
+  seuils: SeuilEntry[],
+  seuilRatio: number
+): string {
+  if (tornado.length === 0) return 'Aucun levier exploitable pour l\'analyse de sensibilité.';
+
+  let synthese = `Ratio de couverture actuel : ${base.ratioCouvertureDette}x. `;
+  synthese += `Levier le plus sensible : ${tornado[0].label.toLowerCase()} (ratio entre ${tornado[0].ratio_min}x et ${tornado[0].ratio_max}x). `;
+
+  if (base.ratioCouvertureDette < seuilRatio) {
+    synthese += `⚠️ Le ratio est déjà sous le seuil bancaire de ${seuilRatio}x.`;
+    return synthese;
+  }
+
+  const critiques = seuils
+    .filter(s => s.statut === 'seuil_trouve' && s.variation_pct !== null && Math.abs(s.variation_pct) <= 20);
+  if (critiques.length > 0) {
+    synthese += `⚠️ Le ratio passe sous ${seuilRatio}x pour une variation de moins de 20% de : `;
+    synthese += critiques.map(s => `${s.label.toLowerCase()} (${s.variation_pct! > 0 ? '+' : ''}${s.variation_pct}%)`).join(', ') + '.';
+  } else {
+    synthese += `✅ Aucune variation de ±20% d'un levier isolé ne fait passer le ratio sous ${seuilRatio}x.`;
+  }
+
+  return synthese;
+}
+
+const SensitivityAnalysisInputSchema = z.object({
+  hypotheses: HypothesesRepreneurSchema.optional().describe('Hypothèses du business plan (sera lu depuis state.businessPlan si non fourni)'),
+  variations: z.array(z.number()).optional().describe('Variations en % appliquées à chaque levier (défaut: -20, -10, +10, +20)'),
+  seuilRatio: z.number().optional().describe('Seuil bancaire du ratio de couverture (défaut 1.2)')
+});
+
+export const sensitivityAnalysisTool = new FunctionTool({
+  name: 'sensitivityAnalysis',
+  description: 'Analyse de sensibilité (tornado) du business plan : fait varier chaque levier (croissance CA, marge, loyer, salaires, taux, durée) de ±10/20% et mesure l\'effet sur le ratio de couverture de la dette, le point mort et le délai de retour. Calcule le seuil de chaque levier pour un ratio < 1.2.',
+  parameters: zToGen(SensitivityAnalysisInputSchema),
+
+  execute: async (params, toolContext?: ToolContext) => {
+    try {
+      const data: BusinessPlanData = {
+        comptable: readState(toolContext, 'comptable'),
+        valorisation: readState(toolContext, 'valorisation'),
+        immobilier: readState(toolContext, 'immobilier'),
+        userComments: readUntypedState(toolContext, 'userComments'),
+        businessInfo: readUntypedState(toolContext, 'businessInfo'),
+        projectionLoyer: readUntypedState(toolContext, 'projectionLoyer')
+      };
+
+      if (!data.comptable?.sig || !data.comptable?.yearsAnalyzed?.length) {
+        return { error: 'Missing SIG data' };
+      }
+
+      const hypotheses = params.hypotheses || readUntypedState(toolContext, 'businessPlan')?.hypotheses;
+      if (!hypotheses) {
+        return { error: 'Missing hypotheses (params or state.businessPlan) - call businessPlanDynamique first' };
+      }
+
+      const result = computeSensitivity(hypotheses, data, {
+        variations: params.variations,
+        seuilRatio: params.seuilRatio
+      });
+
+      if (toolContext?.state) {
+        toolContext.state.set('businessPlanSensitivity', result);
+      }
+
+      console.log(`[sensitivityAnalysis] ✅ ${result.tornado.length} leviers analysés (ratio actuel: ${result.base.ratioCouvertureDette}x, levier principal: ${result.tornado[0]?.cle || 'aucun'})`);
+
+      return result;
+
+    } catch (error: any) {
+      if (error instanceof FinancialStateError) {
+        return error.toToolError();
+      }
+      return {
+        error: error.message || 'Sensitivity analysis failed'
+      };
+    }
+  }
+});
@@ -0,0 +1,391 @@
+import { z } from 'zod';
+import { FunctionTool } from '@google/adk';
+import type { ToolContext } from '@google/adk';
+import { zToGen } from '../../../utils/schemaHelper';
+import { getSigValue, type FinancialValidationOutput } from '../../schemas/financialStateSchema';
+import type { AlertEvaluationContext, DeterministicAlert } from '../../schemas/alertRulesSchema';
+import { readState, readUntypedState, FinancialStateError } from '../../state/readState';
+import { findSectorBenchmark, DEFAULT_BENCHMARK } from '../../config/sectorBenchmarks';
+import { findSeasonalityProfile } from '../../config/seasonalityProfiles';
+import { isTabacCommerce } from '../../config/tabacValuationCoefficients';
+import { ALERT_RULES } from '../../config/alertRules';
+import { buildAlert } from '../validation/generateDeterministicAlertsTool';
+import {
+  buildLoans,
+  computeAmortizationSchedule,
+  selectMontage,
+  financementParamsFromMontage,
+  FINANCING_DEFAULTS
+} from './loanSchedule';
+
+/**
+ * Treasury Plan Tool
+ *
+ * Plan de trésorerie mensuel des 12 (ou 24) premiers mois après la reprise :
+ * - CA mensualisé selon la saisonnalité (CA mensuel saisi, sinon profil sectoriel)
+ * - constitution du stock au démarrage (rotation des stocks constatée ou sectorielle)
+ * - TVA collectée / déductible payée le mois suivant, remboursement de la TVA d'acquisition
+ * - échéances des prêts (loanSchedule.ts), cotisations sociales TNS du dirigeant
+ *   (forfait de début d'activité puis régularisation en année 2)
+ *
+ * Donne le point bas de trésorerie et indique si le fonds de roulement financé par
+ * l'apport et les prêts le couvre. Les montants annuels viennent de state.businessPlan
+ * (année 1 / année 2), à défaut du dernier exercice comptable.
+ * Résultat injecté dans state.planTresorerie (rapport HTML). Le plan n'existe qu'après
+ * le business plan : l'alerte TRESO_006 est évaluée ici et ajoutée aux alertes
+ * déterministes de state.financialValidation.
+ */
+
+export const TREASURY_DEFAULTS = {
+  NB_MOIS: 12,
+  TAUX_TVA: 0.20,
+  TAUX_COTISATIONS_TNS: 0.45,
+  // Cotisations provisionnelles forfaitaires de début d'activité (par mois)
+  FORFAIT_TNS_MENSUEL: 300
+};
+
+const MOIS_LABELS = ['janv.', 'févr.', 'mars', 'avr.', 'mai', 'juin', 'juil.', 'août', 'sept.', 'oct.', 'nov.', 'déc.'];
+
+/** Données du state utilisées par le calcul */
+export interface TreasuryPlanData {
+  comptable: any;
+  userComments: any;
+  businessInfo: any;
+  businessPlan: any;
+}
+
+export interface TreasuryPlanOptions {
+  nbMois?: number;
+  /** Mois calendaire de la reprise (1 = janvier) */
+  moisDebut?: number;
+  /** CA mensuel saisi (12 valeurs, janvier → décembre) */
+  caMensuel?: number[];
+  /** Rémunération annuelle du dirigeant (base des cotisations TNS) */
+  remunerationDirigeant?: number;
+  tresorerieInitiale?: number;
+  stockInitial?: number;
+  tauxTva?: number;
+}
+
+export interface MoisTresorerie {
+  mois: number;
+  label: string;
+  ca_ht: number;
+  encaissements: number;
+  remboursement_tva: number;
+  achats: number;
+  stock: number;
+  salaires: number;
+  loyer: number;
+  autres_charges: number;
+  tva_nette: number;
+  cotisations_tns: number;
+  remuneration_dirigeant: number;
+  service_dette: number;
+  decaissements: number;
+  flux_net: number;
+  tresorerie_fin: number;
+}
+
+export interface PlanTresorerie {
+  source: 'business_plan' | 'comptes';
+  saisonnalite: string;
+  tresorerie_initiale: number;
+  mois: MoisTresorerie[];
+  tresorerie_min: number;
+  mois_min: string;
+  besoin_financement: number;
+  apport_personnel: number;
+  apport_couvre: boolean;
+  synthese: string;
+}
+
+interface AnneeActivite {
+  ca: number;
+  achats: number;
+  salaires: number;
+  loyer: number;
+  autresCharges: number;
+}
+
+/**
+ * Calcule le plan de trésorerie mensuel (sans effet sur le state)
+ */
+export function computeTreasuryPlan(data: TreasuryPlanData, options: TreasuryPlanOptions = {}): PlanTresorerie {
+  const { comptable, userComments, businessInfo, businessPlan } = data;
+  const nbMois = options.nbMois || TREASURY_DEFAULTS.NB_MOIS;
+  const moisDebut = options.moisDebut || 1;
+  const tauxTva = options.tauxTva ?? TREASURY_DEFAULTS.TAUX_TVA;
+  const secteur = businessInfo?.secteurActivite || '';
+
+  // ========================================
+  // ÉTAPE 1: Activité annuelle (business plan, sinon dernier exercice)
+  // ========================================
+  const projections: any[] = businessPlan?.projections || [];
+  const source: PlanTresorerie['source'] = projections[1] ? 'business_plan' : 'comptes';
+  let annees: AnneeActivite[];
+  let partCaSoumisTva = 1;
+
+  if (source === 'business_plan') {
+    annees = [projections[1], projections[2] || projections[1]].map(p => ({
+      ca: p.ca || 0,
+      achats: p.marge_brute_globale > 0 ? Math.max(0, p.ca - p.marge_brute_globale) : 0,
+      salaires: p.charges_detail?.salaires || 0,
+      loyer: p.charges_detail?.loyer || 0,
+      autresCharges: p.charges_detail?.autres_charges || 0
+    }));
+    // Tabac : commissions (tabac, jeux, presse) hors TVA
+    if (businessPlan.tabacInfo && projections[1].ca > 0) {
+      partCaSoumisTva = (projections[1].ventes_marchandises || 0) / projections[1].ca;
+    }
+  } else {
+    const years = comptable?.sig ? Object.keys(comptable.sig).sort() : [];
+    const sig = years.length > 0 ? comptable.sig[years[years.length - 1]] : undefined;
+    if (!sig) {
+      throw new Error('Missing SIG data and business plan');
+    }
+    const ca = getSigValue(sig, 'chiffre_affaires');
+    const chargesExternes = getSigValue(sig, 'autres_achats_charges_externes');
+    const valeurAjoutee = getSigValue(sig, 'valeur_ajoutee');
+    const benchmark = findSectorBenchmark(secteur) || DEFAULT_BENCHMARK;
+    // Achats consommés = CA - VA - charges externes, sinon marge brute sectorielle
+    const achats = valeurAjoutee > 0
+      ? Math.max(0, ca - valeurAjoutee - chargesExternes)
+      : Math.round(ca * (1 - benchmark.ratios.marge_brute_pct / 100));
+    const annee: AnneeActivite = {
+      ca,
+      achats,
+      salaires: getSigValue(sig, 'salaires_personnel') + getSigValue(sig, 'charges_sociales_personnel'),
+      loyer: 0, // inclus dans les charges externes
+      autresCharges: chargesExternes
+    };
+    annees = [annee, annee];
+    if (isTabacCommerce(secteur) && ca > 0) {
+      partCaSoumisTva = getSigValue(sig, 'ventes_marchandises') / ca;
+    }
+  }
+
+  // ========================================
+  // ÉTAPE 2: Saisonnalité
+  // ========================================
+  const caSaisi = options.caMensuel?.length === 12 && options.caMensuel.some(v => v > 0);
+  const profil = findSeasonalityProfile(secteur);
+  const brut = caSaisi ? options.caMensuel! : profil.coefficients;
+  const moyenne = brut.reduce((sum, v) => sum + v, 0) / 12;
+  const coefficients = brut.map(v => v / moyenne);
+
+  // ========================================
+  // ÉTAPE 3: Financement (échéances, apport, fonds de roulement)
+  // ========================================
+  const montage = selectMontage(userComments?.transactionFinancing);
+  const prets: any[] = businessPlan?.financement?.prets?.length
+    ? businessPlan.financement.prets
+    : montage
+      ? buildLoans(financementParamsFromMontage(montage))
+          .map(computeAmortizationSchedule)
+          .map(({ pret, ...tableau }) => ({ ...pret, ...tableau }))
+      : [];
+
+  const serviceDetteMois = (mois: number): number =>
+    prets.reduce((sum, p) => sum + (p.echeances?.find((e: any) => e.mois === mois)?.echeance || 0), 0);
+
+  // Remboursement de la TVA d'acquisition (finance le relais TVA le cas échéant)
+  const relais = prets.find(p => p.type === 'relais_tva');
+  const tvaAcquisition = Math.max(montage?.tva_sur_honoraires || 0, relais?.montant || 0);
+  const moisRemboursementTva = relais?.dureeMois || FINANCING_DEFAULTS.RELAIS_TVA_DUREE_MOIS;
+
+  // Stock de départ : rotation constatée, sinon sectorielle
+  const rotationStocks = comptable?.ratios?.rotation_stocks_jours
+    ?? (findSectorBenchmark(secteur) || DEFAULT_BENCHMARK).ratios.rotation_stocks_jours;
+  const stockInitial = options.stockInitial ?? Math.round(annees[0].achats * rotationStocks / 365);
+
+  const apportPersonnel = montage?.apport_personnel
+    || businessPlan?.hypotheses?.apportPersonnel
+    || 0;
+
+  // Trésorerie de départ = ressources - emplois + enveloppe stock / fonds de roulement
+  let tresorerieInitiale: number;
+  if (options.tresorerieInitiale !== undefined) {
+    tresorerieInitiale = options.tresorerieInitiale;
+  } else if (montage) {
+    const ressources = (montage.apport_personnel || 0) + (montage.pret_principal || 0)
+      + (montage.pret_relais_tva || 0) + (montage.credit_vendeur || 0);
+    tresorerieInitiale = ressources - (montage.total_investissement || 0) + (montage.stock_fonds_roulement || 0);
+  } else {
+    tresorerieInitiale = stockInitial;
+  }
+
+  // ========================================
+  // ÉTAPE 4: Cotisations TNS du dirigeant
+  // ========================================
+  const remunerationDirigeant = options.remunerationDirigeant || 0;
+  const cotisationsReellesAnnuelles = remunerationDirigeant * TREASURY_DEFAULTS.TAUX_COTISATIONS_TNS;
+  const forfaitAnnuel = TREASURY_DEFAULTS.FORFAIT_TNS_MENSUEL * 12;
+  const regularisationMensuelle = Math.max(0, cotisationsReellesAnnuelles - forfaitAnnuel) / 12;
+
+  // ========================================
+  // ÉTAPE 5: Mois par mois
+  // ========================================
+  const mois: MoisTresorerie[] = [];
+  let tresorerie = tresorerieInitiale;
+  let tvaAReporter = 0; // TVA nette du mois précédent (positive = à payer, négative = crédit)
+
+  for (let m = 1; m <= nbMois; m++) {
+    const annee = annees[m <= 12 ? 0 : 1];
+    const moisCalendaire = (moisDebut - 1 + m - 1) % 12;
+    const caHt = annee.ca * coefficients[moisCalendaire] / 12;
+    const achats = annee.ca > 0 ? annee.achats * caHt / annee.ca : 0;
+    const autresCharges = annee.autresCharges / 12;
+
+    const tvaCollectee = caHt * partCaSoumisTva * tauxTva;
+    const tvaDeductible = (achats + autresCharges) * tauxTva;
+
+    // TVA du mois précédent payée ce mois (crédit reporté s'il est négatif)
+    const tvaPayee = Math.max(0, tvaAReporter);
+    tvaAReporter = Math.min(0, tvaAReporter) + tvaCollectee - tvaDeductible;
+
+    const cotisationsTns = m <= 12
+      ? TREASURY_DEFAULTS.FORFAIT_TNS_MENSUEL
+      : Math.max(TREASURY_DEFAULTS.FORFAIT_TNS_MENSUEL, cotisationsReellesAnnuelles / 12) + regularisationMensuelle;
+
+    const remboursementTva = m === moisRemboursementTva ? tvaAcquisition : 0;
+    const stock = m === 1 ? stockInitial : 0;
+
+    const encaissements = caHt + tvaCollectee + remboursementTva;
+    const decaissements = (achats + autresCharges) * (1 + tauxTva) + stock + annee.salaires / 12 + annee.loyer / 12
+      + tvaPayee + cotisationsTns + remunerationDirigeant / 12 + serviceDetteMois(m);
+    const fluxNet = encaissements - decaissements;
+    tresorerie += fluxNet;
+
+    mois.push({
+      mois: m,
+      label: `M${m} (${MOIS_LABELS[moisCalendaire]})`,
+      ca_ht: Math.round(caHt),
+      encaissements: Math.round(encaissements),
+      remboursement_tva: Math.round(remboursementTva),
+      achats: Math.round(achats * (1 + tauxTva)),
+      stock: Math.round(stock),
+      salaires: Math.round(annee.salaires / 12),
+      loyer: Math.round(annee.loyer / 12),
+      autres_charges: Math.round(autresCharges * (1 + tauxTva)),
+      tva_nette: Math.round(tvaPayee),
+      cotisations_tns: Math.round(cotisationsTns),
+      remuneration_dirigeant: Math.round(remunerationDirigeant / 12),
+      service_dette: Math.round(serviceDetteMois(m)),
+      decaissements: Math.round(decaissements),
+      flux_net: Math.round(fluxNet),
+      tresorerie_fin: Math.round(tresorerie)
+    });
+  }
+
+  const pointBas = mois.reduce((min, m) => (m.tresorerie_fin < min.tresorerie_fin ? m : min), mois[0]);
+  const tresorerieMin = Math.min(Math.round(tresorerieInitiale), pointBas.tresorerie_fin);
+  const besoinFinancement = Math.max(0, -tresorerieMin);
+
+  let synthese = `Plan de trésorerie sur ${nbMois} mois (${caSaisi ? 'CA mensuel saisi' : `saisonnalité ${profil.sector.toLowerCase()}`}). `;
+  synthese += `Trésorerie de départ ${Math.round(tresorerieInitiale).toLocaleString('fr-FR')} €, `;
+  synthese += `point bas ${tresorerieMin.toLocaleString('fr-FR')} € en ${pointBas.label}. `;
+  synthese += besoinFinancement > 0
+    ? `⚠️ Le fonds de roulement financé (apport ${apportPersonnel.toLocaleString('fr-FR')} € + prêts) ne couvre pas ce point bas : besoin complémentaire de ${besoinFinancement.toLocaleString('fr-FR')} € (apport, découvert ou différé).`
+    : `✅ Le fonds de roulement financé (apport ${apportPersonnel.toLocaleString('fr-FR')} € + prêts) couvre le point bas.`;
+
+  return {
+    source,
+    saisonnalite: caSaisi ? 'CA mensuel saisi' : profil.sector,
+    tresorerie_initiale: Math.round(tresorerieInitiale),
+    mois,
+    tresorerie_min: tresorerieMin,
+    mois_min: pointBas.label,
+    besoin_financement: besoinFinancement,
+    apport_personnel: apportPersonnel,
+    apport_couvre: besoinFinancement === 0,
+    synthese
+  };
+}
+
+/**
+ * Réévalue l'alerte TRESO_006 (trésorerie négative) sur le plan calculé et la
+ * substitue dans les alertes déterministes de la validation
+ */
+export function applyTreasuryPlanAlert(
+  financialValidation: FinancialValidationOutput,
+  plan: PlanTresorerie
+): FinancialValidationOutput {
+  const rule = ALERT_RULES.find(r => r.id === 'TRESO_006');
+  const alerts = ((financialValidation.deterministicAlerts as DeterministicAlert[] | undefined) || [])
+    .filter(a => a.id !== 'TRESO_006');
+
+  const context: AlertEvaluationContext = {
+    comptable: null,
+    valorisation: null,
+    immobilier: null,
+    documentExtraction: null,
+    businessInfo: null,
+    planTresorerie: plan,
+    benchmark: null
+  };
+  const alert = rule ? buildAlert(rule, context) : null;
+
+  return {
+    ...financialValidation,
+    // Alerte critique : en tête de liste, comme après le tri par sévérité
+    deterministicAlerts: alert ? [alert, ...alerts] : alerts
+  };
+}
+
+const TreasuryPlanInputSchema = z.object({
+  nbMois: z.number().optional().describe('Horizon du plan en mois: 12 ou 24 (défaut 12)'),
+  moisDebut: z.number().optional().describe('Mois calendaire de la reprise, 1 = janvier (défaut: mois prochain)'),
+  caMensuel: z.array(z.number()).optional().describe('CA mensuel saisi par l\'utilisateur (12 valeurs, janvier → décembre) pour la saisonnalité'),
+  remunerationDirigeant: z.number().optional().describe('Rémunération annuelle prévue du dirigeant (base des cotisations TNS)'),
+  tresorerieInitiale: z.number().optional().describe('Trésorerie disponible au démarrage (défaut: déduite du plan de financement)'),
+  stockInitial: z.number().optional().describe('Stock à constituer au démarrage (défaut: rotation des stocks)')
+});
+
+export const treasuryPlanTool = new FunctionTool({
+  name: 'treasuryPlan',
+  description: 'Plan de trésorerie mensuel des 12-24 premiers mois après reprise (saisonnalité, constitution du stock, TVA, échéances des prêts, cotisations TNS). Donne le point bas de trésorerie et si l\'apport le couvre.',
+  parameters: zToGen(TreasuryPlanInputSchema),
+
+  execute: async (params, toolContext?: ToolContext) => {
+    try {
+      const data: TreasuryPlanData = {
+        comptable: readState(toolContext, 'comptable'),
+        userComments: readUntypedState(toolContext, 'userComments'),
+        businessInfo: readUntypedState(toolContext, 'businessInfo'),
+        businessPlan: readUntypedState(toolContext, 'businessPlan')
+      };
+
+      const result = computeTreasuryPlan(data, {
+        ...params,
+        moisDebut: params.moisDebut || (new Date().getMonth() + 1) % 12 + 1
+      });
+
+      if (toolContext?.state) {
+        toolContext.state.set('planTresorerie', result);
+
+        try {
+          const financialValidation = readState(toolContext, 'financialValidation');
+          if (financialValidation) {
+            toolContext.state.set('financialValidation', applyTreasuryPlanAlert(financialValidation, result));
+          }
+        } catch (e: any) {
+          console.warn('[treasuryPlan] ⚠️ financialValidation ignoré:', e.message);
+        }
+      }
+
+      console.log(`[treasuryPlan] ✅ ${result.mois.length} mois - point bas ${result.tresorerie_min.toLocaleString('fr-FR')} € (${result.mois_min})`);
+
+      return result;
+
+    } catch (error: any) {
+      if (error instanceof FinancialStateError) {
+        return { mois: [], ...error.toToolError() };
+      }
+      return {
+        mois: [],
+        error: error.message || 'Treasury plan calculation failed'
+      };
+    }
+  }
+});
@@ -13,6 +13,8 @@ import * as path from 'path';
  * les pages pertinentes (Bilan Actif, Bilan Passif, CR, SIG).
  *
  * Une seule requête Gemini pour tout le document au lieu d'une par page.
+ * Détecte aussi le régime de la liasse (2050 réel normal / 2033 simplifié) :
+ * les deux sont ensuite normalisés dans la même structure à l'extraction.
  */
 
 const AnalyzeDocumentStructureInputSchema = z.object({
@@ -23,6 +25,7 @@ const AnalyzeDocumentStructureOutputSchema = z.object({
   filename: z.string(),
   totalPages: z.number(),
   year: z.number().nullable(),
+  regime: z.enum(['reel_normal', 'simplifie']).nullable(),
   relevantPages: z.array(z.object({
     pageNumber: z.number(),
     pageType: z.enum(['bilan_actif', 'bilan_passif', 'compte_resultat', 'sig']),
@@ -47,6 +50,14 @@ IGNORE les pages suivantes:
 - Rapports d'audit narratifs
 - Pages avec uniquement du texte
 
+LIASSE FISCALE - REGIME:
+- "reel_normal": formulaires 2050 à 2059 (lignes codées en LETTRES: AA, DL, FA...)
+- "simplifie": formulaires 2033-A à 2033-G (lignes codées en CHIFFRES: 010, 120, 210...)
+- null: pas de liasse fiscale (plaquette de l'expert-comptable uniquement)
+- Le 2033-A contient ACTIF ET PASSIF sur la même page → une seule entrée "bilan_actif"
+- Le 2033-B (compte de résultat simplifié) → "compte_resultat"
+- Ignorer les 2033-C à 2033-G (immobilisations, provisions, déficits, effectifs)
+
 EXTRACTION DE L'ANNEE:
 - Cherche "Exercice clos le DD/MM/YYYY" ou "Période du ... au DD/MM/YYYY"
 - Format de sortie: YYYY (nombre entier, ex: 2023)
@@ -54,6 +65,7 @@ EXTRACTION DE L'ANNEE:
 REPONSE JSON UNIQUEMENT (pas de texte avant/après):
 {
   "year": 2023,
+  "regime": "reel_normal",
   "relevantPages": [
     { "pageNumber": 5, "pageType": "bilan_actif", "confidence": 0.95 },
     { "pageNumber": 6, "pageType": "bilan_passif", "confidence": 0.95 },
@@ -71,7 +83,7 @@ IMPORTANT:
 
 export const analyzeDocumentStructureTool = new FunctionTool({
   name: 'analyzeDocumentStructure',
-  description: 'Analyse un document COMPTA complet pour identifier les pages pertinentes (Bilan, CR, SIG) en une seule requête. Retourne les numéros de pages par type.',
+  description: 'Analyse un document COMPTA complet pour identifier les pages pertinentes (Bilan, CR, SIG) en une seule requête. Retourne les numéros de pages par type et le régime de la liasse (reel_normal / simplifie).',
   parameters: zToGen(AnalyzeDocumentStructureInputSchema),
 
   execute: async (params: { filename: string }, toolContext?: ToolContext) => {
@@ -87,6 +99,7 @@ export const analyzeDocumentStructureTool = new FunctionTool({
           filename,
           totalPages: 0,
           year: null,
+          regime: null,
           relevantPages: [],
           summary: '',
           error: 'GEMINI_API_KEY not configured'
@@ -105,6 +118,7 @@ export const analyzeDocumentStructureTool = new FunctionTool({
           filename,
           totalPages: 0,
           year: null,
+          regime: null,
           relevantPages: [],
           summary: '',
           error: 'No documents found in state.documents'
@@ -120,6 +134,7 @@ export const analyzeDocumentStructureTool = new FunctionTool({
           filename,
           totalPages: 0,
           year: null,
+          regime: null,
           relevantPages: [],
           summary: '',
           error: `Document ${filename} not found in state.documents`
@@ -142,6 +157,7 @@ export const analyzeDocumentStructureTool = new FunctionTool({
             filename,
             totalPages: 0,
             year: null,
+            regime: null,
             relevantPages: [],
             summary: '',
             error: 'Document content is not Buffer or string'
@@ -152,6 +168,7 @@ export const analyzeDocumentStructureTool = new FunctionTool({
           filename,
           totalPages: 0,
           year: null,
+          regime: null,
           relevantPages: [],
           summary: '',
           error: 'Document has no filePath or content'
@@ -204,6 +221,7 @@ export const analyzeDocumentStructureTool = new FunctionTool({
           filename,
           totalPages: 0,
           year: null,
+          regime: null,
           relevantPages: [],
           summary: '',
           error: `Failed to parse Gemini response: ${parseError.message}`
@@ -220,7 +238,9 @@ export const analyzeDocumentStructureTool = new FunctionTool({
           confidence: p.confidence || 0.8
         }));
 
-      console.log(`[analyzeDocumentStructure] Found ${relevantPages.length} relevant pages:`);
+      const regime = parsed.regime === 'reel_normal' || parsed.regime === 'simplifie' ? parsed.regime : null;
+
+      console.log(`[analyzeDocumentStructure] Found ${relevantPages.length} relevant pages (regime: ${regime || 'N/A'}):`);
       relevantPages.forEach((p: any) => {
         console.log(`  - Page ${p.pageNumber}: ${p.pageType} (confidence: ${p.confidence})`);
       });
@@ -229,6 +249,7 @@ export const analyzeDocumentStructureTool = new FunctionTool({
         filename,
         totalPages: 0, // Non déterminé sans pdf-lib
         year: parsed.year || null,
+        regime,
         relevantPages,
         summary: parsed.summary || `Found ${relevantPages.length} relevant pages`
       };
@@ -239,6 +260,7 @@ export const analyzeDocumentStructureTool = new FunctionTool({
         filename,
         totalPages: 0,
         year: null,
+        regime: null,
         relevantPages: [],
         summary: '',
         error: error.message
@@ -15,7 +15,8 @@ import { zToGen } from '../../../utils/schemaHelper';
  * - SIG (Soldes Intermediaires de Gestion)
  * - Autre (page non pertinente)
  *
- * Extrait egalement l'annee fiscale de la page.
+ * Extrait egalement l'annee fiscale de la page et le regime de la liasse
+ * (2050-2053 reel normal / 2033-A, 2033-B simplifie).
  */
 
 const AnalyzePageTypeInputSchema = z.object({
@@ -28,6 +29,7 @@ const AnalyzePageTypeOutputSchema = z.object({
   pageNumber: z.number(),
   pageType: z.enum(['bilan_actif', 'bilan_passif', 'compte_resultat', 'sig', 'autre']),
   year: z.number().nullable(),
+  regime: z.enum(['reel_normal', 'simplifie']).nullable(),
   confidence: z.number(),
   reasoning: z.string().optional(),
   error: z.string().optional()
@@ -63,6 +65,13 @@ CLASSIFICATION - Choisis UNE SEULE catégorie :
   - Pages avec peu ou pas de données chiffrées pertinentes
   - Attestations, certificats, rapports d'audit sans tableaux comptables
 
+LIASSE FISCALE - REGIME :
+- "reel_normal" : formulaires 2050, 2051, 2052, 2053 (lignes codees en LETTRES : AA, DL, FA, HN...)
+- "simplifie" : formulaires 2033-A, 2033-B (lignes codees en CHIFFRES : 010, 120, 210, 310...)
+- null : page hors liasse fiscale (plaquette de l'expert-comptable, SIG...)
+- Le 2033-A contient l'ACTIF ET le PASSIF sur la meme page → "bilan_actif"
+- Le 2033-B (compte de resultat simplifie) → "compte_resultat"
+
 EXTRACTION DE L'ANNEE :
 - Chercher "Exercice clos le DD/MM/YYYY" ou "Période du ... au DD/MM/YYYY"
 - Chercher les en-têtes de colonnes (N, N-1, 2023, 2022, etc.)
@@ -86,13 +95,14 @@ REPONSE JSON UNIQUEMENT :
 {
   "pageType": "bilan_actif" | "bilan_passif" | "compte_resultat" | "sig" | "autre",
   "year": 2023,
+  "regime": "reel_normal" | "simplifie" | null,
   "confidence": 0.85,
   "reasoning": "Page contenant le tableau ACTIF du bilan avec immobilisations et actif circulant. Année 2023 visible en en-tête de colonne."
 }`;
 
 export const analyzePageTypeTool = new FunctionTool({
   name: 'analyzePageType',
-  description: 'Classifie une page de document comptable avec Gemini Vision. Retourne le type de page (bilan_actif, bilan_passif, compte_resultat, sig, autre), l\'année fiscale et un score de confiance.',
+  description: 'Classifie une page de document comptable avec Gemini Vision. Retourne le type de page (bilan_actif, bilan_passif, compte_resultat, sig, autre), l\'année fiscale, le régime de la liasse (réel normal 2050 / simplifié 2033) et un score de confiance.',
   parameters: zToGen(AnalyzePageTypeInputSchema),
 
   execute: async (params: { pageBuffer: string; pageNumber: number; filename?: string }, toolContext?: ToolContext) => {
@@ -108,6 +118,7 @@ export const analyzePageTypeTool = new FunctionTool({
           pageNumber,
           pageType: 'autre' as const,
           year: null,
+          regime: null,
           confidence: 0,
           error: 'GEMINI_API_KEY not configured'
         };
@@ -154,6 +165,7 @@ export const analyzePageTypeTool = new FunctionTool({
           pageNumber,
           pageType: 'autre' as const,
           year: null,
+          regime: null,
           confidence: 0,
           error: `Failed to parse Gemini response: ${parseError.message}`
         };
@@ -163,12 +175,15 @@ export const analyzePageTypeTool = new FunctionTool({
       const validTypes = ['bilan_actif', 'bilan_passif', 'compte_resultat', 'sig', 'autre'];
       const pageType = validTypes.includes(parsed.pageType) ? parsed.pageType : 'autre';
 
-      console.log(`[analyzePageType] Page ${pageNumber}: ${pageType} (year: ${parsed.year || 'N/A'}, confidence: ${parsed.confidence})`);
+      const regime = parsed.regime === 'reel_normal' || parsed.regime === 'simplifie' ? parsed.regime : null;
+
+      console.log(`[analyzePageType] Page ${pageNumber}: ${pageType} (year: ${parsed.year || 'N/A'}, regime: ${regime || 'N/A'}, confidence: ${parsed.confidence})`);
 
       return {
         pageNumber,
         pageType: pageType as 'bilan_actif' | 'bilan_passif' | 'compte_resultat' | 'sig' | 'autre',
         year: parsed.year || null,
+        regime: regime as 'reel_normal' | 'simplifie' | null,
         confidence: parsed.confidence || 0,
         reasoning: parsed.reasoning
       };
@@ -179,6 +194,7 @@ export const analyzePageTypeTool = new FunctionTool({
         pageNumber,
         pageType: 'autre' as const,
         year: null,
+        regime: null,
         confidence: 0,
         error: error.message
       };
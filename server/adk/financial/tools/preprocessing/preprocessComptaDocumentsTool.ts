@@ -53,6 +53,11 @@ OBJECTIF: Identifier les numéros de TOUTES les pages contenant:
 4. SIG - Soldes Intermédiaires de Gestion (Marge commerciale, Valeur ajoutée, EBE)
    → Souvent sur 1 page
 
+LIASSE SIMPLIFIÉE (Cerfa 2033, lignes codées en chiffres 010, 120, 210...):
+- 2033-A : ACTIF ET PASSIF sur la même page → "bilan_actif"
+- 2033-B : compte de résultat simplifié → "compte_resultat"
+- Pas de SIG dans la liasse 2033 (ne pas en chercher si absent)
+
 IGNORE les pages suivantes:
 - Pages de garde, sommaires, attestations
 - Annexes textuelles sans tableaux chiffrés
@@ -2,6 +2,8 @@ import { z } from 'zod';
 import { FunctionTool } from '@google/adk';
 import type { ToolContext } from '@google/adk';
 import { zToGen } from '../../../utils/schemaHelper';
+import { getSigValue, type ComptableOutput, type DocumentExtractionOutput } from '../../schemas/financialStateSchema';
+import { readState } from '../../state/readState';
 
 /**
  * Analyze Bail Tool
@@ -69,16 +71,12 @@ export const analyzeBailTool = new FunctionTool({
 
   execute: async (params, toolContext?: ToolContext) => {
     try {
-      // Lire documentExtraction depuis state
-      let documentExtraction = toolContext?.state.get('documentExtraction') as any;
-
-      // Parser JSON string si nécessaire
-      if (typeof documentExtraction === 'string') {
-        try {
-          documentExtraction = JSON.parse(documentExtraction);
-        } catch (e) {
-          // Pas critique, on peut continuer avec manual_input
-        }
+      // Lire documentExtraction depuis state (pas critique, on peut continuer avec manual_input)
+      let documentExtraction: DocumentExtractionOutput | undefined;
+      try {
+        documentExtraction = readState(toolContext, 'documentExtraction');
+      } catch (e: any) {
+        console.warn('[analyzeBail] ⚠️ documentExtraction ignoré:', e.message);
       }
 
       // Lire businessInfo depuis state (pour code postal - estimation loyer marché)
@@ -103,15 +101,12 @@ export const analyzeBailTool = new FunctionTool({
         }
       }
 
-      // Lire comptable depuis state (pour loyer depuis compte de résultat)
-      let comptable = toolContext?.state.get('comptable') as any;
-
-      if (typeof comptable === 'string') {
-        try {
-          comptable = JSON.parse(comptable);
-        } catch (e) {
-          // Pas critique
-        }
+      // Lire comptable depuis state (pour loyer depuis compte de résultat, pas critique)
+      let comptable: ComptableOutput | undefined;
+      try {
+        comptable = readState(toolContext, 'comptable');
+      } catch (e: any) {
+        console.warn('[analyzeBail] ⚠️ comptable ignoré:', e.message);
       }
 
       const donneesManquantes: string[] = [];
@@ -194,17 +189,16 @@ export const analyzeBailTool = new FunctionTool({
           const sigYear = comptable.sig[lastYear];
 
           // Chercher dans detail_charges_externes.loyers_charges_locatives
-          if (sigYear?.detail_charges_externes?.loyers_charges_locatives) {
-            loyerAnnuelHC = sigYear.detail_charges_externes.loyers_charges_locatives;
+          const detailChargesExternes = sigYear?.detail_charges_externes as any;
+          if (detailChargesExternes?.loyers_charges_locatives) {
+            loyerAnnuelHC = detailChargesExternes.loyers_charges_locatives;
             loyerSource = 'comptabilite';
             loyerAnneeSource = lastYear;
             console.log(`[analyzeBail] Loyer depuis comptabilité ${lastYear}: ${loyerAnnuelHC}€`);
           }
           // Fallback: autres_achats_charges_externes (estimation grossière)
           else if (sigYear?.autres_achats_charges_externes) {
-            const chargesExternes = typeof sigYear.autres_achats_charges_externes === 'object'
-              ? sigYear.autres_achats_charges_externes.valeur
-              : sigYear.autres_achats_charges_externes;
+            const chargesExternes = getSigValue(sigYear, 'autres_achats_charges_externes');
 
             // Estimer ~30% des charges externes = loyer (heuristique sectorielle)
             if (chargesExternes > 0) {
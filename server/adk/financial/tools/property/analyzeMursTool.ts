@@ -2,6 +2,8 @@ import { z } from 'zod';
 import { FunctionTool } from '@google/adk';
 import type { ToolContext } from '@google/adk';
 import { zToGen } from '../../../utils/schemaHelper';
+import { compareWallsPurchase } from './wallsComparison';
+import { readState, FinancialStateError } from '../../state/readState';
 
 /**
  * Analyze Murs Tool
@@ -22,14 +24,29 @@ import { zToGen } from '../../../utils/schemaHelper';
  * - Sécurisation de l'emplacement
  * - Valorisation du patrimoine
  * - Charges de propriété (taxe foncière, entretien)
+ *
+ * Comparaison achat via SCI vs location sur la durée de détention (wallsComparison) :
+ * flux annuels des deux options, VAN de l'écart et durée d'équilibre.
  */
 
 const AnalyzeMursInputSchema = z.object({
   prix_demande: z.number().optional().describe('Prix de vente demandé par le propriétaire'),
   surface_m2: z.number().optional().describe('Surface des murs (sera lu depuis bail si non fourni)'),
-  prix_m2_zone: z.number().optional().describe('Prix moyen au m² dans la zone (pour estimation si prix non fourni)')
+  prix_m2_zone: z.number().optional().describe('Prix moyen au m² dans la zone (pour estimation si prix non fourni)'),
+  horizon_annees: z.number().optional().describe('Durée de détention pour la comparaison achat vs location (défaut: 10 ans)'),
+  apport: z.number().optional().describe('Apport du repreneur dans la SCI (défaut: frais de notaire + 20% du prix)'),
+  taux_emprunt: z.number().optional().describe('Taux du prêt immobilier de la SCI en % (défaut: 4)'),
+  duree_emprunt_ans: z.number().optional().describe('Durée du prêt immobilier en années (défaut: 15)'),
+  taxe_fonciere: z.number().optional().describe('Taxe foncière annuelle en € (défaut: 10% du loyer)'),
+  loyer_sci_annuel: z.number().optional().describe('Loyer refacturé par la SCI au fonds (défaut: loyer du bail)')
 });
 
+const WallsYearSchema = z.object({
+  annee: z.number(),
+  flux: z.number(),
+  flux_cumule: z.number()
+}).passthrough();
+
 const AnalyzeMursOutputSchema = z.object({
   murs: z.object({
     option_possible: z.boolean(),
@@ -40,7 +57,18 @@ const AnalyzeMursOutputSchema = z.object({
     rentabilite_brute_pct: z.number(),
     rentabilite_nette_pct: z.number(),
     recommandation: z.enum(['acheter', 'louer', 'negocier']),
-    arguments: z.array(z.string())
+    arguments: z.array(z.string()),
+    comparaison_achat_location: z.object({
+      hypotheses: z.record(z.string(), z.number()),
+      location: z.array(WallsYearSchema),
+      achat: z.array(WallsYearSchema),
+      van_location: z.number(),
+      van_achat: z.number(),
+      van_ecart: z.number(),
+      duree_equilibre_annees: z.number().nullable(),
+      option_retenue: z.enum(['achat', 'location']),
+      commentaire: z.string()
+    }).nullable().optional()
   }),
   error: z.string().optional()
 });
@@ -53,28 +81,7 @@ export const analyzeMursTool = new FunctionTool({
   execute: async (params, toolContext?: ToolContext) => {
     try {
       // Lire immobilier depuis state (pour avoir loyer)
-      let immobilier = toolContext?.state.get('immobilier') as any;
-
-      // Parser JSON string si nécessaire
-      if (typeof immobilier === 'string') {
-        try {
-          immobilier = JSON.parse(immobilier);
-        } catch (e) {
-          return {
-            murs: {
-              option_possible: false,
-              surface_m2: 0,
-              prix_m2_zone: 0,
-              valeur_estimee: 0,
-              rentabilite_brute_pct: 0,
-              rentabilite_nette_pct: 0,
-              recommandation: 'louer' as const,
-              arguments: ['Erreur parsing données immobilier']
-            },
-            error: 'Failed to parse immobilier state (invalid JSON)'
-          };
-        }
-      }
+      const immobilier = readState(toolContext, 'immobilier');
 
       // Lire businessInfo depuis state (pour localisation)
       let businessInfo = toolContext?.state.get('businessInfo') as any;
@@ -107,7 +114,7 @@ export const analyzeMursTool = new FunctionTool({
 
       // ÉTAPE 1 : Récupérer surface et loyer
       const surfaceM2 = params.surface_m2 || bail.surface_m2 || 0;
-      const loyerAnnuel = bail.loyer_annuel_hc;
+      const loyerAnnuel = bail.loyer_annuel_hc ?? 0;
 
       if (surfaceM2 === 0) {
         return {
@@ -201,6 +208,25 @@ export const analyzeMursTool = new FunctionTool({
       // Rentabilité nette
       arguments_.push(`📈 Rentabilité nette après charges : ${rentabiliteNettePct}%`);
 
+      // ÉTAPE 6 : Comparer achat via SCI et location sur la durée de détention
+      const comparaison = loyerAnnuel > 0
+        ? compareWallsPurchase({
+            prixMurs: prixDemande,
+            loyerAnnuel,
+            horizonAnnees: params.horizon_annees,
+            apport: params.apport,
+            tauxEmprunt: params.taux_emprunt,
+            dureeEmpruntAns: params.duree_emprunt_ans,
+            taxeFonciere: params.taxe_fonciere,
+            loyerSciAnnuel: params.loyer_sci_annuel
+          })
+        : null;
+
+      if (comparaison) {
+        arguments_.push(`🧮 ${comparaison.commentaire}`);
+        console.log(`[analyzeMurs] ✅ Achat vs location: VAN écart ${comparaison.van_ecart} €, équilibre ${comparaison.duree_equilibre_annees ?? '-'} ans`);
+      }
+
       // Avantages patrimoniaux
       if (recommandation === 'acheter' || recommandation === 'negocier') {
         arguments_.push('✅ Sécurisation de l\'emplacement (pas de risque de non-renouvellement du bail)');
@@ -219,11 +245,27 @@ export const analyzeMursTool = new FunctionTool({
           rentabilite_brute_pct: rentabiliteBrutePct,
           rentabilite_nette_pct: rentabiliteNettePct,
           recommandation,
-          arguments: arguments_
+          arguments: arguments_,
+          comparaison_achat_location: comparaison
         }
       };
 
     } catch (error: any) {
+      if (error instanceof FinancialStateError) {
+        return {
+          murs: {
+            option_possible: false,
+            surface_m2: 0,
+            prix_m2_zone: 0,
+            valeur_estimee: 0,
+            rentabilite_brute_pct: 0,
+            rentabilite_nette_pct: 0,
+            recommandation: 'louer' as const,
+            arguments: ['Données immobilier invalides']
+          },
+          ...error.toToolError()
+        };
+      }
       return {
         murs: {
           option_possible: false,
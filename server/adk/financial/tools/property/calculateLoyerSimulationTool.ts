@@ -3,6 +3,17 @@ import { FunctionTool } from '@google/adk';
 import type { ToolContext } from '@google/adk';
 import { zToGen } from '../../../utils/schemaHelper';
 import { logImmobilier } from '../../../utils/extractionLogger';
+import {
+  formatRentReference,
+  formatRentReferenceBasis,
+  getRentReferenceProvider,
+  normalizeRentActivity,
+  normalizeRentZone
+} from '../../config/rentReferences';
+import type { RentReferenceProvider } from '../../config/rentReferences';
+import type { RentReferenceMatch } from '../../schemas/rentReferenceSchema';
+import type { DocumentExtractionOutput, ImmobilierOutput } from '../../schemas/financialStateSchema';
+import { readState } from '../../state/readState';
 
 /**
  * Calculate Loyer Simulation Tool
@@ -21,6 +32,10 @@ import { logImmobilier } from '../../../utils/extractionLogger';
  * - Loyer marché estimé : surface × prix marché m²/an
  * - Économie potentielle : loyer actuel - loyer marché
  * - Impact sur EBE : +économie (si renégociation réussie)
+ *
+ * Prix marché : prixMarcheM2Annuel si fourni, sinon référence de loyers
+ * (config/rentReferences : commune INSEE → département → national, zone, activité).
+ * La référence retenue et son nombre d'observations sont cités dans loyerMarche.
  */
 
 const CalculateLoyerSimulationInputSchema = z.object({
@@ -63,6 +78,35 @@ const CalculateLoyerSimulationOutputSchema = z.object({
     renseigne: z.boolean()
   }),
 
+  loyerMarche: z.object({
+    prixM2Estime: z.number(),
+    prixM2Bas: z.number(),
+    prixM2Haut: z.number(),
+    annuelEstime: z.number(),
+    mensuelEstime: z.number(),
+    source: z.string().describe('Source: utilisateur ou referentiel'),
+    reference: z.object({
+      fournisseur: z.string(),
+      territoire: z.string(),
+      libelle: z.string(),
+      niveau: z.string(),
+      zone: z.string(),
+      activite: z.string(),
+      nb_references: z.number().optional(),
+      source: z.string(),
+      annee: z.number()
+    }).nullable(),
+    referenceLibelle: z.string()
+  }).nullable().optional(),
+
+  comparaison: z.object({
+    prixM2Actuel: z.number(),
+    ecartAnnuel: z.number(),
+    ecartPourcentage: z.number(),
+    appreciation: z.enum(['avantageux', 'marche', 'desavantageux']),
+    argument: z.string()
+  }).nullable().optional(),
+
   simulation: z.object({
     economieAnnuelle: z.number().nullable(),
     economieMensuelle: z.number().nullable(),
@@ -74,6 +118,109 @@ const CalculateLoyerSimulationOutputSchema = z.object({
   error: z.string().optional()
 });
 
+export interface LoyerMarcheInput {
+  loyerActuelAnnuel: number | null;
+  surfaceM2: number;
+  prixMarcheM2Annuel?: number;
+  codeInsee?: string;
+  codePostal?: string;
+  zone?: string;
+  typeCommerce?: string;
+  nafCode?: string;
+}
+
+export interface LoyerMarche {
+  prixM2Estime: number;
+  prixM2Bas: number;
+  prixM2Haut: number;
+  annuelEstime: number;
+  mensuelEstime: number;
+  source: 'utilisateur' | 'referentiel';
+  reference: RentReferenceMatch | null;
+  referenceLibelle: string;
+}
+
+export interface LoyerComparaison {
+  prixM2Actuel: number;
+  ecartAnnuel: number;          // Loyer actuel - loyer de marché (médiane)
+  ecartPourcentage: number;     // Écart en % du loyer de marché
+  appreciation: 'avantageux' | 'marche' | 'desavantageux';
+  argument: string;
+}
+
+/**
+ * Loyer de marché du local et positionnement du loyer actuel
+ * - Prix fourni par l'utilisateur : fourchette ±10 %
+ * - Sinon référence du fournisseur : médiane et quartiles (hors marché au-delà du 3e quartile)
+ */
+export function computeLoyerMarche(
+  input: LoyerMarcheInput,
+  provider: RentReferenceProvider = getRentReferenceProvider()
+): { loyerMarche: LoyerMarche; comparaison: LoyerComparaison | null } | null {
+  if (!(input.surfaceM2 > 0)) return null;
+
+  let loyerMarche: LoyerMarche;
+  if (input.prixMarcheM2Annuel && input.prixMarcheM2Annuel > 0) {
+    const prix = input.prixMarcheM2Annuel;
+    loyerMarche = {
+      prixM2Estime: prix,
+      prixM2Bas: Math.round(prix * 0.9),
+      prixM2Haut: Math.round(prix * 1.1),
+      annuelEstime: Math.round(prix * input.surfaceM2),
+      mensuelEstime: Math.round(prix * input.surfaceM2 / 12),
+      source: 'utilisateur',
+      reference: null,
+      referenceLibelle: 'Prix de marché renseigné'
+    };
+  } else {
+    const reference = provider.find({
+      codeInsee: input.codeInsee,
+      codePostal: input.codePostal,
+      zone: normalizeRentZone(input.zone),
+      activite: normalizeRentActivity(input.typeCommerce, input.nafCode)
+    });
+    if (!reference) return null;
+
+    loyerMarche = {
+      prixM2Estime: reference.loyer_m2_median,
+      prixM2Bas: reference.loyer_m2_q1,
+      prixM2Haut: reference.loyer_m2_q3,
+      annuelEstime: Math.round(reference.loyer_m2_median * input.surfaceM2),
+      mensuelEstime: Math.round(reference.loyer_m2_median * input.surfaceM2 / 12),
+      source: 'referentiel',
+      reference,
+      referenceLibelle: formatRentReference(reference)
+    };
+  }
+
+  if (!input.loyerActuelAnnuel || input.loyerActuelAnnuel <= 0) {
+    return { loyerMarche, comparaison: null };
+  }
+
+  const prixM2Actuel = Math.round(input.loyerActuelAnnuel / input.surfaceM2);
+  const ecartAnnuel = Math.round(input.loyerActuelAnnuel - loyerMarche.annuelEstime);
+  const ecartPourcentage = Math.round((ecartAnnuel / loyerMarche.annuelEstime) * 100);
+  const appreciation = prixM2Actuel > loyerMarche.prixM2Haut
+    ? 'desavantageux'
+    : prixM2Actuel < loyerMarche.prixM2Bas ? 'avantageux' : 'marche';
+
+  const base = `${prixM2Actuel.toLocaleString('fr-FR')} €/m²/an contre une médiane de ${loyerMarche.prixM2Estime.toLocaleString('fr-FR')} €/m²/an `
+    + `(fourchette ${loyerMarche.prixM2Bas.toLocaleString('fr-FR')}-${loyerMarche.prixM2Haut.toLocaleString('fr-FR')})`;
+  const preuve = loyerMarche.reference
+    ? ` — référence ${loyerMarche.reference.libelle}, ${formatRentReferenceBasis(loyerMarche.reference)} (${loyerMarche.reference.source}, ${loyerMarche.reference.annee})`
+    : '';
+  const argument = appreciation === 'desavantageux'
+    ? `Loyer hors marché : ${base}, au-dessus du 3e quartile${preuve}`
+    : appreciation === 'avantageux'
+      ? `Loyer avantageux : ${base}, sous le 1er quartile${preuve}`
+      : `Loyer conforme au marché : ${base}${preuve}`;
+
+  return {
+    loyerMarche,
+    comparaison: { prixM2Actuel, ecartAnnuel, ecartPourcentage, appreciation, argument }
+  };
+}
+
 export const calculateLoyerSimulationTool = new FunctionTool({
   name: 'calculateLoyerSimulation',
   description: 'Calcule la simulation de renégociation de loyer basée sur les données réelles : loyer actuel depuis comptabilité, nouveau loyer depuis userComments. Aucun scénario inventé.',
@@ -86,9 +233,11 @@ export const calculateLoyerSimulationTool = new FunctionTool({
       // ========================================
 
       // Lire immobilier (contient bail avec loyer_source)
-      let immobilier = toolContext?.state.get('immobilier') as any;
-      if (typeof immobilier === 'string') {
-        try { immobilier = JSON.parse(immobilier); } catch (e) {}
+      let immobilier: ImmobilierOutput | undefined;
+      try {
+        immobilier = readState(toolContext, 'immobilier');
+      } catch (e: any) {
+        console.warn('[calculateLoyerSimulation] ⚠️ immobilier ignoré:', e.message);
       }
 
       // Lire userComments (contient futur_loyer_commercial)
@@ -106,20 +255,22 @@ export const calculateLoyerSimulationTool = new FunctionTool({
       // ========================================
 
       // Lire documentExtraction pour transactionCosts
-      let documentExtraction = toolContext?.state.get('documentExtraction') as any;
-      if (typeof documentExtraction === 'string') {
-        try { documentExtraction = JSON.parse(documentExtraction); } catch (e) {}
+      let documentExtraction: DocumentExtractionOutput | undefined;
+      try {
+        documentExtraction = readState(toolContext, 'documentExtraction');
+      } catch (e: any) {
+        console.warn('[calculateLoyerSimulation] ⚠️ documentExtraction ignoré:', e.message);
       }
 
       // Source 1: Document de transaction (PRIORITAIRE)
-      const transactionCosts = documentExtraction?.transactionCosts;
+      const transactionCosts = documentExtraction?.transactionCosts as any;
       const loyerFromTransaction = transactionCosts?.loyer_annuel_actuel || 0;
 
       // Source 2: Bail/comptabilité
       const bail = immobilier?.bail;
       const loyerFromBail = bail?.loyer_annuel_hc || 0;
-      const bailSource = bail?.loyer_source || 'non_disponible';
-      const bailAnneeSource = bail?.loyer_annee_source || undefined;
+      const bailSource = (bail?.loyer_source as string | undefined) || 'non_disponible';
+      const bailAnneeSource = (bail?.loyer_annee_source as string | undefined) || undefined;
 
       // Source 3: UserComments (loyer_actuel_mensuel * 12)
       const loyerFromUserMensuel = userComments?.loyer?.loyer_actuel_mensuel || 0;
@@ -162,6 +313,31 @@ export const calculateLoyerSimulationTool = new FunctionTool({
 
       console.log('[calculateLoyerSimulation] Loyer actuel final:', loyerActuel);
 
+      // ========================================
+      // ÉTAPE 2b: Loyer de marché (prix fourni ou référence de loyers)
+      // ========================================
+      let businessInfo = toolContext?.state.get('businessInfo') as any;
+      if (typeof businessInfo === 'string') {
+        try { businessInfo = JSON.parse(businessInfo); } catch (e) {}
+      }
+
+      const marche = computeLoyerMarche({
+        loyerActuelAnnuel,
+        surfaceM2: params.surfaceM2 || bail?.surface_m2 || 0,
+        prixMarcheM2Annuel: params.prixMarcheM2Annuel,
+        codeInsee: businessInfo?.codeInsee,
+        codePostal: params.localisation?.codePostal || businessInfo?.codePostal,
+        zone: params.localisation?.zone,
+        typeCommerce: params.localisation?.typeCommerce || businessInfo?.secteurActiviteLabel || businessInfo?.activity,
+        nafCode: businessInfo?.secteurActivite
+      });
+
+      if (marche) {
+        console.log(`[calculateLoyerSimulation] ✅ Loyer marché: ${marche.loyerMarche.prixM2Estime} €/m²/an (${marche.loyerMarche.referenceLibelle})`);
+      } else {
+        console.log('[calculateLoyerSimulation] ⚠️ Loyer marché non estimé (surface ou référence indisponible)');
+      }
+
       // ========================================
       // ÉTAPE 3: Nouveau loyer (UNIQUEMENT depuis userComments)
       // ========================================
@@ -218,7 +394,7 @@ export const calculateLoyerSimulationTool = new FunctionTool({
       }
 
       // Log immobilier to extraction log
-      const siret = (toolContext?.state.get('businessInfo') as any)?.siret || 'unknown';
+      const siret = businessInfo?.siret || 'unknown';
       logImmobilier(siret, {
         simulationLoyer: {
           loyer_actuel: loyerActuel.annuel || undefined,
@@ -230,6 +406,8 @@ export const calculateLoyerSimulationTool = new FunctionTool({
       return {
         loyerActuel,
         nouveauLoyer,
+        loyerMarche: marche?.loyerMarche || null,
+        comparaison: marche?.comparaison || null,
         simulation,
         message
       };
@@ -2,6 +2,7 @@ import { z } from 'zod';
 import { FunctionTool } from '@google/adk';
 import type { ToolContext } from '@google/adk';
 import { zToGen } from '../../../utils/schemaHelper';
+import { readState, FinancialStateError } from '../../state/readState';
 
 /**
  * Estimate Droit au Bail Tool
@@ -52,25 +53,7 @@ export const estimateDroitBailTool = new FunctionTool({
   execute: async (params, toolContext?: ToolContext) => {
     try {
       // Lire immobilier depuis state (doit contenir bail analysé)
-      let immobilier = toolContext?.state.get('immobilier') as any;
-
-      // Parser JSON string si nécessaire
-      if (typeof immobilier === 'string') {
-        try {
-          immobilier = JSON.parse(immobilier);
-        } catch (e) {
-          return {
-            droit_au_bail_estime: 0,
-            methode_calcul: 'Impossible de calculer',
-            detail_calcul: {
-              methode_loyer: { coefficient: 0, valeur: 0 },
-              facteurs_valorisants: [],
-              facteurs_devalorisant: ['Erreur parsing données immobilier']
-            },
-            error: 'Failed to parse immobilier state (invalid JSON)'
-          };
-        }
-      }
+      const immobilier = readState(toolContext, 'immobilier');
 
       if (!immobilier?.bail) {
         return {
@@ -102,13 +85,14 @@ export const estimateDroitBailTool = new FunctionTool({
         facteursDevalorisant.push('Loyer désavantageux (au-dessus du marché)');
       }
 
-      // Facteur 2: Durée restante
-      if (bail.duree_restante_mois >= 72) {
+      // Facteur 2: Durée restante (si connue)
+      const dureeRestanteMois = bail.duree_restante_mois;
+      if (typeof dureeRestanteMois === 'number' && dureeRestanteMois >= 72) {
         coefficient += 0.3;
-        facteursValorisants.push(`Longue durée restante (${Math.round(bail.duree_restante_mois / 12)} ans)`);
-      } else if (bail.duree_restante_mois < 24) {
+        facteursValorisants.push(`Longue durée restante (${Math.round(dureeRestanteMois / 12)} ans)`);
+      } else if (typeof dureeRestanteMois === 'number' && dureeRestanteMois < 24) {
         coefficient -= 0.3;
-        facteursDevalorisant.push(`Durée restante courte (${Math.round(bail.duree_restante_mois / 12)} ans)`);
+        facteursDevalorisant.push(`Durée restante courte (${Math.round(dureeRestanteMois / 12)} ans)`);
       }
 
       // Facteur 3: Type de bail
@@ -130,7 +114,7 @@ export const estimateDroitBailTool = new FunctionTool({
       coefficient = Math.max(1.0, Math.min(3.0, coefficient));
 
       // ÉTAPE 2 : Calcul par méthode du loyer
-      const loyerAnnuel = bail.loyer_annuel_hc;
+      const loyerAnnuel = bail.loyer_annuel_hc ?? 0;
       const valeurMethodeLoyer = Math.round(loyerAnnuel * coefficient);
 
       // ÉTAPE 3 : Calcul par méthode du pourcentage (si valeur fonds fournie)
@@ -189,6 +173,18 @@ export const estimateDroitBailTool = new FunctionTool({
       };
 
     } catch (error: any) {
+      if (error instanceof FinancialStateError) {
+        return {
+          droit_au_bail_estime: 0,
+          methode_calcul: 'Impossible de calculer',
+          detail_calcul: {
+            methode_loyer: { coefficient: 0, valeur: 0 },
+            facteurs_valorisants: [],
+            facteurs_devalorisant: ['Données immobilier invalides']
+          },
+          ...error.toToolError()
+        };
+      }
       return {
         droit_au_bail_estime: 0,
         methode_calcul: 'Erreur lors du calcul',
@@ -2,26 +2,49 @@ import { z } from 'zod';
 import { FunctionTool } from '@google/adk';
 import type { ToolContext } from '@google/adk';
 import { zToGen } from '../../../utils/schemaHelper';
+import { TRAVAUX_COSTS, getTravauxItem, matchTravauxItem, travauxQuantity } from '../../config/travauxCosts';
+import type { TravauxCostLibrary, TravauxItem, TravauxUnit, TravauxUrgence } from '../../schemas/travauxCostSchema';
+import type { ImmobilierOutput } from '../../schemas/financialStateSchema';
+import { readState } from '../../state/readState';
 
 /**
  * Estimate Travaux Tool
  *
  * Estime les travaux nécessaires (obligatoires et recommandés).
- * Utilise l'analyse photos (si disponible) et règles métier.
+ * Chaque ligne est chiffrée depuis la bibliothèque de coûts (data/travaux-costs.json) :
+ * quantité (surface, unités ou forfait) × fourchette €/unité.
  *
  * Catégories de travaux:
  * 1. OBLIGATOIRES: Conformité ERP, accessibilité PMR, sécurité
  * 2. RECOMMANDÉS: Rafraîchissement, modernisation, amélioration
  *
  * Estimation basée sur:
- * - État général du local (si analyse photos disponible)
- * - Surface (coût au m²)
- * - Type de travaux standards
+ * - État général du local (analyse photos si disponible, sinon état déclaré)
+ * - Checklist ERP 5e catégorie / PMR : chaque point non satisfait devient une ligne chiffrée
+ * - Constats de l'analyse photos rattachés aux postes de la bibliothèque
+ *   (les constats sans poste correspondant sont listés mais non chiffrés)
+ * - Travaux personnalisés
  */
 
+const TravauxLigneSchema = z.object({
+  item_id: z.string().nullable(),
+  description: z.string(),
+  quantite: z.number(),
+  unite: z.string(),
+  estimation_basse: z.number(),
+  estimation_haute: z.number(),
+  sources: z.array(z.enum(['etat', 'checklist_erp', 'photo', 'custom'])),
+  constats: z.array(z.string())
+});
+
 const EstimateTravauxInputSchema = z.object({
   surface_m2: z.number().optional().describe('Surface du local (sera lu depuis bail si non fourni)'),
   etat_declare: z.enum(['bon', 'moyen', 'mauvais']).optional().describe('État déclaré par le vendeur'),
+  checklist_erp: z.array(z.object({
+    id: z.string().describe(`Point de contrôle: ${TRAVAUX_COSTS.checklist_erp.map(p => p.id).join(', ')}`),
+    conforme: z.boolean(),
+    commentaire: z.string().optional()
+  })).optional().describe('Points de la checklist ERP/PMR renseignés (vendeur, visite, diagnostic). Points absents = à vérifier'),
   travaux_custom: z.array(z.object({
     description: z.string(),
     estimation_basse: z.number(),
@@ -36,18 +59,25 @@ const EstimateTravauxOutputSchema = z.object({
     etat_general: z.enum(['bon', 'moyen', 'mauvais', 'non_evalue']),
     conformite_erp: z.enum(['conforme', 'a_verifier', 'non_conforme', 'inconnu']),
     accessibilite_pmr: z.boolean().nullable(),
-    travaux_obligatoires: z.array(z.object({
-      description: z.string(),
-      estimation_basse: z.number(),
-      estimation_haute: z.number(),
+    checklist_erp: z.array(z.object({
+      id: z.string(),
+      libelle: z.string(),
+      exigence: z.string(),
+      reference: z.string(),
+      pmr: z.boolean(),
+      statut: z.enum(['conforme', 'non_conforme', 'a_verifier']),
+      commentaire: z.string().optional(),
+      cout_bas: z.number(),
+      cout_haut: z.number()
+    })),
+    travaux_obligatoires: z.array(TravauxLigneSchema.extend({
       urgence: z.enum(['immediat', '6_mois', '12_mois'])
     })),
-    travaux_recommandes: z.array(z.object({
-      description: z.string(),
-      estimation_basse: z.number(),
-      estimation_haute: z.number(),
+    travaux_recommandes: z.array(TravauxLigneSchema.extend({
       impact: z.string()
     })),
+    constats_non_chiffres: z.array(z.string()),
+    bibliotheque_version: z.string(),
     budget_total: z.object({
       obligatoire_bas: z.number(),
       obligatoire_haut: z.number(),
@@ -58,23 +88,266 @@ const EstimateTravauxOutputSchema = z.object({
   error: z.string().optional()
 });
 
+type TravauxSource = 'etat' | 'checklist_erp' | 'photo' | 'custom';
+type EtatGeneral = 'bon' | 'moyen' | 'mauvais' | 'non_evalue';
+
+export type TravauxResult = z.infer<typeof EstimateTravauxOutputSchema>['travaux'];
+
+export interface PhotoConstat {
+  constat: string;
+  urgent: boolean;
+}
+
+export interface TravauxEstimateInput {
+  surfaceM2: number;
+  etatGeneral: EtatGeneral;
+  checklistErp?: { id: string; conforme: boolean; commentaire?: string }[];
+  constatsPhoto?: PhotoConstat[];
+  travauxCustom?: z.infer<typeof EstimateTravauxInputSchema>['travaux_custom'];
+}
+
+const URGENCE_ORDRE: TravauxUrgence[] = ['immediat', '6_mois', '12_mois'];
+
+/**
+ * État général depuis l'analyse photos : le plus dégradé entre devanture et intérieur
+ */
+export function etatFromPhoto(photo: any): EtatGeneral {
+  const etats = [photo?.etat_general?.interieur, photo?.etat_general?.devanture, photo?.condition]
+    .filter((e): e is string => typeof e === 'string')
+    .map(e => e.toLowerCase());
+
+  if (etats.some(e => e.includes('mauvais') || e.includes('médiocre'))) return 'mauvais';
+  if (etats.some(e => e.includes('moyen') || e.includes('correct'))) return 'moyen';
+  if (etats.some(e => e.includes('bon') || e.includes('excellent'))) return 'bon';
+  return 'non_evalue';
+}
+
+/**
+ * Constats de travaux de l'analyse photos (travaux urgents/recommandés/optionnels
+ * et postes du budget), dédoublonnés
+ */
+export function photoConstats(photo: any): PhotoConstat[] {
+  const constats = new Map<string, boolean>();
+  const add = (texte: unknown, urgent: boolean) => {
+    if (typeof texte !== 'string' || !texte.trim()) return;
+    constats.set(texte.trim(), (constats.get(texte.trim()) ?? false) || urgent);
+  };
+
+  (photo?.travaux?.urgents || []).forEach((t: unknown) => add(t, true));
+  (photo?.travaux?.recommandes || []).forEach((t: unknown) => add(t, false));
+  (photo?.travaux?.optionnels || []).forEach((t: unknown) => add(t, false));
+  (photo?.budget_travaux?.detail_postes || []).forEach((p: any) => add(p?.categorie, p?.priorite === 'urgente'));
+
+  return Array.from(constats, ([constat, urgent]) => ({ constat, urgent }));
+}
+
+/**
+ * Chiffre les travaux depuis la bibliothèque de coûts
+ */
+export function computeTravaux(input: TravauxEstimateInput, library: TravauxCostLibrary = TRAVAUX_COSTS): TravauxResult {
+  type Ligne = {
+    item_id: string | null;
+    description: string;
+    quantite: number;
+    unite: TravauxUnit;
+    estimation_basse: number;
+    estimation_haute: number;
+    sources: TravauxSource[];
+    constats: string[];
+    urgence?: TravauxUrgence;
+    impact?: string;
+    categorie: 'obligatoire' | 'recommande';
+  };
+  const lignes: Ligne[] = [];
+
+  const chiffrer = (item: TravauxItem) => {
+    const quantite = travauxQuantity(item, input.surfaceM2);
+    return {
+      quantite,
+      estimation_basse: Math.round(quantite * item.prix_bas),
+      estimation_haute: Math.round(quantite * item.prix_haut)
+    };
+  };
+
+  // Un poste n'apparaît qu'une fois : les sources et constats sont fusionnés
+  const ajouterPoste = (item: TravauxItem, source: TravauxSource, constat?: string, urgent = false) => {
+    let ligne = lignes.find(l => l.item_id === item.id);
+    if (!ligne) {
+      ligne = {
+        item_id: item.id,
+        description: item.libelle,
+        unite: item.unite,
+        ...chiffrer(item),
+        sources: [],
+        constats: [],
+        categorie: item.categorie,
+        urgence: item.urgence,
+        impact: item.impact
+      };
+      lignes.push(ligne);
+    }
+    if (!ligne.sources.includes(source)) ligne.sources.push(source);
+    if (constat && !ligne.constats.includes(constat)) ligne.constats.push(constat);
+    if (urgent && ligne.categorie === 'obligatoire') ligne.urgence = 'immediat';
+  };
+
+  // ÉTAPE 1 : Postes selon l'état général
+  if (input.etatGeneral !== 'non_evalue') {
+    for (const id of library.travaux_par_etat[input.etatGeneral]) {
+      ajouterPoste(getTravauxItem(id, library)!, 'etat');
+    }
+  }
+
+  // ÉTAPE 2 : Checklist ERP / PMR (chaque point non satisfait = ligne chiffrée)
+  const checklist = library.checklist_erp.map(point => {
+    const reponse = (input.checklistErp || []).find(r => r.id === point.id);
+    const item = getTravauxItem(point.travaux_id, library)!;
+    const statut = reponse === undefined ? 'a_verifier' as const : reponse.conforme ? 'conforme' as const : 'non_conforme' as const;
+    if (statut === 'non_conforme') {
+      ajouterPoste(item, 'checklist_erp', reponse?.commentaire);
+    }
+    const { estimation_basse, estimation_haute } = chiffrer(item);
+    return {
+      id: point.id,
+      libelle: point.libelle,
+      exigence: point.exigence,
+      reference: point.reference,
+      pmr: point.pmr,
+      statut,
+      ...(reponse?.commentaire ? { commentaire: reponse.commentaire } : {}),
+      cout_bas: estimation_basse,
+      cout_haut: estimation_haute
+    };
+  });
+
+  const inconnus = (input.checklistErp || []).filter(r => !library.checklist_erp.some(p => p.id === r.id));
+  if (inconnus.length > 0) {
+    console.warn(`[estimateTravaux] Points de checklist inconnus ignorés: ${inconnus.map(r => r.id).join(', ')}`);
+  }
+
+  const repondus = checklist.filter(p => p.statut !== 'a_verifier');
+  const conformiteErp = checklist.some(p => p.statut === 'non_conforme')
+    ? 'non_conforme' as const
+    : repondus.length === 0
+      ? 'inconnu' as const
+      : repondus.length === checklist.length ? 'conforme' as const : 'a_verifier' as const;
+
+  const pointsPmr = checklist.filter(p => p.pmr);
+  const accessibilitePmr = pointsPmr.some(p => p.statut === 'non_conforme')
+    ? false
+    : pointsPmr.length > 0 && pointsPmr.every(p => p.statut === 'conforme') ? true : null;
+
+  // ÉTAPE 3 : Constats photos rattachés aux postes de la bibliothèque
+  const constatsNonChiffres: string[] = [];
+  for (const { constat, urgent } of input.constatsPhoto || []) {
+    const item = matchTravauxItem(constat, library);
+    if (item) {
+      ajouterPoste(item, 'photo', constat, urgent);
+    } else {
+      constatsNonChiffres.push(constat);
+    }
+  }
+
+  // ÉTAPE 4 : Travaux personnalisés (montants fournis)
+  for (const travail of input.travauxCustom || []) {
+    lignes.push({
+      item_id: null,
+      description: travail.description,
+      quantite: 1,
+      unite: 'forfait',
+      estimation_basse: travail.estimation_basse,
+      estimation_haute: travail.estimation_haute,
+      sources: ['custom'],
+      constats: [],
+      categorie: travail.type,
+      urgence: travail.urgence,
+      impact: 'Travaux personnalisés identifiés'
+    });
+  }
+
+  const sansCategorie = (l: Ligne) => ({
+    item_id: l.item_id,
+    description: l.description,
+    quantite: l.quantite,
+    unite: l.unite,
+    estimation_basse: l.estimation_basse,
+    estimation_haute: l.estimation_haute,
+    sources: l.sources,
+    constats: l.constats
+  });
+  const travauxObligatoires = lignes
+    .filter(l => l.categorie === 'obligatoire')
+    .sort((a, b) => URGENCE_ORDRE.indexOf(a.urgence!) - URGENCE_ORDRE.indexOf(b.urgence!))
+    .map(l => ({ ...sansCategorie(l), urgence: l.urgence! }));
+  const travauxRecommandes = lignes
+    .filter(l => l.categorie === 'recommande')
+    .map(l => ({ ...sansCategorie(l), impact: l.impact || '' }));
+
+  // ÉTAPE 5 : Budget total
+  const somme = (liste: { estimation_basse: number; estimation_haute: number }[], cle: 'estimation_basse' | 'estimation_haute') =>
+    liste.reduce((sum, t) => sum + t[cle], 0);
+  const budgetTotal = {
+    obligatoire_bas: somme(travauxObligatoires, 'estimation_basse'),
+    obligatoire_haut: somme(travauxObligatoires, 'estimation_haute'),
+    recommande_bas: somme(travauxRecommandes, 'estimation_basse'),
+    recommande_haut: somme(travauxRecommandes, 'estimation_haute')
+  };
+
+  // Si aucun travaux, ajouter un message
+  if (travauxObligatoires.length === 0 && input.etatGeneral === 'bon') {
+    travauxObligatoires.push({
+      item_id: null,
+      description: 'Aucun travaux obligatoire identifié (local en bon état)',
+      quantite: 0,
+      unite: 'forfait',
+      estimation_basse: 0,
+      estimation_haute: 0,
+      sources: ['etat'],
+      constats: [],
+      urgence: '12_mois'
+    });
+  }
+
+  if (travauxRecommandes.length === 0 && input.etatGeneral === 'bon') {
+    travauxRecommandes.push({
+      item_id: null,
+      description: 'Aucun travaux recommandé (local en bon état)',
+      quantite: 0,
+      unite: 'forfait',
+      estimation_basse: 0,
+      estimation_haute: 0,
+      sources: ['etat'],
+      constats: [],
+      impact: 'Pas de travaux nécessaires'
+    });
+  }
+
+  return {
+    etat_general: input.etatGeneral,
+    conformite_erp: conformiteErp,
+    accessibilite_pmr: accessibilitePmr,
+    checklist_erp: checklist,
+    travaux_obligatoires: travauxObligatoires,
+    travaux_recommandes: travauxRecommandes,
+    constats_non_chiffres: constatsNonChiffres,
+    bibliotheque_version: library.version,
+    budget_total: budgetTotal
+  };
+}
+
 export const estimateTravauxTool = new FunctionTool({
   name: 'estimateTravaux',
-  description: 'Estime les travaux obligatoires et recommandés (conformité ERP, PMR, rafraîchissement). Utilise analyse photos si disponible. Retourne { travaux: { etat_general, travaux_obligatoires[], travaux_recommandes[], budget_total } }',
+  description: 'Estime les travaux obligatoires et recommandés depuis la bibliothèque de coûts (conformité ERP, PMR, rafraîchissement). Utilise analyse photos si disponible et la checklist ERP/PMR. Retourne { travaux: { etat_general, conformite_erp, checklist_erp[], travaux_obligatoires[], travaux_recommandes[], constats_non_chiffres[], budget_total } }',
   parameters: zToGen(EstimateTravauxInputSchema),
 
   execute: async (params, toolContext?: ToolContext) => {
     try {
-      // Lire immobilier depuis state (pour surface)
-      let immobilier = toolContext?.state.get('immobilier') as any;
-
-      // Parser JSON string si nécessaire
-      if (typeof immobilier === 'string') {
-        try {
-          immobilier = JSON.parse(immobilier);
-        } catch (e) {
-          // Pas critique
-        }
+      // Lire immobilier depuis state (pour surface, non critique)
+      let immobilier: ImmobilierOutput | undefined;
+      try {
+        immobilier = readState(toolContext, 'immobilier');
+      } catch (e: any) {
+        console.warn('[estimateTravaux] ⚠️ immobilier ignoré:', e.message);
       }
 
       // Lire photo depuis state (si analyse photos disponible)
@@ -89,21 +362,8 @@ export const estimateTravauxTool = new FunctionTool({
       }
 
       // ÉTAPE 1 : Déterminer l'état général
-      let etatGeneral: 'bon' | 'moyen' | 'mauvais' | 'non_evalue' = 'non_evalue';
-
-      // Priorité 1: Analyse photos (si disponible)
-      if (photo?.condition) {
-        const condition = photo.condition.toLowerCase();
-        if (condition.includes('bon') || condition.includes('excellent')) {
-          etatGeneral = 'bon';
-        } else if (condition.includes('moyen') || condition.includes('correct')) {
-          etatGeneral = 'moyen';
-        } else if (condition.includes('mauvais') || condition.includes('médiocre')) {
-          etatGeneral = 'mauvais';
-        }
-      }
-
-      // Priorité 2: État déclaré
+      // Priorité 1: Analyse photos (si disponible) - Priorité 2: État déclaré
+      let etatGeneral = etatFromPhoto(photo);
       if (etatGeneral === 'non_evalue' && params.etat_declare) {
         etatGeneral = params.etat_declare;
       }
@@ -111,135 +371,24 @@ export const estimateTravauxTool = new FunctionTool({
       // ÉTAPE 2 : Récupérer surface
       const surfaceM2 = params.surface_m2 || immobilier?.bail?.surface_m2 || 0;
 
-      // ÉTAPE 3 : Estimer travaux obligatoires
-      const travauxObligatoires: any[] = [];
-      const travauxRecommandes: any[] = [];
-
-      // Travaux standards selon état
-      if (etatGeneral === 'mauvais') {
-        // Mise aux normes électrique
-        travauxObligatoires.push({
-          description: 'Mise aux normes électriques (installation vétuste)',
-          estimation_basse: surfaceM2 > 0 ? surfaceM2 * 80 : 5000,
-          estimation_haute: surfaceM2 > 0 ? surfaceM2 * 120 : 8000,
-          urgence: 'immediat'
-        });
-
-        // Plomberie
-        travauxObligatoires.push({
-          description: 'Réfection plomberie et sanitaires',
-          estimation_basse: 3000,
-          estimation_haute: 6000,
-          urgence: 'immediat'
-        });
-
-        // Rafraîchissement
-        travauxRecommandes.push({
-          description: 'Peinture et sol (état dégradé)',
-          estimation_basse: surfaceM2 > 0 ? surfaceM2 * 50 : 3000,
-          estimation_haute: surfaceM2 > 0 ? surfaceM2 * 80 : 5000,
-          impact: 'Améliore image commerciale et valorise le fonds'
-        });
-      } else if (etatGeneral === 'moyen') {
-        // Électricité à vérifier
-        travauxObligatoires.push({
-          description: 'Diagnostic électrique et mise en conformité partielle',
-          estimation_basse: 2000,
-          estimation_haute: 4000,
-          urgence: '6_mois'
-        });
-
-        // Rafraîchissement
-        travauxRecommandes.push({
-          description: 'Rafraîchissement peinture et sols',
-          estimation_basse: surfaceM2 > 0 ? surfaceM2 * 30 : 2000,
-          estimation_haute: surfaceM2 > 0 ? surfaceM2 * 50 : 3500,
-          impact: 'Améliore présentation générale'
-        });
-      }
-
-      // Conformité ERP et PMR - uniquement si données concrètes disponibles
-      // NE PAS présumer de travaux sans diagnostic réel ou information du vendeur
-      let conformiteERP: 'conforme' | 'a_verifier' | 'non_conforme' | 'inconnu' = 'inconnu';
-      let accessibilitePMR: boolean | null = null;
-
-      // Les travaux PMR/ERP ne sont ajoutés que si:
-      // 1. L'analyse photos a détecté des problèmes d'accessibilité
-      // 2. Le vendeur a fourni des informations sur la conformité
-      // 3. L'utilisateur a spécifié des travaux personnalisés
-      // Sinon, on indique simplement que c'est à vérifier lors de la due diligence
-
-      // Utiliser analyse photos si disponible pour travaux
-      if (photo?.renovation_needed && photo.cost_estimate) {
-        travauxRecommandes.push({
-          description: `Travaux identifiés par analyse IA : ${photo.renovation_needed}`,
-          estimation_basse: Math.round(photo.cost_estimate * 0.8),
-          estimation_haute: Math.round(photo.cost_estimate * 1.2),
-          impact: 'Améliore état général du local selon analyse visuelle'
-        });
-      }
-
-      // Ajouter travaux personnalisés
-      if (params.travaux_custom && Array.isArray(params.travaux_custom)) {
-        for (const travail of params.travaux_custom) {
-          if (travail.type === 'obligatoire') {
-            travauxObligatoires.push({
-              description: travail.description,
-              estimation_basse: travail.estimation_basse,
-              estimation_haute: travail.estimation_haute,
-              urgence: travail.urgence
-            });
-          } else {
-            travauxRecommandes.push({
-              description: travail.description,
-              estimation_basse: travail.estimation_basse,
-              estimation_haute: travail.estimation_haute,
-              impact: 'Travaux personnalisés identifiés'
-            });
-          }
-        }
-      }
+      // ÉTAPE 3 : Chiffrer depuis la bibliothèque
+      // Conformité ERP et PMR - uniquement sur points renseignés (checklist) ou constats photos
+      // NE PAS présumer de travaux sans diagnostic réel ou information du vendeur :
+      // les points non renseignés restent "à vérifier" lors de la due diligence
+      const travaux = computeTravaux({
+        surfaceM2,
+        etatGeneral,
+        checklistErp: params.checklist_erp,
+        constatsPhoto: photo?.analyzed === false ? [] : photoConstats(photo),
+        travauxCustom: params.travaux_custom
+      });
 
-      // ÉTAPE 4 : Calculer budget total
-      const obligatoireBas = travauxObligatoires.reduce((sum, t) => sum + t.estimation_basse, 0);
-      const obligatoireHaut = travauxObligatoires.reduce((sum, t) => sum + t.estimation_haute, 0);
-      const recommandeBas = travauxRecommandes.reduce((sum, t) => sum + t.estimation_basse, 0);
-      const recommandeHaut = travauxRecommandes.reduce((sum, t) => sum + t.estimation_haute, 0);
-
-      // Si aucun travaux, ajouter un message
-      if (travauxObligatoires.length === 0 && etatGeneral === 'bon') {
-        travauxObligatoires.push({
-          description: 'Aucun travaux obligatoire identifié (local en bon état)',
-          estimation_basse: 0,
-          estimation_haute: 0,
-          urgence: '12_mois'
-        });
+      console.log(`[estimateTravaux] ✅ ${travaux.travaux_obligatoires.length} poste(s) obligatoire(s), ${travaux.travaux_recommandes.length} recommandé(s), conformité ERP: ${travaux.conformite_erp}`);
+      if (travaux.constats_non_chiffres.length > 0) {
+        console.log(`[estimateTravaux] ⚠️ ${travaux.constats_non_chiffres.length} constat(s) photo sans poste dans la bibliothèque`);
       }
 
-      if (travauxRecommandes.length === 0 && etatGeneral === 'bon') {
-        travauxRecommandes.push({
-          description: 'Aucun travaux recommandé (local en bon état)',
-          estimation_basse: 0,
-          estimation_haute: 0,
-          impact: 'Pas de travaux nécessaires'
-        });
-      }
-
-      return {
-        travaux: {
-          etat_general: etatGeneral,
-          conformite_erp: conformiteERP,
-          accessibilite_pmr: accessibilitePMR,
-          travaux_obligatoires: travauxObligatoires,
-          travaux_recommandes: travauxRecommandes,
-          budget_total: {
-            obligatoire_bas: obligatoireBas,
-            obligatoire_haut: obligatoireHaut,
-            recommande_bas: recommandeBas,
-            recommande_haut: recommandeHaut
-          }
-        }
-      };
+      return { travaux };
 
     } catch (error: any) {
       return {
@@ -247,8 +396,11 @@ export const estimateTravauxTool = new FunctionTool({
           etat_general: 'non_evalue',
           conformite_erp: 'inconnu',
           accessibilite_pmr: null,
+          checklist_erp: [],
           travaux_obligatoires: [],
           travaux_recommandes: [],
+          constats_non_chiffres: [],
+          bibliotheque_version: TRAVAUX_COSTS.version,
           budget_total: {
             obligatoire_bas: 0,
             obligatoire_haut: 0,
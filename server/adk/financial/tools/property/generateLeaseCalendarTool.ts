@@ -0,0 +1,103 @@
+import { z } from 'zod';
+import { FunctionTool } from '@google/adk';
+import type { ToolContext } from '@google/adk';
+import { zToGen } from '../../../utils/schemaHelper';
+import { readState, FinancialStateError } from '../../state/readState';
+import { buildLeaseCalendar } from './leaseCalendar';
+
+/**
+ * Generate Lease Calendar Tool
+ *
+ * Calcule les dates clés du bail analysé : échéances triennales et dates limites
+ * de congé (6 mois avant), fenêtre de demande de renouvellement, terme du bail,
+ * horizon de 12 ans (déplafonnement) et conversion d'un bail dérogatoire.
+ *
+ * Le calendrier est injecté dans state.calendrierBail : il alimente les alertes
+ * IMMO_XXX et l'export iCalendar (GET /api/analyze-financial/lease-calendar/:siret).
+ */
+
+const GenerateLeaseCalendarInputSchema = z.object({
+  dateEffet: z.string().optional().describe('Date d\'effet du bail AAAA-MM-JJ (défaut: state.immobilier.bail.date_effet)'),
+  dateFin: z.string().optional().describe('Date de fin du bail AAAA-MM-JJ (défaut: bail.date_fin)'),
+  typeBail: z.enum(['commercial_3_6_9', 'derogatoire', 'professionnel', 'mixte']).optional().describe('Type de bail (défaut: bail.type)')
+});
+
+const LeaseEventSchema = z.object({
+  date: z.string(),
+  date_fin: z.string().optional(),
+  type: z.string(),
+  titre: z.string(),
+  description: z.string(),
+  partie: z.enum(['preneur', 'bailleur', 'preneur_bailleur']),
+  passe: z.boolean()
+});
+
+const GenerateLeaseCalendarOutputSchema = z.object({
+  disponible: z.boolean(),
+  type_bail: z.string().optional(),
+  date_effet: z.string().optional(),
+  date_fin: z.string().optional(),
+  duree_restante_mois: z.number().optional(),
+  en_tacite_prolongation: z.boolean().optional(),
+  evenements: z.array(LeaseEventSchema).optional(),
+  prochain_evenement: LeaseEventSchema.nullable().optional(),
+  prochaine_sortie_triennale: z.object({ date: z.string(), preavis_avant: z.string() }).nullable().optional(),
+  fenetre_renouvellement: z.object({ debut: z.string(), fin: z.string().nullable() }).nullable().optional(),
+  derogatoire_jours_avant_conversion: z.number().nullable().optional(),
+  message: z.string().optional(),
+  error: z.string().optional()
+});
+
+export type GenerateLeaseCalendarOutput = z.infer<typeof GenerateLeaseCalendarOutputSchema>;
+
+export const generateLeaseCalendarTool = new FunctionTool({
+  name: 'generateLeaseCalendar',
+  description: 'Calcule le calendrier du bail : échéances triennales, dates limites de congé (6 mois avant), fenêtre de renouvellement, horizon 12 ans, conversion d\'un bail dérogatoire. Retourne { disponible, evenements[], prochain_evenement, duree_restante_mois, ... }',
+  parameters: zToGen(GenerateLeaseCalendarInputSchema),
+
+  execute: async (params, toolContext?: ToolContext) => {
+    try {
+      const bail = readState(toolContext, 'immobilier')?.bail;
+      const dateEffet = params.dateEffet || bail?.date_effet || '';
+
+      if (!dateEffet) {
+        console.log('[generateLeaseCalendar] ⚠️ Date d\'effet du bail non disponible');
+        return {
+          disponible: false,
+          message: 'Date d\'effet du bail non disponible : calendrier des échéances non calculable.'
+        };
+      }
+
+      const calendar = buildLeaseCalendar({
+        dateEffet,
+        dateFin: params.dateFin || bail?.date_fin || undefined,
+        typeBail: params.typeBail || bail?.type
+      });
+      const result = { disponible: true, ...calendar };
+
+      // Injecter dans le state pour les alertes et l'export .ics
+      if (toolContext?.state) {
+        toolContext.state.set('calendrierBail', result);
+      }
+
+      console.log(`[generateLeaseCalendar] ✅ ${calendar.evenements.length} dates clés, prochaine: ${calendar.prochain_evenement?.titre || 'aucune'} (${calendar.prochain_evenement?.date || '-'})`);
+
+      return result;
+
+    } catch (error: any) {
+      console.error('[generateLeaseCalendar] Erreur:', error);
+      if (error instanceof FinancialStateError) {
+        return {
+          disponible: false,
+          message: 'Données immobilier invalides',
+          ...error.toToolError()
+        };
+      }
+      return {
+        disponible: false,
+        message: 'Erreur lors du calcul du calendrier du bail',
+        error: error.message || 'Lease calendar generation failed'
+      };
+    }
+  }
+});
@@ -9,3 +9,5 @@ export { estimateDroitBailTool } from './estimateDroitBailTool';
 export { analyzeMursTool } from './analyzeMursTool';
 export { estimateTravauxTool } from './estimateTravauxTool';
 export { calculateLoyerSimulationTool } from './calculateLoyerSimulationTool';
+export { projectRentIndexationTool } from './projectRentIndexationTool';
+export { generateLeaseCalendarTool } from './generateLeaseCalendarTool';
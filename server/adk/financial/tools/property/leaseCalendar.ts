@@ -0,0 +1,322 @@
+/**
+ * Lease Calendar - Dates clés du bail commercial
+ *
+ * Fonctions pures utilisées par generateLeaseCalendarTool, les alertes IMMO_XXX
+ * et l'export iCalendar (.ics) par SIRET :
+ * - Bail 3-6-9 : échéances triennales et date limite du congé (6 mois avant, art. L145-4)
+ * - Fin de bail : préavis de congé (6 mois), fenêtre de demande de renouvellement
+ *   (6 mois précédant l'expiration, puis à tout moment en tacite prolongation, art. L145-10)
+ * - Horizon de 12 ans : au-delà, le loyer de renouvellement est déplafonné (art. L145-34)
+ * - Bail dérogatoire : conversion en bail commercial si le preneur reste en place
+ *   plus d'un mois après le terme sans opposition du bailleur (art. L145-5)
+ */
+
+import {
+  addDays,
+  addMonths,
+  addYears,
+  daysBetween,
+  formatFrDate,
+  formatIsoDate,
+  monthsBetween,
+  parseLeaseDate
+} from './leaseDates';
+
+export type LeaseEventType =
+  | 'prise_effet'
+  | 'echeance_triennale'
+  | 'preavis_triennal'
+  | 'preavis_conge'
+  | 'fenetre_renouvellement'
+  | 'fin_bail'
+  | 'horizon_deplafonnement'
+  | 'fin_derogatoire'
+  | 'conversion_derogatoire';
+
+export interface LeaseEvent {
+  date: string;                  // AAAA-MM-JJ
+  date_fin?: string;             // Fin de la fenêtre (ex: demande de renouvellement)
+  type: LeaseEventType;
+  titre: string;
+  description: string;
+  partie: 'preneur' | 'bailleur' | 'preneur_bailleur';
+  passe: boolean;
+}
+
+export interface LeaseCalendarInput {
+  dateEffet: string;             // AAAA-MM-JJ ou JJ/MM/AAAA
+  dateFin?: string;              // Défaut : 9 ans (3 ans si dérogatoire, 6 ans si professionnel)
+  typeBail?: string;
+  dateReference?: Date;          // Défaut : aujourd'hui
+}
+
+export interface LeaseCalendar {
+  type_bail: string;
+  date_effet: string;
+  date_fin: string;
+  duree_restante_mois: number;
+  en_tacite_prolongation: boolean;
+  evenements: LeaseEvent[];
+  prochain_evenement: LeaseEvent | null;
+  prochaine_sortie_triennale: { date: string; preavis_avant: string } | null;
+  fenetre_renouvellement: { debut: string; fin: string | null } | null;
+  derogatoire_jours_avant_conversion: number | null;
+}
+
+/** Délai de préavis du congé (triennal ou en fin de bail) */
+export const PREAVIS_MOIS = 6;
+/** Durée au-delà de laquelle le loyer de renouvellement est déplafonné */
+export const HORIZON_DEPLAFONNEMENT_ANS = 12;
+/** Durée maximale cumulée des baux dérogatoires */
+export const DUREE_MAX_DEROGATOIRE_ANS = 3;
+
+const DUREE_PAR_DEFAUT_ANS: Record<string, number> = {
+  derogatoire: 3,
+  professionnel: 6
+};
+
+/**
+ * Génère le calendrier des dates clés d'un bail
+ */
+export function buildLeaseCalendar(input: LeaseCalendarInput): LeaseCalendar {
+  const reference = input.dateReference || new Date();
+  const typeBail = input.typeBail || 'commercial_3_6_9';
+
+  const effet = parseLeaseDate(input.dateEffet);
+  if (!effet) {
+    throw new Error(`Date d'effet du bail invalide: ${input.dateEffet || 'non renseignée'}`);
+  }
+  const fin = (input.dateFin && parseLeaseDate(input.dateFin)) || addYears(effet, DUREE_PAR_DEFAUT_ANS[typeBail] || 9);
+  const enTaciteProlongation = fin <= reference && typeBail !== 'derogatoire';
+
+  const evenements: LeaseEvent[] = [];
+  const ajouter = (
+    date: Date,
+    event: Omit<LeaseEvent, 'date' | 'passe'>,
+    options: { dateFin?: Date; enCours?: boolean } = {}
+  ) => {
+    evenements.push({
+      date: formatIsoDate(date),
+      ...(options.dateFin && { date_fin: formatIsoDate(options.dateFin) }),
+      ...event,
+      passe: !options.enCours && (options.dateFin || date) < reference
+    });
+  };
+
+  ajouter(effet, {
+    type: 'prise_effet',
+    titre: 'Prise d\'effet du bail',
+    description: `Début du bail (${libelleTypeBail(typeBail)})`,
+    partie: 'preneur_bailleur'
+  });
+
+  let fenetreRenouvellement: LeaseCalendar['fenetre_renouvellement'] = null;
+  let joursAvantConversion: number | null = null;
+
+  if (typeBail === 'derogatoire') {
+    const limite = addYears(effet, DUREE_MAX_DEROGATOIRE_ANS);
+    const terme = fin < limite ? fin : limite;
+    const conversion = addMonths(terme, 1);
+    joursAvantConversion = daysBetween(reference, conversion);
+
+    ajouter(terme, {
+      type: 'fin_derogatoire',
+      titre: 'Fin du bail dérogatoire',
+      description: fin > limite
+        ? `Terme ramené à la durée maximale de ${DUREE_MAX_DEROGATOIRE_ANS} ans (date prévue au bail : ${formatFrDate(formatIsoDate(fin))}). Le bailleur doit manifester son opposition au maintien dans les lieux.`
+        : 'Le bailleur doit manifester son opposition au maintien dans les lieux, sinon le bail se convertit en bail commercial.',
+      partie: 'bailleur'
+    });
+    ajouter(conversion, {
+      type: 'conversion_derogatoire',
+      titre: 'Conversion en bail commercial 3-6-9',
+      description: 'Si le preneur reste en place plus d\'un mois après le terme sans opposition du bailleur, un bail commercial de 9 ans prend effet (statut des baux commerciaux, loyer à renégocier).',
+      partie: 'preneur_bailleur'
+    });
+  } else {
+    // Échéances triennales (faculté de congé du preneur, préavis de 6 mois)
+    if (typeBail !== 'professionnel') {
+      for (let annees = 3; addYears(effet, annees) < fin; annees += 3) {
+        const echeance = addYears(effet, annees);
+        ajouter(addMonths(echeance, -PREAVIS_MOIS), {
+          type: 'preavis_triennal',
+          titre: `Date limite du congé triennal (${annees} ans)`,
+          description: `Dernier jour pour délivrer congé par acte extrajudiciaire ou LRAR afin de quitter les lieux au ${formatFrDate(formatIsoDate(echeance))}.`,
+          partie: 'preneur'
+        });
+        ajouter(echeance, {
+          type: 'echeance_triennale',
+          titre: `Échéance triennale (${annees} ans)`,
+          description: 'Sortie possible du preneur si le congé a été délivré au moins 6 mois avant.',
+          partie: 'preneur'
+        });
+      }
+    }
+
+    ajouter(addMonths(fin, -PREAVIS_MOIS), {
+      type: 'preavis_conge',
+      titre: 'Date limite du congé en fin de bail',
+      description: typeBail === 'professionnel'
+        ? 'Dernier jour pour que le bailleur délivre congé pour le terme (le preneur peut donner congé à tout moment avec 6 mois de préavis).'
+        : 'Dernier jour pour délivrer congé pour le terme (avec offre de renouvellement ou refus motivé). À défaut, le bail se poursuit par tacite prolongation.',
+      partie: 'preneur_bailleur'
+    });
+
+    if (typeBail !== 'professionnel') {
+      const debutFenetre = addMonths(fin, -PREAVIS_MOIS);
+      fenetreRenouvellement = {
+        debut: formatIsoDate(debutFenetre),
+        fin: enTaciteProlongation ? null : formatIsoDate(fin)
+      };
+      ajouter(debutFenetre, {
+        type: 'fenetre_renouvellement',
+        titre: 'Fenêtre de demande de renouvellement',
+        description: 'Le preneur peut demander le renouvellement (acte extrajudiciaire) dans les 6 mois précédant l\'expiration, puis à tout moment pendant la tacite prolongation.',
+        partie: 'preneur'
+      }, enTaciteProlongation ? { enCours: true } : { dateFin: fin });
+    }
+
+    ajouter(fin, {
+      type: 'fin_bail',
+      titre: 'Terme contractuel du bail',
+      description: enTaciteProlongation
+        ? 'Terme dépassé : le bail se poursuit par tacite prolongation. Congé possible à tout moment avec 6 mois de préavis, pour le dernier jour d\'un trimestre civil.'
+        : 'Expiration du bail. Sans congé ni demande de renouvellement, le bail se poursuit par tacite prolongation.',
+      partie: 'preneur_bailleur'
+    });
+
+    if (enTaciteProlongation) {
+      const congePossible = finDeTrimestre(addMonths(reference, PREAVIS_MOIS));
+      ajouter(congePossible, {
+        type: 'preavis_conge',
+        titre: 'Première sortie possible en tacite prolongation',
+        description: `Congé délivré aujourd'hui : effet au ${formatFrDate(formatIsoDate(congePossible))} (6 mois minimum, fin de trimestre civil).`,
+        partie: 'preneur_bailleur'
+      });
+    }
+
+    const horizon = addYears(effet, HORIZON_DEPLAFONNEMENT_ANS);
+    if (typeBail !== 'professionnel' && horizon > fin) {
+      ajouter(horizon, {
+        type: 'horizon_deplafonnement',
+        titre: 'Bail de 12 ans : déplafonnement du loyer',
+        description: 'Si le bail se poursuit par tacite prolongation au-delà de cette date, le loyer de renouvellement n\'est plus plafonné (fixé à la valeur locative, hausse lissée à 10 %/an).',
+        partie: 'preneur'
+      });
+    }
+  }
+
+  evenements.sort((a, b) => a.date.localeCompare(b.date));
+
+  const aVenir = evenements.filter(e => !e.passe);
+  const prochaineEcheance = aVenir.find(e => e.type === 'echeance_triennale');
+
+  return {
+    type_bail: typeBail,
+    date_effet: formatIsoDate(effet),
+    date_fin: formatIsoDate(fin),
+    duree_restante_mois: Math.max(0, monthsBetween(reference, fin)),
+    en_tacite_prolongation: enTaciteProlongation,
+    evenements,
+    prochain_evenement: aVenir[0] || null,
+    prochaine_sortie_triennale: prochaineEcheance
+      ? { date: prochaineEcheance.date, preavis_avant: formatIsoDate(addMonths(parseLeaseDate(prochaineEcheance.date)!, -PREAVIS_MOIS)) }
+      : null,
+    fenetre_renouvellement: fenetreRenouvellement,
+    derogatoire_jours_avant_conversion: joursAvantConversion
+  };
+}
+
+/**
+ * Export iCalendar (RFC 5545) des événements à venir, un événement "journée entière" par date clé
+ * (rappel 30 jours avant les dates limites de congé)
+ */
+export function leaseCalendarToICalendar(
+  calendar: LeaseCalendar,
+  options: { siret: string; nomCommerce?: string; horodatage?: Date }
+): string {
+  const stamp = (options.horodatage || new Date()).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  const nom = options.nomCommerce ? `Bail ${options.nomCommerce}` : `Bail ${options.siret}`;
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//SearchCommerce//Calendrier du bail//FR',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(nom)}`
+  ];
+
+  for (const event of calendar.evenements.filter(e => !e.passe)) {
+    const debut = event.date.replace(/-/g, '');
+    const fin = formatIsoDate(addDays(parseLeaseDate(event.date_fin || event.date)!, 1)).replace(/-/g, '');
+
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.type}-${debut}-${options.siret}@searchcommerce`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${debut}`,
+      `DTEND;VALUE=DATE:${fin}`,
+      `SUMMARY:${escapeText(`${nom} — ${event.titre}`)}`,
+      `DESCRIPTION:${escapeText(event.description)}`,
+      'TRANSP:TRANSPARENT'
+    );
+    if (event.type === 'preavis_triennal' || event.type === 'preavis_conge' || event.type === 'fin_derogatoire') {
+      lines.push(
+        'BEGIN:VALARM',
+        'ACTION:DISPLAY',
+        'TRIGGER:-P30D',
+        `DESCRIPTION:${escapeText(event.titre)}`,
+        'END:VALARM'
+      );
+    }
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+function libelleTypeBail(typeBail: string): string {
+  const libelles: Record<string, string> = {
+    commercial_3_6_9: 'bail commercial 3-6-9',
+    derogatoire: 'bail dérogatoire',
+    professionnel: 'bail professionnel',
+    mixte: 'bail mixte'
+  };
+  return libelles[typeBail] || typeBail;
+}
+
+/**
+ * Dernier jour du trimestre civil contenant `date`
+ */
+function finDeTrimestre(date: Date): Date {
+  const dernierMois = Math.floor(date.getMonth() / 3) * 3 + 2;
+  return new Date(date.getFullYear(), dernierMois + 1, 0);
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Replie les lignes de plus de 75 octets (RFC 5545 §3.1)
+ */
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (Buffer.byteLength(current + char, 'utf-8') > limit) {
+      parts.push(current);
+      current = char;
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
@@ -0,0 +1,58 @@
+/**
+ * Lease Dates - Manipulation des dates de bail
+ *
+ * Fonctions pures partagées par rentIndexation et leaseCalendar.
+ * Les dates sont manipulées en heure locale (jour calendaire, sans heure).
+ */
+
+/**
+ * Parse une date de bail (AAAA-MM-JJ ou JJ/MM/AAAA)
+ */
+export function parseLeaseDate(value: string): Date | null {
+  const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  const fr = value.match(/^(\d{2})\/(\d{2})\/(\d{4})$/);
+  const [year, month, day] = iso
+    ? [Number(iso[1]), Number(iso[2]), Number(iso[3])]
+    : fr ? [Number(fr[3]), Number(fr[2]), Number(fr[1])] : [NaN, NaN, NaN];
+  if (!year || month < 1 || month > 12 || day < 1 || day > 31) return null;
+  return new Date(year, month - 1, day);
+}
+
+export function addYears(date: Date, years: number): Date {
+  return new Date(date.getFullYear() + years, date.getMonth(), date.getDate());
+}
+
+export function addMonths(date: Date, months: number): Date {
+  return new Date(date.getFullYear(), date.getMonth() + months, date.getDate());
+}
+
+export function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+/**
+ * Nombre de mois entiers entre deux dates
+ */
+export function monthsBetween(from: Date, to: Date): number {
+  const months = (to.getFullYear() - from.getFullYear()) * 12 + (to.getMonth() - from.getMonth());
+  return to.getDate() < from.getDate() ? months - 1 : months;
+}
+
+/**
+ * Nombre de jours calendaires entre deux dates (négatif si `to` est antérieure)
+ */
+export function daysBetween(from: Date, to: Date): number {
+  const utc = (d: Date) => Date.UTC(d.getFullYear(), d.getMonth(), d.getDate());
+  return Math.round((utc(to) - utc(from)) / (1000 * 60 * 60 * 24));
+}
+
+export function formatIsoDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export function formatFrDate(isoDate: string): string {
+  const [year, month, day] = isoDate.split('-');
+  return `${day}/${month}/${year}`;
+}
@@ -0,0 +1,118 @@
+import { z } from 'zod';
+import { FunctionTool } from '@google/adk';
+import type { ToolContext } from '@google/adk';
+import { zToGen } from '../../../utils/schemaHelper';
+import { readState, FinancialStateError } from '../../state/readState';
+import { detectRentIndexType } from '../../config/rentIndices';
+import { RentIndexTypeSchema } from '../../schemas/rentIndexSchema';
+import { projectRent } from './rentIndexation';
+
+/**
+ * Project Rent Indexation Tool
+ *
+ * Projette le loyer commercial sur la durée restante du bail et au renouvellement
+ * à partir des séries d'indices locales (data/rent-indices.json).
+ *
+ * - Révision annuelle selon l'indice de la clause d'indexation (ILC, ILAT ou ICC)
+ * - Renouvellement plafonné (variation de l'indice) ou déplafonné (valeur locative lissée)
+ * - Risque de déplafonnement : bail > 12 ans, durée > 9 ans, changement de destination
+ *
+ * Le résultat est injecté dans state.projectionLoyer : businessPlanDynamiqueTool
+ * applique les coefficients annuels au loyer au lieu d'un loyer constant.
+ */
+
+const ProjectRentIndexationInputSchema = z.object({
+  loyerAnnuel: z.number().optional().describe('Loyer annuel HC en vigueur (défaut: state.immobilier.bail.loyer_annuel_hc)'),
+  dateEffet: z.string().optional().describe('Date d\'effet du bail AAAA-MM-JJ (défaut: bail.date_effet)'),
+  dateFin: z.string().optional().describe('Date de fin du bail AAAA-MM-JJ (défaut: bail.date_fin)'),
+  indice: RentIndexTypeSchema.optional().describe('Indice de révision (défaut: déduit de bail.indexation, ILC sinon)'),
+  valeurLocativeAnnuelle: z.number().optional().describe('Valeur locative de marché en €/an (pour le scénario déplafonné)'),
+  changementDestination: z.boolean().optional().describe('Changement de destination des lieux envisagé par le repreneur'),
+  horizonAnnees: z.number().optional().describe('Nombre d\'années projetées (défaut 5, horizon du business plan)')
+});
+
+const ProjectRentIndexationOutputSchema = z.object({
+  disponible: z.boolean(),
+  indice: RentIndexTypeSchema.optional(),
+  loyer_base: z.number().optional(),
+  annees: z.array(z.object({
+    annee: z.number(),
+    date_debut: z.string(),
+    loyer_plafonne: z.number(),
+    loyer_deplafonne: z.number(),
+    loyer_retenu: z.number(),
+    coefficient: z.number(),
+    renouvellement: z.boolean()
+  })).optional(),
+  renouvellement: z.object({
+    date: z.string(),
+    risque_deplafonnement: z.enum(['faible', 'modere', 'eleve']),
+    motifs: z.array(z.string())
+  }).passthrough().optional(),
+  scenario_retenu: z.enum(['plafonne', 'deplafonne']).optional(),
+  commentaire: z.string(),
+  error: z.string().optional()
+});
+
+export type ProjectRentIndexationOutput = z.infer<typeof ProjectRentIndexationOutputSchema>;
+
+export const projectRentIndexationTool = new FunctionTool({
+  name: 'projectRentIndexation',
+  description: 'Projette le loyer commercial (révision annuelle ILC/ILAT/ICC, renouvellement plafonné ou déplafonné) sur 5 ans à partir du bail analysé. Retourne { disponible, annees[], renouvellement: { risque_deplafonnement, motifs }, scenario_retenu, commentaire }',
+  parameters: zToGen(ProjectRentIndexationInputSchema),
+
+  execute: async (params, toolContext?: ToolContext) => {
+    try {
+      const bail = readState(toolContext, 'immobilier')?.bail;
+
+      const loyerAnnuel = params.loyerAnnuel || bail?.loyer_commercial_ajuste || bail?.loyer_annuel_hc || 0;
+      const dateEffet = params.dateEffet || bail?.date_effet || '';
+
+      if (loyerAnnuel <= 0 || !dateEffet) {
+        const manquant = loyerAnnuel <= 0 ? 'loyer annuel' : 'date d\'effet du bail';
+        console.log(`[projectRentIndexation] ⚠️ Projection impossible: ${manquant} non disponible`);
+        return {
+          disponible: false,
+          commentaire: `Projection du loyer impossible : ${manquant} non disponible. Le business plan utilisera un loyer constant.`
+        };
+      }
+
+      const projection = projectRent({
+        loyerAnnuel,
+        dateEffet,
+        dateFin: params.dateFin || bail?.date_fin || undefined,
+        typeBail: bail?.type,
+        indice: params.indice || detectRentIndexType(bail?.indexation),
+        valeurLocativeAnnuelle: params.valeurLocativeAnnuelle,
+        changementDestination: params.changementDestination,
+        horizonAnnees: params.horizonAnnees
+      });
+
+      const result = { disponible: true, ...projection };
+
+      // Injecter dans le state pour businessPlanDynamiqueTool
+      if (toolContext?.state) {
+        toolContext.state.set('projectionLoyer', result);
+      }
+
+      console.log(`[projectRentIndexation] ✅ ${projection.indice}: ${projection.annees.map(a => a.loyer_retenu).join(' → ')} €/an (risque déplafonnement ${projection.renouvellement.risque_deplafonnement})`);
+
+      return result;
+
+    } catch (error: any) {
+      console.error('[projectRentIndexation] Erreur:', error);
+      if (error instanceof FinancialStateError) {
+        return {
+          disponible: false,
+          commentaire: 'Données immobilier invalides',
+          ...error.toToolError()
+        };
+      }
+      return {
+        disponible: false,
+        commentaire: 'Erreur lors de la projection du loyer',
+        error: error.message || 'Rent indexation projection failed'
+      };
+    }
+  }
+});
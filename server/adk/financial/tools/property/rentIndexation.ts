@@ -0,0 +1,265 @@
+/**
+ * Rent Indexation - Projection du loyer commercial
+ *
+ * Fonctions pures utilisées par projectRentIndexationTool :
+ * - Révision annuelle à chaque date anniversaire du bail selon l'indice (ILC, ILAT, ICC)
+ *   du trimestre de référence, avec les plafonnements légaux du référentiel
+ * - Renouvellement : loyer plafonné (variation de l'indice) ou déplafonné (valeur locative)
+ * - Risque de déplafonnement : bail > 12 ans, durée contractuelle > 9 ans,
+ *   changement de destination, bail dérogatoire, écart à la valeur locative
+ *
+ * Le loyer déplafonné est lissé (hausse limitée à 10 % du loyer de l'année précédente,
+ * art. L145-34 du Code de commerce) ; la valeur locative évolue comme l'indice.
+ */
+
+import {
+  RENT_INDICES,
+  findRentIndexCap,
+  getRentIndexValue,
+  lastPublishedQuarter,
+  referenceQuarter
+} from '../../config/rentIndices';
+import type { RentIndexDataset, RentIndexType } from '../../schemas/rentIndexSchema';
+import { addYears, formatFrDate, formatIsoDate, monthsBetween, parseLeaseDate } from './leaseDates';
+
+export type RisqueDeplafonnement = 'faible' | 'modere' | 'eleve';
+export type ScenarioLoyer = 'plafonne' | 'deplafonne';
+
+export interface RentProjectionInput {
+  loyerAnnuel: number;                      // Loyer annuel HC en vigueur
+  dateEffet: string;                        // AAAA-MM-JJ ou JJ/MM/AAAA
+  dateFin?: string;                         // Défaut : date d'effet + 9 ans (3 ans si dérogatoire)
+  typeBail?: string;
+  indice: RentIndexType;
+  valeurLocativeAnnuelle?: number | null;   // Valeur locative de marché (€/an, valeur actuelle)
+  changementDestination?: boolean;
+  dateReference?: Date;                     // Défaut : aujourd'hui
+  horizonAnnees?: number;                   // Défaut : 5 (horizon du business plan)
+}
+
+export interface RentRevision {
+  date: string;
+  trimestre_reference: string;
+  variation_pct: number;
+  estimation: boolean;       // Indice extrapolé (trimestre non encore publié)
+  plafonnement?: string;     // Motif du plafonnement légal appliqué
+}
+
+export interface RentProjectionYear {
+  annee: number;             // 1 = année de bail en cours
+  date_debut: string;
+  loyer_plafonne: number;
+  loyer_deplafonne: number;
+  loyer_retenu: number;
+  coefficient: number;       // loyer_retenu / loyer de base
+  renouvellement: boolean;
+}
+
+export interface RentRenewal {
+  date: string;
+  en_tacite_prolongation: boolean;
+  duree_bail_ans: number;    // Durée du bail à la date de renouvellement
+  dans_horizon: boolean;
+  risque_deplafonnement: RisqueDeplafonnement;
+  motifs: string[];
+  valeur_locative_annuelle: number | null;
+  ecart_valeur_locative_pct: number | null;   // (valeur locative - loyer plafonné) / loyer plafonné
+  loyer_plafonne: number;
+  loyer_deplafonne: number;
+}
+
+export interface RentProjection {
+  indice: RentIndexType;
+  indice_label: string;
+  source: string;
+  dernier_trimestre_publie: string;
+  loyer_base: number;
+  revisions: RentRevision[];
+  annees: RentProjectionYear[];
+  renouvellement: RentRenewal;
+  scenario_retenu: ScenarioLoyer;
+  commentaire: string;
+}
+
+/** Durée contractuelle standard au-delà de laquelle le loyer de renouvellement est déplafonné */
+export const DUREE_BAIL_STANDARD_MOIS = 108;
+/** Durée effective (tacite prolongation comprise) entraînant le déplafonnement */
+export const DUREE_DEPLAFONNEMENT_MOIS = 144;
+/** Hausse annuelle maximale du loyer déplafonné (lissage loi Pinel) */
+export const LISSAGE_MAX_PCT = 10;
+/** Écart à la valeur locative à partir duquel le risque est jugé modéré */
+export const ECART_VALEUR_LOCATIVE_MODERE_PCT = 20;
+
+const HORIZON_MAX_ANNEES = 30;
+
+/**
+ * Projette le loyer annuel sur l'horizon demandé et au renouvellement
+ */
+export function projectRent(input: RentProjectionInput, dataset: RentIndexDataset = RENT_INDICES): RentProjection {
+  const reference = input.dateReference || new Date();
+  const horizon = input.horizonAnnees || 5;
+  const derogatoire = input.typeBail === 'derogatoire';
+
+  const effet = parseLeaseDate(input.dateEffet);
+  if (!effet) {
+    throw new Error(`Date d'effet du bail invalide: ${input.dateEffet || 'non renseignée'}`);
+  }
+  const fin = (input.dateFin && parseLeaseDate(input.dateFin)) || addYears(effet, derogatoire ? 3 : 9);
+
+  // Années de bail : la première est en cours à la date de référence
+  let rangCourant = 0;
+  while (addYears(effet, rangCourant + 1) <= reference) rangCourant++;
+  const debutAnnee = (annee: number) => addYears(effet, rangCourant + annee - 1);
+
+  // Renouvellement : à la date de fin, ou au prochain anniversaire si le bail est en tacite prolongation
+  const enTaciteProlongation = fin <= reference;
+  const dateRenouvellement = enTaciteProlongation ? debutAnnee(2) : fin;
+  let anneeRenouvellement = 2;
+  while (debutAnnee(anneeRenouvellement) < dateRenouvellement && anneeRenouvellement < HORIZON_MAX_ANNEES) {
+    anneeRenouvellement++;
+  }
+
+  // Risque de déplafonnement
+  const dureeContractuelleMois = monthsBetween(effet, fin);
+  const dureeAuRenouvellementMois = monthsBetween(effet, dateRenouvellement);
+  const motifs: string[] = [];
+  if (derogatoire) {
+    motifs.push('Bail dérogatoire : pas de droit au renouvellement, loyer du nouveau bail librement fixé');
+  }
+  if (dureeContractuelleMois > DUREE_BAIL_STANDARD_MOIS) {
+    motifs.push(`Durée contractuelle supérieure à 9 ans (${round1(dureeContractuelleMois / 12)} ans) : loyer de renouvellement déplafonné`);
+  }
+  if (dureeAuRenouvellementMois > DUREE_DEPLAFONNEMENT_MOIS) {
+    motifs.push(`Bail de ${round1(dureeAuRenouvellementMois / 12)} ans au renouvellement (plus de 12 ans par tacite prolongation) : déplafonnement`);
+  }
+  if (input.changementDestination) {
+    motifs.push('Changement de destination des lieux : déplafonnement pour modification notable');
+  }
+
+  // Projection année par année (jusqu'au renouvellement s'il dépasse l'horizon)
+  const valeurLocative = input.valeurLocativeAnnuelle && input.valeurLocativeAnnuelle > 0
+    ? input.valeurLocativeAnnuelle
+    : null;
+  const nbAnnees = Math.max(horizon, anneeRenouvellement);
+  const revisions: RentRevision[] = [];
+  const annees: { annee: number; debut: Date; plafonne: number; deplafonne: number }[] = [];
+  let plafonne = input.loyerAnnuel;
+  let deplafonne = input.loyerAnnuel;
+
+  for (let annee = 1; annee <= nbAnnees; annee++) {
+    const debut = debutAnnee(annee);
+
+    if (annee > 1) {
+      const trimestre = referenceQuarter(debut);
+      const precedent = getRentIndexValue(input.indice, referenceQuarter(debutAnnee(annee - 1)), dataset);
+      const courant = getRentIndexValue(input.indice, trimestre, dataset);
+      let variation = courant.valeur / precedent.valeur - 1;
+      const plafond = findRentIndexCap(input.indice, trimestre, dataset);
+      if (plafond && variation > plafond.variation_annuelle_max_pct / 100) {
+        variation = plafond.variation_annuelle_max_pct / 100;
+      }
+
+      plafonne *= 1 + variation;
+      if (annee < anneeRenouvellement || valeurLocative === null) {
+        deplafonne *= 1 + variation;
+      } else {
+        // Valeur locative indexée comme le loyer plafonné
+        const valeurLocativeAnnee = valeurLocative * (plafonne / input.loyerAnnuel);
+        const lisse = Math.max(deplafonne * (1 + LISSAGE_MAX_PCT / 100), deplafonne * (1 + variation));
+        deplafonne = derogatoire ? valeurLocativeAnnee : Math.min(valeurLocativeAnnee, lisse);
+      }
+
+      if (annee <= horizon) {
+        revisions.push({
+          date: formatIsoDate(debut),
+          trimestre_reference: trimestre,
+          variation_pct: round1(variation * 100),
+          estimation: precedent.estimation || courant.estimation,
+          ...(plafond && { plafonnement: plafond.motif })
+        });
+      }
+    }
+
+    annees.push({ annee, debut, plafonne, deplafonne });
+  }
+
+  // La valeur locative évoluant comme l'indice, l'écart au loyer plafonné reste celui d'aujourd'hui
+  const auRenouvellement = annees[anneeRenouvellement - 1];
+  const ecartValeurLocative = valeurLocative !== null
+    ? round1((valeurLocative / input.loyerAnnuel - 1) * 100)
+    : null;
+
+  let risque: RisqueDeplafonnement = motifs.length > 0 ? 'eleve' : 'faible';
+  if (risque === 'faible' && ecartValeurLocative !== null && ecartValeurLocative > ECART_VALEUR_LOCATIVE_MODERE_PCT) {
+    motifs.push(`Loyer inférieur de ${ecartValeurLocative} % à la valeur locative : déplafonnement possible en cas de modification notable des facteurs locaux`);
+    risque = 'modere';
+  }
+  const scenarioRetenu: ScenarioLoyer = risque === 'eleve' ? 'deplafonne' : 'plafonne';
+
+  const projection: RentProjection = {
+    indice: input.indice,
+    indice_label: dataset.indices[input.indice].label,
+    source: `${dataset.source.label} (${dataset.source.annee})`,
+    dernier_trimestre_publie: lastPublishedQuarter(input.indice, dataset),
+    loyer_base: Math.round(input.loyerAnnuel),
+    revisions,
+    annees: annees.slice(0, horizon).map(a => {
+      const retenu = scenarioRetenu === 'deplafonne' ? a.deplafonne : a.plafonne;
+      return {
+        annee: a.annee,
+        date_debut: formatIsoDate(a.debut),
+        loyer_plafonne: Math.round(a.plafonne),
+        loyer_deplafonne: Math.round(a.deplafonne),
+        loyer_retenu: Math.round(retenu),
+        coefficient: Math.round((retenu / input.loyerAnnuel) * 10000) / 10000,
+        renouvellement: a.annee === anneeRenouvellement
+      };
+    }),
+    renouvellement: {
+      date: formatIsoDate(dateRenouvellement),
+      en_tacite_prolongation: enTaciteProlongation,
+      duree_bail_ans: round1(dureeAuRenouvellementMois / 12),
+      dans_horizon: anneeRenouvellement <= horizon,
+      risque_deplafonnement: risque,
+      motifs,
+      valeur_locative_annuelle: valeurLocative,
+      ecart_valeur_locative_pct: ecartValeurLocative,
+      loyer_plafonne: Math.round(auRenouvellement.plafonne),
+      loyer_deplafonne: Math.round(auRenouvellement.deplafonne)
+    },
+    scenario_retenu: scenarioRetenu,
+    commentaire: ''
+  };
+
+  projection.commentaire = buildCommentaire(projection);
+  return projection;
+}
+
+function buildCommentaire(projection: RentProjection): string {
+  const derniere = projection.annees[projection.annees.length - 1];
+  const { renouvellement } = projection;
+  const variation = round1((derniere.loyer_retenu / projection.loyer_base - 1) * 100);
+  const phrases = [
+    `Loyer révisé annuellement sur l'${projection.indice} : ${formatEuros(projection.loyer_base)} en année 1, ${formatEuros(derniere.loyer_retenu)} en année ${derniere.annee} (${variation >= 0 ? '+' : ''}${variation} %).`,
+    `${renouvellement.en_tacite_prolongation ? 'Bail en tacite prolongation, renouvellement' : 'Renouvellement'} au ${formatFrDate(renouvellement.date)}${renouvellement.dans_horizon ? '' : ' (au-delà de l\'horizon du business plan)'} : risque de déplafonnement ${renouvellement.risque_deplafonnement}.`
+  ];
+
+  if (projection.scenario_retenu === 'deplafonne') {
+    phrases.push(renouvellement.valeur_locative_annuelle !== null
+      ? `Scénario déplafonné retenu : loyer porté à ${formatEuros(renouvellement.loyer_deplafonne)} au renouvellement (valeur locative, hausse lissée à ${LISSAGE_MAX_PCT} %/an).`
+      : 'Scénario déplafonné retenu mais valeur locative non renseignée : le loyer de renouvellement reste indexé, à confirmer.');
+  }
+  if (projection.revisions.some(r => r.estimation)) {
+    phrases.push(`Indices au-delà de ${projection.dernier_trimestre_publie} extrapolés (croissance long terme).`);
+  }
+
+  return phrases.join(' ');
+}
+
+function formatEuros(value: number): string {
+  return `${value.toLocaleString('fr-FR')} €`;
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
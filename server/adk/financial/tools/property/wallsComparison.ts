@@ -0,0 +1,238 @@
+/**
+ * Walls Comparison - Achat des murs via SCI vs location sur la durée de détention
+ *
+ * Compare, du point de vue du repreneur (fonds + SCI détenue par le repreneur) :
+ * - Location : loyer du bail payé chaque année par le fonds (indexé)
+ * - Achat : apport (frais de notaire inclus) à l'acquisition, puis prêt immobilier de la SCI,
+ *   taxe foncière et entretien propriétaire ; revente des murs en fin de détention
+ *   (valeur revalorisée, frais de cession et capital restant dû déduits)
+ *
+ * La SCI refacture un loyer au fonds : ce loyer est neutre en consolidé, seul l'écart
+ * avec le loyer du bail modifie l'EBE du fonds. Les flux sont avant impôt.
+ *
+ * Résultats : tableaux de flux annuels des deux options, VAN de l'écart (achat - location)
+ * et durée de détention à partir de laquelle l'achat devient plus intéressant.
+ */
+
+import { computeAmortizationSchedule, aggregateDebtService } from '../planning/loanSchedule';
+
+export interface WallsComparisonInput {
+  prixMurs: number;
+  loyerAnnuel: number;                 // Loyer du bail (année 1, hors charges)
+  horizonAnnees?: number;
+  fraisNotairePct?: number;            // En % du prix
+  apport?: number;                     // Défaut : frais de notaire + APPORT_PCT du prix
+  tauxEmprunt?: number;                // Taux nominal annuel en %
+  dureeEmpruntAns?: number;
+  tauxAssurance?: number;              // En % par an du capital initial
+  taxeFonciere?: number;               // €/an (défaut : TAXE_FONCIERE_PCT_LOYER du loyer)
+  entretienPct?: number;               // Gros entretien propriétaire, en % du prix par an
+  loyerSciAnnuel?: number;             // Loyer refacturé par la SCI au fonds (défaut : loyer du bail)
+  indexationPct?: number;              // Évolution annuelle des loyers et charges
+  revalorisationPct?: number;          // Évolution annuelle de la valeur des murs
+  fraisCessionPct?: number;            // Frais de revente, en % de la valeur de sortie
+  tauxActualisationPct?: number;
+}
+
+export interface WallsRentYear {
+  annee: number;
+  loyer: number;
+  flux: number;
+  flux_cumule: number;
+}
+
+export interface WallsPurchaseYear {
+  annee: number;
+  loyer_sci: number;
+  interets: number;
+  amortissement: number;
+  assurance: number;
+  taxe_fonciere: number;
+  entretien: number;
+  flux_sci: number;                    // Loyer SCI - dette - charges propriétaire
+  revente_nette: number;               // Dernière année : valeur de sortie - frais - capital restant dû
+  flux: number;                        // Flux consolidé (fonds + SCI)
+  flux_cumule: number;
+  capital_restant_du: number;
+  valeur_murs: number;
+  impact_ebe_fonds: number;            // Loyer du bail - loyer SCI
+}
+
+export interface WallsComparison {
+  hypotheses: Required<Omit<WallsComparisonInput, 'prixMurs' | 'loyerAnnuel'>> & {
+    prixMurs: number;
+    loyerAnnuel: number;
+    fraisNotaire: number;
+    montantEmprunt: number;
+    mensualite: number;
+  };
+  location: WallsRentYear[];
+  achat: WallsPurchaseYear[];
+  van_location: number;
+  van_achat: number;
+  van_ecart: number;                   // VAN achat - VAN location (> 0 : achat plus intéressant)
+  duree_equilibre_annees: number | null;
+  option_retenue: 'achat' | 'location';
+  commentaire: string;
+}
+
+export const WALLS_COMPARISON_DEFAULTS = {
+  HORIZON_ANNEES: 10,
+  FRAIS_NOTAIRE_PCT: 7.5,
+  APPORT_PCT: 20,
+  TAUX_EMPRUNT: 4.0,
+  DUREE_EMPRUNT_ANS: 15,
+  TAUX_ASSURANCE: 0.3,
+  TAXE_FONCIERE_PCT_LOYER: 10,
+  ENTRETIEN_PCT: 1.0,
+  INDEXATION_PCT: 2.0,
+  REVALORISATION_PCT: 1.5,
+  FRAIS_CESSION_PCT: 5,
+  TAUX_ACTUALISATION_PCT: 6,
+  // Recherche de la durée d'équilibre au-delà de l'horizon affiché
+  DUREE_MAX_EQUILIBRE_ANS: 30
+};
+
+/**
+ * Compare l'achat des murs via SCI à la location sur l'horizon de détention
+ */
+export function compareWallsPurchase(input: WallsComparisonInput): WallsComparison {
+  const d = WALLS_COMPARISON_DEFAULTS;
+  const prixMurs = input.prixMurs;
+  const loyerAnnuel = input.loyerAnnuel;
+  if (!(prixMurs > 0) || !(loyerAnnuel > 0)) {
+    throw new Error('Prix des murs et loyer annuel requis pour comparer achat et location');
+  }
+
+  const horizon = Math.min(Math.max(1, Math.round(input.horizonAnnees ?? d.HORIZON_ANNEES)), d.DUREE_MAX_EQUILIBRE_ANS);
+  const fraisNotairePct = input.fraisNotairePct ?? d.FRAIS_NOTAIRE_PCT;
+  const fraisNotaire = Math.round(prixMurs * fraisNotairePct / 100);
+  const apport = Math.min(input.apport ?? Math.round(fraisNotaire + prixMurs * d.APPORT_PCT / 100), prixMurs + fraisNotaire);
+  const montantEmprunt = prixMurs + fraisNotaire - apport;
+  const tauxEmprunt = input.tauxEmprunt ?? d.TAUX_EMPRUNT;
+  const dureeEmpruntAns = input.dureeEmpruntAns ?? d.DUREE_EMPRUNT_ANS;
+  const tauxAssurance = input.tauxAssurance ?? d.TAUX_ASSURANCE;
+  const taxeFonciere = input.taxeFonciere ?? Math.round(loyerAnnuel * d.TAXE_FONCIERE_PCT_LOYER / 100);
+  const entretienPct = input.entretienPct ?? d.ENTRETIEN_PCT;
+  const loyerSciAnnuel = input.loyerSciAnnuel ?? loyerAnnuel;
+  const indexationPct = input.indexationPct ?? d.INDEXATION_PCT;
+  const revalorisationPct = input.revalorisationPct ?? d.REVALORISATION_PCT;
+  const fraisCessionPct = input.fraisCessionPct ?? d.FRAIS_CESSION_PCT;
+  const tauxActualisationPct = input.tauxActualisationPct ?? d.TAUX_ACTUALISATION_PCT;
+
+  const tableau = montantEmprunt > 0
+    ? computeAmortizationSchedule({
+        nom: 'Prêt immobilier SCI',
+        type: 'principal',
+        montant: montantEmprunt,
+        tauxAnnuel: tauxEmprunt,
+        dureeMois: dureeEmpruntAns * 12,
+        tauxAssurance,
+        baseAssurance: 'capital_initial'
+      })
+    : null;
+  const dette = aggregateDebtService(tableau ? [tableau] : [], d.DUREE_MAX_EQUILIBRE_ANS);
+
+  const actualiser = (flux: number, annee: number) => flux / Math.pow(1 + tauxActualisationPct / 100, annee);
+  const indexer = (montant: number, annee: number) => montant * Math.pow(1 + indexationPct / 100, annee - 1);
+  const valeurMurs = (annee: number) => prixMurs * Math.pow(1 + revalorisationPct / 100, annee);
+  const reventeNette = (annee: number) =>
+    valeurMurs(annee) * (1 - fraisCessionPct / 100) - (dette[annee - 1]?.capital_restant_fin ?? 0);
+
+  // Flux annuels consolidés hors revente (l'écart achat - location sert aussi à la durée d'équilibre)
+  const annees = Array.from({ length: d.DUREE_MAX_EQUILIBRE_ANS }, (_, i) => {
+    const annee = i + 1;
+    const service = dette[i] || { interets: 0, amortissement: 0, assurance: 0, capital_restant_fin: 0 };
+    const loyer = indexer(loyerAnnuel, annee);
+    const loyerSci = indexer(loyerSciAnnuel, annee);
+    const tf = indexer(taxeFonciere, annee);
+    const entretien = indexer(prixMurs * entretienPct / 100, annee);
+    const chargesSci = service.interets + service.amortissement + service.assurance + tf + entretien;
+    // Loyer SCI payé par le fonds et encaissé par la SCI : neutre en consolidé
+    return { annee, service, loyer, loyerSci, tf, entretien, fluxSci: loyerSci - chargesSci, fluxAchat: -chargesSci };
+  });
+
+  // Durée d'équilibre : première durée de détention où la VAN de l'écart devient positive
+  let vanEcartCumulee = -apport;
+  let dureeEquilibre: number | null = null;
+  for (const a of annees) {
+    vanEcartCumulee += actualiser(a.fluxAchat + a.loyer, a.annee);
+    if (vanEcartCumulee + actualiser(reventeNette(a.annee), a.annee) >= 0) {
+      dureeEquilibre = a.annee;
+      break;
+    }
+  }
+
+  let cumulLocation = 0;
+  const location: WallsRentYear[] = annees.slice(0, horizon).map(a => {
+    cumulLocation += -a.loyer;
+    return { annee: a.annee, loyer: Math.round(a.loyer), flux: Math.round(-a.loyer), flux_cumule: Math.round(cumulLocation) };
+  });
+
+  let cumulAchat = -apport;
+  const achat: WallsPurchaseYear[] = annees.slice(0, horizon).map(a => {
+    const revente = a.annee === horizon ? reventeNette(a.annee) : 0;
+    const flux = a.fluxAchat + revente;
+    cumulAchat += flux;
+    return {
+      annee: a.annee,
+      loyer_sci: Math.round(a.loyerSci),
+      interets: Math.round(a.service.interets),
+      amortissement: Math.round(a.service.amortissement),
+      assurance: Math.round(a.service.assurance),
+      taxe_fonciere: Math.round(a.tf),
+      entretien: Math.round(a.entretien),
+      flux_sci: Math.round(a.fluxSci),
+      revente_nette: Math.round(revente),
+      flux: Math.round(flux),
+      flux_cumule: Math.round(cumulAchat),
+      capital_restant_du: Math.round(a.service.capital_restant_fin),
+      valeur_murs: Math.round(valeurMurs(a.annee)),
+      impact_ebe_fonds: Math.round(a.loyer - a.loyerSci)
+    };
+  });
+
+  const vanLocation = annees.slice(0, horizon).reduce((sum, a) => sum + actualiser(-a.loyer, a.annee), 0);
+  const vanAchat = -apport + annees.slice(0, horizon).reduce((sum, a) => sum + actualiser(a.fluxAchat, a.annee), 0)
+    + actualiser(reventeNette(horizon), horizon);
+  const vanEcart = vanAchat - vanLocation;
+  const optionRetenue = vanEcart > 0 ? 'achat' : 'location';
+
+  const fmt = (n: number) => Math.round(n).toLocaleString('fr-FR');
+  const equilibre = dureeEquilibre
+    ? `L'achat devient plus intéressant à partir de ${dureeEquilibre} an${dureeEquilibre > 1 ? 's' : ''} de détention.`
+    : `L'achat ne rattrape pas la location sur ${d.DUREE_MAX_EQUILIBRE_ANS} ans.`;
+  const commentaire = `Sur ${horizon} ans, acheter les murs via une SCI ${vanEcart >= 0 ? 'rapporte' : 'coûte'} ${fmt(Math.abs(vanEcart))} € `
+    + `de plus que la location en valeur actuelle (actualisation ${tauxActualisationPct} %, avant impôt). ${equilibre}`;
+
+  return {
+    hypotheses: {
+      prixMurs,
+      loyerAnnuel,
+      horizonAnnees: horizon,
+      fraisNotairePct,
+      fraisNotaire,
+      apport,
+      montantEmprunt,
+      mensualite: Math.round(tableau?.mensualite ?? 0),
+      tauxEmprunt,
+      dureeEmpruntAns,
+      tauxAssurance,
+      taxeFonciere,
+      entretienPct,
+      loyerSciAnnuel,
+      indexationPct,
+      revalorisationPct,
+      fraisCessionPct,
+      tauxActualisationPct
+    },
+    location,
+    achat,
+    van_location: Math.round(vanLocation),
+    van_achat: Math.round(vanAchat),
+    van_ecart: Math.round(vanEcart),
+    duree_equilibre_annees: dureeEquilibre,
+    option_retenue: optionRetenue,
+    commentaire
+  };
+}
@@ -2,13 +2,20 @@ import { z } from 'zod';
 import { FunctionTool } from '@google/adk';
 import type { ToolContext } from '@google/adk';
 import { zToGen } from '../../../utils/schemaHelper';
+import { getSigValue } from '../../schemas/financialStateSchema';
+import { readState, readUntypedState, FinancialStateError } from '../../state/readState';
+import { linearRegression } from '../accounting/trendStatistics';
 
 /**
  * Generate Charts Tool
  *
  * Génère les configurations Chart.js pour les graphiques du rapport financier :
- * - Évolution CA/EBE/RN sur 3 ans (line chart)
+ * - Évolution CA/EBE/RN sur 3 ans (line chart, droite de tendance du CA à partir de 3 exercices)
+ * - Marges par exercice (marge brute, EBE, nette, taux de VA)
  * - Fourchettes de valorisation (bar chart horizontal)
+ * - Distribution simulée de la valorisation (histogramme Monte Carlo, si simulation)
+ * - Tornado de sensibilité du ratio de couverture de la dette (si sensitivityAnalysis)
+ * - Trésorerie mensuelle post-reprise (si treasuryPlan)
  * - Gauge score de santé financière
  * - Score de confiance par section (radar chart)
  */
@@ -49,34 +56,60 @@ export const generateChartsTool = new FunctionTool({
   execute: async (params, toolContext?: ToolContext) => {
     try {
       // Lire les states
-      let comptable = parseState(toolContext?.state.get('comptable'));
-      let valorisation = parseState(toolContext?.state.get('valorisation'));
-      let financialValidation = parseState(toolContext?.state.get('financialValidation'));
+      const comptable = readState(toolContext, 'comptable');
+      const valorisation = readState(toolContext, 'valorisation');
+      const financialValidation = readState(toolContext, 'financialValidation');
 
       // CHART 1 : Évolution CA/EBE/RN sur 3 ans (Line chart)
       const evolutionChart = generateEvolutionChart(comptable);
 
+      // CHART 1b : Marges de chaque exercice (si au moins 2 exercices)
+      const ratiosChart = comptable?.sig && Object.keys(comptable.sig).length >= 2
+        ? generateRatiosChart(comptable)
+        : null;
+
       // CHART 2 : Fourchettes de valorisation (Horizontal bar chart)
       const valorisationChart = generateValorisationChart(valorisation);
 
+      // CHART 2b : Histogramme Monte Carlo (si synthesizeValuation en mode simulation)
+      const simulationChart = valorisation?.simulation?.histogramme
+        ? generateSimulationChart(valorisation.simulation, valorisation.comparaisonPrix?.prix_affiche)
+        : null;
+
       // CHART 3 : Gauge score de santé (Doughnut chart)
       const healthGauge = generateHealthGauge(comptable);
 
       // ✅ ADD: CHART 3b : Projected health gauge (if business plan exists)
       let projectedHealthGauge = null;
-      let businessPlan = parseState(toolContext?.state.get('businessPlan'));
+      const businessPlan = readUntypedState(toolContext, 'businessPlan');
       if (businessPlan?.projectedHealthScore) {
         projectedHealthGauge = generateProjectedHealthGauge(businessPlan.projectedHealthScore);
       }
 
+      // CHART 3c : Tornado de sensibilité du DSCR (si sensitivityAnalysis appelé)
+      const sensitivity = readUntypedState(toolContext, 'businessPlanSensitivity');
+      const sensitivityChart = sensitivity?.tornado?.length > 0
+        ? generateSensitivityChart(sensitivity)
+        : null;
+
+      // CHART 3d : Plan de trésorerie mensuel (si treasuryPlan appelé)
+      const planTresorerie = readUntypedState(toolContext, 'planTresorerie');
+      const treasuryChart = planTresorerie?.mois?.length > 0
+        ? generateTreasuryChart(planTresorerie)
+        : null;
+
       // CHART 4 : Radar confiance par section
       const confidenceRadar = generateConfidenceRadar(financialValidation);
 
       return {
         evolutionChart,
+        ratiosChart,
         valorisationChart,
+        simulationChart,
         healthGauge,
         projectedHealthGauge, // ✅ ADD
+        sensitivityChart,
+        treasuryChart,
         confidenceRadar
       };
 
@@ -86,7 +119,9 @@ export const generateChartsTool = new FunctionTool({
         valorisationChart: getDefaultChart(),
         healthGauge: getDefaultChart(),
         confidenceRadar: getDefaultChart(),
-        error: error.message || 'Chart generation failed'
+        ...(error instanceof FinancialStateError
+          ? error.toToolError()
+          : { error: error.message || 'Chart generation failed' })
       };
     }
   }
@@ -131,6 +166,11 @@ function generateEvolutionChart(comptable: any): any {
     extractValue(comptable.sig[y]?.autres_achats_charges_externes) / 1000
   );
 
+  // Droite de régression du CA (toutes les années, à partir de 3 exercices)
+  const caTrend = years.length >= 3
+    ? linearRegression(years.map((y, i) => ({ year: parseInt(y), value: ca[i] })))
+    : null;
+
   // Dynamic title based on available years
   const chartTitle = years.length >= 3
     ? 'Évolution Financière sur 3 ans'
@@ -184,7 +224,16 @@ function generateEvolutionChart(comptable: any): any {
           tension: 0.4,
           fill: false,
           borderDash: [5, 5] // Dashed line
-        }
+        },
+        ...(caTrend ? [{
+          label: `Tendance CA (R² ${caTrend.r2.toFixed(2)})`,
+          data: years.map(y => Math.round((caTrend.pente * parseInt(y) + caTrend.ordonnee) * 10) / 10),
+          borderColor: '#1e3a8a',
+          tension: 0,
+          fill: false,
+          pointRadius: 0,
+          borderDash: [2, 4]
+        }] : [])
       ]
     },
     options: {
@@ -213,6 +262,45 @@ function generateEvolutionChart(comptable: any): any {
   };
 }
 
+/**
+ * Génère le graphique des marges par exercice (en % du CA)
+ */
+function generateRatiosChart(comptable: any): any {
+  const years = Object.keys(comptable.sig).sort();
+  const pct = (field: string) => years.map(y => {
+    const ca = getSigValue(comptable.sig[y], 'chiffre_affaires');
+    return ca ? Math.round((getSigValue(comptable.sig[y], field) / ca) * 1000) / 10 : 0;
+  });
+
+  return {
+    type: 'line',
+    data: {
+      labels: years,
+      datasets: [
+        { label: 'Marge brute (%)', data: pct('marge_commerciale'), borderColor: '#3b82f6', tension: 0.3, fill: false },
+        { label: 'Taux de VA (%)', data: pct('valeur_ajoutee'), borderColor: '#8b5cf6', tension: 0.3, fill: false },
+        { label: 'Marge EBE (%)', data: pct('ebe'), borderColor: '#10b981', tension: 0.3, fill: false },
+        { label: 'Marge nette (%)', data: pct('resultat_net'), borderColor: '#f59e0b', tension: 0.3, fill: false }
+      ]
+    },
+    options: {
+      responsive: true,
+      maintainAspectRatio: false,
+      plugins: {
+        legend: { position: 'top' },
+        title: {
+          display: true,
+          text: `Marges par exercice (${years[0]}-${years[years.length - 1]})`,
+          font: { size: 14, weight: 'bold' }
+        }
+      },
+      scales: {
+        y: { title: { display: true, text: '% du CA' } }
+      }
+    }
+  };
+}
+
 /**
  * Génère le graphique de valorisation (horizontal bar)
  * Supports both structures: new (valorisation.methodes.ebe) and old (valorisation.methodeEBE)
@@ -399,6 +487,148 @@ function generateValorisationChart(valorisation: any): any {
   };
 }
 
+/**
+ * Génère l'histogramme de la valorisation simulée (Monte Carlo)
+ * Les classes au-dessus du prix affiché sont colorées en rouge.
+ */
+function generateSimulationChart(simulation: any, prixAffiche?: number): any {
+  const histogramme: any[] = simulation.histogramme || [];
+  if (histogramme.length === 0) {
+    return getDefaultChart();
+  }
+
+  const labels = histogramme.map(c => `${Math.round(c.borne_basse / 1000)}-${Math.round(c.borne_haute / 1000)}`);
+  const colors = histogramme.map(c =>
+    prixAffiche && c.borne_basse >= prixAffiche ? 'rgba(239, 68, 68, 0.6)' : 'rgba(59, 130, 246, 0.6)'
+  );
+
+  const p = simulation.percentiles || {};
+  let title = `Distribution simulée (${(simulation.iterations || 0).toLocaleString('fr-FR')} tirages) - P10 ${Math.round((p.p10 || 0) / 1000)}k€ / P50 ${Math.round((p.p50 || 0) / 1000)}k€ / P90 ${Math.round((p.p90 || 0) / 1000)}k€`;
+  if (simulation.probabilite_prix_superieur !== null && simulation.probabilite_prix_superieur !== undefined) {
+    title += ` - Prix affiché > valeur: ${simulation.probabilite_prix_superieur}%`;
+  }
+
+  return {
+    type: 'bar',
+    data: {
+      labels,
+      datasets: [{
+        label: 'Tirages',
+        data: histogramme.map(c => c.effectif),
+        backgroundColor: colors,
+        borderWidth: 0,
+        barPercentage: 1.0,
+        categoryPercentage: 1.0
+      }]
+    },
+    options: {
+      responsive: true,
+      maintainAspectRatio: false,
+      plugins: {
+        legend: { display: false },
+        title: {
+          display: true,
+          text: title,
+          font: { size: 14, weight: 'bold' }
+        }
+      },
+      scales: {
+        x: { title: { display: true, text: 'Valorisation (k€)' } },
+        y: { beginAtZero: true, title: { display: true, text: 'Nombre de tirages' } }
+      }
+    }
+  };
+}
+
+/**
+ * Génère le tornado de sensibilité du ratio de couverture (barres flottantes horizontales)
+ */
+function generateSensitivityChart(sensitivity: any): any {
+  const tornado: any[] = sensitivity.tornado || [];
+  const ratioBase = sensitivity.base?.ratioCouvertureDette || 0;
+
+  return {
+    type: 'bar',
+    data: {
+      labels: tornado.map(t => t.label),
+      datasets: [
+        {
+          label: 'Variation défavorable',
+          data: tornado.map(t => [t.ratio_min, ratioBase]),
+          backgroundColor: 'rgba(239, 68, 68, 0.7)',
+          grouped: false
+        },
+        {
+          label: 'Variation favorable',
+          data: tornado.map(t => [ratioBase, t.ratio_max]),
+          backgroundColor: 'rgba(16, 185, 129, 0.7)',
+          grouped: false
+        }
+      ]
+    },
+    options: {
+      indexAxis: 'y',
+      responsive: true,
+      maintainAspectRatio: false,
+      plugins: {
+        legend: { position: 'bottom' },
+        title: {
+          display: true,
+          text: `Sensibilité du ratio de couverture (actuel ${ratioBase}x, seuil ${sensitivity.seuil_ratio}x) - variations ±10/20%`,
+          font: { size: 14, weight: 'bold' }
+        }
+      },
+      scales: {
+        x: { title: { display: true, text: 'Ratio de couverture de la dette (x)' } }
+      }
+    }
+  };
+}
+
+/**
+ * Génère le graphique de trésorerie mensuelle (flux nets en barres, solde en courbe)
+ */
+function generateTreasuryChart(plan: any): any {
+  const mois: any[] = plan.mois || [];
+
+  return {
+    type: 'bar',
+    data: {
+      labels: mois.map(m => m.label),
+      datasets: [
+        {
+          type: 'line',
+          label: 'Trésorerie fin de mois',
+          data: mois.map(m => m.tresorerie_fin),
+          borderColor: '#3b82f6',
+          backgroundColor: 'rgba(59, 130, 246, 0.1)',
+          tension: 0.3
+        },
+        {
+          label: 'Flux net du mois',
+          data: mois.map(m => m.flux_net),
+          backgroundColor: mois.map(m => (m.flux_net < 0 ? 'rgba(239, 68, 68, 0.7)' : 'rgba(16, 185, 129, 0.7)'))
+        }
+      ]
+    },
+    options: {
+      responsive: true,
+      maintainAspectRatio: false,
+      plugins: {
+        legend: { position: 'bottom' },
+        title: {
+          display: true,
+          text: `Trésorerie mensuelle après reprise (point bas ${plan.tresorerie_min.toLocaleString('fr-FR')} € - ${plan.mois_min})`,
+          font: { size: 14, weight: 'bold' }
+        }
+      },
+      scales: {
+        y: { title: { display: true, text: '€' } }
+      }
+    }
+  };
+}
+
 /**
  * Génère la jauge de santé financière (doughnut)
  */
@@ -572,18 +802,3 @@ function getDefaultChart(): any {
     }
   };
 }
-
-/**
- * Parse state (handle JSON string)
- */
-function parseState(state: any): any {
-  if (!state) return null;
-  if (typeof state === 'string') {
-    try {
-      return JSON.parse(state);
-    } catch {
-      return null;
-    }
-  }
-  return state;
-}
@@ -27,8 +27,11 @@ import {
   generateValuationSection,
   // generateRealEstateSection,  // ⚠️ MASQUÉ TEMPORAIREMENT (2026-01-01)
   generateBusinessPlanSection,
+  generateScenarioComparisonSection,
+  generateSensitivitySection,
   generateOpportunitySection,
-  generateFinancingPlanSection
+  generateFinancingPlanSection,
+  generateTreasuryPlanSection
 } from './sections';
 
 // Acquisition Advice
@@ -57,7 +60,11 @@ import {
 const GenerateFinancialHtmlInputSchema = z.object({
   charts: z.object({
     evolutionChart: z.any(),
+    ratiosChart: z.any().optional(),
     valorisationChart: z.any(),
+    simulationChart: z.any().optional(),
+    sensitivityChart: z.any().optional(),
+    treasuryChart: z.any().optional(),
     healthGauge: z.any(),
     confidenceRadar: z.any()
   }).describe('Configurations Chart.js générées par generateCharts')
@@ -160,11 +167,12 @@ export const generateFinancialHtmlTool = new FunctionTool({
       }
 
       // 3. Analyse comptable (with documentExtraction fallback for missing SIG values)
-      html += generateAccountingSection(comptable, params.charts.evolutionChart, params.charts.healthGauge, params.charts.projectedHealthGauge, businessPlan, userComments, documentExtraction, businessInfo);
+      const sectorBenchmark = parseState(toolContext?.state.get('sectorBenchmark'));
+      html += generateAccountingSection(comptable, params.charts.evolutionChart, params.charts.healthGauge, params.charts.projectedHealthGauge, businessPlan, userComments, documentExtraction, businessInfo, sectorBenchmark, params.charts.ratiosChart);
       sections_included.push('accounting_analysis');
 
       // 4. Valorisation (avec userComments et options pour section Tabac complète)
-      html += generateValuationSection(valorisation, params.charts.valorisationChart, documentExtraction, userComments, options);
+      html += generateValuationSection(valorisation, params.charts.valorisationChart, documentExtraction, userComments, options, params.charts.simulationChart);
       sections_included.push('valuation');
 
       // 5. Analyse immobilière
@@ -180,10 +188,30 @@ export const generateFinancialHtmlTool = new FunctionTool({
         sections_included.push('business_plan');
       }
 
+      // 6a. Comparaison de scénarios (si demandée au business plan)
+      if (businessPlan?.scenarios?.comparaison?.length > 0) {
+        html += generateScenarioComparisonSection(businessPlan.scenarios);
+        sections_included.push('business_plan_scenarios');
+      }
+
+      // 6b. Analyse de sensibilité du ratio de couverture (si sensitivityAnalysis appelé)
+      const sensitivity = parseState(toolContext?.state.get('businessPlanSensitivity'));
+      if (sensitivity?.tornado?.length > 0) {
+        html += generateSensitivitySection(sensitivity, params.charts.sensitivityChart);
+        sections_included.push('business_plan_sensitivity');
+      }
+
       // 6bis. Plan de Financement
-      html += generateFinancingPlanSection(userComments, comptable);
+      html += generateFinancingPlanSection(userComments, comptable, businessPlan?.financement);
       sections_included.push('financing_plan');
 
+      // 6ter. Plan de trésorerie mensuel (si treasuryPlan appelé)
+      const planTresorerie = parseState(toolContext?.state.get('planTresorerie'));
+      if (planTresorerie?.mois?.length > 0) {
+        html += generateTreasuryPlanSection(planTresorerie, params.charts.treasuryChart);
+        sections_included.push('treasury_plan');
+      }
+
       // 7. Conseils pour le Rachat (enrichi avec rapport professionnel - déjà chargé plus haut)
       html += generateAcquisitionAdviceSection({
         comptable,
@@ -427,6 +455,13 @@ function generateExecutiveSummary(comptable: any, valorisation: any, financialVa
         if (a.recommendation) {
           text += `<br><em>Recommandation : ${a.recommendation}</em>`;
         }
+        // Citer le benchmark sectoriel utilisé par la règle
+        if (a.benchmark?.references?.length) {
+          const refs = a.benchmark.references
+            .map((r: any) => `${r.label} secteur ${r.sectorValue} → seuil ${r.threshold}`)
+            .join(', ');
+          text += `<br><span class="benchmark-ref">Référence ${a.benchmark.sector}${a.benchmark.isDefault ? ' (secteur non référencé)' : ''} : ${refs}</span>`;
+        }
         // Ajouter contexte BP si amélioration EBE prévue
         if (a.category === 'rentabilite' && ebeNormatif > ebeComptable && ebeComptable > 0) {
           const amelioration = ((ebeNormatif - ebeComptable) / ebeComptable * 100).toFixed(0);
@@ -9,6 +9,8 @@
  * Si une valeur n'est pas disponible, afficher "N/A" - PAS de fallback.
  */
 
+import { formatProvenance } from '../../../config/sectorReferences';
+
 // ⚠️ DEPRECATED (2025-12-29) - NE PLUS UTILISER CETTE FONCTION
 // Les données historiques doivent provenir de comptable.sig uniquement.
 // Cette fonction est conservée pour référence mais ne doit plus être appelée.
@@ -32,7 +34,9 @@ export function generateAccountingSection(
   businessPlan?: any,
   userComments?: any,
   documentExtraction?: any,
-  businessInfo?: any
+  businessInfo?: any,
+  sectorBenchmark?: any,
+  ratiosChart?: any
 ): string {
   if (!comptable) {
     return '<h2>📈 Analyse Comptable</h2><p class="no-data">Données comptables non disponibles</p>';
@@ -214,6 +218,18 @@ export function generateAccountingSection(
   new Chart(document.getElementById('evolutionChart'), ${JSON.stringify(evolutionChart)});
   </script>`;
 
+  // Tendances pluriannuelles (régression, TCAM, volatilité, inflexions)
+  if (comptable.evolution?.indicateurs) {
+    html += generateTrendsTable(comptable.evolution);
+  }
+
+  if (ratiosChart) {
+    html += '<div class="chart-container"><canvas id="ratiosChart"></canvas></div>';
+    html += `<script>
+  new Chart(document.getElementById('ratiosChart'), ${JSON.stringify(ratiosChart)});
+  </script>`;
+  }
+
   // Ratios + Gauge
   html += '<div class="chart-row">';
 
@@ -257,13 +273,62 @@ export function generateAccountingSection(
 
   // Benchmark sectoriel
   if (comptable.benchmark) {
-    html += generateBenchmarkSection(comptable.benchmark, businessInfo);
+    html += generateBenchmarkSection(comptable.benchmark, businessInfo, sectorBenchmark);
   }
 
   html += '<div class="page-break"></div>';
   return html;
 }
 
+/**
+ * Generate multi-year trends table (CAGR, regression, volatility, inflections)
+ */
+function generateTrendsTable(evolution: any): string {
+  const labels: Record<string, string> = {
+    chiffre_affaires: 'Chiffre d\'affaires',
+    ebe: 'EBE',
+    resultat_net: 'Résultat net',
+    marge_ebe_pct: 'Marge EBE'
+  };
+  const fmtPct = (v: number | null | undefined) =>
+    v === null || v === undefined ? 'N/A' : `${v >= 0 ? '+' : ''}${v.toFixed(1)}%`;
+
+  let html = '<h3>Tendances pluriannuelles</h3>';
+  html += '<table><thead><tr><th>Indicateur</th><th class="text-right">TCAM</th><th class="text-right">Tendance (régression)</th><th class="text-right">Pente annuelle</th><th class="text-right">R²</th><th class="text-right">Volatilité</th></tr></thead><tbody>';
+
+  Object.entries(labels).forEach(([key, label]) => {
+    const trend = evolution.indicateurs[key];
+    if (!trend) return;
+    const pente = key === 'marge_ebe_pct'
+      ? `${trend.pente_annuelle >= 0 ? '+' : ''}${trend.pente_annuelle.toFixed(1)} pt/an`
+      : `${trend.pente_annuelle >= 0 ? '+' : ''}${Math.round(trend.pente_annuelle).toLocaleString('fr-FR')} €/an`;
+    html += `<tr>
+        <td>${label}</td>
+        <td class="text-right">${fmtPct(trend.cagr_pct)}</td>
+        <td class="text-right">${fmtPct(trend.evolution_tendancielle_pct)}</td>
+        <td class="text-right">${pente}</td>
+        <td class="text-right">${trend.r2.toFixed(2)}</td>
+        <td class="text-right">${trend.volatilite_pct.toFixed(1)}%</td>
+      </tr>`;
+  });
+
+  html += '</tbody></table>';
+
+  if (evolution.inflexions?.length > 0) {
+    html += '<ul>';
+    evolution.inflexions.forEach((i: any) => {
+      const label = labels[i.indicateur] || i.indicateur;
+      const sens = i.type === 'hausse_puis_baisse' ? 'pic' : 'creux';
+      html += `<li>⚠️ ${label} : ${sens} en ${i.annee} (${fmtPct(i.variation_avant_pct)} puis ${fmtPct(i.variation_apres_pct)})</li>`;
+    });
+    html += '</ul>';
+  }
+
+  html += '<p class="comparison-note">TCAM : taux de croissance annuel moyen. R² proche de 1 : trajectoire régulière ; R² faible : la variation première/dernière année est peu représentative.</p>';
+
+  return html;
+}
+
 /**
  * Generate EBE Retraitement table
  */
@@ -352,13 +417,22 @@ function generateEbeBridgeTable(ebe: any): string {
 /**
  * Generate benchmark section
  */
-function generateBenchmarkSection(benchmark: any, businessInfo?: any): string {
+function generateBenchmarkSection(benchmark: any, businessInfo?: any, sectorBenchmark?: any): string {
   let html = '<h3>Comparaison Sectorielle</h3>';
 
   // ✅ FIX: Use user-selected sector label (exact text from dropdown) instead of benchmark.sector
   const sectorLabel = businessInfo?.secteurActiviteLabel || benchmark.sector;
   html += `<p><strong>Secteur:</strong> ${sectorLabel}</p>`;
 
+  // Provenance des moyennes sectorielles (source, année, niveau NAF retenu)
+  const provenance = benchmark.provenance || sectorBenchmark?.provenance;
+  if (provenance) {
+    html += `<p class="benchmark-ref"><strong>Source :</strong> ${formatProvenance(provenance)}</p>`;
+    if (provenance.niveau === 'defaut') {
+      html += '<p class="benchmark-ref">⚠️ Secteur non référencé : comparaison à la moyenne tous secteurs, à interpréter avec prudence.</p>';
+    }
+  }
+
   if (benchmark.comparisons && benchmark.comparisons.length > 0) {
     html += '<table><thead><tr><th>Ratio</th><th class="text-right">Entreprise</th><th class="text-right">Moyenne Secteur</th><th class="text-center">Position</th></tr></thead><tbody>';
 
@@ -2,7 +2,8 @@
  * Business Plan Section
  *
  * Generates the dynamic business plan section with 5-year projections,
- * banking indicators, and hypotheses.
+ * banking indicators, and hypotheses, plus the optional scenario comparison and
+ * sensitivity sections.
  */
 
 /**
@@ -15,7 +16,7 @@ export function generateBusinessPlanSection(businessPlan: any): string {
     return html + '<p class="no-data">Aucune projection disponible</p>';
   }
 
-  const { projections, indicateursBancaires, hypotheses, synthese, recommandations, tabacInfo } = businessPlan;
+  const { projections, indicateursBancaires, hypotheses, synthese, recommandations, tabacInfo, loyerIndexation } = businessPlan;
 
   // Synthèse
   if (synthese) {
@@ -53,13 +54,148 @@ export function generateBusinessPlanSection(businessPlan: any): string {
 
   // Hypothèses
   if (hypotheses) {
-    html += generateHypothesesTable(hypotheses, tabacInfo);
+    html += generateHypothesesTable(hypotheses, tabacInfo, loyerIndexation);
   }
 
   html += '<div class="page-break"></div>';
   return html;
 }
 
+/**
+ * Generate the scenario comparison section HTML (pessimiste / central / optimiste + custom)
+ */
+export function generateScenarioComparisonSection(scenarios: any): string {
+  const comparaison: any[] = scenarios?.comparaison || [];
+  if (comparaison.length === 0) return '';
+
+  const fmt = (n: number) => `${(n || 0).toLocaleString('fr-FR')} €`;
+  const pct = (n: number | undefined) => n !== undefined ? `${n >= 0 ? '+' : ''}${(n * 100).toFixed(0)}%` : 'N/A';
+  const colored = (n: number) => `<strong style="color:${n > 0 ? '#065f46' : '#991b1b'}">${fmt(n)}</strong>`;
+
+  let html = '<h2>🔀 Comparaison de Scénarios</h2>';
+
+  if (scenarios.synthese) {
+    html += `<div class="summary-box">
+      <h3>Synthèse</h3>
+      <p>${scenarios.synthese}</p>
+    </div>`;
+  }
+
+  const row = (label: string, cell: (c: any) => string, style = '') => {
+    let tr = `<tr${style ? ` style="${style}"` : ''}><td>${label}</td>`;
+    comparaison.forEach(c => {
+      tr += `<td class="text-right">${cell(c)}</td>`;
+    });
+    return tr + '</tr>';
+  };
+
+  html += '<table>';
+  html += '<thead><tr><th>Indicateur</th>';
+  comparaison.forEach(c => {
+    html += `<th class="text-right">${c.nom}</th>`;
+  });
+  html += '</tr></thead><tbody>';
+
+  // Hypothèses clés
+  html += row('⏰ Impact extension horaires', c => pct(c.hypotheses?.extensionHoraires?.impactEstime));
+  html += row('🔨 Impact travaux', c => pct(c.hypotheses?.travaux?.impactAnnee2));
+  html += row('📈 Croissance annuelle', c => pct(c.hypotheses?.travaux?.impactRecurrent));
+
+  // Résultats
+  html += row('<strong>CA Année 1</strong>', c => fmt(c.ca_annee1), 'border-top:2px solid #0066cc');
+  html += row('CA Année 5', c => fmt(c.ca_annee5));
+  html += row('<strong>💰 EBE Année 1</strong>', c => colored(c.ebe_annee1), 'background:#d1fae5');
+  html += row('EBE Année 5', c => fmt(c.ebe_annee5));
+  html += row('<strong>💵 Reste après dette Année 1</strong>', c => colored(c.reste_apres_dette_annee1), 'background:#e6f7ff');
+  html += row('Reste après dette cumulé (5 ans)', c => colored(c.reste_apres_dette_cumule));
+
+  // Indicateurs bancaires
+  const ind = (c: any) => c.indicateursBancaires || {};
+  html += row('<strong>Ratio de couverture</strong> (cible > 1.5x)', c => `<strong>${ind(c).ratioCouvertureDette}x</strong>`, 'border-top:2px solid #0066cc');
+  html += row('Capacité d\'autofinancement', c => fmt(ind(c).capaciteAutofinancement));
+  html += row('Point mort', c => fmt(ind(c).pointMort));
+  html += row('ROI', c => `${ind(c).rentabiliteCapitauxInvestis}%`);
+  html += row('Délai de retour', c => `${ind(c).delaiRetourInvestissement} ans`);
+  html += row('Profil bancaire', c => `<strong>${(ind(c).appreciation || '').toUpperCase()}</strong>`);
+
+  html += '</tbody></table>';
+
+  html += '<div class="page-break"></div>';
+  return html;
+}
+
+/**
+ * Generate the sensitivity section HTML (tornado on the debt coverage ratio + break-even table)
+ */
+export function generateSensitivitySection(sensitivity: any, sensitivityChart: any): string {
+  const tornado: any[] = sensitivity?.tornado || [];
+  if (tornado.length === 0) return '';
+
+  const fmtValeur = (valeur: number | null, unite: string) => {
+    if (valeur === null || valeur === undefined) return '-';
+    if (unite === '€') return `${valeur.toLocaleString('fr-FR')} €`;
+    return `${valeur.toLocaleString('fr-FR')} ${unite}`;
+  };
+  const ratioCell = (ratio: number) => {
+    const color = ratio < sensitivity.seuil_ratio ? '#991b1b' : '#065f46';
+    return `<td class="text-right" style="color:${color}">${ratio}x</td>`;
+  };
+
+  let html = '<h2>🌪️ Analyse de Sensibilité - Ratio de Couverture de la Dette</h2>';
+
+  if (sensitivity.synthese) {
+    html += `<div class="summary-box">
+      <h3>Synthèse</h3>
+      <p>${sensitivity.synthese}</p>
+    </div>`;
+  }
+
+  if (sensitivityChart) {
+    html += '<div class="chart-container"><canvas id="sensitivityChart"></canvas></div>';
+    html += `<script>
+    new Chart(document.getElementById('sensitivityChart'), ${JSON.stringify(sensitivityChart)});
+    </script>`;
+  }
+
+  // Tornado (classé par amplitude)
+  const variations: number[] = tornado[0].variations.map((v: any) => v.variation_pct);
+  html += '<h3>📊 Ratio de couverture selon la variation de chaque levier</h3>';
+  html += '<table><thead><tr><th>Levier</th><th class="text-right">Valeur actuelle</th>';
+  variations.forEach(pct => {
+    html += `<th class="text-right">${pct > 0 ? '+' : ''}${pct}%</th>`;
+  });
+  html += '<th class="text-right">Amplitude</th></tr></thead><tbody>';
+  tornado.forEach(t => {
+    html += `<tr><td>${t.label}</td><td class="text-right">${fmtValeur(t.valeur_base, t.unite)}</td>`;
+    t.variations.forEach((v: any) => {
+      html += ratioCell(v.ratioCouvertureDette);
+    });
+    html += `<td class="text-right"><strong>${t.amplitude}</strong></td></tr>`;
+  });
+  html += '</tbody></table>';
+
+  // Table des seuils
+  html += `<h3>🎯 Seuils de rupture (ratio < ${sensitivity.seuil_ratio}x)</h3>`;
+  html += '<table><thead><tr><th>Levier</th><th class="text-right">Valeur actuelle</th><th class="text-right">Valeur seuil</th><th class="text-right">Variation</th></tr></thead><tbody>';
+  (sensitivity.seuils || []).forEach((s: any) => {
+    let variation = '-';
+    if (s.statut === 'seuil_trouve') variation = `${s.variation_pct > 0 ? '+' : ''}${s.variation_pct}%`;
+    else if (s.statut === 'deja_sous_seuil') variation = 'Déjà sous le seuil';
+    else variation = 'Pas de seuil dans la plage testée';
+
+    html += `<tr>
+      <td>${s.label}</td>
+      <td class="text-right">${fmtValeur(s.valeur_base, s.unite)}</td>
+      <td class="text-right"><strong>${fmtValeur(s.valeur_seuil, s.unite)}</strong></td>
+      <td class="text-right">${variation}</td>
+    </tr>`;
+  });
+  html += '</tbody></table>';
+
+  html += '<div class="page-break"></div>';
+  return html;
+}
+
 /**
  * Generate changes table (Actuel vs Projeté)
  * Adapté pour Tabac: affiche le split CA si disponible
@@ -490,7 +626,7 @@ function generateBankingIndicators(ind: any): string {
 /**
  * Generate hypotheses table
  */
-function generateHypothesesTable(hypotheses: any, tabacInfo: any): string {
+function generateHypothesesTable(hypotheses: any, tabacInfo: any, loyerIndexation?: any): string {
   let html = '<h3>📋 Hypothèses du Business Plan</h3>';
   html += '<table>';
 
@@ -532,6 +668,12 @@ function generateHypothesesTable(hypotheses: any, tabacInfo: any): string {
     html += `<tr><td>🏠 Loyer négocié</td><td class="text-right">${hypotheses.loyerNegocie.toLocaleString('fr-FR')} €/an (${Math.round(hypotheses.loyerNegocie / 12).toLocaleString('fr-FR')} €/mois)</td></tr>`;
   }
 
+  if (loyerIndexation?.coefficients?.length) {
+    const variation = Math.round((loyerIndexation.coefficients[loyerIndexation.coefficients.length - 1] - 1) * 1000) / 10;
+    const scenario = loyerIndexation.scenario_retenu === 'deplafonne' ? 'renouvellement déplafonné' : 'renouvellement plafonné';
+    html += `<tr><td>📈 Indexation loyer (${loyerIndexation.indice}, ${scenario})</td><td class="text-right">${variation >= 0 ? '+' : ''}${variation}% de l'année 1 à l'année ${loyerIndexation.coefficients.length}</td></tr>`;
+  }
+
   if (hypotheses.tauxEmprunt) {
     html += `<tr><td>💰 Taux d'emprunt</td><td class="text-right">${hypotheses.tauxEmprunt.toFixed(2)}%</td></tr>`;
   }
@@ -4,6 +4,7 @@
  * Generates the "Plan de Financement" section with:
  * - Comparative table (Initial vs Negotiated scenarios)
  * - 3 key financing indicators with color-coded badges
+ * - Loan schedules (per-loan summary + yearly debt service) from businessPlan.financement
  */
 
 /**
@@ -170,7 +171,7 @@ function generateComparativeTable(initial: any, negocie: any): string {
 /**
  * Generate key indicators cards with color-coded badges
  */
-function generateKeyIndicators(initial: any, negocie: any, ebeNormatif: number): string {
+function generateKeyIndicators(initial: any, negocie: any, ebeNormatif: number, financement?: any): string {
   // Utiliser le scénario négocié si disponible, sinon initial
   const scenario = (negocie && negocie.total_investissement > 0) ? negocie : initial;
 
@@ -182,7 +183,11 @@ function generateKeyIndicators(initial: any, negocie: any, ebeNormatif: number):
   const estimationAnnuelle = scenario.estimation_annuelle || 0;
   const dureeAnnees = scenario.duree_annees || 0;
   const pretPrincipal = scenario.pret_principal || 0;
-  const coutInterets = (estimationAnnuelle * dureeAnnees) - pretPrincipal;
+  // Échéanciers disponibles : coût exact (intérêts + assurance, tous prêts)
+  const prets: any[] = financement?.prets || [];
+  const coutInterets = prets.length > 0
+    ? prets.reduce((sum, p) => sum + (p.cout_total || 0), 0)
+    : (estimationAnnuelle * dureeAnnees) - pretPrincipal;
 
   // Indicateur 2 : Ratio d'endettement (Mensualité / EBE mensuel)
   const mensualite = estimationAnnuelle / 12;
@@ -222,7 +227,9 @@ function generateKeyIndicators(initial: any, negocie: any, ebeNormatif: number):
   html += '<div class="indicator-card">';
   html += '<div class="indicator-label">Coût total des intérêts</div>';
   html += `<div class="indicator-value">${coutInterets.toLocaleString('fr-FR')} €</div>`;
-  html += `<div class="indicator-detail">Sur ${dureeAnnees} ans de crédit</div>`;
+  html += prets.length > 0
+    ? `<div class="indicator-detail">Intérêts + assurance sur ${prets.length} prêt(s)</div>`
+    : `<div class="indicator-detail">Sur ${dureeAnnees} ans de crédit</div>`;
   html += '</div>';
 
   // Carte 2 : Ratio endettement
@@ -251,10 +258,90 @@ function generateKeyIndicators(initial: any, negocie: any, ebeNormatif: number):
   return html;
 }
 
+/**
+ * Generate the loan schedules: one summary row per loan, then the yearly debt service
+ */
+function generateLoanSchedules(financement: any): string {
+  const prets: any[] = financement?.prets || [];
+  const serviceAnnuel: any[] = financement?.service_annuel || [];
+  if (prets.length === 0) return '';
+
+  const formatEuro = (value: number): string => `${Math.round(value || 0).toLocaleString('fr-FR')} €`;
+
+  let html = '<h3 style="margin-top: 30px;">Échéanciers des Prêts</h3>';
+
+  html += '<table>';
+  html += '<thead><tr>';
+  html += '<th>Prêt</th>';
+  html += '<th class="text-right">Montant</th>';
+  html += '<th class="text-right">Taux</th>';
+  html += '<th class="text-right">Durée</th>';
+  html += '<th>Modalités</th>';
+  html += '<th class="text-right">Mensualité</th>';
+  html += '<th class="text-right">Coût total</th>';
+  html += '</tr></thead>';
+  html += '<tbody>';
+
+  prets.forEach(pret => {
+    const modalites: string[] = [];
+    if (pret.differeMois > 0) {
+      modalites.push(`Différé ${pret.typeDiffere === 'total' ? 'total' : 'partiel'} ${pret.differeMois} mois`);
+    }
+    if (pret.inFine) modalites.push('Remboursement in fine (TVA récupérée)');
+    if (pret.tauxAssurance > 0) {
+      modalites.push(`Assurance ${pret.tauxAssurance} % (${pret.baseAssurance === 'capital_restant_du' ? 'capital restant dû' : 'capital initial'})`);
+    }
+
+    html += '<tr>';
+    html += `<td>${pret.nom}</td>`;
+    html += `<td class="text-right">${formatEuro(pret.montant)}</td>`;
+    html += `<td class="text-right">${pret.tauxAnnuel} %</td>`;
+    html += `<td class="text-right">${pret.dureeMois} mois</td>`;
+    html += `<td>${modalites.join(' · ') || '-'}</td>`;
+    html += `<td class="text-right">${formatEuro(pret.mensualite)}</td>`;
+    html += `<td class="text-right">${formatEuro(pret.cout_total)}</td>`;
+    html += '</tr>';
+  });
+
+  html += '</tbody>';
+  html += '</table>';
+
+  html += '<h3 style="margin-top: 30px;">Service de la Dette Annuel</h3>';
+  html += '<table>';
+  html += '<thead><tr>';
+  html += '<th>Année</th>';
+  html += '<th class="text-right">Intérêts</th>';
+  html += '<th class="text-right">Capital remboursé</th>';
+  html += '<th class="text-right">Assurance</th>';
+  html += '<th class="text-right">dont relais TVA</th>';
+  html += '<th class="text-right">Service de la dette</th>';
+  html += '<th class="text-right">Capital restant dû</th>';
+  html += '</tr></thead>';
+  html += '<tbody>';
+
+  serviceAnnuel.forEach(s => {
+    html += '<tr>';
+    html += `<td>Année ${s.annee}</td>`;
+    html += `<td class="text-right">${formatEuro(s.interets)}</td>`;
+    html += `<td class="text-right">${formatEuro(s.amortissement)}</td>`;
+    html += `<td class="text-right">${formatEuro(s.assurance)}</td>`;
+    html += `<td class="text-right">${s.remboursement_relais_tva > 0 ? formatEuro(s.remboursement_relais_tva) : '-'}</td>`;
+    html += `<td class="text-right"><strong>${formatEuro(s.service_dette)}</strong></td>`;
+    html += `<td class="text-right">${formatEuro(s.capital_restant_fin)}</td>`;
+    html += '</tr>';
+  });
+
+  html += '</tbody>';
+  html += '</table>';
+  html += '<p style="font-size: 0.9em; color: #666;">Le capital du prêt relais TVA est remboursé par le remboursement de TVA et n\'est pas compté dans le service de la dette supporté par l\'exploitation.</p>';
+
+  return html;
+}
+
 /**
  * Generate the complete Financing Plan Section
  */
-export function generateFinancingPlanSection(userComments: any, comptable: any): string {
+export function generateFinancingPlanSection(userComments: any, comptable: any, financement?: any): string {
   let html = '<h2>💰 Plan de Financement</h2>';
 
   const transactionFinancing = userComments?.transactionFinancing;
@@ -305,7 +392,10 @@ export function generateFinancingPlanSection(userComments: any, comptable: any):
 
   // Indicateurs clés
   html += '<h3 style="margin-top: 30px;">Indicateurs Clés de Financement</h3>';
-  html += generateKeyIndicators(initial, negocie, ebeNormatif);
+  html += generateKeyIndicators(initial, negocie, ebeNormatif, financement);
+
+  // Échéanciers (calculés par businessPlanDynamiqueTool)
+  html += generateLoanSchedules(financement);
 
   html += '<div class="page-break"></div>';
   return html;
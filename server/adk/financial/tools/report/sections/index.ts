@@ -12,7 +12,7 @@ export { generateCoverPage } from './coverPage';
 export { generateAccountingSection } from './accountingSection';
 export { generateValuationSection } from './valuationSection';
 export { generateRealEstateSection } from './realEstateSection';
-export { generateBusinessPlanSection } from './businessPlanSection';
+export { generateBusinessPlanSection, generateScenarioComparisonSection, generateSensitivitySection } from './businessPlanSection';
 
 // Opportunity section (new - strategic reprise section)
 export { generateOpportunitySection } from './opportunitySection';
@@ -20,5 +20,8 @@ export { generateOpportunitySection } from './opportunitySection';
 // Financing plan section
 export { generateFinancingPlanSection } from './financingPlanSection';
 
+// Treasury plan section
+export { generateTreasuryPlanSection } from './treasuryPlanSection';
+
 // Re-export types and utilities if needed
 export type { } from './coverPage';
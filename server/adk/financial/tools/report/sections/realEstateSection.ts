@@ -110,6 +110,65 @@ function generateWallsOption(murs: any): string {
     html += '</ul>';
   }
 
+  if (murs.comparaison_achat_location) {
+    html += generateBuyVsRentComparison(murs.comparaison_achat_location);
+  }
+
+  return html;
+}
+
+/**
+ * Generate buy (via SCI) vs rent yearly cash-flow comparison
+ */
+function generateBuyVsRentComparison(comp: any): string {
+  const fmt = (n: number) => `${Math.round(n || 0).toLocaleString('fr-FR')} €`;
+  const h = comp.hypotheses || {};
+
+  let html = '<h4>Achat via SCI vs Location</h4>';
+  html += `<p><small>Apport ${fmt(h.apport)} (dont frais de notaire ${fmt(h.fraisNotaire)}), prêt SCI ${fmt(h.montantEmprunt)} `
+    + `sur ${h.dureeEmpruntAns} ans à ${h.tauxEmprunt}% (${fmt(h.mensualite)}/mois), taxe foncière ${fmt(h.taxeFonciere)}/an, `
+    + `entretien ${h.entretienPct}% du prix/an, indexation ${h.indexationPct}%/an, revalorisation des murs ${h.revalorisationPct}%/an, `
+    + `frais de cession ${h.fraisCessionPct}%. Flux avant impôt.</small></p>`;
+
+  html += '<table>';
+  html += '<thead><tr><th>Année</th><th class="text-right">Location : loyer</th><th class="text-right">SCI : service dette</th>'
+    + '<th class="text-right">SCI : taxe foncière + entretien</th><th class="text-right">Achat : flux consolidé</th>'
+    + '<th class="text-right">Cumul location</th><th class="text-right">Cumul achat</th><th class="text-right">Capital restant dû</th></tr></thead>';
+  html += '<tbody>';
+  html += `<tr><td>0</td><td class="text-right">-</td><td class="text-right">-</td><td class="text-right">-</td>`
+    + `<td class="text-right">${fmt(-h.apport)} <small>(apport)</small></td><td class="text-right">0 €</td>`
+    + `<td class="text-right">${fmt(-h.apport)}</td><td class="text-right">${fmt(h.montantEmprunt)}</td></tr>`;
+
+  (comp.achat || []).forEach((a: any, i: number) => {
+    const l = comp.location?.[i] || {};
+    const revente = a.revente_nette ? ` <small>(dont revente nette ${fmt(a.revente_nette)})</small>` : '';
+    html += `<tr>
+      <td>${a.annee}</td>
+      <td class="text-right">${fmt(l.loyer)}</td>
+      <td class="text-right">${fmt(a.interets + a.amortissement + a.assurance)}</td>
+      <td class="text-right">${fmt(a.taxe_fonciere + a.entretien)}</td>
+      <td class="text-right">${fmt(a.flux)}${revente}</td>
+      <td class="text-right">${fmt(l.flux_cumule)}</td>
+      <td class="text-right">${fmt(a.flux_cumule)}</td>
+      <td class="text-right">${fmt(a.capital_restant_du)}</td>
+    </tr>`;
+  });
+  html += '</tbody></table>';
+
+  const ecartColor = comp.van_ecart >= 0 ? 'var(--color-success-text)' : 'var(--color-error-text)';
+  html += '<table>';
+  html += `<tr><td>VAN Location</td><td class="text-right">${fmt(comp.van_location)}</td></tr>`;
+  html += `<tr><td>VAN Achat (revente incluse)</td><td class="text-right">${fmt(comp.van_achat)}</td></tr>`;
+  html += `<tr><td><strong>Écart de VAN (achat - location)</strong></td><td class="text-right" style="color: ${ecartColor}"><strong>${comp.van_ecart > 0 ? '+' : ''}${fmt(comp.van_ecart)}</strong></td></tr>`;
+  html += `<tr><td>Durée de détention d'équilibre</td><td class="text-right">${comp.duree_equilibre_annees ? `${comp.duree_equilibre_annees} ans` : 'Non atteinte'}</td></tr>`;
+  html += '</table>';
+
+  const impactEbe = (comp.achat || [])[0]?.impact_ebe_fonds || 0;
+  if (impactEbe !== 0) {
+    html += `<p><small>Loyer refacturé par la SCI : EBE du fonds ${impactEbe > 0 ? 'amélioré' : 'réduit'} de ${fmt(Math.abs(impactEbe))} en année 1.</small></p>`;
+  }
+  html += `<div class="alert-box info">${comp.commentaire}</div>`;
+
   return html;
 }
 
@@ -121,6 +180,11 @@ function generateWorksSection(travaux: any): string {
   html += '<table>';
   html += `<tr><td>État Général</td><td><strong>${travaux.etat_general || 'N/A'}</strong></td></tr>`;
 
+  if (travaux.conformite_erp) {
+    const erpBadge = travaux.conformite_erp === 'conforme' ? 'success' : (travaux.conformite_erp === 'non_conforme' ? 'error' : 'warning');
+    html += `<tr><td>Conformité ERP / PMR</td><td><span class="badge ${erpBadge}">${travaux.conformite_erp.replace('_', ' ').toUpperCase()}</span></td></tr>`;
+  }
+
   if (travaux.budget_total) {
     const bt = travaux.budget_total;
     html += `<tr><td>Budget Obligatoire</td><td><strong>${(bt.obligatoire_bas || 0).toLocaleString('fr-FR')} € - ${(bt.obligatoire_haut || 0).toLocaleString('fr-FR')} €</strong></td></tr>`;
@@ -130,6 +194,59 @@ function generateWorksSection(travaux: any): string {
   }
 
   html += '</table>';
+
+  // Lignes chiffrées depuis la bibliothèque de coûts
+  const lignes = [
+    ...(travaux.travaux_obligatoires || []).map((t: any) => ({ ...t, type: 'Obligatoire' })),
+    ...(travaux.travaux_recommandes || []).map((t: any) => ({ ...t, type: 'Recommandé' }))
+  ].filter((t: any) => t.estimation_haute > 0);
+
+  if (lignes.length > 0) {
+    const sourceLabels: Record<string, string> = { etat: 'État du local', checklist_erp: 'Checklist ERP', photo: 'Photos', custom: 'Repreneur' };
+    const unites: Record<string, string> = { m2: 'm²', unite: 'u.', forfait: 'forfait' };
+    html += '<table>';
+    html += '<thead><tr><th>Poste</th><th>Type</th><th class="text-right">Quantité</th><th class="text-right">Fourchette</th><th>Origine</th></tr></thead>';
+    html += '<tbody>';
+    for (const t of lignes) {
+      const constats = (t.constats || []).length > 0 ? `<br><small>${t.constats.join(' ; ')}</small>` : '';
+      const quantite = t.unite === 'forfait' ? 'forfait' : `${(t.quantite || 0).toLocaleString('fr-FR')} ${unites[t.unite] || t.unite || ''}`;
+      html += `<tr>
+        <td>${t.description}${constats}</td>
+        <td>${t.type}${t.urgence ? ` <small>(${t.urgence.replace('_', ' ')})</small>` : ''}</td>
+        <td class="text-right">${t.quantite !== undefined ? quantite : '-'}</td>
+        <td class="text-right">${(t.estimation_basse || 0).toLocaleString('fr-FR')} € - ${(t.estimation_haute || 0).toLocaleString('fr-FR')} €</td>
+        <td>${(t.sources || []).map((src: string) => sourceLabels[src] || src).join(', ') || '-'}</td>
+      </tr>`;
+    }
+    html += '</tbody></table>';
+  }
+
+  // Checklist ERP 5e catégorie / PMR
+  if (travaux.checklist_erp && travaux.checklist_erp.length > 0) {
+    const statuts: Record<string, { badge: string; label: string }> = {
+      conforme: { badge: 'success', label: 'Conforme' },
+      non_conforme: { badge: 'error', label: 'Non conforme' },
+      a_verifier: { badge: 'warning', label: 'À vérifier' }
+    };
+    html += '<h4>Checklist ERP 5e catégorie / accessibilité PMR</h4>';
+    html += '<table>';
+    html += '<thead><tr><th>Point de contrôle</th><th>Statut</th><th class="text-right">Coût si non conforme</th></tr></thead>';
+    html += '<tbody>';
+    for (const point of travaux.checklist_erp) {
+      const statut = statuts[point.statut] || statuts.a_verifier;
+      html += `<tr>
+        <td><strong>${point.libelle}</strong><br><small>${point.exigence} (${point.reference})</small>${point.commentaire ? `<br><small>${point.commentaire}</small>` : ''}</td>
+        <td><span class="badge ${statut.badge}">${statut.label}</span></td>
+        <td class="text-right">${(point.cout_bas || 0).toLocaleString('fr-FR')} € - ${(point.cout_haut || 0).toLocaleString('fr-FR')} €</td>
+      </tr>`;
+    }
+    html += '</tbody></table>';
+  }
+
+  if (travaux.constats_non_chiffres && travaux.constats_non_chiffres.length > 0) {
+    html += `<div class="alert-box warning"><strong>Constats photos sans poste dans la bibliothèque (non chiffrés) :</strong> ${travaux.constats_non_chiffres.join(' ; ')}</div>`;
+  }
+
   return html;
 }
 
@@ -193,8 +310,25 @@ function generateRentSimulation(sim: any): string {
     }
   }
 
+  // Market rent (user price or rent reference)
+  if (sim.loyerMarche) {
+    const lm = sim.loyerMarche;
+    html += `<tr>
+        <td><strong>Loyer de Marché</strong></td>
+        <td class="text-right"><strong>${lm.annuelEstime.toLocaleString('fr-FR')} €/an</strong> <small>(${lm.prixM2Estime.toLocaleString('fr-FR')} €/m²/an, fourchette ${lm.prixM2Bas.toLocaleString('fr-FR')}-${lm.prixM2Haut.toLocaleString('fr-FR')})</small></td>
+        <td><small>${lm.referenceLibelle}</small></td>
+      </tr>`;
+  }
+
   html += '</tbody></table>';
 
+  if (sim.comparaison?.argument) {
+    const boxClass = sim.comparaison.appreciation === 'desavantageux' ? 'warning' : 'info';
+    html += `<div class="alert-box ${boxClass}" style="margin-top: 1rem;">
+      <p>${sim.comparaison.argument}</p>
+    </div>`;
+  }
+
   // Simulation results
   if (sim.simulation) {
     html += generateSimulationResults(sim.simulation);
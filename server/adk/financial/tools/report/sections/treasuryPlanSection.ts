@@ -0,0 +1,98 @@
+/**
+ * Treasury Plan Section Generator
+ *
+ * Generates the "Plan de Trésorerie" section from state.planTresorerie (treasuryPlanTool):
+ * - Minimum cash point and whether the financed working capital covers it
+ * - Monthly cash chart (net flows + balance)
+ * - Month-by-month table (receipts, disbursements, net flow, end-of-month balance)
+ */
+
+/**
+ * Generate the complete Treasury Plan Section
+ */
+export function generateTreasuryPlanSection(plan: any, treasuryChart: any): string {
+  const mois: any[] = plan?.mois || [];
+  if (mois.length === 0) return '';
+
+  const formatEuro = (value: number): string => `${Math.round(value || 0).toLocaleString('fr-FR')} €`;
+
+  let html = `<h2>🏧 Plan de Trésorerie - ${mois.length} Premiers Mois</h2>`;
+
+  html += `<div class="alert-box ${plan.apport_couvre ? 'info' : 'critical'}">${plan.synthese}</div>`;
+
+  // Indicateurs clés
+  html += '<div class="key-indicators-grid">';
+  html += '<div class="indicator-card">';
+  html += '<div class="indicator-label">Trésorerie de départ</div>';
+  html += `<div class="indicator-value">${formatEuro(plan.tresorerie_initiale)}</div>`;
+  html += `<div class="indicator-detail">Apport ${formatEuro(plan.apport_personnel)} + prêts - emplois</div>`;
+  html += '</div>';
+
+  html += `<div class="indicator-card ${plan.tresorerie_min < 0 ? 'warning' : 'success'}">`;
+  html += '<div class="indicator-label">Point bas de trésorerie</div>';
+  html += `<div class="indicator-value">${formatEuro(plan.tresorerie_min)}</div>`;
+  html += `<div class="indicator-detail">${plan.mois_min}</div>`;
+  html += '</div>';
+
+  html += `<div class="indicator-card ${plan.besoin_financement > 0 ? 'warning' : 'success'}">`;
+  html += '<div class="indicator-label">Besoin complémentaire</div>';
+  html += `<div class="indicator-value">${formatEuro(plan.besoin_financement)}</div>`;
+  html += `<div class="indicator-badge ${plan.apport_couvre ? 'success' : 'warning'}">${plan.apport_couvre ? 'COUVERT' : 'NON COUVERT'}</div>`;
+  html += '</div>';
+  html += '</div>';
+
+  if (treasuryChart) {
+    html += '<div class="chart-container"><canvas id="treasuryChart"></canvas></div>';
+    html += `<script>
+    new Chart(document.getElementById('treasuryChart'), ${JSON.stringify(treasuryChart)});
+    </script>`;
+  }
+
+  // Tableau mensuel
+  html += '<h3>📅 Détail mensuel</h3>';
+  html += '<table>';
+  html += '<thead><tr>';
+  html += '<th>Mois</th>';
+  html += '<th class="text-right">CA HT</th>';
+  html += '<th class="text-right">Encaissements TTC</th>';
+  html += '<th class="text-right">Achats & stock</th>';
+  html += '<th class="text-right">Charges</th>';
+  html += '<th class="text-right">TVA & TNS</th>';
+  html += '<th class="text-right">Échéances prêts</th>';
+  html += '<th class="text-right">Flux net</th>';
+  html += '<th class="text-right">Trésorerie fin</th>';
+  html += '</tr></thead>';
+  html += '<tbody>';
+
+  mois.forEach(m => {
+    const charges = m.salaires + m.loyer + m.autres_charges + m.remuneration_dirigeant;
+    const color = m.tresorerie_fin < 0 ? 'var(--color-error)' : 'inherit';
+
+    html += '<tr>';
+    html += `<td>${m.label}</td>`;
+    html += `<td class="text-right">${formatEuro(m.ca_ht)}</td>`;
+    html += `<td class="text-right">${formatEuro(m.encaissements)}${m.remboursement_tva > 0 ? ' *' : ''}</td>`;
+    html += `<td class="text-right">${formatEuro(m.achats + m.stock)}</td>`;
+    html += `<td class="text-right">${formatEuro(charges)}</td>`;
+    html += `<td class="text-right">${formatEuro(m.tva_nette + m.cotisations_tns)}</td>`;
+    html += `<td class="text-right">${formatEuro(m.service_dette)}</td>`;
+    html += `<td class="text-right">${formatEuro(m.flux_net)}</td>`;
+    html += `<td class="text-right" style="color: ${color}"><strong>${formatEuro(m.tresorerie_fin)}</strong></td>`;
+    html += '</tr>';
+  });
+
+  html += '</tbody>';
+  html += '</table>';
+
+  html += '<p style="font-size: 0.9em; color: #666;">';
+  html += `Saisonnalité : ${plan.saisonnalite}. TVA payée le mois suivant, cotisations TNS au forfait de début d'activité la première année.`;
+  if (mois.some(m => m.remboursement_tva > 0)) {
+    html += ' * Inclut le remboursement de la TVA d\'acquisition (qui solde le prêt relais TVA).';
+  }
+  html += '</p>';
+
+  html += '<div class="page-break"></div>';
+  return html;
+}
+
+export default generateTreasuryPlanSection;
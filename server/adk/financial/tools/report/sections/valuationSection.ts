@@ -1,8 +1,8 @@
 /**
  * Valuation Section
  *
- * Generates the business valuation section with 3 methods (EBE, CA, Patrimoniale)
- * and hybrid Tabac method when applicable.
+ * Generates the business valuation section with 3 methods (EBE, CA, Patrimoniale), optional DCF,
+ * BODACC comparables and hybrid Tabac method when applicable.
  */
 
 /**
@@ -13,7 +13,8 @@ export function generateValuationSection(
   valorisationChart: any,
   documentExtraction?: any,
   userComments?: any,
-  options?: any
+  options?: any,
+  simulationChart?: any
 ): string {
   if (!valorisation) {
     return '<h2>💰 Valorisation du Fonds</h2><p class="no-data">Données de valorisation non disponibles</p>';
@@ -42,6 +43,11 @@ export function generateValuationSection(
 
     // Tableau comparatif standard
     html += generateStandardValuationTable(valorisation);
+
+    // Distribution simulée (mode simulation Monte Carlo)
+    if (valorisation.simulation && simulationChart) {
+      html += generateSimulationBlock(valorisation.simulation, simulationChart);
+    }
   }
 
   // Synthèse valorisation (désactivée - supprimée sur demande utilisateur)
@@ -236,7 +242,9 @@ function generateStandardValuationTable(valorisation: any): string {
   const methodes = valorisation.methodes || {
     ebe: valorisation.methodeEBE,
     ca: valorisation.methodeCA,
-    patrimoniale: valorisation.methodePatrimoniale
+    patrimoniale: valorisation.methodePatrimoniale,
+    dcf: valorisation.methodeDCF,
+    comparables: valorisation.methodeComparables
   };
 
   // Méthode EBE
@@ -297,10 +305,70 @@ function generateStandardValuationTable(valorisation: any): string {
     }
   }
 
+  // Méthode DCF (optionnelle)
+  const dcf = methodes?.dcf;
+  if (dcf?.valeur_mediane > 0) {
+    html += `<tr>
+      <td><strong>Méthode DCF</strong> (flux actualisés à ${dcf.taux_actualisation}%)</td>
+      <td class="text-right">${(dcf.valeur_basse || 0).toLocaleString('fr-FR')} €</td>
+      <td class="text-right">${(dcf.valeur_mediane || 0).toLocaleString('fr-FR')} €</td>
+      <td class="text-right">${(dcf.valeur_haute || 0).toLocaleString('fr-FR')} €</td>
+    </tr>`;
+    if (dcf.valeur_terminale_actualisee) {
+      html += `<tr style="font-size:0.9em; color:var(--color-text-secondary)">
+        <td style="padding-left:30px">dont valeur terminale actualisée</td>
+        <td class="text-right" colspan="3">${(dcf.valeur_terminale_actualisee || 0).toLocaleString('fr-FR')} € (${dcf.poids_valeur_terminale_pct || 0}%)</td>
+      </tr>`;
+    }
+  }
+
+  // Méthode des comparables BODACC (optionnelle)
+  const comparables = methodes?.comparables;
+  if (comparables?.nb_transactions > 0) {
+    const zones: Record<string, string> = { commune: 'commune', departement: 'département', national: 'France' };
+    html += `<tr>
+      <td><strong>Comparables BODACC</strong> (${comparables.nb_transactions} cessions, ${zones[comparables.zone] || comparables.zone})</td>
+      <td class="text-right">${(comparables.valeur_basse || 0).toLocaleString('fr-FR')} €</td>
+      <td class="text-right">${(comparables.valeur_mediane || 0).toLocaleString('fr-FR')} €</td>
+      <td class="text-right">${(comparables.valeur_haute || 0).toLocaleString('fr-FR')} €</td>
+    </tr>`;
+  }
+
   html += '</tbody></table>';
   return html;
 }
 
+/**
+ * Generate Monte Carlo simulation block (histogram + percentiles)
+ */
+function generateSimulationBlock(simulation: any, simulationChart: any): string {
+  const p = simulation.percentiles || {};
+  const fmt = (n: number) => (n || 0).toLocaleString('fr-FR');
+
+  let html = '<h3>🎲 Simulation Monte Carlo</h3>';
+  html += '<div class="chart-container"><canvas id="simulationChart"></canvas></div>';
+  html += `<script>
+    new Chart(document.getElementById('simulationChart'), ${JSON.stringify(simulationChart)});
+    </script>`;
+
+  html += '<table><thead><tr><th>P10</th><th>P25</th><th>Médiane (P50)</th><th>P75</th><th>P90</th></tr></thead><tbody>';
+  html += `<tr>
+    <td class="text-right">${fmt(p.p10)} €</td>
+    <td class="text-right">${fmt(p.p25)} €</td>
+    <td class="text-right"><strong>${fmt(p.p50)} €</strong></td>
+    <td class="text-right">${fmt(p.p75)} €</td>
+    <td class="text-right">${fmt(p.p90)} €</td>
+  </tr>`;
+  html += '</tbody></table>';
+
+  if (simulation.probabilite_prix_superieur !== null && simulation.probabilite_prix_superieur !== undefined) {
+    const badgeClass = simulation.probabilite_prix_superieur > 60 ? 'error' : (simulation.probabilite_prix_superieur < 40 ? 'success' : 'info');
+    html += `<p><span class="badge ${badgeClass}">${simulation.probabilite_prix_superieur}%</span> de probabilité que le prix affiché soit supérieur à la valeur du fonds (${fmt(simulation.iterations)} tirages).</p>`;
+  }
+
+  return html;
+}
+
 /**
  * Generate valuation synthesis box
  *
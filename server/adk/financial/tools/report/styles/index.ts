@@ -86,6 +86,7 @@ export function generateCSS(): string {
   .warning-list li strong { color: #78350f; }
   .warning-list li em { font-size: 0.9em; color: #a16207; }
   .bp-context { display: block; margin-top: 5px; padding: 5px 10px; background: #dcfce7; color: #166534; border-radius: 4px; font-size: 0.9em; }
+  .benchmark-ref { display: block; margin-top: 5px; font-size: 0.85em; color: #475569; }
 
   /* Tables */
   table { width: 100%; border-collapse: collapse; margin: 20px 0; }
@@ -4,6 +4,7 @@ import type { ToolContext } from '@google/adk';
 import { zToGen } from '../../../utils/schemaHelper';
 import type { DataField, DataCompleteness, DataCompletenessReport, PriorityDocument } from '../../schemas/dataCompletenessSchema';
 import { EXTRACTION_EXPECTED_FIELDS, IMMOBILIER_EXPECTED_FIELDS, SECTION_MAX_SCORES } from '../../schemas/dataCompletenessSchema';
+import { readState, FinancialStateError } from '../../state/readState';
 
 /**
  * Assess Data Quality Tool
@@ -70,11 +71,11 @@ export const assessDataQualityTool = new FunctionTool({
 
   execute: async (params, toolContext?: ToolContext) => {
     try {
-      // Récupérer tous les states
-      let documentExtraction = parseState(toolContext?.state.get('documentExtraction'));
-      let comptable = parseState(toolContext?.state.get('comptable'));
-      let valorisation = parseState(toolContext?.state.get('valorisation'));
-      let immobilier = parseState(toolContext?.state.get('immobilier'));
+      // Récupérer tous les states (parsés et validés)
+      const documentExtraction = readState(toolContext, 'documentExtraction');
+      const comptable = readState(toolContext, 'comptable');
+      const valorisation = readState(toolContext, 'valorisation');
+      const immobilier = readState(toolContext, 'immobilier');
       // NOTE: crossValidation sera toujours null car ce tool est appelé PAR
       // FinancialValidationAgent AVANT qu'il n'écrive state.financialValidation
       let crossValidation = null;
@@ -145,10 +146,10 @@ export const assessDataQualityTool = new FunctionTool({
       let partialRecency = 0;
 
       try {
-        let docExtract = parseState(toolContext?.state.get('documentExtraction'));
-        let comptable = parseState(toolContext?.state.get('comptable'));
-        let valo = parseState(toolContext?.state.get('valorisation'));
-        let immo = parseState(toolContext?.state.get('immobilier'));
+        const docExtract = readState(toolContext, 'documentExtraction');
+        const comptable = readState(toolContext, 'comptable');
+        const valo = readState(toolContext, 'valorisation');
+        const immo = readState(toolContext, 'immobilier');
 
         partialCompleteness = assessCompleteness(docExtract, comptable, valo, immo);
         partialRecency = assessRecency(docExtract);
@@ -179,7 +180,9 @@ export const assessDataQualityTool = new FunctionTool({
         },
         verificationsRequises: [],
         donneesACollector: [],
-        error: error.message || 'Data quality assessment partially failed'
+        ...(error instanceof FinancialStateError
+          ? error.toToolError()
+          : { error: error.message || 'Data quality assessment partially failed' })
       };
     }
   }
@@ -606,32 +609,6 @@ function generateDocumentsToCollect(docExtract: any, comptable: any, immo: any):
   return documents;
 }
 
-/**
- * Parse state (handle JSON string)
- */
-function parseState(state: any): any {
-  if (!state) {
-    console.warn('[assessDataQuality] ⚠️ parseState: state is null/undefined');
-    return null;
-  }
-  if (typeof state === 'string') {
-    try {
-      // Strip markdown code blocks if present (LLM sometimes wraps JSON in ```json ... ```)
-      let cleanState = state.trim();
-      if (cleanState.startsWith('```json')) {
-        cleanState = cleanState.replace(/^```json\s*\n/, '').replace(/\n```\s*$/, '');
-      } else if (cleanState.startsWith('```')) {
-        cleanState = cleanState.replace(/^```\s*\n/, '').replace(/\n```\s*$/, '');
-      }
-      return JSON.parse(cleanState);
-    } catch (e) {
-      console.error('[assessDataQuality] ❌ parseState: JSON parse failed', e);
-      return null;
-    }
-  }
-  return state;
-}
-
 /**
  * Extrait les années depuis les documents
  */
@@ -682,6 +659,12 @@ function buildExtractionCompletenessSection(
   // Check for liasse_fiscale (combined document)
   const hasLiasseFiscale = docExtract?.documents?.some((d: any) => d.documentType === 'liasse_fiscale');
 
+  // Sections structurées (COMPTA / FEC / liasse 2033 normalisée) : même format quel que soit le régime
+  const structuredDocs: any[] = (docExtract?.documents || []).filter((d: any) =>
+    d.extractedData?.bilan_actif || d.extractedData?.compte_resultat
+  );
+  const hasLiasseSimplifiee = docExtract?.documents?.some((d: any) => d.regime === 'simplifie');
+
   // Process each expected field
   for (const fieldDef of EXTRACTION_EXPECTED_FIELDS) {
     const field: DataField = {
@@ -745,6 +728,9 @@ function buildExtractionCompletenessSection(
         if (hasLiasseFiscale) {
           field.status = 'present';
           field.source = docExtract.documents.find((d: any) => d.documentType === 'liasse_fiscale')?.filename;
+          if (hasLiasseSimplifiee) {
+            field.details = 'Régime simplifié (2033-A/B) - postes agrégés';
+          }
           score += fieldDef.impact;
         }
         break;
@@ -754,7 +740,7 @@ function buildExtractionCompletenessSection(
         const hasImmoData = docExtract?.documents?.some((d: any) =>
           d.extractedData?.key_values?.immobilisations_corporelles !== undefined ||
           d.extractedData?.key_values?.immobilisations_incorporelles !== undefined
-        );
+        ) || structuredDocs.some((d: any) => d.extractedData?.bilan_actif?.total_actif_immobilise?.brut > 0);
         if (hasImmoData) {
           field.status = 'partial';
           field.details = 'Données partielles extraites du bilan';
@@ -764,8 +750,10 @@ function buildExtractionCompletenessSection(
 
       case 'etat_stocks':
         // Check if stock data exists
-        const hasStockData = comptable?.sig && Object.values(comptable.sig).some((sig: any) =>
+        const hasStockData = (comptable?.sig && Object.values(comptable.sig).some((sig: any) =>
           sig.variation_stocks !== undefined && sig.variation_stocks !== 0
+        )) || structuredDocs.some((d: any) =>
+          (d.extractedData?.bilan_actif?.stocks_marchandises || 0) + (d.extractedData?.bilan_actif?.stocks_matieres_premieres || 0) > 0
         );
         if (hasStockData) {
           field.status = 'partial';
@@ -776,9 +764,9 @@ function buildExtractionCompletenessSection(
 
       case 'masse_salariale':
         // Check if personnel charges exist
-        const hasSalaryData = comptable?.sig && Object.values(comptable.sig).some((sig: any) =>
+        const hasSalaryData = (comptable?.sig && Object.values(comptable.sig).some((sig: any) =>
           sig.charges_personnel > 0
-        );
+        )) || structuredDocs.some((d: any) => d.extractedData?.compte_resultat?.salaires_traitements > 0);
         if (hasSalaryData) {
           field.status = 'partial';
           field.details = 'Total charges personnel (pas de détail individuel)';
@@ -2,6 +2,8 @@ import { z } from 'zod';
 import { FunctionTool } from '@google/adk';
 import type { ToolContext } from '@google/adk';
 import { zToGen } from '../../../utils/schemaHelper';
+import { getSigValue } from '../../schemas/financialStateSchema';
+import { readState, FinancialStateError } from '../../state/readState';
 
 /**
  * Cross Validate Tool
@@ -48,11 +50,16 @@ export const crossValidateTool = new FunctionTool({
     try {
       const checks: any[] = [];
 
-      // Récupérer tous les states
-      let documentExtraction = parseState(toolContext?.state.get('documentExtraction'));
-      let comptable = parseState(toolContext?.state.get('comptable'));
-      let valorisation = parseState(toolContext?.state.get('valorisation'));
-      let immobilier = parseState(toolContext?.state.get('immobilier'));
+      // Récupérer tous les states (parsés et validés)
+      const documentExtraction = readState(toolContext, 'documentExtraction');
+      const comptable = readState(toolContext, 'comptable');
+      const valorisation = readState(toolContext, 'valorisation');
+      const immobilier = readState(toolContext, 'immobilier');
+
+      // Formats historiques hors schéma
+      const methodes = valorisation?.methodes as any;
+      const valorisationRetenue = valorisation?.valorisationRetenue as any;
+      const syntheseImmobilier = immobilier?.synthese as any;
 
       // CHECK 1 : Présence des analyses requises
       if (!documentExtraction || !documentExtraction.documents) {
@@ -122,7 +129,7 @@ export const crossValidateTool = new FunctionTool({
         // CHECK 3 : Cohérence CA (extraction vs SIG)
         const latestYear = analyzedYears[0];
         if (latestYear && comptable.sig[latestYear]) {
-          const sigCA = comptable.sig[latestYear].chiffre_affaires;
+          const sigCA = getSigValue(comptable.sig[latestYear], 'chiffre_affaires');
           const extractedCA = extractCAFromDocuments(documentExtraction.documents, latestYear);
 
           if (extractedCA > 0) {
@@ -154,11 +161,11 @@ export const crossValidateTool = new FunctionTool({
       }
 
       // CHECK 4 : Cohérence Comptable vs Valorisation
-      if (comptable?.sig && valorisation?.methodes) {
+      if (comptable?.sig && methodes) {
         const latestYear = comptable.yearsAnalyzed?.[0];
         if (latestYear && comptable.sig[latestYear]) {
-          const sigEBE = comptable.sig[latestYear].ebe;
-          const valoEBE = valorisation.methodes.ebe?.ebe_reference;
+          const sigEBE = getSigValue(comptable.sig[latestYear], 'ebe');
+          const valoEBE = methodes.ebe?.ebe_reference;
 
           if (valoEBE && sigEBE > 0) {
             const deviation = Math.abs((sigEBE - valoEBE) / sigEBE * 100);
@@ -179,8 +186,8 @@ export const crossValidateTool = new FunctionTool({
             }
           }
 
-          const sigCA = comptable.sig[latestYear].chiffre_affaires;
-          const valoCA = valorisation.methodes.ca?.ca_reference;
+          const sigCA = getSigValue(comptable.sig[latestYear], 'chiffre_affaires');
+          const valoCA = methodes.ca?.ca_reference;
 
           if (valoCA && sigCA > 0) {
             const deviation = Math.abs((sigCA - valoCA) / sigCA * 100);
@@ -204,15 +211,15 @@ export const crossValidateTool = new FunctionTool({
       }
 
       // CHECK 5 : Cohérence Valorisation vs Immobilier
-      if (valorisation?.valorisationRetenue && immobilier?.synthese) {
-        const valoTotale = valorisation.valorisationRetenue.valorisation;
-        const mursPrix = immobilier.synthese.murs_prix_estime || 0;
+      if (valorisationRetenue && syntheseImmobilier) {
+        const valoTotale = valorisationRetenue.valorisation;
+        const mursPrix = syntheseImmobilier.murs_prix_estime || 0;
 
         if (mursPrix > 0) {
           // Vérifier que l'immobilier est pris en compte dans la valorisation
           const avoirImmobilierMentionne =
-            valorisation.valorisationRetenue.justification?.toLowerCase().includes('murs') ||
-            valorisation.valorisationRetenue.justification?.toLowerCase().includes('immobilier');
+            valorisationRetenue.justification?.toLowerCase().includes('murs') ||
+            valorisationRetenue.justification?.toLowerCase().includes('immobilier');
 
           if (!avoirImmobilierMentionne) {
             checks.push({
@@ -233,9 +240,9 @@ export const crossValidateTool = new FunctionTool({
       }
 
       // CHECK 6 : Cohérence santé financière vs valorisation
-      if (comptable?.healthScore && valorisation?.valorisationRetenue) {
+      if (comptable?.healthScore && valorisationRetenue) {
         const healthScore = comptable.healthScore.overall;
-        const methodeRetenue = valorisation.valorisationRetenue.methode;
+        const methodeRetenue = valorisationRetenue.methode;
 
         // Si santé faible mais valorisation élevée = incohérence
         if (healthScore < 40 && methodeRetenue === 'ebe') {
@@ -283,27 +290,14 @@ export const crossValidateTool = new FunctionTool({
         passedChecks: 0,
         warningChecks: 0,
         errorChecks: 0,
-        error: error.message || 'Cross validation failed'
+        ...(error instanceof FinancialStateError
+          ? error.toToolError()
+          : { error: error.message || 'Cross validation failed' })
       };
     }
   }
 });
 
-/**
- * Parse state (handle JSON string)
- */
-function parseState(state: any): any {
-  if (!state) return null;
-  if (typeof state === 'string') {
-    try {
-      return JSON.parse(state);
-    } catch {
-      return null;
-    }
-  }
-  return state;
-}
-
 /**
  * Extrait les années depuis les documents
  */
@@ -2,6 +2,8 @@ import { z } from 'zod';
 import { FunctionTool } from '@google/adk';
 import type { ToolContext } from '@google/adk';
 import { zToGen } from '../../../utils/schemaHelper';
+import { getSigValue, type SigYear } from '../../schemas/financialStateSchema';
+import { readState, FinancialStateError } from '../../state/readState';
 
 /**
  * Detect Anomalies Tool
@@ -49,11 +51,11 @@ export const detectAnomaliesTool = new FunctionTool({
     try {
       const anomalies: any[] = [];
 
-      // Récupérer tous les states
-      let documentExtraction = parseState(toolContext?.state.get('documentExtraction'));
-      let comptable = parseState(toolContext?.state.get('comptable'));
-      let valorisation = parseState(toolContext?.state.get('valorisation'));
-      let immobilier = parseState(toolContext?.state.get('immobilier'));
+      // Récupérer tous les states (parsés et validés)
+      const documentExtraction = readState(toolContext, 'documentExtraction');
+      const comptable = readState(toolContext, 'comptable');
+      const valorisation = readState(toolContext, 'valorisation');
+      const immobilier = readState(toolContext, 'immobilier');
 
       // ANOMALIE 1 : Données manquantes dans documentExtraction
       if (!documentExtraction || !documentExtraction.documents || documentExtraction.documents.length === 0) {
@@ -107,7 +109,7 @@ export const detectAnomaliesTool = new FunctionTool({
         const years = Object.keys(comptable.sig);
 
         for (const yearStr of years) {
-          const sig = comptable.sig[yearStr];
+          const sig = sigAmounts(comptable.sig[yearStr]);
 
           // Incohérence : Résultat net > CA
           if (sig.resultat_net > sig.chiffre_affaires) {
@@ -157,7 +159,10 @@ export const detectAnomaliesTool = new FunctionTool({
 
       // ANOMALIE 3 : Valeurs aberrantes dans les ratios
       if (comptable?.ratios) {
-        const ratios = comptable.ratios;
+        // Ratios non calculables (null) comparés comme 0
+        const ratios: Record<string, number> = Object.fromEntries(
+          Object.entries(comptable.ratios).map(([name, value]) => [name, value ?? 0])
+        );
 
         // Marge brute > 100%
         if (ratios.marge_brute_pct > 100) {
@@ -231,7 +236,7 @@ export const detectAnomaliesTool = new FunctionTool({
         const years = Object.keys(comptable.sig);
 
         for (const yearStr of years) {
-          const sig = comptable.sig[yearStr];
+          const sig = sigAmounts(comptable.sig[yearStr]);
 
           // Vérifier marge commerciale = ventes - achats
           const expectedMarge = sig.chiffre_affaires - sig.achats_marchandises;
@@ -275,7 +280,7 @@ export const detectAnomaliesTool = new FunctionTool({
 
       // ANOMALIE 5 : Valorisation incohérente
       if (valorisation?.methodes) {
-        const methodes = valorisation.methodes;
+        const methodes = valorisation.methodes as any; // Format historique, hors schéma
 
         // Valorisation EBE avec EBE négatif
         if (methodes.ebe && methodes.ebe.ebe_reference < 0) {
@@ -315,13 +320,13 @@ export const detectAnomaliesTool = new FunctionTool({
 
       // ANOMALIE 6 : Immobilier incohérent
       if (immobilier?.synthese) {
-        const synthese = immobilier.synthese;
+        const synthese = immobilier.synthese as any; // Format historique, hors schéma
 
         // Loyer aberrant par rapport au CA
         if (comptable?.sig) {
           const latestYear = comptable.yearsAnalyzed?.[0];
           if (latestYear && comptable.sig[latestYear]) {
-            const ca = comptable.sig[latestYear].chiffre_affaires;
+            const ca = getSigValue(comptable.sig[latestYear], 'chiffre_affaires');
             const loyerAnnuel = (synthese.loyer_mensuel || 0) * 12;
 
             if (loyerAnnuel > ca * 0.3 && ca > 0) {
@@ -373,25 +378,19 @@ export const detectAnomaliesTool = new FunctionTool({
         criticalCount: 0,
         warningCount: 0,
         infoCount: 0,
-        error: error.message || 'Anomaly detection failed'
+        ...(error instanceof FinancialStateError
+          ? error.toToolError()
+          : { error: error.message || 'Anomaly detection failed' })
       };
     }
   }
 });
 
 /**
- * Parse state (handle JSON string)
+ * Postes SIG d'une année en nombres (format {valeur, pct_ca} ou brut, cf. getSigValue)
  */
-function parseState(state: any): any {
-  if (!state) return null;
-  if (typeof state === 'string') {
-    try {
-      return JSON.parse(state);
-    } catch {
-      return null;
-    }
-  }
-  return state;
+function sigAmounts(sigYear: SigYear | undefined): Record<string, number> {
+  return Object.fromEntries(Object.keys(sigYear ?? {}).map(field => [field, getSigValue(sigYear, field)]));
 }
 
 /**
@@ -4,7 +4,10 @@ import type { ToolContext } from '@google/adk';
 import { zToGen } from '../../../utils/schemaHelper';
 import { ALERT_RULES } from '../../config/alertRules';
 import { findSectorBenchmark, DEFAULT_BENCHMARK } from '../../config/sectorBenchmarks';
+import { buildLeaseCalendar } from '../property/leaseCalendar';
+import { readState, readUntypedState, FinancialStateError } from '../../state/readState';
 import type {
+  AlertRule,
   DeterministicAlert,
   AlertEvaluationContext,
   DeterministicAlertsResult,
@@ -23,8 +26,36 @@ import type {
  * - Meme input = meme output (100% reproductible)
  * - Tri par severite (critical > warning > info)
  * - Compatible avec le format existant (pointsVigilance[])
+ * - Seuils sectoriels : benchmark resolu par compareToSector (state.sectorBenchmark),
+ *   cite dans les alertes qui l'utilisent
  */
 
+/**
+ * Alerte produite par une regle, null si la condition n'est pas remplie
+ */
+export function buildAlert(rule: AlertRule, context: AlertEvaluationContext): DeterministicAlert | null {
+  if (!rule.condition(context)) {
+    return null;
+  }
+
+  const values = rule.extractValues(context);
+  const alert: DeterministicAlert = {
+    id: rule.id,
+    category: rule.category,
+    severity: rule.severity,
+    title: rule.titleTemplate,
+    message: rule.messageTemplate(values),
+    impact: rule.impactTemplate,
+    recommendation: rule.recommendationTemplate,
+    values
+  };
+  const benchmarkQuote = rule.benchmarkQuote?.(context);
+  if (benchmarkQuote) {
+    alert.benchmark = benchmarkQuote;
+  }
+  return alert;
+}
+
 const GenerateDeterministicAlertsInputSchema = z.object({
   debug: z.boolean().optional().describe('Mode debug pour logs detailles')
 });
@@ -37,7 +68,19 @@ const DeterministicAlertSchema = z.object({
   message: z.string(),
   impact: z.string(),
   recommendation: z.string(),
-  values: z.record(z.string(), z.any())
+  values: z.record(z.string(), z.any()),
+  benchmark: z.object({
+    nafCode: z.string(),
+    sector: z.string(),
+    isDefault: z.boolean(),
+    references: z.array(z.object({
+      ratio: z.string(),
+      label: z.string(),
+      sectorValue: z.number(),
+      factor: z.number(),
+      threshold: z.number()
+    }))
+  }).optional()
 });
 
 const GenerateDeterministicAlertsOutputSchema = z.object({
@@ -66,12 +109,12 @@ export const generateDeterministicAlertsTool = new FunctionTool({
         console.log('[generateDeterministicAlerts] 🔍 Tool called');
       }
 
-      // 1. Parse all state data
-      const comptable = parseState(toolContext?.state.get('comptable'));
-      const valorisation = parseState(toolContext?.state.get('valorisation'));
-      const immobilier = parseState(toolContext?.state.get('immobilier'));
-      const documentExtraction = parseState(toolContext?.state.get('documentExtraction'));
-      const businessInfo = parseState(toolContext?.state.get('businessInfo'));
+      // 1. Parse all state data (outputs agents parsés et validés)
+      const comptable = readState(toolContext, 'comptable');
+      const valorisation = readState(toolContext, 'valorisation');
+      const immobilier = readState(toolContext, 'immobilier');
+      const documentExtraction = readState(toolContext, 'documentExtraction');
+      const businessInfo = readUntypedState(toolContext, 'businessInfo');
 
       if (debug) {
         console.log('[generateDeterministicAlerts] State loaded:', {
@@ -83,41 +126,58 @@ export const generateDeterministicAlertsTool = new FunctionTool({
         });
       }
 
-      // 2. Get sector benchmark for comparison
+      // 2. Get sector benchmark (resolu par compareToSector, sinon depuis le secteur saisi)
       const sectorCode = businessInfo?.secteurActivite || '';
-      const benchmark = findSectorBenchmark(sectorCode) || DEFAULT_BENCHMARK;
+      let benchmark = readUntypedState(toolContext, 'sectorBenchmark');
+      if (!benchmark?.ratios) {
+        const found = findSectorBenchmark(sectorCode);
+        benchmark = { ...(found || DEFAULT_BENCHMARK), isDefault: !found };
+      }
 
       if (debug) {
         console.log('[generateDeterministicAlerts] Sector code:', sectorCode, '→ Sector:', benchmark.sector);
       }
 
-      // 3. Build context object for rule evaluation
+      // 3. Plan de tresorerie : calcule dans le rapport apres le business plan,
+      // treasuryPlanTool y reevalue alors TRESO_006 (voir applyTreasuryPlanAlert)
+      const planTresorerie = readUntypedState(toolContext, 'planTresorerie');
+
+      // 4. Calendrier du bail (state si deja calcule, sinon depuis le bail analyse)
+      let calendrierBail = readUntypedState(toolContext, 'calendrierBail');
+      if (!calendrierBail && immobilier?.bail?.date_effet) {
+        try {
+          calendrierBail = buildLeaseCalendar({
+            dateEffet: immobilier.bail.date_effet,
+            dateFin: immobilier.bail.date_fin || undefined,
+            typeBail: immobilier.bail.type
+          });
+        } catch (e: any) {
+          if (debug) {
+            console.log('[generateDeterministicAlerts] ⚠️ Calendrier du bail non calculable:', e.message);
+          }
+        }
+      }
+
+      // 5. Build context object for rule evaluation
+      // Les règles lisent une vue simplifiée des outputs validés (schemas/alertRulesSchema.ts)
       const context: AlertEvaluationContext = {
-        comptable,
-        valorisation,
-        immobilier,
-        documentExtraction,
+        comptable: (comptable ?? null) as AlertEvaluationContext['comptable'],
+        valorisation: (valorisation ?? null) as AlertEvaluationContext['valorisation'],
+        immobilier: (immobilier ?? null) as AlertEvaluationContext['immobilier'],
+        documentExtraction: (documentExtraction ?? null) as AlertEvaluationContext['documentExtraction'],
         businessInfo,
+        planTresorerie,
+        calendrierBail,
         benchmark
       };
 
-      // 4. Evaluate all rules
+      // 6. Evaluate all rules
       const alerts: DeterministicAlert[] = [];
 
       for (const rule of ALERT_RULES) {
         try {
-          if (rule.condition(context)) {
-            const values = rule.extractValues(context);
-            const alert: DeterministicAlert = {
-              id: rule.id,
-              category: rule.category,
-              severity: rule.severity,
-              title: rule.titleTemplate,
-              message: rule.messageTemplate(values),
-              impact: rule.impactTemplate,
-              recommendation: rule.recommendationTemplate,
-              values
-            };
+          const alert = buildAlert(rule, context);
+          if (alert) {
             alerts.push(alert);
 
             if (debug) {
@@ -132,18 +192,18 @@ export const generateDeterministicAlertsTool = new FunctionTool({
         }
       }
 
-      // 5. Sort alerts by severity (critical first, then warning, then info)
+      // 7. Sort alerts by severity (critical first, then warning, then info)
       const severityOrder: Record<string, number> = { critical: 0, warning: 1, info: 2 };
       alerts.sort((a, b) => severityOrder[a.severity] - severityOrder[b.severity]);
 
-      // 6. Generate pointsVigilance for backward compatibility
+      // 8. Generate pointsVigilance for backward compatibility
       // Format: "Titre: Message" pour critical et warning uniquement
       const pointsVigilance = alerts
         .filter(a => a.severity !== 'info')
         .slice(0, 5) // Max 5 points de vigilance
         .map(a => `${a.title}\n${a.message}\n\nRecommandation : ${a.recommendation}`);
 
-      // 7. Calculate summary
+      // 9. Calculate summary
       const categoryCounts: Record<AlertCategory, number> = {
         rentabilite: 0,
         endettement: 0,
@@ -170,7 +230,7 @@ export const generateDeterministicAlertsTool = new FunctionTool({
         console.log('[generateDeterministicAlerts] Summary:', summary);
       }
 
-      // 8. Inject into state for HTML report
+      // 10. Inject into state for HTML report
       if (toolContext?.state) {
         toolContext.state.set('deterministicAlerts', alerts);
       }
@@ -193,25 +253,12 @@ export const generateDeterministicAlertsTool = new FunctionTool({
           categoryCounts: {}
         },
         pointsVigilance: [],
-        error: error.message || 'Deterministic alert generation failed'
+        ...(error instanceof FinancialStateError
+          ? error.toToolError()
+          : { error: error.message || 'Deterministic alert generation failed' })
       };
     }
   }
 });
 
-/**
- * Parse state (handle JSON string)
- */
-function parseState(state: any): any {
-  if (!state) return null;
-  if (typeof state === 'string') {
-    try {
-      return JSON.parse(state);
-    } catch {
-      return null;
-    }
-  }
-  return state;
-}
-
 export default generateDeterministicAlertsTool;
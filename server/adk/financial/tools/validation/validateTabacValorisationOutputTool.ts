@@ -3,6 +3,7 @@ import { FunctionTool } from '@google/adk';
 import type { ToolContext } from '@google/adk';
 import { zToGen } from '../../../utils/schemaHelper';
 import { isTabacCommerce } from '../../config/tabacValuationCoefficients';
+import { readState, FinancialStateError } from '../../state/readState';
 
 /**
  * Validate Tabac Valorisation Output Tool
@@ -32,9 +33,9 @@ export const validateTabacValorisationOutputTool = new FunctionTool({
     console.log('[validateTabacValorisationOutput] 🔍 DIAGNOSTIC - Vérification valorisation Tabac...');
 
     try {
-      // Lire businessInfo et valorisation depuis state
+      // Lire businessInfo et valorisation (parsée et validée) depuis state
       let businessInfo = toolContext?.state.get('businessInfo') as any;
-      let valorisation = toolContext?.state.get('valorisation') as any;
+      const valorisation = readState(toolContext, 'valorisation');
 
       if (typeof businessInfo === 'string') {
         try {
@@ -44,14 +45,6 @@ export const validateTabacValorisationOutputTool = new FunctionTool({
         }
       }
 
-      if (typeof valorisation === 'string') {
-        try {
-          valorisation = JSON.parse(valorisation);
-        } catch (e) {
-          valorisation = null;
-        }
-      }
-
       const sectorCode = businessInfo?.secteurActivite || '';
       const isTabacSector = isTabacCommerce(sectorCode);
       const methodeHybridePresent = !!valorisation?.methodeHybride;
@@ -99,7 +92,8 @@ export const validateTabacValorisationOutputTool = new FunctionTool({
         isTabacSector: false,
         methodeHybridePresent: false,
         validationStatus: 'ERROR',
-        message: `Erreur lors de la validation: ${error.message}`
+        message: `Erreur lors de la validation: ${error.message}`,
+        ...(error instanceof FinancialStateError ? error.toToolError() : {})
       };
     }
   }
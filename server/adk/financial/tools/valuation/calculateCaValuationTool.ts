@@ -2,7 +2,10 @@ import { z } from 'zod';
 import { FunctionTool } from '@google/adk';
 import type { ToolContext } from '@google/adk';
 import { zToGen } from '../../../utils/schemaHelper';
+import { readState, FinancialStateError } from '../../state/readState';
+import { getSigValue } from '../../schemas/financialStateSchema';
 import { findValuationCoefficients, DEFAULT_VALUATION_COEFFICIENTS } from '../../config/valuationCoefficients';
+import { formatProvenance } from '../../config/sectorReferences';
 
 /**
  * Calculate CA Valuation Tool
@@ -42,28 +45,25 @@ export const calculateCaValuationTool = new FunctionTool({
 
   execute: async (params, toolContext?: ToolContext) => {
     try {
-      // Lire comptable depuis state
-      let comptable = toolContext?.state.get('comptable') as any;
-
-      // Parser JSON string si nécessaire
-      if (typeof comptable === 'string') {
-        try {
-          comptable = JSON.parse(comptable);
-        } catch (e) {
-          return {
-            methodeCA: {
-              ca_reference: 0,
-              pourcentage_bas: 0,
-              pourcentage_median: 0,
-              pourcentage_haut: 0,
-              valeur_basse: 0,
-              valeur_mediane: 0,
-              valeur_haute: 0,
-              justification: 'Erreur parsing données comptables'
-            },
-            error: 'Failed to parse comptable state (invalid JSON)'
-          };
-        }
+      // Lire comptable depuis state - parsé et validé
+      let comptable;
+      try {
+        comptable = readState(toolContext, 'comptable');
+      } catch (e) {
+        if (!(e instanceof FinancialStateError)) throw e;
+        return {
+          methodeCA: {
+            ca_reference: 0,
+            pourcentage_bas: 0,
+            pourcentage_median: 0,
+            pourcentage_haut: 0,
+            valeur_basse: 0,
+            valeur_mediane: 0,
+            valeur_haute: 0,
+            justification: 'Données comptables invalides'
+          },
+          ...e.toToolError()
+        };
       }
 
       // Lire businessInfo depuis state
@@ -93,7 +93,7 @@ export const calculateCaValuationTool = new FunctionTool({
         };
       }
 
-      const { sig, yearsAnalyzed } = comptable;
+      const { sig, yearsAnalyzed = [] } = comptable;
 
       // Calculer CA de référence (moyenne 3 dernières années ou dernière année)
       let caReference = 0;
@@ -102,13 +102,13 @@ export const calculateCaValuationTool = new FunctionTool({
         // Moyenne des 3 dernières années
         const caValues = yearsAnalyzed.slice(0, 3).map((year: number) => {
           const yearStr = year.toString();
-          return sig[yearStr]?.chiffre_affaires || 0;
+          return getSigValue(sig[yearStr], 'chiffre_affaires');
         });
         caReference = Math.round(caValues.reduce((a: number, b: number) => a + b, 0) / caValues.length);
       } else if (yearsAnalyzed.length > 0) {
         // Dernière année disponible
         const lastYear = yearsAnalyzed[0].toString();
-        caReference = sig[lastYear]?.chiffre_affaires || 0;
+        caReference = getSigValue(sig[lastYear], 'chiffre_affaires');
       }
 
       // Obtenir coefficients sectoriels
@@ -131,6 +131,9 @@ export const calculateCaValuationTool = new FunctionTool({
       }
 
       justification += `Pourcentages secteur "${coefficients.sector}": ${coefficients.caPercentage.bas}% à ${coefficients.caPercentage.haut}%. `;
+      if (coefficients.provenance) {
+        justification += `Source: ${formatProvenance(coefficients.provenance)}. `;
+      }
       justification += `ATTENTION: Cette méthode ne tient pas compte de la rentabilité, à utiliser en complément du multiple EBE.`;
 
       return {
@@ -0,0 +1,156 @@
+import { z } from 'zod';
+import { FunctionTool } from '@google/adk';
+import type { ToolContext } from '@google/adk';
+import { zToGen } from '../../../utils/schemaHelper';
+import { COMPARABLES_PARAMETERS } from '../../config/valuationCoefficients';
+import {
+  loadComparables,
+  filterComparables,
+  computeComparablesStats,
+  departementFromCodePostal,
+  type BodaccCession,
+  type ComparablesFilter
+} from './comparablesStore';
+import { readUntypedState } from '../../state/readState';
+
+/**
+ * Calculate Comparables Valuation Tool
+ *
+ * Valorise le fonds de commerce par la méthode des comparables : prix des cessions
+ * de fonds du même secteur publiées au BODACC (base locale comparablesStore.ts).
+ *
+ * Recherche élargie progressivement tant que l'échantillon est insuffisant :
+ * commune (code postal) → département → national, sur les 36 derniers mois.
+ *
+ * Fourchette: P25 / médiane / P75 des prix de cession de la zone retenue.
+ */
+
+const CalculateComparablesValuationInputSchema = z.object({
+  nafCode: z.string().optional().describe('Code NAF du secteur (sera lu depuis state.businessInfo si non fourni)'),
+  codePostal: z.string().optional().describe('Code postal du commerce (sera lu depuis state.businessInfo si non fourni)'),
+  periodeMois: z.number().optional().describe('Ancienneté maximale des cessions en mois (défaut 36)')
+});
+
+const CalculateComparablesValuationOutputSchema = z.object({
+  methodeComparables: z.object({
+    zone: z.enum(['commune', 'departement', 'national', 'aucune']),
+    periode_mois: z.number(),
+    nb_transactions: z.number(),
+    prix_min: z.number(),
+    prix_max: z.number(),
+    valeur_basse: z.number().describe('P25 des prix de cession'),
+    valeur_mediane: z.number().describe('Médiane des prix de cession'),
+    valeur_haute: z.number().describe('P75 des prix de cession'),
+    transactions: z.array(z.object({
+      date: z.string(),
+      prix: z.number(),
+      commune: z.string()
+    })).describe('Cessions les plus récentes de l\'échantillon (10 max)'),
+    justification: z.string()
+  }),
+  error: z.string().optional()
+});
+
+export type MethodeComparables = z.infer<typeof CalculateComparablesValuationOutputSchema>['methodeComparables'];
+
+const MAX_TRANSACTIONS_AFFICHEES = 10;
+
+export const calculateComparablesValuationTool = new FunctionTool({
+  name: 'calculateComparablesValuation',
+  description: 'Valorise le fonds de commerce par la méthode des comparables : prix des cessions du même secteur publiées au BODACC (commune, puis département, puis national). Retourne fourchette P25/médiane/P75.',
+  parameters: zToGen(CalculateComparablesValuationInputSchema),
+
+  execute: async (params, toolContext?: ToolContext) => {
+    const periodeMois = params.periodeMois || COMPARABLES_PARAMETERS.PERIODE_MOIS;
+
+    const emptyMethode = (justification: string): MethodeComparables => ({
+      zone: 'aucune',
+      periode_mois: periodeMois,
+      nb_transactions: 0,
+      prix_min: 0,
+      prix_max: 0,
+      valeur_basse: 0,
+      valeur_mediane: 0,
+      valeur_haute: 0,
+      transactions: [],
+      justification
+    });
+
+    try {
+      // Lire businessInfo depuis state
+      const businessInfo = readUntypedState(toolContext, 'businessInfo');
+
+      const nafCode = params.nafCode || businessInfo?.secteurActivite || businessInfo?.nafCode || '';
+      const codePostal = params.codePostal || businessInfo?.codePostal || '';
+
+      if (!nafCode) {
+        return {
+          methodeComparables: emptyMethode('Secteur d\'activité inconnu : comparables non recherchés'),
+          error: 'Missing nafCode (params or state.businessInfo)'
+        };
+      }
+
+      const cessions = await loadComparables();
+      const departement = departementFromCodePostal(codePostal);
+
+      // Élargissement progressif de la zone jusqu'à un échantillon suffisant
+      const zones: Array<{ zone: MethodeComparables['zone']; filter: ComparablesFilter }> = [];
+      if (codePostal) zones.push({ zone: 'commune', filter: { nafCode, codePostal, periodeMois } });
+      if (departement) zones.push({ zone: 'departement', filter: { nafCode, departement, periodeMois } });
+      zones.push({ zone: 'national', filter: { nafCode, periodeMois } });
+
+      let zoneRetenue = zones[zones.length - 1];
+      let echantillon: BodaccCession[] = [];
+      for (const candidate of zones) {
+        echantillon = filterComparables(cessions, candidate.filter);
+        zoneRetenue = candidate;
+        if (echantillon.length >= COMPARABLES_PARAMETERS.MIN_TRANSACTIONS) break;
+      }
+
+      const stats = computeComparablesStats(echantillon);
+      if (!stats) {
+        return {
+          methodeComparables: emptyMethode(`Aucune cession BODACC du secteur ${nafCode} sur ${periodeMois} mois dans la base locale (${cessions.length} cessions enregistrées)`)
+        };
+      }
+
+      const libelleZone = zoneRetenue.zone === 'commune'
+        ? `commune (${codePostal})`
+        : zoneRetenue.zone === 'departement' ? `département ${departement}` : 'France entière';
+
+      let justification = `Méthode des comparables : ${stats.nb_transactions} cession(s) de fonds du secteur ${nafCode} publiées au BODACC `;
+      justification += `sur ${periodeMois} mois, zone ${libelleZone}. `;
+      justification += `Prix médian ${stats.prix_median.toLocaleString('fr-FR')} € (P25 ${stats.prix_p25.toLocaleString('fr-FR')} € - P75 ${stats.prix_p75.toLocaleString('fr-FR')} €). `;
+      if (stats.nb_transactions < COMPARABLES_PARAMETERS.MIN_TRANSACTIONS) {
+        justification += `⚠️ Échantillon réduit (< ${COMPARABLES_PARAMETERS.MIN_TRANSACTIONS} cessions) : à interpréter avec prudence. `;
+      }
+      justification += 'Les prix BODACC ne renseignent ni le CA ni l\'EBE des fonds cédés : méthode de contrôle du marché local.';
+
+      console.log(`[calculateComparablesValuation] ✅ ${stats.nb_transactions} cessions retenues (zone: ${zoneRetenue.zone}, médiane: ${stats.prix_median} €)`);
+
+      return {
+        methodeComparables: {
+          zone: zoneRetenue.zone,
+          periode_mois: periodeMois,
+          nb_transactions: stats.nb_transactions,
+          prix_min: stats.prix_min,
+          prix_max: stats.prix_max,
+          valeur_basse: stats.prix_p25,
+          valeur_mediane: stats.prix_median,
+          valeur_haute: stats.prix_p75,
+          transactions: [...echantillon]
+            .sort((a, b) => b.date.localeCompare(a.date))
+            .slice(0, MAX_TRANSACTIONS_AFFICHEES)
+            .map(c => ({ date: c.date, prix: c.prix, commune: c.commune })),
+          justification
+        }
+      };
+
+    } catch (error: any) {
+      return {
+        methodeComparables: emptyMethode('Erreur lors de la recherche des comparables'),
+        error: error.message || 'Comparables valuation failed'
+      };
+    }
+  }
+});
@@ -0,0 +1,275 @@
+import { z } from 'zod';
+import { FunctionTool } from '@google/adk';
+import type { ToolContext } from '@google/adk';
+import { zToGen } from '../../../utils/schemaHelper';
+import { readState, readUntypedState, FinancialStateError } from '../../state/readState';
+import { getSigValue } from '../../schemas/financialStateSchema';
+import { DCF_PARAMETERS } from '../../config/valuationCoefficients';
+
+/**
+ * Calculate DCF Valuation Tool
+ *
+ * Valorise le fonds de commerce par actualisation des flux de trésorerie (Discounted Cash Flow).
+ * Méthode de rendement demandée par les banques en complément du multiple d'EBE.
+ *
+ * Formule: Valeur = Σ Flux_n / (1 + t)^n + Valeur terminale / (1 + t)^5
+ * - Flux_n = EBE normatif - Impôt normatif - Investissements de maintien (années 1 à 5 du business plan)
+ * - t = Taux sans risque + Prime de risque petite entreprise
+ * - Valeur terminale (Gordon-Shapiro) = Flux_5 × (1 + g) / (t - g)
+ *
+ * Les flux sont avant service de la dette : la valeur obtenue est celle du fonds,
+ * indépendamment du financement de la reprise.
+ */
+
+const ProjectionSchema = z.object({
+  annee: z.number(),
+  ca: z.number(),
+  ebe_normatif: z.number()
+});
+
+const CalculateDcfValuationInputSchema = z.object({
+  projections: z.array(ProjectionSchema).optional().describe('Projections années 1 à 5 (sera lu depuis state.businessPlan si non fourni)'),
+  tauxSansRisque: z.number().optional().describe('Taux sans risque en % (ex: 3.0 pour OAT 10 ans à 3%)'),
+  primeRisquePME: z.number().optional().describe('Prime de risque petite entreprise en % (ex: 10)'),
+  croissanceTerminale: z.number().optional().describe('Croissance à l\'infini après l\'année 5 en % (ex: 1.5)'),
+  tauxImpot: z.number().optional().describe('Taux d\'impôt normatif en % (ex: 25)'),
+  investissementsMaintienPctCa: z.number().optional().describe('Investissements de maintien en % du CA (ex: 1.5)')
+});
+
+const CalculateDcfValuationOutputSchema = z.object({
+  methodeDCF: z.object({
+    source_projection: z.enum(['business_plan', 'ebe_normatif']),
+    taux_sans_risque: z.number(),
+    prime_risque: z.number(),
+    taux_actualisation: z.number(),
+    croissance_terminale: z.number(),
+    flux: z.array(z.object({
+      annee: z.number(),
+      ca: z.number(),
+      ebe_normatif: z.number(),
+      impot: z.number(),
+      investissements: z.number(),
+      flux_disponible: z.number(),
+      flux_actualise: z.number()
+    })),
+    somme_flux_actualises: z.number(),
+    valeur_terminale: z.number(),
+    valeur_terminale_actualisee: z.number(),
+    poids_valeur_terminale_pct: z.number(),
+    valeur_basse: z.number(),
+    valeur_mediane: z.number(),
+    valeur_haute: z.number(),
+    justification: z.string()
+  }),
+  error: z.string().optional()
+});
+
+export type DcfProjection = z.infer<typeof ProjectionSchema>;
+export type MethodeDCF = z.infer<typeof CalculateDcfValuationOutputSchema>['methodeDCF'];
+
+export interface DcfParams {
+  /** Taux d'actualisation en % */
+  tauxActualisation: number;
+  /** Croissance à l'infini en % */
+  croissanceTerminale: number;
+  tauxImpot: number;
+  investissementsMaintienPctCa: number;
+}
+
+export interface DcfResult {
+  flux: MethodeDCF['flux'];
+  somme_flux_actualises: number;
+  valeur_terminale: number;
+  valeur_terminale_actualisee: number;
+  valeur: number;
+}
+
+/**
+ * Actualise les flux disponibles d'une projection (années 1 à N)
+ *
+ * Lève une erreur si le taux d'actualisation n'est pas supérieur à la croissance terminale
+ * (valeur terminale non définie).
+ */
+export function computeDcf(projections: DcfProjection[], params: DcfParams): DcfResult {
+  const t = params.tauxActualisation / 100;
+  const g = params.croissanceTerminale / 100;
+
+  if (projections.length === 0) {
+    throw new Error('Projection vide : aucun flux à actualiser');
+  }
+  if (t <= g) {
+    throw new Error(`Taux d'actualisation (${params.tauxActualisation}%) inférieur ou égal à la croissance terminale (${params.croissanceTerminale}%)`);
+  }
+
+  const flux = projections.map((p, index) => {
+    const investissements = Math.round(p.ca * params.investissementsMaintienPctCa / 100);
+    // Impôt normatif sur l'EBE diminué des investissements (proxy des dotations)
+    const impot = Math.round(Math.max(0, p.ebe_normatif - investissements) * params.tauxImpot / 100);
+    const fluxDisponible = p.ebe_normatif - impot - investissements;
+
+    return {
+      annee: p.annee,
+      ca: p.ca,
+      ebe_normatif: p.ebe_normatif,
+      impot,
+      investissements,
+      flux_disponible: fluxDisponible,
+      flux_actualise: Math.round(fluxDisponible / Math.pow(1 + t, index + 1))
+    };
+  });
+
+  const dernierFlux = flux[flux.length - 1].flux_disponible;
+  const valeurTerminale = Math.round(Math.max(0, dernierFlux) * (1 + g) / (t - g));
+  const valeurTerminaleActualisee = Math.round(valeurTerminale / Math.pow(1 + t, flux.length));
+  const sommeFluxActualises = flux.reduce((sum, f) => sum + f.flux_actualise, 0);
+
+  return {
+    flux,
+    somme_flux_actualises: sommeFluxActualises,
+    valeur_terminale: valeurTerminale,
+    valeur_terminale_actualisee: valeurTerminaleActualisee,
+    valeur: Math.max(0, sommeFluxActualises + valeurTerminaleActualisee)
+  };
+}
+
+export const calculateDcfValuationTool = new FunctionTool({
+  name: 'calculateDcfValuation',
+  description: 'Valorise le fonds de commerce par actualisation des flux (DCF) de la projection 5 ans du business plan. Taux = sans risque + prime petite entreprise, valeur terminale de Gordon. Retourne fourchette basse/médiane/haute.',
+  parameters: zToGen(CalculateDcfValuationInputSchema),
+
+  execute: async (params, toolContext?: ToolContext) => {
+    const tauxSansRisque = params.tauxSansRisque ?? DCF_PARAMETERS.TAUX_SANS_RISQUE;
+    const primeRisque = params.primeRisquePME ?? DCF_PARAMETERS.PRIME_RISQUE_PME;
+    const tauxActualisation = Math.round((tauxSansRisque + primeRisque) * 100) / 100;
+    const croissanceTerminale = params.croissanceTerminale ?? DCF_PARAMETERS.CROISSANCE_TERMINALE;
+
+    const emptyMethode = (justification: string): MethodeDCF => ({
+      source_projection: 'business_plan',
+      taux_sans_risque: tauxSansRisque,
+      prime_risque: primeRisque,
+      taux_actualisation: tauxActualisation,
+      croissance_terminale: croissanceTerminale,
+      flux: [],
+      somme_flux_actualises: 0,
+      valeur_terminale: 0,
+      valeur_terminale_actualisee: 0,
+      poids_valeur_terminale_pct: 0,
+      valeur_basse: 0,
+      valeur_mediane: 0,
+      valeur_haute: 0,
+      justification
+    });
+
+    try {
+      // PRIORITÉ 1: Projections passées en paramètres
+      // PRIORITÉ 2: state.businessPlan (businessPlanDynamiqueTool)
+      // FALLBACK: Projection simplifiée depuis l'EBE normatif de state.comptable
+      let projections: DcfProjection[] = (params.projections || []).filter((p: DcfProjection) => p.annee >= 1);
+      let sourceProjection: MethodeDCF['source_projection'] = 'business_plan';
+
+      if (projections.length === 0) {
+        const businessPlan = readUntypedState(toolContext, 'businessPlan');
+
+        if (Array.isArray(businessPlan?.projections)) {
+          projections = businessPlan.projections
+            .filter((p: any) => p.annee >= 1 && p.annee <= 5)
+            .map((p: any) => ({ annee: p.annee, ca: p.ca || 0, ebe_normatif: p.ebe_normatif || 0 }));
+        }
+      }
+
+      if (projections.length === 0) {
+        let comptable;
+        try {
+          comptable = readState(toolContext, 'comptable');
+        } catch (e) {
+          if (!(e instanceof FinancialStateError)) throw e;
+          return {
+            methodeDCF: emptyMethode('Business plan et données comptables indisponibles'),
+            ...e.toToolError()
+          };
+        }
+
+        const lastYear = comptable?.yearsAnalyzed?.[0]?.toString();
+        const caReference = lastYear ? getSigValue(comptable?.sig?.[lastYear], 'chiffre_affaires') : 0;
+        const ebeReference = comptable?.ebeRetraitement?.ebe_normatif
+          ?? (lastYear ? getSigValue(comptable?.sig?.[lastYear], 'ebe') : 0);
+
+        if (!ebeReference) {
+          return {
+            methodeDCF: emptyMethode('Aucune projection ni EBE de référence disponible'),
+            error: 'Missing businessPlan projections and EBE in state'
+          };
+        }
+
+        // Projection prudente : croissance égale à la croissance terminale dès l'année 1
+        sourceProjection = 'ebe_normatif';
+        projections = [1, 2, 3, 4, 5].map(annee => ({
+          annee,
+          ca: Math.round(caReference * Math.pow(1 + croissanceTerminale / 100, annee)),
+          ebe_normatif: Math.round(ebeReference * Math.pow(1 + croissanceTerminale / 100, annee))
+        }));
+        console.log('[calculateDcfValuation] ⚠️ Business plan absent - projection simplifiée depuis EBE normatif:', ebeReference);
+      }
+
+      const baseParams = {
+        croissanceTerminale,
+        tauxImpot: params.tauxImpot ?? DCF_PARAMETERS.TAUX_IMPOT,
+        investissementsMaintienPctCa: params.investissementsMaintienPctCa ?? DCF_PARAMETERS.INVESTISSEMENTS_MAINTIEN_PCT_CA
+      };
+
+      // Fourchette : sensibilité au taux d'actualisation (± écart), borné au-dessus de la croissance
+      const ecart = DCF_PARAMETERS.ECART_TAUX_FOURCHETTE;
+      const tauxBas = Math.round((tauxActualisation + ecart) * 100) / 100;
+      const tauxHaut = Math.round(Math.max(tauxActualisation - ecart, croissanceTerminale + 1) * 100) / 100;
+      const median = computeDcf(projections, { ...baseParams, tauxActualisation });
+      const basse = computeDcf(projections, { ...baseParams, tauxActualisation: tauxBas });
+      const haute = computeDcf(projections, { ...baseParams, tauxActualisation: tauxHaut });
+
+      const poidsValeurTerminale = median.valeur > 0
+        ? Math.round((median.valeur_terminale_actualisee / median.valeur) * 100)
+        : 0;
+
+      // Justification
+      let justification = `Valorisation par actualisation des flux (DCF) sur ${projections.length} ans. `;
+      justification += sourceProjection === 'business_plan'
+        ? `Flux issus du business plan (EBE normatif - impôt ${baseParams.tauxImpot}% - investissements de maintien ${baseParams.investissementsMaintienPctCa}% du CA). `
+        : `Business plan indisponible : EBE normatif projeté à +${croissanceTerminale}%/an. `;
+      justification += `Taux d'actualisation ${tauxActualisation}% (sans risque ${tauxSansRisque}% + prime petite entreprise ${primeRisque}%), `;
+      justification += `croissance terminale ${croissanceTerminale}%. `;
+      justification += `Valeur terminale: ${poidsValeurTerminale}% de la valeur. `;
+      justification += `Fourchette: taux de ${tauxBas}% (basse) à ${tauxHaut}% (haute).`;
+
+      console.log('[calculateDcfValuation] ✅ DCF calculé:', {
+        source: sourceProjection,
+        taux_actualisation: tauxActualisation,
+        valeur_mediane: median.valeur,
+        poids_valeur_terminale_pct: poidsValeurTerminale
+      });
+
+      return {
+        methodeDCF: {
+          source_projection: sourceProjection,
+          taux_sans_risque: tauxSansRisque,
+          prime_risque: primeRisque,
+          taux_actualisation: tauxActualisation,
+          croissance_terminale: croissanceTerminale,
+          flux: median.flux,
+          somme_flux_actualises: median.somme_flux_actualises,
+          valeur_terminale: median.valeur_terminale,
+          valeur_terminale_actualisee: median.valeur_terminale_actualisee,
+          poids_valeur_terminale_pct: poidsValeurTerminale,
+          valeur_basse: basse.valeur,
+          valeur_mediane: median.valeur,
+          valeur_haute: haute.valeur,
+          justification
+        }
+      };
+
+    } catch (error: any) {
+      return {
+        methodeDCF: emptyMethode('Erreur lors du calcul'),
+        error: error.message || 'DCF valuation calculation failed'
+      };
+    }
+  }
+});
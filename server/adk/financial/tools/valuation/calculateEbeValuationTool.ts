@@ -2,7 +2,10 @@ import { z } from 'zod';
 import { FunctionTool } from '@google/adk';
 import type { ToolContext } from '@google/adk';
 import { zToGen } from '../../../utils/schemaHelper';
+import { readState, FinancialStateError } from '../../state/readState';
+import { getSigValue } from '../../schemas/financialStateSchema';
 import { findValuationCoefficients, DEFAULT_VALUATION_COEFFICIENTS, STANDARD_RETRAITEMENTS } from '../../config/valuationCoefficients';
+import { formatProvenance } from '../../config/sectorReferences';
 
 /**
  * Calculate EBE Valuation Tool
@@ -52,30 +55,27 @@ export const calculateEbeValuationTool = new FunctionTool({
 
   execute: async (params, toolContext?: ToolContext) => {
     try {
-      // Lire comptable depuis state
-      let comptable = toolContext?.state.get('comptable') as any;
-
-      // Parser JSON string si nécessaire
-      if (typeof comptable === 'string') {
-        try {
-          comptable = JSON.parse(comptable);
-        } catch (e) {
-          return {
-            methodeEBE: {
-              ebe_reference: 0,
-              ebe_retraite: 0,
-              retraitements: [],
-              coefficient_bas: 0,
-              coefficient_median: 0,
-              coefficient_haut: 0,
-              valeur_basse: 0,
-              valeur_mediane: 0,
-              valeur_haute: 0,
-              justification: 'Erreur parsing données comptables'
-            },
-            error: 'Failed to parse comptable state (invalid JSON)'
-          };
-        }
+      // Lire comptable depuis state - parsé et validé
+      let comptable;
+      try {
+        comptable = readState(toolContext, 'comptable');
+      } catch (e) {
+        if (!(e instanceof FinancialStateError)) throw e;
+        return {
+          methodeEBE: {
+            ebe_reference: 0,
+            ebe_retraite: 0,
+            retraitements: [],
+            coefficient_bas: 0,
+            coefficient_median: 0,
+            coefficient_haut: 0,
+            valeur_basse: 0,
+            valeur_mediane: 0,
+            valeur_haute: 0,
+            justification: 'Données comptables invalides'
+          },
+          ...e.toToolError()
+        };
       }
 
       // Lire businessInfo depuis state
@@ -107,7 +107,7 @@ export const calculateEbeValuationTool = new FunctionTool({
         };
       }
 
-      const { sig, yearsAnalyzed, ebeRetraitement } = comptable;
+      const { sig, yearsAnalyzed = [], ebeRetraitement } = comptable;
 
       // ========================================
       // NOUVEAU: Utiliser l'EBE Normatif calculé par ComptableAgent
@@ -143,13 +143,13 @@ export const calculateEbeValuationTool = new FunctionTool({
           // Moyenne des 3 dernières années
           const ebeValues = yearsAnalyzed.slice(0, 3).map((year: number) => {
             const yearStr = year.toString();
-            return sig[yearStr]?.ebe || 0;
+            return getSigValue(sig[yearStr], 'ebe');
           });
           ebeReference = Math.round(ebeValues.reduce((a: number, b: number) => a + b, 0) / ebeValues.length);
         } else if (yearsAnalyzed.length > 0) {
           // Dernière année disponible
           const lastYear = yearsAnalyzed[0].toString();
-          ebeReference = sig[lastYear]?.ebe || 0;
+          ebeReference = getSigValue(sig[lastYear], 'ebe');
         }
 
         // Retraitements standards (fallback)
@@ -189,6 +189,9 @@ export const calculateEbeValuationTool = new FunctionTool({
 
       justification += `Après retraitements: ${ebeRetraite.toLocaleString('fr-FR')} €. `;
       justification += `Coefficients secteur "${coefficients.sector}": ${coefficients.ebeMultiple.bas}x à ${coefficients.ebeMultiple.haut}x. `;
+      if (coefficients.provenance) {
+        justification += `Source: ${formatProvenance(coefficients.provenance)}. `;
+      }
 
       if (coefficients.specificFactors && coefficients.specificFactors.length > 0) {
         justification += `Facteurs valorisants: ${coefficients.specificFactors.join(', ')}.`;
@@ -2,6 +2,8 @@ import { z } from 'zod';
 import { FunctionTool } from '@google/adk';
 import type { ToolContext } from '@google/adk';
 import { zToGen } from '../../../utils/schemaHelper';
+import { readState } from '../../state/readState';
+import { getSigValue, type ComptableOutput, type DocumentExtractionOutput } from '../../schemas/financialStateSchema';
 
 /**
  * Calculate Patrimonial Valuation Tool
@@ -54,26 +56,21 @@ export const calculatePatrimonialTool = new FunctionTool({
   execute: async (params, toolContext?: ToolContext) => {
     try {
       // Lire documentExtraction depuis state (pour avoir accès au bilan)
-      let documentExtraction = toolContext?.state.get('documentExtraction') as any;
-
-      // Parser JSON string si nécessaire
-      if (typeof documentExtraction === 'string') {
-        try {
-          documentExtraction = JSON.parse(documentExtraction);
-        } catch (e) {
-          // Pas critique, on continue avec les params fournis
-        }
+      let documentExtraction: DocumentExtractionOutput | undefined;
+      try {
+        documentExtraction = readState(toolContext, 'documentExtraction');
+      } catch (e: any) {
+        // Pas critique, on continue avec les params fournis
+        console.warn('[calculatePatrimonial] ⚠️ documentExtraction ignoré:', e.message);
       }
 
       // Lire comptable depuis state (pour avoir accès aux SIG)
-      let comptable = toolContext?.state.get('comptable') as any;
-
-      if (typeof comptable === 'string') {
-        try {
-          comptable = JSON.parse(comptable);
-        } catch (e) {
-          // Pas critique
-        }
+      let comptable: ComptableOutput | undefined;
+      try {
+        comptable = readState(toolContext, 'comptable');
+      } catch (e: any) {
+        // Pas critique
+        console.warn('[calculatePatrimonial] ⚠️ comptable ignoré:', e.message);
       }
 
       // Extraire les valeurs du bilan (si disponibles dans documents)
@@ -161,7 +158,7 @@ export const calculatePatrimonialTool = new FunctionTool({
 
         if (yearsAnalyzed && yearsAnalyzed.length > 0) {
           const lastYear = yearsAnalyzed[0].toString();
-          const ebe = sig[lastYear]?.ebe || 0;
+          const ebe = getSigValue(sig[lastYear], 'ebe');
 
           // Goodwill = 1.5x EBE (coefficient conservateur)
           goodwill = Math.round(ebe * 1.5);
@@ -7,6 +7,8 @@ import {
   DEFAULT_TABAC_COEFFICIENTS,
   TABAC_VALUATION_COEFFICIENTS
 } from '../../config/tabacValuationCoefficients';
+import type { ComptableOutput } from '../../schemas/financialStateSchema';
+import { readState } from '../../state/readState';
 
 /**
  * Calculate Tabac Valuation Tool
@@ -131,24 +133,12 @@ export const calculateTabacValuationTool = new FunctionTool({
         }
       }
 
-      // Lire comptable depuis state (pour CA, commissions si disponibles)
-      let comptable = toolContext?.state.get('comptable') as any;
-      if (typeof comptable === 'string') {
-        try {
-          comptable = JSON.parse(comptable);
-        } catch (e) {
-          // Pas critique
-        }
-      }
-
-      // Lire documentExtraction depuis state (pour commissions si disponibles)
-      let documentExtraction = toolContext?.state.get('documentExtraction') as any;
-      if (typeof documentExtraction === 'string') {
-        try {
-          documentExtraction = JSON.parse(documentExtraction);
-        } catch (e) {
-          // Pas critique
-        }
+      // Lire comptable depuis state (tendance et santé financière, non critique)
+      let comptable: ComptableOutput | undefined;
+      try {
+        comptable = readState(toolContext, 'comptable');
+      } catch (e: any) {
+        console.warn('[calculateTabacValuation] ⚠️ comptable ignoré:', e.message);
       }
 
       // ========================================
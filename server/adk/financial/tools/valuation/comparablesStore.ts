@@ -0,0 +1,228 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+
+/**
+ * Comparables Store - Cessions de fonds de commerce publiées au BODACC
+ *
+ * Base locale des cessions (prix, NAF, commune, date) alimentée par l'enrichissement
+ * BODACC du frontend (POST /api/bodacc-comparables) et par les analyses financières.
+ * Sert de preuve de marché à calculateComparablesValuationTool, en complément des
+ * coefficients statiques de valuationCoefficients.ts.
+ *
+ * Layout disque:
+ *   data/bodacc-comparables.json   # { cessions: BodaccCession[] }
+ */
+
+export interface BodaccCession {
+  /** Identifiant de l'annonce BODACC (clé de dédoublonnage) */
+  id: string;
+  /** Date de parution (YYYY-MM-DD) */
+  date: string;
+  prix: number;
+  /** Code NAF du secteur recherché lors de l'enrichissement (ex: "47.26Z") */
+  nafCode: string;
+  commune: string;
+  codePostal: string;
+  departement: string;
+  activite?: string;
+}
+
+/** Enregistrement tel que produit par bodaccService.parseRecord (frontend) */
+export interface BodaccRecordInput {
+  id: string;
+  date: string;
+  amount: number;
+  description?: string;
+}
+
+export interface BodaccRecordContext {
+  nafCode: string;
+  commune: string;
+  codePostal: string;
+}
+
+export interface ComparablesFilter {
+  nafCode?: string;
+  codePostal?: string;
+  departement?: string;
+  /** Ancienneté maximale des cessions (mois) */
+  periodeMois?: number;
+  /** Date de référence pour la période (défaut: aujourd'hui) */
+  reference?: Date;
+}
+
+export interface ComparablesStats {
+  nb_transactions: number;
+  prix_min: number;
+  prix_p25: number;
+  prix_median: number;
+  prix_p75: number;
+  prix_max: number;
+  prix_moyen: number;
+}
+
+export const DEFAULT_COMPARABLES_FILE = path.join(process.cwd(), 'data', 'bodacc-comparables.json');
+
+/** Dernière écriture en cours par fichier (lecture-fusion-écriture sérialisées) */
+const writes = new Map<string, Promise<unknown>>();
+
+/**
+ * Département depuis le code postal (Corse 2A/2B, DOM sur 3 chiffres)
+ */
+export function departementFromCodePostal(codePostal: string): string {
+  const cp = (codePostal || '').trim();
+  if (cp.length < 2) return '';
+  if (cp.startsWith('97') || cp.startsWith('98')) return cp.slice(0, 3);
+  if (cp.startsWith('20')) return parseInt(cp, 10) < 20200 ? '2A' : '2B';
+  return cp.slice(0, 2);
+}
+
+/**
+ * Classe NAF sans la lettre finale ("47.26Z" → "47.26")
+ */
+function nafClasse(nafCode: string): string {
+  return (nafCode || '').trim().toUpperCase().replace(/[A-Z]$/, '');
+}
+
+/**
+ * Convertit un enregistrement BODACC (frontend) en cession, null si inexploitable
+ */
+export function toBodaccCession(record: BodaccRecordInput, context: BodaccRecordContext): BodaccCession | null {
+  const prix = typeof record?.amount === 'number' ? record.amount : parseFloat(String(record?.amount));
+  if (!record?.id || !record.date || isNaN(prix) || prix <= 0 || !context.nafCode) {
+    return null;
+  }
+
+  return {
+    id: String(record.id),
+    date: String(record.date).slice(0, 10),
+    prix: Math.round(prix),
+    nafCode: context.nafCode,
+    commune: context.commune || '',
+    codePostal: context.codePostal || '',
+    departement: departementFromCodePostal(context.codePostal),
+    ...(record.description && { activite: record.description.slice(0, 300) })
+  };
+}
+
+/**
+ * Lit la base des cessions (vide si le fichier n'existe pas)
+ */
+export async function loadComparables(file: string = DEFAULT_COMPARABLES_FILE): Promise<BodaccCession[]> {
+  try {
+    const data = JSON.parse(await fs.readFile(file, 'utf8'));
+    return Array.isArray(data?.cessions) ? data.cessions : [];
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return [];
+    throw error;
+  }
+}
+
+/**
+ * Ajoute des cessions à la base (dédoublonnage par id, la plus récente écrase)
+ *
+ * Les appels concurrents sur un même fichier sont sérialisés : chaque ajout relit
+ * la base écrite par le précédent, aucune cession n'est perdue.
+ */
+export function addComparables(
+  cessions: BodaccCession[],
+  file: string = DEFAULT_COMPARABLES_FILE
+): Promise<{ ajoutees: number; total: number }> {
+  const previous = writes.get(file) || Promise.resolve();
+  // Un échec précédent ne bloque pas les ajouts suivants
+  const write = previous.catch(() => {}).then(() => mergeComparables(cessions, file));
+
+  writes.set(file, write);
+  return write;
+}
+
+async function mergeComparables(
+  cessions: BodaccCession[],
+  file: string
+): Promise<{ ajoutees: number; total: number }> {
+  const existantes = await loadComparables(file);
+  const parId = new Map(existantes.map(c => [c.id, c]));
+  let ajoutees = 0;
+
+  for (const cession of cessions) {
+    if (!parId.has(cession.id)) ajoutees++;
+    parId.set(cession.id, cession);
+  }
+
+  const toutes = Array.from(parId.values()).sort((a, b) => b.date.localeCompare(a.date));
+
+  // Écriture atomique (fichier temporaire unique + rename)
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${randomUUID()}.tmp`;
+  try {
+    await fs.writeFile(tmp, JSON.stringify({ cessions: toutes }, null, 2), 'utf8');
+    await fs.rename(tmp, file);
+  } catch (error) {
+    await fs.rm(tmp, { force: true });
+    throw error;
+  }
+
+  return { ajoutees, total: toutes.length };
+}
+
+/**
+ * Filtre les cessions par secteur (classe NAF), zone et ancienneté
+ */
+export function filterComparables(cessions: BodaccCession[], filter: ComparablesFilter): BodaccCession[] {
+  const classe = filter.nafCode ? nafClasse(filter.nafCode) : '';
+  let dateMin = '';
+  if (filter.periodeMois) {
+    const reference = new Date(filter.reference || Date.now());
+    reference.setMonth(reference.getMonth() - filter.periodeMois);
+    dateMin = reference.toISOString().slice(0, 10);
+  }
+
+  return cessions.filter(c =>
+    (!classe || nafClasse(c.nafCode) === classe) &&
+    (!filter.codePostal || c.codePostal === filter.codePostal) &&
+    (!filter.departement || c.departement === filter.departement) &&
+    (!dateMin || c.date >= dateMin)
+  );
+}
+
+/**
+ * Statistiques de prix d'un ensemble de cessions (null si vide)
+ */
+export function computeComparablesStats(cessions: BodaccCession[]): ComparablesStats | null {
+  if (cessions.length === 0) return null;
+
+  const prix = cessions.map(c => c.prix).sort((a, b) => a - b);
+  const quantile = (q: number) => {
+    const rang = q * (prix.length - 1);
+    const bas = Math.floor(rang);
+    return Math.round(prix[bas] + (prix[Math.ceil(rang)] - prix[bas]) * (rang - bas));
+  };
+
+  return {
+    nb_transactions: prix.length,
+    prix_min: prix[0],
+    prix_p25: quantile(0.25),
+    prix_median: quantile(0.5),
+    prix_p75: quantile(0.75),
+    prix_max: prix[prix.length - 1],
+    prix_moyen: Math.round(prix.reduce((sum, p) => sum + p, 0) / prix.length)
+  };
+}
+
+/**
+ * Statistiques de prix par secteur (classe NAF)
+ */
+export function computeStatsBySector(cessions: BodaccCession[]): Record<string, ComparablesStats> {
+  const parSecteur: Record<string, BodaccCession[]> = {};
+  for (const cession of cessions) {
+    const classe = nafClasse(cession.nafCode);
+    (parSecteur[classe] = parSecteur[classe] || []).push(cession);
+  }
+
+  const stats: Record<string, ComparablesStats> = {};
+  for (const [classe, liste] of Object.entries(parSecteur)) {
+    stats[classe] = computeComparablesStats(liste)!;
+  }
+  return stats;
+}
@@ -1,7 +1,7 @@
 /**
  * Valuation Tools Export
  *
- * Outils de valorisation de fonds de commerce (3 méthodes + synthèse)
+ * Outils de valorisation de fonds de commerce (3 méthodes + DCF + comparables + synthèse)
  */
 
 export { validateSectorTypeTool } from './validateSectorTypeTool';
@@ -9,5 +9,7 @@ export { validateTabacMethodeTool } from './validateTabacMethodeTool';
 export { calculateEbeValuationTool } from './calculateEbeValuationTool';
 export { calculateCaValuationTool } from './calculateCaValuationTool';
 export { calculatePatrimonialTool } from './calculatePatrimonialTool';
+export { calculateDcfValuationTool } from './calculateDcfValuationTool';
+export { calculateComparablesValuationTool } from './calculateComparablesValuationTool';
 export { synthesizeValuationTool } from './synthesizeValuationTool';
 export { calculateTabacValuationTool } from './calculateTabacValuationTool';
@@ -0,0 +1,191 @@
+/**
+ * Monte Carlo Valuation - Simulation de la valorisation par tirages aléatoires
+ *
+ * Au lieu d'une fourchette fixe bas/médian/haut, tire N fois :
+ * - l'EBE normatif et le CA (loi normale, volatilité historique sur 3 ans)
+ * - le multiple d'EBE et le % de CA (loi triangulaire sur les coefficients bas/médian/haut)
+ * - la valeur DCF et celle des comparables si disponibles (loi triangulaire sur leur fourchette)
+ * puis pondère les méthodes comme synthesizeValuationTool.
+ *
+ * Résultat : percentiles P10-P90, probabilité que le prix affiché dépasse la valeur,
+ * histogramme pour generateChartsTool. Générateur pseudo-aléatoire à graine :
+ * une même entrée produit toujours la même distribution (rapport reproductible).
+ */
+
+/** Fourchette bas / médian / haut d'un coefficient ou d'une valeur */
+export interface Triangle {
+  bas: number;
+  median: number;
+  haut: number;
+}
+
+export interface MonteCarloInputs {
+  ebe: { valeur: number; volatilite: number; multiple: Triangle };
+  ca: { valeur: number; volatilite: number; pourcentage: Triangle };
+  patrimoniale: number;
+  dcf?: Triangle;
+  comparables?: Triangle;
+  poids: { ebe: number; ca: number; patrimoniale: number; dcf: number; comparables?: number };
+  prixAffiche?: number;
+}
+
+export interface MonteCarloOptions {
+  iterations?: number;
+  seed?: number;
+  bins?: number;
+}
+
+export interface HistogrammeClasse {
+  borne_basse: number;
+  borne_haute: number;
+  effectif: number;
+}
+
+export interface MonteCarloResult {
+  iterations: number;
+  seed: number;
+  moyenne: number;
+  percentiles: { p10: number; p25: number; p50: number; p75: number; p90: number };
+  probabilite_prix_superieur: number | null;
+  histogramme: HistogrammeClasse[];
+}
+
+export const MONTE_CARLO_DEFAULTS = {
+  ITERATIONS: 10000,
+  SEED: 42,
+  BINS: 20,
+  // Volatilité minimale : 3 exercices sous-estiment la dispersion réelle
+  VOLATILITE_MIN: 0.05,
+  // Volatilité utilisée si moins de 2 exercices
+  VOLATILITE_DEFAUT: 0.15
+};
+
+/**
+ * Volatilité historique = écart-type / moyenne (coefficient de variation)
+ */
+export function computeVolatility(values: number[]): number {
+  const valides = values.filter(v => typeof v === 'number' && !isNaN(v));
+  if (valides.length < 2) return MONTE_CARLO_DEFAULTS.VOLATILITE_DEFAUT;
+
+  const moyenne = valides.reduce((sum, v) => sum + v, 0) / valides.length;
+  if (moyenne <= 0) return MONTE_CARLO_DEFAULTS.VOLATILITE_DEFAUT;
+
+  const variance = valides.reduce((sum, v) => sum + Math.pow(v - moyenne, 2), 0) / (valides.length - 1);
+  return Math.max(MONTE_CARLO_DEFAULTS.VOLATILITE_MIN, Math.sqrt(variance) / moyenne);
+}
+
+/**
+ * Simule la distribution de la valeur du fonds
+ */
+export function simulateValuation(inputs: MonteCarloInputs, options: MonteCarloOptions = {}): MonteCarloResult {
+  const iterations = Math.max(100, Math.round(options.iterations ?? MONTE_CARLO_DEFAULTS.ITERATIONS));
+  const seed = options.seed ?? MONTE_CARLO_DEFAULTS.SEED;
+  const bins = Math.max(1, options.bins ?? MONTE_CARLO_DEFAULTS.BINS);
+  const random = createRng(seed);
+  const { ebe, ca, poids } = inputs;
+
+  const valeurs: number[] = new Array(iterations);
+  for (let i = 0; i < iterations; i++) {
+    const ebeTire = Math.max(0, normal(random, ebe.valeur, ebe.valeur * ebe.volatilite));
+    const caTire = Math.max(0, normal(random, ca.valeur, ca.valeur * ca.volatilite));
+
+    let valeur = ebeTire * triangular(random, ebe.multiple) * poids.ebe
+      + caTire * triangular(random, ca.pourcentage) / 100 * poids.ca
+      + inputs.patrimoniale * poids.patrimoniale;
+
+    if (inputs.dcf && poids.dcf > 0) {
+      valeur += triangular(random, inputs.dcf) * poids.dcf;
+    }
+    if (inputs.comparables && poids.comparables) {
+      valeur += triangular(random, inputs.comparables) * poids.comparables;
+    }
+    valeurs[i] = valeur;
+  }
+
+  valeurs.sort((a, b) => a - b);
+  const moyenne = valeurs.reduce((sum, v) => sum + v, 0) / iterations;
+
+  let probabilite: number | null = null;
+  if (inputs.prixAffiche && inputs.prixAffiche > 0) {
+    const sousLePrix = valeurs.filter(v => v < inputs.prixAffiche!).length;
+    probabilite = Math.round((sousLePrix / iterations) * 1000) / 10;
+  }
+
+  return {
+    iterations,
+    seed,
+    moyenne: Math.round(moyenne),
+    percentiles: {
+      p10: Math.round(percentile(valeurs, 10)),
+      p25: Math.round(percentile(valeurs, 25)),
+      p50: Math.round(percentile(valeurs, 50)),
+      p75: Math.round(percentile(valeurs, 75)),
+      p90: Math.round(percentile(valeurs, 90))
+    },
+    probabilite_prix_superieur: probabilite,
+    histogramme: buildHistogram(valeurs, bins)
+  };
+}
+
+/**
+ * Percentile par interpolation linéaire (valeurs triées)
+ */
+function percentile(sorted: number[], p: number): number {
+  const rang = (p / 100) * (sorted.length - 1);
+  const bas = Math.floor(rang);
+  const haut = Math.ceil(rang);
+  return sorted[bas] + (sorted[haut] - sorted[bas]) * (rang - bas);
+}
+
+function buildHistogram(sorted: number[], bins: number): HistogrammeClasse[] {
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+  const largeur = (max - min) / bins || 1;
+
+  const classes: HistogrammeClasse[] = Array.from({ length: bins }, (_, i) => ({
+    borne_basse: Math.round(min + i * largeur),
+    borne_haute: Math.round(min + (i + 1) * largeur),
+    effectif: 0
+  }));
+
+  for (const valeur of sorted) {
+    const index = Math.min(bins - 1, Math.floor((valeur - min) / largeur));
+    classes[index].effectif++;
+  }
+  return classes;
+}
+
+/**
+ * Loi triangulaire (bas, mode = médian, haut)
+ */
+function triangular(random: () => number, { bas, median, haut }: Triangle): number {
+  if (haut <= bas) return median;
+  const u = random();
+  const seuil = (median - bas) / (haut - bas);
+  return u < seuil
+    ? bas + Math.sqrt(u * (haut - bas) * (median - bas))
+    : haut - Math.sqrt((1 - u) * (haut - bas) * (haut - median));
+}
+
+/**
+ * Loi normale (Box-Muller)
+ */
+function normal(random: () => number, moyenne: number, ecartType: number): number {
+  const u1 = random() || Number.MIN_VALUE;
+  const u2 = random();
+  return moyenne + ecartType * Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+}
+
+/**
+ * Générateur pseudo-aléatoire mulberry32 (reproductible à graine égale)
+ */
+function createRng(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -3,6 +3,10 @@ import { FunctionTool } from '@google/adk';
 import type { ToolContext } from '@google/adk';
 import { zToGen } from '../../../utils/schemaHelper';
 import { logValorisation } from '../../../utils/extractionLogger';
+import { DCF_PARAMETERS, COMPARABLES_PARAMETERS } from '../../config/valuationCoefficients';
+import { getSigValue, type ComptableOutput, type DocumentExtractionOutput, type ValorisationOutput } from '../../schemas/financialStateSchema';
+import { readState, readUntypedState, FinancialStateError } from '../../state/readState';
+import { simulateValuation, computeVolatility, type MonteCarloResult } from './monteCarloValuation';
 
 /**
  * Synthesize Valuation Tool
@@ -15,19 +19,34 @@ import { logValorisation } from '../../../utils/extractionLogger';
  * 1. Multiple EBE = méthode de référence pour commerces rentables
  * 2. % CA = méthode complémentaire, moins précise
  * 3. Patrimoniale = pertinente si actifs corporels importants ou EBE faible/négatif
+ * 4. DCF (optionnelle) = méthode de rendement, pondérée à DCF_PARAMETERS.POIDS_SYNTHESE
+ * 5. Comparables BODACC (optionnelle, si échantillon suffisant) = prix du marché local,
+ *    pondérée à COMPARABLES_PARAMETERS.POIDS_SYNTHESE
+ *    (les 3 méthodes classiques sont réduites du poids des méthodes optionnelles)
  *
  * Si prix affiché fourni, calcule l'écart et génère argumentaire de négociation.
+ *
+ * Mode simulation (paramètre simulation) : tirages Monte Carlo de l'EBE, du CA et des
+ * coefficients (monteCarloValuation.ts) → percentiles P10-P90, probabilité que le prix
+ * affiché dépasse la valeur, histogramme pour generateChartsTool.
  */
 
 const SynthesizeValuationInputSchema = z.object({
   methodeEBE: z.object({
     ebe_reference: z.number(),
     ebe_retraite: z.number(),
+    coefficient_bas: z.number().optional(),
+    coefficient_median: z.number().optional(),
+    coefficient_haut: z.number().optional(),
     valeur_basse: z.number(),
     valeur_mediane: z.number(),
     valeur_haute: z.number()
   }).optional().describe('Résultat de calculateEbeValuation (sera lu depuis state.valorisation si non fourni)'),
   methodeCA: z.object({
+    ca_reference: z.number().optional(),
+    pourcentage_bas: z.number().optional(),
+    pourcentage_median: z.number().optional(),
+    pourcentage_haut: z.number().optional(),
     valeur_basse: z.number(),
     valeur_mediane: z.number(),
     valeur_haute: z.number()
@@ -36,8 +55,25 @@ const SynthesizeValuationInputSchema = z.object({
     actif_net_comptable: z.number(),
     valeur_estimee: z.number()
   }).optional().describe('Résultat de calculatePatrimonial (sera lu depuis state.valorisation si non fourni)'),
+  methodeDCF: z.object({
+    taux_actualisation: z.number(),
+    valeur_basse: z.number(),
+    valeur_mediane: z.number(),
+    valeur_haute: z.number()
+  }).optional().describe('Résultat de calculateDcfValuation (optionnel, sera lu depuis state.valorisation si non fourni)'),
+  methodeComparables: z.object({
+    zone: z.string(),
+    nb_transactions: z.number(),
+    valeur_basse: z.number(),
+    valeur_mediane: z.number(),
+    valeur_haute: z.number()
+  }).optional().describe('Résultat de calculateComparablesValuation (optionnel, sera lu depuis state.valorisation si non fourni)'),
   prix_affiche: z.number().optional().describe('Prix affiché par le vendeur (si connu)'),
-  context_notes: z.string().optional().describe('Notes contextuelles pour affiner la recommandation')
+  context_notes: z.string().optional().describe('Notes contextuelles pour affiner la recommandation'),
+  simulation: z.object({
+    iterations: z.number().optional().describe('Nombre de tirages (défaut 10000)'),
+    seed: z.number().optional().describe('Graine du générateur (défaut 42, résultat reproductible)')
+  }).optional().describe('Active le mode simulation Monte Carlo (percentiles P10-P90, probabilité prix > valeur, histogramme)')
 });
 
 const SynthesizeValuationOutputSchema = z.object({
@@ -47,7 +83,9 @@ const SynthesizeValuationOutputSchema = z.object({
     fourchette_haute: z.number(),
     methode_privilegiee: z.enum(['EBE', 'CA', 'Patrimoniale']),
     raison_methode: z.string(),
-    valeur_recommandee: z.number()
+    valeur_recommandee: z.number(),
+    poids_dcf: z.number().optional().describe('Poids de la méthode DCF dans la fourchette (0 si non calculée)'),
+    poids_comparables: z.number().optional().describe('Poids de la méthode des comparables dans la fourchette (0 si échantillon insuffisant)')
   }),
   comparaisonPrix: z.object({
     prix_affiche: z.number(),
@@ -61,12 +99,39 @@ const SynthesizeValuationOutputSchema = z.object({
   }),
   confidence: z.number().describe('Niveau de confiance de la valorisation (0-100)'),
   limitations: z.array(z.string()).describe('Ce qui manque pour affiner la valorisation'),
+  simulation: z.object({
+    iterations: z.number(),
+    seed: z.number(),
+    moyenne: z.number(),
+    percentiles: z.object({
+      p10: z.number(),
+      p25: z.number(),
+      p50: z.number(),
+      p75: z.number(),
+      p90: z.number()
+    }),
+    probabilite_prix_superieur: z.number().nullable().describe('Probabilité (%) que le prix affiché dépasse la valeur simulée'),
+    histogramme: z.array(z.object({
+      borne_basse: z.number(),
+      borne_haute: z.number(),
+      effectif: z.number()
+    }))
+  }).optional(),
   error: z.string().optional()
 });
 
+/**
+ * Pondération des méthodes selon la méthode privilégiée
+ */
+const POIDS_METHODES: Record<'EBE' | 'CA' | 'Patrimoniale', { ebe: number; ca: number; patrimoniale: number }> = {
+  EBE: { ebe: 0.7, ca: 0.2, patrimoniale: 0.1 },
+  Patrimoniale: { ebe: 0.1, ca: 0.3, patrimoniale: 0.6 },
+  CA: { ebe: 0, ca: 1, patrimoniale: 0 }
+};
+
 export const synthesizeValuationTool = new FunctionTool({
   name: 'synthesizeValuation',
-  description: 'Synthétise les 3 méthodes de valorisation et génère fourchette finale + recommandation. Compare avec prix affiché si fourni et génère argumentaire de négociation.',
+  description: 'Synthétise les 3 méthodes de valorisation (+ DCF et comparables BODACC si calculés) et génère fourchette finale + recommandation. Compare avec prix affiché si fourni et génère argumentaire de négociation.',
   parameters: zToGen(SynthesizeValuationInputSchema),
 
   execute: async (params, toolContext?: ToolContext) => {
@@ -77,25 +142,19 @@ export const synthesizeValuationTool = new FunctionTool({
       let methodeEBE = params.methodeEBE;
       let methodeCA = params.methodeCA;
       let methodePatrimoniale = params.methodePatrimoniale;
+      let methodeDCF = params.methodeDCF;
+      let methodeComparables = params.methodeComparables;
 
       // Si les méthodes ne sont pas en paramètres, essayer de lire depuis le state
-      if (!methodeEBE || !methodeCA || !methodePatrimoniale) {
-        let valorisation = toolContext?.state.get('valorisation') as any;
-
-        // Parser JSON string si nécessaire
-        if (typeof valorisation === 'string') {
-          try {
-            valorisation = JSON.parse(valorisation);
-          } catch (e) {
-            // Ignorer l'erreur et continuer avec les paramètres (si fournis)
-          }
-        }
-
-        // Fallback vers le state (backward compatibility)
+      if (!methodeEBE || !methodeCA || !methodePatrimoniale || !methodeDCF || !methodeComparables) {
+        // Fallback vers le state (backward compatibility) - parsé et validé
+        const valorisation: ValorisationOutput | undefined = readState(toolContext, 'valorisation');
         if (valorisation) {
           methodeEBE = methodeEBE || valorisation.methodeEBE;
           methodeCA = methodeCA || valorisation.methodeCA;
           methodePatrimoniale = methodePatrimoniale || valorisation.methodePatrimoniale;
+          methodeDCF = methodeDCF || valorisation.methodeDCF;
+          methodeComparables = methodeComparables || valorisation.methodeComparables;
         }
       }
 
@@ -120,38 +179,18 @@ export const synthesizeValuationTool = new FunctionTool({
         };
       }
 
-      // Lire comptable depuis state (pour contexte)
-      let comptable = toolContext?.state.get('comptable') as any;
-
-      if (typeof comptable === 'string') {
-        try {
-          comptable = JSON.parse(comptable);
-        } catch (e) {
-          // Pas critique
-        }
-      }
-
-      // Lire documentExtraction pour businessInfo (NAF code)
-      let documentExtraction = toolContext?.state.get('documentExtraction') as any;
-
-      if (typeof documentExtraction === 'string') {
-        try {
-          documentExtraction = JSON.parse(documentExtraction);
-        } catch (e) {
-          // Pas critique
-        }
+      // Lire comptable (pour contexte) et documentExtraction (NAF code) - non critiques
+      let comptable: ComptableOutput | undefined;
+      let documentExtraction: DocumentExtractionOutput | undefined;
+      try {
+        comptable = readState(toolContext, 'comptable');
+        documentExtraction = readState(toolContext, 'documentExtraction');
+      } catch (e: any) {
+        console.warn('[synthesizeValuation] ⚠️ contexte comptable ignoré:', e.message);
       }
 
       // Lire userComments pour transactionFinancing
-      let userComments = toolContext?.state.get('userComments') as any;
-
-      if (typeof userComments === 'string') {
-        try {
-          userComments = JSON.parse(userComments);
-        } catch (e) {
-          // Pas critique
-        }
-      }
+      const userComments = readUntypedState(toolContext, 'userComments');
 
       // Si prix_affiche non fourni en params, utiliser transactionFinancing.prix_fonds
       let prixAffiche = params.prix_affiche;
@@ -183,49 +222,45 @@ export const synthesizeValuationTool = new FunctionTool({
       }
 
       // Calculer fourchette synthétique (pondération des 3 méthodes)
-      let fourchetteBasse = 0;
-      let fourchetteMediane = 0;
-      let fourchetteHaute = 0;
-
-      if (methodePrivilegiee === 'EBE') {
-        // Pondération: 70% EBE, 20% CA, 10% Patrimoniale
-        fourchetteBasse = Math.round(
-          methodeEBE.valeur_basse * 0.7 +
-          methodeCA.valeur_basse * 0.2 +
-          methodePatrimoniale.valeur_estimee * 0.1
-        );
-        fourchetteMediane = Math.round(
-          methodeEBE.valeur_mediane * 0.7 +
-          methodeCA.valeur_mediane * 0.2 +
-          methodePatrimoniale.valeur_estimee * 0.1
-        );
-        fourchetteHaute = Math.round(
-          methodeEBE.valeur_haute * 0.7 +
-          methodeCA.valeur_haute * 0.2 +
-          methodePatrimoniale.valeur_estimee * 0.1
-        );
-      } else if (methodePrivilegiee === 'Patrimoniale') {
-        // Pondération: 60% Patrimoniale, 30% CA, 10% EBE
-        fourchetteBasse = Math.round(
-          methodePatrimoniale.valeur_estimee * 0.6 +
-          methodeCA.valeur_basse * 0.3 +
-          methodeEBE.valeur_basse * 0.1
-        );
-        fourchetteMediane = Math.round(
-          methodePatrimoniale.valeur_estimee * 0.6 +
-          methodeCA.valeur_mediane * 0.3 +
-          methodeEBE.valeur_mediane * 0.1
-        );
-        fourchetteHaute = Math.round(
-          methodePatrimoniale.valeur_estimee * 0.6 +
-          methodeCA.valeur_haute * 0.3 +
-          methodeEBE.valeur_haute * 0.1
-        );
-      } else {
-        // CA (rarement privilégié)
-        fourchetteBasse = methodeCA.valeur_basse;
-        fourchetteMediane = methodeCA.valeur_mediane;
-        fourchetteHaute = methodeCA.valeur_haute;
+      // EBE: 70% EBE, 20% CA, 10% Patrimoniale - Patrimoniale: 60% Patrimoniale, 30% CA, 10% EBE
+      // CA (rarement privilégié): 100% CA
+      const poids = POIDS_METHODES[methodePrivilegiee];
+      const valeurPatrimoniale = methodePatrimoniale.valeur_estimee;
+      const pondere = (ebe: number, ca: number) => Math.round(
+        ebe * poids.ebe +
+        ca * poids.ca +
+        valeurPatrimoniale * poids.patrimoniale
+      );
+
+      let fourchetteBasse = pondere(methodeEBE.valeur_basse, methodeCA.valeur_basse);
+      let fourchetteMediane = pondere(methodeEBE.valeur_mediane, methodeCA.valeur_mediane);
+      let fourchetteHaute = pondere(methodeEBE.valeur_haute, methodeCA.valeur_haute);
+
+      // Méthodes optionnelles (DCF, comparables) : poids propre, les 3 méthodes classiques sont réduites d'autant
+      const dcfDisponible = !!methodeDCF && methodeDCF.valeur_mediane > 0;
+      const poidsDcf = dcfDisponible ? DCF_PARAMETERS.POIDS_SYNTHESE : 0;
+      const comparablesDisponible = !!methodeComparables
+        && methodeComparables.nb_transactions >= COMPARABLES_PARAMETERS.MIN_TRANSACTIONS
+        && methodeComparables.valeur_mediane > 0;
+      const poidsComparables = comparablesDisponible ? COMPARABLES_PARAMETERS.POIDS_SYNTHESE : 0;
+      const poidsClassiques = 1 - poidsDcf - poidsComparables;
+
+      if (poidsClassiques < 1) {
+        const optionnelles = (cle: 'valeur_basse' | 'valeur_mediane' | 'valeur_haute') =>
+          (methodeDCF && dcfDisponible ? methodeDCF[cle] * poidsDcf : 0) +
+          (methodeComparables && comparablesDisponible ? methodeComparables[cle] * poidsComparables : 0);
+
+        fourchetteBasse = Math.round(fourchetteBasse * poidsClassiques + optionnelles('valeur_basse'));
+        fourchetteMediane = Math.round(fourchetteMediane * poidsClassiques + optionnelles('valeur_mediane'));
+        fourchetteHaute = Math.round(fourchetteHaute * poidsClassiques + optionnelles('valeur_haute'));
+      }
+
+      if (methodeDCF && dcfDisponible) {
+        raisonMethode += ` Méthode DCF intégrée à ${Math.round(poidsDcf * 100)}% (actualisation des flux du business plan à ${methodeDCF.taux_actualisation}%) : valeur de rendement attendue par les banques, sensible aux hypothèses de projection.`;
+      }
+
+      if (methodeComparables && comparablesDisponible) {
+        raisonMethode += ` Méthode des comparables intégrée à ${Math.round(poidsComparables * 100)}% (${methodeComparables.nb_transactions} cessions BODACC du secteur, zone ${methodeComparables.zone}) : prix réellement constatés sur le marché.`;
       }
 
       // ✅ APPROCHE CONSERVATIVE (2025-12-30):
@@ -258,6 +293,56 @@ export const synthesizeValuationTool = new FunctionTool({
         };
       }
 
+      // Mode simulation Monte Carlo (optionnel)
+      let simulation: MonteCarloResult | undefined = undefined;
+
+      if (params.simulation) {
+        const years: number[] = comptable?.yearsAnalyzed || [];
+        const historique = (field: string) => years.slice(0, 3).map(year => getSigValue(comptable?.sig?.[year.toString()], field));
+        const caReference = methodeCA.ca_reference || historique('chiffre_affaires')[0] || 0;
+        const ebeReference = Math.max(0, methodeEBE.ebe_retraite);
+
+        // Coefficients fournis par les tools, sinon déduits des valeurs (valeur / base)
+        const ratios = (valeurs: number[], base: number, echelle = 1) => {
+          const [bas, median, haut] = valeurs.map(v => (base > 0 ? (v / base) * echelle : 0));
+          return { bas, median, haut };
+        };
+        const multiple = methodeEBE.coefficient_median !== undefined
+          ? { bas: methodeEBE.coefficient_bas ?? 0, median: methodeEBE.coefficient_median, haut: methodeEBE.coefficient_haut ?? 0 }
+          : ratios([methodeEBE.valeur_basse, methodeEBE.valeur_mediane, methodeEBE.valeur_haute], ebeReference);
+        const pourcentage = methodeCA.pourcentage_median !== undefined
+          ? { bas: methodeCA.pourcentage_bas ?? 0, median: methodeCA.pourcentage_median, haut: methodeCA.pourcentage_haut ?? 0 }
+          : ratios([methodeCA.valeur_basse, methodeCA.valeur_mediane, methodeCA.valeur_haute], caReference, 100);
+
+        simulation = simulateValuation({
+          ebe: { valeur: ebeReference, volatilite: computeVolatility(historique('ebe')), multiple },
+          ca: { valeur: caReference, volatilite: computeVolatility(historique('chiffre_affaires')), pourcentage },
+          patrimoniale: valeurPatrimoniale,
+          dcf: methodeDCF && dcfDisponible
+            ? { bas: methodeDCF.valeur_basse, median: methodeDCF.valeur_mediane, haut: methodeDCF.valeur_haute }
+            : undefined,
+          comparables: methodeComparables && comparablesDisponible
+            ? { bas: methodeComparables.valeur_basse, median: methodeComparables.valeur_mediane, haut: methodeComparables.valeur_haute }
+            : undefined,
+          poids: {
+            ebe: poids.ebe * poidsClassiques,
+            ca: poids.ca * poidsClassiques,
+            patrimoniale: poids.patrimoniale * poidsClassiques,
+            dcf: poidsDcf,
+            comparables: poidsComparables
+          },
+          prixAffiche
+        }, params.simulation);
+
+        console.log('[synthesizeValuation] 🎲 Simulation Monte Carlo:', {
+          iterations: simulation.iterations,
+          p10: simulation.percentiles.p10,
+          p50: simulation.percentiles.p50,
+          p90: simulation.percentiles.p90,
+          probabilite_prix_superieur: simulation.probabilite_prix_superieur
+        });
+      }
+
       // Générer arguments de négociation
       const argumentsPourAcheteur: string[] = [];
       const argumentsPourVendeur: string[] = [];
@@ -284,6 +369,15 @@ export const synthesizeValuationTool = new FunctionTool({
         argumentsPourAcheteur.push(`📊 Prix affiché (${comparaisonPrix.prix_affiche.toLocaleString('fr-FR')} €) supérieur de ${comparaisonPrix.ecart_vs_estimation_pct}% à la valorisation médiane`);
       }
 
+      const probabilitePrixSuperieur = simulation?.probabilite_prix_superieur ?? null;
+      if (probabilitePrixSuperieur !== null && probabilitePrixSuperieur > 50) {
+        argumentsPourAcheteur.push(`🎲 ${probabilitePrixSuperieur}% de probabilité que le prix affiché dépasse la valeur du fonds (simulation Monte Carlo)`);
+      }
+
+      if (prixAffiche && methodeComparables && comparablesDisponible && prixAffiche > methodeComparables.valeur_haute) {
+        argumentsPourAcheteur.push(`🏷️ Prix affiché au-dessus de 75% des cessions BODACC comparables (médiane ${methodeComparables.valeur_mediane.toLocaleString('fr-FR')} €, ${methodeComparables.nb_transactions} cessions)`);
+      }
+
       if (argumentsPourAcheteur.length === 0) {
         argumentsPourAcheteur.push('Pas d\'argument majeur identifié pour négocier à la baisse');
       }
@@ -293,8 +387,8 @@ export const synthesizeValuationTool = new FunctionTool({
         argumentsPourVendeur.push(`📈 Forte croissance : CA +${comptable.evolution.ca_evolution_pct}%, potentiel de développement`);
       }
 
-      if (comptable?.healthScore?.overall >= 70) {
-        argumentsPourVendeur.push(`✅ Excellente santé financière : score ${comptable.healthScore.overall}/100`);
+      if ((comptable?.healthScore?.overall ?? 0) >= 70) {
+        argumentsPourVendeur.push(`✅ Excellente santé financière : score ${comptable?.healthScore?.overall}/100`);
       }
 
       if (comptable?.benchmark?.comparisons) {
@@ -308,20 +402,29 @@ export const synthesizeValuationTool = new FunctionTool({
         argumentsPourVendeur.push(`💎 Prix demandé (${comparaisonPrix.prix_affiche.toLocaleString('fr-FR')} €) en-dessous de la valorisation (-${Math.abs(comparaisonPrix.ecart_vs_estimation_pct)}%), affaire à saisir`);
       }
 
+      if (probabilitePrixSuperieur !== null && probabilitePrixSuperieur < 25) {
+        argumentsPourVendeur.push(`🎲 Prix affiché inférieur à la valeur simulée dans ${Math.round((100 - probabilitePrixSuperieur) * 10) / 10}% des cas (simulation Monte Carlo)`);
+      }
+
+      if (prixAffiche && methodeComparables && comparablesDisponible && prixAffiche < methodeComparables.valeur_basse) {
+        argumentsPourVendeur.push(`🏷️ Prix affiché en-dessous de 75% des cessions BODACC comparables (médiane ${methodeComparables.valeur_mediane.toLocaleString('fr-FR')} €, ${methodeComparables.nb_transactions} cessions)`);
+      }
+
       if (argumentsPourVendeur.length === 0) {
         argumentsPourVendeur.push('Commerce standard sans argument de valorisation particulier');
       }
 
       // Calculer niveau de confiance
       let confidence = 50; // Base
+      const nafCode = (documentExtraction?.businessInfo as any)?.nafCode || (comptable?.businessInfo as any)?.nafCode;
 
       // +20 si 3 années de données
-      if (comptable?.yearsAnalyzed?.length >= 3) {
+      if ((comptable?.yearsAnalyzed?.length ?? 0) >= 3) {
         confidence += 20;
       }
 
       // +15 si secteur connu (coefficients spécifiques)
-      if (documentExtraction?.businessInfo?.nafCode || comptable?.businessInfo?.nafCode) {
+      if (nafCode) {
         confidence += 15;
       }
 
@@ -331,7 +434,7 @@ export const synthesizeValuationTool = new FunctionTool({
       }
 
       // +5 si score santé > 60
-      if (comptable?.healthScore?.overall >= 60) {
+      if ((comptable?.healthScore?.overall ?? 0) >= 60) {
         confidence += 5;
       }
 
@@ -354,7 +457,7 @@ export const synthesizeValuationTool = new FunctionTool({
         limitations.push('Données sur moins de 3 ans : difficulté à identifier les tendances');
       }
 
-      if (!documentExtraction?.businessInfo?.nafCode && !comptable?.businessInfo?.nafCode) {
+      if (!nafCode) {
         limitations.push('Code NAF non fourni : coefficients génériques utilisés');
       }
 
@@ -362,6 +465,16 @@ export const synthesizeValuationTool = new FunctionTool({
         limitations.push('Bilan non fourni : valorisation patrimoniale approximative');
       }
 
+      if (!dcfDisponible) {
+        limitations.push('Méthode DCF non calculée : business plan 5 ans requis pour la valeur de rendement');
+      } else if (methodeDCF && methodeDCF.valeur_mediane > methodeEBE.valeur_mediane * 1.5) {
+        limitations.push('Valeur DCF très supérieure au multiple d\'EBE : hypothèses de croissance du business plan à vérifier');
+      }
+
+      if (!comparablesDisponible) {
+        limitations.push(`Moins de ${COMPARABLES_PARAMETERS.MIN_TRANSACTIONS} cessions BODACC comparables : prix de marché local non pris en compte`);
+      }
+
       if (!params.prix_affiche) {
         limitations.push('Prix affiché non fourni : impossible de comparer à la demande du vendeur');
       }
@@ -384,6 +497,12 @@ export const synthesizeValuationTool = new FunctionTool({
         methode_patrimoniale: {
           valeur: methodePatrimoniale.valeur_estimee
         },
+        ...(methodeDCF && dcfDisponible && {
+          methode_dcf: {
+            valeur: methodeDCF.valeur_mediane,
+            taux_actualisation: methodeDCF.taux_actualisation
+          }
+        }),
         recommendation: {
           valeur_min: fourchetteBasse,
           valeur_max: fourchetteHaute,
@@ -398,7 +517,9 @@ export const synthesizeValuationTool = new FunctionTool({
           fourchette_haute: fourchetteHaute,
           methode_privilegiee: methodePrivilegiee,
           raison_methode: raisonMethode,
-          valeur_recommandee: valeurRecommandee
+          valeur_recommandee: valeurRecommandee,
+          poids_dcf: poidsDcf,
+          poids_comparables: poidsComparables
         },
         comparaisonPrix,
         argumentsNegociation: {
@@ -406,10 +527,30 @@ export const synthesizeValuationTool = new FunctionTool({
           pour_vendeur: argumentsPourVendeur
         },
         confidence,
-        limitations
+        limitations,
+        simulation
       };
 
     } catch (error: any) {
+      if (error instanceof FinancialStateError) {
+        return {
+          synthese: {
+            fourchette_basse: 0,
+            fourchette_mediane: 0,
+            fourchette_haute: 0,
+            methode_privilegiee: 'EBE' as const,
+            raison_methode: 'Données de valorisation invalides',
+            valeur_recommandee: 0
+          },
+          argumentsNegociation: {
+            pour_acheteur: [],
+            pour_vendeur: []
+          },
+          confidence: 0,
+          limitations: ['Le state valorisation ne respecte pas le format attendu'],
+          ...error.toToolError()
+        };
+      }
       return {
         synthese: {
           fourchette_basse: 0,
@@ -0,0 +1,328 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import type { ProgressCallback } from '../types/AgentState';
+
+/**
+ * JobQueue - Exécution en arrière-plan des analyses ADK (professionnelle / financière)
+ *
+ * Les endpoints HTTP gardent la connexion ouverte pendant tout le pipeline ;
+ * un job est soumis, exécuté dès qu'un slot se libère (concurrence bornée pour
+ * ménager le quota Gemini) et consultable par son id.
+ *
+ * Layout disque (un fichier par job):
+ *   data/jobs/<jobId>.json   # JobRecord (statut, agent courant, résultat)
+ *
+ * Le payload de la requête (documents PDF en base64) n'est jamais écrit sur disque :
+ * au redémarrage, les jobs "queued" ou "running" passent en "interrupted".
+ * Un job financier interrompu garde son runId et peut être relancé avec
+ * { type: 'financial', runId, ... } pour reprendre au dernier agent terminé.
+ *
+ * Rétention : un job terminé depuis plus de `retentionMs` (7 jours par défaut)
+ * est retiré de la mémoire et son fichier supprimé, à la fin de chaque job et au chargement.
+ */
+
+export type JobType = 'professional' | 'financial';
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled' | 'interrupted';
+
+export interface JobRecord {
+  id: string;
+  type: JobType;
+  siret: string | null;
+  status: JobStatus;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  /** Sous-agent de MainOrchestrator / FinancialOrchestrator en cours d'exécution */
+  currentAgent: string | null;
+  completedAgents: string[];
+  /** Run financier persisté (session financial-<siret>-<runId>) */
+  runId: string | null;
+  result: any;
+  error: string | null;
+}
+
+export interface JobRunOptions {
+  onProgress: ProgressCallback;
+  onRunId: (runId: string) => void;
+  signal: AbortSignal;
+}
+
+/**
+ * Fonction d'exécution d'un pipeline (runProfessionalAnalysis / runFinancialAnalysis de server.js)
+ * Retourne le même { status, payload } que l'endpoint HTTP correspondant.
+ */
+export type JobRunner = (payload: any, options: JobRunOptions) => Promise<{ status: number; payload: any }>;
+
+export interface JobQueueOptions {
+  jobsDir?: string;
+  concurrency?: number;
+  /** Durée de conservation d'un job terminé (résultat compris) */
+  retentionMs?: number;
+  runners: Record<JobType, JobRunner>;
+}
+
+const FINISHED_STATUSES: JobStatus[] = ['completed', 'failed', 'cancelled', 'interrupted'];
+
+const DEFAULT_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+export class JobQueue {
+  private readonly jobsDir: string;
+  private readonly concurrency: number;
+  private readonly retentionMs: number;
+  private readonly runners: Record<JobType, JobRunner>;
+
+  private readonly jobs = new Map<string, JobRecord>();
+  private readonly pending: Array<{ id: string; payload: any }> = [];
+  private readonly controllers = new Map<string, AbortController>();
+  private readonly writes = new Map<string, Promise<void>>();
+  private running = 0;
+
+  constructor({
+    jobsDir = path.join(process.cwd(), 'data', 'jobs'),
+    concurrency = 2,
+    retentionMs = DEFAULT_RETENTION_MS,
+    runners
+  }: JobQueueOptions) {
+    this.jobsDir = jobsDir;
+    this.concurrency = Math.max(1, concurrency);
+    this.retentionMs = retentionMs;
+    this.runners = runners;
+  }
+
+  /**
+   * Recharge les jobs persistés (à attendre au démarrage du serveur, avant d'accepter des jobs)
+   */
+  async init(): Promise<void> {
+    await fs.mkdir(this.jobsDir, { recursive: true });
+
+    for (const entry of await fs.readdir(this.jobsDir)) {
+      if (!entry.endsWith('.json')) continue;
+
+      let job: JobRecord;
+      try {
+        job = JSON.parse(await fs.readFile(path.join(this.jobsDir, entry), 'utf8'));
+      } catch {
+        // Fichier tronqué - ignoré
+        continue;
+      }
+
+      // Job soumis par ce processus pendant le chargement : déjà suivi en mémoire
+      if (this.jobs.has(job.id)) continue;
+
+      if (this.isExpired(job)) {
+        await fs.rm(path.join(this.jobsDir, entry), { force: true });
+        continue;
+      }
+
+      if (job.status === 'queued' || job.status === 'running') {
+        job.status = 'interrupted';
+        job.currentAgent = null;
+        job.finishedAt = new Date().toISOString();
+        job.error = 'Job interrompu par un redémarrage du serveur';
+        await this.persist(job);
+      }
+
+      this.jobs.set(job.id, job);
+    }
+  }
+
+  /**
+   * Ajoute un job à la file et retourne son enregistrement (statut "queued")
+   */
+  submit(type: JobType, payload: any): JobRecord {
+    if (!this.runners[type]) {
+      throw new Error(`Unknown job type: ${type}`);
+    }
+
+    const job: JobRecord = {
+      id: randomUUID(),
+      type,
+      siret: (type === 'professional' ? payload?.business?.siret : payload?.businessInfo?.siret) || null,
+      status: 'queued',
+      createdAt: new Date().toISOString(),
+      startedAt: null,
+      finishedAt: null,
+      currentAgent: null,
+      completedAgents: [],
+      runId: type === 'financial' ? payload?.runId || null : null,
+      result: null,
+      error: null
+    };
+
+    this.jobs.set(job.id, job);
+    this.pending.push({ id: job.id, payload });
+    void this.persist(job);
+    this.drain();
+
+    return job;
+  }
+
+  get(id: string): JobRecord | undefined {
+    return this.jobs.get(id);
+  }
+
+  /**
+   * Liste les jobs (sans résultat), du plus récent au plus ancien
+   */
+  list(filter: { siret?: string } = {}): Array<Omit<JobRecord, 'result'>> {
+    return [...this.jobs.values()]
+      .filter(job => !filter.siret || job.siret === filter.siret)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .map(({ result: _result, ...summary }) => summary);
+  }
+
+  /**
+   * Annule un job en attente ou en cours
+   *
+   * Un job en cours s'arrête au prochain événement ADK (l'appel Gemini en vol
+   * n'est pas interrompu). Retourne false si le job est déjà terminé.
+   */
+  cancel(id: string): boolean {
+    const job = this.jobs.get(id);
+    if (!job || FINISHED_STATUSES.includes(job.status)) {
+      return false;
+    }
+
+    if (job.status === 'queued') {
+      const index = this.pending.findIndex(entry => entry.id === id);
+      if (index !== -1) this.pending.splice(index, 1);
+      this.finish(job, 'cancelled', null, 'Job annulé');
+      return true;
+    }
+
+    this.controllers.get(id)?.abort();
+    return true;
+  }
+
+  private drain(): void {
+    while (this.running < this.concurrency && this.pending.length > 0) {
+      const next = this.pending.shift()!;
+      const job = this.jobs.get(next.id);
+      if (!job) continue;
+
+      this.running++;
+      this.execute(job, next.payload).finally(() => {
+        this.running--;
+        this.drain();
+      });
+    }
+  }
+
+  private async execute(job: JobRecord, payload: any): Promise<void> {
+    const controller = new AbortController();
+    this.controllers.set(job.id, controller);
+
+    job.status = 'running';
+    job.startedAt = new Date().toISOString();
+    void this.persist(job);
+
+    const onProgress: ProgressCallback = (agentName, status) => {
+      if (status === 'running') {
+        job.currentAgent = agentName;
+        void this.persist(job);
+      } else if (status === 'completed' || status === 'failed') {
+        if (status === 'completed' && !job.completedAgents.includes(agentName)) {
+          job.completedAgents.push(agentName);
+        }
+        if (job.currentAgent === agentName) {
+          job.currentAgent = null;
+        }
+        void this.persist(job);
+      }
+    };
+
+    const onRunId = (runId: string) => {
+      job.runId = runId;
+      void this.persist(job);
+    };
+
+    try {
+      const { status, payload: result } = await this.runners[job.type](payload, {
+        onProgress,
+        onRunId,
+        signal: controller.signal
+      });
+
+      if (controller.signal.aborted) {
+        this.finish(job, 'cancelled', null, 'Job annulé');
+      } else if (status >= 400) {
+        this.finish(job, 'failed', result, result?.message || result?.error || `HTTP ${status}`);
+      } else {
+        this.finish(job, 'completed', result, null);
+      }
+    } catch (error: any) {
+      this.finish(job, controller.signal.aborted ? 'cancelled' : 'failed', null, error.message);
+    } finally {
+      this.controllers.delete(job.id);
+    }
+  }
+
+  private finish(job: JobRecord, status: JobStatus, result: any, error: string | null): void {
+    job.status = status;
+    job.result = result;
+    job.error = error;
+    job.currentAgent = null;
+    job.finishedAt = new Date().toISOString();
+    void this.persist(job);
+    this.prune();
+  }
+
+  private isExpired(job: JobRecord): boolean {
+    return FINISHED_STATUSES.includes(job.status)
+      && !!job.finishedAt
+      && Date.now() - new Date(job.finishedAt).getTime() >= this.retentionMs;
+  }
+
+  /**
+   * Retire les jobs terminés au-delà de la durée de rétention (mémoire + disque)
+   */
+  private prune(): void {
+    for (const job of this.jobs.values()) {
+      if (!this.isExpired(job)) continue;
+
+      this.jobs.delete(job.id);
+      const previous = this.writes.get(job.id) || Promise.resolve();
+      const removal = previous
+        .then(() => fs.rm(path.join(this.jobsDir, `${job.id}.json`), { force: true }))
+        .catch(error => {
+          console.error(`❌ [JobQueue] Failed to remove job ${job.id}:`, error.message);
+        })
+        .finally(() => {
+          if (this.writes.get(job.id) === removal) this.writes.delete(job.id);
+        });
+      this.writes.set(job.id, removal);
+    }
+  }
+
+  /**
+   * Écrit le job sur disque (écritures sérialisées par job, tmp + rename)
+   */
+  private persist(job: JobRecord): Promise<void> {
+    const previous = this.writes.get(job.id) || Promise.resolve();
+    const write = previous
+      .then(async () => {
+        const target = path.join(this.jobsDir, `${job.id}.json`);
+        const tmp = `${target}.tmp`;
+        await fs.mkdir(this.jobsDir, { recursive: true });
+        await fs.writeFile(tmp, JSON.stringify(job), 'utf8');
+        await fs.rename(tmp, target);
+      })
+      .catch(error => {
+        console.error(`❌ [JobQueue] Failed to persist job ${job.id}:`, error.message);
+      });
+
+    this.writes.set(job.id, write);
+    return write;
+  }
+
+  /**
+   * Attend la fin des écritures disque en cours (tests / arrêt propre)
+   */
+  async flush(): Promise<void> {
+    await Promise.all(this.writes.values());
+  }
+}
+
+export default JobQueue;
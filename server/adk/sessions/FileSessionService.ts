@@ -0,0 +1,323 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID, createHash } from 'crypto';
+import { BaseSessionService, createSession } from '@google/adk';
+import type {
+  Session,
+  Event,
+  AppendEventRequest,
+  CreateSessionRequest,
+  DeleteSessionRequest,
+  GetSessionRequest,
+  ListSessionsRequest,
+  ListSessionsResponse
+} from '@google/adk';
+
+/**
+ * FileSessionService - Session service ADK persistée sur disque
+ *
+ * Remplace InMemorySessionService quand un run doit survivre à l'échec d'un agent
+ * (ou à un redémarrage serveur) pour pouvoir être repris plus tard.
+ *
+ * Layout disque (une session = un dossier):
+ *   data/adk-sessions/<appName>/<userId>/<sessionId>/
+ *   ├── session.json   # { id, appName, userId, state, lastUpdateTime } - réécrit à chaque stateDelta
+ *   ├── events.jsonl   # Un événement ADK par ligne (append-only)
+ *   └── blobs/<sha256>.bin
+ *
+ * Les Buffer (PDF en mémoire dans state.documents) sont écrits une seule fois dans blobs/
+ * (adressés par leur hash) : session.json et events.jsonl n'en gardent que la référence,
+ * le snapshot réécrit à chaque stateDelta reste léger.
+ *
+ * Les sessions inactives depuis plus de ADK_SESSION_TTL sont supprimées par deleteExpiredSessions().
+ */
+
+const BLOB_TAG = '__blob_sha256';
+/** Format des sessions écrites avant blobs/ (Buffer inline en base64) */
+const BUFFER_TAG = '__buffer_base64';
+
+export class FileSessionService extends BaseSessionService {
+  private readonly baseDir: string;
+
+  constructor(baseDir: string = path.join(process.cwd(), 'data', 'adk-sessions')) {
+    super();
+    this.baseDir = baseDir;
+  }
+
+  async createSession({ appName, userId, state, sessionId }: CreateSessionRequest): Promise<Session> {
+    const session = createSession({
+      id: sessionId || randomUUID(),
+      appName,
+      userId,
+      state,
+      events: [],
+      lastUpdateTime: Date.now()
+    });
+
+    const dir = this.sessionDir(appName, userId, session.id);
+    await fs.rm(dir, { recursive: true, force: true });
+    await fs.mkdir(dir, { recursive: true });
+    await this.writeSnapshot(session);
+    await fs.writeFile(path.join(dir, 'events.jsonl'), '', 'utf8');
+
+    return session;
+  }
+
+  async getSession({ appName, userId, sessionId, config }: GetSessionRequest): Promise<Session | undefined> {
+    const dir = this.sessionDir(appName, userId, sessionId);
+
+    let snapshot: any;
+    try {
+      snapshot = JSON.parse(await fs.readFile(path.join(dir, 'session.json'), 'utf8'), reviveBuffers);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return undefined;
+      throw error;
+    }
+    snapshot = await this.restoreBlobs(dir, snapshot);
+
+    let events = await this.readEvents(dir);
+
+    if (config?.numRecentEvents) {
+      events = events.slice(-config.numRecentEvents);
+    }
+    if (config?.afterTimestamp) {
+      events = events.filter(e => e.timestamp >= config.afterTimestamp!);
+    }
+
+    return createSession({
+      id: snapshot.id,
+      appName: snapshot.appName,
+      userId: snapshot.userId,
+      state: snapshot.state || {},
+      events,
+      lastUpdateTime: snapshot.lastUpdateTime || 0
+    });
+  }
+
+  async listSessions({ appName, userId }: ListSessionsRequest): Promise<ListSessionsResponse> {
+    const userDir = path.join(this.baseDir, sanitize(appName), sanitize(userId));
+
+    let entries: string[];
+    try {
+      entries = await fs.readdir(userDir);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return { sessions: [] };
+      throw error;
+    }
+
+    const sessions: Session[] = [];
+    for (const entry of entries) {
+      try {
+        const raw = JSON.parse(await fs.readFile(path.join(userDir, entry, 'session.json'), 'utf8'));
+        // Comme InMemorySessionService : ni state ni events dans la liste
+        sessions.push(createSession({
+          id: raw.id,
+          appName: raw.appName,
+          userId: raw.userId,
+          state: {},
+          events: [],
+          lastUpdateTime: raw.lastUpdateTime || 0
+        }));
+      } catch {
+        // Dossier incomplet (création interrompue) - ignoré
+      }
+    }
+
+    return { sessions };
+  }
+
+  async deleteSession({ appName, userId, sessionId }: DeleteSessionRequest): Promise<void> {
+    await fs.rm(this.sessionDir(appName, userId, sessionId), { recursive: true, force: true });
+  }
+
+  async appendEvent({ session, event }: AppendEventRequest): Promise<Event> {
+    // La classe de base ignore les événements partiels et applique le stateDelta
+    await super.appendEvent({ session, event });
+    if (event.partial) {
+      return event;
+    }
+
+    session.lastUpdateTime = event.timestamp;
+
+    const dir = this.sessionDir(session.appName, session.userId, session.id);
+    await fs.mkdir(dir, { recursive: true });
+    await fs.appendFile(path.join(dir, 'events.jsonl'), await this.serialize(dir, event) + '\n', 'utf8');
+
+    if (event.actions?.stateDelta && Object.keys(event.actions.stateDelta).length > 0) {
+      await this.writeSnapshot(session);
+    }
+
+    return event;
+  }
+
+  /**
+   * Supprime les sessions dont la dernière mise à jour date de plus de maxAgeMs
+   * Retourne le nombre de sessions supprimées.
+   */
+  async deleteExpiredSessions(maxAgeMs: number): Promise<number> {
+    const now = Date.now();
+    let deleted = 0;
+
+    for (const dir of await this.sessionDirs()) {
+      let lastUpdateTime: number;
+      try {
+        lastUpdateTime = JSON.parse(await fs.readFile(path.join(dir, 'session.json'), 'utf8')).lastUpdateTime || 0;
+      } catch {
+        // Dossier incomplet (création interrompue) - date du dossier
+        lastUpdateTime = (await fs.stat(dir)).mtimeMs;
+      }
+
+      if (now - lastUpdateTime > maxAgeMs) {
+        await fs.rm(dir, { recursive: true, force: true });
+        deleted++;
+      }
+    }
+
+    return deleted;
+  }
+
+  private async sessionDirs(): Promise<string[]> {
+    const readDirs = async (dir: string): Promise<string[]> => {
+      try {
+        const entries = await fs.readdir(dir, { withFileTypes: true });
+        return entries.filter(entry => entry.isDirectory()).map(entry => path.join(dir, entry.name));
+      } catch (error: any) {
+        if (error.code === 'ENOENT') return [];
+        throw error;
+      }
+    };
+
+    const dirs: string[] = [];
+    for (const appDir of await readDirs(this.baseDir)) {
+      for (const userDir of await readDirs(appDir)) {
+        dirs.push(...await readDirs(userDir));
+      }
+    }
+    return dirs;
+  }
+
+  private sessionDir(appName: string, userId: string, sessionId: string): string {
+    return path.join(this.baseDir, sanitize(appName), sanitize(userId), sanitize(sessionId));
+  }
+
+  private async writeSnapshot(session: Session): Promise<void> {
+    const dir = this.sessionDir(session.appName, session.userId, session.id);
+    const snapshot = {
+      id: session.id,
+      appName: session.appName,
+      userId: session.userId,
+      state: session.state,
+      lastUpdateTime: session.lastUpdateTime
+    };
+
+    // Écriture atomique : un crash pendant l'écriture ne doit pas corrompre la session
+    const target = path.join(dir, 'session.json');
+    const tmp = `${target}.tmp`;
+    await fs.writeFile(tmp, await this.serialize(dir, snapshot), 'utf8');
+    await fs.rename(tmp, target);
+  }
+
+  /**
+   * JSON.stringify avec les Buffer remplacés par { __blob_sha256 } et écrits dans blobs/
+   * (this[key] donne la valeur brute, avant l'appel de Buffer.toJSON)
+   */
+  private async serialize(dir: string, value: unknown): Promise<string> {
+    const blobs = new Map<string, Buffer>();
+    const json = JSON.stringify(value, function (this: any, key: string, current: any) {
+      const raw = this[key];
+      if (Buffer.isBuffer(raw)) {
+        const hash = createHash('sha256').update(raw).digest('hex');
+        blobs.set(hash, raw);
+        return { [BLOB_TAG]: hash };
+      }
+      return current;
+    });
+
+    for (const [hash, buffer] of blobs) {
+      await this.writeBlob(dir, hash, buffer);
+    }
+    return json;
+  }
+
+  private async writeBlob(dir: string, hash: string, buffer: Buffer): Promise<void> {
+    const target = path.join(dir, 'blobs', `${hash}.bin`);
+    try {
+      await fs.access(target);
+      return; // Déjà écrit (même contenu)
+    } catch {
+      // Nouveau blob
+    }
+
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    const tmp = `${target}.tmp`;
+    await fs.writeFile(tmp, buffer);
+    await fs.rename(tmp, target);
+  }
+
+  /**
+   * Remplace les références { __blob_sha256 } par le Buffer lu dans blobs/
+   */
+  private async restoreBlobs(dir: string, value: any, cache = new Map<string, Promise<Buffer>>()): Promise<any> {
+    if (!value || typeof value !== 'object' || Buffer.isBuffer(value)) {
+      return value;
+    }
+
+    const hash = value[BLOB_TAG];
+    if (typeof hash === 'string') {
+      if (!cache.has(hash)) {
+        cache.set(hash, fs.readFile(path.join(dir, 'blobs', `${sanitize(hash)}.bin`)));
+      }
+      return cache.get(hash);
+    }
+
+    for (const key of Object.keys(value)) {
+      value[key] = await this.restoreBlobs(dir, value[key], cache);
+    }
+    return value;
+  }
+
+  private async readEvents(dir: string): Promise<Event[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(path.join(dir, 'events.jsonl'), 'utf8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const events: Event[] = [];
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        events.push(JSON.parse(line, reviveBuffers));
+      } catch {
+        // Dernière ligne tronquée (crash pendant l'append) - ignorée
+      }
+    }
+
+    const blobCache = new Map<string, Promise<Buffer>>();
+    for (const event of events) {
+      await this.restoreBlobs(dir, event, blobCache);
+    }
+    return events;
+  }
+}
+
+/**
+ * Nettoie un identifiant pour l'utiliser comme nom de dossier
+ */
+function sanitize(id: string): string {
+  return id.replace(/[^a-zA-Z0-9_.-]/g, '_');
+}
+
+/**
+ * JSON.parse reviver : { __buffer_base64 } → Buffer (sessions écrites avant blobs/)
+ */
+function reviveBuffers(_key: string, value: any): any {
+  if (value && typeof value === 'object' && typeof value[BUFFER_TAG] === 'string') {
+    return Buffer.from(value[BUFFER_TAG], 'base64');
+  }
+  return value;
+}
+
+export default FileSessionService;
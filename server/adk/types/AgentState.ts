@@ -21,10 +21,10 @@ import type {
  * Flux:
  * 1. business (input initial)
  * 2. preparation → state.preparation
- * 3. demographic → state.demographic
- * 4. places → state.places
- * 5. photo → state.photo
- * 6. competitor → state.competitor
+ * 3-6. En parallèle (ne dépendent que de preparation):
+ *    - demographic → state.demographic
+ *    - places → state.places, puis photo → state.photo
+ *    - competitor → state.competitor
  * 7. validation → state.validation (NOUVEAU - détecte conflits)
  * 8. gap → state.gap
  * 9. arbitration → state.arbitration (NOUVEAU - résout conflits)
@@ -58,12 +58,13 @@ export interface AgentState {
     agentsFailed?: number;
   };
 
-  // Historique erreurs (pour debugging)
-  errors?: Array<{
+  // Historique erreurs (pour debugging) : une clé "errors.<agentName>" par agent en échec,
+  // écrite par GuardedSequentialAgent et relue avec collectPipelineErrors(state)
+  [errorKey: `errors.${string}`]: {
     agent: string;
     error: string;
     timestamp: string;
-  }>;
+  } | undefined;
 }
 
 /**
@@ -73,17 +74,31 @@ export type PartialAgentState = Partial<AgentState> & {
   business: BusinessInput;
 };
 
+/**
+ * Statuts de progression émis pendant l'exécution d'un pipeline
+ * - running / completed / failed : cycle de vie d'un agent
+ * - tool_called / tool_completed : appel d'un tool par l'agent (result = { tool, args } / { tool, summary }, valeurs résumées)
+ * - state_updated : une clé de state a été écrite (result = { key, summary })
+ */
+export type ProgressStatus =
+  | 'running'
+  | 'completed'
+  | 'failed'
+  | 'tool_called'
+  | 'tool_completed'
+  | 'state_updated';
+
 /**
  * Type pour callbacks de progression
  */
 export type ProgressCallback = (
   agentName: string,
-  status: 'running' | 'completed' | 'failed',
+  status: ProgressStatus,
   result?: any
 ) => void;
 
 /**
- * Config globale du pipeline
+ * Config globale du pipeline (voir createMainOrchestrator)
  */
 export interface PipelineConfig {
   enableValidation?: boolean;
@@ -91,5 +106,8 @@ export interface PipelineConfig {
   maxClarifications?: number;
   conflictSeverityThreshold?: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
   continueOnError?: boolean;
+  /** Durée max du pipeline complet (ms) */
   timeout?: number;
+  /** Durée max de chaque agent (ms) */
+  agentTimeout?: number;
 }
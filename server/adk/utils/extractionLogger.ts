@@ -498,6 +498,7 @@ export function logValorisation(
     methode_ca?: { valeur: number; pourcentage?: number };
     methode_patrimoniale?: { valeur: number };
     methode_hybride?: { valeur_totale: number };
+    methode_dcf?: { valeur: number; taux_actualisation?: number };
     recommendation?: { valeur_min: number; valeur_max: number; valeur_mediane: number };
   }
 ): void {
@@ -519,6 +520,10 @@ export function logValorisation(
     data['méthode_Hybride_Tabac'] = `${valorisation.methode_hybride.valeur_totale.toLocaleString('fr-FR')} €`;
   }
 
+  if (valorisation.methode_dcf) {
+    data['méthode_DCF'] = `${valorisation.methode_dcf.valeur.toLocaleString('fr-FR')} € (taux ${valorisation.methode_dcf.taux_actualisation || 'N/A'}%)`;
+  }
+
   if (valorisation.recommendation) {
     data['──────────────── RECOMMANDATION'] = '';
     data.valeur_min = `${valorisation.recommendation.valeur_min.toLocaleString('fr-FR')} €`;
@@ -0,0 +1,149 @@
+/**
+ * Progress Tracker - Traduit le flux d'événements ADK en callbacks de progression
+ *
+ * Utilisé par les endpoints Express (streaming SSE) des deux pipelines :
+ * le Runner produit des Event bruts, le tracker les convertit en appels
+ * ProgressCallback compacts, sérialisables et affichables tels quels par l'UI.
+ *
+ * Événements émis :
+ * - running        : premier événement d'un agent
+ * - tool_called    : functionCall émis par l'agent        → { tool, args } (args résumés)
+ * - tool_completed : functionResponse reçu                 → { tool, summary }
+ * - state_updated  : une clé du stateDelta a été écrite    → { key, summary }
+ * - completed      : réponse finale (texte) de l'agent
+ * - failed         : événement ADK avec errorCode          → { errorCode, errorMessage }
+ *
+ * Un agent est marqué "completed" sur sa réponse finale et non sur le changement
+ * d'auteur : les événements d'agents exécutés en parallèle peuvent s'entrelacer.
+ */
+
+import { isFinalResponse } from '@google/adk';
+import type { Event } from '@google/adk';
+import type { ProgressCallback } from '../types/AgentState';
+
+const MAX_STRING_LENGTH = 120;
+
+export interface ProgressTracker {
+  /** À appeler pour chaque événement produit par runner.runAsync() */
+  handleEvent(event: Event): void;
+  /** À appeler en fin de run : clôture les agents encore "running" */
+  finish(error?: Error): void;
+}
+
+export function createProgressTracker(onProgress: ProgressCallback): ProgressTracker {
+  const running = new Set<string>();
+  const finished = new Set<string>();
+
+  const start = (agent: string) => {
+    if (running.has(agent) || finished.has(agent)) return;
+    running.add(agent);
+    onProgress(agent, 'running');
+  };
+
+  const end = (agent: string, status: 'completed' | 'failed', result?: any) => {
+    if (!running.has(agent)) return;
+    running.delete(agent);
+    finished.add(agent);
+    onProgress(agent, status, result);
+  };
+
+  return {
+    handleEvent(event: Event) {
+      const agent = event.author;
+      if (!agent || agent === 'user') return;
+
+      start(agent);
+
+      for (const part of event.content?.parts || []) {
+        if (part.functionCall) {
+          onProgress(agent, 'tool_called', {
+            tool: part.functionCall.name,
+            args: summarizeValue(part.functionCall.args || {})
+          });
+        }
+        if (part.functionResponse) {
+          onProgress(agent, 'tool_completed', {
+            tool: part.functionResponse.name,
+            summary: summarizeValue(part.functionResponse.response)
+          });
+        }
+      }
+
+      const stateDelta = event.actions?.stateDelta || {};
+      for (const key of Object.keys(stateDelta)) {
+        onProgress(agent, 'state_updated', { key, summary: summarizeValue(stateDelta[key]) });
+      }
+
+      if (event.errorCode) {
+        end(agent, 'failed', { errorCode: event.errorCode, errorMessage: event.errorMessage });
+        return;
+      }
+
+      const hasText = event.content?.parts?.some(part => !!part.text) || false;
+      if (hasText && isFinalResponse(event)) {
+        end(agent, 'completed');
+      }
+    },
+
+    finish(error?: Error) {
+      for (const agent of [...running]) {
+        if (error) {
+          end(agent, 'failed', { errorMessage: error.message });
+        } else {
+          end(agent, 'completed');
+        }
+      }
+    }
+  };
+}
+
+/**
+ * Résumé compact d'une valeur de state/tool (jamais le contenu complet : documents PDF, HTML, etc.)
+ *
+ * - Objet : champs scalaires conservés, tableaux → longueur, objets → nombre de clés
+ *   ex: { analyzed: true, competitors: 34, nearby_poi: 12 }
+ * - JSON string (outputKey) : parsée puis résumée
+ */
+export function summarizeValue(value: unknown): unknown {
+  if (typeof value === 'string') {
+    const trimmed = value.trim();
+    if (trimmed.startsWith('{')) {
+      try {
+        return summarizeValue(JSON.parse(trimmed));
+      } catch {
+        // Pas du JSON - résumé texte ci-dessous
+      }
+    }
+    return truncate(value);
+  }
+
+  if (Array.isArray(value)) {
+    return value.length;
+  }
+
+  if (value && typeof value === 'object') {
+    if (Buffer.isBuffer(value)) {
+      return `<${value.length} bytes>`;
+    }
+
+    const summary: Record<string, unknown> = {};
+    for (const [key, field] of Object.entries(value as Record<string, unknown>)) {
+      if (Array.isArray(field)) {
+        summary[key] = field.length;
+      } else if (field && typeof field === 'object') {
+        summary[key] = Object.keys(field).length;
+      } else if (typeof field === 'string') {
+        summary[key] = truncate(field);
+      } else {
+        summary[key] = field;
+      }
+    }
+    return summary;
+  }
+
+  return value;
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_STRING_LENGTH ? `${text.substring(0, MAX_STRING_LENGTH)}…` : text;
+}
@@ -85,6 +85,23 @@ export default function BusinessAnalysisModal({ isOpen, onClose, business, initi
   const [tauxInteretNegocie, setTauxInteretNegocie] = useState('');
   const [tauxAssuranceNegocie, setTauxAssuranceNegocie] = useState('');
 
+  // Différé, base de l'assurance et conditions propres du relais TVA / crédit vendeur
+  const [differeMoisInitial, setDiffereMoisInitial] = useState('');
+  const [typeDiffereInitial, setTypeDiffereInitial] = useState('');
+  const [baseAssuranceInitial, setBaseAssuranceInitial] = useState('');
+  const [relaisTvaDureeMoisInitial, setRelaisTvaDureeMoisInitial] = useState('');
+  const [creditVendeurTauxInitial, setCreditVendeurTauxInitial] = useState('');
+  const [creditVendeurDureeMoisInitial, setCreditVendeurDureeMoisInitial] = useState('');
+  const [creditVendeurDiffereMoisInitial, setCreditVendeurDiffereMoisInitial] = useState('');
+
+  const [differeMoisNegocie, setDiffereMoisNegocie] = useState('');
+  const [typeDiffereNegocie, setTypeDiffereNegocie] = useState('');
+  const [baseAssuranceNegocie, setBaseAssuranceNegocie] = useState('');
+  const [relaisTvaDureeMoisNegocie, setRelaisTvaDureeMoisNegocie] = useState('');
+  const [creditVendeurTauxNegocie, setCreditVendeurTauxNegocie] = useState('');
+  const [creditVendeurDureeMoisNegocie, setCreditVendeurDureeMoisNegocie] = useState('');
+  const [creditVendeurDiffereMoisNegocie, setCreditVendeurDiffereMoisNegocie] = useState('');
+
   // Auto-calculated fields (8 total)
   const [tvaSurHonorairesInitial, setTvaSurHonorairesInitial] = useState(0);
   const [totalInvestissementInitial, setTotalInvestissementInitial] = useState(0);
@@ -610,7 +627,11 @@ export default function BusinessAnalysisModal({ isOpen, onClose, business, initi
             nafCode: business.activite_principale || '',      // NAF from API (audit trail)
             secteurActivite: secteurActivite,                  // User-selected sector code (REQUIRED)
             secteurActiviteLabel: secteurActiviteLabel,        // User-selected sector label (for display)
-            activity: business.libelle_activite_principale || ''
+            activity: business.libelle_activite_principale || '',
+            codePostal: business.code_postal || '',              // Comparables BODACC (zone)
+            commune: business.libelle_commune || '',
+            codeInsee: business.code_commune || '',             // Référentiel des loyers commerciaux
+            bodaccData: business.bodaccData || []                // Cessions BODACC validées (base des comparables)
           },
           userComments: {
             frais_personnel_N1: fraisPersonnelN1 ? parseFloat(fraisPersonnelN1) : undefined,
@@ -644,7 +665,16 @@ export default function BusinessAnalysisModal({ isOpen, onClose, business, initi
                 duree_annees: dureeInitial ? parseFloat(dureeInitial) : undefined,
                 taux_interet: tauxInteretInitial ? parseFloat(tauxInteretInitial) : undefined,
                 taux_assurance: tauxAssuranceInitial ? parseFloat(tauxAssuranceInitial) : undefined,
-                estimation_annuelle: estimationAnnuelleInitial || undefined
+                estimation_annuelle: estimationAnnuelleInitial || undefined,
+                differe_mois: differeMoisInitial ? parseInt(differeMoisInitial, 10) : undefined,
+                type_differe: typeDiffereInitial || undefined,
+                base_assurance: baseAssuranceInitial || undefined,
+                relais_tva_duree_mois: relaisTvaDureeMoisInitial ? parseInt(relaisTvaDureeMoisInitial, 10) : undefined,
+
+                // Crédit vendeur (conditions propres)
+                credit_vendeur_taux: creditVendeurTauxInitial ? parseFloat(creditVendeurTauxInitial) : undefined,
+                credit_vendeur_duree_mois: creditVendeurDureeMoisInitial ? parseInt(creditVendeurDureeMoisInitial, 10) : undefined,
+                credit_vendeur_differe_mois: creditVendeurDiffereMoisInitial ? parseInt(creditVendeurDiffereMoisInitial, 10) : undefined
               },
 
               negocie: {
@@ -668,7 +698,16 @@ export default function BusinessAnalysisModal({ isOpen, onClose, business, initi
                 duree_annees: dureeNegocie ? parseFloat(dureeNegocie) : undefined,
                 taux_interet: tauxInteretNegocie ? parseFloat(tauxInteretNegocie) : undefined,
                 taux_assurance: tauxAssuranceNegocie ? parseFloat(tauxAssuranceNegocie) : undefined,
-                estimation_annuelle: estimationAnnuelleNegocie || undefined
+                estimation_annuelle: estimationAnnuelleNegocie || undefined,
+                differe_mois: differeMoisNegocie ? parseInt(differeMoisNegocie, 10) : undefined,
+                type_differe: typeDiffereNegocie || undefined,
+                base_assurance: baseAssuranceNegocie || undefined,
+                relais_tva_duree_mois: relaisTvaDureeMoisNegocie ? parseInt(relaisTvaDureeMoisNegocie, 10) : undefined,
+
+                // Crédit vendeur (conditions propres)
+                credit_vendeur_taux: creditVendeurTauxNegocie ? parseFloat(creditVendeurTauxNegocie) : undefined,
+                credit_vendeur_duree_mois: creditVendeurDureeMoisNegocie ? parseInt(creditVendeurDureeMoisNegocie, 10) : undefined,
+                credit_vendeur_differe_mois: creditVendeurDiffereMoisNegocie ? parseInt(creditVendeurDiffereMoisNegocie, 10) : undefined
               }
             }
           },
@@ -793,6 +832,20 @@ export default function BusinessAnalysisModal({ isOpen, onClose, business, initi
     setDureeNegocie('');
     setTauxInteretNegocie('');
     setTauxAssuranceNegocie('');
+    setDiffereMoisInitial('');
+    setTypeDiffereInitial('');
+    setBaseAssuranceInitial('');
+    setRelaisTvaDureeMoisInitial('');
+    setCreditVendeurTauxInitial('');
+    setCreditVendeurDureeMoisInitial('');
+    setCreditVendeurDiffereMoisInitial('');
+    setDiffereMoisNegocie('');
+    setTypeDiffereNegocie('');
+    setBaseAssuranceNegocie('');
+    setRelaisTvaDureeMoisNegocie('');
+    setCreditVendeurTauxNegocie('');
+    setCreditVendeurDureeMoisNegocie('');
+    setCreditVendeurDiffereMoisNegocie('');
 
     // Auto-calculated fields
     setTvaSurHonorairesInitial(0);
@@ -1029,6 +1082,21 @@ export default function BusinessAnalysisModal({ isOpen, onClose, business, initi
                 <option value="47.7">Commerce spécialisé habillement</option>
                 <option value="47.73">Pharmacie</option>
                 <option value="55.10">Hôtellerie</option>
+                <option value="47.21">Primeur (Fruits et légumes)</option>
+                <option value="47.22">Boucherie-Charcuterie</option>
+                <option value="47.23">Poissonnerie</option>
+                <option value="47.25">Caviste</option>
+                <option value="47.29">Épicerie fine</option>
+                <option value="47.61">Librairie</option>
+                <option value="47.62">Presse / Papeterie</option>
+                <option value="47.75">Parfumerie / Cosmétiques</option>
+                <option value="47.76">Fleuriste</option>
+                <option value="47.77">Bijouterie / Horlogerie</option>
+                <option value="47.78A">Optique</option>
+                <option value="56.10C">Restauration rapide</option>
+                <option value="96.02B">Institut de beauté</option>
+                <option value="55.20">Hébergement touristique (Gîtes, Chambres d'hôtes)</option>
+                <option value="55.30">Camping</option>
               </select>
               <p className="text-xs text-text-tertiary leading-relaxed">
                 Sélectionnez le secteur pour obtenir des benchmarks sectoriels pertinents
@@ -1378,6 +1446,28 @@ export default function BusinessAnalysisModal({ isOpen, onClose, business, initi
                 <p className="text-xs text-text-tertiary">
                   Prêt court-terme (taux ~4%) pour couvrir la TVA en attendant remboursement
                 </p>
+                <div className="grid grid-cols-2 gap-3">
+                  <FormInput
+                    type="number"
+                    value={relaisTvaDureeMoisInitial}
+                    onChange={(e) => setRelaisTvaDureeMoisInitial(e.target.value)}
+                    placeholder="Durée : 6 mois"
+                    min="1"
+                    max="24"
+                    step="1"
+                    className="text-sm"
+                  />
+                  <FormInput
+                    type="number"
+                    value={relaisTvaDureeMoisNegocie}
+                    onChange={(e) => setRelaisTvaDureeMoisNegocie(e.target.value)}
+                    placeholder="Durée : 6 mois"
+                    min="1"
+                    max="24"
+                    step="1"
+                    className="text-sm"
+                  />
+                </div>
               </div>
 
               {/* Row 3: Crédit Vendeur */}
@@ -1410,6 +1500,75 @@ export default function BusinessAnalysisModal({ isOpen, onClose, business, initi
                 <p className="text-xs text-text-tertiary">
                   Crédit vendeur pour stock/équipement (facilite négociation)
                 </p>
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="grid grid-cols-3 gap-2">
+                    <FormInput
+                      type="number"
+                      value={creditVendeurTauxInitial}
+                      onChange={(e) => setCreditVendeurTauxInitial(e.target.value)}
+                      placeholder="Taux 2 %"
+                      min="0"
+                      max="15"
+                      step="0.1"
+                      className="text-sm"
+                    />
+                    <FormInput
+                      type="number"
+                      value={creditVendeurDureeMoisInitial}
+                      onChange={(e) => setCreditVendeurDureeMoisInitial(e.target.value)}
+                      placeholder="24 mois"
+                      min="1"
+                      max="120"
+                      step="1"
+                      className="text-sm"
+                    />
+                    <FormInput
+                      type="number"
+                      value={creditVendeurDiffereMoisInitial}
+                      onChange={(e) => setCreditVendeurDiffereMoisInitial(e.target.value)}
+                      placeholder="Différé 0"
+                      min="0"
+                      max="24"
+                      step="1"
+                      className="text-sm"
+                    />
+                  </div>
+                  <div className="grid grid-cols-3 gap-2">
+                    <FormInput
+                      type="number"
+                      value={creditVendeurTauxNegocie}
+                      onChange={(e) => setCreditVendeurTauxNegocie(e.target.value)}
+                      placeholder="Taux 2 %"
+                      min="0"
+                      max="15"
+                      step="0.1"
+                      className="text-sm"
+                    />
+                    <FormInput
+                      type="number"
+                      value={creditVendeurDureeMoisNegocie}
+                      onChange={(e) => setCreditVendeurDureeMoisNegocie(e.target.value)}
+                      placeholder="24 mois"
+                      min="1"
+                      max="120"
+                      step="1"
+                      className="text-sm"
+                    />
+                    <FormInput
+                      type="number"
+                      value={creditVendeurDiffereMoisNegocie}
+                      onChange={(e) => setCreditVendeurDiffereMoisNegocie(e.target.value)}
+                      placeholder="Différé 0"
+                      min="0"
+                      max="24"
+                      step="1"
+                      className="text-sm"
+                    />
+                  </div>
+                </div>
+                <p className="text-xs text-text-tertiary">
+                  Conditions du crédit vendeur : taux (%), durée (mois), différé (mois)
+                </p>
               </div>
 
               {/* Row 4: MONTANT DU PRÊT PRINCIPAL (AUTO-CALCULATED) */}
@@ -1573,6 +1732,83 @@ export default function BusinessAnalysisModal({ isOpen, onClose, business, initi
                 <p className="text-xs text-text-tertiary">
                   Assurance emprunteur (typique: 0,35-0,50%)
                 </p>
+                <div className="grid grid-cols-2 gap-3">
+                  <select
+                    value={baseAssuranceInitial}
+                    onChange={(e) => setBaseAssuranceInitial(e.target.value)}
+                    className="w-full px-3 py-2.5 text-sm bg-white border-2 border-surface-300 rounded-xl focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 transition-all"
+                  >
+                    <option value="">Capital initial</option>
+                    <option value="capital_initial">Capital initial</option>
+                    <option value="capital_restant_du">Capital restant dû</option>
+                  </select>
+                  <select
+                    value={baseAssuranceNegocie}
+                    onChange={(e) => setBaseAssuranceNegocie(e.target.value)}
+                    className="w-full px-3 py-2.5 text-sm bg-white border-2 border-surface-300 rounded-xl focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 transition-all"
+                  >
+                    <option value="">Capital initial</option>
+                    <option value="capital_initial">Capital initial</option>
+                    <option value="capital_restant_du">Capital restant dû</option>
+                  </select>
+                </div>
+                <p className="text-xs text-text-tertiary">
+                  Base de calcul de l'assurance
+                </p>
+              </div>
+
+              {/* Row 3b: Différé d'amortissement */}
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-text-primary">
+                  Différé d'amortissement du prêt principal
+                </label>
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="grid grid-cols-2 gap-2">
+                    <FormInput
+                      type="number"
+                      value={differeMoisInitial}
+                      onChange={(e) => setDiffereMoisInitial(e.target.value)}
+                      placeholder="0 mois"
+                      min="0"
+                      max="24"
+                      step="1"
+                      className="text-sm"
+                    />
+                    <select
+                      value={typeDiffereInitial}
+                      onChange={(e) => setTypeDiffereInitial(e.target.value)}
+                      className="w-full px-3 py-2.5 text-sm bg-white border-2 border-surface-300 rounded-xl focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 transition-all"
+                    >
+                      <option value="">Partiel</option>
+                      <option value="partiel">Partiel (intérêts seuls)</option>
+                      <option value="total">Total (intérêts capitalisés)</option>
+                    </select>
+                  </div>
+                  <div className="grid grid-cols-2 gap-2">
+                    <FormInput
+                      type="number"
+                      value={differeMoisNegocie}
+                      onChange={(e) => setDiffereMoisNegocie(e.target.value)}
+                      placeholder="0 mois"
+                      min="0"
+                      max="24"
+                      step="1"
+                      className="text-sm"
+                    />
+                    <select
+                      value={typeDiffereNegocie}
+                      onChange={(e) => setTypeDiffereNegocie(e.target.value)}
+                      className="w-full px-3 py-2.5 text-sm bg-white border-2 border-surface-300 rounded-xl focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 transition-all"
+                    >
+                      <option value="">Partiel</option>
+                      <option value="partiel">Partiel (intérêts seuls)</option>
+                      <option value="total">Total (intérêts capitalisés)</option>
+                    </select>
+                  </div>
+                </div>
+                <p className="text-xs text-text-tertiary">
+                  Durée du différé (mois, inclus dans la durée du prêt) et type : partiel = intérêts seuls, total = intérêts capitalisés
+                </p>
               </div>
 
               {/* Row 4: ESTIMATION ANNUELLE (AUTO-CALCULATED) */}
@@ -94,6 +94,7 @@ export const searchBusinesses = async (nafCode, location, radius = 5, limit = 10
           adresse: targetEst.adresse,
           code_postal: targetEst.code_postal,
           libelle_commune: targetEst.libelle_commune,
+          code_commune: targetEst.commune,
           lat: targetEst.latitude,
           lon: targetEst.longitude,
           siret: targetEst.siret,
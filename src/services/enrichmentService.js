@@ -1,5 +1,5 @@
 import { fetchRawBodaccData } from './bodaccService';
-import { validateBodaccRecordsBatch } from './geminiService';
+import { validateBodaccRecordsBatch, storeBodaccComparables } from './geminiService';
 import { cacheService, SHORT_TTL } from './cacheService';
 import { NAF_CODES } from '../data/nafCodes';
 
@@ -126,6 +126,7 @@ export const enrichWithBodacc = async (businesses, nafCode) => {
         const validIds = await validateBodaccRecordsBatch(batchPayload, activityLabel);
 
         // 4. Update Cache with Validated Results
+        const comparableGroups = [];
         uniqueAddresses.forEach(address => {
             const rawRecords = recordsByAddress.get(address);
             if (rawRecords && rawRecords.length > 0) {
@@ -138,8 +139,20 @@ export const enrichWithBodacc = async (businesses, nafCode) => {
 
                 // Update local map for return value
                 recordsByAddress.set(address, validatedRecords);
+
+                // Comparables dataset used by the financial valuation
+                const business = addressMap.get(address)[0];
+                comparableGroups.push({
+                    records: validatedRecords,
+                    nafCode: business.activite_principale || String(nafCode?.code || nafCode || '').split(',')[0].trim(),
+                    codePostal: business.code_postal,
+                    commune: business.libelle_commune
+                });
             }
         });
+
+        // Feed all addresses in a single request (fire-and-forget)
+        storeBodaccComparables(comparableGroups);
     }
 
     // 5. Enrich Business Objects
@@ -56,3 +56,20 @@ export const validateBodaccRecord = async (description, activityLabel = null) =>
         return true; // In case of error, accept the record
     }
 };
+
+/**
+ * Store validated BODACC sale records as comparables for the financial valuation
+ * Sends every address of an enrichment in a single request
+ * Fire-and-forget: failures are logged and never block the enrichment
+ * @param {Array<{records: Array<{id: string, date: string, amount: number, description: string}>, nafCode: string, codePostal: string, commune: string}>} groups - Validated records with the sector and location of their address
+ */
+export const storeBodaccComparables = async (groups) => {
+    const nonEmpty = (groups || []).filter(g => g.nafCode && g.records?.length > 0);
+    if (nonEmpty.length === 0) return;
+
+    try {
+        await axios.post(`${BACKEND_API_URL}/api/bodacc-comparables`, { groups: nonEmpty });
+    } catch (error) {
+        console.error('❌ Error storing BODACC comparables:', error.message);
+    }
+};
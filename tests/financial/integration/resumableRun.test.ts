@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { createEvent, createEventActions } from '@google/adk';
+import { FileSessionService } from '../../../server/adk/sessions/FileSessionService';
+import {
+  createFinancialOrchestrator,
+  getCompletedFinancialStages
+} from '../../../server/adk/financial/orchestrator/FinancialOrchestrator';
+
+/**
+ * Tests de reprise d'un run financier persisté
+ *
+ * Objectif: un run interrompu après ComptableAgent doit reprendre à ValorisationAgent
+ * avec documentExtraction et comptable relus depuis le disque.
+ */
+
+describe('Resumable financial run', () => {
+  let baseDir: string;
+  const appName = 'searchcommerce-financial';
+  const userId = 'system';
+  const sessionId = 'financial-12345678901234-run1';
+
+  beforeEach(async () => {
+    baseDir = await fs.mkdtemp(path.join(os.tmpdir(), 'adk-sessions-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(baseDir, { recursive: true, force: true });
+  });
+
+  const appendDelta = async (service: FileSessionService, author: string, stateDelta: Record<string, unknown>) => {
+    const session = (await service.getSession({ appName, userId, sessionId }))!;
+    await service.appendEvent({
+      session,
+      event: createEvent({ invocationId: 'inv-1', author, actions: createEventActions({ stateDelta }) })
+    });
+  };
+
+  it('should persist state and events across service instances', async () => {
+    const writer = new FileSessionService(baseDir);
+    await writer.createSession({ appName, userId, sessionId });
+
+    await appendDelta(writer, 'user', {
+      businessInfo: { name: 'Test Commerce', siret: '12345678901234' },
+      documents: [{ filename: 'bilan.pdf', content: Buffer.from('%PDF-1.4') }]
+    });
+    await appendDelta(writer, 'documentExtraction', { documentExtraction: { documents: [] } });
+
+    const reader = new FileSessionService(baseDir);
+    const session = await reader.getSession({ appName, userId, sessionId });
+
+    expect(session).toBeDefined();
+    expect(session!.events).toHaveLength(2);
+    expect(session!.state.documentExtraction).toEqual({ documents: [] });
+
+    const doc = (session!.state.documents as any[])[0];
+    expect(Buffer.isBuffer(doc.content)).toBe(true);
+    expect(doc.content.toString()).toBe('%PDF-1.4');
+  });
+
+  it('should detect completed stages from agent-authored state deltas only', async () => {
+    const service = new FileSessionService(baseDir);
+    await service.createSession({ appName, userId, sessionId });
+
+    await appendDelta(service, 'comptaPreprocessing', { comptaPreprocessing: { skipped: true } });
+    // geminiVisionExtractTool pré-remplit comptable.sig pendant l'extraction
+    await appendDelta(service, 'documentExtraction', { comptable: { sig: {} } });
+    await appendDelta(service, 'documentExtraction', { documentExtraction: { documents: [] } });
+
+    let session = (await service.getSession({ appName, userId, sessionId }))!;
+    expect(getCompletedFinancialStages(session.events)).toEqual(['comptaPreprocessing', 'documentExtraction']);
+
+    await appendDelta(service, 'comptable', { comptable: { sig: {}, healthScore: { overall: 70 } } });
+
+    session = (await service.getSession({ appName, userId, sessionId }))!;
+    expect(getCompletedFinancialStages(session.events)).toEqual(['comptaPreprocessing', 'documentExtraction', 'comptable']);
+  });
+
+  it('should only build the remaining agents when resuming', () => {
+    const orchestrator = createFinancialOrchestrator({
+      completedStages: ['comptaPreprocessing', 'documentExtraction', 'comptable']
+    });
+
+    expect(orchestrator.subAgents.map(a => a.name)).toEqual([
+      'valorisation',
+      'immobilier',
+      'financialValidation',
+      'financialReport'
+    ]);
+  });
+
+  it('should list persisted sessions', async () => {
+    const service = new FileSessionService(baseDir);
+    await service.createSession({ appName, userId, sessionId });
+    await service.createSession({ appName, userId, sessionId: 'financial-12345678901234-run2' });
+
+    const { sessions } = await service.listSessions({ appName, userId });
+    expect(sessions.map(s => s.id).sort()).toEqual([sessionId, 'financial-12345678901234-run2']);
+
+    await service.deleteSession({ appName, userId, sessionId });
+    expect(await service.getSession({ appName, userId, sessionId })).toBeUndefined();
+  });
+
+  it('should write documents once outside the session snapshot', async () => {
+    const service = new FileSessionService(baseDir);
+    await service.createSession({ appName, userId, sessionId });
+
+    const pdf = Buffer.from('%PDF-1.4 bilan 2024');
+    await appendDelta(service, 'user', { documents: [{ filename: 'bilan.pdf', content: pdf }] });
+    await appendDelta(service, 'documentExtraction', { documentExtraction: { documents: [] } });
+
+    const dir = path.join(baseDir, appName, userId, sessionId);
+    const snapshot = await fs.readFile(path.join(dir, 'session.json'), 'utf8');
+    expect(snapshot).not.toContain(pdf.toString('base64'));
+    expect(await fs.readdir(path.join(dir, 'blobs'))).toHaveLength(1);
+
+    const session = (await service.getSession({ appName, userId, sessionId }))!;
+    expect((session.state.documents as any[])[0].content.equals(pdf)).toBe(true);
+    expect(((session.events[0].actions.stateDelta.documents as any[])[0]).content.equals(pdf)).toBe(true);
+  });
+
+  it('should delete sessions idle for longer than the TTL', async () => {
+    const service = new FileSessionService(baseDir);
+    await service.createSession({ appName, userId, sessionId });
+    await appendDelta(service, 'user', { businessInfo: { siret: '12345678901234' } });
+
+    expect(await service.deleteExpiredSessions(60 * 60 * 1000)).toBe(0);
+    expect(await service.getSession({ appName, userId, sessionId })).toBeDefined();
+
+    await new Promise(resolve => setTimeout(resolve, 5));
+    expect(await service.deleteExpiredSessions(1)).toBe(1);
+    expect(await service.getSession({ appName, userId, sessionId })).toBeUndefined();
+  });
+});
@@ -0,0 +1,170 @@
+import { describe, it, expect } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  DEFAULT_ALERT_RULES_DIR,
+  compileAlertRule,
+  loadAlertRulesFromDir,
+  loadDeclarativeAlertRules,
+  parseAlertRules
+} from '../../../server/adk/financial/config/alertRuleLoader';
+import { resolveMetric } from '../../../server/adk/financial/config/alertMetrics';
+import { findSectorBenchmark } from '../../../server/adk/financial/config/sectorBenchmarks';
+import { ALERT_RULES } from '../../../server/adk/financial/config/alertRules';
+
+/**
+ * Tests pour les regles d'alertes declaratives (config/alert-rules/*.json)
+ *
+ * Objectif: fichiers de regles valides, seuils et messages identiques aux regles
+ * codees, surcharges par secteur et par repertoire, rejet des regles invalides
+ */
+
+const fixture = (overrides: any = {}): any => ({
+  comptable: {
+    sig: {
+      '2022': { chiffre_affaires: 500000, ebe: 100000, resultat_net: 40000 },
+      '2023': { chiffre_affaires: 450000, ebe: 60000, resultat_net: -12500 }
+    },
+    ratios: { marge_ebe_pct: 3.5, taux_endettement_pct: 120 },
+    yearsAnalyzed: ['2022', '2023']
+  },
+  valorisation: null,
+  immobilier: null,
+  documentExtraction: null,
+  businessInfo: null,
+  benchmark: null,
+  ...overrides
+});
+
+const rule = (id: string) => ALERT_RULES.find(r => r.id === id)!;
+
+describe('config/alert-rules', () => {
+  it('charge toutes les regles par defaut sans erreur de validation', () => {
+    const { rules, errors } = loadAlertRulesFromDir(DEFAULT_ALERT_RULES_DIR);
+
+    expect(errors).toEqual([]);
+    expect(rules.length).toBeGreaterThanOrEqual(25);
+    expect(rules.map(r => r.id)).toContain('RENT_001');
+  });
+
+  it('conserve l\'ordre des categories dans ALERT_RULES', () => {
+    const ids = ALERT_RULES.map(r => r.id);
+    expect(ids.indexOf('RENT_007')).toBeLessThan(ids.indexOf('DETTE_001'));
+    expect(ids.indexOf('VALO_001')).toBeLessThan(ids.indexOf('VALO_002'));
+    expect(ids[ids.length - 1]).toBe('DATA_005');
+  });
+
+  it('evalue seuils et placeholders comme les regles codees', () => {
+    const ctx = fixture();
+
+    // EBE -40% sur 2 ans
+    expect(resolveMetric(ctx, 'derived.ebe_evolution_pct')).toBe(-40);
+    expect(rule('RENT_001').condition(ctx)).toBe(true);
+    expect(rule('RENT_002').condition(ctx)).toBe(false);
+    expect(rule('RENT_001').messageTemplate(rule('RENT_001').extractValues(ctx)))
+      .toBe('Chute de l\'EBE de 40% sur 2 ans');
+
+    expect(rule('RENT_005').extractValues(ctx).resultat).toBe((-12500).toLocaleString('fr-FR'));
+    expect(rule('RENT_003').messageTemplate(rule('RENT_003').extractValues(ctx)))
+      .toBe('Marge EBE de 3.5%, insuffisante pour absorber les aleas');
+  });
+
+  it('compare a une metrique de reference (moyenne sectorielle x facteur)', () => {
+    const benchmark = { nafCode: '56.10', sector: 'Restauration', ratios: { marge_ebe_pct: 12 } };
+
+    expect(rule('RENT_007').condition(fixture({ benchmark }))).toBe(true);
+    expect(rule('RENT_007').condition(fixture())).toBe(false);
+  });
+
+  it('cite le benchmark sectoriel utilise comme seuil', () => {
+    const pharmacie = { ...findSectorBenchmark('47.73')!, isDefault: false };
+    const bar = { ...findSectorBenchmark('56.30')!, isDefault: false };
+    const stock = (jours: number) => fixture({ comptable: { ratios: { rotation_stocks_jours: jours } } });
+
+    // 100 jours de stock : normal en pharmacie (moyenne 60), anormal pour un bar (moyenne 10)
+    expect(rule('TRESO_007').condition({ ...stock(100), benchmark: pharmacie })).toBe(false);
+    expect(rule('TRESO_007').condition({ ...stock(100), benchmark: bar })).toBe(true);
+
+    const quote = rule('TRESO_007').benchmarkQuote!({ ...stock(100), benchmark: bar })!;
+    expect(quote.nafCode).toBe('56.30');
+    expect(quote.references).toEqual([
+      { ratio: 'rotation_stocks_jours', label: 'Rotation stocks (jours)', sectorValue: 10, factor: 2, threshold: 20 }
+    ]);
+    expect(rule('TRESO_007').messageTemplate(rule('TRESO_007').extractValues({ ...stock(100), benchmark: bar })))
+      .toContain('(10 jours)');
+
+    // Regle sans reference sectorielle : pas de citation
+    expect(rule('RENT_003').benchmarkQuote!({ ...stock(100), benchmark: bar })).toBeNull();
+  });
+
+  it('applique la surcharge du secteur (plus long prefixe NAF)', () => {
+    // Tabac-presse : marge EBE faible si < 8% (au lieu de 5%)
+    const marge6 = fixture({ comptable: { ratios: { marge_ebe_pct: 6 } } });
+    expect(rule('RENT_003').condition({ ...marge6, businessInfo: { secteurActivite: '47.26' } })).toBe(true);
+    expect(rule('RENT_003').condition({ ...marge6, businessInfo: { secteurActivite: '56.10' } })).toBe(false);
+
+    const compiled = compileAlertRule({
+      id: 'TEST_001',
+      category: 'rentabilite',
+      severity: 'warning',
+      conditions: [{ metric: 'comptable.ratios.marge_ebe_pct', operator: '<', value: 5 }],
+      sectorOverrides: {
+        '47': { conditions: [{ metric: 'comptable.ratios.marge_ebe_pct', operator: '<', value: 4 }] },
+        '47.7': { enabled: false }
+      },
+      title: 'Test',
+      message: 'Test',
+      impact: 'Test',
+      recommendation: 'Test'
+    });
+
+    const ctx = fixture({ comptable: { ratios: { marge_ebe_pct: 4.5 } } });
+    expect(compiled.condition({ ...ctx, businessInfo: { secteurActivite: '47.26' } })).toBe(false);
+    expect(compiled.condition({ ...ctx, businessInfo: { secteurActivite: '10.71' } })).toBe(true);
+    expect(compiled.condition({ ...fixture(), businessInfo: { secteurActivite: '47.73' } })).toBe(false);
+  });
+
+  it('remplace une regle par id depuis un repertoire de surcharge', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'alert-rules-'));
+    try {
+      const base = loadAlertRulesFromDir(DEFAULT_ALERT_RULES_DIR).rules.find(r => r.id === 'RENT_001')!;
+      fs.writeFileSync(path.join(dir, 'rent.json'), JSON.stringify([
+        { ...base, conditions: [{ metric: 'derived.ebe_evolution_pct', operator: '<', value: -50 }] }
+      ]));
+
+      const rules = loadDeclarativeAlertRules([DEFAULT_ALERT_RULES_DIR, dir]);
+      const rent001 = compileAlertRule(rules.find(r => r.id === 'RENT_001')!);
+
+      expect(rules.filter(r => r.id === 'RENT_001')).toHaveLength(1);
+      expect(rent001.condition(fixture())).toBe(false);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('rejette les regles invalides et garde les autres', () => {
+    const valid = {
+      id: 'TEST_002',
+      category: 'donnees',
+      severity: 'info',
+      conditions: [{ metric: 'comptable.yearsAnalyzed.length', operator: '<', value: 3 }],
+      values: { count: { metric: 'comptable.yearsAnalyzed.length' } },
+      title: 'Test',
+      message: '{count} annee(s)',
+      impact: 'Test',
+      recommendation: 'Test'
+    };
+
+    const { rules, errors } = parseAlertRules([
+      valid,
+      { ...valid, id: 'TEST_003', conditions: [{ metric: 'x', operator: '~', value: 1 }] },
+      { ...valid, id: 'TEST_004', message: '{inconnu}' },
+      { ...valid, id: 'TEST_005', conditions: [{ metric: 'derived.inexistante', operator: '<', value: 1 }] }
+    ], 'fixture.json');
+
+    expect(rules.map(r => r.id)).toEqual(['TEST_002']);
+    expect(errors).toHaveLength(3);
+    expect(errors[1]).toContain('{inconnu}');
+  });
+});
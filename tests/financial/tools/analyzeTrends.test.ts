@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { computeTrends } from '../../../server/adk/financial/tools/accounting/analyzeTrendsTool';
+import {
+  analyzeSeries,
+  calculateCagr,
+  detectInflections,
+  linearRegression
+} from '../../../server/adk/financial/tools/accounting/trendStatistics';
+
+/**
+ * Tests pour l'analyse pluriannuelle (analyzeTrends + trendStatistics)
+ *
+ * Objectif: regression sur toutes les annees plutot que premiere/derniere,
+ * TCAM, volatilite, inflexions et ratios de chaque exercice
+ */
+
+const sig = (ca: number, ebe: number, rn: number) => ({
+  chiffre_affaires: { valeur: ca, pct_ca: 100 },
+  marge_commerciale: { valeur: ca * 0.4 },
+  valeur_ajoutee: { valeur: ca * 0.35 },
+  ebe: { valeur: ebe },
+  resultat_net: { valeur: rn }
+});
+
+describe('trendStatistics', () => {
+  it('calcule pente et R² par moindres carres', () => {
+    const trend = linearRegression([
+      { year: 2021, value: 100 },
+      { year: 2022, value: 110 },
+      { year: 2023, value: 120 }
+    ]);
+
+    expect(trend.pente).toBeCloseTo(10);
+    expect(trend.r2).toBeCloseTo(1);
+  });
+
+  it('calcule le TCAM et refuse une base negative', () => {
+    expect(calculateCagr(100, 121, 2)).toBeCloseTo(10);
+    expect(calculateCagr(-50, 100, 2)).toBeNull();
+  });
+
+  it('detecte un creux isole et ignore les variations faibles', () => {
+    const creux = detectInflections([
+      { year: 2019, value: 500 },
+      { year: 2020, value: 350 },
+      { year: 2021, value: 520 }
+    ]);
+    expect(creux).toEqual([
+      { annee: 2020, type: 'baisse_puis_hausse', variation_avant_pct: -30, variation_apres_pct: 48.6 }
+    ]);
+
+    expect(detectInflections([
+      { year: 2021, value: 100 },
+      { year: 2022, value: 101 },
+      { year: 2023, value: 100 }
+    ])).toEqual([]);
+  });
+
+  it('rejoint la variation premiere/derniere annee sur deux exercices', () => {
+    const trend = analyzeSeries([{ year: 2022, value: 200 }, { year: 2023, value: 180 }]);
+    expect(trend.evolution_tendancielle_pct).toBe(-10);
+    expect(trend.r2).toBe(1);
+  });
+});
+
+describe('computeTrends', () => {
+  it('ne se laisse pas tromper par un creux COVID', () => {
+    // CA stable puis creux 2020, EBE en baisse tendancielle malgre une derniere annee proche de la premiere
+    const result = computeTrends({
+      '2019': sig(500000, 80000, 40000),
+      '2020': sig(350000, 20000, -5000),
+      '2021': sig(480000, 60000, 25000),
+      '2022': sig(470000, 50000, 20000),
+      '2023': sig(500000, 78000, 38000)
+    } as any);
+    const { evolution } = result;
+
+    // Premiere/derniere annee : stabilite apparente
+    expect(evolution.ca_evolution_pct).toBe(0);
+    expect(evolution.ebe_evolution_pct).toBe(-2.5);
+
+    expect(evolution.indicateurs!.chiffre_affaires.cagr_pct).toBe(0);
+    expect(evolution.indicateurs!.chiffre_affaires.r2).toBeLessThan(0.5);
+    expect(evolution.ebe_volatilite_pct).toBeGreaterThan(30);
+    expect(evolution.inflexions!.filter(i => i.indicateur === 'chiffre_affaires').map(i => i.annee)).toEqual([2020]);
+    expect(evolution.commentaire).toContain('Trajectoire irrégulière');
+
+    // Ratios de chaque exercice
+    expect(evolution.ratios_historique!.map(r => r.year)).toEqual([2019, 2020, 2021, 2022, 2023]);
+    expect(evolution.ratios_historique![1].ratios.marge_ebe_pct).toBe(5.7);
+    expect(result.yearlyGrowth).toHaveLength(4);
+  });
+
+  it('determine la tendance sur la droite de regression', () => {
+    const { evolution } = computeTrends({
+      '2021': sig(400000, 60000, 30000),
+      '2022': sig(440000, 66000, 33000),
+      '2023': sig(480000, 72000, 36000)
+    } as any);
+
+    expect(evolution.tendance).toBe('croissance');
+    expect(evolution.indicateurs!.chiffre_affaires.pente_annuelle).toBe(40000);
+    expect(evolution.inflexions).toEqual([]);
+  });
+
+  it('signale une seule annee disponible', () => {
+    const { evolution } = computeTrends({ '2023': sig(400000, 60000, 30000) } as any);
+    expect(evolution.tendance).toBe('stable');
+    expect(evolution.commentaire).toContain('Une seule année');
+  });
+});
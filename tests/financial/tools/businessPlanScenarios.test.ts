@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import {
+  computeBusinessPlan,
+  compareScenarios,
+  scenariosParDefaut,
+  type BusinessPlanData
+} from '../../../server/adk/financial/tools/planning/businessPlanDynamiqueTool';
+
+/**
+ * Tests pour la comparaison de scénarios du business plan
+ *
+ * Objectif: chaque scénario applique ses surcharges sur les hypothèses de base,
+ * et le tableau comparatif est ordonné pessimiste < central < optimiste
+ */
+
+const data: BusinessPlanData = {
+  comptable: {
+    yearsAnalyzed: [2024],
+    sig: {
+      '2024': {
+        chiffre_affaires: { valeur: 400000 },
+        ebe: { valeur: 60000 },
+        salaires_personnel: { valeur: 60000 },
+        charges_sociales_personnel: { valeur: 20000 },
+        autres_achats_charges_externes: { valeur: 50000 }
+      }
+    }
+  },
+  valorisation: null,
+  immobilier: null,
+  userComments: null,
+  businessInfo: { secteurActivite: '56.10' }
+};
+
+const base = { prixAchat: 200000, apportPersonnel: 60000 };
+
+describe('computeBusinessPlan', () => {
+  it('prend en compte un impact horaires nul', () => {
+    const avecHoraires = computeBusinessPlan(base, data).result;
+    const sansHoraires = computeBusinessPlan({ ...base, extensionHoraires: { impactEstime: 0 } }, data).result;
+
+    // Fallback sans détail boutique: CA année 1 = 400k × (1 + horaires + travaux 10%)
+    expect(avecHoraires.projections[1].ca).toBe(480000);
+    expect(sansHoraires.projections[1].ca).toBe(440000);
+  });
+});
+
+describe('compareScenarios', () => {
+  it('calcule les scénarios standards et personnalisés', () => {
+    const { comparaison, synthese } = compareScenarios(base, data, [
+      ...scenariosParDefaut(computeBusinessPlan(base, data).resolved),
+      { nom: 'Apport renforcé', hypotheses: { apportPersonnel: 120000 } }
+    ]);
+
+    expect(comparaison.map(c => c.nom)).toEqual(['Pessimiste', 'Central', 'Optimiste', 'Apport renforcé']);
+
+    const [pessimiste, central, optimiste] = comparaison;
+    expect(pessimiste.ebe_annee1).toBeLessThan(central.ebe_annee1);
+    expect(central.ebe_annee1).toBeLessThan(optimiste.ebe_annee1);
+    expect(pessimiste.indicateursBancaires.ratioCouvertureDette)
+      .toBeLessThan(optimiste.indicateursBancaires.ratioCouvertureDette);
+
+    // Le scénario central reprend les hypothèses de base
+    expect(central.ca_annee1).toBe(computeBusinessPlan(base, data).result.projections[1].ca);
+    expect(central.reste_apres_dette_cumule).toBe(
+      central.projections.slice(1).reduce((sum: number, p: any) => sum + p.reste_apres_dette, 0)
+    );
+    expect(synthese).toContain('"Pessimiste"');
+  });
+
+  it('reste ordonne quand les leviers du repreneur sont sous les valeurs pessimistes usuelles', () => {
+    const prudent = {
+      ...base,
+      extensionHoraires: { impactEstime: 0.02 },
+      travaux: { impactAnnee2: 0.02, impactRecurrent: 0 }
+    };
+    const { comparaison } = compareScenarios(prudent, data, scenariosParDefaut(computeBusinessPlan(prudent, data).resolved));
+    const [pessimiste, central, optimiste] = comparaison;
+
+    expect(pessimiste.hypotheses.travaux).toMatchObject({ impactAnnee2: 0.01, impactRecurrent: 0 });
+    expect(pessimiste.ebe_annee1).toBeLessThan(central.ebe_annee1);
+    expect(pessimiste.reste_apres_dette_cumule).toBeLessThan(central.reste_apres_dette_cumule);
+    expect(central.ca_annee1).toBe(computeBusinessPlan(prudent, data).result.projections[1].ca);
+    expect(optimiste.ebe_annee1).toBeGreaterThan(central.ebe_annee1);
+  });
+
+  it('degrade aussi un levier negatif dans le scenario pessimiste', () => {
+    const declin = { ...base, travaux: { impactAnnee2: 0, impactRecurrent: -0.02 } };
+    const [pessimiste, , optimiste] = scenariosParDefaut(computeBusinessPlan(declin, data).resolved);
+
+    expect(pessimiste.hypotheses.travaux?.impactRecurrent).toBe(-0.03);
+    expect(optimiste.hypotheses.travaux?.impactRecurrent).toBe(-0.01);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { computeDcf } from '../../../server/adk/financial/tools/valuation/calculateDcfValuationTool';
+
+/**
+ * Tests pour la méthode DCF (actualisation des flux du business plan)
+ *
+ * Objectif: flux disponibles, actualisation et valeur terminale de Gordon
+ * vérifiables à la main
+ */
+
+const params = {
+  tauxActualisation: 10,
+  croissanceTerminale: 0,
+  tauxImpot: 25,
+  investissementsMaintienPctCa: 0
+};
+
+describe('computeDcf', () => {
+  it('actualise les flux et ajoute la valeur terminale', () => {
+    const result = computeDcf([
+      { annee: 1, ca: 500000, ebe_normatif: 100000 },
+      { annee: 2, ca: 500000, ebe_normatif: 100000 }
+    ], params);
+
+    // Flux = 100 000 - 25% d'impôt = 75 000
+    expect(result.flux.map(f => f.flux_disponible)).toEqual([75000, 75000]);
+    expect(result.flux.map(f => f.flux_actualise)).toEqual([68182, 61983]);
+    // VT = 75 000 / 10% = 750 000, actualisée sur 2 ans
+    expect(result.valeur_terminale).toBe(750000);
+    expect(result.valeur_terminale_actualisee).toBe(619835);
+    expect(result.valeur).toBe(68182 + 61983 + 619835);
+  });
+
+  it('déduit les investissements de maintien du flux et de la base imposable', () => {
+    const result = computeDcf(
+      [{ annee: 1, ca: 400000, ebe_normatif: 80000 }],
+      { ...params, investissementsMaintienPctCa: 2.5 }
+    );
+
+    expect(result.flux[0]).toMatchObject({ investissements: 10000, impot: 17500, flux_disponible: 52500 });
+  });
+
+  it('refuse un taux d\'actualisation inférieur à la croissance terminale', () => {
+    expect(() => computeDcf(
+      [{ annee: 1, ca: 100000, ebe_normatif: 20000 }],
+      { ...params, tauxActualisation: 2, croissanceTerminale: 2 }
+    )).toThrow();
+  });
+});
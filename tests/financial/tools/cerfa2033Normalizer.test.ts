@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import {
+  normalizeCerfa2033,
+  detectRegimeFiscal
+} from '../../../server/adk/financial/tools/document/cerfa2033Normalizer';
+import { computeSig } from '../../../server/adk/financial/tools/accounting/sigEngine';
+
+/**
+ * Tests pour la normalisation de la liasse simplifiée (Cerfa 2033-A / 2033-B)
+ *
+ * Objectif: une liasse 2033 produit la même structure interne qu'une liasse 2050,
+ * avec des totaux cohérents et des SIG recalculables
+ */
+
+// [code, montant] tels que lus sur le formulaire
+const LIASSE_2033: Array<[string, number]> = [
+  // 2033-A Actif (brut / amortissements)
+  ['010', 50000], ['028', 30000], ['030', 12000], ['044', 80000], ['048', 12000],
+  ['060', 15000], ['068', 5000], ['084', 20000], ['110', 120000], ['112', 12000],
+  // 2033-A Passif
+  ['120', 10000], ['134', 5000], ['136', 18000], ['142', 33000],
+  ['156', 50000], ['166', 15000], ['172', 10000], ['176', 75000], ['180', 108000],
+  // 2033-B
+  ['210', 120000], ['218', 80000], ['232', 200000],
+  ['234', 85000], ['236', -5000], ['242', 30000], ['244', 4000], ['250', 40000], ['252', 15000],
+  ['254', 6000], ['262', 1000], ['264', 176000], ['270', 24000],
+  ['280', 500], ['294', 2500], ['300', 1000], ['306', 3000], ['310', 18000]
+];
+
+const lignes = LIASSE_2033.map(([code, montant]) => ({ code, montant }));
+
+describe('Cerfa 2033 normalizer', () => {
+  it('détecte le régime de la liasse', () => {
+    expect(detectRegimeFiscal('DGFiP N° 2033-A-SD 2024 BILAN SIMPLIFIÉ')).toBe('simplifie');
+    expect(detectRegimeFiscal('DGFiP N° 2050-SD 2024 BILAN - ACTIF')).toBe('reel_normal');
+    expect(detectRegimeFiscal('Soldes intermédiaires de gestion')).toBeNull();
+  });
+
+  it('normalise le bilan simplifié dans la structure du réel normal', () => {
+    const { bilan_actif, bilan_passif, controles } = normalizeCerfa2033(lignes);
+
+    expect(bilan_actif.fonds_commercial).toEqual({ brut: 50000, amort: 0, net: 50000 });
+    expect(bilan_actif.autres_immob_corp).toEqual({ brut: 30000, amort: 12000, net: 18000 });
+    expect(bilan_actif.total_actif_immobilise).toEqual({ brut: 80000, amort: 12000, net: 68000 });
+    expect(bilan_actif.stocks_marchandises).toBe(15000);
+    expect(bilan_actif.total_general_actif).toBe(108000);
+
+    expect(bilan_passif.total_capitaux_propres).toBe(33000);
+    expect(bilan_passif.emprunts_etablissements_credit).toBe(50000);
+    expect(bilan_passif.total_dettes).toBe(75000);
+    expect(bilan_passif.total_general_passif).toBe(108000);
+
+    expect(controles.lignes_non_mappees).toEqual([]);
+    expect(controles.ecarts_totaux).toEqual([]);
+  });
+
+  it('produit un compte de résultat dont les SIG sont recalculables', () => {
+    const { compte_resultat } = normalizeCerfa2033(lignes);
+
+    expect(compte_resultat.chiffre_affaires_net).toBe(200000);
+    expect(compte_resultat.resultat_exploitation).toBe(24000);
+    expect(compte_resultat.resultat_net).toBe(18000);
+
+    const sig = computeSig(compte_resultat);
+    expect(sig.marge_commerciale.valeur).toBe(40000);
+    expect(sig.ebe).toEqual({ valeur: 31000, pct_ca: 15.5 });
+    expect(sig.resultat_net.valeur).toBe(18000);
+  });
+
+  it('signale un total déclaré divergent et les lignes inconnues', () => {
+    const { controles } = normalizeCerfa2033([
+      ...lignes.filter(l => l.code !== '310'),
+      { code: '310', montant: 21000 },
+      { code: '999', montant: 10 }
+    ]);
+
+    expect(controles.ecarts_totaux).toEqual([
+      { code: '310', poste: 'resultat_net', declare: 21000, recalcule: 18000 }
+    ]);
+    expect(controles.lignes_non_mappees).toEqual(['999']);
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  addComparables,
+  loadComparables,
+  filterComparables,
+  computeComparablesStats,
+  computeStatsBySector,
+  departementFromCodePostal,
+  toBodaccCession,
+  type BodaccCession
+} from '../../../server/adk/financial/tools/valuation/comparablesStore';
+
+/**
+ * Tests pour la base des cessions BODACC (méthode des comparables)
+ *
+ * Objectif: filtrage secteur/zone/période et statistiques de prix vérifiables à la main
+ */
+
+const cession = (id: string, prix: number, overrides: Partial<BodaccCession> = {}): BodaccCession => ({
+  id,
+  date: '2025-06-01',
+  prix,
+  nafCode: '56.10A',
+  commune: 'Lyon',
+  codePostal: '69003',
+  departement: '69',
+  ...overrides
+});
+
+const cessions: BodaccCession[] = [
+  cession('a', 100000),
+  cession('b', 200000),
+  cession('c', 300000, { codePostal: '69100', commune: 'Villeurbanne' }),
+  cession('d', 400000, { date: '2021-01-15' }),
+  cession('e', 150000, { nafCode: '47.26Z', departement: '75', codePostal: '75011', commune: 'Paris' })
+];
+
+describe('departementFromCodePostal', () => {
+  it('gère la métropole, la Corse et les DOM', () => {
+    expect(departementFromCodePostal('69003')).toBe('69');
+    expect(departementFromCodePostal('20000')).toBe('2A');
+    expect(departementFromCodePostal('20200')).toBe('2B');
+    expect(departementFromCodePostal('97400')).toBe('974');
+    expect(departementFromCodePostal('')).toBe('');
+  });
+});
+
+describe('toBodaccCession', () => {
+  it('convertit un enregistrement du frontend et rejette les montants absents', () => {
+    const context = { nafCode: '56.10A', commune: 'Lyon', codePostal: '69003' };
+
+    expect(toBodaccCession({ id: 'x1', date: '2025-02-03T00:00:00', amount: 185000.4 }, context)).toEqual({
+      id: 'x1',
+      date: '2025-02-03',
+      prix: 185000,
+      nafCode: '56.10A',
+      commune: 'Lyon',
+      codePostal: '69003',
+      departement: '69'
+    });
+    expect(toBodaccCession({ id: 'x2', date: '2025-02-03', amount: 0 }, context)).toBeNull();
+  });
+});
+
+describe('filterComparables', () => {
+  const reference = new Date('2025-12-31');
+
+  it('filtre par classe NAF, zone et ancienneté', () => {
+    const commune = filterComparables(cessions, { nafCode: '56.10', codePostal: '69003', periodeMois: 36, reference });
+    expect(commune.map(c => c.id)).toEqual(['a', 'b']);
+
+    const departement = filterComparables(cessions, { nafCode: '56.10A', departement: '69', periodeMois: 36, reference });
+    expect(departement.map(c => c.id)).toEqual(['a', 'b', 'c']);
+
+    const sansPeriode = filterComparables(cessions, { nafCode: '56.10A', reference });
+    expect(sansPeriode).toHaveLength(4);
+  });
+});
+
+describe('computeComparablesStats', () => {
+  it('calcule min, quartiles, médiane et moyenne', () => {
+    expect(computeComparablesStats(cessions.slice(0, 4))).toEqual({
+      nb_transactions: 4,
+      prix_min: 100000,
+      prix_p25: 175000,
+      prix_median: 250000,
+      prix_p75: 325000,
+      prix_max: 400000,
+      prix_moyen: 250000
+    });
+    expect(computeComparablesStats([])).toBeNull();
+  });
+
+  it('regroupe les statistiques par secteur', () => {
+    const stats = computeStatsBySector(cessions);
+    expect(Object.keys(stats).sort()).toEqual(['47.26', '56.10']);
+    expect(stats['47.26'].prix_median).toBe(150000);
+  });
+});
+
+describe('addComparables', () => {
+  it('ne perd aucune cession lors d\'ajouts concurrents', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'comparables-'));
+    const file = path.join(dir, 'bodacc-comparables.json');
+
+    try {
+      const lots = Array.from({ length: 10 }, (_, i) => [cession(`lot${i}-a`, 100000 + i), cession(`lot${i}-b`, 200000 + i)]);
+      const results = await Promise.all(lots.map(lot => addComparables(lot, file)));
+
+      expect(results.map(r => r.ajoutees)).toEqual(lots.map(() => 2));
+      expect(results.map(r => r.total).sort((a, b) => a - b)).toEqual(lots.map((_, i) => 2 * (i + 1)));
+      expect(await loadComparables(file)).toHaveLength(20);
+      expect(await fs.readdir(dir)).toEqual(['bodacc-comparables.json']);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseFec,
+  aggregateFecBalances,
+  buildComptaFromFec,
+  detectFecDocument,
+  parseFecAmount
+} from '../../../server/adk/financial/tools/document/fecParser';
+
+/**
+ * Tests pour l'import FEC (Fichier des Écritures Comptables)
+ *
+ * Objectif: un FEC équilibré produit une liasse équilibrée
+ * et les mêmes SIG qu'un calcul manuel
+ */
+
+const HEADER = [
+  'JournalCode', 'JournalLib', 'EcritureNum', 'EcritureDate', 'CompteNum', 'CompteLib',
+  'CompAuxNum', 'CompAuxLib', 'PieceRef', 'PieceDate', 'EcritureLib', 'Debit', 'Credit',
+  'EcritureLet', 'DateLet', 'ValidDate', 'Montantdevise', 'Idevise'
+];
+
+// [journal, num, date, compte, debit, credit]
+const ECRITURES: Array<[string, string, string, string, string, string]> = [
+  ['AN', '1', '20230101', '101000', '', '10000,00'],
+  ['AN', '1', '20230101', '512000', '10000,00', ''],
+  ['HA', '2', '20230315', '607000', '40000,00', ''],
+  ['HA', '2', '20230315', '401000', '', '40000,00'],
+  ['BQ', '3', '20230415', '401000', '40000,00', ''],
+  ['BQ', '3', '20230415', '512000', '', '40000,00'],
+  ['VE', '4', '20230630', '411000', '100000,00', ''],
+  ['VE', '4', '20230630', '707000', '', '100000,00'],
+  ['BQ', '5', '20230715', '512000', '90000,00', ''],
+  ['BQ', '5', '20230715', '411000', '', '90000,00'],
+  ['BQ', '6', '20230801', '613200', '12000,00', ''],
+  ['BQ', '6', '20230801', '512000', '', '12000,00'],
+  ['OD', '7', '20231130', '641000', '20000,00', ''],
+  ['OD', '7', '20231130', '645000', '8000,00', ''],
+  ['OD', '7', '20231130', '421000', '', '28000,00'],
+  ['BQ', '8', '20231130', '421000', '28000,00', ''],
+  ['BQ', '8', '20231130', '512000', '', '28000,00'],
+  ['OD', '9', '20231231', '644000', '15000,00', ''],
+  ['OD', '9', '20231231', '455000', '', '15000,00'],
+  ['OD', '10', '20230201', '215400', '20000,00', ''],
+  ['OD', '10', '20230201', '164000', '', '20000,00'],
+  ['OD', '11', '20231231', '681120', '2000,00', ''],
+  ['OD', '11', '20231231', '281540', '', '2000,00'],
+  ['OD', '12', '20231231', '370000', '5000,00', ''],
+  ['OD', '12', '20231231', '603700', '', '5000,00']
+];
+
+const buildFec = (separator: string) => [
+  HEADER.join(separator),
+  ...ECRITURES.map(([journal, num, date, compte, debit, credit]) =>
+    [journal, journal, num, date, compte, `Compte ${compte}`, '', '', num, date, 'Libellé', debit, credit, '', '', date, '', ''].join(separator)
+  )
+].join('\r\n');
+
+describe('FEC parser', () => {
+  it('détecte un FEC par nom de fichier légal ou par en-tête', () => {
+    expect(detectFecDocument('123456789FEC20231231.txt')).toBe(true);
+    expect(detectFecDocument('export.txt', buildFec('|'))).toBe(true);
+    expect(detectFecDocument('COMPTA2023.pdf', '%PDF-1.7')).toBe(false);
+  });
+
+  it('parse les montants au format FEC', () => {
+    expect(parseFecAmount('1 234,56')).toBe(1234.56);
+    expect(parseFecAmount('')).toBe(0);
+  });
+
+  it('parse tabulation et pipe de façon identique', () => {
+    const tab = parseFec(buildFec('\t'), '123456789FEC20231231.txt');
+    const pipe = parseFec(buildFec('|'));
+
+    expect(tab.entries).toHaveLength(ECRITURES.length);
+    expect(pipe.entries).toEqual(tab.entries);
+    expect(tab.dateCloture).toBe('20231231');
+    expect(tab.separator).toBe('\t');
+  });
+
+  it('rejette un fichier sans en-tête FEC', () => {
+    expect(() => parseFec('a;b;c\n1;2;3')).toThrow(/En-tête FEC invalide/);
+  });
+
+  it('construit une liasse équilibrée et des SIG cohérents', () => {
+    const { entries } = parseFec(buildFec('\t'));
+    const { bilan_actif, bilan_passif, compte_resultat, sig, controles } = buildComptaFromFec(aggregateFecBalances(entries));
+
+    // Compte de résultat
+    expect(compte_resultat.ventes_marchandises).toBe(100000);
+    expect(compte_resultat.variation_stock_marchandises).toBe(-5000);
+    expect(compte_resultat.resultat_net).toBe(8000);
+
+    // SIG
+    expect(sig.marge_commerciale).toEqual({ valeur: 65000, pct_ca: 65 });
+    expect(sig.valeur_ajoutee.valeur).toBe(53000);
+    expect(sig.ebe.valeur).toBe(10000);
+    expect(sig.salaires_personnel.valeur).toBe(20000);
+    expect(sig.charges_exploitant.valeur).toBe(15000);
+    expect(sig.resultat_exploitation.valeur).toBe(8000);
+
+    // Bilan
+    expect(bilan_actif.installations_techniques).toEqual({ brut: 20000, amort: 2000, net: 18000 });
+    expect(bilan_actif.stocks_marchandises).toBe(5000);
+    expect(bilan_actif.creances_clients).toBe(10000);
+    expect(bilan_actif.disponibilites).toBe(20000);
+    expect(bilan_passif.resultat_exercice).toBe(8000);
+    expect(bilan_passif.emprunts_etablissements_credit).toBe(20000);
+    expect(bilan_passif.total_general_passif).toBe(53000);
+
+    expect(controles.ecart_actif_passif).toBe(0);
+    expect(controles.total_debit).toBe(controles.total_credit);
+    expect(controles.comptes_non_mappes).toEqual([]);
+  });
+});
@@ -111,6 +111,19 @@ describe('Deterministic Alerts System', () => {
       const uniqueIds = new Set(ids);
       expect(uniqueIds.size).toBe(ids.length);
     });
+
+    it('should read SIG values stored as { valeur, pct_ca }', () => {
+      const context = createMockContext();
+      const sigValeur = Object.fromEntries(Object.entries(context.comptable!.sig!).map(([year, sig]) => [
+        year,
+        Object.fromEntries(Object.entries(sig).map(([field, value]) => [field, { valeur: value as number, pct_ca: 0 }]))
+      ]));
+      const contextValeur = createMockContext({ comptable: { ...context.comptable!, sig: sigValeur } });
+
+      const ids = evaluateRules(context).map(a => a.id);
+      expect(evaluateRules(contextValeur).map(a => a.id)).toEqual(ids);
+      expect(ids).not.toContain('DATA_002');
+    });
   });
 
   describe('Reproducibility', () => {
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import { buildLeaseCalendar, leaseCalendarToICalendar } from '../../../server/adk/financial/tools/property/leaseCalendar';
+import { ALERT_RULES } from '../../../server/adk/financial/config/alertRules';
+
+/**
+ * Tests pour le calendrier du bail (leaseCalendar + alertes IMMO_005/IMMO_006)
+ *
+ * Objectif: echeances triennales et preavis, tacite prolongation, conversion
+ * d'un bail derogatoire et export iCalendar
+ */
+
+describe('buildLeaseCalendar', () => {
+  const bail369 = buildLeaseCalendar({
+    dateEffet: '01/02/2020',
+    dateReference: new Date(2024, 5, 15)
+  });
+
+  it('calcule les echeances triennales et les dates limites de conge', () => {
+    const dates = (type: string) => bail369.evenements.filter(e => e.type === type).map(e => e.date);
+
+    expect(bail369.date_fin).toBe('2029-02-01');
+    expect(dates('echeance_triennale')).toEqual(['2023-02-01', '2026-02-01']);
+    expect(dates('preavis_triennal')).toEqual(['2022-08-01', '2025-08-01']);
+    expect(dates('horizon_deplafonnement')).toEqual(['2032-02-01']);
+    expect(bail369.fenetre_renouvellement).toEqual({ debut: '2028-08-01', fin: '2029-02-01' });
+
+    expect(bail369.duree_restante_mois).toBe(55);
+    expect(bail369.prochain_evenement).toMatchObject({ date: '2025-08-01', type: 'preavis_triennal', passe: false });
+    expect(bail369.prochaine_sortie_triennale).toEqual({ date: '2026-02-01', preavis_avant: '2025-08-01' });
+  });
+
+  it('gere la tacite prolongation (conge pour la fin d\'un trimestre civil)', () => {
+    const calendar = buildLeaseCalendar({
+      dateEffet: '2012-07-01',
+      dateFin: '2021-07-01',
+      dateReference: new Date(2024, 8, 10)
+    });
+
+    expect(calendar.en_tacite_prolongation).toBe(true);
+    expect(calendar.duree_restante_mois).toBe(0);
+    expect(calendar.fenetre_renouvellement).toEqual({ debut: '2021-01-01', fin: null });
+    expect(calendar.evenements.find(e => e.type === 'fenetre_renouvellement')?.passe).toBe(false);
+
+    const sortie = calendar.evenements.find(e => e.titre.startsWith('Première sortie'));
+    expect(sortie).toMatchObject({ date: '2025-03-31', type: 'preavis_conge' });
+  });
+
+  it('compte les jours avant la conversion d\'un bail derogatoire', () => {
+    const calendar = buildLeaseCalendar({
+      dateEffet: '2022-03-01',
+      dateFin: '2026-03-01',
+      typeBail: 'derogatoire',
+      dateReference: new Date(2024, 11, 1)
+    });
+
+    // Terme ramené à 3 ans, conversion un mois après
+    expect(calendar.evenements.find(e => e.type === 'fin_derogatoire')?.date).toBe('2025-03-01');
+    expect(calendar.evenements.find(e => e.type === 'conversion_derogatoire')?.date).toBe('2025-04-01');
+    expect(calendar.derogatoire_jours_avant_conversion).toBe(121);
+    expect(calendar.evenements.some(e => e.type === 'echeance_triennale')).toBe(false);
+  });
+
+  it('refuse une date d\'effet invalide', () => {
+    expect(() => buildLeaseCalendar({ dateEffet: '' })).toThrow(/Date d'effet du bail invalide/);
+  });
+});
+
+describe('leaseCalendarToICalendar', () => {
+  const calendar = buildLeaseCalendar({ dateEffet: '2020-02-01', dateReference: new Date(2024, 5, 15) });
+  const ics = leaseCalendarToICalendar(calendar, {
+    siret: '12345678900012',
+    nomCommerce: 'Tabac de la Gare',
+    horodatage: new Date(Date.UTC(2024, 5, 15, 8, 30))
+  });
+  const lines = ics.split('\r\n');
+
+  it('produit un VCALENDAR RFC 5545 limite aux evenements a venir', () => {
+    expect(lines[0]).toBe('BEGIN:VCALENDAR');
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(lines.every(line => Buffer.byteLength(line, 'utf-8') <= 75)).toBe(true);
+
+    expect(ics).not.toContain('DTSTART;VALUE=DATE:20230201');
+    expect(ics).toContain('UID:echeance_triennale-20260201-12345678900012@searchcommerce');
+    expect(ics).toContain('DTSTAMP:20240615T083000Z');
+    // Fenêtre de renouvellement : DTEND exclusif le lendemain du terme
+    expect(lines).toContain('DTEND;VALUE=DATE:20290202');
+  });
+
+  it('ajoute un rappel 30 jours avant chaque date limite de conge', () => {
+    expect(lines.filter(line => line === 'TRIGGER:-P30D')).toHaveLength(2);
+  });
+});
+
+describe('Alertes IMMO_005 / IMMO_006', () => {
+  const rule = (id: string) => ALERT_RULES.find(r => r.id === id)!;
+
+  it('signale un bail de moins de 3 ans et un derogatoire proche de la conversion', () => {
+    const derogatoire = buildLeaseCalendar({
+      dateEffet: '2022-03-01',
+      typeBail: 'derogatoire',
+      dateReference: new Date(2024, 11, 1)
+    });
+    const ctx: any = { calendrierBail: derogatoire };
+
+    expect(rule('IMMO_005').condition(ctx)).toBe(true);
+    expect(rule('IMMO_005').messageTemplate(rule('IMMO_005').extractValues(ctx))).toBe('Bail a echeance le 2025-03-01 (3 mois restants)');
+    expect(rule('IMMO_006').condition(ctx)).toBe(true);
+    expect(rule('IMMO_006').messageTemplate(rule('IMMO_006').extractValues(ctx))).toContain('dans 121 jours');
+  });
+
+  it('ne declenche rien sans calendrier ou avec un bail long', () => {
+    const long = buildLeaseCalendar({ dateEffet: '2020-02-01', dateReference: new Date(2024, 5, 15) });
+
+    expect(rule('IMMO_005').condition({ calendrierBail: long } as any)).toBe(false);
+    expect(rule('IMMO_006').condition({ calendrierBail: long } as any)).toBe(false);
+    expect(rule('IMMO_005').condition({} as any)).toBe(false);
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildLoans,
+  computeAmortizationSchedule,
+  aggregateDebtService,
+  FINANCING_DEFAULTS
+} from '../../../server/adk/financial/tools/planning/loanSchedule';
+import { computeBusinessPlan, type BusinessPlanData } from '../../../server/adk/financial/tools/planning/businessPlanDynamiqueTool';
+
+/**
+ * Tests pour les tableaux d'amortissement du montage financier
+ *
+ * Objectif: échéances vérifiables à la main (annuités constantes, différés, assurance,
+ * relais TVA in fine) et service de la dette annuel repris par le business plan
+ */
+
+const sommeCapital = (echeances: { amortissement: number }[]) =>
+  Math.round(echeances.reduce((sum, e) => sum + e.amortissement, 0));
+
+describe('computeAmortizationSchedule', () => {
+  it('amortit un prêt à annuités constantes', () => {
+    const tableau = computeAmortizationSchedule({
+      nom: 'Prêt', type: 'principal', montant: 120000, tauxAnnuel: 0, dureeMois: 12
+    });
+
+    expect(tableau.echeances).toHaveLength(12);
+    expect(tableau.mensualite).toBe(10000);
+    expect(tableau.echeances[11].capital_fin).toBe(0);
+    expect(tableau.total_interets).toBe(0);
+  });
+
+  it('applique un différé partiel puis total', () => {
+    const base = { nom: 'Prêt', type: 'principal' as const, montant: 100000, tauxAnnuel: 6, dureeMois: 24, differeMois: 6 };
+
+    const partiel = computeAmortizationSchedule({ ...base, typeDiffere: 'partiel' });
+    expect(partiel.echeances[0]).toMatchObject({ interets: 500, amortissement: 0, echeance: 500, capital_fin: 100000, differe: true });
+    expect(sommeCapital(partiel.echeances)).toBe(100000);
+
+    // Différé total : intérêts capitalisés, aucune échéance pendant 6 mois
+    const total = computeAmortizationSchedule({ ...base, typeDiffere: 'total' });
+    expect(total.echeances[0].echeance).toBe(0);
+    expect(total.echeances[5].capital_fin).toBeCloseTo(100000 * Math.pow(1.005, 6), 0);
+    expect(total.total_interets).toBeGreaterThan(partiel.total_interets);
+    expect(total.echeances[23].capital_fin).toBe(0);
+  });
+
+  it('calcule l\'assurance sur le capital initial ou restant dû', () => {
+    const base = { nom: 'Prêt', type: 'principal' as const, montant: 120000, tauxAnnuel: 4, dureeMois: 60, tauxAssurance: 0.36 };
+
+    const initial = computeAmortizationSchedule({ ...base, baseAssurance: 'capital_initial' });
+    const restantDu = computeAmortizationSchedule({ ...base, baseAssurance: 'capital_restant_du' });
+
+    expect(initial.echeances[0].assurance).toBe(36);
+    expect(initial.echeances[59].assurance).toBe(36);
+    expect(initial.total_assurance).toBe(2160);
+    expect(restantDu.echeances[0].assurance).toBe(36);
+    expect(restantDu.total_assurance).toBeLessThan(initial.total_assurance);
+  });
+});
+
+describe('aggregateDebtService', () => {
+  it('sépare le remboursement du relais TVA du service de la dette', () => {
+    const prets = buildLoans({
+      montantPrincipal: 150000,
+      tauxAnnuel: 4.5,
+      dureeMois: 84,
+      relaisTva: { montant: 20000 },
+      creditVendeur: { montant: 30000 }
+    });
+    expect(prets.map(p => p.type)).toEqual(['principal', 'relais_tva', 'credit_vendeur']);
+    expect(prets[2]).toMatchObject({ tauxAnnuel: FINANCING_DEFAULTS.CREDIT_VENDEUR_TAUX, dureeMois: 24 });
+
+    const tableaux = prets.map(computeAmortizationSchedule);
+    const relais = tableaux[1];
+    expect(relais.echeances).toHaveLength(FINANCING_DEFAULTS.RELAIS_TVA_DUREE_MOIS);
+    expect(relais.echeances[5].amortissement).toBe(20000);
+
+    const service = aggregateDebtService(tableaux, 5);
+    expect(service[0].remboursement_relais_tva).toBe(20000);
+    expect(service[0].service_dette).toBe(service[0].total - 20000);
+
+    // Crédit vendeur soldé après 2 ans : service de la dette réduit en année 3
+    expect(service[2].service_dette).toBeLessThan(service[1].service_dette);
+    expect(service[4].capital_restant_fin).toBe(Math.round(tableaux[0].echeances[59].capital_fin));
+  });
+});
+
+describe('computeBusinessPlan (financement)', () => {
+  const data: BusinessPlanData = {
+    comptable: {
+      yearsAnalyzed: [2024],
+      sig: { '2024': { chiffre_affaires: { valeur: 400000 }, ebe: { valeur: 60000 } } }
+    },
+    valorisation: null,
+    immobilier: null,
+    userComments: null,
+    businessInfo: { secteurActivite: '56.10' }
+  };
+
+  it('reprend le montage du formulaire et le service de la dette par année', () => {
+    const { result } = computeBusinessPlan({ prixAchat: 200000 }, {
+      ...data,
+      userComments: {
+        transactionFinancing: {
+          initial: {
+            pret_principal: 140000,
+            credit_vendeur: 30000,
+            duree_annees: 7,
+            taux_interet: 4,
+            differe_mois: 12
+          }
+        }
+      }
+    });
+
+    const { financement, projections, indicateursBancaires } = result;
+    expect(financement.prets.map((p: any) => p.nom)).toEqual(['Prêt principal', 'Crédit vendeur']);
+    expect(indicateursBancaires.montantEmprunte).toBe(170000);
+
+    // Année 1 allégée par le différé, annuité de référence = année la plus lourde
+    expect(projections[1].annuite_emprunt).toBe(financement.service_annuel[0].service_dette);
+    expect(projections[1].annuite_emprunt).toBeLessThan(projections[2].annuite_emprunt);
+    expect(indicateursBancaires.annuiteEmprunt).toBe(
+      Math.max(...financement.service_annuel.map((s: any) => s.service_dette))
+    );
+  });
+
+  it('reporte sur le pret principal du montage un prix ou un apport surcharge par scenario', () => {
+    const avecMontage: BusinessPlanData = {
+      ...data,
+      userComments: {
+        transactionFinancing: {
+          initial: { prix_fonds: 200000, apport_personnel: 60000, pret_principal: 140000, credit_vendeur: 30000 }
+        }
+      }
+    };
+    const montantPrincipal = (hypotheses: any) => computeBusinessPlan(hypotheses, avecMontage).result
+      .financement.prets.find((p: any) => p.type === 'principal')?.montant ?? 0;
+
+    expect(montantPrincipal({ prixAchat: 200000, apportPersonnel: 60000 })).toBe(140000);
+    expect(montantPrincipal({ prixAchat: 200000, apportPersonnel: 120000 })).toBe(80000);
+    expect(montantPrincipal({ prixAchat: 180000 })).toBe(120000);
+    expect(montantPrincipal({ montantTravaux: 15000, subventionsEstimees: 5000 })).toBe(150000);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import {
+  simulateValuation,
+  computeVolatility,
+  type MonteCarloInputs
+} from '../../../server/adk/financial/tools/valuation/monteCarloValuation';
+
+/**
+ * Tests pour la simulation Monte Carlo de la valorisation
+ *
+ * Objectif: distribution reproductible, percentiles ordonnés et cohérents
+ * avec la fourchette déterministe, probabilité prix > valeur exploitable
+ */
+
+const inputs: MonteCarloInputs = {
+  ebe: { valeur: 100000, volatilite: 0.1, multiple: { bas: 2.5, median: 3, haut: 3.5 } },
+  ca: { valeur: 600000, volatilite: 0.05, pourcentage: { bas: 40, median: 50, haut: 60 } },
+  patrimoniale: 150000,
+  poids: { ebe: 0.7, ca: 0.2, patrimoniale: 0.1, dcf: 0 }
+};
+
+describe('computeVolatility', () => {
+  it('calcule le coefficient de variation de l\'historique', () => {
+    expect(computeVolatility([90000, 100000, 110000])).toBeCloseTo(0.1, 5);
+  });
+
+  it('applique un plancher et un défaut si l\'historique est insuffisant', () => {
+    expect(computeVolatility([100000, 100000, 100000])).toBe(0.05);
+    expect(computeVolatility([100000])).toBe(0.15);
+  });
+});
+
+describe('simulateValuation', () => {
+  it('est reproductible à graine égale', () => {
+    const a = simulateValuation(inputs, { iterations: 2000, seed: 7 });
+    const b = simulateValuation(inputs, { iterations: 2000, seed: 7 });
+    expect(a).toEqual(b);
+  });
+
+  it('produit des percentiles ordonnés centrés sur la médiane déterministe', () => {
+    const { percentiles, histogramme, iterations } = simulateValuation(inputs, { iterations: 5000 });
+
+    expect(percentiles.p10).toBeLessThan(percentiles.p25);
+    expect(percentiles.p25).toBeLessThan(percentiles.p50);
+    expect(percentiles.p50).toBeLessThan(percentiles.p75);
+    expect(percentiles.p75).toBeLessThan(percentiles.p90);
+
+    // Médiane déterministe: 100k × 3 × 0.7 + 600k × 50% × 0.2 + 150k × 0.1 = 285 000
+    expect(Math.abs(percentiles.p50 - 285000) / 285000).toBeLessThan(0.03);
+    expect(histogramme.reduce((sum, c) => sum + c.effectif, 0)).toBe(iterations);
+  });
+
+  it('estime la probabilité que le prix affiché dépasse la valeur', () => {
+    const sansPrix = simulateValuation(inputs, { iterations: 2000 });
+    const prixEleve = simulateValuation({ ...inputs, prixAffiche: 400000 }, { iterations: 2000 });
+    const prixBas = simulateValuation({ ...inputs, prixAffiche: 200000 }, { iterations: 2000 });
+
+    expect(sansPrix.probabilite_prix_superieur).toBeNull();
+    expect(prixEleve.probabilite_prix_superieur).toBeGreaterThan(95);
+    expect(prixBas.probabilite_prix_superieur).toBeLessThan(5);
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { parseStateValue, FinancialStateError } from '../../../server/adk/financial/state/readState';
+import { getSigValue } from '../../../server/adk/financial/schemas/financialStateSchema';
+
+/**
+ * Tests pour l'accès typé au state financier
+ *
+ * Objectif: un output mal formé produit une erreur structurée
+ * au lieu d'un NaN silencieux dans les tools
+ */
+
+describe('parseStateValue', () => {
+  it('retourne undefined si la clé est absente', () => {
+    expect(parseStateValue('comptable', undefined)).toBeUndefined();
+    expect(parseStateValue('comptable', '')).toBeUndefined();
+  });
+
+  it('parse un output stocké en JSON string', () => {
+    const comptable = parseStateValue('comptable', JSON.stringify({
+      yearsAnalyzed: [2024],
+      sig: { '2024': { chiffre_affaires: 500000, ebe: 80000 } }
+    }));
+
+    expect(comptable?.yearsAnalyzed).toEqual([2024]);
+    expect(getSigValue(comptable?.sig?.['2024'], 'ebe')).toBe(80000);
+  });
+
+  it('tolère un output entouré d\'un bloc markdown', () => {
+    const valorisation = parseStateValue('valorisation', '```json\n{"synthese":{"valeur_recommandee":250000}}\n```');
+    expect(valorisation?.synthese?.valeur_recommandee).toBe(250000);
+  });
+
+  it('accepte les deux formats de valeur SIG', () => {
+    const comptable = parseStateValue('comptable', {
+      sig: {
+        '2023': { ebe: 60000 },
+        '2024': { ebe: { valeur: 85000, pct_ca: 17 } }
+      }
+    });
+
+    expect(getSigValue(comptable?.sig?.['2023'], 'ebe')).toBe(60000);
+    expect(getSigValue(comptable?.sig?.['2024'], 'ebe')).toBe(85000);
+    expect(getSigValue(comptable?.sig?.['2024'], 'resultat_net')).toBe(0);
+  });
+
+  it('conserve les champs non déclarés (passthrough)', () => {
+    const valorisation = parseStateValue('valorisation', { synthese: { valeur_recommandee: 250000 }, custom: 'ok' });
+    expect((valorisation as any).custom).toBe('ok');
+  });
+
+  it('lève une FinancialStateError sur JSON invalide', () => {
+    expect(() => parseStateValue('comptable', '{not json')).toThrow(FinancialStateError);
+  });
+
+  it('lève une FinancialStateError structurée sur violation de schéma', () => {
+    try {
+      parseStateValue('comptable', { sig: { '2024': { ebe: 'beaucoup' } } });
+      expect.fail('should have thrown');
+    } catch (error) {
+      expect(error).toBeInstanceOf(FinancialStateError);
+      const toolError = (error as FinancialStateError).toToolError();
+      expect(toolError.stateError.key).toBe('comptable');
+      expect(toolError.stateError.issues[0].path).toBe('sig.2024.ebe');
+      expect(toolError.error).toContain('state.comptable');
+    }
+  });
+});
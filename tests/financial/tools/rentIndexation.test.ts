@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest';
+import {
+  RENT_INDICES,
+  detectRentIndexType,
+  getRentIndexValue,
+  parseRentIndices,
+  referenceQuarter
+} from '../../../server/adk/financial/config/rentIndices';
+import { projectRent } from '../../../server/adk/financial/tools/property/rentIndexation';
+import { parseLeaseDate } from '../../../server/adk/financial/tools/property/leaseDates';
+import { computeBusinessPlan, type BusinessPlanData } from '../../../server/adk/financial/tools/planning/businessPlanDynamiqueTool';
+
+/**
+ * Tests pour la projection du loyer (rent-indices.json + rentIndexation)
+ *
+ * Objectif: revision annuelle sur l'indice du bail, renouvellement plafonne ou
+ * deplafonne, risque de deplafonnement et loyers annuels dans le business plan
+ */
+
+describe('rent-indices.json', () => {
+  it('charge les trois indices et extrapole au-dela du dernier trimestre', () => {
+    expect(getRentIndexValue('ILC', '2023-T3')).toEqual({ valeur: 134.58, estimation: false });
+
+    const extrapole = getRentIndexValue('ILC', '2025-T4');
+    expect(extrapole.estimation).toBe(true);
+    expect(extrapole.valeur).toBeCloseTo(136.10 * 1.02, 1);
+  });
+
+  it('rejette une serie discontinue', () => {
+    const valeurs = { ...RENT_INDICES.indices.ICC.valeurs };
+    delete valeurs['2021-T2'];
+    const invalid = { ...RENT_INDICES, indices: { ...RENT_INDICES.indices, ICC: { ...RENT_INDICES.indices.ICC, valeurs } } };
+
+    expect(() => parseRentIndices(invalid, 'fixture.json')).toThrow(/ICC: série discontinue entre 2021-T1 et 2021-T3/);
+  });
+
+  it('deduit l\'indice de la clause et le trimestre de reference', () => {
+    expect(detectRentIndexType('ILC (Indice des Loyers Commerciaux)')).toBe('ILC');
+    expect(detectRentIndexType('Indice du coût de la construction')).toBe('ICC');
+    expect(detectRentIndexType('ILAT')).toBe('ILAT');
+    expect(detectRentIndexType(undefined)).toBe('ILC');
+
+    // Révision au 1er février 2024 : dernier indice publié = T3 2023
+    expect(referenceQuarter(new Date(2024, 1, 1))).toBe('2023-T3');
+  });
+});
+
+describe('projectRent', () => {
+  it('revise le loyer a chaque anniversaire et applique le bouclier 3,5 %', () => {
+    const projection = projectRent({
+      loyerAnnuel: 18000,
+      dateEffet: '01/02/2020',
+      indice: 'ILC',
+      dateReference: new Date(2022, 5, 1),
+      horizonAnnees: 4
+    });
+
+    expect(projection.annees.map(a => a.date_debut)).toEqual(['2022-02-01', '2023-02-01', '2024-02-01', '2025-02-01']);
+    // 2022-T3 / 2021-T3 = +7,4 % plafonné à 3,5 %
+    expect(projection.revisions[0]).toMatchObject({ trimestre_reference: '2022-T3', variation_pct: 3.5 });
+    expect(projection.revisions[0].plafonnement).toContain('Bouclier');
+    expect(projection.annees[1].loyer_plafonne).toBe(18630);
+    expect(projection.renouvellement).toMatchObject({ date: '2029-02-01', dans_horizon: false, risque_deplafonnement: 'faible' });
+    expect(projection.scenario_retenu).toBe('plafonne');
+  });
+
+  it('deplafonne un bail en tacite prolongation au-dela de 12 ans avec lissage', () => {
+    const projection = projectRent({
+      loyerAnnuel: 20000,
+      dateEffet: '2012-07-01',
+      dateFin: '2021-07-01',
+      indice: 'ILC',
+      valeurLocativeAnnuelle: 30000,
+      dateReference: new Date(2024, 8, 1)
+    });
+    const { renouvellement, annees } = projection;
+
+    expect(renouvellement).toMatchObject({ date: '2025-07-01', en_tacite_prolongation: true, risque_deplafonnement: 'eleve' });
+    expect(renouvellement.motifs[0]).toContain('plus de 12 ans');
+    expect(projection.scenario_retenu).toBe('deplafonne');
+
+    // Renouvellement en année 2 : hausse limitée à 10 % par an vers la valeur locative
+    expect(annees[1].renouvellement).toBe(true);
+    expect(annees[1].loyer_deplafonne).toBe(22000);
+    expect(annees[2].loyer_deplafonne).toBe(24200);
+    expect(annees[4].loyer_retenu).toBe(annees[4].loyer_deplafonne);
+    expect(annees[4].loyer_deplafonne).toBeGreaterThan(annees[4].loyer_plafonne);
+  });
+
+  it('signale un risque modere quand le loyer est loin de la valeur locative', () => {
+    const projection = projectRent({
+      loyerAnnuel: 12000,
+      dateEffet: '2021-03-01',
+      indice: 'ILAT',
+      valeurLocativeAnnuelle: 16000,
+      dateReference: new Date(2024, 0, 15)
+    });
+
+    expect(projection.renouvellement.risque_deplafonnement).toBe('modere');
+    expect(projection.renouvellement.ecart_valeur_locative_pct).toBe(33.3);
+    expect(projection.scenario_retenu).toBe('plafonne');
+  });
+
+  it('refuse une date d\'effet invalide', () => {
+    expect(parseLeaseDate('2020-13-01')).toBeNull();
+    expect(() => projectRent({ loyerAnnuel: 10000, dateEffet: 'bientot', indice: 'ILC' })).toThrow(/Date d'effet du bail invalide/);
+  });
+});
+
+describe('computeBusinessPlan (loyer indexe)', () => {
+  const data: BusinessPlanData = {
+    comptable: {
+      yearsAnalyzed: [2024],
+      sig: { '2024': { chiffre_affaires: { valeur: 400000 }, ebe: { valeur: 60000 } } }
+    },
+    valorisation: null,
+    immobilier: { bail: { loyer_annuel_hc: 20000 } },
+    userComments: null,
+    businessInfo: { secteurActivite: '56.10' }
+  };
+
+  it('applique les coefficients de la projection au loyer de chaque annee', () => {
+    const flat = computeBusinessPlan({ prixAchat: 200000 }, data, { silencieux: true }).result;
+    expect(flat.projections.slice(1).map((p: any) => p.charges_detail.loyer)).toEqual([20000, 20000, 20000, 20000, 20000]);
+
+    const { result } = computeBusinessPlan({ prixAchat: 200000 }, {
+      ...data,
+      projectionLoyer: {
+        disponible: true,
+        indice: 'ILC',
+        scenario_retenu: 'plafonne',
+        renouvellement: { risque_deplafonnement: 'faible' },
+        annees: [1, 1.02, 1.0404, 1.0612, 1.0824].map((coefficient, i) => ({ annee: i + 1, coefficient }))
+      }
+    }, { silencieux: true });
+
+    expect(result.projections.slice(1).map((p: any) => p.charges_detail.loyer)).toEqual([20000, 20400, 20808, 21224, 21648]);
+    expect(result.projections[5].charges_fixes - flat.projections[5].charges_fixes).toBe(1648);
+    expect(result.loyerIndexation).toMatchObject({ indice: 'ILC', coefficients: [1, 1.02, 1.0404, 1.0612, 1.0824] });
+  });
+});
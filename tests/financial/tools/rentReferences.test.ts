@@ -0,0 +1,122 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  RENT_REFERENCES,
+  createDatasetRentReferenceProvider,
+  formatRentReference,
+  normalizeRentActivity,
+  normalizeRentZone,
+  parseRentReferences,
+  parseRentReferencesCsv,
+  setRentReferenceProvider
+} from '../../../server/adk/financial/config/rentReferences';
+import { computeLoyerMarche } from '../../../server/adk/financial/tools/property/calculateLoyerSimulationTool';
+
+/**
+ * Tests pour le referentiel des loyers commerciaux (rent-references.json + CSV)
+ *
+ * Objectif: recherche commune → departement → national, import CSV et
+ * positionnement du loyer actuel cite avec sa reference
+ */
+
+describe('rent-references.json', () => {
+  const provider = createDatasetRentReferenceProvider(RENT_REFERENCES);
+
+  it('retient la reference la plus precise du territoire', () => {
+    const commune = provider.find({ codeInsee: '69123', zone: 'centre_ville', activite: 'restauration' });
+    expect(commune).toMatchObject({ territoire: '69123', niveau: 'commune', zone: 'centre_ville', activite: '*', loyer_m2_median: 290 });
+    expect(commune!.nb_references).toBeUndefined();
+
+    // Commune sans référence pour la zone : repli sur l'activité dans la commune
+    expect(provider.find({ codeInsee: '69123', zone: 'peripherie', activite: 'restauration' }))
+      .toMatchObject({ territoire: '69123', zone: '*', activite: 'restauration' });
+  });
+
+  it('replie sur le departement (code postal) puis sur la reference nationale', () => {
+    expect(provider.find({ codePostal: '33000', zone: 'centre_ville' })).toMatchObject({ territoire: '33', niveau: 'departement' });
+
+    const national = provider.find({ codeInsee: '23096', zone: 'rural', activite: 'tabac_presse' })!;
+    expect(national).toMatchObject({ territoire: 'FR', niveau: 'national', zone: 'rural', activite: 'tabac_presse' });
+    expect(national.source).toContain('Estimation indicative');
+  });
+
+  it('rejette des quartiles incoherents ou une source inconnue', () => {
+    const invalid = {
+      ...RENT_REFERENCES,
+      references: [
+        ...RENT_REFERENCES.references,
+        { ...RENT_REFERENCES.references[0], territoire: '01', loyer_m2_q1: 300, source: 'inconnue' }
+      ]
+    };
+    expect(() => parseRentReferences(invalid, 'fixture.json')).toThrow(/Quartiles attendus.*Source inconnue: inconnue/);
+  });
+
+  it('normalise les libelles de zone et d\'activite', () => {
+    expect(normalizeRentZone('Centre-Ville')).toBe('centre_ville');
+    expect(normalizeRentZone('Centre commercial Auchan')).toBe('zone_commerciale');
+    expect(normalizeRentZone('Périphérie')).toBe('peripherie');
+    expect(normalizeRentActivity('Tabac / Presse / Loto')).toBe('tabac_presse');
+    expect(normalizeRentActivity('', '56.10A')).toBe('restauration');
+    expect(normalizeRentActivity(undefined, '62.01Z')).toBeNull();
+  });
+});
+
+describe('parseRentReferencesCsv', () => {
+  const csv = [
+    'territoire;libelle;zone;activite;loyer_m2_q1;loyer_m2_median;loyer_m2_q3;nb_references;source;annee',
+    '35238;Rennes;centre_ville;;180;245,5;330;212;Observatoire CCI Ille-et-Vilaine;2024',
+    'FR;France entière;;;110;160;240;18500;Observatoire CCI Ille-et-Vilaine;2024'
+  ].join('\r\n');
+
+  it('importe un export CSV (separateur ";", decimales avec virgule)', () => {
+    const dataset = parseRentReferencesCsv(csv, 'loyers-rennes.csv');
+
+    expect(dataset.version).toBe('csv:loyers-rennes.csv');
+    expect(dataset.sources).toEqual({ observatoire_cci_ille_et_vilaine_2024: { label: 'Observatoire CCI Ille-et-Vilaine', annee: 2024 } });
+    const match = createDatasetRentReferenceProvider(dataset, 'cci-35').find({ codeInsee: '35238', zone: 'centre_ville' })!;
+    expect(match).toMatchObject({ fournisseur: 'cci-35', loyer_m2_median: 245.5, nb_references: 212, activite: '*' });
+    expect(formatRentReference(match)).toContain('médiane 245,5 €/m²/an, sur 212 références (Observatoire CCI Ille-et-Vilaine, 2024)');
+  });
+
+  it('signale les colonnes manquantes', () => {
+    expect(() => parseRentReferencesCsv('territoire,libelle,zone\nFR,France,', 'partiel.csv'))
+      .toThrow(/colonnes manquantes: activite, loyer_m2_q1/);
+  });
+
+  it('accepte un export sans nombre de references', () => {
+    const dataset = parseRentReferencesCsv([
+      'territoire;libelle;zone;activite;loyer_m2_q1;loyer_m2_median;loyer_m2_q3;source;annee',
+      'FR;France entière;;;110;160;240;Estimation interne;2025'
+    ].join('\n'), 'estimation.csv');
+
+    expect(dataset.references[0].nb_references).toBeUndefined();
+  });
+});
+
+describe('computeLoyerMarche', () => {
+  afterEach(() => setRentReferenceProvider(null));
+
+  it('cite la reference et positionne un loyer hors marche', () => {
+    const result = computeLoyerMarche({
+      loyerActuelAnnuel: 45000,
+      surfaceM2: 100,
+      codeInsee: '69123',
+      zone: 'Centre-ville',
+      typeCommerce: 'Brasserie'
+    })!;
+
+    expect(result.loyerMarche).toMatchObject({ prixM2Estime: 290, annuelEstime: 29000, source: 'referentiel' });
+    expect(result.loyerMarche.referenceLibelle).toContain('Lyon (commune), centre-ville, toutes activités — médiane 290 €/m²/an, estimation sans échantillon de baux (Estimation indicative');
+    expect(result.loyerMarche.referenceLibelle).not.toMatch(/références/);
+    expect(result.comparaison).toMatchObject({ prixM2Actuel: 450, ecartAnnuel: 16000, ecartPourcentage: 55, appreciation: 'desavantageux' });
+    expect(result.comparaison!.argument).toContain('au-dessus du 3e quartile');
+  });
+
+  it('utilise le fournisseur configure ou le prix renseigne', () => {
+    setRentReferenceProvider({ name: 'test', find: () => null });
+    expect(computeLoyerMarche({ loyerActuelAnnuel: 12000, surfaceM2: 60 })).toBeNull();
+
+    const user = computeLoyerMarche({ loyerActuelAnnuel: 12000, surfaceM2: 60, prixMarcheM2Annuel: 200 })!;
+    expect(user.loyerMarche).toMatchObject({ source: 'utilisateur', reference: null, annuelEstime: 12000 });
+    expect(user.comparaison?.appreciation).toBe('marche');
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import {
+  SECTOR_REFERENCES,
+  loadSectorReferences,
+  nafFallbackChain,
+  parseSectorReferences,
+  resolveSectorReference
+} from '../../../server/adk/financial/config/sectorReferences';
+import { findSectorBenchmark, DEFAULT_BENCHMARK } from '../../../server/adk/financial/config/sectorBenchmarks';
+import { findValuationCoefficients } from '../../../server/adk/financial/config/valuationCoefficients';
+import { SECTOR_MAPPING } from '../../../server/adk/financial/config/sectorMapping';
+import { NAF_LABELS } from '../../../server/adk/config/nafCodes';
+
+/**
+ * Tests pour le referentiel sectoriel (data/sector-references.json)
+ *
+ * Objectif: referentiel valide, couverture de tous les codes NAF connus,
+ * recherche hierarchique et provenance des valeurs retenues
+ */
+
+describe('sector-references.json', () => {
+  it('charge et valide le referentiel', () => {
+    const dataset = loadSectorReferences();
+
+    expect(dataset.sectors.length).toBeGreaterThanOrEqual(40);
+    expect(Object.keys(dataset.sources)).toContain('benchmarks_2024');
+  });
+
+  it('couvre tous les codes NAF connus et tous les secteurs du formulaire', () => {
+    const codes = [...Object.keys(NAF_LABELS), ...Object.values(SECTOR_MAPPING)];
+
+    const missing = codes.filter(code =>
+      !resolveSectorReference(code, 'benchmark') || !resolveSectorReference(code, 'valuation')
+    );
+    expect(missing).toEqual([]);
+  });
+
+  it('remonte la hierarchie NAF jusqu\'au premier niveau reference', () => {
+    expect(nafFallbackChain('47.26Z').map(c => c.code)).toEqual(['47.26Z', '47.26', '47.2', '47']);
+    expect(nafFallbackChain('invalide')).toEqual([]);
+
+    // Tabac-presse saisi en sous-classe : classe 47.26
+    const tabac = findSectorBenchmark('47.26Z')!;
+    expect(tabac.nafCode).toBe('47.26');
+    expect(tabac.provenance).toMatchObject({ codeRetenu: '47.26', niveau: 'classe', annee: 2024 });
+
+    // Fleuriste et caviste ne retombent plus sur la moyenne generale
+    expect(findSectorBenchmark('47.76Z')!.sector).toContain('Fleuriste');
+    expect(findSectorBenchmark('47.25Z')!.sector).toContain('Caviste');
+
+    // Jeux et jouets : groupe 47.6
+    expect(findValuationCoefficients('47.65Z')!.provenance).toMatchObject({ codeRetenu: '47.6', niveau: 'groupe' });
+
+    // Secteur hors referentiel : benchmark par defaut
+    expect(findSectorBenchmark('01.11')).toBeNull();
+    expect(DEFAULT_BENCHMARK.provenance!.niveau).toBe('defaut');
+  });
+
+  it('conserve les valeurs des secteurs historiques', () => {
+    expect(findSectorBenchmark('47.7')!.ratios.rotation_stocks_jours).toBe(90);
+    expect(findValuationCoefficients('47.7')!.ebeMultiple).toEqual({ bas: 1.5, median: 2.5, haut: 3.5 });
+    expect(findValuationCoefficients('47.73')!.ebeMultiple.median).toBe(5.5);
+  });
+
+  it('rejette un referentiel invalide', () => {
+    const invalid = {
+      ...SECTOR_REFERENCES,
+      sectors: [
+        ...SECTOR_REFERENCES.sectors,
+        { ...SECTOR_REFERENCES.sectors[0] },
+        { nafCode: '47.99', sector: 'Test', benchmark: { ...SECTOR_REFERENCES.default.benchmark, source: 'inconnue' } },
+        { nafCode: '47.98', sector: 'Test', valuation: { ...SECTOR_REFERENCES.default.valuation, ebeMultiple: { bas: 4, median: 3, haut: 5 } } }
+      ]
+    };
+
+    expect(() => parseSectorReferences(invalid, 'fixture.json')).toThrow(/Code NAF en double/);
+    expect(() => parseSectorReferences(invalid, 'fixture.json')).toThrow(/Source inconnue: inconnue/);
+    expect(() => parseSectorReferences(invalid, 'fixture.json')).toThrow(/bas <= median <= haut/);
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { computeSensitivity } from '../../../server/adk/financial/tools/planning/sensitivityAnalysisTool';
+import type { BusinessPlanData } from '../../../server/adk/financial/tools/planning/businessPlanDynamiqueTool';
+
+/**
+ * Tests pour l'analyse de sensibilité (tornado) du ratio de couverture
+ *
+ * Objectif: leviers classés par amplitude, effets dans le bon sens,
+ * seuil de rupture cohérent avec le ratio recalculé
+ */
+
+const data: BusinessPlanData = {
+  comptable: {
+    yearsAnalyzed: [2024],
+    sig: {
+      '2024': {
+        chiffre_affaires: { valeur: 400000 },
+        ventes_marchandises: { valeur: 300000 },
+        production_vendue_services: { valeur: 100000 },
+        marge_commerciale: { valeur: 120000 },
+        ebe: { valeur: 60000 },
+        salaires_personnel: { valeur: 60000 },
+        charges_sociales_personnel: { valeur: 20000 },
+        autres_achats_charges_externes: { valeur: 50000 }
+      }
+    }
+  },
+  valorisation: null,
+  immobilier: null,
+  userComments: null,
+  businessInfo: { secteurActivite: '56.10' }
+};
+
+const hypotheses = { prixAchat: 250000, apportPersonnel: 75000, loyerNegocie: 24000 };
+
+describe('computeSensitivity', () => {
+  const result = computeSensitivity(hypotheses, data);
+
+  it('classe les leviers par amplitude décroissante', () => {
+    expect(result.tornado).toHaveLength(6);
+    const amplitudes = result.tornado.map(t => t.amplitude);
+    expect(amplitudes).toEqual([...amplitudes].sort((a, b) => b - a));
+  });
+
+  it('mesure les effets dans le bon sens', () => {
+    const loyer = result.tornado.find(t => t.cle === 'loyer')!;
+    const plus20 = loyer.variations.find(v => v.variation_pct === 20)!;
+    const moins20 = loyer.variations.find(v => v.variation_pct === -20)!;
+
+    expect(plus20.valeur).toBe(28800);
+    expect(plus20.ratioCouvertureDette).toBeLessThan(result.base.ratioCouvertureDette);
+    expect(moins20.ratioCouvertureDette).toBeGreaterThan(result.base.ratioCouvertureDette);
+    expect(plus20.pointMort).toBeGreaterThan(moins20.pointMort);
+  });
+
+  it('trouve le seuil de rupture du ratio de couverture', () => {
+    expect(result.base.ratioCouvertureDette).toBeGreaterThan(1.2);
+
+    const salaires = result.seuils.find(s => s.cle === 'salaires')!;
+    expect(salaires.statut).toBe('seuil_trouve');
+    expect(salaires.variation_pct).toBeGreaterThan(0);
+
+    // Au seuil, le ratio recalculé est juste sous 1.2
+    const auSeuil = computeSensitivity(hypotheses, {
+      ...data,
+      userComments: { frais_personnel_N1: salaires.valeur_seuil! + 100 }
+    });
+    expect(auSeuil.base.ratioCouvertureDette).toBeLessThan(1.2);
+  });
+
+  it('refuse un plan sans emprunt', () => {
+    expect(() => computeSensitivity({ prixAchat: 100000, apportPersonnel: 100000 }, data)).toThrow();
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { computeSig, reconcileSig } from '../../../server/adk/financial/tools/accounting/sigEngine';
+
+/**
+ * Tests pour le moteur SIG déterministe
+ *
+ * Objectif: les SIG injectés par Gemini Vision sont vérifiés
+ * arithmétiquement contre le compte de résultat extrait
+ */
+
+// Compte de résultat tel qu'extrait par Vision (totaux financiers / exceptionnels seulement)
+const compteResultat = {
+  ventes_marchandises: 120000,
+  production_vendue_services: 80000,
+  achats_marchandises: 85000,
+  variation_stock_marchandises: -5000,
+  autres_achats_charges_externes: 30000,
+  impots_taxes: 4000,
+  salaires_traitements: 40000,
+  charges_sociales: 15000,
+  dotations_amortissements_immob: 6000,
+  autres_charges: 1000,
+  total_produits_financiers: 500,
+  total_charges_financieres: 2500,
+  total_produits_exceptionnels: 0,
+  total_charges_exceptionnelles: 1000,
+  impots_sur_benefices: 3000
+};
+
+describe('computeSig', () => {
+  it('recalcule la cascade des SIG depuis les postes', () => {
+    const sig = computeSig(compteResultat);
+
+    expect(sig.chiffre_affaires).toEqual({ valeur: 200000, pct_ca: 100 });
+    expect(sig.marge_commerciale.valeur).toBe(40000);      // 120000 - (85000 - 5000)
+    expect(sig.production_exercice.valeur).toBe(80000);
+    expect(sig.marge_brute_globale.valeur).toBe(120000);
+    expect(sig.valeur_ajoutee.valeur).toBe(90000);
+    expect(sig.ebe).toEqual({ valeur: 31000, pct_ca: 15.5 });
+    expect(sig.resultat_exploitation.valeur).toBe(24000);
+    expect(sig.resultat_courant.valeur).toBe(22000);
+    expect(sig.resultat_net.valeur).toBe(18000);
+  });
+
+  it('isole la rémunération de l\'exploitant des charges de personnel', () => {
+    const sig = computeSig(compteResultat, { remuneration: 25000, cotisations: 8000 });
+
+    expect(sig.salaires_personnel.valeur).toBe(15000);
+    expect(sig.charges_sociales_personnel.valeur).toBe(7000);
+    expect(sig.charges_exploitant.valeur).toBe(33000);
+    expect(sig.ebe.valeur).toBe(31000);
+  });
+});
+
+describe('reconcileSig', () => {
+  const computed = computeSig(compteResultat);
+
+  it('accepte des SIG injectés identiques (deux formats)', () => {
+    const result = reconcileSig(computed, {
+      chiffre_affaires: { valeur: 200000, pct_ca: 100 },
+      marge_commerciale: 40000,
+      valeur_ajoutee: { valeur: 90000 },
+      ebe: { valeur: 31000, pct_ca: 15.5 },
+      resultat_exploitation: { valeur: 24000 },
+      resultat_courant: { valeur: 22000 },
+      resultat_net: { valeur: 18000 }
+    });
+
+    expect(result.discrepancies).toEqual([]);
+    expect(result.fields.find(f => f.field === 'production_exercice')?.status).toBe('absent');
+  });
+
+  it('signale un écart au-delà de la tolérance', () => {
+    const result = reconcileSig(computed, {
+      chiffre_affaires: { valeur: 200000 },
+      ebe: { valeur: 49952 },          // Valeur lue sur une autre colonne par le LLM
+      resultat_net: { valeur: 18600 }  // 600 € d'écart < 0.5% du CA (1000 €)
+    });
+
+    expect(result.tolerance).toBe(1000);
+    expect(result.discrepancies).toHaveLength(1);
+    expect(result.discrepancies[0]).toMatchObject({ field: 'ebe', computed: 31000, injected: 49952, ecart: 18952 });
+  });
+
+  it('applique la tolérance configurée', () => {
+    const result = reconcileSig(computed, { resultat_net: { valeur: 18600 } }, { tolerancePct: 0.1 });
+    expect(result.discrepancies.map(d => d.field)).toEqual(['resultat_net']);
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import {
+  TRAVAUX_COSTS,
+  matchTravauxItem,
+  parseTravauxCosts,
+  travauxQuantity
+} from '../../../server/adk/financial/config/travauxCosts';
+import { computeTravaux, etatFromPhoto, photoConstats } from '../../../server/adk/financial/tools/property/estimateTravauxTool';
+
+/**
+ * Tests pour la bibliotheque de couts travaux (travaux-costs.json) et la checklist ERP/PMR
+ *
+ * Objectif: chaque ligne de travaux est chiffree depuis un poste de la bibliotheque,
+ * chaque point ERP non conforme devient une ligne obligatoire et les constats photos
+ * sans poste ne sont pas chiffres
+ */
+
+describe('travaux-costs.json', () => {
+  const item = (id: string) => TRAVAUX_COSTS.items.find(i => i.id === id)!;
+
+  it('calcule les quantites selon l\'unite et la surface', () => {
+    expect(travauxQuantity(item('rafraichissement_peinture_sols'), 80)).toBe(80);
+    expect(travauxQuantity(item('rafraichissement_peinture_sols'), 0)).toBe(60);
+    expect(travauxQuantity(item('extincteurs'), 450)).toBe(3);
+    expect(travauxQuantity(item('extincteurs'), 80)).toBe(1);
+    expect(travauxQuantity(item('sanitaires_pmr'), 80)).toBe(1);
+  });
+
+  it('rattache un constat libre au poste le plus specifique', () => {
+    expect(matchTravauxItem('Remplacement de la vitrine fissurée')?.id).toBe('vitrine');
+    expect(matchTravauxItem('Ravalement de la façade')?.id).toBe('ravalement');
+    expect(matchTravauxItem('Toilettes PMR absentes')?.id).toBe('sanitaires_pmr');
+    expect(matchTravauxItem('Fils électriques apparents')?.id).toBe('diagnostic_electrique');
+    expect(matchTravauxItem('Ajouter des plantes vertes')).toBeNull();
+  });
+
+  it('rejette une fourchette inversee ou un poste inconnu', () => {
+    const invalid = {
+      ...TRAVAUX_COSTS,
+      items: [...TRAVAUX_COSTS.items, { ...TRAVAUX_COSTS.items[0], id: 'rampe_test', prix_bas: 9000 }],
+      travaux_par_etat: { ...TRAVAUX_COSTS.travaux_par_etat, mauvais: ['inexistant'] }
+    };
+    expect(() => parseTravauxCosts(invalid, 'fixture.json')).toThrow(/prix_bas <= prix_haut.*Poste inconnu: inexistant/);
+  });
+});
+
+describe('computeTravaux', () => {
+  it('chiffre les points ERP non conformes et laisse les autres a verifier', () => {
+    const travaux = computeTravaux({
+      surfaceM2: 80,
+      etatGeneral: 'moyen',
+      checklistErp: [
+        { id: 'rampe_acces', conforme: false, commentaire: 'Marche de 15 cm' },
+        { id: 'largeur_porte', conforme: true },
+        { id: 'sanitaires_pmr', conforme: true }
+      ]
+    });
+
+    expect(travaux.conformite_erp).toBe('non_conforme');
+    expect(travaux.accessibilite_pmr).toBe(false);
+    expect(travaux.checklist_erp.find(p => p.id === 'rapport_electrique')?.statut).toBe('a_verifier');
+
+    const rampe = travaux.travaux_obligatoires.find(t => t.item_id === 'rampe_acces_pmr')!;
+    expect(rampe).toMatchObject({ estimation_basse: 1500, estimation_haute: 6000, sources: ['checklist_erp'], constats: ['Marche de 15 cm'] });
+    expect(travaux.travaux_recommandes[0]).toMatchObject({ item_id: 'rafraichissement_peinture_sols', quantite: 80, estimation_basse: 2400 });
+    expect(travaux.budget_total).toEqual({ obligatoire_bas: 3500, obligatoire_haut: 10000, recommande_bas: 2400, recommande_haut: 4000 });
+  });
+
+  it('rattache les constats photos aux postes sans estimation libre', () => {
+    const photo = {
+      etat_general: { devanture: 'bon', interieur: 'moyen' },
+      travaux: {
+        urgents: ['Présence d\'humidité sur le mur du fond'],
+        recommandes: ['Rafraîchissement peinture murs'],
+        optionnels: ['Ajouter des plantes vertes']
+      },
+      budget_travaux: { fourchette_basse: 40000, detail_postes: [{ categorie: 'Humidité', priorite: 'urgente' }] }
+    };
+    const travaux = computeTravaux({ surfaceM2: 50, etatGeneral: etatFromPhoto(photo), constatsPhoto: photoConstats(photo) });
+
+    expect(travaux.etat_general).toBe('moyen');
+    expect(travaux.travaux_obligatoires[0]).toMatchObject({ item_id: 'traitement_humidite', urgence: 'immediat', sources: ['photo'] });
+    expect(travaux.travaux_obligatoires[0].constats).toHaveLength(2);
+    // Constat déjà couvert par l'état : une seule ligne, sources fusionnées
+    expect(travaux.travaux_recommandes).toHaveLength(1);
+    expect(travaux.travaux_recommandes[0].sources).toEqual(['etat', 'photo']);
+    expect(travaux.constats_non_chiffres).toEqual(['Ajouter des plantes vertes']);
+    expect(travaux.budget_total.obligatoire_haut).toBe(4000 + 6000);
+  });
+});
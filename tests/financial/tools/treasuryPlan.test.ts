@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { applyTreasuryPlanAlert, computeTreasuryPlan, TREASURY_DEFAULTS, type TreasuryPlanData } from '../../../server/adk/financial/tools/planning/treasuryPlanTool';
+import { ALERT_RULES } from '../../../server/adk/financial/config/alertRules';
+
+/**
+ * Tests pour le plan de trésorerie mensuel post-reprise
+ *
+ * Objectif: saisonnalité respectée, décalage de TVA, échéances et point bas
+ * cohérents avec le plan de financement, alerte TRESO_006 si trésorerie négative
+ */
+
+const data: TreasuryPlanData = {
+  comptable: {
+    sig: {
+      '2024': {
+        chiffre_affaires: { valeur: 360000 },
+        valeur_ajoutee: { valeur: 180000 },
+        autres_achats_charges_externes: { valeur: 60000 },
+        salaires_personnel: { valeur: 60000 },
+        charges_sociales_personnel: { valeur: 24000 }
+      }
+    },
+    ratios: { rotation_stocks_jours: 30 }
+  },
+  userComments: null,
+  businessInfo: { secteurActivite: '' },
+  businessPlan: null
+};
+
+describe('computeTreasuryPlan', () => {
+  it('mensualise le CA et décale la TVA d\'un mois', () => {
+    const plan = computeTreasuryPlan(data, { tresorerieInitiale: 50000 });
+
+    expect(plan.source).toBe('comptes');
+    expect(plan.mois).toHaveLength(TREASURY_DEFAULTS.NB_MOIS);
+    expect(plan.mois[0].ca_ht).toBe(30000);
+
+    // Achats consommés = 360k - 180k - 60k = 120k → stock de 30 jours
+    expect(plan.mois[0].stock).toBe(Math.round(120000 * 30 / 365));
+    expect(plan.mois[0].tva_nette).toBe(0);
+    // TVA nette = (30k - 10k achats - 5k charges) × 20%
+    expect(plan.mois[1].tva_nette).toBe(3000);
+  });
+
+  it('applique la saisonnalité saisie par l\'utilisateur', () => {
+    const caMensuel = [10, 10, 10, 10, 10, 10, 40, 40, 10, 10, 10, 10];
+    const plan = computeTreasuryPlan(data, { caMensuel, moisDebut: 6, tresorerieInitiale: 0 });
+
+    expect(plan.saisonnalite).toBe('CA mensuel saisi');
+    expect(plan.mois[0].label).toBe('M1 (juin)');
+    expect(plan.mois[1].ca_ht).toBe(80000); // juillet : 360k × 40 / 180
+    expect(plan.mois[1].ca_ht).toBeGreaterThan(plan.mois[0].ca_ht);
+  });
+
+  it('déduit la trésorerie de départ du montage et détecte un point bas non couvert', () => {
+    const plan = computeTreasuryPlan({
+      ...data,
+      userComments: {
+        transactionFinancing: {
+          initial: {
+            total_investissement: 320000,
+            stock_fonds_roulement: 5000,
+            tva_sur_honoraires: 4000,
+            apport_personnel: 60000,
+            pret_principal: 240000,
+            pret_relais_tva: 20000,
+            duree_annees: 7,
+            taux_interet: 4
+          }
+        }
+      }
+    }, { stockInitial: 20000 });
+
+    // Ressources 320k - emplois 320k + enveloppe stock 5k, stock de 20k payé en M1
+    expect(plan.tresorerie_initiale).toBe(5000);
+    // Remboursement de TVA au terme du relais (6 mois), qui rembourse le relais
+    expect(plan.mois[5].remboursement_tva).toBe(20000);
+    expect(plan.mois[5].service_dette).toBeGreaterThan(20000);
+
+    expect(plan.tresorerie_min).toBeLessThan(0);
+    expect(plan.apport_couvre).toBe(false);
+    expect(plan.besoin_financement).toBe(-plan.tresorerie_min);
+
+    const rule = ALERT_RULES.find(r => r.id === 'TRESO_006')!;
+    const ctx: any = { planTresorerie: plan };
+    expect(rule.condition(ctx)).toBe(true);
+    expect(rule.messageTemplate(rule.extractValues(ctx))).toContain(plan.mois_min);
+  });
+
+  it('remplace TRESO_006 dans les alertes de la validation selon le plan final', () => {
+    const plan = computeTreasuryPlan(data, { moisDebut: 1, tresorerieInitiale: 0 });
+    const ancienne = { id: 'TRESO_006', severity: 'critical', message: 'plan sans business plan' };
+    const autre = { id: 'RENT_001', severity: 'warning' };
+
+    const negatif = applyTreasuryPlanAlert({ deterministicAlerts: [autre, ancienne] }, { ...plan, tresorerie_min: -5000, besoin_financement: 5000 });
+    expect((negatif.deterministicAlerts as any[]).map(a => a.id)).toEqual(['TRESO_006', 'RENT_001']);
+    expect((negatif.deterministicAlerts as any[])[0].message).toContain(plan.mois_min);
+
+    const positif = applyTreasuryPlanAlert({ deterministicAlerts: [autre, ancienne] }, { ...plan, tresorerie_min: 1000, besoin_financement: 0 });
+    expect((positif.deterministicAlerts as any[]).map(a => a.id)).toEqual(['RENT_001']);
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { JobQueue } from '../../server/adk/jobs/JobQueue';
+import type { JobRecord, JobRunner } from '../../server/adk/jobs/JobQueue';
+
+/**
+ * Tests JobQueue - File d'analyses en arrière-plan
+ *
+ * Les pipelines sont remplacés par des runners factices (pas d'appel Gemini).
+ */
+
+/** Runner bloqué jusqu'à release() ou jusqu'à l'annulation du job */
+function blockingRunner() {
+  const releases: Array<() => void> = [];
+  const runner: JobRunner = (payload, { onProgress, signal }) => new Promise(resolve => {
+    onProgress('ComptableAgent', 'running');
+    const done = () => resolve({ status: 200, payload: { ok: true, siret: payload.businessInfo?.siret } });
+    releases.push(done);
+    signal.addEventListener('abort', done);
+  });
+  return { runner, release: () => releases.shift()?.() };
+}
+
+const waitFor = async (predicate: () => boolean) => {
+  for (let i = 0; i < 100 && !predicate(); i++) {
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+  expect(predicate()).toBe(true);
+};
+
+describe('JobQueue', () => {
+  let jobsDir: string;
+
+  beforeEach(async () => {
+    jobsDir = await fs.mkdtemp(path.join(os.tmpdir(), 'jobs-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(jobsDir, { recursive: true, force: true });
+  });
+
+  it('execute un job soumis et persiste son resultat', async () => {
+    const { runner, release } = blockingRunner();
+    const queue = new JobQueue({ jobsDir, runners: { professional: runner, financial: runner } });
+
+    const job = queue.submit('financial', { businessInfo: { siret: '12345678900011' } });
+    expect(job.siret).toBe('12345678900011');
+
+    await waitFor(() => queue.get(job.id)!.currentAgent === 'ComptableAgent');
+    release();
+    await waitFor(() => queue.get(job.id)!.status === 'completed');
+    await queue.flush();
+
+    const persisted: JobRecord = JSON.parse(await fs.readFile(path.join(jobsDir, `${job.id}.json`), 'utf8'));
+    expect(persisted).toMatchObject({ status: 'completed', result: { ok: true }, error: null });
+  });
+
+  it('respecte la limite de concurrence', async () => {
+    const { runner, release } = blockingRunner();
+    const queue = new JobQueue({ jobsDir, concurrency: 1, runners: { professional: runner, financial: runner } });
+
+    const first = queue.submit('financial', {});
+    const second = queue.submit('financial', {});
+
+    await waitFor(() => queue.get(first.id)!.status === 'running');
+    expect(queue.get(second.id)!.status).toBe('queued');
+
+    release();
+    await waitFor(() => queue.get(second.id)!.status === 'running');
+    expect(queue.get(first.id)!.status).toBe('completed');
+
+    release();
+    await waitFor(() => queue.get(second.id)!.status === 'completed');
+    await queue.flush();
+  });
+
+  it('annule un job en attente ou en cours', async () => {
+    const { runner } = blockingRunner();
+    const queue = new JobQueue({ jobsDir, concurrency: 1, runners: { professional: runner, financial: runner } });
+
+    const running = queue.submit('financial', {});
+    const queued = queue.submit('financial', {});
+    await waitFor(() => queue.get(running.id)!.status === 'running');
+
+    expect(queue.cancel(queued.id)).toBe(true);
+    expect(queue.get(queued.id)!.status).toBe('cancelled');
+
+    expect(queue.cancel(running.id)).toBe(true);
+    await waitFor(() => queue.get(running.id)!.status === 'cancelled');
+    expect(queue.cancel(running.id)).toBe(false);
+    await queue.flush();
+  });
+
+  it('marque interrompus les jobs persistes en cours sans toucher ceux soumis pendant le chargement', async () => {
+    const interrupted: Partial<JobRecord> = { id: 'ancien', type: 'financial', status: 'running', createdAt: '2025-01-01T00:00:00.000Z', runId: 'run-1' };
+    await fs.writeFile(path.join(jobsDir, 'ancien.json'), JSON.stringify(interrupted), 'utf8');
+
+    const { runner, release } = blockingRunner();
+    const queue = new JobQueue({ jobsDir, runners: { professional: runner, financial: runner } });
+
+    // Job soumis avant la fin du chargement : son fichier est déjà sur disque quand init le lit
+    const submitted = queue.submit('financial', {});
+    await queue.flush();
+    await queue.init();
+
+    expect(queue.get('ancien')).toMatchObject({ status: 'interrupted', runId: 'run-1' });
+    expect(queue.get(submitted.id)!.status).not.toBe('interrupted');
+
+    release();
+    await waitFor(() => queue.get(submitted.id)!.status === 'completed');
+    await queue.flush();
+  });
+
+  it('supprime les jobs termines au-dela de la duree de retention', async () => {
+    const ancien: Partial<JobRecord> = {
+      id: 'expire', type: 'financial', status: 'completed', createdAt: '2025-01-01T00:00:00.000Z',
+      finishedAt: '2025-01-01T00:05:00.000Z', result: { ok: true }
+    };
+    await fs.writeFile(path.join(jobsDir, 'expire.json'), JSON.stringify(ancien), 'utf8');
+
+    const { runner, release } = blockingRunner();
+    const queue = new JobQueue({ jobsDir, retentionMs: 0, runners: { professional: runner, financial: runner } });
+    await queue.init();
+
+    expect(queue.get('expire')).toBeUndefined();
+    await expect(fs.access(path.join(jobsDir, 'expire.json'))).rejects.toThrow();
+
+    // Job terminé : retiré dès le prochain passage de rétention (ici à sa propre fin)
+    const job = queue.submit('financial', {});
+    await waitFor(() => queue.get(job.id)?.status === 'running');
+    release();
+    await waitFor(() => queue.get(job.id) === undefined);
+    await queue.flush();
+    expect(await fs.readdir(jobsDir)).toEqual([]);
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest';
+import { BaseAgent, ParallelAgent, Runner, InMemorySessionService, createEvent } from '@google/adk';
+import type { Event, InvocationContext } from '@google/adk';
+import { GuardedSequentialAgent, collectPipelineErrors } from '../../server/adk/agents/GuardedSequentialAgent';
+
+/**
+ * Tests PipelineConfig - Timeouts et continueOnError du pipeline professionnel
+ *
+ * GuardedSequentialAgent est testé avec des agents factices (pas d'appel Gemini).
+ */
+
+class StubAgent extends BaseAgent {
+  constructor(name: string, private readonly delayMs: number, private readonly fail = false) {
+    super({ name });
+  }
+
+  protected async *runAsyncImpl(context: InvocationContext): AsyncGenerator<Event, void, void> {
+    await new Promise(resolve => setTimeout(resolve, this.delayMs));
+    if (this.fail) throw new Error(`${this.name} crashed`);
+    yield createEvent({
+      invocationId: context.invocationId,
+      author: this.name,
+      content: { role: 'model', parts: [{ text: 'done' }] }
+    });
+  }
+
+  protected async *runLiveImpl(): AsyncGenerator<Event, void, void> {
+    // Non utilisé
+  }
+}
+
+async function runPipeline(agent: BaseAgent): Promise<{ events: Event[]; state: Record<string, any> }> {
+  const sessionService = new InMemorySessionService();
+  await sessionService.createSession({ appName: 'test', userId: 'u', sessionId: 's' });
+  const runner = new Runner({ appName: 'test', agent, sessionService });
+
+  const events: Event[] = [];
+  for await (const event of runner.runAsync({
+    userId: 'u',
+    sessionId: 's',
+    newMessage: { role: 'user', parts: [{ text: 'start' }] }
+  })) {
+    events.push(event);
+  }
+
+  const session = await sessionService.getSession({ appName: 'test', userId: 'u', sessionId: 's' });
+  return { events, state: session!.state };
+}
+
+describe('GuardedSequentialAgent', () => {
+  it('should record an AGENT_TIMEOUT and continue with the next agent', async () => {
+    const pipeline = new GuardedSequentialAgent({
+      name: 'pipeline',
+      subAgents: [new StubAgent('slow', 200), new StubAgent('fast', 0)],
+      agentTimeout: 50
+    });
+
+    const { events, state } = await runPipeline(pipeline);
+
+    expect(events.find(e => e.author === 'slow')?.errorCode).toBe('AGENT_TIMEOUT');
+    expect(events.some(e => e.author === 'fast' && !e.errorCode)).toBe(true);
+    expect(collectPipelineErrors(state)).toHaveLength(1);
+    expect(collectPipelineErrors(state)[0].agent).toBe('slow');
+  });
+
+  it('should skip remaining agents once the global timeout is reached', async () => {
+    const pipeline = new GuardedSequentialAgent({
+      name: 'pipeline',
+      subAgents: [new StubAgent('first', 80), new StubAgent('second', 0)],
+      timeout: 50
+    });
+
+    const { events, state } = await runPipeline(pipeline);
+
+    expect(events.map(e => e.errorCode)).toEqual(['PIPELINE_TIMEOUT', 'PIPELINE_TIMEOUT']);
+    expect(collectPipelineErrors(state).map(e => e.agent)).toEqual(['first', 'second']);
+  });
+
+  it('should propagate errors when continueOnError is false', async () => {
+    const pipeline = new GuardedSequentialAgent({
+      name: 'pipeline',
+      subAgents: [new StubAgent('broken', 0, true), new StubAgent('next', 0)],
+      continueOnError: false
+    });
+
+    await expect(runPipeline(pipeline)).rejects.toThrow('broken crashed');
+  });
+
+  it('should run parallel branches concurrently and isolate a failing branch', async () => {
+    const branch = (name: string, agents: BaseAgent[]) =>
+      new GuardedSequentialAgent({ name, subAgents: agents, agentTimeout: 500 });
+
+    const pipeline = new GuardedSequentialAgent({
+      name: 'pipeline',
+      subAgents: [
+        new StubAgent('preparation', 0),
+        new ParallelAgent({
+          name: 'market_analysis',
+          subAgents: [
+            branch('a_branch', [new StubAgent('a', 100)]),
+            branch('b_branch', [new StubAgent('b', 100, true)]),
+            branch('c_branch', [new StubAgent('c1', 50), new StubAgent('c2', 50)])
+          ]
+        }),
+        new StubAgent('report', 0)
+      ],
+      agentTimeout: 150
+    });
+
+    const start = Date.now();
+    const { events, state } = await runPipeline(pipeline);
+
+    // 3 branches de ~100ms en parallèle (le timeout agent n'est pas appliqué au ParallelAgent)
+    expect(Date.now() - start).toBeLessThan(300);
+    expect(events.filter(e => !e.errorCode).map(e => e.author)).toEqual(
+      expect.arrayContaining(['preparation', 'a', 'c1', 'c2', 'report'])
+    );
+    expect(events.find(e => e.author === 'b')?.errorCode).toBe('AGENT_ERROR');
+    expect(collectPipelineErrors(state).map(e => e.agent)).toEqual(['b']);
+  });
+
+  it('should keep the errors of parallel branches failing together', async () => {
+    const branch = (name: string, agents: BaseAgent[]) =>
+      new GuardedSequentialAgent({ name, subAgents: agents });
+
+    const pipeline = new GuardedSequentialAgent({
+      name: 'pipeline',
+      subAgents: [
+        new ParallelAgent({
+          name: 'market_analysis',
+          subAgents: [
+            branch('a_branch', [new StubAgent('a', 20, true)]),
+            branch('b_branch', [new StubAgent('b', 20, true)])
+          ]
+        })
+      ]
+    });
+
+    const { state } = await runPipeline(pipeline);
+
+    expect(collectPipelineErrors(state).map(e => e.agent).sort()).toEqual(['a', 'b']);
+    expect(collectPipelineErrors(state)[0].error).toMatch(/^AGENT_ERROR: (a|b) crashed$/);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { createEvent, createEventActions } from '@google/adk';
+import { createProgressTracker } from '../../server/adk/utils/progressTracker';
+
+/**
+ * Tests ProgressTracker - Traduction des événements ADK en progression SSE
+ *
+ * Les événements sont construits à la main (pas d'appel Gemini).
+ */
+
+function track() {
+  const calls: { agent: string; status: string; data?: any }[] = [];
+  const tracker = createProgressTracker((agent, status, data) => {
+    calls.push({ agent, status, data });
+  });
+  return { tracker, calls };
+}
+
+describe('createProgressTracker', () => {
+  it('signale le demarrage et la reponse finale d\'un agent une seule fois', () => {
+    const { tracker, calls } = track();
+
+    tracker.handleEvent(createEvent({ author: 'user', content: { role: 'user', parts: [{ text: 'go' }] } }));
+    tracker.handleEvent(createEvent({ author: 'PlacesAgent', content: { role: 'model', parts: [{ functionCall: { name: 'searchPlaces', args: { query: 'tabac' } } }] } }));
+    tracker.handleEvent(createEvent({ author: 'PlacesAgent', content: { role: 'model', parts: [{ text: 'Terminé' }] } }));
+    tracker.finish();
+
+    expect(calls.map(c => `${c.agent}:${c.status}`)).toEqual([
+      'PlacesAgent:running',
+      'PlacesAgent:tool_called',
+      'PlacesAgent:completed'
+    ]);
+    expect(calls[1].data).toEqual({ tool: 'searchPlaces', args: { query: 'tabac' } });
+  });
+
+  it('resume les arguments et resultats des tools ainsi que le stateDelta', () => {
+    const { tracker, calls } = track();
+    const documentText = 'x'.repeat(5000);
+
+    tracker.handleEvent(createEvent({
+      author: 'DocumentExtractionAgent',
+      content: {
+        role: 'model',
+        parts: [
+          { functionCall: { name: 'extractPdf', args: { filename: 'bilan.pdf', content: documentText, pages: [1, 2, 3] } } },
+          { functionResponse: { name: 'extractPdf', response: { success: true, text: documentText, tables: [{}, {}] } } }
+        ]
+      },
+      actions: createEventActions({ stateDelta: { documentExtraction: JSON.stringify({ documents: [{}, {}], ok: true }) } })
+    }));
+
+    const toolCalled = calls.find(c => c.status === 'tool_called')!;
+    expect(toolCalled.data.args.filename).toBe('bilan.pdf');
+    expect(toolCalled.data.args.content.length).toBeLessThan(200);
+    expect(toolCalled.data.args.pages).toBe(3);
+
+    const toolCompleted = calls.find(c => c.status === 'tool_completed')!;
+    expect(toolCompleted.data.summary).toMatchObject({ success: true, tables: 2 });
+    expect(toolCompleted.data.summary.text.length).toBeLessThan(200);
+
+    expect(calls.find(c => c.status === 'state_updated')!.data).toEqual({
+      key: 'documentExtraction',
+      summary: { documents: 2, ok: true }
+    });
+  });
+
+  it('marque en echec un agent avec errorCode et cloture les agents restants', () => {
+    const { tracker, calls } = track();
+
+    tracker.handleEvent(createEvent({ author: 'ComptableAgent', errorCode: 'MALFORMED_FUNCTION_CALL', errorMessage: 'bad call' }));
+    tracker.handleEvent(createEvent({ author: 'ValorisationAgent', content: { role: 'model', parts: [{ functionCall: { name: 'calculateEbeValuation', args: {} } }] } }));
+    tracker.finish(new Error('timeout'));
+
+    expect(calls.filter(c => c.status === 'failed').map(c => [c.agent, c.data])).toEqual([
+      ['ComptableAgent', { errorCode: 'MALFORMED_FUNCTION_CALL', errorMessage: 'bad call' }],
+      ['ValorisationAgent', { errorMessage: 'timeout' }]
+    ]);
+  });
+});